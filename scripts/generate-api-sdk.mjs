@@ -0,0 +1,487 @@
+#!/usr/bin/env node
+/**
+ * Generates the typed API client in src/lib/sdk/generated.ts from api.json.
+ *
+ *   node scripts/generate-api-sdk.mjs          write the generated client
+ *   node scripts/generate-api-sdk.mjs --check  fail if it is out of date, or
+ *                                              if code outside the client
+ *                                              writes an api.json URL by hand
+ *
+ * Every operation becomes one function named after its operationId. Path
+ * parameters come first, then the request body, the query string and the
+ * request config passed through to request().
+ */
+import { readFileSync, writeFileSync, existsSync, readdirSync } from "node:fs";
+import { dirname, relative, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const ROOT = resolve(dirname(fileURLToPath(import.meta.url)), "..");
+const SPEC_PATH = resolve(ROOT, "api.json");
+const OUTPUT_PATH = resolve(ROOT, "src/lib/sdk/generated.ts");
+const SOURCE_PATH = resolve(ROOT, "src");
+
+const METHODS = ["get", "post", "put", "patch", "delete"];
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+// Some operations were exported with hashed ids, they are named from their
+// method and path instead
+const HASHED_ID = /^[0-9a-f]{32}$/;
+const RESERVED = new Set([
+  "break", "case", "catch", "class", "const", "continue", "debugger",
+  "default", "delete", "do", "else", "enum", "export", "extends", "false",
+  "finally", "for", "function", "if", "import", "in", "instanceof", "new",
+  "null", "return", "super", "switch", "this", "throw", "true", "try",
+  "typeof", "var", "void", "while", "with", "yield", "let", "static",
+  "implements", "interface", "package", "private", "protected", "public",
+  "await",
+]);
+
+// Places where api.json is known to be wrong. Each override replaces the
+// schema at `pointer` inside one operation before the client is generated.
+const OVERRIDES = [
+  {
+    // Notification ids are UUIDs, the spec documents them as integers
+    method: "post",
+    path: "/notifications/bulk-mark-as-read",
+    pointer: [
+      "requestBody", "content", "application/json", "schema",
+      "properties", "notification_ids", "items",
+    ],
+    schema: { type: "string" },
+  },
+  {
+    // The media of an update is uploaded, not referenced by path
+    method: "post",
+    path: "/projects/{projectId}/updates",
+    pointer: [
+      "requestBody", "content", "multipart/form-data", "schema",
+      "properties", "file_path",
+    ],
+    schema: { type: "string", format: "binary" },
+  },
+];
+
+// Files that still write api.json URLs by hand instead of calling the
+// generated client, with the reason they haven't moved yet. `--check` fails
+// for any other file that does, and for entries that no longer need to be here.
+const LEGACY_CALLERS = {
+  "src/lib/api.ts":
+    "The 401 interceptor needs the refresh URL to avoid refreshing the refresh call",
+  "src/features/auth/services/authApi.ts":
+    "Maps axios error responses into form errors, which request() flattens",
+  "src/features/notifications/constants/notificationConstants.ts":
+    "/notifications/preferences is not in api.json, it only looks like GET /notifications/{id}",
+  "src/features/profile/services/profileApi.ts":
+    "Mixes spec endpoints with GET /contractor/profile, which is not in api.json",
+  "src/features/profile/services/personalInfoApi.ts":
+    "Builds the profile forms by hand and also calls /supplier/profile, which is not in api.json",
+  "src/features/profile/services/operationalApi.ts":
+    "Builds the operational forms by hand and also calls /contractor/operational, which is not in api.json",
+  "src/features/profile/services/documentApi.ts":
+    "Downloads files as blobs through axios and submits to the local /api/documents route",
+  "src/features/profile/services/achievedProjectsApi.ts":
+    "The achieved projects store relies on the axios errors it throws",
+};
+
+const applyOverrides = (document) => {
+  for (const { method, path, pointer, schema } of OVERRIDES) {
+    const parent = pointer
+      .slice(0, -1)
+      .reduce((node, key) => node?.[key], document.paths[path]?.[method]);
+    const key = pointer[pointer.length - 1];
+    if (!parent?.[key]) {
+      throw new Error(
+        `Override for ${method.toUpperCase()} ${path} no longer matches ` +
+          `api.json at ${pointer.join(".")}`
+      );
+    }
+    parent[key] = schema;
+  }
+  return document;
+};
+
+const spec = applyOverrides(JSON.parse(readFileSync(SPEC_PATH, "utf8")));
+
+// --- Naming ---
+
+const words = (value) =>
+  value
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean);
+
+const capitalize = (word) => word.charAt(0).toUpperCase() + word.slice(1);
+
+const camelCase = (value) => {
+  const [first = "", ...rest] = words(value);
+  const name = first.charAt(0).toLowerCase() + first.slice(1) +
+    rest.map(capitalize).join("");
+  return /^[0-9]/.test(name) ? `_${name}` : name;
+};
+
+const pascalCase = (value) => capitalize(camelCase(value));
+
+const safeIdentifier = (value) => {
+  const name = camelCase(value);
+  return RESERVED.has(name) ? `${name}Id` : name;
+};
+
+const operationName = (method, path, operation) => {
+  const id = operation.operationId;
+  if (id && IDENTIFIER.test(id) && !HASHED_ID.test(id)) {
+    return camelCase(id);
+  }
+  const segments = path
+    .split("/")
+    .filter((segment) => segment && !segment.startsWith("{"));
+  return camelCase([method, ...segments].join(" "));
+};
+
+const propertyKey = (key) => (IDENTIFIER.test(key) ? key : JSON.stringify(key));
+
+// --- Schemas ---
+
+const resolveRef = (ref) => {
+  const [, section, name] = ref.match(/^#\/components\/(\w+)\/(.+)$/) ?? [];
+  if (!section) throw new Error(`Unsupported $ref ${ref}`);
+  return { section, name, target: spec.components?.[section]?.[name] };
+};
+
+const indent = (depth) => "  ".repeat(depth);
+
+const toType = (schema, depth = 0) => {
+  if (!schema || typeof schema !== "object") return "unknown";
+
+  if (schema.$ref) {
+    const { section, name, target } = resolveRef(schema.$ref);
+    return section === "schemas" ? pascalCase(name) : toType(target, depth);
+  }
+
+  let type;
+  if (schema.allOf) {
+    type = schema.allOf.map((item) => toType(item, depth)).join(" & ");
+  } else if (schema.oneOf || schema.anyOf) {
+    type = (schema.oneOf ?? schema.anyOf)
+      .map((item) => toType(item, depth))
+      .join(" | ");
+  } else if (schema.enum) {
+    type = schema.enum.map((value) => JSON.stringify(value)).join(" | ");
+  } else if (Array.isArray(schema.type)) {
+    type = schema.type
+      .map((item) => toType({ ...schema, type: item }, depth))
+      .join(" | ");
+  } else {
+    switch (schema.type) {
+      case "string":
+        type = schema.format === "binary" ? "File" : "string";
+        break;
+      case "integer":
+      case "number":
+        type = "number";
+        break;
+      case "boolean":
+        type = "boolean";
+        break;
+      case "null":
+        type = "null";
+        break;
+      case "array": {
+        const items = toType(schema.items, depth);
+        type = /^[\w."]+$/.test(items) ? `${items}[]` : `Array<${items}>`;
+        break;
+      }
+      case "object":
+      case undefined:
+        type =
+          schema.properties || schema.type === "object"
+            ? toObjectType(schema, depth)
+            : "unknown";
+        break;
+      default:
+        type = "unknown";
+    }
+  }
+
+  return schema.nullable && type !== "unknown" ? `${type} | null` : type;
+};
+
+const toObjectType = (schema, depth) => {
+  const entries = Object.entries(schema.properties ?? {});
+  if (entries.length === 0) {
+    const values =
+      typeof schema.additionalProperties === "object"
+        ? toType(schema.additionalProperties, depth)
+        : "unknown";
+    return `Record<string, ${values}>`;
+  }
+
+  const required = new Set(schema.required ?? []);
+  const lines = entries.map(([key, value]) => {
+    // Multipart arrays are documented as `files[]`, toFormData adds the
+    // brackets itself
+    const name = value.type === "array" ? key.replace(/\[\]$/, "") : key;
+    return `${indent(depth + 1)}${propertyKey(name)}${
+      required.has(key) ? "" : "?"
+    }: ${toType(value, depth + 1)};`;
+  });
+  return `{\n${lines.join("\n")}\n${indent(depth)}}`;
+};
+
+// --- Operations ---
+
+const docComment = (text, depth = 0) => {
+  const line = text?.replace(/\s+/g, " ").replace(/\*\//g, "* /").trim();
+  return line ? `${indent(depth)}/** ${line} */\n` : "";
+};
+
+const requestBodySchema = (operation) => {
+  const content = operation.requestBody?.content ?? {};
+  return (
+    content["application/json"]?.schema ??
+    content["multipart/form-data"]?.schema ??
+    content["application/x-www-form-urlencoded"]?.schema
+  );
+};
+
+// The API wraps payloads as { success, message, data } and a few older
+// endpoints as { success, message, response }
+const responseDataSchema = (operation) => {
+  const [code] = Object.keys(operation.responses ?? {}).filter((status) =>
+    status.startsWith("2")
+  );
+  if (!code) return undefined;
+
+  let response = operation.responses[code];
+  if (response.$ref) response = resolveRef(response.$ref).target ?? {};
+  let schema = response.content?.["application/json"]?.schema;
+  if (schema?.$ref) schema = resolveRef(schema.$ref).target;
+
+  return schema?.properties?.data ?? schema?.properties?.response;
+};
+
+const collectOperations = () => {
+  const operations = [];
+  const names = new Map();
+
+  for (const [path, item] of Object.entries(spec.paths)) {
+    for (const method of METHODS) {
+      const operation = item[method];
+      if (!operation) continue;
+
+      const name = operationName(method, path, operation);
+      if (names.has(name)) {
+        throw new Error(
+          `${method.toUpperCase()} ${path} and ${names.get(name)} are both ` +
+            `named ${name}`
+        );
+      }
+      names.set(name, `${method.toUpperCase()} ${path}`);
+
+      const parameters = [
+        ...(item.parameters ?? []),
+        ...(operation.parameters ?? []),
+      ].map((parameter) =>
+        parameter.$ref ? resolveRef(parameter.$ref).target : parameter
+      );
+
+      operations.push({
+        name,
+        method,
+        path,
+        operation,
+        tag: operation.tags?.[0] ?? "Other",
+        pathParams: [...path.matchAll(/\{([^}]+)\}/g)].map(([, key]) => key),
+        queryParams: parameters.filter((parameter) => parameter.in === "query"),
+      });
+    }
+  }
+
+  return operations;
+};
+
+const renderOperation = ({
+  name,
+  method,
+  path,
+  operation,
+  pathParams,
+  queryParams,
+}) => {
+  const typeName = pascalCase(name);
+  const blocks = [];
+  const args = [];
+
+  for (const key of pathParams) {
+    args.push(`${safeIdentifier(key)}: PathParam`);
+  }
+
+  const bodySchema = requestBodySchema(operation);
+  if (bodySchema) {
+    blocks.push(`export type ${typeName}Body = ${toType(bodySchema)};`);
+    const optional = operation.requestBody.required ? "" : "?";
+    args.push(`body${optional}: ${typeName}Body`);
+  }
+
+  if (queryParams.length > 0) {
+    const lines = queryParams.map(
+      (parameter) =>
+        docComment(parameter.description, 1) +
+        `  ${propertyKey(parameter.name)}${parameter.required ? "" : "?"}: ${
+          toType(parameter.schema, 1)
+        };`
+    );
+    blocks.push(
+      `export interface ${typeName}Query {\n${lines.join("\n")}\n}`
+    );
+    const optional = queryParams.some((parameter) => parameter.required)
+      ? ""
+      : "?";
+    args.push(`query${optional}: ${typeName}Query`);
+  }
+
+  blocks.push(
+    `export type ${typeName}Data = ${toType(responseDataSchema(operation))};`
+  );
+
+  let url = JSON.stringify(path);
+  if (pathParams.length > 0) {
+    url = `\`${path.replace(
+      /\{([^}]+)\}/g,
+      (_, key) => `\${${safeIdentifier(key)}}`
+    )}\``;
+  }
+  if (queryParams.length > 0) url = `withQuery(${url}, query)`;
+
+  args.push("config?: RequestConfig");
+  const requestArgs = [JSON.stringify(method), url];
+  requestArgs.push(bodySchema ? "body" : "undefined", "config");
+
+  const signature = `(\n${args.map((arg) => `  ${arg}`).join(",\n")}\n)`;
+  blocks.push(
+    docComment(operation.summary ?? operation.description) +
+      `export const ${name} = <T = ${typeName}Data>${signature} =>\n` +
+      `  request<T>(${requestArgs.join(", ")});`
+  );
+
+  return blocks.join("\n\n");
+};
+
+const render = () => {
+  const schemas = Object.entries(spec.components?.schemas ?? {}).map(
+    ([name, schema]) => `export type ${pascalCase(name)} = ${toType(schema)};`
+  );
+
+  const sections = [];
+  let currentTag;
+  for (const entry of collectOperations()) {
+    if (entry.tag !== currentTag) {
+      currentTag = entry.tag;
+      sections.push(`// --- ${currentTag} ---`);
+    }
+    sections.push(renderOperation(entry));
+  }
+
+  return [
+    "// This file is generated from api.json by scripts/generate-api-sdk.mjs.",
+    "// Do not edit it by hand, run `npm run api:generate` instead.",
+    "/* eslint-disable */",
+    'import { request, RequestConfig } from "@/lib/apiClient";',
+    'import { PathParam, withQuery } from "./utils";',
+    "",
+    "// --- Schemas ---",
+    "",
+    schemas.join("\n\n"),
+    "",
+    sections.join("\n\n"),
+    "",
+  ].join("\n");
+};
+
+// --- Hand-written URLs ---
+
+const sourceFiles = (directory) =>
+  readdirSync(directory, { withFileTypes: true }).flatMap((entry) => {
+    const path = resolve(directory, entry.name);
+    if (entry.isDirectory()) return sourceFiles(path);
+    return /\.tsx?$/.test(entry.name) ? [path] : [];
+  });
+
+// Finds string literals that match a path of api.json, ignoring comments
+const findHandWrittenUrls = () => {
+  const paths = Object.keys(spec.paths).map(
+    (path) =>
+      new RegExp(
+        "^" +
+          path
+            .replace(/[.*+?^$()|[\]\\]/g, "\\$&")
+            .replace(/\{[^}]+\}/g, "[^/]+") +
+          "$"
+      )
+  );
+  const literal = /(["'`])(\/[A-Za-z][^"'`\s]*)\1/g;
+  const found = new Map();
+
+  for (const file of sourceFiles(SOURCE_PATH)) {
+    const name = relative(ROOT, file).split("\\").join("/");
+    if (name.startsWith("src/lib/sdk/")) continue;
+
+    const code = readFileSync(file, "utf8")
+      .replace(/\/\*[\s\S]*?\*\//g, "")
+      .replace(/^\s*\/\/.*$/gm, "");
+    for (const [, , url] of code.matchAll(literal)) {
+      const path = url.replace(/\$\{[^}]+\}/g, "param").split("?")[0];
+      if (paths.some((pattern) => pattern.test(path))) {
+        found.set(name, [...(found.get(name) ?? []), url]);
+      }
+    }
+  }
+
+  return found;
+};
+
+const checkHandWrittenUrls = () => {
+  const found = findHandWrittenUrls();
+  const problems = [];
+
+  for (const [file, urls] of found) {
+    if (!LEGACY_CALLERS[file]) {
+      problems.push(
+        `${file} writes ${urls.join(", ")} by hand, use the generated client`
+      );
+    }
+  }
+  for (const file of Object.keys(LEGACY_CALLERS)) {
+    if (!found.has(file)) {
+      problems.push(
+        `${file} no longer writes api.json URLs, remove it from LEGACY_CALLERS`
+      );
+    }
+  }
+
+  return problems;
+};
+
+const output = render();
+
+if (process.argv.includes("--check")) {
+  const current = existsSync(OUTPUT_PATH)
+    ? readFileSync(OUTPUT_PATH, "utf8")
+    : "";
+  if (current !== output) {
+    console.error(
+      "src/lib/sdk/generated.ts is out of date with api.json, " +
+        "run `npm run api:generate`."
+    );
+    process.exit(1);
+  }
+  console.log("src/lib/sdk/generated.ts is up to date.");
+
+  const problems = checkHandWrittenUrls();
+  if (problems.length > 0) {
+    problems.forEach((problem) => console.error(problem));
+    process.exit(1);
+  }
+  console.log("No api.json URLs are written by hand outside LEGACY_CALLERS.");
+} else {
+  writeFileSync(OUTPUT_PATH, output);
+  console.log("Generated src/lib/sdk/generated.ts from api.json.");
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { ApiNotificationPreferences } from "@/features/notifications/types";
+import {
+  DEFAULT_NOTIFICATION_SETTINGS,
+  DIGEST_FREQUENCIES,
+} from "@/features/notifications/constants";
+import { toPreferencesPayload } from "@/features/notifications/utils/preferences";
+
+/**
+ * Local stand-in for the notification preferences endpoint, enabled
+ * outside production with
+ * NEXT_PUBLIC_NOTIFICATIONS_API_URL=http://localhost:3000/api/mock
+ *
+ * Preferences are kept per bearer token until the dev server restarts.
+ */
+
+// Kept on globalThis so hot reloads don't drop saved preferences
+const store = globalThis as typeof globalThis & {
+  mockNotificationPreferences?: Map<string, ApiNotificationPreferences>;
+};
+const preferences = (store.mockNotificationPreferences ??= new Map());
+
+const respond = (data: unknown, message: string, status = 200) =>
+  NextResponse.json({ success: status < 400, message, data }, { status });
+
+const isDisabled = () => process.env.NODE_ENV === "production";
+
+const getUserKey = (request: NextRequest) =>
+  request.headers.get("authorization") ?? "guest";
+
+export async function GET(request: NextRequest) {
+  if (isDisabled()) return respond(null, "Not found", 404);
+
+  return respond(
+    preferences.get(getUserKey(request)) ??
+      toPreferencesPayload(DEFAULT_NOTIFICATION_SETTINGS),
+    "Notification preferences retrieved successfully"
+  );
+}
+
+export async function PUT(request: NextRequest) {
+  if (isDisabled()) return respond(null, "Not found", 404);
+
+  const body = await request.json().catch(() => null);
+  if (!body?.channels || !body?.categories) {
+    return respond(null, "Channels and categories are required", 422);
+  }
+  if (!DIGEST_FREQUENCIES.includes(body.digest_frequency)) {
+    return respond(null, "Unknown digest frequency", 422);
+  }
+  const quietHours = body.quiet_hours ?? { enabled: false };
+  if (quietHours.enabled && quietHours.start === quietHours.end) {
+    return respond(
+      null,
+      "Quiet hours must start and end at different times",
+      422
+    );
+  }
+
+  const saved: ApiNotificationPreferences = {
+    channels: body.channels,
+    categories: body.categories,
+    quiet_hours: {
+      enabled: Boolean(quietHours.enabled),
+      start: quietHours.start ?? null,
+      end: quietHours.end ?? null,
+    },
+    digest_frequency: body.digest_frequency,
+  };
+  preferences.set(getUserKey(request), saved);
+
+  return respond(saved, "Notification preferences updated successfully");
+}
@@ -0,0 +1,236 @@
+import { NextRequest, NextResponse } from "next/server";
+import type {
+  MoyasarPayment,
+  MoyasarPaymentStatus,
+  PaymentRefund,
+} from "@/features/payments/types";
+
+/**
+ * Local stand-in for the Moyasar endpoints of the API, enabled outside
+ * production with NEXT_PUBLIC_MOYASAR_API_URL=http://localhost:3000/api/mock
+ *
+ * Test cards: 4000000000000002 is declined, 4000000000000010 is only
+ * authorized (to try capture and void), any other valid card is paid.
+ * Payments without a 3-D Secure step and refunds settle after a few
+ * status polls.
+ */
+
+const DECLINED_CARD = "4000000000000002";
+const AUTHORIZE_ONLY_CARD = "4000000000000010";
+const POLLS_BEFORE_SETTLED = 2;
+
+const SOURCE_TYPES: Record<string, string> = {
+  "credit-card": "creditcard",
+  "stc-pay": "stcpay",
+  "apple-pay": "applepay",
+  sadad: "sadad",
+};
+
+type MockPayment = {
+  payment: MoyasarPayment;
+  polls: number;
+  settlesAs: MoyasarPaymentStatus;
+  refunds: PaymentRefund[];
+  refundPolls: Record<string, number>;
+};
+
+// Kept on globalThis so hot reloads don't drop open payments
+const store = globalThis as typeof globalThis & {
+  mockMoyasarPayments?: Map<string, MockPayment>;
+};
+const payments = (store.mockMoyasarPayments ??= new Map());
+
+const respond = (data: unknown, message: string, status = 200) =>
+  NextResponse.json({ success: status < 400, message, data }, { status });
+
+const settle = (payment: MoyasarPayment, status: MoyasarPaymentStatus) => {
+  payment.status = status;
+  payment.updated_at = new Date().toISOString();
+  if (status === "paid") payment.captured = payment.amount;
+  if (status === "failed" && payment.source) {
+    payment.source.message = "DECLINED";
+  }
+};
+
+const REFUNDABLE_STATUSES: MoyasarPaymentStatus[] = ["paid", "captured"];
+
+const sumRefunds = (mock: MockPayment, status: PaymentRefund["status"]) =>
+  mock.refunds
+    .filter((refund) => refund.status === status)
+    .reduce((sum, refund) => sum + refund.amount, 0);
+
+const getRefundable = (mock: MockPayment) =>
+  REFUNDABLE_STATUSES.includes(mock.payment.status)
+    ? (mock.payment.captured ?? 0) -
+      sumRefunds(mock, "succeeded") -
+      sumRefunds(mock, "pending")
+    : 0;
+
+const settleRefunds = (mock: MockPayment) => {
+  mock.refunds
+    .filter((refund) => refund.status === "pending")
+    .forEach((refund) => {
+      const polls = (mock.refundPolls[refund.id] ?? 0) + 1;
+      mock.refundPolls[refund.id] = polls;
+      if (polls <= POLLS_BEFORE_SETTLED) return;
+
+      refund.status = "succeeded";
+      refund.settled_at = new Date().toISOString();
+      mock.payment.refunded = sumRefunds(mock, "succeeded");
+      if (mock.payment.refunded >= (mock.payment.captured ?? 0)) {
+        settle(mock.payment, "refunded");
+        mock.payment.refunded_at = mock.payment.updated_at;
+      }
+    });
+};
+
+type RouteContext = { params: Promise<{ path: string[] }> };
+
+const isDisabled = () => process.env.NODE_ENV === "production";
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  if (isDisabled()) return respond(null, "Not found", 404);
+
+  const [segment, action] = (await params).path;
+  const body = await request.json().catch(() => ({}));
+
+  if (!action) {
+    const sourceType = SOURCE_TYPES[segment];
+    if (!sourceType) return respond(null, "Unknown payment method", 404);
+
+    const id = crypto.randomUUID();
+    const cardNumber = String(body.card_number ?? "");
+    const settlesAs: MoyasarPaymentStatus =
+      cardNumber === DECLINED_CARD
+        ? "failed"
+        : cardNumber === AUTHORIZE_ONLY_CARD
+        ? "authorized"
+        : "paid";
+
+    // Cards go through a 3-D Secure step that lands straight on the callback
+    let transactionUrl: string | null = null;
+    if (sourceType === "creditcard" && body.callback_url) {
+      const callback = new URL(body.callback_url);
+      callback.searchParams.set("id", id);
+      callback.searchParams.set("status", settlesAs);
+      transactionUrl = callback.toString();
+    }
+
+    const now = new Date().toISOString();
+    const payment: MoyasarPayment = {
+      id,
+      status: "initiated",
+      amount: Number(body.amount) || 0,
+      fee: 0,
+      currency: body.currency || "SAR",
+      description: body.description,
+      captured: 0,
+      refunded: 0,
+      source: {
+        type: sourceType,
+        number: cardNumber ? `XXXX-XXXX-XXXX-${cardNumber.slice(-4)}` : null,
+        transaction_url: transactionUrl,
+      },
+      metadata: body.metadata ?? null,
+      created_at: now,
+      updated_at: now,
+    };
+    payments.set(id, {
+      payment,
+      polls: 0,
+      settlesAs,
+      refunds: [],
+      refundPolls: {},
+    });
+
+    return respond(payment, "Payment created successfully", 201);
+  }
+
+  const mock = payments.get(segment);
+  if (!mock) return respond(null, "Payment not found", 404);
+  const { payment } = mock;
+
+  if (action === "refund") {
+    const refundable = getRefundable(mock);
+    const amount = Number(body.amount) || refundable;
+    if (amount <= 0 || amount > refundable) {
+      return respond(null, "Refund amount exceeds the refundable amount", 422);
+    }
+
+    const refund: PaymentRefund = {
+      id: crypto.randomUUID(),
+      amount,
+      status: "pending",
+      reason: body.reason ?? null,
+      description: body.description ?? null,
+      created_at: new Date().toISOString(),
+    };
+    mock.refunds.push(refund);
+    return respond(refund, "Payment refunded successfully");
+  }
+
+  if (payment.status !== "authorized") {
+    return respond(null, "Only authorized payments can be changed", 422);
+  }
+
+  if (action === "capture") {
+    const amount = Number(body.amount) || payment.amount;
+    settle(payment, "captured");
+    payment.captured = amount;
+    return respond(payment, "Payment captured successfully");
+  }
+
+  if (action === "void") {
+    settle(payment, "voided");
+    payment.voided_at = payment.updated_at;
+    return respond(payment, "Payment voided successfully");
+  }
+
+  return respond(null, "Not found", 404);
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  if (isDisabled()) return respond(null, "Not found", 404);
+
+  const [paymentId, action] = (await params).path;
+  const mock = payments.get(paymentId);
+  if (!mock) return respond(null, "Payment not found", 404);
+
+  switch (action) {
+    case undefined:
+    case "status":
+      if (mock.payment.status === "initiated") {
+        mock.polls += 1;
+        if (mock.polls > POLLS_BEFORE_SETTLED) {
+          settle(mock.payment, mock.settlesAs);
+        }
+      }
+      return respond(mock.payment, "Payment status retrieved successfully");
+    case "refund-status":
+      settleRefunds(mock);
+      return respond(
+        {
+          status: mock.payment.status,
+          refunds: mock.refunds,
+        },
+        "Refund status retrieved successfully"
+      );
+    case "can-refund":
+      return respond(
+        { can_refund: getRefundable(mock) > 0 },
+        "Refund eligibility retrieved successfully"
+      );
+    case "refundable-amount":
+      return respond(
+        { refundable_amount: getRefundable(mock) },
+        "Refundable amount retrieved successfully"
+      );
+    case "refunded-amount":
+      return respond(
+        { refunded_amount: sumRefunds(mock, "succeeded") },
+        "Refunded amount retrieved successfully"
+      );
+    default:
+      return respond(null, "Not found", 404);
+  }
+}
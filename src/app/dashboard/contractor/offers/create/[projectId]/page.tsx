@@ -1,71 +1,62 @@
-// "use client";
-// import React from "react";
-// import { useTranslations } from "next-intl";
-// import { useRouter } from "next/navigation";
-// import { ArrowLeft } from "lucide-react";
-
-// import { Button } from "@/components/ui/button";
-// import { CreateCompleteOfferForm } from "@/features/offers/components";
-
-// interface CreateCompleteOfferPageProps {
-//   params: {
-//     projectId: string;
-//   };
-// }
-
-// export default function CreateCompleteOfferPage({
-//   params,
-// }: CreateCompleteOfferPageProps) {
-//   const t = useTranslations();
-//   const router = useRouter();
-//   const { projectId } = params;
-
-//   const handleSuccess = () => {
-//     router.push("/dashboard/contractor/offers");
-//   };
+"use client";
+import React from "react";
+import { useTranslations } from "next-intl";
+import { useRouter } from "next/navigation";
+import { ArrowLeft } from "lucide-react";
+import { twMerge } from "tailwind-merge";
+import { Button } from "@/shared/components/ui/button";
+import { CreateCompleteOfferForm } from "@/features/offers/components";
+import { useLocale } from "@/hooks/useLocale";
+
+interface CreateCompleteOfferPageProps {
+  params: Promise<{
+    projectId: string;
+  }>;
+}
 
-//   const handleCancel = () => {
-//     router.back();
-//   };
+export default function CreateCompleteOfferPage({
+  params,
+}: CreateCompleteOfferPageProps) {
+  const t = useTranslations("offers.createCompleteOffer");
+  const router = useRouter();
+  const { currentLocale } = useLocale();
+  const { projectId } = React.use(params);
 
-//   return (
-//     <div className="container mx-auto py-6 space-y-6">
-//       {/* Header */}
-//       <div className="flex items-center gap-4">
-//         <Button
-//           variant="ghost"
-//           size="sm"
-//           onClick={handleCancel}
-//           className="flex items-center gap-2"
-//         >
-//           <ArrowLeft className="h-4 w-4" />
-//           Back
-//         </Button>
-//         <div>
-//           <h1 className="text-2xl font-bold text-gray-900">
-//             Create Complete Offer
-//           </h1>
-//           <p className="text-gray-600">
-//             Submit a comprehensive offer with project phases and payment plans
-//           </p>
-//         </div>
-//       </div>
+  const handleSuccess = () => {
+    router.push("/dashboard/contractor/offers");
+  };
 
-//       {/* Form */}
-//       <CreateCompleteOfferForm
-//         projectId={projectId}
-//         projectTitle="Project Title" // This should be fetched from the project data
-//         onSuccess={handleSuccess}
-//         onCancel={handleCancel}
-//       />
-//     </div>
-//   );
-// }
+  const handleCancel = () => {
+    router.back();
+  };
 
-export default function CreateCompleteOfferPage() {
   return (
-    <div>
-      <h1>Create Complete Offer</h1>
+    <div className="container mx-auto py-6 space-y-6">
+      {/* Header */}
+      <div className="flex items-center gap-4">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={handleCancel}
+          className="flex items-center gap-2"
+        >
+          <ArrowLeft
+            className={twMerge("h-4 w-4", currentLocale === "ar" && "rotate-180")}
+          />
+          {t("back")}
+        </Button>
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">{t("title")}</h1>
+          <p className="text-gray-600">{t("subtitle")}</p>
+        </div>
+      </div>
+
+      {/* Form */}
+      <CreateCompleteOfferForm
+        projectId={projectId}
+        onSuccess={handleSuccess}
+        onCancel={handleCancel}
+      />
     </div>
   );
 }
@@ -11,6 +11,7 @@ import {
   ChevronRight,
   FolderOpen,
   Building,
+  CreditCard,
 } from "lucide-react";
 
 interface SidebarItem {
@@ -49,6 +50,12 @@ const EditProfileLayout = ({ children }: { children: React.ReactNode }) => {
       icon: Building,
       description: "Operational and technical details",
     },
+    {
+      title: t("sidebar.plan"),
+      href: "/dashboard/contractor/profile/edit/plan",
+      icon: CreditCard,
+      description: "Subscription plan selection",
+    },
   ];
 
   const isActive = (href: string) => {
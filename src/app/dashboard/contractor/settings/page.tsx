@@ -2,6 +2,7 @@
 import React, { useState, useRef } from "react";
 import {
   Bell,
+  Landmark,
   Shield,
   FileText,
   HelpCircle,
@@ -12,10 +13,12 @@ import {
 import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { useTranslations } from "next-intl";
+import { NOTIFICATION_PREFERENCES_ENABLED } from "@/features/notifications/constants";
 import { ThemeToggle } from "@/shared/components/ThemeToggle";
 import LanguageSwitcher from "@/components/LanguageSwitcher";
 import { useAuthStore } from "@/features/auth/store/authStore";
 import { authApi } from "@/features/auth/services/authApi";
+import { CurrentPlanCard } from "@/features/subscriptions/components";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -72,8 +75,17 @@ export default function Page() {
       title: t("menu.notifications.title"),
       description: t("menu.notifications.description"),
       icon: Bell,
-      url: "/dashboard/contractor/profile/notifications",
+      url: "/dashboard/contractor/settings/notifications",
       type: "link",
+      isAvailable: NOTIFICATION_PREFERENCES_ENABLED,
+    },
+    {
+      title: t("menu.bankAccounts.title"),
+      description: t("menu.bankAccounts.description"),
+      icon: Landmark,
+      url: "/dashboard/contractor/settings/bank-accounts",
+      type: "link",
+      isAvailable: true,
     },
     {
       title: t("menu.privacySecurity.title"),
@@ -129,6 +141,9 @@ export default function Page() {
           <div className="flex items-center justify-center text-center p-6">
             <h1 className="text-2xl font-bold text-foreground">{t("title")}</h1>
           </div>
+          <div className="px-4 pb-4">
+            <CurrentPlanCard role="contractor" />
+          </div>
           <div className="space-y-1.5">
             {navigationItems.map((item) => {
               const baseClasses = `group rounded-xl p-4 text-right hover:border-primary/50 hover:shadow-md transition-all duration-200 block ${
@@ -243,6 +258,32 @@ export default function Page() {
                 );
               }
 
+              if (item.isAvailable && item.url) {
+                return (
+                  <Link
+                    key={item.title}
+                    href={item.url}
+                    className={baseClasses}
+                  >
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-3">
+                        <div className="p-2 rounded-lg flex-shrink-0 bg-primary/10 group-hover:bg-primary/20 transition-colors">
+                          {item.icon && (
+                            <item.icon className="w-5 h-5 text-primary" />
+                          )}
+                        </div>
+                        <div className="text-right">
+                          <h3 className="font-semibold text-base text-foreground">
+                            {item.title}
+                          </h3>
+                        </div>
+                      </div>
+                      <ArrowRight className="w-4 h-4 text-muted-foreground transform rtl:rotate-180" />
+                    </div>
+                  </Link>
+                );
+              }
+
               return (
                 <Tooltip key={item.title}>
                   <TooltipTrigger asChild>
@@ -5,7 +5,13 @@ import { useTranslations } from "next-intl";
 import Link from "next/link";
 import { usePathname } from "next/navigation";
 import { cn } from "@/lib/utils";
-import { User, FileText, ChevronRight, Briefcase } from "lucide-react";
+import {
+  User,
+  FileText,
+  ChevronRight,
+  Briefcase,
+  CreditCard,
+} from "lucide-react";
 
 interface SidebarItem {
   title: string;
@@ -37,6 +43,12 @@ const EditProfileLayout = ({ children }: { children: React.ReactNode }) => {
       icon: Briefcase,
       description: "Professional information and profile details",
     },
+    {
+      title: t("sidebar.plan"),
+      href: "/dashboard/engineering_office/profile/edit/plan",
+      icon: CreditCard,
+      description: "Subscription plan selection",
+    },
   ];
 
   const isActive = (href: string) => {
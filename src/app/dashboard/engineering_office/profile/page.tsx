@@ -1,14 +1,14 @@
 "use client";
 import React, { useState } from "react";
 import AvatarUpload from "@/features/profile/components/common/AvatarUpload";
-import { User, FileText, PenLine, Building } from "lucide-react";
+import { User, FileText, PenLine, Building, Star } from "lucide-react";
 import { useTranslations } from "next-intl";
 import { useAuthStore } from "@/features/auth/store";
 import { Button } from "@/shared/components/ui/button";
 import ProfileTabs from "@/features/profile/components/common/ProfileTabs";
 import ProfileTabContent from "@/features/profile/components/engineering_office/EngineeringOfficeProfileTabContent";
 import Link from "next/link";
-import UpgradeToPremium from "@/features/profile/components/common/UpgradeToPremium";
+import { UpgradePlanButton } from "@/features/subscriptions/components";
 
 interface User {
   full_name?: string;
@@ -60,6 +60,12 @@ export default function Page() {
       icon: Building,
       type: "tab",
     },
+    {
+      title: t("tabs.reviews"),
+      description: t("tabs.reviews"),
+      icon: Star,
+      type: "tab",
+    },
   ];
 
   // No special items needed - only tabs
@@ -99,7 +105,7 @@ export default function Page() {
                     {t("editProfile")}
                   </Button>
                 </Link>
-                <UpgradeToPremium className="w-full md:w-auto" />
+                <UpgradePlanButton role="engineering_office" className="w-full md:w-auto" />
               </div>
             </div>
           </div>
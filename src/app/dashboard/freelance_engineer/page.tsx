@@ -1,4 +1,5 @@
 import ProfileCompletionAlert from "@/features/profile/components/ProfileCompletionAlert";
+import { EngineerReviewSummaryCard } from "@/features/reviews/components";
 
 export default function FreelanceEngineerPage() {
   return (
@@ -17,6 +18,8 @@ export default function FreelanceEngineerPage() {
           </p>
         </div>
 
+        <EngineerReviewSummaryCard />
+
         <div className="bg-white dark:bg-gray-800 rounded-lg p-6 shadow-sm">
           <p className="text-gray-600 dark:text-gray-400">
             This dashboard is under development. Complete your profile to get
@@ -0,0 +1,14 @@
+"use client";
+
+import React from "react";
+import { SelectPlanStep } from "@/features/subscriptions/components";
+
+const PlanPage = () => {
+  return (
+    <div className="max-w-6xl mx-auto">
+      <SelectPlanStep role="freelance_engineer" />
+    </div>
+  );
+};
+
+export default PlanPage;
@@ -0,0 +1,46 @@
+"use client";
+
+import React from "react";
+import { useParams, useRouter } from "next/navigation";
+import { useTranslations } from "next-intl";
+import { ArrowLeft } from "lucide-react";
+import { twMerge } from "tailwind-merge";
+import { Button } from "@/shared/components/ui/button";
+import { ContractDetailsView } from "@/features/contracts/components";
+import { useLocale } from "@/hooks/useLocale";
+
+const IndividualContractDetailsPage = () => {
+  const t = useTranslations("contracts");
+  const params = useParams();
+  const router = useRouter();
+  const { currentLocale } = useLocale();
+  const contractId = params.id as string;
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      <div className="flex items-center gap-4">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => router.push("/dashboard/individual/contracts")}
+          className="flex items-center gap-2"
+        >
+          <ArrowLeft
+            className={twMerge("h-4 w-4", currentLocale === "ar" && "rotate-180")}
+          />
+          {t("backToContracts")}
+        </Button>
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">
+            {t("detailsTitle")}
+          </h1>
+          <p className="text-gray-600">{t("detailsSubtitle")}</p>
+        </div>
+      </div>
+
+      <ContractDetailsView party="owner" contractId={contractId} />
+    </div>
+  );
+};
+
+export default IndividualContractDetailsPage;
@@ -1,29 +1,22 @@
-// "use client";
+"use client";
 
-// import React from "react";
-// import { IndividualOffersList } from "@/features/offers/components/individual/IndividualOffersList";
+import React from "react";
+import { useTranslations } from "next-intl";
+import { ReceivedOffersList } from "@/features/offers/components";
 
-// const IndividualOffersPage = () => {
-//   return (
-//     <div className="space-y-6">
-//       <div>
-//         <h1 className="text-2xl font-bold text-gray-900">Received Offers</h1>
-//         <p className="text-gray-600">
-//           Review and manage offers received for your projects
-//         </p>
-//       </div>
+const IndividualOffersPage = () => {
+  const t = useTranslations("offers.received");
 
-//       <IndividualOffersList />
-//     </div>
-//   );
-// };
-
-// export default IndividualOffersPage;
-
-export default function IndividualOffersPage() {
   return (
-    <div>
-      <h1>Individual Offers</h1>
+    <div className="container mx-auto p-6 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">{t("title")}</h1>
+        <p className="text-gray-600">{t("subtitle")}</p>
+      </div>
+
+      <ReceivedOffersList />
     </div>
   );
-} 
\ No newline at end of file
+};
+
+export default IndividualOffersPage;
@@ -0,0 +1,22 @@
+"use client";
+
+import React from "react";
+import { useTranslations } from "next-intl";
+import { MyReportsList } from "@/features/reports/components";
+
+const IndividualReportsPage = () => {
+  const t = useTranslations("reports");
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">{t("pageTitle")}</h1>
+        <p className="text-gray-600">{t("subtitle.owner")}</p>
+      </div>
+
+      <MyReportsList party="owner" />
+    </div>
+  );
+};
+
+export default IndividualReportsPage;
@@ -0,0 +1,22 @@
+"use client";
+
+import React from "react";
+import { useTranslations } from "next-intl";
+import { ContractsList } from "@/features/contracts/components";
+
+const OrganizationContractsPage = () => {
+  const t = useTranslations("contracts");
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">{t("title")}</h1>
+        <p className="text-gray-600">{t("subtitle.owner")}</p>
+      </div>
+
+      <ContractsList party="owner" basePath="/dashboard/organization/contracts" />
+    </div>
+  );
+};
+
+export default OrganizationContractsPage;
@@ -0,0 +1,56 @@
+"use client";
+
+import React from "react";
+import { useParams, useRouter } from "next/navigation";
+import { useTranslations } from "next-intl";
+import { ArrowLeft } from "lucide-react";
+import { twMerge } from "tailwind-merge";
+import { Button } from "@/shared/components/ui/button";
+import { ProjectPhasesView } from "@/features/phases/components";
+import { ProjectUpdatesFeed } from "@/features/updates/components";
+import { ReportIssueButton } from "@/features/reports/components";
+import { MyReviewSection } from "@/features/reviews/components";
+import { useLocale } from "@/hooks/useLocale";
+
+const OrganizationProjectPhasesPage = () => {
+  const t = useTranslations("phases");
+  const params = useParams();
+  const router = useRouter();
+  const { currentLocale } = useLocale();
+  const projectId = params.id as string;
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      <div className="flex items-center gap-4">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => router.push("/dashboard/organization/contracts")}
+          className="flex items-center gap-2"
+        >
+          <ArrowLeft
+            className={twMerge("h-4 w-4", currentLocale === "ar" && "rotate-180")}
+          />
+          {t("backToContracts")}
+        </Button>
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">{t("pageTitle")}</h1>
+          <p className="text-gray-600">{t("ownerSubtitle")}</p>
+        </div>
+        <ReportIssueButton
+          party="owner"
+          projectId={projectId}
+          className="ms-auto"
+        />
+      </div>
+
+      <ProjectPhasesView party="owner" projectId={projectId} />
+
+      <ProjectUpdatesFeed party="owner" projectId={projectId} />
+
+      <MyReviewSection subject="project" subjectId={projectId} />
+    </div>
+  );
+};
+
+export default OrganizationProjectPhasesPage;
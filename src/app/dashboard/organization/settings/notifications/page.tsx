@@ -0,0 +1,26 @@
+"use client";
+
+import React from "react";
+import { notFound } from "next/navigation";
+import { useTranslations } from "next-intl";
+import { NotificationPreferencesForm } from "@/features/notifications/components";
+import { NOTIFICATION_PREFERENCES_ENABLED } from "@/features/notifications/constants";
+
+const OrganizationNotificationSettingsPage = () => {
+  const t = useTranslations("notifications.preferences");
+
+  if (!NOTIFICATION_PREFERENCES_ENABLED) notFound();
+
+  return (
+    <div className="max-w-2xl mx-auto p-6 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">{t("pageTitle")}</h1>
+        <p className="text-gray-600">{t("subtitle")}</p>
+      </div>
+
+      <NotificationPreferencesForm />
+    </div>
+  );
+};
+
+export default OrganizationNotificationSettingsPage;
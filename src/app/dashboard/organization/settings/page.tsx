@@ -12,6 +12,7 @@ import {
 import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { useTranslations } from "next-intl";
+import { NOTIFICATION_PREFERENCES_ENABLED } from "@/features/notifications/constants";
 import { ThemeToggle } from "@/shared/components/ThemeToggle";
 import LanguageSwitcher from "@/components/LanguageSwitcher";
 import { useAuthStore } from "@/features/auth/store/authStore";
@@ -72,8 +73,9 @@ export default function Page() {
       title: t("menu.notifications.title"),
       description: t("menu.notifications.description"),
       icon: Bell,
-      url: "/dashboard/organization/profile/notifications",
+      url: "/dashboard/organization/settings/notifications",
       type: "link",
+      isAvailable: NOTIFICATION_PREFERENCES_ENABLED,
     },
     {
       title: t("menu.privacySecurity.title"),
@@ -243,6 +245,32 @@ export default function Page() {
                 );
               }
 
+              if (item.isAvailable && item.url) {
+                return (
+                  <Link
+                    key={item.title}
+                    href={item.url}
+                    className={baseClasses}
+                  >
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-3">
+                        <div className="p-2 rounded-lg flex-shrink-0 bg-primary/10 group-hover:bg-primary/20 transition-colors">
+                          {item.icon && (
+                            <item.icon className="w-5 h-5 text-primary" />
+                          )}
+                        </div>
+                        <div className="text-right">
+                          <h3 className="font-semibold text-base text-foreground">
+                            {item.title}
+                          </h3>
+                        </div>
+                      </div>
+                      <ArrowRight className="w-4 h-4 text-muted-foreground transform rtl:rotate-180" />
+                    </div>
+                  </Link>
+                );
+              }
+
               return (
                 <Tooltip key={item.title}>
                   <TooltipTrigger asChild>
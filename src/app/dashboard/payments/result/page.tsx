@@ -0,0 +1,47 @@
+"use client";
+
+import React, { Suspense } from "react";
+import { useSearchParams } from "next/navigation";
+import { useTranslations } from "next-intl";
+import { PaymentResultView } from "@/features/payments/components";
+
+// Only dashboard paths are accepted so the callback can't bounce elsewhere
+const toReturnPath = (value: string | null) =>
+  value?.startsWith("/dashboard/") ? value : undefined;
+
+const PaymentResult = () => {
+  const t = useTranslations("payments.result");
+  const searchParams = useSearchParams();
+  const paymentId = searchParams.get("id");
+
+  if (!paymentId) {
+    return (
+      <p className="text-center text-muted-foreground">{t("missingPayment")}</p>
+    );
+  }
+
+  return (
+    <PaymentResultView
+      paymentId={paymentId}
+      returnPath={toReturnPath(searchParams.get("return_to"))}
+      gatewayMessage={searchParams.get("message")}
+    />
+  );
+};
+
+const PaymentResultPage = () => {
+  const t = useTranslations("payments.result");
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      <h1 className="text-2xl font-bold text-gray-900">{t("pageTitle")}</h1>
+
+      {/* useSearchParams needs a suspense boundary */}
+      <Suspense>
+        <PaymentResult />
+      </Suspense>
+    </div>
+  );
+};
+
+export default PaymentResultPage;
@@ -95,6 +95,7 @@ export default function SupplierProductsPage() {
             product={selectedProduct || undefined}
             isLoading={isLoading}
             error={error}
+            isOwnProduct
             onEdit={() => {
               if (selectedProduct) {
                 handleEditProduct(Number(selectedProduct.id));
@@ -8,7 +8,7 @@ import { Button } from "@/shared/components/ui/button";
 import ProfileTabs from "@/features/profile/components/common/ProfileTabs";
 import ProfileTabContent from "@/features/profile/components/supplier/SupplierProfileTabContent";
 import Link from "next/link";
-import UpgradeToPremium from "@/features/profile/components/common/UpgradeToPremium";
+import { UpgradePlanButton } from "@/features/subscriptions/components";
 
 interface User {
   full_name?: string;
@@ -110,7 +110,7 @@ export default function Page() {
                     {t("editProfile")}
                   </Button>
                 </Link>
-                <UpgradeToPremium className="w-full md:w-auto" />
+                <UpgradePlanButton role="supplier" className="w-full md:w-auto" />
               </div>
             </div>
           </div>
@@ -1,9 +1,10 @@
 "use client";
 import React from "react";
-import { Menu, Bell, Search, Edit } from "lucide-react";
+import { Menu, Search, Edit } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { useGlobalStore } from "@/shared/store/globalStore";
+import { NotificationBell } from "@/features/notifications/components";
 import { assets } from "@/constants/assets";
 import Image from "next/image";
 
@@ -24,12 +25,7 @@ const DashboardHeader = () => {
           >
             <Menu className="h-5 w-5 sm:h-6 sm:w-6 text-gray-700 dark:text-gray-300" />
           </Button>
-          <Button variant="ghost" size="icon" className="relative">
-            <Bell className="h-4 w-4 sm:h-5 sm:w-5 text-gray-700 dark:text-gray-300" />
-            <span className="absolute -top-1 -right-1 h-2.5 w-2.5 sm:h-3 sm:w-3 bg-red-500 rounded-full text-xs text-white flex items-center justify-center text-[10px] sm:text-xs">
-              3
-            </span>
-          </Button>
+          <NotificationBell />
 
           {/* User menu */}
           <Button variant="ghost" size="icon">
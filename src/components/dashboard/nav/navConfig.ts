@@ -18,6 +18,7 @@ import {
   Building2,
   Users,
   ClipboardList,
+  Flag,
 } from "lucide-react";
 
 export const roleNav = {
@@ -58,6 +59,11 @@ export const roleNav = {
       url: "/dashboard/individual/reviews",
       icon: Star,
     },
+    {
+      title: "navigation.reports",
+      url: "/dashboard/individual/reports",
+      icon: Flag,
+    },
   ],
   contractor: [
     {
@@ -90,6 +96,11 @@ export const roleNav = {
       url: "/dashboard/contractor/messages",
       icon: MessageSquare,
     },
+    {
+      title: "navigation.reports",
+      url: "/dashboard/contractor/reports",
+      icon: Flag,
+    },
   ],
   supplier: [
     { title: "navigation.dashboard", url: "/dashboard/supplier", icon: Home },
@@ -155,6 +166,11 @@ export const roleNav = {
       url: "/dashboard/organization/reviews",
       icon: Star,
     },
+    {
+      title: "navigation.reports",
+      url: "/dashboard/organization/reports",
+      icon: Flag,
+    },
   ],
   engineering_office: [
     {
@@ -40,8 +40,16 @@ export const authApi = {
       const tokens =
         response.data?.response?.extra?.tokens ||
         response.data?.tokens ||
+        response.data?.data ||
         response.data;
 
+      // The refresh endpoint only returns the lifetime of the new token
+      if (tokens?.expires_in && !tokens.access_token_expires_at) {
+        tokens.access_token_expires_at = new Date(
+          Date.now() + tokens.expires_in * 1000
+        ).toISOString();
+      }
+
       if (!tokens?.access_token || !tokens?.access_token_expires_at) {
         throw new Error("Invalid refresh response");
       }
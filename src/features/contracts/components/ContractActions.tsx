@@ -0,0 +1,248 @@
+"use client";
+import React, { useState } from "react";
+import { useTranslations } from "next-intl";
+import {
+  CheckCircle2,
+  FilePen,
+  PenLine,
+  Send,
+  XCircle,
+  LucideIcon,
+} from "lucide-react";
+import toast from "react-hot-toast";
+import { Button } from "@/shared/components/ui/button";
+import { Label } from "@/shared/components/ui/label";
+import { Switch } from "@/shared/components/ui/switch";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/shared/components/ui/alert-dialog";
+import { cn } from "@/lib/utils";
+import { Entitled } from "@/features/subscriptions/components";
+import { CONTRACT_WORKFLOW_ACTIONS } from "../constants";
+import {
+  ChangeRequestPayload,
+  ContractAction,
+  ContractParty,
+} from "../types";
+import { RequestChangeDialog } from "./RequestChangeDialog";
+import { SignContractDialog } from "./SignContractDialog";
+
+type ActionResult = { success: boolean; message?: string };
+
+// Actions that only need a confirmation before they run
+type ConfirmedAction = "send_to_contractor" | "approve_final" | "reject_contract";
+
+const ACTION_ICONS: Partial<Record<ContractAction, LucideIcon>> = {
+  send_to_contractor: Send,
+  approve_final: CheckCircle2,
+  request_change: FilePen,
+  sign_contract: PenLine,
+  reject_contract: XCircle,
+};
+
+interface ContractActionsProps {
+  party: ContractParty;
+  contractId: string;
+  version: number;
+  requiresOtp?: boolean;
+  availableActions: ContractAction[];
+  pendingAction: ContractAction | null;
+  onSendToContractor: () => Promise<ActionResult>;
+  onApproveFinal: () => Promise<ActionResult>;
+  onReject: () => Promise<ActionResult>;
+  onRequestChange: (payload: ChangeRequestPayload) => Promise<ActionResult>;
+  onUpdateOtpSettings: (requiresOtp: boolean) => Promise<ActionResult>;
+  onSigned: () => void;
+  className?: string;
+}
+
+export function ContractActions({
+  party,
+  contractId,
+  version,
+  requiresOtp,
+  availableActions,
+  pendingAction,
+  onSendToContractor,
+  onApproveFinal,
+  onReject,
+  onRequestChange,
+  onUpdateOtpSettings,
+  onSigned,
+  className,
+}: ContractActionsProps) {
+  const t = useTranslations("contracts.actions");
+  const [confirmAction, setConfirmAction] = useState<ConfirmedAction | null>(
+    null
+  );
+  const [isSignOpen, setIsSignOpen] = useState(false);
+  const [isChangeOpen, setIsChangeOpen] = useState(false);
+
+  const isBusy = pendingAction !== null;
+  const workflowActions = CONTRACT_WORKFLOW_ACTIONS.filter((action) =>
+    availableActions.includes(action)
+  );
+  const canUpdateOtp = availableActions.includes("update_otp_settings");
+
+  if (workflowActions.length === 0 && !canUpdateOtp) {
+    return null;
+  }
+
+  const confirmHandlers: Record<ConfirmedAction, () => Promise<ActionResult>> =
+    {
+      send_to_contractor: onSendToContractor,
+      approve_final: onApproveFinal,
+      reject_contract: onReject,
+    };
+
+  const handleClick = (action: ContractAction) => {
+    if (action === "sign_contract") {
+      setIsSignOpen(true);
+    } else if (action === "request_change") {
+      setIsChangeOpen(true);
+    } else if (action in confirmHandlers) {
+      setConfirmAction(action as ConfirmedAction);
+    }
+  };
+
+  const handleConfirm = async () => {
+    if (!confirmAction) return;
+
+    const result = await confirmHandlers[confirmAction]();
+    if (result.success) {
+      toast.success(result.message || t(`${confirmAction}.success`));
+      setConfirmAction(null);
+    } else {
+      toast.error(result.message || t(`${confirmAction}.error`));
+    }
+  };
+
+  const handleRequestChange = async (payload: ChangeRequestPayload) => {
+    const result = await onRequestChange(payload);
+    if (result.success) {
+      toast.success(result.message || t("request_change.success"));
+      setIsChangeOpen(false);
+    } else {
+      toast.error(result.message || t("request_change.error"));
+    }
+    return result.success;
+  };
+
+  const handleOtpToggle = async (checked: boolean) => {
+    const result = await onUpdateOtpSettings(checked);
+    if (result.success) {
+      toast.success(result.message || t("update_otp_settings.success"));
+    } else {
+      toast.error(result.message || t("update_otp_settings.error"));
+    }
+  };
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      <Entitled
+        feature="CAN_SIGN_CONTRACT"
+        // Only the contractor's plan limits signing
+        enabled={
+          party === "contractor" && workflowActions.includes("sign_contract")
+        }
+      >
+        {({ allowed: canSignContract }) => (
+          <div className="flex flex-wrap gap-2">
+            {workflowActions.map((action) => {
+              const Icon = ACTION_ICONS[action];
+              return (
+                <Button
+                  key={action}
+                  variant={
+                    action === "reject_contract"
+                      ? "outline"
+                      : action === "request_change"
+                        ? "secondary"
+                        : "default"
+                  }
+                  className={cn(
+                    action === "reject_contract" && "text-destructive"
+                  )}
+                  onClick={() => handleClick(action)}
+                  disabled={
+                    isBusy || (action === "sign_contract" && !canSignContract)
+                  }
+                >
+                  {Icon && <Icon className="h-4 w-4" />}
+                  {pendingAction === action
+                    ? t("processing")
+                    : t(`${action}.label`)}
+                </Button>
+              );
+            })}
+          </div>
+        )}
+      </Entitled>
+
+      {canUpdateOtp && (
+        <div className="flex items-center gap-2">
+          <Switch
+            id="contract-requires-otp"
+            checked={requiresOtp ?? true}
+            onCheckedChange={handleOtpToggle}
+            disabled={isBusy}
+          />
+          <Label htmlFor="contract-requires-otp" className="cursor-pointer">
+            {t("update_otp_settings.label")}
+          </Label>
+        </div>
+      )}
+
+      <AlertDialog
+        open={confirmAction !== null}
+        onOpenChange={(open) => !open && setConfirmAction(null)}
+      >
+        <AlertDialogContent>
+          {confirmAction && (
+            <AlertDialogHeader>
+              <AlertDialogTitle>{t(`${confirmAction}.title`)}</AlertDialogTitle>
+              <AlertDialogDescription>
+                {t(`${confirmAction}.description`)}
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+          )}
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isBusy}>{t("cancel")}</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleConfirm();
+              }}
+              disabled={isBusy}
+            >
+              {isBusy ? t("processing") : t("confirm")}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <SignContractDialog
+        party={party}
+        contractId={contractId}
+        open={isSignOpen}
+        onOpenChange={setIsSignOpen}
+        onSigned={onSigned}
+      />
+
+      <RequestChangeDialog
+        open={isChangeOpen}
+        onOpenChange={setIsChangeOpen}
+        version={version}
+        isSubmitting={pendingAction === "request_change"}
+        onSubmit={handleRequestChange}
+      />
+    </div>
+  );
+}
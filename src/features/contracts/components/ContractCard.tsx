@@ -0,0 +1,73 @@
+"use client";
+import React from "react";
+import Link from "next/link";
+import { useTranslations } from "next-intl";
+import { ArrowRight, Calendar, User } from "lucide-react";
+import { twMerge } from "tailwind-merge";
+import { Button } from "@/shared/components/ui/button";
+import { Card, CardContent } from "@/shared/components/ui/card";
+import { formatPrice } from "@/lib/helpers";
+import { useLocale } from "@/hooks/useLocale";
+import { Contract, ContractParty } from "../types";
+import { ContractStatusBadge } from "./ContractStatusBadge";
+
+interface ContractCardProps {
+  contract: Contract;
+  party: ContractParty;
+  href: string;
+}
+
+export function ContractCard({ contract, party, href }: ContractCardProps) {
+  const t = useTranslations("contracts");
+  const { currentLocale } = useLocale();
+  const isRTL = currentLocale === "ar";
+
+  // Show the other side of the agreement
+  const counterparty = party === "owner" ? contract.contractor : contract.owner;
+
+  return (
+    <Card className="flex h-full flex-col">
+      <CardContent className="flex flex-1 flex-col gap-3 pt-6">
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <p className="text-xs text-muted-foreground">
+              {t("contractNumber", { id: contract.id })}
+            </p>
+            <h3 className="font-semibold">
+              {contract.project?.title || t("untitledProject")}
+            </h3>
+          </div>
+          <ContractStatusBadge status={contract.status} />
+        </div>
+
+        {contract.total_amount !== undefined && (
+          <p className="text-lg font-bold text-design-main">
+            {formatPrice(Number(contract.total_amount), isRTL)}
+          </p>
+        )}
+
+        <div className="space-y-1 text-sm text-muted-foreground">
+          {counterparty && (
+            <p className="flex items-center gap-2">
+              <User className="h-4 w-4" />
+              {counterparty.name}
+            </p>
+          )}
+          {contract.created_at && (
+            <p className="flex items-center gap-2">
+              <Calendar className="h-4 w-4" />
+              {new Date(contract.created_at).toLocaleDateString(currentLocale)}
+            </p>
+          )}
+        </div>
+
+        <Button asChild variant="outline" size="sm" className="mt-auto">
+          <Link href={href}>
+            {t("viewDetails")}
+            <ArrowRight className={twMerge("h-4 w-4", isRTL && "rotate-180")} />
+          </Link>
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,252 @@
+"use client";
+import React from "react";
+import Link from "next/link";
+import { useTranslations } from "next-intl";
+import { GanttChart, PenLine } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from "@/shared/components/ui/card";
+import { Button } from "@/shared/components/ui/button";
+import { ErrorState } from "@/shared/components/ui/ErrorState";
+import { Skeleton } from "@/components/ui/skeleton";
+import { formatPrice } from "@/lib/helpers";
+import { useLocale } from "@/hooks/useLocale";
+import { useAuthStore } from "@/features/auth/store/authStore";
+import { ReportIssueButton } from "@/features/reports/components";
+import { useContractDetails } from "../hooks/useContractDetails";
+import { useContractClauses } from "../hooks/useContractClauses";
+import { ContractParty } from "../types";
+import { ContractActions } from "./ContractActions";
+import { ContractStatusBadge } from "./ContractStatusBadge";
+import { ChangeRequestReview } from "./clauses/ChangeRequestReview";
+import { ContractClausesEditor } from "./clauses/ContractClausesEditor";
+
+interface ContractDetailsViewProps {
+  party: ContractParty;
+  contractId: string;
+}
+
+export function ContractDetailsView({
+  party,
+  contractId,
+}: ContractDetailsViewProps) {
+  const t = useTranslations("contracts");
+  const { currentLocale } = useLocale();
+  const isRTL = currentLocale === "ar";
+  const userType = useAuthStore((state) => state.user?.user_type);
+  const {
+    details,
+    availableActions,
+    isLoading,
+    pendingAction,
+    error,
+    refetch,
+    sendToContractor,
+    approveFinal,
+    rejectContract,
+    requestChange,
+    updateOtpSettings,
+    decideChangeRequest,
+  } = useContractDetails(party, contractId);
+  const {
+    clauses,
+    isLoading: isLoadingClauses,
+    isSaving: isSavingClauses,
+    error: clausesError,
+    refetch: refetchClauses,
+    addClause,
+    updateClause,
+    removeClause,
+    moveClause,
+  } = useContractClauses(party, contractId, refetch);
+
+  if (!details && isLoading) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-8 w-1/3" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  if (!details) {
+    return (
+      <ErrorState
+        variant="inline"
+        title={t("notFound")}
+        error={error || t("loadError")}
+        onRetry={refetch}
+      />
+    );
+  }
+
+  const { contract, current_version: currentVersion } = details;
+  const changeRequests = details.pending_change_requests || [];
+  const signEvents = details.sign_events || [];
+  const version = currentVersion?.version ?? contract.current_version_no ?? 1;
+  const amount = currentVersion?.total_amount ?? contract.total_amount;
+  const projectId = contract.project_id ?? contract.project?.id;
+  // Execution is tracked on the project once both parties have signed
+  const canTrackExecution = contract.status === "signed_by_both" && projectId;
+  const dashboardRole =
+    userType || (party === "contractor" ? "contractor" : "individual");
+
+  const formatDate = (value?: string) =>
+    value ? new Date(value).toLocaleDateString(currentLocale) : "-";
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardContent className="flex flex-col gap-4 pt-6 md:flex-row md:items-start md:justify-between">
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <h2 className="text-xl font-semibold">
+                {t("contractNumber", { id: contract.id })}
+              </h2>
+              <ContractStatusBadge status={contract.status} />
+            </div>
+            {contract.project?.title && (
+              <p className="text-sm text-muted-foreground">
+                {contract.project.title}
+              </p>
+            )}
+            <p className="text-sm text-muted-foreground">
+              {t("version", { version })}
+            </p>
+          </div>
+          <div className="space-y-3 md:text-end">
+            {amount !== undefined && (
+              <p className="text-2xl font-bold text-design-main">
+                {formatPrice(Number(amount), isRTL)}
+              </p>
+            )}
+            <ContractActions
+              party={party}
+              contractId={contractId}
+              version={version}
+              requiresOtp={contract.requires_otp}
+              availableActions={availableActions}
+              pendingAction={pendingAction}
+              onSendToContractor={sendToContractor}
+              onApproveFinal={approveFinal}
+              onReject={rejectContract}
+              onRequestChange={requestChange}
+              onUpdateOtpSettings={updateOtpSettings}
+              onSigned={refetch}
+            />
+            {canTrackExecution && (
+              <Button asChild variant="outline" size="sm">
+                <Link
+                  href={`/dashboard/${dashboardRole}/projects/${projectId}/phases`}
+                >
+                  <GanttChart className="h-4 w-4" />
+                  {t("trackExecution")}
+                </Link>
+              </Button>
+            )}
+            {projectId && (
+              <ReportIssueButton party={party} projectId={projectId} />
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle className="text-lg">{t("terms")}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {currentVersion?.content ? (
+              <p className="whitespace-pre-wrap text-sm leading-relaxed">
+                {currentVersion.content}
+              </p>
+            ) : (
+              <p className="text-sm text-muted-foreground">{t("noTerms")}</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">{t("parties")}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3 text-sm">
+            <div>
+              <p className="text-muted-foreground">{t("owner")}</p>
+              <p className="font-medium">{contract.owner?.name || "-"}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">{t("contractor")}</p>
+              <p className="font-medium">{contract.contractor?.name || "-"}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">{t("createdAt")}</p>
+              <p className="font-medium">{formatDate(contract.created_at)}</p>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <ContractClausesEditor
+        clauses={clauses}
+        availableActions={availableActions}
+        isLoading={isLoadingClauses}
+        isSaving={isSavingClauses}
+        error={clausesError}
+        onRetry={refetchClauses}
+        onAdd={addClause}
+        onUpdate={updateClause}
+        onRemove={removeClause}
+        onMove={moveClause}
+      />
+
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+        <ChangeRequestReview
+          changeRequests={changeRequests}
+          clauses={clauses}
+          canDecide={availableActions.includes("decide_change_request")}
+          onDecide={decideChangeRequest}
+        />
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <PenLine className="h-5 w-5 text-design-main" />
+              {t("signatures.title")}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {signEvents.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                {t("signatures.empty")}
+              </p>
+            ) : (
+              <ul className="space-y-2 text-sm">
+                {signEvents.map((event) => (
+                  <li
+                    key={event.id}
+                    className="flex items-center justify-between gap-2 rounded-md border p-3"
+                  >
+                    <span className="font-medium">
+                      {event.signer?.name ||
+                        (event.signer_type
+                          ? t(`signatures.signers.${event.signer_type}`)
+                          : "-")}
+                    </span>
+                    <span className="text-muted-foreground">
+                      {formatDate(event.signed_at || event.created_at)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+"use client";
+import React from "react";
+import { useTranslations } from "next-intl";
+import { Badge } from "@/shared/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { ContractStatus } from "../types";
+
+const STATUS_COLORS: Record<ContractStatus, string> = {
+  draft: "bg-gray-100 text-gray-800",
+  sent_to_contractor: "bg-blue-100 text-blue-800",
+  final_approved: "bg-indigo-100 text-indigo-800",
+  signed_by_client: "bg-yellow-100 text-yellow-800",
+  signed_by_contractor: "bg-yellow-100 text-yellow-800",
+  signed_by_both: "bg-green-100 text-green-800",
+  rejected: "bg-red-100 text-red-800",
+};
+
+export function ContractStatusBadge({
+  status,
+  className,
+}: {
+  status: ContractStatus;
+  className?: string;
+}) {
+  const t = useTranslations("contracts.statuses");
+
+  return (
+    <Badge
+      variant="secondary"
+      className={cn(STATUS_COLORS[status] ?? STATUS_COLORS.draft, className)}
+    >
+      {t(status)}
+    </Badge>
+  );
+}
@@ -0,0 +1,123 @@
+"use client";
+import React, { useEffect } from "react";
+import { useTranslations } from "next-intl";
+import { FileCheck } from "lucide-react";
+import { Card, CardContent } from "@/shared/components/ui/card";
+import { ErrorState } from "@/shared/components/ui/ErrorState";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/shared/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { OffersPagination } from "@/features/offers/components/common/OffersPagination";
+import { CONTRACT_STATUS_FILTERS } from "../constants";
+import { useContractsStore } from "../store/contractsStore";
+import { ContractParty, ContractStatus } from "../types";
+import { ContractCard } from "./ContractCard";
+
+interface ContractsListProps {
+  party: ContractParty;
+  basePath: string;
+}
+
+export function ContractsList({ party, basePath }: ContractsListProps) {
+  const t = useTranslations("contracts");
+  const {
+    contracts,
+    filters,
+    isLoading,
+    error,
+    currentPage,
+    totalPages,
+    totalContracts,
+    setParty,
+    fetchContracts,
+    setStatusFilter,
+    setPage,
+  } = useContractsStore();
+
+  useEffect(() => {
+    setParty(party);
+  }, [party, setParty]);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-center">
+        <Select
+          value={filters.status || "all"}
+          onValueChange={(value) =>
+            setStatusFilter(
+              value === "all" ? undefined : (value as ContractStatus)
+            )
+          }
+        >
+          <SelectTrigger className="sm:w-56">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">{t("allStatuses")}</SelectItem>
+            {CONTRACT_STATUS_FILTERS[party].map((status) => (
+              <SelectItem key={status} value={status}>
+                {t(`statuses.${status}`)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {!isLoading && (
+          <p className="text-sm text-muted-foreground sm:ms-auto">
+            {t("showingResults", {
+              count: contracts.length,
+              total: totalContracts,
+            })}
+          </p>
+        )}
+      </div>
+
+      {error ? (
+        <ErrorState
+          variant="inline"
+          title={t("loadError")}
+          error={error}
+          onRetry={fetchContracts}
+        />
+      ) : isLoading ? (
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-2 xl:grid-cols-3">
+          {Array.from({ length: 6 }).map((_, i) => (
+            <Skeleton key={i} className="h-52 w-full" />
+          ))}
+        </div>
+      ) : contracts.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center gap-2 py-12 text-center">
+            <FileCheck className="h-10 w-10 text-muted-foreground" />
+            <p className="font-medium">{t("empty")}</p>
+            <p className="text-sm text-muted-foreground">
+              {t(`emptyHint.${party}`)}
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-2 xl:grid-cols-3">
+          {contracts.map((contract) => (
+            <ContractCard
+              key={contract.id}
+              contract={contract}
+              party={party}
+              href={`${basePath}/${contract.id}`}
+            />
+          ))}
+        </div>
+      )}
+
+      <OffersPagination
+        currentPage={currentPage}
+        totalPages={totalPages}
+        onPageChange={setPage}
+      />
+    </div>
+  );
+}
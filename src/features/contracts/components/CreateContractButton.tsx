@@ -0,0 +1,51 @@
+"use client";
+import React, { useState } from "react";
+import { useRouter } from "next/navigation";
+import { useTranslations } from "next-intl";
+import { FileCheck } from "lucide-react";
+import toast from "react-hot-toast";
+import { Button } from "@/shared/components/ui/button";
+import { useAuthStore } from "@/features/auth/store/authStore";
+import { contractApi } from "../services/contractApi";
+import { useContractsStore } from "../store/contractsStore";
+
+interface CreateContractButtonProps {
+  offerId: string;
+  className?: string;
+}
+
+export function CreateContractButton({
+  offerId,
+  className,
+}: CreateContractButtonProps) {
+  const t = useTranslations("contracts.createFromOffer");
+  const router = useRouter();
+  const userType = useAuthStore((state) => state.user?.user_type);
+  const [isCreating, setIsCreating] = useState(false);
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+
+    const response = await contractApi.createFromOffer(offerId);
+    const contract = (response.data || response.response)?.contract;
+
+    setIsCreating(false);
+
+    if (response.success && contract) {
+      useContractsStore.getState().upsertContract(contract);
+      toast.success(response.message || t("success"));
+      router.push(
+        `/dashboard/${userType || "individual"}/contracts/${contract.id}`
+      );
+    } else {
+      toast.error(response.message || t("error"));
+    }
+  };
+
+  return (
+    <Button className={className} onClick={handleCreate} disabled={isCreating}>
+      <FileCheck className="h-4 w-4" />
+      {isCreating ? t("creating") : t("label")}
+    </Button>
+  );
+}
@@ -0,0 +1,121 @@
+"use client";
+import React, { useState } from "react";
+import { useTranslations } from "next-intl";
+import { Button } from "@/shared/components/ui/button";
+import { Input } from "@/shared/components/ui/input";
+import { Label } from "@/shared/components/ui/label";
+import { Textarea } from "@/shared/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/shared/components/ui/dialog";
+import { cn } from "@/lib/utils";
+import { CHANGE_REQUEST_LIMITS } from "../constants";
+import { ChangeRequestPayload } from "../types";
+
+interface RequestChangeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  version: number;
+  isSubmitting: boolean;
+  onSubmit: (payload: ChangeRequestPayload) => Promise<boolean>;
+}
+
+export function RequestChangeDialog({
+  open,
+  onOpenChange,
+  version,
+  isSubmitting,
+  onSubmit,
+}: RequestChangeDialogProps) {
+  const t = useTranslations("contracts.requestChange");
+  const [targetClause, setTargetClause] = useState("");
+  const [changeNote, setChangeNote] = useState("");
+
+  const noteLength = changeNote.trim().length;
+  const isNoteValid =
+    noteLength >= CHANGE_REQUEST_LIMITS.noteMin &&
+    noteLength <= CHANGE_REQUEST_LIMITS.noteMax;
+
+  const handleSubmit = async () => {
+    if (!isNoteValid) return;
+
+    const submitted = await onSubmit({
+      version,
+      target_clause: targetClause.trim() || undefined,
+      change_note: changeNote.trim(),
+    });
+
+    if (submitted) {
+      setTargetClause("");
+      setChangeNote("");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{t("title")}</DialogTitle>
+          <DialogDescription>{t("description", { version })}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label htmlFor="change-target-clause">{t("targetClause")}</Label>
+            <Input
+              id="change-target-clause"
+              value={targetClause}
+              onChange={(e) => setTargetClause(e.target.value)}
+              maxLength={CHANGE_REQUEST_LIMITS.clauseMax}
+              placeholder={t("targetClausePlaceholder")}
+              disabled={isSubmitting}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="change-note">{t("changeNote")}</Label>
+            <Textarea
+              id="change-note"
+              value={changeNote}
+              onChange={(e) => setChangeNote(e.target.value)}
+              rows={4}
+              maxLength={CHANGE_REQUEST_LIMITS.noteMax}
+              placeholder={t("changeNotePlaceholder")}
+              disabled={isSubmitting}
+            />
+            <p
+              className={cn(
+                "text-xs",
+                noteLength > 0 && !isNoteValid
+                  ? "text-destructive"
+                  : "text-muted-foreground"
+              )}
+            >
+              {t("noteHint", {
+                min: CHANGE_REQUEST_LIMITS.noteMin,
+                max: CHANGE_REQUEST_LIMITS.noteMax,
+              })}
+            </p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={isSubmitting}
+          >
+            {t("cancel")}
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting || !isNoteValid}>
+            {isSubmitting ? t("submitting") : t("submit")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,143 @@
+"use client";
+import React, { useState } from "react";
+import { useTranslations } from "next-intl";
+import { PenLine } from "lucide-react";
+import toast from "react-hot-toast";
+import { Button } from "@/shared/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/shared/components/ui/dialog";
+import { OTPInput } from "@/features/auth/components/common/OTPInput";
+import { CONTRACT_OTP_LENGTH } from "../constants";
+import { useContractSigning } from "../hooks/useContractSigning";
+import { ContractParty } from "../types";
+
+interface SignContractDialogProps {
+  party: ContractParty;
+  contractId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSigned: () => void;
+}
+
+export function SignContractDialog({
+  party,
+  contractId,
+  open,
+  onOpenChange,
+  onSigned,
+}: SignContractDialogProps) {
+  const t = useTranslations("contracts.sign");
+  const {
+    otp,
+    isOtpIssued,
+    secondsLeft,
+    isIssuing,
+    isSigning,
+    issueOtp,
+    sign,
+    reset,
+  } = useContractSigning(party, contractId);
+  const [code, setCode] = useState("");
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      reset();
+      setCode("");
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const handleIssue = async () => {
+    const result = await issueOtp();
+    if (result.success) {
+      setCode("");
+      toast.success(result.message || t("otpSent"));
+    } else {
+      toast.error(result.message || t("otpError"));
+    }
+  };
+
+  const handleSign = async () => {
+    if (code.length !== CONTRACT_OTP_LENGTH) return;
+
+    const result = await sign(code);
+    if (result.success) {
+      toast.success(result.message || t("success"));
+      handleOpenChange(false);
+      onSigned();
+    } else {
+      setCode("");
+      toast.error(result.message || t("error"));
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{t("title")}</DialogTitle>
+          <DialogDescription>
+            {isOtpIssued ? t("enterCode") : t("description")}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isOtpIssued && (
+          <div className="flex flex-col items-center gap-3 py-2" dir="ltr">
+            <OTPInput
+              value={code}
+              onChange={setCode}
+              length={CONTRACT_OTP_LENGTH}
+              disabled={isSigning}
+            />
+            <div className="text-center text-sm text-muted-foreground" dir="auto">
+              {secondsLeft > 0 ? (
+                t("expiresIn", { seconds: secondsLeft })
+              ) : (
+                <Button
+                  variant="link"
+                  size="sm"
+                  onClick={handleIssue}
+                  disabled={isIssuing}
+                >
+                  {isIssuing ? t("sending") : t("resend")}
+                </Button>
+              )}
+              {otp?.max_attempts && (
+                <p>{t("maxAttempts", { count: otp.max_attempts })}</p>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => handleOpenChange(false)}
+            disabled={isIssuing || isSigning}
+          >
+            {t("cancel")}
+          </Button>
+          {isOtpIssued ? (
+            <Button
+              onClick={handleSign}
+              disabled={isSigning || code.length !== CONTRACT_OTP_LENGTH}
+            >
+              <PenLine className="h-4 w-4" />
+              {isSigning ? t("signing") : t("confirm")}
+            </Button>
+          ) : (
+            <Button onClick={handleIssue} disabled={isIssuing}>
+              {isIssuing ? t("sending") : t("sendCode")}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,181 @@
+"use client";
+import React, { useState } from "react";
+import { useTranslations } from "next-intl";
+import { Check, FilePen, X } from "lucide-react";
+import toast from "react-hot-toast";
+import { Badge } from "@/shared/components/ui/badge";
+import { Button } from "@/shared/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from "@/shared/components/ui/card";
+import { useLocale } from "@/hooks/useLocale";
+import {
+  ChangeRequestDecision,
+  ContractChangeRequest,
+  ContractClause,
+} from "../../types";
+import { findTargetClause, getClauseText } from "../../utils/clauses";
+
+type ActionResult = { success: boolean; message?: string };
+
+interface ChangeRequestReviewProps {
+  changeRequests: ContractChangeRequest[];
+  clauses: ContractClause[];
+  canDecide: boolean;
+  onDecide: (
+    changeRequestId: number,
+    status: ChangeRequestDecision
+  ) => Promise<ActionResult>;
+}
+
+export function ChangeRequestReview({
+  changeRequests,
+  clauses,
+  canDecide,
+  onDecide,
+}: ChangeRequestReviewProps) {
+  const t = useTranslations("contracts.changeRequests");
+  const { currentLocale } = useLocale();
+  const [deciding, setDeciding] = useState<{
+    id: number;
+    status: ChangeRequestDecision;
+  } | null>(null);
+
+  const handleDecide = async (
+    changeRequestId: number,
+    status: ChangeRequestDecision
+  ) => {
+    setDeciding({ id: changeRequestId, status });
+
+    const result = await onDecide(changeRequestId, status);
+    if (result.success) {
+      toast.success(result.message || t(`decision.${status}`));
+    } else {
+      toast.error(result.message || t("decision.error"));
+    }
+
+    setDeciding(null);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <FilePen className="h-5 w-5 text-design-main" />
+          {t("title")}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {changeRequests.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t("empty")}</p>
+        ) : (
+          <ul className="space-y-4">
+            {changeRequests.map((changeRequest) => {
+              const clause = findTargetClause(
+                clauses,
+                changeRequest.target_clause
+              );
+              const currentWording =
+                changeRequest.current_content ||
+                (clause && getClauseText(clause, currentLocale).content);
+              const proposedWording =
+                changeRequest.proposed_content || changeRequest.change_note;
+              const isDeciding = deciding?.id === changeRequest.id;
+
+              return (
+                <li
+                  key={changeRequest.id}
+                  className="space-y-3 rounded-md border p-4 text-sm"
+                >
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div>
+                      <p className="font-medium">
+                        {changeRequest.target_clause || t("general")}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {changeRequest.requested_by?.name &&
+                          `${changeRequest.requested_by.name} · `}
+                        {t("onVersion", { version: changeRequest.version })}
+                        {changeRequest.created_at &&
+                          ` · ${new Date(
+                            changeRequest.created_at
+                          ).toLocaleDateString(currentLocale)}`}
+                      </p>
+                    </div>
+                    <Badge variant="outline">
+                      {t(`statuses.${changeRequest.status}`)}
+                    </Badge>
+                  </div>
+
+                  <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+                    <div className="rounded-md bg-red-50 p-3">
+                      <p className="mb-1 text-xs font-medium text-red-700">
+                        {t("currentWording")}
+                      </p>
+                      <p className="whitespace-pre-wrap">
+                        {currentWording || (
+                          <span className="text-muted-foreground">
+                            {t("noCurrentWording")}
+                          </span>
+                        )}
+                      </p>
+                    </div>
+                    <div className="rounded-md bg-green-50 p-3">
+                      <p className="mb-1 text-xs font-medium text-green-700">
+                        {t("proposedWording")}
+                      </p>
+                      <p className="whitespace-pre-wrap">{proposedWording}</p>
+                    </div>
+                  </div>
+
+                  {changeRequest.proposed_content &&
+                    changeRequest.change_note !==
+                      changeRequest.proposed_content && (
+                      <p className="text-muted-foreground">
+                        <span className="font-medium">{t("note")}: </span>
+                        {changeRequest.change_note}
+                      </p>
+                    )}
+
+                  {canDecide && changeRequest.status === "pending" && (
+                    <div className="flex justify-end gap-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="text-destructive"
+                        onClick={() =>
+                          handleDecide(changeRequest.id, "rejected")
+                        }
+                        disabled={deciding !== null}
+                      >
+                        <X className="h-4 w-4" />
+                        {isDeciding && deciding?.status === "rejected"
+                          ? t("processing")
+                          : t("reject")}
+                      </Button>
+                      <Button
+                        size="sm"
+                        onClick={() =>
+                          handleDecide(changeRequest.id, "accepted")
+                        }
+                        disabled={deciding !== null}
+                      >
+                        <Check className="h-4 w-4" />
+                        {isDeciding && deciding?.status === "accepted"
+                          ? t("processing")
+                          : t("approve")}
+                      </Button>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
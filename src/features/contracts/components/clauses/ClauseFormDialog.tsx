@@ -0,0 +1,268 @@
+"use client";
+import React, { useEffect, useMemo } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useTranslations } from "next-intl";
+import { Button } from "@/shared/components/ui/button";
+import { Input } from "@/shared/components/ui/input";
+import { Switch } from "@/shared/components/ui/switch";
+import { Textarea } from "@/shared/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/shared/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/shared/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/shared/components/ui/select";
+import { CLAUSE_LIMITS, CLAUSE_STATUSES } from "../../constants";
+import { ClauseStatus, ContractClause } from "../../types";
+import {
+  ClauseFormValues,
+  createContractValidationSchemas,
+} from "../../utils/validation";
+import { toClauseFormValues } from "../../utils/clauses";
+
+interface ClauseFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  clause?: ContractClause;
+  isSaving: boolean;
+  onSubmit: (values: ClauseFormValues) => Promise<boolean>;
+}
+
+export function ClauseFormDialog({
+  open,
+  onOpenChange,
+  clause,
+  isSaving,
+  onSubmit,
+}: ClauseFormDialogProps) {
+  const t = useTranslations();
+  const { ClauseSchema } = useMemo(
+    () => createContractValidationSchemas(t),
+    [t]
+  );
+
+  const form = useForm<ClauseFormValues>({
+    resolver: zodResolver(ClauseSchema),
+    mode: "onTouched",
+    defaultValues: toClauseFormValues(clause),
+  });
+
+  // Load the selected clause every time the dialog opens
+  useEffect(() => {
+    if (open) {
+      form.reset(toClauseFormValues(clause));
+    }
+  }, [open, clause, form]);
+
+  const handleSubmit = async (values: ClauseFormValues) => {
+    const saved = await onSubmit(values);
+    if (saved) {
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>
+            {clause
+              ? t("contracts.clauses.editTitle")
+              : t("contracts.clauses.addTitle")}
+          </DialogTitle>
+          <DialogDescription>
+            {t("contracts.clauses.formDescription")}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit(handleSubmit)}
+            className="space-y-4"
+          >
+            <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="title_ar"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t("contracts.clauses.titleAr")}</FormLabel>
+                    <FormControl>
+                      <Input
+                        {...field}
+                        dir="rtl"
+                        maxLength={CLAUSE_LIMITS.titleMax}
+                        disabled={isSaving}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="title_en"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t("contracts.clauses.titleEn")}</FormLabel>
+                    <FormControl>
+                      <Input
+                        {...field}
+                        dir="ltr"
+                        maxLength={CLAUSE_LIMITS.titleMax}
+                        disabled={isSaving}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="content_ar"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t("contracts.clauses.contentAr")}</FormLabel>
+                    <FormControl>
+                      <Textarea
+                        {...field}
+                        dir="rtl"
+                        rows={6}
+                        maxLength={CLAUSE_LIMITS.contentMax}
+                        disabled={isSaving}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="content_en"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t("contracts.clauses.contentEn")}</FormLabel>
+                    <FormControl>
+                      <Textarea
+                        {...field}
+                        dir="ltr"
+                        rows={6}
+                        maxLength={CLAUSE_LIMITS.contentMax}
+                        disabled={isSaving}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 gap-4 md:grid-cols-3 md:items-end">
+              <FormField
+                control={form.control}
+                name="code"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t("contracts.clauses.code")}</FormLabel>
+                    <FormControl>
+                      <Input
+                        {...field}
+                        dir="ltr"
+                        maxLength={CLAUSE_LIMITS.codeMax}
+                        placeholder="CUSTOM_001"
+                        disabled={isSaving}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="status"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t("contracts.clauses.status")}</FormLabel>
+                    <Select
+                      value={field.value}
+                      onValueChange={(value) =>
+                        field.onChange(value as ClauseStatus)
+                      }
+                      disabled={isSaving}
+                    >
+                      <FormControl>
+                        <SelectTrigger className="w-full">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {CLAUSE_STATUSES.map((status) => (
+                          <SelectItem key={status} value={status}>
+                            {t(`contracts.clauses.statuses.${status}`)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="is_required"
+                render={({ field }) => (
+                  <FormItem className="flex items-center gap-2 pb-2">
+                    <FormControl>
+                      <Switch
+                        checked={field.value}
+                        onCheckedChange={field.onChange}
+                        disabled={isSaving}
+                      />
+                    </FormControl>
+                    <FormLabel className="!mt-0">
+                      {t("contracts.clauses.isRequired")}
+                    </FormLabel>
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                disabled={isSaving}
+              >
+                {t("contracts.clauses.cancel")}
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving
+                  ? t("contracts.clauses.saving")
+                  : t("contracts.clauses.save")}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
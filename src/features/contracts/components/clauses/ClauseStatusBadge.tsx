@@ -0,0 +1,29 @@
+"use client";
+import React from "react";
+import { useTranslations } from "next-intl";
+import { Badge } from "@/shared/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { ClauseStatus } from "../../types";
+
+const STATUS_COLORS: Record<ClauseStatus, string> = {
+  draft: "bg-gray-100 text-gray-800",
+  proposed: "bg-blue-100 text-blue-800",
+  agreed: "bg-green-100 text-green-800",
+  disputed: "bg-red-100 text-red-800",
+};
+
+export function ClauseStatusBadge({
+  status,
+  className,
+}: {
+  status: ClauseStatus;
+  className?: string;
+}) {
+  const t = useTranslations("contracts.clauses.statuses");
+
+  return (
+    <Badge variant="secondary" className={cn(STATUS_COLORS[status], className)}>
+      {t(status)}
+    </Badge>
+  );
+}
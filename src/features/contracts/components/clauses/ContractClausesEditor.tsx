@@ -0,0 +1,283 @@
+"use client";
+import React, { useState } from "react";
+import { useTranslations } from "next-intl";
+import {
+  ArrowDown,
+  ArrowUp,
+  Languages,
+  ListChecks,
+  Pencil,
+  Plus,
+  Trash2,
+} from "lucide-react";
+import toast from "react-hot-toast";
+import { Badge } from "@/shared/components/ui/badge";
+import { Button } from "@/shared/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from "@/shared/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/shared/components/ui/alert-dialog";
+import { ErrorState } from "@/shared/components/ui/ErrorState";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useLocale } from "@/hooks/useLocale";
+import { ContractAction, ContractClause } from "../../types";
+import { ClauseFormValues } from "../../utils/validation";
+import { getClauseText } from "../../utils/clauses";
+import { ClauseFormDialog } from "./ClauseFormDialog";
+import { ClauseStatusBadge } from "./ClauseStatusBadge";
+
+type ActionResult = { success: boolean; message?: string };
+
+interface ContractClausesEditorProps {
+  clauses: ContractClause[];
+  availableActions: ContractAction[];
+  isLoading: boolean;
+  isSaving: boolean;
+  error: string | null;
+  onRetry: () => void;
+  onAdd: (values: ClauseFormValues) => Promise<ActionResult>;
+  onUpdate: (
+    clauseId: string,
+    values: ClauseFormValues
+  ) => Promise<ActionResult>;
+  onRemove: (clauseId: string) => Promise<ActionResult>;
+  onMove: (clauseId: string, direction: -1 | 1) => Promise<ActionResult>;
+}
+
+export function ContractClausesEditor({
+  clauses,
+  availableActions,
+  isLoading,
+  isSaving,
+  error,
+  onRetry,
+  onAdd,
+  onUpdate,
+  onRemove,
+  onMove,
+}: ContractClausesEditorProps) {
+  const t = useTranslations("contracts.clauses");
+  const { currentLocale } = useLocale();
+  const [textLocale, setTextLocale] = useState(currentLocale);
+  const [editingClause, setEditingClause] = useState<ContractClause>();
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [removingClause, setRemovingClause] = useState<ContractClause>();
+
+  const canAdd = availableActions.includes("add_custom_clause");
+  const canUpdate = availableActions.includes("update_custom_clause");
+  const canRemove = availableActions.includes("remove_custom_clause");
+
+  const openForm = (clause?: ContractClause) => {
+    setEditingClause(clause);
+    setIsFormOpen(true);
+  };
+
+  const handleSubmit = async (values: ClauseFormValues) => {
+    const result = editingClause
+      ? await onUpdate(editingClause.id, values)
+      : await onAdd(values);
+
+    if (result.success) {
+      toast.success(result.message || t("saveSuccess"));
+    } else {
+      toast.error(result.message || t("saveError"));
+    }
+    return result.success;
+  };
+
+  const handleMove = async (clauseId: string, direction: -1 | 1) => {
+    const result = await onMove(clauseId, direction);
+    if (!result.success && result.message) {
+      toast.error(result.message);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!removingClause) return;
+
+    const result = await onRemove(removingClause.id);
+    if (result.success) {
+      toast.success(result.message || t("removeSuccess"));
+      setRemovingClause(undefined);
+    } else {
+      toast.error(result.message || t("removeError"));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between gap-2">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <ListChecks className="h-5 w-5 text-design-main" />
+          {t("title")}
+        </CardTitle>
+        <div className="flex gap-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setTextLocale(textLocale === "ar" ? "en" : "ar")}
+          >
+            <Languages className="h-4 w-4" />
+            {textLocale === "ar" ? "English" : "العربية"}
+          </Button>
+          {canAdd && (
+            <Button size="sm" onClick={() => openForm()} disabled={isSaving}>
+              <Plus className="h-4 w-4" />
+              {t("add")}
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {error ? (
+          <ErrorState
+            variant="inline"
+            title={t("loadError")}
+            error={error}
+            onRetry={onRetry}
+          />
+        ) : isLoading ? (
+          <div className="space-y-3">
+            <Skeleton className="h-20 w-full" />
+            <Skeleton className="h-20 w-full" />
+          </div>
+        ) : clauses.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t("empty")}</p>
+        ) : (
+          <ol className="space-y-3">
+            {clauses.map((clause, index) => {
+              const text = getClauseText(clause, textLocale);
+              return (
+                <li key={clause.id} className="rounded-md border p-3">
+                  <div className="flex flex-wrap items-start justify-between gap-2">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="text-sm text-muted-foreground">
+                        {index + 1}.
+                      </span>
+                      <p
+                        className="font-medium"
+                        dir={textLocale === "ar" ? "rtl" : "ltr"}
+                      >
+                        {text.title}
+                      </p>
+                      {clause.status && (
+                        <ClauseStatusBadge status={clause.status} />
+                      )}
+                      {clause.is_required && (
+                        <Badge variant="outline">{t("required")}</Badge>
+                      )}
+                    </div>
+                    {(canUpdate || canRemove) && (
+                      <div className="flex gap-1">
+                        {canUpdate && (
+                          <>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8"
+                              onClick={() => handleMove(clause.id, -1)}
+                              disabled={isSaving || index === 0}
+                              aria-label={t("moveUp")}
+                            >
+                              <ArrowUp className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8"
+                              onClick={() => handleMove(clause.id, 1)}
+                              disabled={
+                                isSaving || index === clauses.length - 1
+                              }
+                              aria-label={t("moveDown")}
+                            >
+                              <ArrowDown className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8"
+                              onClick={() => openForm(clause)}
+                              disabled={isSaving}
+                              aria-label={t("edit")}
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                          </>
+                        )}
+                        {canRemove && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8 text-destructive"
+                            onClick={() => setRemovingClause(clause)}
+                            disabled={isSaving}
+                            aria-label={t("remove")}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                  <p
+                    className="mt-2 whitespace-pre-wrap text-sm text-muted-foreground"
+                    dir={textLocale === "ar" ? "rtl" : "ltr"}
+                  >
+                    {text.content}
+                  </p>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </CardContent>
+
+      <ClauseFormDialog
+        open={isFormOpen}
+        onOpenChange={setIsFormOpen}
+        clause={editingClause}
+        isSaving={isSaving}
+        onSubmit={handleSubmit}
+      />
+
+      <AlertDialog
+        open={removingClause !== undefined}
+        onOpenChange={(open) => !open && setRemovingClause(undefined)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t("removeTitle")}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t("removeDescription")}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isSaving}>{t("cancel")}</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleRemove();
+              }}
+              disabled={isSaving}
+            >
+              {isSaving ? t("saving") : t("remove")}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
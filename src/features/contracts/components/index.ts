@@ -0,0 +1,13 @@
+// Export all contract components for easy importing
+export { ContractsList } from "./ContractsList";
+export { ContractCard } from "./ContractCard";
+export { ContractDetailsView } from "./ContractDetailsView";
+export { ContractActions } from "./ContractActions";
+export { ContractStatusBadge } from "./ContractStatusBadge";
+export { SignContractDialog } from "./SignContractDialog";
+export { RequestChangeDialog } from "./RequestChangeDialog";
+export { CreateContractButton } from "./CreateContractButton";
+export { ContractClausesEditor } from "./clauses/ContractClausesEditor";
+export { ClauseFormDialog } from "./clauses/ClauseFormDialog";
+export { ClauseStatusBadge } from "./clauses/ClauseStatusBadge";
+export { ChangeRequestReview } from "./clauses/ChangeRequestReview";
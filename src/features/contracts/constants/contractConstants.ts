@@ -0,0 +1,55 @@
+import { ClauseStatus } from "../types/clause";
+import {
+  ContractAction,
+  ContractParty,
+  ContractStatus,
+} from "../types/contract";
+
+// Status filters each side can use on its contracts list
+export const CONTRACT_STATUS_FILTERS = {
+  owner: [
+    "draft",
+    "sent_to_contractor",
+    "final_approved",
+    "signed_by_client",
+    "signed_by_contractor",
+    "signed_by_both",
+  ],
+  contractor: ["sent_to_contractor", "final_approved", "signed_by_client"],
+} as const satisfies Record<ContractParty, readonly ContractStatus[]>;
+
+// Workflow actions rendered as buttons, in display order. Clause and
+// change-request actions are handled next to the data they act on.
+export const CONTRACT_WORKFLOW_ACTIONS: ContractAction[] = [
+  "send_to_contractor",
+  "approve_final",
+  "request_change",
+  "sign_contract",
+  "reject_contract",
+];
+
+export const CONTRACTS_PAGE_SIZE = 12;
+
+export const CONTRACT_OTP_LENGTH = 6;
+
+export const CHANGE_REQUEST_LIMITS = {
+  noteMin: 10,
+  noteMax: 2000,
+  clauseMax: 255,
+} as const;
+
+export const CLAUSE_STATUSES: ClauseStatus[] = [
+  "draft",
+  "proposed",
+  "agreed",
+  "disputed",
+];
+
+// Custom clauses are ordered after the template clauses
+export const CUSTOM_CLAUSE_SORT_BASE = 2000;
+
+export const CLAUSE_LIMITS = {
+  titleMax: 255,
+  contentMax: 5000,
+  codeMax: 50,
+} as const;
@@ -0,0 +1,10 @@
+export {
+  CONTRACT_STATUS_FILTERS,
+  CONTRACT_WORKFLOW_ACTIONS,
+  CONTRACTS_PAGE_SIZE,
+  CONTRACT_OTP_LENGTH,
+  CHANGE_REQUEST_LIMITS,
+  CLAUSE_STATUSES,
+  CUSTOM_CLAUSE_SORT_BASE,
+  CLAUSE_LIMITS,
+} from "./contractConstants";
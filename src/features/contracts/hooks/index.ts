@@ -0,0 +1,3 @@
+export * from "./useContractDetails";
+export * from "./useContractSigning";
+export * from "./useContractClauses";
@@ -0,0 +1,168 @@
+"use client";
+import { useCallback, useEffect, useState } from "react";
+import { contractApi } from "../services/contractApi";
+import { ContractClause, ContractParty } from "../types";
+import { CUSTOM_CLAUSE_SORT_BASE } from "../constants";
+import { ClauseFormValues } from "../utils/validation";
+import { sortClauses, toClausePayload } from "../utils/clauses";
+
+type ActionResult = { success: boolean; message?: string };
+
+export const useContractClauses = (
+  party: ContractParty,
+  contractId: string,
+  onChanged?: () => void
+) => {
+  const [clauses, setClauses] = useState<ContractClause[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchClauses = useCallback(async () => {
+    if (!contractId) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    const response = await contractApi.getCustomClauses(party, contractId);
+    if (response.success) {
+      const data = response.data || response.response;
+      setClauses(sortClauses(data?.custom_clauses || []));
+    } else {
+      setError(response.message || null);
+    }
+
+    setIsLoading(false);
+  }, [party, contractId]);
+
+  useEffect(() => {
+    fetchClauses();
+  }, [fetchClauses]);
+
+  // Every clause change creates a new contract version, so the parent view
+  // is refreshed together with the clause list
+  const afterChange = useCallback(async () => {
+    await fetchClauses();
+    onChanged?.();
+  }, [fetchClauses, onChanged]);
+
+  const addClause = useCallback(
+    async (values: ClauseFormValues): Promise<ActionResult> => {
+      setIsSaving(true);
+
+      const lastOrder = clauses.reduce(
+        (max, clause) => Math.max(max, clause.sort_order ?? 0),
+        CUSTOM_CLAUSE_SORT_BASE
+      );
+      const response = await contractApi.addCustomClause(party, contractId, {
+        ...toClausePayload(values),
+        sort_order: lastOrder + 1,
+      });
+      if (response.success) {
+        await afterChange();
+      }
+
+      setIsSaving(false);
+      return { success: response.success, message: response.message };
+    },
+    [party, contractId, clauses, afterChange]
+  );
+
+  const updateClause = useCallback(
+    async (
+      clauseId: string,
+      values: ClauseFormValues
+    ): Promise<ActionResult> => {
+      setIsSaving(true);
+
+      const response = await contractApi.updateCustomClause(
+        party,
+        contractId,
+        clauseId,
+        toClausePayload(values)
+      );
+      if (response.success) {
+        await afterChange();
+      }
+
+      setIsSaving(false);
+      return { success: response.success, message: response.message };
+    },
+    [party, contractId, afterChange]
+  );
+
+  const removeClause = useCallback(
+    async (clauseId: string): Promise<ActionResult> => {
+      setIsSaving(true);
+
+      const response = await contractApi.removeCustomClause(
+        party,
+        contractId,
+        clauseId
+      );
+      if (response.success) {
+        await afterChange();
+      }
+
+      setIsSaving(false);
+      return { success: response.success, message: response.message };
+    },
+    [party, contractId, afterChange]
+  );
+
+  const moveClause = useCallback(
+    async (clauseId: string, direction: -1 | 1): Promise<ActionResult> => {
+      const index = clauses.findIndex((clause) => clause.id === clauseId);
+      const target = clauses[index + direction];
+      if (index === -1 || !target) return { success: false };
+
+      // Reorder locally first, then persist every position that changed
+      const reordered = clauses.slice();
+      reordered[index] = target;
+      reordered[index + direction] = clauses[index];
+      const withOrder = reordered.map((clause, position) => ({
+        ...clause,
+        sort_order: CUSTOM_CLAUSE_SORT_BASE + position + 1,
+      }));
+      setClauses(withOrder);
+      setIsSaving(true);
+
+      const previousOrder = new Map(
+        clauses.map((clause) => [clause.id, clause.sort_order])
+      );
+      const moved = withOrder.filter(
+        (clause) => previousOrder.get(clause.id) !== clause.sort_order
+      );
+      const responses = await Promise.all(
+        moved.map((clause) =>
+          contractApi.updateCustomClause(party, contractId, clause.id, {
+            sort_order: clause.sort_order,
+          })
+        )
+      );
+      const failed = responses.find((response) => !response.success);
+
+      if (failed) {
+        setClauses(clauses);
+      } else {
+        onChanged?.();
+      }
+
+      setIsSaving(false);
+      return { success: !failed, message: failed?.message };
+    },
+    [party, contractId, clauses, onChanged]
+  );
+
+  return {
+    clauses,
+    isLoading,
+    isSaving,
+    error,
+    refetch: fetchClauses,
+    addClause,
+    updateClause,
+    removeClause,
+    moveClause,
+  };
+};
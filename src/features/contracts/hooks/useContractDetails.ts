@@ -0,0 +1,151 @@
+"use client";
+import { useCallback, useEffect, useState } from "react";
+import { ApiResponse } from "@/lib/apiClient";
+import { contractApi } from "../services/contractApi";
+import { useContractsStore } from "../store/contractsStore";
+import {
+  ChangeRequestDecision,
+  ChangeRequestPayload,
+  ContractAction,
+  ContractActionResult,
+  ContractDetails,
+  ContractParty,
+} from "../types";
+
+type ActionResult = { success: boolean; message?: string };
+
+export const useContractDetails = (
+  party: ContractParty,
+  contractId: string
+) => {
+  const [details, setDetails] = useState<ContractDetails | null>(null);
+  const [availableActions, setAvailableActions] = useState<ContractAction[]>(
+    []
+  );
+  const [isLoading, setIsLoading] = useState(true);
+  const [pendingAction, setPendingAction] = useState<ContractAction | null>(
+    null
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchContract = useCallback(async () => {
+    if (!contractId) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    const [detailsResponse, actionsResponse] = await Promise.all([
+      contractApi.getContract(party, contractId),
+      contractApi.getAvailableActions(party, contractId),
+    ]);
+
+    const data = detailsResponse.data || detailsResponse.response;
+    if (detailsResponse.success && data) {
+      setDetails(data);
+    } else {
+      setError(detailsResponse.message || null);
+    }
+
+    // The dedicated endpoint is the source of truth for what the user can do
+    const actions = actionsResponse.data || actionsResponse.response;
+    setAvailableActions(
+      actionsResponse.success ? actions?.available_actions || [] : []
+    );
+
+    setIsLoading(false);
+  }, [party, contractId]);
+
+  useEffect(() => {
+    fetchContract();
+  }, [fetchContract]);
+
+  // Runs a workflow call, then reloads the contract so status and actions
+  // always reflect the server state
+  const runAction = useCallback(
+    async (
+      action: ContractAction,
+      call: () => Promise<ApiResponse<unknown>>
+    ): Promise<ActionResult> => {
+      setPendingAction(action);
+
+      try {
+        const response = await call();
+        if (response.success) {
+          const result = (response.data || response.response) as
+            | Partial<ContractActionResult>
+            | undefined;
+          if (result?.contract) {
+            useContractsStore.getState().upsertContract(result.contract);
+          }
+          await fetchContract();
+        }
+
+        return { success: response.success, message: response.message };
+      } finally {
+        setPendingAction(null);
+      }
+    },
+    [fetchContract]
+  );
+
+  const sendToContractor = useCallback(
+    () =>
+      runAction("send_to_contractor", () =>
+        contractApi.sendToContractor(contractId)
+      ),
+    [runAction, contractId]
+  );
+
+  const approveFinal = useCallback(
+    () =>
+      runAction("approve_final", () => contractApi.approveFinal(contractId)),
+    [runAction, contractId]
+  );
+
+  const rejectContract = useCallback(
+    () =>
+      runAction("reject_contract", () =>
+        contractApi.rejectContract(party, contractId)
+      ),
+    [runAction, party, contractId]
+  );
+
+  const requestChange = useCallback(
+    (payload: ChangeRequestPayload) =>
+      runAction("request_change", () =>
+        contractApi.requestChange(contractId, payload)
+      ),
+    [runAction, contractId]
+  );
+
+  const updateOtpSettings = useCallback(
+    (requiresOtp: boolean) =>
+      runAction("update_otp_settings", () =>
+        contractApi.updateOtpSettings(contractId, requiresOtp)
+      ),
+    [runAction, contractId]
+  );
+
+  const decideChangeRequest = useCallback(
+    (changeRequestId: number, status: ChangeRequestDecision) =>
+      runAction("decide_change_request", () =>
+        contractApi.decideChangeRequest(changeRequestId, status)
+      ),
+    [runAction]
+  );
+
+  return {
+    details,
+    availableActions,
+    isLoading,
+    pendingAction,
+    error,
+    refetch: fetchContract,
+    sendToContractor,
+    approveFinal,
+    rejectContract,
+    requestChange,
+    updateOtpSettings,
+    decideChangeRequest,
+  };
+};
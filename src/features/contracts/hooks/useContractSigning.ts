@@ -0,0 +1,79 @@
+"use client";
+import { useCallback, useEffect, useState } from "react";
+import { contractApi } from "../services/contractApi";
+import { ContractParty, ContractSigningOtp } from "../types";
+
+const getSecondsLeft = (expiresAt?: string) =>
+  expiresAt
+    ? Math.max(
+        0,
+        Math.round((new Date(expiresAt).getTime() - Date.now()) / 1000)
+      )
+    : 0;
+
+export const useContractSigning = (
+  party: ContractParty,
+  contractId: string
+) => {
+  const [otp, setOtp] = useState<ContractSigningOtp | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+  const [isIssuing, setIsIssuing] = useState(false);
+  const [isSigning, setIsSigning] = useState(false);
+
+  useEffect(() => {
+    if (!otp?.ttl_expires_at) return;
+
+    setSecondsLeft(getSecondsLeft(otp.ttl_expires_at));
+    const timer = setInterval(() => {
+      const left = getSecondsLeft(otp.ttl_expires_at);
+      setSecondsLeft(left);
+      if (left === 0) clearInterval(timer);
+    }, 1000);
+
+    return () => clearInterval(timer);
+  }, [otp]);
+
+  const issueOtp = useCallback(async () => {
+    setIsIssuing(true);
+
+    const response = await contractApi.issueSigningOtp(party, contractId);
+    const data = response.data || response.response;
+    if (response.success) {
+      setOtp(data?.results?.otp || { id: 0 });
+    }
+
+    setIsIssuing(false);
+    return { success: response.success, message: response.message };
+  }, [party, contractId]);
+
+  const sign = useCallback(
+    async (code: string) => {
+      setIsSigning(true);
+
+      const response = await contractApi.signContract(party, contractId, code);
+      if (response.success) {
+        setOtp(null);
+      }
+
+      setIsSigning(false);
+      return { success: response.success, message: response.message };
+    },
+    [party, contractId]
+  );
+
+  const reset = useCallback(() => {
+    setOtp(null);
+    setSecondsLeft(0);
+  }, []);
+
+  return {
+    otp,
+    isOtpIssued: otp !== null,
+    secondsLeft,
+    isIssuing,
+    isSigning,
+    issueOtp,
+    sign,
+    reset,
+  };
+};
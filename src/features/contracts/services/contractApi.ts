@@ -0,0 +1,255 @@
+import { ApiResponse } from "@/lib/apiClient";
+import * as sdk from "@/lib/sdk";
+import {
+  ChangeRequestDecision,
+  ChangeRequestPayload,
+  ContractAction,
+  ContractActionResult,
+  ContractChangeRequest,
+  ContractClause,
+  ContractDetails,
+  ContractFilters,
+  ContractListResult,
+  ContractParty,
+  ContractSigningOtp,
+  ContractVersion,
+  CustomClausePayload,
+} from "../types";
+import { CONTRACT_STATUS_FILTERS } from "../constants";
+
+/**
+ * Contract API Service
+ * Handles the contract lifecycle for owners and contractors
+ */
+class ContractApiService {
+  /**
+   * Get the contracts visible to one side of the agreement
+   */
+  async getContracts(
+    party: ContractParty,
+    filters: ContractFilters = {}
+  ): Promise<ApiResponse<ContractListResult>> {
+    // Each side can only filter by the statuses it has a filter for
+    const { status, ...query } = filters;
+    if (party === "owner") {
+      return sdk.ownerGetContracts<ContractListResult>({
+        ...query,
+        status: CONTRACT_STATUS_FILTERS.owner.find((item) => item === status),
+      });
+    }
+    return sdk.contractorGetContracts<ContractListResult>({
+      ...query,
+      status: CONTRACT_STATUS_FILTERS.contractor.find(
+        (item) => item === status
+      ),
+    });
+  }
+
+  /**
+   * Get a contract with its current version, change requests and signatures
+   */
+  async getContract(
+    party: ContractParty,
+    contractId: number | string
+  ): Promise<ApiResponse<ContractDetails>> {
+    return party === "owner"
+      ? sdk.ownerGetContract<ContractDetails>(contractId)
+      : sdk.contractorGetContract<ContractDetails>(contractId);
+  }
+
+  /**
+   * Get the actions the current user may perform on a contract
+   */
+  async getAvailableActions(
+    party: ContractParty,
+    contractId: number | string
+  ): Promise<ApiResponse<{ available_actions: ContractAction[] }>> {
+    type Result = { available_actions: ContractAction[] };
+    return party === "owner"
+      ? sdk.ownerGetAvailableActions<Result>(contractId)
+      : sdk.contractorGetAvailableActions<Result>(contractId);
+  }
+
+  /**
+   * Create a draft contract from an accepted offer (owner)
+   */
+  async createFromOffer(
+    offerId: number | string
+  ): Promise<ApiResponse<ContractActionResult & { version?: ContractVersion }>> {
+    return sdk.ownerCreateContractFromOffer<
+      ContractActionResult & { version?: ContractVersion }
+    >(offerId);
+  }
+
+  /**
+   * Send a draft contract to the contractor for review (owner)
+   */
+  async sendToContractor(
+    contractId: number | string
+  ): Promise<ApiResponse<ContractActionResult>> {
+    return sdk.ownerSendToContractor<ContractActionResult>(contractId);
+  }
+
+  /**
+   * Give final approval so both sides can sign (owner)
+   */
+  async approveFinal(
+    contractId: number | string
+  ): Promise<ApiResponse<ContractActionResult>> {
+    return sdk.ownerApproveFinal<ContractActionResult>(contractId);
+  }
+
+  /**
+   * Turn OTP verification for signing on or off (owner)
+   */
+  async updateOtpSettings(
+    contractId: number | string,
+    requiresOtp: boolean
+  ): Promise<ApiResponse<ContractActionResult>> {
+    return sdk.ownerUpdateOtpSettings<ContractActionResult>(contractId, {
+      requires_otp: requiresOtp,
+    });
+  }
+
+  /**
+   * Ask the owner to change the contract (contractor)
+   */
+  async requestChange(
+    contractId: number | string,
+    data: ChangeRequestPayload
+  ): Promise<ApiResponse<{ change_request: ContractChangeRequest }>> {
+    return sdk.contractorRequestChange<{
+      change_request: ContractChangeRequest;
+    }>(contractId, data);
+  }
+
+  /**
+   * Reject a contract
+   */
+  async rejectContract(
+    party: ContractParty,
+    contractId: number | string
+  ): Promise<ApiResponse<ContractActionResult>> {
+    return party === "owner"
+      ? sdk.ownerRejectContract<ContractActionResult>(contractId)
+      : sdk.contractorRejectContract<ContractActionResult>(contractId);
+  }
+
+  /**
+   * Send a one-time code used to confirm the signature
+   */
+  async issueSigningOtp(
+    party: ContractParty,
+    contractId: number | string
+  ): Promise<
+    ApiResponse<ContractActionResult & { results?: { otp?: ContractSigningOtp } }>
+  > {
+    type Result = ContractActionResult & {
+      results?: { otp?: ContractSigningOtp };
+    };
+    return party === "owner"
+      ? sdk.ownerIssueOtpForSigning<Result>(contractId)
+      : sdk.contractorIssueOtpForSigning<Result>(contractId);
+  }
+
+  /**
+   * Sign a contract with the one-time code
+   */
+  async signContract(
+    party: ContractParty,
+    contractId: number | string,
+    code: string
+  ): Promise<ApiResponse<ContractActionResult>> {
+    return party === "owner"
+      ? sdk.ownerSignContract<ContractActionResult>(contractId, { code })
+      : sdk.contractorSignContract<ContractActionResult>(contractId, { code });
+  }
+
+  /**
+   * Get the custom clauses added to a contract
+   */
+  async getCustomClauses(
+    party: ContractParty,
+    contractId: number | string
+  ): Promise<ApiResponse<{ custom_clauses: ContractClause[] }>> {
+    type Result = { custom_clauses: ContractClause[] };
+    return party === "owner"
+      ? sdk.ownerGetCustomClauses<Result>(contractId)
+      : sdk.contractorGetCustomClauses<Result>(contractId);
+  }
+
+  /**
+   * Add a custom clause, which creates a new contract version
+   */
+  async addCustomClause(
+    party: ContractParty,
+    contractId: number | string,
+    data: CustomClausePayload
+  ): Promise<
+    ApiResponse<
+      ContractActionResult & {
+        updated_version?: ContractVersion;
+        new_clause?: ContractClause;
+      }
+    >
+  > {
+    type Result = ContractActionResult & {
+      updated_version?: ContractVersion;
+      new_clause?: ContractClause;
+    };
+    return party === "owner"
+      ? sdk.ownerAddCustomClause<Result>(contractId, data)
+      : sdk.contractorAddCustomClause<Result>(contractId, data);
+  }
+
+  /**
+   * Update a custom clause
+   */
+  async updateCustomClause(
+    party: ContractParty,
+    contractId: number | string,
+    clauseId: string,
+    data: Partial<CustomClausePayload>
+  ): Promise<
+    ApiResponse<ContractActionResult & { updated_version?: ContractVersion }>
+  > {
+    type Result = ContractActionResult & { updated_version?: ContractVersion };
+    return party === "owner"
+      ? sdk.ownerUpdateCustomClause<Result>(contractId, clauseId, data)
+      : sdk.contractorUpdateCustomClause<Result>(contractId, clauseId, data);
+  }
+
+  /**
+   * Remove a custom clause
+   */
+  async removeCustomClause(
+    party: ContractParty,
+    contractId: number | string,
+    clauseId: string
+  ): Promise<
+    ApiResponse<ContractActionResult & { updated_version?: ContractVersion }>
+  > {
+    type Result = ContractActionResult & { updated_version?: ContractVersion };
+    return party === "owner"
+      ? sdk.ownerRemoveCustomClause<Result>(contractId, clauseId)
+      : sdk.contractorRemoveCustomClause<Result>(contractId, clauseId);
+  }
+
+  /**
+   * Accept or reject a contractor's change request (owner)
+   */
+  async decideChangeRequest(
+    changeRequestId: number | string,
+    status: ChangeRequestDecision
+  ): Promise<ApiResponse<{ decision: ContractChangeRequest }>> {
+    return sdk.ownerDecideChangeRequest<{ decision: ContractChangeRequest }>(
+      changeRequestId,
+      { status }
+    );
+  }
+}
+
+/**
+ * Singleton instance of the ContractApiService
+ */
+export const contractApi = new ContractApiService();
@@ -0,0 +1,138 @@
+import { create } from "zustand";
+import { devtools } from "zustand/middleware";
+import { contractApi } from "../services/contractApi";
+import {
+  Contract,
+  ContractFilters,
+  ContractParty,
+  ContractStatus,
+} from "../types";
+import { CONTRACTS_PAGE_SIZE } from "../constants";
+
+interface ContractsState {
+  // Data state
+  party: ContractParty | null;
+  contracts: Contract[];
+  filters: ContractFilters;
+
+  // UI state
+  isLoading: boolean;
+  error: string | null;
+
+  // Pagination state
+  currentPage: number;
+  totalPages: number;
+  totalContracts: number;
+
+  // Actions
+  setParty: (party: ContractParty) => void;
+  fetchContracts: () => Promise<void>;
+  setStatusFilter: (status?: ContractStatus) => void;
+  setPage: (page: number) => void;
+  upsertContract: (contract: Contract) => void;
+  clearError: () => void;
+  reset: () => void;
+}
+
+const initialFilters: ContractFilters = {
+  status: undefined,
+  page: 1,
+  per_page: CONTRACTS_PAGE_SIZE,
+};
+
+const initialState = {
+  party: null,
+  contracts: [],
+  filters: initialFilters,
+  isLoading: false,
+  error: null,
+  currentPage: 1,
+  totalPages: 0,
+  totalContracts: 0,
+};
+
+export const useContractsStore = create<ContractsState>()(
+  devtools(
+    (set, get) => ({
+      ...initialState,
+
+      setParty: (party: ContractParty) => {
+        // Owner and contractor lists use different filters, start fresh
+        if (get().party !== party) {
+          set({ ...initialState, party });
+        }
+
+        get().fetchContracts();
+      },
+
+      fetchContracts: async () => {
+        const { party, filters } = get();
+        if (!party) return;
+
+        set({ isLoading: true, error: null });
+
+        const response = await contractApi.getContracts(party, filters);
+
+        if (response.success) {
+          const result = response.data || response.response;
+          const contracts = result?.contracts || [];
+          const pagination = result?.pagination || response.meta;
+
+          set({
+            contracts,
+            totalContracts: pagination?.total || contracts.length,
+            totalPages: pagination?.last_page || 1,
+            currentPage: pagination?.current_page || 1,
+            isLoading: false,
+          });
+        } else {
+          set({
+            contracts: [],
+            error: response.message || null,
+            isLoading: false,
+          });
+        }
+      },
+
+      setStatusFilter: (status?: ContractStatus) => {
+        set({
+          filters: { ...get().filters, status, page: 1 },
+          currentPage: 1,
+        });
+
+        get().fetchContracts();
+      },
+
+      setPage: (page: number) => {
+        set({
+          filters: { ...get().filters, page },
+          currentPage: page,
+        });
+
+        get().fetchContracts();
+      },
+
+      upsertContract: (contract: Contract) => {
+        const { contracts } = get();
+        const exists = contracts.some((item) => item.id === contract.id);
+
+        set({
+          contracts: exists
+            ? contracts.map((item) =>
+                item.id === contract.id ? { ...item, ...contract } : item
+              )
+            : [contract, ...contracts],
+        });
+      },
+
+      clearError: () => {
+        set({ error: null });
+      },
+
+      reset: () => {
+        set(initialState);
+      },
+    }),
+    { name: "contracts-store" }
+  )
+);
@@ -0,0 +1,35 @@
+/** Negotiation state of a single custom clause */
+export type ClauseStatus = "draft" | "proposed" | "agreed" | "disputed";
+
+export type ChangeRequestDecision = "accepted" | "rejected";
+
+export interface ContractClause {
+  id: string;
+  code?: string | null;
+  title: string;
+  content: string;
+  title_ar?: string | null;
+  title_en?: string | null;
+  content_ar?: string | null;
+  content_en?: string | null;
+  is_required?: boolean;
+  sort_order?: number;
+  status?: ClauseStatus;
+}
+
+/**
+ * `title` and `content` are required by the API and carry the Arabic text,
+ * the localized fields keep both languages side by side.
+ */
+export interface CustomClausePayload {
+  title: string;
+  content: string;
+  title_ar: string;
+  title_en?: string;
+  content_ar: string;
+  content_en?: string;
+  code?: string;
+  is_required?: boolean;
+  sort_order?: number;
+  status?: ClauseStatus;
+}
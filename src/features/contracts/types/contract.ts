@@ -0,0 +1,120 @@
+import { PaginationMeta } from "@/lib/apiClient";
+
+/** Which side of the contract the current user is acting for */
+export type ContractParty = "owner" | "contractor";
+
+export type ContractStatus =
+  | "draft"
+  | "sent_to_contractor"
+  | "final_approved"
+  | "signed_by_client"
+  | "signed_by_contractor"
+  | "signed_by_both"
+  | "rejected";
+
+/** Actions returned by the `available-actions` endpoints */
+export type ContractAction =
+  | "send_to_contractor"
+  | "approve_final"
+  | "sign_contract"
+  | "reject_contract"
+  | "request_change"
+  | "decide_change_request"
+  | "update_otp_settings"
+  | "add_custom_clause"
+  | "update_custom_clause"
+  | "remove_custom_clause";
+
+export type ChangeRequestStatus = "pending" | "accepted" | "rejected";
+
+export interface ContractPartySummary {
+  id: number;
+  name: string;
+  avatar?: string;
+}
+
+export interface ContractVersion {
+  id: number;
+  version: number;
+  content?: string;
+  total_amount?: number | string;
+  duration_value?: number;
+  duration_unit?: string;
+  created_at?: string;
+}
+
+export interface Contract {
+  id: number;
+  project_id?: number;
+  offer_id?: number;
+  status: ContractStatus;
+  current_version_no?: number;
+  total_amount?: number | string;
+  requires_otp?: boolean;
+  project?: { id: number; title: string };
+  owner?: ContractPartySummary;
+  contractor?: ContractPartySummary;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface ContractChangeRequest {
+  id: number;
+  contract_id: number;
+  version: number;
+  target_clause?: string | null;
+  change_note: string;
+  current_content?: string | null;
+  proposed_content?: string | null;
+  status: ChangeRequestStatus;
+  requested_by?: ContractPartySummary;
+  created_at?: string;
+}
+
+export interface ContractSignEvent {
+  id: number;
+  signer_type?: "client" | "contractor";
+  signer?: ContractPartySummary;
+  version?: number;
+  signed_at?: string;
+  created_at?: string;
+}
+
+export interface ContractDetails {
+  contract: Contract;
+  current_version?: ContractVersion | null;
+  pending_change_requests?: ContractChangeRequest[];
+  sign_events?: ContractSignEvent[];
+  status_summary?: Record<string, unknown>;
+  available_actions?: ContractAction[];
+}
+
+export interface ContractListResult {
+  contracts: Contract[];
+  pagination?: PaginationMeta;
+}
+
+export interface ContractFilters {
+  status?: ContractStatus;
+  project_id?: number;
+  page?: number;
+  per_page?: number;
+}
+
+export interface ChangeRequestPayload {
+  version: number;
+  target_clause?: string;
+  change_note: string;
+}
+
+export interface ContractSigningOtp {
+  id: number;
+  channel?: string;
+  ttl_expires_at?: string;
+  max_attempts?: number;
+  status?: string;
+}
+
+export interface ContractActionResult {
+  contract: Contract;
+}
@@ -0,0 +1,23 @@
+export type {
+  ContractParty,
+  ContractStatus,
+  ContractAction,
+  ChangeRequestStatus,
+  ContractPartySummary,
+  ContractVersion,
+  Contract,
+  ContractChangeRequest,
+  ContractSignEvent,
+  ContractDetails,
+  ContractListResult,
+  ContractFilters,
+  ChangeRequestPayload,
+  ContractSigningOtp,
+  ContractActionResult,
+} from "./contract";
+export type {
+  ClauseStatus,
+  ChangeRequestDecision,
+  ContractClause,
+  CustomClausePayload,
+} from "./clause";
@@ -0,0 +1,60 @@
+import { ClauseFormValues } from "./validation";
+import { ContractClause, CustomClausePayload } from "../types";
+
+export const sortClauses = (clauses: ContractClause[]) =>
+  clauses
+    .slice()
+    .sort((a, b) => (a.sort_order ?? 0) - (b.sort_order ?? 0));
+
+/** Clause text in the requested language, falling back to the API fields */
+export const getClauseText = (clause: ContractClause, locale: string) => ({
+  title:
+    (locale === "en" ? clause.title_en : clause.title_ar) || clause.title,
+  content:
+    (locale === "en" ? clause.content_en : clause.content_ar) ||
+    clause.content,
+});
+
+export const toClauseFormValues = (
+  clause?: ContractClause
+): ClauseFormValues => ({
+  title_ar: clause?.title_ar || clause?.title || "",
+  title_en: clause?.title_en || "",
+  content_ar: clause?.content_ar || clause?.content || "",
+  content_en: clause?.content_en || "",
+  code: clause?.code || "",
+  is_required: clause?.is_required ?? false,
+  status: clause?.status || "draft",
+});
+
+export const toClausePayload = (
+  values: ClauseFormValues
+): CustomClausePayload => ({
+  title: values.title_ar,
+  content: values.content_ar,
+  title_ar: values.title_ar,
+  title_en: values.title_en || undefined,
+  content_ar: values.content_ar,
+  content_en: values.content_en || undefined,
+  code: values.code || undefined,
+  is_required: values.is_required,
+  status: values.status,
+});
+
+/**
+ * Finds the clause a change request points at, matching on code or title
+ * in either language.
+ */
+export const findTargetClause = (
+  clauses: ContractClause[],
+  target?: string | null
+) => {
+  const needle = target?.trim().toLowerCase();
+  if (!needle) return undefined;
+
+  return clauses.find((clause) =>
+    [clause.code, clause.title, clause.title_ar, clause.title_en].some(
+      (value) => value?.trim().toLowerCase() === needle
+    )
+  );
+};
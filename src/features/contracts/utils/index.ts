@@ -0,0 +1,3 @@
+export * from "./validation";
+export * from "./validationMessages";
+export * from "./clauses";
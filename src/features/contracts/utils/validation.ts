@@ -0,0 +1,39 @@
+"use client";
+import { z } from "zod";
+import { getContractValidationMessages } from "./validationMessages";
+import { CLAUSE_LIMITS } from "../constants";
+
+export const createContractValidationSchemas = (
+  t: (key: string) => string
+) => {
+  const messages = getContractValidationMessages(t);
+
+  const clauseTitle = z
+    .string()
+    .trim()
+    .max(CLAUSE_LIMITS.titleMax, messages.clauseTitle.maxLength);
+  const clauseContent = z
+    .string()
+    .trim()
+    .max(CLAUSE_LIMITS.contentMax, messages.clauseContent.maxLength);
+
+  // Arabic text is the contract's binding language, English is optional
+  const ClauseSchema = z.object({
+    title_ar: clauseTitle.min(1, messages.clauseTitle.required),
+    title_en: clauseTitle,
+    content_ar: clauseContent.min(1, messages.clauseContent.required),
+    content_en: clauseContent,
+    code: z
+      .string()
+      .trim()
+      .max(CLAUSE_LIMITS.codeMax, messages.clauseCode.maxLength),
+    is_required: z.boolean(),
+    status: z.enum(["draft", "proposed", "agreed", "disputed"]),
+  });
+
+  return { ClauseSchema };
+};
+
+export type ClauseFormValues = z.infer<
+  ReturnType<typeof createContractValidationSchemas>["ClauseSchema"]
+>;
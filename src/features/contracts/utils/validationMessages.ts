@@ -0,0 +1,14 @@
+"use client";
+export const getContractValidationMessages = (t: (key: string) => string) => ({
+  clauseTitle: {
+    required: t("feedback.validation.contract.clauseTitle.required"),
+    maxLength: t("feedback.validation.contract.clauseTitle.maxLength"),
+  },
+  clauseContent: {
+    required: t("feedback.validation.contract.clauseContent.required"),
+    maxLength: t("feedback.validation.contract.clauseContent.maxLength"),
+  },
+  clauseCode: {
+    maxLength: t("feedback.validation.contract.clauseCode.maxLength"),
+  },
+});
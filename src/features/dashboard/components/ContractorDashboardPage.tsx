@@ -25,6 +25,8 @@ import { isProfileComplete, getProfileCompletionTasks } from "../utils";
 import { cn } from "@/lib/utils";
 import { DashboardUser } from "../types";
 import ProfileCompletionAlert from "@/features/profile/components/ProfileCompletionAlert";
+import { SavedSearchesWidget } from "@/features/offers/components";
+import { usePaymentDueEvents } from "@/features/payments/hooks";
 
 function ProfileCompletionBanner({
   user,
@@ -189,6 +191,8 @@ export function ContractorDashboardPage() {
     refreshData,
     clearError,
   } = useDashboardData();
+  const paymentDueEvents = usePaymentDueEvents("contractor");
+  const calendarEvents = [...upcomingEvents, ...paymentDueEvents];
 
   const handleRefresh = async () => {
     setIsRefreshing(true);
@@ -370,7 +374,7 @@ export function ContractorDashboardPage() {
               }
               reputation={4.8}
               onBrowseProjects={() =>
-                handleNavigation("/dashboard/contractor/projects/browse")
+                handleNavigation("/dashboard/contractor/browse-projects")
               }
               onViewOffers={() =>
                 handleNavigation("/dashboard/contractor/offers")
@@ -383,6 +387,9 @@ export function ContractorDashboardPage() {
 
           {/* Sidebar */}
           <div className="xl:col-span-1 space-y-6">
+            {/* Saved project searches */}
+            <SavedSearchesWidget />
+
             {/* Quick Actions */}
             {quickActions.length > 0 && (
               <QuickActionsWidget
@@ -401,11 +408,15 @@ export function ContractorDashboardPage() {
             />
 
             {/* Calendar */}
-            {upcomingEvents.length > 0 && (
+            {calendarEvents.length > 0 && (
               <CalendarWidget
-                events={upcomingEvents}
+                events={calendarEvents}
                 maxItems={5}
-                onEventClick={(event) => console.log("Event clicked:", event)}
+                onEventClick={(event) =>
+                  event.type === "payment_due"
+                    ? router.push("/dashboard/contractor/payments")
+                    : console.log("Event clicked:", event)
+                }
                 onViewAll={() => router.push("/dashboard/contractor/calendar")}
               />
             )}
@@ -1,7 +1,8 @@
 "use client";
 
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
+import { useTranslations } from "next-intl";
 import {
   Card,
   CardContent,
@@ -23,7 +24,9 @@ import {
 } from "../components";
 import { isProfileComplete, getProfileCompletionTasks } from "../utils";
 import { cn } from "@/lib/utils";
-import { DashboardUser } from "../types";
+import { DashboardUser, KPI } from "../types";
+import { useSupplierReviewSummary } from "@/features/reviews/hooks";
+import { formatRating, toRating } from "@/features/reviews/utils";
 import ProfileCompletionAlert from "@/features/profile/components/ProfileCompletionAlert";
 
 function ProfileCompletionBanner({
@@ -174,6 +177,29 @@ export function SupplierDashboardPage() {
     refreshData,
     clearError,
   } = useDashboardData();
+  const t = useTranslations("reviews.dashboard");
+  const { summary: ratingSummary } = useSupplierReviewSummary(
+    currentUser?.id ? String(currentUser.id) : undefined
+  );
+
+  // The product rating sits next to the KPIs the dashboard API returns
+  const ratingKpi = useMemo<KPI | null>(() => {
+    if (!ratingSummary) return null;
+
+    const change = toRating(ratingSummary.rating_change);
+    return {
+      id: "product-rating",
+      label: t("productRating"),
+      value: formatRating(ratingSummary.average_rating),
+      change: change ? Number(change.toFixed(1)) : undefined,
+      changeType:
+        change > 0 ? "increase" : change < 0 ? "decrease" : "neutral",
+      format: "text",
+      icon: "Star",
+      color: "yellow",
+    };
+  }, [ratingSummary, t]);
+  const allKpis = ratingKpi ? [...kpis, ratingKpi] : kpis;
 
   const handleRefresh = async () => {
     setIsRefreshing(true);
@@ -316,9 +342,9 @@ export function SupplierDashboardPage() {
         {currentUser && <WelcomeCard user={currentUser as DashboardUser} />}
 
         {/* KPI Cards */}
-        {kpis.length > 0 && (
+        {allKpis.length > 0 && (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-            {kpis.map((kpi: any) => (
+            {allKpis.map((kpi: any) => (
               <KPICard key={kpi.id} kpi={kpi} />
             ))}
           </div>
@@ -5,6 +5,7 @@ import Image from "next/image";
 import Link from "next/link";
 import AllProjects from "./projects/allProjects";
 import { useTranslations } from "next-intl";
+import { LatestProjectUpdateCard } from "@/features/updates/components";
 
 const RecentProjects = () => {
   const t = useTranslations();
@@ -50,6 +51,8 @@ const RecentProjects = () => {
         </Link>
       </div>
 
+      <LatestProjectUpdateCard dashboardRole="individual" />
+
       {/* Scrollable Horizontal Menu */}
       <div className="w-full overflow-x-auto no-scrollbar  relative">
         <div className=" flex min-w-max gap-2 sm:gap-4 relative border-b-4 border-gray-200 justify-evenly">
@@ -1,4 +1,5 @@
 import { api as apiClient } from "@/lib/api";
+import * as sdk from "@/lib/sdk";
 import { DashboardData, KPI } from "../types";
 import { mockDashboardData } from "./mockData";
 
@@ -39,7 +40,8 @@ class DashboardService {
 
   async markNotificationRead(notificationId: string): Promise<void> {
     try {
-      await apiClient.patch(`/notifications/${notificationId}/read`);
+      const response = await sdk.markNotificationAsRead(notificationId);
+      if (!response.success) throw new Error(response.message);
     } catch (error) {
       console.error("Error marking notification as read:", error);
       throw new Error("Failed to mark notification as read");
@@ -48,7 +50,8 @@ class DashboardService {
 
   async markAllNotificationsRead(): Promise<void> {
     try {
-      await apiClient.patch("/notifications/mark-all-read");
+      const response = await sdk.markAllNotificationsAsRead();
+      if (!response.success) throw new Error(response.message);
     } catch (error) {
       console.error("Error marking all notifications as read:", error);
       throw new Error("Failed to mark all notifications as read");
@@ -24,6 +24,7 @@ export type {
   Notification,
   NotificationType,
   NotificationPriority,
+  NotificationSettings,
 } from "./notification";
 
 export type { KPI, KPIFormat, DashboardKPIs } from "./kpi";
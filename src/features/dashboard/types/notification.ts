@@ -27,15 +27,31 @@ export type NotificationType =
 
 export type NotificationPriority = "low" | "medium" | "high" | "urgent";
 
+export type NotificationChannel = "email" | "push" | "sms";
+
+export type NotificationCategory =
+  | "projectUpdates"
+  | "offerNotifications"
+  | "paymentReminders"
+  | "messages"
+  | "systemUpdates"
+  | "marketingEmails";
+
+export type ChannelPreferences = Record<NotificationChannel, boolean>;
+
+export type DigestFrequency = "instant" | "daily" | "weekly";
+
+export interface QuietHours {
+  enabled: boolean;
+  start: string; // HH:mm
+  end: string; // HH:mm
+}
+
 export interface NotificationSettings {
   emailNotifications: boolean;
   pushNotifications: boolean;
   smsNotifications: boolean;
-  preferences: {
-    projectUpdates: boolean;
-    offerNotifications: boolean;
-    paymentReminders: boolean;
-    systemUpdates: boolean;
-    marketingEmails: boolean;
-  };
+  preferences: Record<NotificationCategory, ChannelPreferences>;
+  quietHours: QuietHours;
+  digestFrequency: DigestFrequency;
 }
@@ -0,0 +1,30 @@
+"use client";
+import React from "react";
+import Link from "next/link";
+import { useTranslations } from "next-intl";
+import { Bell } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useUnreadNotifications } from "../hooks/useUnreadNotifications";
+import { NOTIFICATIONS_PATH } from "../constants";
+import { formatUnreadCount } from "../utils/notifications";
+
+export function NotificationBell() {
+  const t = useTranslations("notifications");
+  const unreadCount = useUnreadNotifications();
+
+  return (
+    <Button variant="ghost" size="icon" className="relative" asChild>
+      <Link
+        href={NOTIFICATIONS_PATH}
+        aria-label={t("bellLabel", { count: unreadCount })}
+      >
+        <Bell className="h-4 w-4 sm:h-5 sm:w-5 text-gray-700 dark:text-gray-300" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-4 h-4 sm:min-w-5 sm:h-5 px-1 bg-red-500 rounded-full text-white flex items-center justify-center text-[10px] sm:text-xs">
+            {formatUnreadCount(unreadCount)}
+          </span>
+        )}
+      </Link>
+    </Button>
+  );
+}
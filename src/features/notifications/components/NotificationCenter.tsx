@@ -0,0 +1,303 @@
+"use client";
+import React, { useState } from "react";
+import { useRouter } from "next/navigation";
+import { useTranslations } from "next-intl";
+import { Archive, ArchiveRestore, BellOff, CheckCheck } from "lucide-react";
+import toast from "react-hot-toast";
+import { Button } from "@/shared/components/ui/button";
+import { Checkbox } from "@/shared/components/ui/checkbox";
+import { ErrorState } from "@/shared/components/ui/ErrorState";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/shared/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/shared/components/ui/alert-dialog";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useAuthStore } from "@/features/auth/store/authStore";
+import { NotificationType } from "@/features/dashboard/types";
+import { OffersPagination } from "@/features/offers/components/common/OffersPagination";
+import { useNotificationCenter } from "../hooks/useNotificationCenter";
+import { NotificationTab, UserNotification } from "../types";
+import { NOTIFICATION_TABS, NOTIFICATION_TYPES } from "../constants";
+import { getNotificationLink } from "../utils/notifications";
+import { NotificationItem } from "./NotificationItem";
+
+const ALL_TYPES = "all";
+
+type ActionResult = { success: boolean; message?: string };
+
+export function NotificationCenter() {
+  const t = useTranslations("notifications");
+  const tCommon = useTranslations("common");
+  const router = useRouter();
+  const role = useAuthStore((state) => state.user?.user_type)?.toLowerCase();
+  const [tab, setTab] = useState<NotificationTab>("all");
+  const [type, setType] = useState<NotificationType>();
+  const [page, setPage] = useState(1);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [deleting, setDeleting] = useState<UserNotification>();
+  const {
+    notifications,
+    meta,
+    isLoading,
+    isSaving,
+    error,
+    refetch,
+    markAsRead,
+    markAllAsRead,
+    archive,
+    unarchive,
+    remove,
+  } = useNotificationCenter(tab, type, page);
+
+  const isArchiveTab = tab === "archived";
+  const allSelected =
+    notifications.length > 0 && selectedIds.length === notifications.length;
+
+  // Selection only covers the page being shown
+  const changeView = (update: () => void) => {
+    update();
+    setSelectedIds([]);
+  };
+
+  const notify = (result: ActionResult, successKey: string) => {
+    if (result.success) {
+      toast.success(result.message || t(`feedback.${successKey}`));
+      setSelectedIds([]);
+    } else {
+      toast.error(result.message || t("feedback.error"));
+    }
+  };
+
+  const handleOpen = (notification: UserNotification) => {
+    if (!notification.isRead) {
+      markAsRead([notification.id]);
+    }
+    const link = role ? getNotificationLink(notification, role) : null;
+    if (link) router.push(link);
+  };
+
+  const toggleSelected = (id: string, selected: boolean) => {
+    setSelectedIds((current) =>
+      selected ? [...current, id] : current.filter((item) => item !== id)
+    );
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    const result = await remove(deleting.id);
+    notify(result, "deleted");
+    if (result.success) setDeleting(undefined);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <Tabs
+          value={tab}
+          onValueChange={(value) =>
+            changeView(() => {
+              setTab(value as NotificationTab);
+              setPage(1);
+            })
+          }
+        >
+          <TabsList>
+            {NOTIFICATION_TABS.map((item) => (
+              <TabsTrigger key={item} value={item}>
+                {t(`tabs.${item}`)}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Select
+            value={type ?? ALL_TYPES}
+            onValueChange={(value) =>
+              changeView(() => {
+                setType(
+                  value === ALL_TYPES ? undefined : (value as NotificationType)
+                );
+                setPage(1);
+              })
+            }
+          >
+            <SelectTrigger className="w-52">
+              <SelectValue placeholder={t("filters.type")} />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_TYPES}>{t("filters.allTypes")}</SelectItem>
+              {NOTIFICATION_TYPES.map((item) => (
+                <SelectItem key={item} value={item}>
+                  {t(`types.${item}`)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {!isArchiveTab && (
+            <Button
+              variant="outline"
+              disabled={isSaving || notifications.length === 0}
+              onClick={async () => notify(await markAllAsRead(), "allRead")}
+            >
+              <CheckCheck className="h-4 w-4" />
+              {t("actions.markAllRead")}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {notifications.length > 0 && (
+        <div className="flex flex-wrap items-center gap-3 rounded-md border bg-muted/40 px-4 py-2">
+          <Checkbox
+            id="notifications-select-all"
+            checked={allSelected}
+            onCheckedChange={(checked) =>
+              setSelectedIds(
+                checked === true ? notifications.map((item) => item.id) : []
+              )
+            }
+          />
+          <label
+            htmlFor="notifications-select-all"
+            className="text-sm text-muted-foreground"
+          >
+            {selectedIds.length > 0
+              ? t("selectedCount", { count: selectedIds.length })
+              : t("selectAll")}
+          </label>
+
+          {selectedIds.length > 0 && (
+            <div className="ms-auto flex flex-wrap gap-2">
+              {!isArchiveTab && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={isSaving}
+                  onClick={async () =>
+                    notify(await markAsRead(selectedIds), "read")
+                  }
+                >
+                  <CheckCheck className="h-4 w-4" />
+                  {t("actions.markRead")}
+                </Button>
+              )}
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={isSaving}
+                onClick={async () =>
+                  isArchiveTab
+                    ? notify(await unarchive(selectedIds), "unarchived")
+                    : notify(await archive(selectedIds), "archived")
+                }
+              >
+                {isArchiveTab ? (
+                  <ArchiveRestore className="h-4 w-4" />
+                ) : (
+                  <Archive className="h-4 w-4" />
+                )}
+                {isArchiveTab ? t("actions.unarchive") : t("actions.archive")}
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="space-y-3">
+          {[1, 2, 3].map((item) => (
+            <Skeleton key={item} className="h-20 w-full" />
+          ))}
+        </div>
+      ) : error ? (
+        <ErrorState
+          variant="inline"
+          title={t("loadError")}
+          error={error}
+          onRetry={refetch}
+        />
+      ) : notifications.length === 0 ? (
+        <div className="flex flex-col items-center gap-2 py-12 text-muted-foreground">
+          <BellOff className="h-8 w-8" />
+          <p className="text-sm">{t(`empty.${tab}`)}</p>
+        </div>
+      ) : (
+        <ul className="space-y-2">
+          {notifications.map((notification) => (
+            <NotificationItem
+              key={notification.id}
+              notification={notification}
+              isSelected={selectedIds.includes(notification.id)}
+              disabled={isSaving}
+              onSelectChange={(selected) =>
+                toggleSelected(notification.id, selected)
+              }
+              onOpen={() => handleOpen(notification)}
+              onMarkRead={async () =>
+                notify(await markAsRead([notification.id]), "read")
+              }
+              onToggleArchive={async () =>
+                notification.isArchived
+                  ? notify(await unarchive([notification.id]), "unarchived")
+                  : notify(await archive([notification.id]), "archived")
+              }
+              onDelete={() => setDeleting(notification)}
+            />
+          ))}
+        </ul>
+      )}
+
+      {meta && (
+        <OffersPagination
+          currentPage={meta.current_page}
+          totalPages={meta.last_page}
+          onPageChange={(next) => changeView(() => setPage(next))}
+        />
+      )}
+
+      <AlertDialog
+        open={!!deleting}
+        onOpenChange={(open) => !open && setDeleting(undefined)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t("deleteTitle")}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t("deleteDescription")}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isSaving}>
+              {tCommon("actions.cancel")}
+            </AlertDialogCancel>
+            <AlertDialogAction
+              disabled={isSaving}
+              onClick={(event) => {
+                event.preventDefault();
+                handleDelete();
+              }}
+            >
+              {t("actions.delete")}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+"use client";
+import React from "react";
+import { useTranslations } from "next-intl";
+import {
+  AlertTriangle,
+  Archive,
+  ArchiveRestore,
+  Bell,
+  Check,
+  CheckCheck,
+  Clock,
+  DollarSign,
+  FileText,
+  Info,
+  MessageCircle,
+  MoreVertical,
+  Settings,
+  Trash2,
+  XCircle,
+} from "lucide-react";
+import { Checkbox } from "@/shared/components/ui/checkbox";
+import { Button } from "@/shared/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/shared/components/ui/dropdown-menu";
+import { cn } from "@/lib/utils";
+import { useLocale } from "@/hooks/useLocale";
+import { NotificationType } from "@/features/dashboard/types";
+import { UserNotification } from "../types";
+import { formatRelativeTime } from "../utils/notifications";
+
+const TYPE_ICONS: Record<NotificationType, React.ElementType> = {
+  project_update: Clock,
+  offer_received: FileText,
+  offer_accepted: Check,
+  offer_rejected: XCircle,
+  payment_due: DollarSign,
+  milestone_completed: CheckCheck,
+  message_received: MessageCircle,
+  system_update: Settings,
+  profile_incomplete: Info,
+  verification_required: AlertTriangle,
+};
+
+interface NotificationItemProps {
+  notification: UserNotification;
+  isSelected: boolean;
+  disabled?: boolean;
+  onSelectChange: (selected: boolean) => void;
+  onOpen: () => void;
+  onMarkRead: () => void;
+  onToggleArchive: () => void;
+  onDelete: () => void;
+}
+
+export function NotificationItem({
+  notification,
+  isSelected,
+  disabled,
+  onSelectChange,
+  onOpen,
+  onMarkRead,
+  onToggleArchive,
+  onDelete,
+}: NotificationItemProps) {
+  const t = useTranslations("notifications");
+  const { currentLocale } = useLocale();
+  const Icon = TYPE_ICONS[notification.type] ?? Bell;
+
+  return (
+    <li
+      className={cn(
+        "flex items-start gap-3 rounded-md border p-4 transition-colors",
+        !notification.isRead && "border-design-main/30 bg-design-main/5"
+      )}
+    >
+      <Checkbox
+        checked={isSelected}
+        onCheckedChange={(checked) => onSelectChange(checked === true)}
+        aria-label={t("select")}
+        className="mt-1"
+      />
+
+      <button
+        type="button"
+        onClick={onOpen}
+        className="flex flex-1 items-start gap-3 text-start"
+      >
+        <span className="rounded-full bg-muted p-2">
+          <Icon className="h-4 w-4" />
+        </span>
+        <span className="flex-1 space-y-1">
+          <span className="flex items-center gap-2">
+            <span
+              className={cn(
+                "text-sm",
+                notification.isRead ? "font-medium" : "font-semibold"
+              )}
+            >
+              {notification.title || t(`types.${notification.type}`)}
+            </span>
+            {!notification.isRead && (
+              <span className="h-2 w-2 rounded-full bg-design-main" />
+            )}
+          </span>
+          {notification.message && (
+            <span className="block text-sm text-muted-foreground">
+              {notification.message}
+            </span>
+          )}
+          <span className="block text-xs text-muted-foreground">
+            {t(`types.${notification.type}`)} ·{" "}
+            {formatRelativeTime(notification.createdAt, currentLocale)}
+          </span>
+        </span>
+      </button>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            disabled={disabled}
+            aria-label={t("actions.more")}
+          >
+            <MoreVertical className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          {!notification.isRead && (
+            <DropdownMenuItem onClick={onMarkRead}>
+              <Check className="me-2 h-4 w-4" />
+              {t("actions.markRead")}
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuItem onClick={onToggleArchive}>
+            {notification.isArchived ? (
+              <ArchiveRestore className="me-2 h-4 w-4" />
+            ) : (
+              <Archive className="me-2 h-4 w-4" />
+            )}
+            {notification.isArchived
+              ? t("actions.unarchive")
+              : t("actions.archive")}
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={onDelete} className="text-red-600">
+            <Trash2 className="me-2 h-4 w-4" />
+            {t("actions.delete")}
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </li>
+  );
+}
@@ -0,0 +1,278 @@
+"use client";
+import React from "react";
+import { useTranslations } from "next-intl";
+import { Loader2, Moon } from "lucide-react";
+import toast from "react-hot-toast";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/shared/components/ui/card";
+import { Button } from "@/shared/components/ui/button";
+import { ErrorState } from "@/shared/components/ui/ErrorState";
+import { Input } from "@/shared/components/ui/input";
+import { Label } from "@/shared/components/ui/label";
+import { Switch } from "@/shared/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/shared/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { DigestFrequency } from "@/features/dashboard/types";
+import { useNotificationPreferences } from "../hooks/useNotificationPreferences";
+import {
+  DIGEST_FREQUENCIES,
+  NOTIFICATION_CATEGORIES,
+  NOTIFICATION_CHANNELS,
+} from "../constants";
+import {
+  isChannelEnabled,
+  setCategoryChannel,
+  setChannelEnabled,
+} from "../utils/preferences";
+
+/**
+ * Which notifications reach the user on which channel, when they are held
+ * back and how often they are bundled into a digest
+ */
+export function NotificationPreferencesForm() {
+  const t = useTranslations("notifications.preferences");
+  const tCommon = useTranslations("common");
+  const {
+    settings,
+    setSettings,
+    isDirty,
+    isValid,
+    isLoading,
+    isSaving,
+    error,
+    refetch,
+    save,
+    reset,
+  } = useNotificationPreferences();
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        {[1, 2, 3].map((item) => (
+          <Skeleton key={item} className="h-40 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <ErrorState
+        variant="inline"
+        title={t("loadError")}
+        error={error}
+        onRetry={refetch}
+      />
+    );
+  }
+
+  const handleSave = async () => {
+    const result = await save();
+    if (result.success) {
+      toast.success(result.message || t("saveSuccess"));
+    } else {
+      toast.error(result.message || t("saveError"));
+    }
+  };
+
+  const { quietHours } = settings;
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>{t("channels.title")}</CardTitle>
+          <CardDescription>{t("channels.description")}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {NOTIFICATION_CHANNELS.map((channel) => (
+            <div
+              key={channel}
+              className="flex items-center justify-between gap-4"
+            >
+              <Label htmlFor={`channel-${channel}`}>
+                {t(`channels.${channel}`)}
+              </Label>
+              <Switch
+                id={`channel-${channel}`}
+                checked={isChannelEnabled(settings, channel)}
+                disabled={isSaving}
+                onCheckedChange={(checked) =>
+                  setSettings(setChannelEnabled(settings, channel, checked))
+                }
+              />
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t("categories.title")}</CardTitle>
+          <CardDescription>{t("categories.description")}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-[1fr_repeat(3,4rem)] items-center gap-y-4 text-sm">
+            <span />
+            {NOTIFICATION_CHANNELS.map((channel) => (
+              <span
+                key={channel}
+                className="text-center font-medium text-muted-foreground"
+              >
+                {t(`channels.${channel}`)}
+              </span>
+            ))}
+
+            {NOTIFICATION_CATEGORIES.map((category) => (
+              <React.Fragment key={category}>
+                <div>
+                  <p className="font-medium">
+                    {t(`categories.${category}.title`)}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {t(`categories.${category}.description`)}
+                  </p>
+                </div>
+                {NOTIFICATION_CHANNELS.map((channel) => (
+                  <div key={channel} className="flex justify-center">
+                    <Switch
+                      aria-label={`${t(`categories.${category}.title`)} · ${t(
+                        `channels.${channel}`
+                      )}`}
+                      checked={settings.preferences[category][channel]}
+                      // A muted channel overrides its categories
+                      disabled={isSaving || !isChannelEnabled(settings, channel)}
+                      onCheckedChange={(checked) =>
+                        setSettings(
+                          setCategoryChannel(
+                            settings,
+                            category,
+                            channel,
+                            checked
+                          )
+                        )
+                      }
+                    />
+                  </div>
+                ))}
+              </React.Fragment>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div className="space-y-1.5">
+              <CardTitle className="flex items-center gap-2">
+                <Moon className="h-4 w-4" />
+                {t("quietHours.title")}
+              </CardTitle>
+              <CardDescription>{t("quietHours.description")}</CardDescription>
+            </div>
+            <Switch
+              aria-label={t("quietHours.title")}
+              checked={quietHours.enabled}
+              disabled={isSaving}
+              onCheckedChange={(checked) =>
+                setSettings({
+                  ...settings,
+                  quietHours: { ...quietHours, enabled: checked },
+                })
+              }
+            />
+          </div>
+        </CardHeader>
+        {quietHours.enabled && (
+          <CardContent className="space-y-2">
+            <div className="grid grid-cols-2 gap-4">
+              {(["start", "end"] as const).map((field) => (
+                <div key={field} className="space-y-1.5">
+                  <Label htmlFor={`quiet-hours-${field}`}>
+                    {t(`quietHours.${field}`)}
+                  </Label>
+                  <Input
+                    id={`quiet-hours-${field}`}
+                    type="time"
+                    value={quietHours[field]}
+                    disabled={isSaving}
+                    onChange={(event) =>
+                      setSettings({
+                        ...settings,
+                        quietHours: {
+                          ...quietHours,
+                          [field]: event.target.value,
+                        },
+                      })
+                    }
+                  />
+                </div>
+              ))}
+            </div>
+            {!isValid && (
+              <p className="text-sm text-destructive">
+                {t("quietHours.invalid")}
+              </p>
+            )}
+          </CardContent>
+        )}
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t("digest.title")}</CardTitle>
+          <CardDescription>{t("digest.description")}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Select
+            value={settings.digestFrequency}
+            disabled={isSaving}
+            onValueChange={(value) =>
+              setSettings({
+                ...settings,
+                digestFrequency: value as DigestFrequency,
+              })
+            }
+          >
+            <SelectTrigger className="w-full sm:w-64">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DIGEST_FREQUENCIES.map((frequency) => (
+                <SelectItem key={frequency} value={frequency}>
+                  {t(`digest.${frequency}`)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardContent>
+      </Card>
+
+      <div className="flex justify-end gap-2">
+        <Button
+          variant="outline"
+          disabled={!isDirty || isSaving}
+          onClick={reset}
+        >
+          {tCommon("actions.cancel")}
+        </Button>
+        <Button disabled={!isDirty || !isValid || isSaving} onClick={handleSave}>
+          {isSaving && <Loader2 className="h-4 w-4 animate-spin" />}
+          {isSaving ? tCommon("actions.saving") : tCommon("actions.save")}
+        </Button>
+      </div>
+    </div>
+  );
+}
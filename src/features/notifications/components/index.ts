@@ -0,0 +1,4 @@
+export { NotificationCenter } from "./NotificationCenter";
+export { NotificationItem } from "./NotificationItem";
+export { NotificationBell } from "./NotificationBell";
+export { NotificationPreferencesForm } from "./NotificationPreferencesForm";
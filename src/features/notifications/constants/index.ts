@@ -0,0 +1,16 @@
+export {
+  NOTIFICATION_ENDPOINTS,
+  NOTIFICATION_TYPES,
+  NOTIFICATION_TABS,
+  NOTIFICATIONS_PATH,
+  NOTIFICATIONS_PAGE_SIZE,
+  UNREAD_COUNT_POLL_MS,
+  NOTIFICATION_LINKS,
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_CATEGORY_KEYS,
+  NOTIFICATION_CATEGORIES,
+  DIGEST_FREQUENCIES,
+  DEFAULT_NOTIFICATION_SETTINGS,
+  NOTIFICATIONS_API_URL,
+  NOTIFICATION_PREFERENCES_ENABLED,
+} from "./notificationConstants";
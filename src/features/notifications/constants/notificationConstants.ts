@@ -0,0 +1,117 @@
+import {
+  DigestFrequency,
+  NotificationCategory,
+  NotificationChannel,
+  NotificationSettings,
+  NotificationType,
+} from "@/features/dashboard/types";
+import { NotificationTab, NotificationTarget } from "../types";
+
+// The inbox endpoints come from the generated client in @/lib/sdk,
+// preferences aren't part of api.json yet
+export const NOTIFICATION_ENDPOINTS = {
+  preferences: "/notifications/preferences",
+} as const;
+
+export const NOTIFICATION_TYPES: NotificationType[] = [
+  "project_update",
+  "offer_received",
+  "offer_accepted",
+  "offer_rejected",
+  "payment_due",
+  "milestone_completed",
+  "message_received",
+  "system_update",
+  "profile_incomplete",
+  "verification_required",
+];
+
+export const NOTIFICATION_TABS: NotificationTab[] = ["all", "unread", "archived"];
+
+export const NOTIFICATIONS_PATH = "/dashboard/notifications";
+
+export const NOTIFICATIONS_PAGE_SIZE = 15;
+
+// The header badge asks for the unread count this often
+export const UNREAD_COUNT_POLL_MS = 30 * 1000;
+
+/**
+ * Pages a notification opens per dashboard role, `:id` is the related
+ * record. Roles without a details page land on the list.
+ */
+export const NOTIFICATION_LINKS: Record<
+  NotificationTarget,
+  Partial<Record<string, string>>
+> = {
+  contract: {
+    individual: "/dashboard/individual/contracts/:id",
+    organization: "/dashboard/organization/contracts/:id",
+    contractor: "/dashboard/contractor/contracts/:id",
+  },
+  offer: {
+    individual: "/dashboard/individual/offers/:id",
+    organization: "/dashboard/organization/offers",
+    contractor: "/dashboard/contractor/offers/:id",
+    supplier: "/dashboard/supplier/offers",
+  },
+  project: {
+    individual: "/dashboard/individual/projects/:id/phases",
+    organization: "/dashboard/organization/projects/:id/phases",
+    contractor: "/dashboard/contractor/projects/:id/phases",
+  },
+};
+
+export const NOTIFICATION_CHANNELS: NotificationChannel[] = [
+  "email",
+  "push",
+  "sms",
+];
+
+/** Preference categories and the API key each one is stored under */
+export const NOTIFICATION_CATEGORY_KEYS: Record<NotificationCategory, string> =
+  {
+    projectUpdates: "project_updates",
+    offerNotifications: "offer_notifications",
+    paymentReminders: "payment_reminders",
+    messages: "messages",
+    systemUpdates: "system_updates",
+    marketingEmails: "marketing_emails",
+  };
+
+export const NOTIFICATION_CATEGORIES = Object.keys(
+  NOTIFICATION_CATEGORY_KEYS
+) as NotificationCategory[];
+
+export const DIGEST_FREQUENCIES: DigestFrequency[] = [
+  "instant",
+  "daily",
+  "weekly",
+];
+
+// Used until the user saves preferences of their own
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  emailNotifications: true,
+  pushNotifications: true,
+  smsNotifications: false,
+  preferences: {
+    projectUpdates: { email: true, push: true, sms: false },
+    offerNotifications: { email: true, push: true, sms: false },
+    paymentReminders: { email: true, push: true, sms: true },
+    messages: { email: false, push: true, sms: false },
+    systemUpdates: { email: true, push: false, sms: false },
+    marketingEmails: { email: false, push: false, sms: false },
+  },
+  quietHours: { enabled: false, start: "22:00", end: "07:00" },
+  digestFrequency: "instant",
+};
+
+/**
+ * Points the preference calls at another host, e.g. the local mock served
+ * from /api/mock when NEXT_PUBLIC_NOTIFICATIONS_API_URL=http://localhost:3000/api/mock
+ */
+export const NOTIFICATIONS_API_URL =
+  process.env.NEXT_PUBLIC_NOTIFICATIONS_API_URL;
+
+// The API has no preferences endpoint yet, so the settings screen stays
+// hidden unless a host serving one is configured
+export const NOTIFICATION_PREFERENCES_ENABLED = Boolean(NOTIFICATIONS_API_URL);
@@ -0,0 +1,3 @@
+export * from "./useUnreadNotifications";
+export * from "./useNotificationCenter";
+export * from "./useNotificationPreferences";
@@ -0,0 +1,158 @@
+"use client";
+import { useCallback, useEffect, useState } from "react";
+import { PaginationMeta } from "@/lib/apiClient";
+import { NotificationType } from "@/features/dashboard/types";
+import { notificationApi } from "../services/notificationApi";
+import { useNotificationsStore } from "../store/notificationsStore";
+import { NotificationTab, UserNotification } from "../types";
+import { NOTIFICATIONS_PAGE_SIZE } from "../constants";
+import { getTabFilters, toUserNotification } from "../utils/notifications";
+
+type ActionResult = { success: boolean; message?: string };
+
+export const useNotificationCenter = (
+  tab: NotificationTab,
+  type: NotificationType | undefined,
+  page: number
+) => {
+  const fetchUnreadCount = useNotificationsStore(
+    (state) => state.fetchUnreadCount
+  );
+  const [notifications, setNotifications] = useState<UserNotification[]>([]);
+  const [meta, setMeta] = useState<PaginationMeta | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchNotifications = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    const response = await notificationApi.getNotifications({
+      ...getTabFilters(tab),
+      type,
+      page,
+      per_page: NOTIFICATIONS_PAGE_SIZE,
+    });
+
+    if (response.success) {
+      setNotifications(
+        (response.data || response.response || []).map(toUserNotification)
+      );
+      setMeta(response.meta || null);
+    } else {
+      setNotifications([]);
+      setMeta(null);
+      setError(response.message || null);
+    }
+
+    setIsLoading(false);
+  }, [tab, type, page]);
+
+  useEffect(() => {
+    fetchNotifications();
+  }, [fetchNotifications]);
+
+  // Read state changes are applied in place, archiving moves the
+  // notification to another tab so the page is reloaded
+  const markRead = useCallback((ids: string[]) => {
+    const readAt = new Date().toISOString();
+    setNotifications((current) =>
+      current.map((notification) =>
+        ids.includes(notification.id)
+          ? { ...notification, isRead: true, readAt }
+          : notification
+      )
+    );
+  }, []);
+
+  const runAction = useCallback(
+    async (
+      action: () => Promise<ActionResult>,
+      onSuccess: () => void | Promise<void>
+    ): Promise<ActionResult> => {
+      setIsSaving(true);
+
+      const response = await action();
+      if (response.success) {
+        await onSuccess();
+        fetchUnreadCount();
+      }
+
+      setIsSaving(false);
+      return { success: response.success, message: response.message };
+    },
+    [fetchUnreadCount]
+  );
+
+  const markAsRead = useCallback(
+    (ids: string[]) =>
+      runAction(
+        () =>
+          ids.length === 1
+            ? notificationApi.markAsRead(ids[0])
+            : notificationApi.bulkMarkAsRead(ids),
+        () => markRead(ids)
+      ),
+    [runAction, markRead]
+  );
+
+  const markAllAsRead = useCallback(
+    () =>
+      runAction(
+        () => notificationApi.markAllAsRead(),
+        () => markRead(notifications.map((notification) => notification.id))
+      ),
+    [runAction, markRead, notifications]
+  );
+
+  // Archive endpoints take one notification at a time
+  const setArchived = useCallback(
+    (ids: string[], archived: boolean) =>
+      runAction(async () => {
+        const responses = await Promise.all(
+          ids.map((id) =>
+            archived
+              ? notificationApi.archive(id)
+              : notificationApi.unarchive(id)
+          )
+        );
+        const failed = responses.find((response) => !response.success);
+        return failed ?? { success: true };
+      }, fetchNotifications),
+    [runAction, fetchNotifications]
+  );
+
+  const archive = useCallback(
+    (ids: string[]) => setArchived(ids, true),
+    [setArchived]
+  );
+
+  const unarchive = useCallback(
+    (ids: string[]) => setArchived(ids, false),
+    [setArchived]
+  );
+
+  const remove = useCallback(
+    (id: string) =>
+      runAction(
+        () => notificationApi.deleteNotification(id),
+        fetchNotifications
+      ),
+    [runAction, fetchNotifications]
+  );
+
+  return {
+    notifications,
+    meta,
+    isLoading,
+    isSaving,
+    error,
+    refetch: fetchNotifications,
+    markAsRead,
+    markAllAsRead,
+    archive,
+    unarchive,
+    remove,
+  };
+};
@@ -0,0 +1,93 @@
+"use client";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { NotificationSettings } from "@/features/dashboard/types";
+import { notificationApi } from "../services/notificationApi";
+import { DEFAULT_NOTIFICATION_SETTINGS } from "../constants";
+import {
+  isValidQuietHours,
+  toNotificationSettings,
+  toPreferencesPayload,
+} from "../utils/preferences";
+
+type ActionResult = { success: boolean; message?: string };
+
+/**
+ * Loads the user's notification preferences into an editable draft that
+ * is only sent to the API on save
+ */
+export const useNotificationPreferences = () => {
+  const [saved, setSaved] = useState<NotificationSettings>(
+    DEFAULT_NOTIFICATION_SETTINGS
+  );
+  const [settings, setSettings] = useState<NotificationSettings>(
+    DEFAULT_NOTIFICATION_SETTINGS
+  );
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPreferences = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    const response = await notificationApi.getPreferences();
+    const preferences = response.data || response.response;
+    if (response.success) {
+      // Users who never saved preferences get the defaults
+      const loaded = preferences
+        ? toNotificationSettings(preferences)
+        : DEFAULT_NOTIFICATION_SETTINGS;
+      setSaved(loaded);
+      setSettings(loaded);
+    } else {
+      setError(response.message || null);
+    }
+
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    fetchPreferences();
+  }, [fetchPreferences]);
+
+  const isDirty = useMemo(
+    () => JSON.stringify(settings) !== JSON.stringify(saved),
+    [settings, saved]
+  );
+
+  const isValid = isValidQuietHours(settings.quietHours);
+
+  const save = useCallback(async (): Promise<ActionResult> => {
+    if (!isValid) return { success: false };
+
+    setIsSaving(true);
+
+    const response = await notificationApi.updatePreferences(
+      toPreferencesPayload(settings)
+    );
+    if (response.success) {
+      const updated = response.data || response.response;
+      const next = updated ? toNotificationSettings(updated) : settings;
+      setSaved(next);
+      setSettings(next);
+    }
+
+    setIsSaving(false);
+    return { success: response.success, message: response.message };
+  }, [isValid, settings]);
+
+  const reset = useCallback(() => setSettings(saved), [saved]);
+
+  return {
+    settings,
+    setSettings,
+    isDirty,
+    isValid,
+    isLoading,
+    isSaving,
+    error,
+    refetch: fetchPreferences,
+    save,
+    reset,
+  };
+};
@@ -0,0 +1,35 @@
+"use client";
+import { useEffect } from "react";
+import { useNotificationsStore } from "../store/notificationsStore";
+import { UNREAD_COUNT_POLL_MS } from "../constants";
+
+/**
+ * Keeps the unread count fresh while the tab is visible
+ */
+export const useUnreadNotifications = () => {
+  const unreadCount = useNotificationsStore((state) => state.unreadCount);
+  const fetchUnreadCount = useNotificationsStore(
+    (state) => state.fetchUnreadCount
+  );
+
+  useEffect(() => {
+    fetchUnreadCount();
+
+    const interval = setInterval(() => {
+      if (!document.hidden) fetchUnreadCount();
+    }, UNREAD_COUNT_POLL_MS);
+
+    // Catch up right away when the user comes back to the tab
+    const handleVisibilityChange = () => {
+      if (!document.hidden) fetchUnreadCount();
+    };
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+    };
+  }, [fetchUnreadCount]);
+
+  return unreadCount;
+};
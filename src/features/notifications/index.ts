@@ -0,0 +1,20 @@
+// Hooks
+export * from "./hooks";
+
+// Types
+export * from "./types";
+
+// Store
+export * from "./store";
+
+// Services
+export * from "./services";
+
+// Constants
+export * from "./constants";
+
+// Utils
+export * from "./utils";
+
+// Components
+export * from "./components";
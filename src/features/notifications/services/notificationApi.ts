@@ -0,0 +1,85 @@
+import { request, ApiResponse, RequestConfig } from "@/lib/apiClient";
+import * as sdk from "@/lib/sdk";
+import {
+  ApiNotification,
+  ApiNotificationPreferences,
+  NotificationFilters,
+  UnreadCount,
+} from "../types";
+import { NOTIFICATION_ENDPOINTS, NOTIFICATIONS_API_URL } from "../constants";
+
+// Only overrides the host when a mock preferences API is configured
+const preferencesConfig: RequestConfig = NOTIFICATIONS_API_URL
+  ? { baseURL: NOTIFICATIONS_API_URL }
+  : {};
+
+/**
+ * Notification API Service
+ * The user's notification inbox, read state, archive and delivery
+ * preferences
+ */
+class NotificationApiService {
+  /**
+   * Get a page of notifications
+   */
+  async getNotifications(
+    filters: NotificationFilters = {}
+  ): Promise<ApiResponse<ApiNotification[]>> {
+    return sdk.getUserNotifications<ApiNotification[]>(filters);
+  }
+
+  async getNotification(id: string): Promise<ApiResponse<ApiNotification>> {
+    return sdk.getUserNotification<ApiNotification>(id);
+  }
+
+  async deleteNotification(id: string): Promise<ApiResponse<void>> {
+    return sdk.deleteUserNotification<void>(id);
+  }
+
+  async markAsRead(id: string): Promise<ApiResponse<void>> {
+    return sdk.markNotificationAsRead<void>(id);
+  }
+
+  async markAllAsRead(): Promise<ApiResponse<void>> {
+    return sdk.markAllNotificationsAsRead<void>();
+  }
+
+  async bulkMarkAsRead(ids: string[]): Promise<ApiResponse<void>> {
+    return sdk.bulkMarkNotificationsAsRead<void>({ notification_ids: ids });
+  }
+
+  async getUnreadCount(): Promise<ApiResponse<UnreadCount>> {
+    return sdk.getUnreadNotificationsCount<UnreadCount>();
+  }
+
+  async archive(id: string): Promise<ApiResponse<void>> {
+    return sdk.archiveNotification<void>(id);
+  }
+
+  async unarchive(id: string): Promise<ApiResponse<void>> {
+    return sdk.unarchiveNotification<void>(id);
+  }
+
+  async getPreferences(): Promise<ApiResponse<ApiNotificationPreferences>> {
+    return request<ApiNotificationPreferences>(
+      "get",
+      NOTIFICATION_ENDPOINTS.preferences,
+      undefined,
+      preferencesConfig
+    );
+  }
+
+  async updatePreferences(
+    preferences: ApiNotificationPreferences
+  ): Promise<ApiResponse<ApiNotificationPreferences>> {
+    return request<ApiNotificationPreferences>(
+      "put",
+      NOTIFICATION_ENDPOINTS.preferences,
+      preferences,
+      preferencesConfig
+    );
+  }
+}
+
+/** Singleton instance of the NotificationApiService */
+export const notificationApi = new NotificationApiService();
@@ -0,0 +1,36 @@
+import { create } from "zustand";
+import { devtools } from "zustand/middleware";
+import { notificationApi } from "../services/notificationApi";
+
+interface NotificationsState {
+  unreadCount: number;
+
+  // Actions
+  fetchUnreadCount: () => Promise<void>;
+  setUnreadCount: (count: number) => void;
+}
+
+/**
+ * Unread count shared by the header badge and the notification center
+ */
+export const useNotificationsStore = create<NotificationsState>()(
+  devtools(
+    (set) => ({
+      unreadCount: 0,
+
+      fetchUnreadCount: async () => {
+        const response = await notificationApi.getUnreadCount();
+        const data = response.data || response.response;
+        if (response.success && data) {
+          set({ unreadCount: data.unread_count });
+        }
+      },
+
+      setUnreadCount: (count: number) =>
+        set({ unreadCount: Math.max(count, 0) }),
+    }),
+    {
+      name: "notifications-store",
+    }
+  )
+);
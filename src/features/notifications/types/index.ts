@@ -0,0 +1,10 @@
+export type {
+  NotificationTab,
+  ApiNotificationPriority,
+  NotificationTarget,
+  ApiNotification,
+  UserNotification,
+  NotificationFilters,
+  UnreadCount,
+  ApiNotificationPreferences,
+} from "./notification";
@@ -0,0 +1,66 @@
+import {
+  ChannelPreferences,
+  DigestFrequency,
+  Notification,
+  NotificationChannel,
+  NotificationType,
+} from "@/features/dashboard/types";
+
+export type NotificationTab = "all" | "unread" | "archived";
+
+export type ApiNotificationPriority = "low" | "normal" | "high" | "urgent";
+
+/** Records a notification can deep-link to */
+export type NotificationTarget = "project" | "offer" | "contract";
+
+/** A notification as the notifications API returns it */
+export interface ApiNotification {
+  id: string;
+  type: string;
+  notifiable_id?: number | string;
+  title?: string;
+  message?: string;
+  priority?: ApiNotificationPriority;
+  data?: {
+    type?: NotificationType;
+    title?: string;
+    message?: string;
+    project_id?: number | string;
+    offer_id?: number | string;
+    contract_id?: number | string;
+    action_url?: string;
+    action_label?: string;
+    [key: string]: unknown;
+  };
+  read_at: string | null;
+  archived_at?: string | null;
+  created_at: string;
+}
+
+export interface UserNotification extends Notification {
+  isArchived: boolean;
+}
+
+export interface NotificationFilters {
+  type?: NotificationType;
+  is_read?: boolean;
+  is_archived?: boolean;
+  page?: number;
+  per_page?: number;
+}
+
+export interface UnreadCount {
+  unread_count: number;
+}
+
+/** Notification preferences as the API stores them */
+export interface ApiNotificationPreferences {
+  channels: Record<NotificationChannel, boolean>;
+  categories: Record<string, ChannelPreferences>;
+  quiet_hours: {
+    enabled: boolean;
+    start: string | null;
+    end: string | null;
+  };
+  digest_frequency: DigestFrequency;
+}
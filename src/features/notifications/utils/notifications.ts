@@ -0,0 +1,111 @@
+import {
+  NotificationPriority,
+  NotificationType,
+} from "@/features/dashboard/types";
+import {
+  ApiNotification,
+  ApiNotificationPriority,
+  NotificationFilters,
+  NotificationTab,
+  NotificationTarget,
+  UserNotification,
+} from "../types";
+import { NOTIFICATION_LINKS, NOTIFICATION_TYPES } from "../constants";
+
+const PRIORITIES: Record<ApiNotificationPriority, NotificationPriority> = {
+  low: "low",
+  normal: "medium",
+  high: "high",
+  urgent: "urgent",
+};
+
+const isNotificationType = (value?: string): value is NotificationType =>
+  NOTIFICATION_TYPES.includes(value as NotificationType);
+
+// The API type is the notification class, the dashboard type is in its data
+const toNotificationType = (notification: ApiNotification) => {
+  if (isNotificationType(notification.data?.type)) {
+    return notification.data.type;
+  }
+  return isNotificationType(notification.type)
+    ? notification.type
+    : "system_update";
+};
+
+export const toUserNotification = (
+  notification: ApiNotification
+): UserNotification => {
+  const data = notification.data || {};
+
+  return {
+    id: notification.id,
+    userId: String(notification.notifiable_id ?? ""),
+    type: toNotificationType(notification),
+    title: notification.title || data.title || "",
+    message: notification.message || data.message || "",
+    data,
+    isRead: Boolean(notification.read_at),
+    isArchived: Boolean(notification.archived_at),
+    priority: PRIORITIES[notification.priority || "normal"] ?? "medium",
+    createdAt: notification.created_at,
+    readAt: notification.read_at || undefined,
+    actionUrl: data.action_url,
+    actionLabel: data.action_label,
+  };
+};
+
+export const getTabFilters = (tab: NotificationTab): NotificationFilters => {
+  switch (tab) {
+    case "unread":
+      return { is_read: false, is_archived: false };
+    case "archived":
+      return { is_archived: true };
+    default:
+      return { is_archived: false };
+  }
+};
+
+/**
+ * Page a notification opens for the given dashboard role, the most
+ * specific related record wins
+ */
+export const getNotificationLink = (
+  notification: UserNotification,
+  role: string
+): string | null => {
+  const targets: [NotificationTarget, unknown][] = [
+    ["contract", notification.data?.contract_id],
+    ["offer", notification.data?.offer_id],
+    ["project", notification.data?.project_id],
+  ];
+
+  for (const [target, id] of targets) {
+    const path = NOTIFICATION_LINKS[target][role];
+    if (id !== undefined && id !== null && path) {
+      return path.replace(":id", String(id));
+    }
+  }
+
+  // Only in-app links are followed
+  return notification.actionUrl?.startsWith("/") ? notification.actionUrl : null;
+};
+
+export const formatUnreadCount = (count: number) =>
+  count > 99 ? "99+" : String(count);
+
+export const formatRelativeTime = (value: string, locale: string) => {
+  const seconds = Math.round((new Date(value).getTime() - Date.now()) / 1000);
+  const formatter = new Intl.RelativeTimeFormat(locale, { numeric: "auto" });
+  const units: [Intl.RelativeTimeFormatUnit, number][] = [
+    ["day", 86400],
+    ["hour", 3600],
+    ["minute", 60],
+  ];
+
+  for (const [unit, size] of units) {
+    if (Math.abs(seconds) >= size) {
+      return formatter.format(Math.round(seconds / size), unit);
+    }
+  }
+  return formatter.format(0, "second");
+};
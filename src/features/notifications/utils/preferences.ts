@@ -0,0 +1,123 @@
+import {
+  NotificationCategory,
+  NotificationChannel,
+  NotificationSettings,
+} from "@/features/dashboard/types";
+import { ApiNotificationPreferences } from "../types";
+import {
+  DEFAULT_NOTIFICATION_SETTINGS,
+  NOTIFICATION_CATEGORIES,
+  NOTIFICATION_CATEGORY_KEYS,
+} from "../constants";
+
+const CHANNEL_SETTINGS: Record<
+  NotificationChannel,
+  "emailNotifications" | "pushNotifications" | "smsNotifications"
+> = {
+  email: "emailNotifications",
+  push: "pushNotifications",
+  sms: "smsNotifications",
+};
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// The API may send seconds (22:00:00), the time inputs only take HH:mm
+const toTimeValue = (value: string | null, fallback: string) =>
+  value ? value.slice(0, 5) : fallback;
+
+/**
+ * Maps stored preferences onto the settings form, categories the API
+ * doesn't know yet keep their defaults
+ */
+export const toNotificationSettings = (
+  preferences: ApiNotificationPreferences
+): NotificationSettings => {
+  const defaults = DEFAULT_NOTIFICATION_SETTINGS;
+
+  return {
+    emailNotifications:
+      preferences.channels?.email ?? defaults.emailNotifications,
+    pushNotifications: preferences.channels?.push ?? defaults.pushNotifications,
+    smsNotifications: preferences.channels?.sms ?? defaults.smsNotifications,
+    preferences: NOTIFICATION_CATEGORIES.reduce(
+      (result, category) => ({
+        ...result,
+        [category]: {
+          ...defaults.preferences[category],
+          ...preferences.categories?.[NOTIFICATION_CATEGORY_KEYS[category]],
+        },
+      }),
+      {} as NotificationSettings["preferences"]
+    ),
+    quietHours: {
+      enabled: preferences.quiet_hours?.enabled ?? false,
+      start: toTimeValue(
+        preferences.quiet_hours?.start ?? null,
+        defaults.quietHours.start
+      ),
+      end: toTimeValue(
+        preferences.quiet_hours?.end ?? null,
+        defaults.quietHours.end
+      ),
+    },
+    digestFrequency: preferences.digest_frequency ?? defaults.digestFrequency,
+  };
+};
+
+export const toPreferencesPayload = (
+  settings: NotificationSettings
+): ApiNotificationPreferences => ({
+  channels: {
+    email: settings.emailNotifications,
+    push: settings.pushNotifications,
+    sms: settings.smsNotifications,
+  },
+  categories: NOTIFICATION_CATEGORIES.reduce(
+    (result, category) => ({
+      ...result,
+      [NOTIFICATION_CATEGORY_KEYS[category]]: settings.preferences[category],
+    }),
+    {}
+  ),
+  // Times are kept while quiet hours are off so turning them back on
+  // restores the previous window
+  quiet_hours: { ...settings.quietHours },
+  digest_frequency: settings.digestFrequency,
+});
+
+export const isChannelEnabled = (
+  settings: NotificationSettings,
+  channel: NotificationChannel
+) => settings[CHANNEL_SETTINGS[channel]];
+
+export const setChannelEnabled = (
+  settings: NotificationSettings,
+  channel: NotificationChannel,
+  enabled: boolean
+): NotificationSettings => ({
+  ...settings,
+  [CHANNEL_SETTINGS[channel]]: enabled,
+});
+
+export const setCategoryChannel = (
+  settings: NotificationSettings,
+  category: NotificationCategory,
+  channel: NotificationChannel,
+  enabled: boolean
+): NotificationSettings => ({
+  ...settings,
+  preferences: {
+    ...settings.preferences,
+    [category]: { ...settings.preferences[category], [channel]: enabled },
+  },
+});
+
+// A window that starts and ends at the same minute would mute nothing or
+// everything, neither is what the user meant
+export const isValidQuietHours = ({
+  enabled,
+  start,
+  end,
+}: NotificationSettings["quietHours"]) =>
+  !enabled ||
+  (TIME_PATTERN.test(start) && TIME_PATTERN.test(end) && start !== end);
@@ -0,0 +1,97 @@
+"use client";
+import React, { useRef } from "react";
+import { useTranslations } from "next-intl";
+import { FileText, Paperclip, X } from "lucide-react";
+import { Button } from "@/shared/components/ui/button";
+import { cn } from "@/lib/utils";
+
+interface AttachmentsInputProps {
+  value: File[];
+  onChange: (files: File[]) => void;
+  maxFiles?: number;
+  accept?: string;
+  disabled?: boolean;
+  className?: string;
+}
+
+const formatFileSize = (bytes: number) => (bytes / 1024 / 1024).toFixed(2);
+
+export function AttachmentsInput({
+  value,
+  onChange,
+  maxFiles = 10,
+  accept = ".pdf,.doc,.docx,.xls,.xlsx,.jpg,.jpeg,.png,.webp",
+  disabled = false,
+  className,
+}: AttachmentsInputProps) {
+  const t = useTranslations("offers.attachments");
+  const inputRef = useRef<HTMLInputElement>(null);
+  const canAddMore = value.length < maxFiles;
+
+  const handleFilesSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files || []);
+    onChange([...value, ...selected].slice(0, maxFiles));
+    // Allow re-selecting the same file after removing it
+    e.target.value = "";
+  };
+
+  const handleRemove = (index: number) => {
+    onChange(value.filter((_, fileIndex) => fileIndex !== index));
+  };
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <input
+        ref={inputRef}
+        type="file"
+        multiple
+        accept={accept}
+        className="hidden"
+        onChange={handleFilesSelected}
+        disabled={disabled || !canAddMore}
+      />
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => inputRef.current?.click()}
+        disabled={disabled || !canAddMore}
+      >
+        <Paperclip className="h-4 w-4" />
+        {t("add")}
+      </Button>
+      <p className="text-xs text-muted-foreground">
+        {t("hint", { count: value.length, max: maxFiles })}
+      </p>
+      {value.length > 0 && (
+        <ul className="space-y-1">
+          {value.map((file, index) => (
+            <li
+              key={`${file.name}-${index}`}
+              className="flex items-center justify-between gap-2 rounded-md border px-3 py-2 text-sm"
+            >
+              <span className="flex min-w-0 items-center gap-2">
+                <FileText className="h-4 w-4 shrink-0 text-design-main" />
+                <span className="truncate">{file.name}</span>
+                <span className="shrink-0 text-xs text-muted-foreground">
+                  {formatFileSize(file.size)} MB
+                </span>
+              </span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                onClick={() => handleRemove(index)}
+                disabled={disabled}
+                aria-label={t("remove")}
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+"use client";
+import React from "react";
+import { useTranslations } from "next-intl";
+import { Calendar, Clock, FileText, ShieldCheck } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from "@/shared/components/ui/card";
+import { Badge } from "@/shared/components/ui/badge";
+import { formatPrice } from "@/lib/helpers";
+import { useLocale } from "@/hooks/useLocale";
+import { ReceivedOffer } from "../../types";
+import { sumPaymentPlans } from "../../utils/paymentPlans";
+import { toNumberAmount } from "../../utils/offerMappers";
+
+/**
+ * Timeline, description, attachments and phases of an offer,
+ * shared by the owner and contractor offer detail pages
+ */
+export function OfferOverview({ offer }: { offer: ReceivedOffer }) {
+  const t = useTranslations("offers");
+  const tUnits = useTranslations("offers.createCompleteOffer.units");
+  const { currentLocale } = useLocale();
+  const isRTL = currentLocale === "ar";
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+        <Card>
+          <CardContent className="space-y-1 pt-6 text-sm">
+            <p className="flex items-center gap-1 text-muted-foreground">
+              <Clock className="h-4 w-4" />
+              {t("createCompleteOffer.executionDuration")}
+            </p>
+            <p className="font-semibold">
+              {offer.timeline.estimatedDuration} {tUnits(offer.durationUnit)}
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="space-y-1 pt-6 text-sm">
+            <p className="flex items-center gap-1 text-muted-foreground">
+              <Calendar className="h-4 w-4" />
+              {t("startDate")}
+            </p>
+            <p className="font-semibold">{offer.timeline.proposedStartDate}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="space-y-1 pt-6 text-sm">
+            <p className="flex items-center gap-1 text-muted-foreground">
+              <Calendar className="h-4 w-4" />
+              {t("endDate")}
+            </p>
+            <p className="font-semibold">{offer.timeline.proposedEndDate}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="space-y-1 pt-6 text-sm">
+            <p className="text-muted-foreground">
+              {t("createCompleteOffer.offerValidity")}
+            </p>
+            <p className="font-semibold">
+              {offer.validityValue} {tUnits(offer.validityUnit)}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">{t("description")}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <p className="whitespace-pre-line text-sm">{offer.description}</p>
+          <div className="flex flex-wrap gap-2">
+            {offer.hasWarranty && (
+              <Badge variant="secondary" className="gap-1">
+                <ShieldCheck className="h-3 w-3" />
+                {t("createCompleteOffer.includeWarranty")}
+              </Badge>
+            )}
+            {offer.qualityCertificate && (
+              <Badge variant="secondary">
+                {t("createCompleteOffer.qualityCertificate")}:{" "}
+                {offer.qualityCertificate}
+              </Badge>
+            )}
+          </div>
+          {offer.attachments && offer.attachments.length > 0 && (
+            <ul className="space-y-1">
+              {offer.attachments.map((file) => (
+                <li key={file.id}>
+                  <a
+                    href={file.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center gap-2 text-sm text-design-main hover:underline"
+                  >
+                    <FileText className="h-4 w-4" />
+                    {file.name}
+                  </a>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">
+            {t("createCompleteOffer.projectPhases")}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {offer.phases.map((phase) => (
+            <div key={phase.id} className="rounded-md border p-3 text-sm">
+              <div className="flex justify-between font-medium">
+                <span>
+                  {phase.order}. {phase.title}
+                </span>
+                <span>
+                  {formatPrice(sumPaymentPlans(phase.payment_plans), isRTL)}
+                </span>
+              </div>
+              {phase.description && (
+                <p className="mt-1 text-muted-foreground">
+                  {phase.description}
+                </p>
+              )}
+              <ul className="mt-2 space-y-1 text-muted-foreground">
+                {phase.payment_plans?.map((plan) => (
+                  <li key={plan.id} className="flex justify-between">
+                    <span>
+                      {plan.name}
+                      {plan.due_on ? ` · ${plan.due_on}` : ""}
+                    </span>
+                    <span>
+                      {formatPrice(toNumberAmount(plan.amount), isRTL)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+"use client";
+import React from "react";
+import { useTranslations } from "next-intl";
+import { Badge } from "@/shared/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { OfferStatus } from "@/features/dashboard/types/offer";
+
+const STATUS_COLORS: Record<OfferStatus, string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  accepted: "bg-green-100 text-green-800",
+  rejected: "bg-red-100 text-red-800",
+  withdrawn: "bg-gray-100 text-gray-800",
+  counter_offer: "bg-blue-100 text-blue-800",
+};
+
+export function OfferStatusBadge({
+  status,
+  className,
+}: {
+  status: OfferStatus;
+  className?: string;
+}) {
+  const t = useTranslations("offers.statuses");
+
+  return (
+    <Badge
+      variant="secondary"
+      className={cn(STATUS_COLORS[status], className)}
+    >
+      {t(status)}
+    </Badge>
+  );
+}
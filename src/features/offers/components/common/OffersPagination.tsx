@@ -0,0 +1,93 @@
+"use client";
+import React from "react";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/shared/components/ui/pagination";
+
+interface OffersPaginationProps {
+  currentPage: number;
+  totalPages: number;
+  onPageChange: (page: number) => void;
+}
+
+export function OffersPagination({
+  currentPage,
+  totalPages,
+  onPageChange,
+}: OffersPaginationProps) {
+  if (totalPages <= 1) return null;
+
+  // Show a window of up to 5 pages around the current page
+  const getPageNumber = (index: number) => {
+    if (totalPages <= 5 || currentPage <= 3) return index + 1;
+    if (currentPage >= totalPages - 2) return totalPages - 4 + index;
+    return currentPage - 2 + index;
+  };
+
+  return (
+    <Pagination>
+      <PaginationContent>
+        <PaginationItem>
+          <PaginationPrevious
+            href="#"
+            onClick={(e) => {
+              e.preventDefault();
+              if (currentPage > 1) onPageChange(currentPage - 1);
+            }}
+            className={
+              currentPage === 1
+                ? "pointer-events-none opacity-50"
+                : "cursor-pointer"
+            }
+          />
+        </PaginationItem>
+
+        {Array.from({ length: Math.min(5, totalPages) }, (_, i) => {
+          const pageNumber = getPageNumber(i);
+          return (
+            <PaginationItem key={pageNumber}>
+              <PaginationLink
+                href="#"
+                onClick={(e) => {
+                  e.preventDefault();
+                  onPageChange(pageNumber);
+                }}
+                isActive={currentPage === pageNumber}
+                className="cursor-pointer"
+              >
+                {pageNumber}
+              </PaginationLink>
+            </PaginationItem>
+          );
+        })}
+
+        {totalPages > 5 && currentPage < totalPages - 2 && (
+          <PaginationItem>
+            <PaginationEllipsis />
+          </PaginationItem>
+        )}
+
+        <PaginationItem>
+          <PaginationNext
+            href="#"
+            onClick={(e) => {
+              e.preventDefault();
+              if (currentPage < totalPages) onPageChange(currentPage + 1);
+            }}
+            className={
+              currentPage === totalPages
+                ? "pointer-events-none opacity-50"
+                : "cursor-pointer"
+            }
+          />
+        </PaginationItem>
+      </PaginationContent>
+    </Pagination>
+  );
+}
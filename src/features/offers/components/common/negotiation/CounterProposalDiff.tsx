@@ -0,0 +1,92 @@
+"use client";
+import React from "react";
+import { useTranslations } from "next-intl";
+import { ArrowRight, TrendingDown, TrendingUp } from "lucide-react";
+import { twMerge } from "tailwind-merge";
+import { formatPrice } from "@/lib/helpers";
+import { useLocale } from "@/hooks/useLocale";
+import { cn } from "@/lib/utils";
+import { DurationUnit } from "../../../types";
+
+interface CounterProposalDiffProps {
+  currentAmount: number;
+  currentDuration: { value: number; unit: DurationUnit };
+  proposedAmount?: number | null;
+  proposedDuration?: { value: number; unit: DurationUnit } | null;
+}
+
+const getChangePercent = (from: number, to: number) =>
+  from ? Math.round(((to - from) / from) * 1000) / 10 : 0;
+
+/**
+ * Render a counter-proposal as a before → after diff against the offer
+ */
+export function CounterProposalDiff({
+  currentAmount,
+  currentDuration,
+  proposedAmount,
+  proposedDuration,
+}: CounterProposalDiffProps) {
+  const t = useTranslations("offers.negotiation");
+  const tUnits = useTranslations("offers.createCompleteOffer.units");
+  const { currentLocale } = useLocale();
+  const isRTL = currentLocale === "ar";
+
+  const hasAmount =
+    proposedAmount !== undefined &&
+    proposedAmount !== null &&
+    proposedAmount !== currentAmount;
+  const hasDuration =
+    Boolean(proposedDuration) &&
+    (proposedDuration!.value !== currentDuration.value ||
+      proposedDuration!.unit !== currentDuration.unit);
+
+  if (!hasAmount && !hasDuration) return null;
+
+  const arrow = (
+    <ArrowRight className={twMerge("h-3 w-3 shrink-0", isRTL && "rotate-180")} />
+  );
+
+  return (
+    <div className="mt-2 space-y-1 rounded-md border border-dashed bg-background/60 p-2 text-xs">
+      <p className="font-semibold">{t("counterProposal")}</p>
+      {hasAmount && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-muted-foreground">{t("price")}:</span>
+          <span className="line-through text-muted-foreground">
+            {formatPrice(currentAmount, isRTL)}
+          </span>
+          {arrow}
+          <span className="font-semibold">
+            {formatPrice(proposedAmount!, isRTL)}
+          </span>
+          <span
+            className={cn(
+              "flex items-center gap-0.5",
+              proposedAmount! < currentAmount ? "text-green-700" : "text-red-700"
+            )}
+          >
+            {proposedAmount! < currentAmount ? (
+              <TrendingDown className="h-3 w-3" />
+            ) : (
+              <TrendingUp className="h-3 w-3" />
+            )}
+            {getChangePercent(currentAmount, proposedAmount!)}%
+          </span>
+        </div>
+      )}
+      {hasDuration && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-muted-foreground">{t("duration")}:</span>
+          <span className="line-through text-muted-foreground">
+            {currentDuration.value} {tUnits(currentDuration.unit)}
+          </span>
+          {arrow}
+          <span className="font-semibold">
+            {proposedDuration!.value} {tUnits(proposedDuration!.unit)}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
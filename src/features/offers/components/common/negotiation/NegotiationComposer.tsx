@@ -0,0 +1,173 @@
+"use client";
+import React, { useState } from "react";
+import { useTranslations } from "next-intl";
+import { Send } from "lucide-react";
+import toast from "react-hot-toast";
+import { Button } from "@/shared/components/ui/button";
+import { Input } from "@/shared/components/ui/input";
+import { Label } from "@/shared/components/ui/label";
+import { Switch } from "@/shared/components/ui/switch";
+import { Textarea } from "@/shared/components/ui/textarea";
+import {
+  DurationUnit,
+  NegotiationMessagePayload,
+  ReceivedOffer,
+} from "../../../types";
+import { NEGOTIATION_LIMITS } from "../../../constants";
+import { AttachmentsInput } from "../AttachmentsInput";
+import { DurationUnitSelect } from "../../contractor/form/DurationUnitSelect";
+
+interface NegotiationComposerProps {
+  offer: ReceivedOffer;
+  isSending: boolean;
+  disabled?: boolean;
+  onSend: (
+    payload: NegotiationMessagePayload
+  ) => Promise<{ success: boolean; message?: string }>;
+}
+
+export function NegotiationComposer({
+  offer,
+  isSending,
+  disabled,
+  onSend,
+}: NegotiationComposerProps) {
+  const t = useTranslations("offers.negotiation");
+  const [message, setMessage] = useState("");
+  const [withProposal, setWithProposal] = useState(false);
+  const [proposedAmount, setProposedAmount] = useState<number>(offer.amount);
+  const [proposedDuration, setProposedDuration] = useState<number>(
+    offer.timeline.estimatedDuration
+  );
+  const [proposedUnit, setProposedUnit] = useState<DurationUnit>(
+    offer.durationUnit
+  );
+  const [attachments, setAttachments] = useState<File[]>([]);
+  const isDisabled = isSending || disabled;
+
+  const resetForm = () => {
+    setMessage("");
+    setWithProposal(false);
+    setProposedAmount(offer.amount);
+    setProposedDuration(offer.timeline.estimatedDuration);
+    setProposedUnit(offer.durationUnit);
+    setAttachments([]);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!message.trim()) return;
+
+    const payload: NegotiationMessagePayload = {
+      message: message.trim(),
+      attachments: attachments.length > 0 ? attachments : undefined,
+    };
+
+    // Only send the parts of the counter-proposal that actually change
+    if (withProposal) {
+      if (proposedAmount > 0 && proposedAmount !== offer.amount) {
+        payload.proposed_amount = proposedAmount;
+      }
+      if (
+        proposedDuration > 0 &&
+        (proposedDuration !== offer.timeline.estimatedDuration ||
+          proposedUnit !== offer.durationUnit)
+      ) {
+        payload.proposed_duration_value = proposedDuration;
+        payload.proposed_duration_unit = proposedUnit;
+      }
+    }
+
+    const result = await onSend(payload);
+    if (result.success) {
+      toast.success(t("sent"));
+      resetForm();
+    } else {
+      toast.error(result.message || t("sendError"));
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 border-t pt-4">
+      <Textarea
+        value={message}
+        onChange={(e) => setMessage(e.target.value)}
+        rows={3}
+        maxLength={NEGOTIATION_LIMITS.messageMaxLength}
+        placeholder={t("messagePlaceholder")}
+        disabled={isDisabled}
+      />
+
+      <div className="flex items-center gap-2">
+        <Switch
+          id="negotiation-proposal"
+          checked={withProposal}
+          onCheckedChange={setWithProposal}
+          disabled={isDisabled}
+        />
+        <Label htmlFor="negotiation-proposal" className="cursor-pointer">
+          {t("includeCounterProposal")}
+        </Label>
+      </div>
+
+      {withProposal && (
+        <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+          <div className="space-y-1">
+            <Label>{t("proposedAmount")}</Label>
+            <Input
+              dir="ltr"
+              type="number"
+              min={0}
+              step="0.01"
+              inputMode="decimal"
+              value={proposedAmount || ""}
+              onChange={(e) =>
+                setProposedAmount(
+                  e.target.value === "" ? 0 : Number(e.target.value)
+                )
+              }
+              disabled={isDisabled}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>{t("proposedDuration")}</Label>
+            <div className="relative">
+              <Input
+                type="number"
+                min={1}
+                inputMode="numeric"
+                className="pe-28"
+                value={proposedDuration || ""}
+                onChange={(e) =>
+                  setProposedDuration(
+                    e.target.value === "" ? 0 : Number(e.target.value)
+                  )
+                }
+                disabled={isDisabled}
+              />
+              <DurationUnitSelect
+                value={proposedUnit}
+                onSelect={setProposedUnit}
+                disabled={isDisabled}
+                triggerClassName="absolute end-0 top-0 bottom-0 my-auto !h-10 w-[110px] border-0 bg-transparent shadow-none rounded-none px-3"
+              />
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <AttachmentsInput
+          value={attachments}
+          onChange={setAttachments}
+          maxFiles={NEGOTIATION_LIMITS.maxAttachments}
+          disabled={isDisabled}
+        />
+        <Button type="submit" disabled={isDisabled || !message.trim()}>
+          <Send className="h-4 w-4" />
+          {isSending ? t("sending") : t("send")}
+        </Button>
+      </div>
+    </form>
+  );
+}
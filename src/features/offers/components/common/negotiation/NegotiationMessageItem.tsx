@@ -0,0 +1,87 @@
+"use client";
+import React from "react";
+import { useTranslations } from "next-intl";
+import { FileText } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { OfferNegotiation, ReceivedOffer } from "../../../types";
+import { toNumberAmount } from "../../../utils/offerMappers";
+import { CounterProposalDiff } from "./CounterProposalDiff";
+
+interface NegotiationMessageItemProps {
+  message: OfferNegotiation;
+  offer: ReceivedOffer;
+  isOwn: boolean;
+}
+
+export function NegotiationMessageItem({
+  message,
+  offer,
+  isOwn,
+}: NegotiationMessageItemProps) {
+  const t = useTranslations("offers.negotiation");
+  const proposedAmount =
+    message.proposed_amount !== undefined && message.proposed_amount !== null
+      ? toNumberAmount(message.proposed_amount)
+      : null;
+
+  const senderLabel =
+    message.sender_type === "owner" || message.sender_type === "contractor"
+      ? t(`parties.${message.sender_type}`)
+      : t("otherParty");
+
+  return (
+    <li className={cn("flex", isOwn ? "justify-end" : "justify-start")}>
+      <div
+        className={cn(
+          "max-w-[85%] rounded-lg px-3 py-2 text-sm",
+          isOwn ? "bg-design-main/10" : "bg-muted"
+        )}
+      >
+        <div className="mb-1 flex items-center gap-2 text-xs text-muted-foreground">
+          <span className="font-medium text-foreground">
+            {isOwn ? t("you") : message.sender?.name || senderLabel}
+          </span>
+          <time dateTime={message.created_at}>
+            {new Date(message.created_at).toLocaleString()}
+          </time>
+        </div>
+        <p className="whitespace-pre-line">{message.message}</p>
+
+        <CounterProposalDiff
+          currentAmount={offer.amount}
+          currentDuration={{
+            value: offer.timeline.estimatedDuration,
+            unit: offer.durationUnit,
+          }}
+          proposedAmount={proposedAmount}
+          proposedDuration={
+            message.proposed_duration_value
+              ? {
+                  value: message.proposed_duration_value,
+                  unit: message.proposed_duration_unit || offer.durationUnit,
+                }
+              : null
+          }
+        />
+
+        {message.attachments && message.attachments.length > 0 && (
+          <ul className="mt-2 space-y-1">
+            {message.attachments.map((file) => (
+              <li key={file.id}>
+                <a
+                  href={file.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex items-center gap-1 text-xs text-design-main hover:underline"
+                >
+                  <FileText className="h-3 w-3" />
+                  {file.name || file.file_name}
+                </a>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </li>
+  );
+}
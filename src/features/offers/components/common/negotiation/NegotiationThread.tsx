@@ -0,0 +1,106 @@
+"use client";
+import React, { useEffect, useRef } from "react";
+import { useTranslations } from "next-intl";
+import { MessagesSquare } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from "@/shared/components/ui/card";
+import { ErrorState } from "@/shared/components/ui/ErrorState";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useAuthStore } from "@/features/auth/store/authStore";
+import { Entitled } from "@/features/subscriptions/components";
+import { OfferNegotiation, OfferParty, ReceivedOffer } from "../../../types";
+import { useOfferNegotiations } from "../../../hooks/useOfferNegotiations";
+import { NegotiationComposer } from "./NegotiationComposer";
+import { NegotiationMessageItem } from "./NegotiationMessageItem";
+
+interface NegotiationThreadProps {
+  party: OfferParty;
+  offer: ReceivedOffer;
+}
+
+export function NegotiationThread({ party, offer }: NegotiationThreadProps) {
+  const t = useTranslations("offers.negotiation");
+  const currentUserId = useAuthStore((state) => state.user?.id);
+  const { messages, isLoading, isSending, error, refetch, sendMessage } =
+    useOfferNegotiations(party, offer.id);
+  const listEndRef = useRef<HTMLDivElement>(null);
+
+  // Negotiation is only possible while the offer awaits a decision
+  const isOpen = offer.status === "pending" || offer.status === "counter_offer";
+
+  useEffect(() => {
+    listEndRef.current?.scrollIntoView({ block: "nearest" });
+  }, [messages.length]);
+
+  const isOwnMessage = (message: OfferNegotiation) =>
+    message.sender_id !== undefined && currentUserId !== undefined
+      ? String(message.sender_id) === String(currentUserId)
+      : message.sender_type === party;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <MessagesSquare className="h-5 w-5 text-design-main" />
+          {t("title")}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error ? (
+          <ErrorState
+            variant="inline"
+            title={t("loadError")}
+            error={error}
+            onRetry={refetch}
+          />
+        ) : isLoading ? (
+          <div className="space-y-3">
+            <Skeleton className="h-16 w-2/3" />
+            <Skeleton className="ms-auto h-16 w-2/3" />
+          </div>
+        ) : messages.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">
+            {t("empty")}
+          </p>
+        ) : (
+          <ul className="max-h-[28rem] space-y-3 overflow-y-auto pe-1">
+            {messages.map((message) => (
+              <NegotiationMessageItem
+                key={message.id}
+                message={message}
+                offer={offer}
+                isOwn={isOwnMessage(message)}
+              />
+            ))}
+            <div ref={listEndRef} />
+          </ul>
+        )}
+
+        {isOpen ? (
+          <Entitled
+            feature="CAN_MESSAGE_AFTER_OFFER"
+            // Owners can always reply, the contractor's plan decides for them
+            enabled={party === "contractor"}
+          >
+            {({ allowed }) => (
+              <NegotiationComposer
+                offer={offer}
+                isSending={isSending}
+                disabled={!allowed}
+                onSend={sendMessage}
+              />
+            )}
+          </Entitled>
+        ) : (
+          <p className="border-t pt-4 text-sm text-muted-foreground">
+            {t("closed")}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
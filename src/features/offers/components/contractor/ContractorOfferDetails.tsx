@@ -0,0 +1,73 @@
+"use client";
+import React from "react";
+import { useTranslations } from "next-intl";
+import { Card, CardContent } from "@/shared/components/ui/card";
+import { ErrorState } from "@/shared/components/ui/ErrorState";
+import { Skeleton } from "@/components/ui/skeleton";
+import { formatPrice } from "@/lib/helpers";
+import { useLocale } from "@/hooks/useLocale";
+import { ReportIssueButton } from "@/features/reports/components";
+import { useContractorOfferDetails } from "../../hooks/useContractorOfferDetails";
+import { OfferStatusBadge } from "../common/OfferStatusBadge";
+import { OfferOverview } from "../common/OfferOverview";
+import { NegotiationThread } from "../common/negotiation/NegotiationThread";
+
+export function ContractorOfferDetails({ offerId }: { offerId: string }) {
+  const t = useTranslations("offers.contractorOffer");
+  const { currentLocale } = useLocale();
+  const isRTL = currentLocale === "ar";
+  const { offer, isLoading, error, refetch } =
+    useContractorOfferDetails(offerId);
+
+  if (!offer && isLoading) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-8 w-1/3" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  if (!offer) {
+    return (
+      <ErrorState
+        variant="inline"
+        title={t("notFound")}
+        error={error || t("loadError")}
+        onRetry={refetch}
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardContent className="flex flex-col gap-4 pt-6 md:flex-row md:items-center md:justify-between">
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <h2 className="text-xl font-semibold">
+                {offer.projectTitle || t("detailsTitle")}
+              </h2>
+              <OfferStatusBadge status={offer.status} />
+            </div>
+          </div>
+          <div className="space-y-2 md:text-end">
+            <p className="text-2xl font-bold text-design-main">
+              {formatPrice(offer.amount, isRTL)}
+            </p>
+            {offer.projectId && (
+              <ReportIssueButton
+                party="contractor"
+                projectId={offer.projectId}
+              />
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <OfferOverview offer={offer} />
+
+      <NegotiationThread party="contractor" offer={offer} />
+    </div>
+  );
+}
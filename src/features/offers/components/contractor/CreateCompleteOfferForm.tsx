@@ -0,0 +1,232 @@
+"use client";
+import React, { useMemo, useState } from "react";
+import { FieldPath, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useTranslations } from "next-intl";
+import { ArrowLeft } from "lucide-react";
+import { twMerge } from "tailwind-merge";
+import toast from "react-hot-toast";
+import { Form } from "@/shared/components/ui/form";
+import { Button } from "@/shared/components/ui/button";
+import { formatPrice } from "@/lib/helpers";
+import { useLocale } from "@/hooks/useLocale";
+import { Entitled } from "@/features/subscriptions/components";
+import {
+  CompleteOfferFormValues,
+  createOfferValidationSchemas,
+} from "../../utils/validation";
+import { useCreateCompleteOffer } from "../../hooks/useCreateCompleteOffer";
+import {
+  CREATE_OFFER_STEPS,
+  CreateOfferStep,
+  DEFAULT_BREAKDOWN_LABELS,
+} from "../../constants";
+import { CompleteOfferResult } from "../../types";
+import { OfferWizardProgress } from "./form/OfferWizardProgress";
+import { PricingStep } from "./form/PricingStep";
+import { TimelineStep } from "./form/TimelineStep";
+import { PhasesStep, createEmptyPhase } from "./form/PhasesStep";
+import { ReviewStep } from "./form/ReviewStep";
+
+// Fields validated before leaving each step
+const STEP_FIELDS: Record<
+  CreateOfferStep,
+  FieldPath<CompleteOfferFormValues>[]
+> = {
+  pricing: [
+    "price_breakdown",
+    "offer_validity_value",
+    "offer_validity_unit",
+    "quality_certificate",
+    "has_warranty",
+  ],
+  timeline: [
+    "execution_duration_value",
+    "execution_duration_unit",
+    "expected_start_date",
+    "expected_end_date",
+    "details",
+    "files",
+  ],
+  phases: ["phases"],
+  review: [],
+};
+
+interface CreateCompleteOfferFormProps {
+  projectId: string;
+  onSuccess?: (result?: CompleteOfferResult) => void;
+  onCancel?: () => void;
+}
+
+export function CreateCompleteOfferForm({
+  projectId,
+  onSuccess,
+  onCancel,
+}: CreateCompleteOfferFormProps) {
+  const t = useTranslations();
+  const { currentLocale } = useLocale();
+  const isRTL = currentLocale === "ar";
+  const [currentStep, setCurrentStep] = useState(1);
+  const { project, isLoadingProject, isSubmitting, submitOffer } =
+    useCreateCompleteOffer(projectId);
+
+  const { CompleteOfferSchema } = useMemo(
+    () => createOfferValidationSchemas(t),
+    [t]
+  );
+
+  const form = useForm<CompleteOfferFormValues>({
+    resolver: zodResolver(CompleteOfferSchema),
+    mode: "onTouched",
+    defaultValues: {
+      price_breakdown: DEFAULT_BREAKDOWN_LABELS.map((label) => ({
+        label: t(`offers.createCompleteOffer.breakdownLabels.${label}`),
+        amount: 0,
+      })),
+      offer_validity_value: 30,
+      offer_validity_unit: "days",
+      execution_duration_value: 0,
+      execution_duration_unit: "months",
+      expected_start_date: "",
+      expected_end_date: "",
+      details: "",
+      has_warranty: false,
+      quality_certificate: "",
+      files: [],
+      phases: [createEmptyPhase()],
+    },
+  });
+
+  const stepKey = CREATE_OFFER_STEPS[currentStep - 1];
+  const isLastStep = currentStep === CREATE_OFFER_STEPS.length;
+
+  const handleNext = async () => {
+    const isValid = await form.trigger(STEP_FIELDS[stepKey]);
+    if (isValid) {
+      setCurrentStep((step) => step + 1);
+    }
+  };
+
+  const handleBack = () => {
+    if (currentStep === 1) {
+      onCancel?.();
+      return;
+    }
+    setCurrentStep((step) => step - 1);
+  };
+
+  const onSubmit = async (values: CompleteOfferFormValues) => {
+    const result = await submitOffer(values);
+
+    if (result.success) {
+      toast.success(
+        result.message || t("offers.createCompleteOffer.success")
+      );
+      onSuccess?.(result.data);
+    } else {
+      toast.error(result.message || t("offers.createCompleteOffer.error"));
+    }
+  };
+
+  const renderStep = () => {
+    switch (stepKey) {
+      case "pricing":
+        return <PricingStep disabled={isSubmitting} />;
+      case "timeline":
+        return <TimelineStep disabled={isSubmitting} />;
+      case "phases":
+        return <PhasesStep disabled={isSubmitting} />;
+      case "review":
+        return <ReviewStep />;
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="w-full max-w-3xl mx-auto rounded-md bg-muted/40 p-4">
+        {isLoadingProject ? (
+          <p className="text-sm text-muted-foreground">
+            {t("offers.createCompleteOffer.loadingProject")}
+          </p>
+        ) : (
+          project && (
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div>
+                <p className="font-semibold">{project.title}</p>
+                {project.city && (
+                  <p className="text-sm text-muted-foreground">
+                    {project.city}
+                  </p>
+                )}
+              </div>
+              {project.budget !== undefined && (
+                <p className="text-sm">
+                  <span className="text-muted-foreground">
+                    {t("offers.projectBudget")}:{" "}
+                  </span>
+                  <span className="font-semibold text-design-main">
+                    {formatPrice(Number(project.budget), isRTL)}
+                  </span>
+                </p>
+              )}
+            </div>
+          )
+        )}
+      </div>
+      <OfferWizardProgress currentStep={currentStep} />
+      <Entitled feature="SEND_PROPOSAL" noticeClassName="max-w-3xl mx-auto">
+        {({ allowed }) => (
+          <Form {...form}>
+            <form
+              onSubmit={form.handleSubmit(onSubmit)}
+              className="w-full border border-design-tertiary rounded-md p-4 md:p-6 max-w-3xl mx-auto space-y-6"
+            >
+              {renderStep()}
+
+              <div className="w-full grid grid-cols-2 gap-4 items-center">
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="w-full max-w-xs mx-auto"
+                  onClick={handleBack}
+                  disabled={isSubmitting}
+                >
+                  <ArrowLeft
+                    className={twMerge(
+                      "h-4 w-4",
+                      isRTL && "rotate-180"
+                    )}
+                  />
+                  {currentStep === 1
+                    ? t("common.actions.cancel")
+                    : t("common.actions.previous")}
+                </Button>
+                {isLastStep ? (
+                  <Button
+                    key="submit"
+                    type="submit"
+                    className="w-full max-w-xs mx-auto"
+                    disabled={isSubmitting || !allowed}
+                  >
+                    {isSubmitting
+                      ? t("offers.createCompleteOffer.submitting")
+                      : t("offers.createCompleteOffer.submit")}
+                  </Button>
+                ) : (
+                  <Button
+                    key="next"
+                    type="button"
+                    className="w-full max-w-xs mx-auto"
+                    onClick={handleNext}
+                  >
+                    {t("common.actions.continue")}
+                  </Button>
+                )}
+              </div>
+            </form>
+          </Form>
+        )}
+      </Entitled>
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+"use client";
+import React from "react";
+import { useTranslations } from "next-intl";
+import { cn } from "@/lib/utils";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/shared/components/ui/select";
+import { DURATION_UNITS } from "../../../constants";
+import { DurationUnit } from "../../../types";
+
+interface DurationUnitSelectProps {
+  value: DurationUnit;
+  onSelect: (value: DurationUnit) => void;
+  triggerClassName?: string;
+  disabled?: boolean;
+}
+
+export function DurationUnitSelect({
+  value,
+  onSelect,
+  triggerClassName,
+  disabled,
+}: DurationUnitSelectProps) {
+  const t = useTranslations("offers.createCompleteOffer.units");
+
+  return (
+    <Select
+      value={value}
+      onValueChange={(unit) => onSelect(unit as DurationUnit)}
+      disabled={disabled}
+    >
+      <SelectTrigger size="sm" className={cn("w-fit", triggerClassName)}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {DURATION_UNITS.map((unit) => (
+          <SelectItem key={unit} value={unit}>
+            {t(unit)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
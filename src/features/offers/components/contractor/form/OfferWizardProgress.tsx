@@ -0,0 +1,49 @@
+"use client";
+import React from "react";
+import { useTranslations } from "next-intl";
+import { twMerge } from "tailwind-merge";
+import { CREATE_OFFER_STEPS } from "../../../constants";
+
+interface OfferWizardProgressProps {
+  currentStep: number;
+}
+
+export function OfferWizardProgress({ currentStep }: OfferWizardProgressProps) {
+  const t = useTranslations("offers.createCompleteOffer.steps");
+
+  return (
+    <div className="w-full max-w-2xl mx-auto">
+      <div className="flex w-full items-center gap-3 select-none">
+        {CREATE_OFFER_STEPS.map((step, index) => {
+          const stepNumber = index + 1;
+          const isActive = stepNumber === currentStep;
+          const isCompleted = stepNumber < currentStep;
+          return (
+            <React.Fragment key={step}>
+              <div className="flex flex-col items-center gap-1">
+                <div
+                  className={twMerge(
+                    "relative z-10 shadow-md flex h-8 w-8 lg:h-10 lg:w-10 items-center justify-center rounded-full border",
+                    isActive
+                      ? "bg-gradient-to-b from-[#AC8852] to-[#7F5619] text-white"
+                      : "bg-white text-design-main border-design-main",
+                    isCompleted &&
+                      "bg-design-green text-white border-design-green"
+                  )}
+                >
+                  <span className="text-lg font-bold">{stepNumber}</span>
+                </div>
+                <span className="text-xs text-muted-foreground">
+                  {t(step)}
+                </span>
+              </div>
+              {index !== CREATE_OFFER_STEPS.length - 1 && (
+                <div className="flex-1 h-[2px] bg-neutral-200/70"></div>
+              )}
+            </React.Fragment>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
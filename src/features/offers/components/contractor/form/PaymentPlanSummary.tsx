@@ -0,0 +1,75 @@
+"use client";
+import React from "react";
+import { useTranslations } from "next-intl";
+import { CheckCircle2, AlertTriangle } from "lucide-react";
+import { formatPrice } from "@/lib/helpers";
+import { useLocale } from "@/hooks/useLocale";
+import { cn } from "@/lib/utils";
+import { PaymentPlanTotals } from "../../../types";
+
+interface PaymentPlanSummaryProps {
+  totals: PaymentPlanTotals;
+  className?: string;
+}
+
+export function PaymentPlanSummary({
+  totals,
+  className,
+}: PaymentPlanSummaryProps) {
+  const t = useTranslations("offers.createCompleteOffer.summary");
+  const { currentLocale } = useLocale();
+  const isRTL = currentLocale === "ar";
+
+  return (
+    <div
+      className={cn(
+        "rounded-md border p-4 space-y-3",
+        totals.isBalanced
+          ? "border-green-200 bg-green-50"
+          : "border-amber-200 bg-amber-50",
+        className
+      )}
+    >
+      <div className="grid grid-cols-3 gap-3 text-sm">
+        <div>
+          <p className="text-muted-foreground">{t("offerAmount")}</p>
+          <p className="font-semibold">
+            {formatPrice(totals.offerAmount, isRTL)}
+          </p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">{t("allocated")}</p>
+          <p className="font-semibold">{formatPrice(totals.allocated, isRTL)}</p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">{t("remaining")}</p>
+          <p
+            className={cn(
+              "font-semibold",
+              totals.remaining < 0 && "text-destructive"
+            )}
+          >
+            {formatPrice(totals.remaining, isRTL)}
+          </p>
+        </div>
+      </div>
+      <p
+        className={cn(
+          "flex items-center gap-2 text-sm font-medium",
+          totals.isBalanced ? "text-green-700" : "text-amber-700"
+        )}
+      >
+        {totals.isBalanced ? (
+          <CheckCircle2 className="h-4 w-4" />
+        ) : (
+          <AlertTriangle className="h-4 w-4" />
+        )}
+        {totals.isBalanced
+          ? t("balanced")
+          : totals.remaining > 0
+          ? t("underAllocated")
+          : t("overAllocated")}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+"use client";
+import React from "react";
+import { useFieldArray, useFormContext, useWatch } from "react-hook-form";
+import { useTranslations } from "next-intl";
+import { Plus, Trash2 } from "lucide-react";
+import {
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/shared/components/ui/form";
+import { Input } from "@/shared/components/ui/input";
+import { Button } from "@/shared/components/ui/button";
+import { DatePicker } from "@/components/ui/date-picker";
+import { CompleteOfferFormValues } from "../../../utils/validation";
+import {
+  sumBreakdown,
+  toContractPercentage,
+} from "../../../utils/paymentPlans";
+
+interface PhasePaymentPlansProps {
+  phaseIndex: number;
+  disabled?: boolean;
+}
+
+export function PhasePaymentPlans({
+  phaseIndex,
+  disabled,
+}: PhasePaymentPlansProps) {
+  const t = useTranslations("offers.createCompleteOffer");
+  const form = useFormContext<CompleteOfferFormValues>();
+  const { fields, append, remove } = useFieldArray({
+    control: form.control,
+    name: `phases.${phaseIndex}.payment_plans`,
+  });
+  const breakdown = useWatch({
+    control: form.control,
+    name: "price_breakdown",
+  });
+  const plans = useWatch({
+    control: form.control,
+    name: `phases.${phaseIndex}.payment_plans`,
+  });
+  const offerAmount = sumBreakdown(breakdown);
+  const plansError =
+    form.formState.errors.phases?.[phaseIndex]?.payment_plans?.root ??
+    form.formState.errors.phases?.[phaseIndex]?.payment_plans;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-semibold">{t("paymentPlans")}</h4>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() =>
+            append({ name: "", amount: 0, due_on: "", reference_note: "" })
+          }
+          disabled={disabled}
+        >
+          <Plus className="h-4 w-4" />
+          {t("addPaymentPlan")}
+        </Button>
+      </div>
+
+      {fields.map((item, planIndex) => (
+        <div key={item.id} className="rounded-md border bg-muted/30 p-3">
+          <div className="mb-2 flex items-center justify-between">
+            <span className="text-sm font-medium">
+              {t("payment")} {planIndex + 1}
+              <span className="ms-2 text-xs text-muted-foreground">
+                {t("percentageOfContract")}:{" "}
+                {toContractPercentage(
+                  plans?.[planIndex]?.amount ?? 0,
+                  offerAmount
+                )}
+                %
+              </span>
+            </span>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              onClick={() => remove(planIndex)}
+              disabled={disabled || fields.length === 1}
+              aria-label={t("removePaymentPlan")}
+            >
+              <Trash2 className="h-4 w-4 text-destructive" />
+            </Button>
+          </div>
+
+          <div className="grid grid-cols-1 items-start md:grid-cols-2 gap-3">
+            <FormField
+              control={form.control}
+              name={`phases.${phaseIndex}.payment_plans.${planIndex}.name`}
+              render={({ field }) => (
+                <FormItem className="form-item-vertical">
+                  <FormLabel>{t("paymentName")} *</FormLabel>
+                  <FormControl>
+                    <Input
+                      {...field}
+                      placeholder={t("paymentNamePlaceholder")}
+                      disabled={disabled}
+                    />
+                  </FormControl>
+                  <FormMessage className="form-message-min-height" />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name={`phases.${phaseIndex}.payment_plans.${planIndex}.amount`}
+              render={({ field }) => (
+                <FormItem className="form-item-vertical">
+                  <FormLabel>{t("amount")} *</FormLabel>
+                  <FormControl>
+                    <Input
+                      dir="ltr"
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      inputMode="decimal"
+                      value={field.value || ""}
+                      onChange={(e) => {
+                        const val = e.target.value;
+                        field.onChange(val === "" ? 0 : Number(val));
+                      }}
+                      disabled={disabled}
+                    />
+                  </FormControl>
+                  <FormMessage className="form-message-min-height" />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name={`phases.${phaseIndex}.payment_plans.${planIndex}.due_on`}
+              render={({ field }) => (
+                <FormItem className="form-item-vertical">
+                  <FormLabel>{t("dueDate")}</FormLabel>
+                  <FormControl>
+                    <DatePicker
+                      value={field.value}
+                      onChange={field.onChange}
+                      disabled={disabled}
+                    />
+                  </FormControl>
+                  <FormMessage className="form-message-min-height" />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name={`phases.${phaseIndex}.payment_plans.${planIndex}.reference_note`}
+              render={({ field }) => (
+                <FormItem className="form-item-vertical">
+                  <FormLabel>{t("referenceNote")}</FormLabel>
+                  <FormControl>
+                    <Input
+                      {...field}
+                      value={field.value || ""}
+                      placeholder={t("referenceNotePlaceholder")}
+                      disabled={disabled}
+                    />
+                  </FormControl>
+                  <FormMessage className="form-message-min-height" />
+                </FormItem>
+              )}
+            />
+          </div>
+        </div>
+      ))}
+
+      {plansError?.message && (
+        <p className="text-sm text-destructive">{plansError.message}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+"use client";
+import React from "react";
+import { useFieldArray, useFormContext, useWatch } from "react-hook-form";
+import { useTranslations } from "next-intl";
+import { Plus, Trash2 } from "lucide-react";
+import {
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/shared/components/ui/form";
+import { Input } from "@/shared/components/ui/input";
+import { Textarea } from "@/shared/components/ui/textarea";
+import { Button } from "@/shared/components/ui/button";
+import { Card, CardContent } from "@/shared/components/ui/card";
+import { CompleteOfferFormValues } from "../../../utils/validation";
+import {
+  getPaymentPlanTotals,
+  sumBreakdown,
+} from "../../../utils/paymentPlans";
+import { PaymentPlanSummary } from "./PaymentPlanSummary";
+import { PhasePaymentPlans } from "./PhasePaymentPlans";
+
+export const createEmptyPhase = (): CompleteOfferFormValues["phases"][number] => ({
+  title: "",
+  description: "",
+  payment_plans: [{ name: "", amount: 0, due_on: "", reference_note: "" }],
+});
+
+export function PhasesStep({ disabled }: { disabled?: boolean }) {
+  const t = useTranslations("offers.createCompleteOffer");
+  const form = useFormContext<CompleteOfferFormValues>();
+  const { fields, append, remove } = useFieldArray({
+    control: form.control,
+    name: "phases",
+  });
+  const [breakdown, phases] = useWatch({
+    control: form.control,
+    name: ["price_breakdown", "phases"],
+  });
+  const totals = getPaymentPlanTotals(sumBreakdown(breakdown), phases);
+  const phasesError =
+    form.formState.errors.phases?.root ?? form.formState.errors.phases;
+
+  return (
+    <div className="form-section">
+      <PaymentPlanSummary totals={totals} className="sticky top-0 z-10" />
+
+      {fields.map((item, phaseIndex) => (
+        <Card key={item.id}>
+          <CardContent className="space-y-4 pt-6">
+            <div className="flex items-center justify-between">
+              <h3 className="text-base font-semibold">
+                {t("phase")} {phaseIndex + 1}
+              </h3>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => remove(phaseIndex)}
+                disabled={disabled || fields.length === 1}
+              >
+                <Trash2 className="h-4 w-4 text-destructive" />
+                {t("removePhase")}
+              </Button>
+            </div>
+
+            <FormField
+              control={form.control}
+              name={`phases.${phaseIndex}.title`}
+              render={({ field }) => (
+                <FormItem className="form-item-vertical">
+                  <FormLabel>{t("phaseTitle")} *</FormLabel>
+                  <FormControl>
+                    <Input
+                      {...field}
+                      placeholder={t("phaseTitlePlaceholder")}
+                      disabled={disabled}
+                    />
+                  </FormControl>
+                  <FormMessage className="form-message-min-height" />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name={`phases.${phaseIndex}.description`}
+              render={({ field }) => (
+                <FormItem className="form-item-vertical">
+                  <FormLabel>{t("phaseDescription")}</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      {...field}
+                      value={field.value || ""}
+                      rows={3}
+                      placeholder={t("phaseDescriptionPlaceholder")}
+                      disabled={disabled}
+                    />
+                  </FormControl>
+                  <FormMessage className="form-message-min-height" />
+                </FormItem>
+              )}
+            />
+
+            <PhasePaymentPlans phaseIndex={phaseIndex} disabled={disabled} />
+          </CardContent>
+        </Card>
+      ))}
+
+      {phasesError?.message && (
+        <p className="text-sm text-destructive">{phasesError.message}</p>
+      )}
+
+      <Button
+        type="button"
+        variant="outline"
+        onClick={() => append(createEmptyPhase())}
+        disabled={disabled}
+      >
+        <Plus className="h-4 w-4" />
+        {t("addPhase")}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,210 @@
+"use client";
+import React from "react";
+import { useFieldArray, useFormContext, useWatch } from "react-hook-form";
+import { useTranslations } from "next-intl";
+import { Plus, Trash2 } from "lucide-react";
+import {
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/shared/components/ui/form";
+import { Input } from "@/shared/components/ui/input";
+import { Button } from "@/shared/components/ui/button";
+import { Switch } from "@/shared/components/ui/switch";
+import { formatPrice } from "@/lib/helpers";
+import { useLocale } from "@/hooks/useLocale";
+import { CompleteOfferFormValues } from "../../../utils/validation";
+import { sumBreakdown } from "../../../utils/paymentPlans";
+import { OFFER_LIMITS } from "../../../constants";
+import { DurationUnitSelect } from "./DurationUnitSelect";
+
+export function PricingStep({ disabled }: { disabled?: boolean }) {
+  const t = useTranslations("offers.createCompleteOffer");
+  const { currentLocale } = useLocale();
+  const form = useFormContext<CompleteOfferFormValues>();
+  const { fields, append, remove } = useFieldArray({
+    control: form.control,
+    name: "price_breakdown",
+  });
+  const breakdown = useWatch({
+    control: form.control,
+    name: "price_breakdown",
+  });
+  const total = sumBreakdown(breakdown);
+
+  return (
+    <div className="form-section">
+      <div className="space-y-1">
+        <h3 className="text-base font-semibold">{t("priceBreakdown")}</h3>
+        <p className="text-sm text-muted-foreground">
+          {t("priceBreakdownHint")}
+        </p>
+      </div>
+
+      <div className="space-y-3">
+        {fields.map((item, index) => (
+          <div
+            key={item.id}
+            className="grid grid-cols-[1fr_10rem_auto] items-start gap-3"
+          >
+            <FormField
+              control={form.control}
+              name={`price_breakdown.${index}.label`}
+              render={({ field }) => (
+                <FormItem className="form-item-vertical">
+                  <FormControl>
+                    <Input
+                      {...field}
+                      placeholder={t("breakdownLabelPlaceholder")}
+                      disabled={disabled}
+                    />
+                  </FormControl>
+                  <FormMessage className="form-message-min-height" />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name={`price_breakdown.${index}.amount`}
+              render={({ field }) => (
+                <FormItem className="form-item-vertical">
+                  <FormControl>
+                    <Input
+                      dir="ltr"
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      inputMode="decimal"
+                      value={field.value || ""}
+                      onChange={(e) => {
+                        const val = e.target.value;
+                        field.onChange(val === "" ? 0 : Number(val));
+                      }}
+                      disabled={disabled}
+                    />
+                  </FormControl>
+                  <FormMessage className="form-message-min-height" />
+                </FormItem>
+              )}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => remove(index)}
+              disabled={disabled || fields.length === 1}
+              aria-label={t("removeBreakdownItem")}
+            >
+              <Trash2 className="h-4 w-4 text-destructive" />
+            </Button>
+          </div>
+        ))}
+
+        <div className="flex items-center justify-between">
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => append({ label: "", amount: 0 })}
+            disabled={disabled}
+          >
+            <Plus className="h-4 w-4" />
+            {t("addBreakdownItem")}
+          </Button>
+          <div className="text-sm">
+            <span className="text-muted-foreground">{t("offerAmount")}: </span>
+            <span className="font-bold text-design-main">
+              {formatPrice(total, currentLocale === "ar")}
+            </span>
+          </div>
+        </div>
+        {form.formState.errors.price_breakdown?.root && (
+          <p className="text-sm text-destructive">
+            {form.formState.errors.price_breakdown.root.message}
+          </p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 items-start md:grid-cols-2 gap-6">
+        <FormField
+          control={form.control}
+          name="offer_validity_value"
+          render={({ field: validityField }) => (
+            <FormItem className="form-item-vertical">
+              <FormLabel>{t("offerValidity")} *</FormLabel>
+              <FormControl>
+                <div className="relative">
+                  <Input
+                    type="number"
+                    min={1}
+                    max={OFFER_LIMITS.validityMax}
+                    inputMode="numeric"
+                    className="pe-28"
+                    value={validityField.value || ""}
+                    onChange={(e) => {
+                      const val = e.target.value;
+                      validityField.onChange(val === "" ? 0 : Number(val));
+                    }}
+                    disabled={disabled}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="offer_validity_unit"
+                    render={({ field: unitField }) => (
+                      <DurationUnitSelect
+                        value={unitField.value}
+                        onSelect={unitField.onChange}
+                        disabled={disabled}
+                        triggerClassName="absolute end-0 top-0 bottom-0 my-auto !h-10 w-[110px] border-0 bg-transparent shadow-none rounded-none px-3"
+                      />
+                    )}
+                  />
+                </div>
+              </FormControl>
+              <FormMessage className="form-message-min-height" />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="quality_certificate"
+          render={({ field }) => (
+            <FormItem className="form-item-vertical">
+              <FormLabel>{t("qualityCertificate")}</FormLabel>
+              <FormControl>
+                <Input
+                  {...field}
+                  value={field.value || ""}
+                  placeholder={t("qualityCertificatePlaceholder")}
+                  disabled={disabled}
+                />
+              </FormControl>
+              <FormMessage className="form-message-min-height" />
+            </FormItem>
+          )}
+        />
+      </div>
+
+      <FormField
+        control={form.control}
+        name="has_warranty"
+        render={({ field }) => (
+          <FormItem className="flex items-center justify-between rounded-md border p-3">
+            <FormLabel className="cursor-pointer">
+              {t("includeWarranty")}
+            </FormLabel>
+            <FormControl>
+              <Switch
+                checked={field.value}
+                onCheckedChange={field.onChange}
+                disabled={disabled}
+              />
+            </FormControl>
+          </FormItem>
+        )}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+"use client";
+import React from "react";
+import { useFormContext, useWatch } from "react-hook-form";
+import { useTranslations } from "next-intl";
+import { Paperclip, ShieldCheck } from "lucide-react";
+import { Badge } from "@/shared/components/ui/badge";
+import { formatPrice } from "@/lib/helpers";
+import { useLocale } from "@/hooks/useLocale";
+import { CompleteOfferFormValues } from "../../../utils/validation";
+import {
+  getPaymentPlanTotals,
+  sumBreakdown,
+  sumPaymentPlans,
+} from "../../../utils/paymentPlans";
+import { PaymentPlanSummary } from "./PaymentPlanSummary";
+
+export function ReviewStep() {
+  const t = useTranslations("offers.createCompleteOffer");
+  const tUnits = useTranslations("offers.createCompleteOffer.units");
+  const { currentLocale } = useLocale();
+  const isRTL = currentLocale === "ar";
+  const form = useFormContext<CompleteOfferFormValues>();
+  const values = useWatch({ control: form.control }) as CompleteOfferFormValues;
+  const offerAmount = sumBreakdown(values.price_breakdown);
+  const totals = getPaymentPlanTotals(offerAmount, values.phases);
+
+  return (
+    <div className="form-section">
+      <section className="space-y-2">
+        <h3 className="text-base font-semibold">{t("review.pricing")}</h3>
+        <ul className="divide-y rounded-md border text-sm">
+          {values.price_breakdown?.map((item, index) => (
+            <li key={index} className="flex justify-between px-3 py-2">
+              <span>{item.label}</span>
+              <span>{formatPrice(item.amount || 0, isRTL)}</span>
+            </li>
+          ))}
+          <li className="flex justify-between px-3 py-2 font-bold">
+            <span>{t("offerAmount")}</span>
+            <span className="text-design-main">
+              {formatPrice(offerAmount, isRTL)}
+            </span>
+          </li>
+        </ul>
+      </section>
+
+      <section className="grid grid-cols-2 gap-3 text-sm">
+        <div>
+          <p className="text-muted-foreground">{t("offerValidity")}</p>
+          <p className="font-medium">
+            {values.offer_validity_value} {tUnits(values.offer_validity_unit)}
+          </p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">{t("executionDuration")}</p>
+          <p className="font-medium">
+            {values.execution_duration_value}{" "}
+            {tUnits(values.execution_duration_unit)}
+          </p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">{t("expectedStartDate")}</p>
+          <p className="font-medium">{values.expected_start_date}</p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">{t("expectedEndDate")}</p>
+          <p className="font-medium">{values.expected_end_date}</p>
+        </div>
+      </section>
+
+      <div className="flex flex-wrap gap-2">
+        {values.has_warranty && (
+          <Badge variant="secondary" className="gap-1">
+            <ShieldCheck className="h-3 w-3" />
+            {t("includeWarranty")}
+          </Badge>
+        )}
+        {values.quality_certificate && (
+          <Badge variant="secondary">{values.quality_certificate}</Badge>
+        )}
+        {values.files?.length > 0 && (
+          <Badge variant="outline" className="gap-1">
+            <Paperclip className="h-3 w-3" />
+            {t("review.attachmentsCount", { count: values.files.length })}
+          </Badge>
+        )}
+      </div>
+
+      <section className="space-y-2">
+        <h3 className="text-base font-semibold">{t("projectPhases")}</h3>
+        {values.phases?.map((phase, phaseIndex) => (
+          <div key={phaseIndex} className="rounded-md border p-3 text-sm">
+            <div className="flex justify-between font-medium">
+              <span>
+                {phaseIndex + 1}. {phase.title}
+              </span>
+              <span>
+                {formatPrice(sumPaymentPlans(phase.payment_plans), isRTL)}
+              </span>
+            </div>
+            <ul className="mt-2 space-y-1 text-muted-foreground">
+              {phase.payment_plans?.map((plan, planIndex) => (
+                <li key={planIndex} className="flex justify-between">
+                  <span>
+                    {plan.name}
+                    {plan.due_on ? ` · ${plan.due_on}` : ""}
+                  </span>
+                  <span>{formatPrice(plan.amount || 0, isRTL)}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </section>
+
+      <PaymentPlanSummary totals={totals} />
+    </div>
+  );
+}
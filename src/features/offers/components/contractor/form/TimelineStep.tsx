@@ -0,0 +1,142 @@
+"use client";
+import React from "react";
+import { useFormContext } from "react-hook-form";
+import { useTranslations } from "next-intl";
+import {
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/shared/components/ui/form";
+import { Input } from "@/shared/components/ui/input";
+import { Textarea } from "@/shared/components/ui/textarea";
+import { DatePicker } from "@/components/ui/date-picker";
+import { CompleteOfferFormValues } from "../../../utils/validation";
+import { OFFER_LIMITS } from "../../../constants";
+import { AttachmentsInput } from "../../common/AttachmentsInput";
+import { DurationUnitSelect } from "./DurationUnitSelect";
+
+export function TimelineStep({ disabled }: { disabled?: boolean }) {
+  const t = useTranslations("offers.createCompleteOffer");
+  const form = useFormContext<CompleteOfferFormValues>();
+
+  return (
+    <div className="form-section">
+      <FormField
+        control={form.control}
+        name="execution_duration_value"
+        render={({ field: durationField }) => (
+          <FormItem className="form-item-vertical">
+            <FormLabel>{t("executionDuration")} *</FormLabel>
+            <FormControl>
+              <div className="relative">
+                <Input
+                  type="number"
+                  min={1}
+                  inputMode="numeric"
+                  className="pe-28"
+                  value={durationField.value || ""}
+                  onChange={(e) => {
+                    const val = e.target.value;
+                    durationField.onChange(val === "" ? 0 : Number(val));
+                  }}
+                  disabled={disabled}
+                />
+                <FormField
+                  control={form.control}
+                  name="execution_duration_unit"
+                  render={({ field: unitField }) => (
+                    <DurationUnitSelect
+                      value={unitField.value}
+                      onSelect={unitField.onChange}
+                      disabled={disabled}
+                      triggerClassName="absolute end-0 top-0 bottom-0 my-auto !h-10 w-[110px] border-0 bg-transparent shadow-none rounded-none px-3"
+                    />
+                  )}
+                />
+              </div>
+            </FormControl>
+            <FormMessage className="form-message-min-height" />
+          </FormItem>
+        )}
+      />
+
+      <div className="grid grid-cols-1 items-start md:grid-cols-2 gap-6">
+        <FormField
+          control={form.control}
+          name="expected_start_date"
+          render={({ field }) => (
+            <FormItem className="form-item-vertical">
+              <FormLabel>{t("expectedStartDate")} *</FormLabel>
+              <FormControl>
+                <DatePicker
+                  value={field.value}
+                  onChange={field.onChange}
+                  disabled={disabled}
+                />
+              </FormControl>
+              <FormMessage className="form-message-min-height" />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="expected_end_date"
+          render={({ field }) => (
+            <FormItem className="form-item-vertical">
+              <FormLabel>{t("expectedEndDate")} *</FormLabel>
+              <FormControl>
+                <DatePicker
+                  value={field.value}
+                  onChange={field.onChange}
+                  disabled={disabled}
+                />
+              </FormControl>
+              <FormMessage className="form-message-min-height" />
+            </FormItem>
+          )}
+        />
+      </div>
+
+      <FormField
+        control={form.control}
+        name="details"
+        render={({ field }) => (
+          <FormItem className="form-item-vertical">
+            <FormLabel>{t("projectDetails")} *</FormLabel>
+            <FormControl>
+              <Textarea
+                {...field}
+                rows={6}
+                maxLength={OFFER_LIMITS.detailsMaxLength}
+                placeholder={t("projectDetailsPlaceholder")}
+                disabled={disabled}
+              />
+            </FormControl>
+            <FormMessage className="form-message-min-height" />
+          </FormItem>
+        )}
+      />
+
+      <FormField
+        control={form.control}
+        name="files"
+        render={({ field }) => (
+          <FormItem className="form-item-vertical">
+            <FormLabel>{t("attachments")}</FormLabel>
+            <FormControl>
+              <AttachmentsInput
+                value={field.value}
+                onChange={field.onChange}
+                maxFiles={OFFER_LIMITS.maxFiles}
+                disabled={disabled}
+              />
+            </FormControl>
+            <FormMessage className="form-message-min-height" />
+          </FormItem>
+        )}
+      />
+    </div>
+  );
+}
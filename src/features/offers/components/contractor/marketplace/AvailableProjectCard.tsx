@@ -0,0 +1,95 @@
+"use client";
+import React from "react";
+import Link from "next/link";
+import { useTranslations } from "next-intl";
+import { ArrowRight, Clock, MapPin, Users, Wallet } from "lucide-react";
+import { twMerge } from "tailwind-merge";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from "@/shared/components/ui/card";
+import { Badge } from "@/shared/components/ui/badge";
+import { Button } from "@/shared/components/ui/button";
+import { formatPrice } from "@/lib/helpers";
+import { useLocale } from "@/hooks/useLocale";
+import { AvailableProject } from "../../../types";
+
+export function AvailableProjectCard({ project }: { project: AvailableProject }) {
+  const t = useTranslations("offers");
+  const { currentLocale } = useLocale();
+  const isRTL = currentLocale === "ar";
+
+  const formatBudget = () => {
+    if (project.budget_min && project.budget_max) {
+      return `${formatPrice(Number(project.budget_min), isRTL)} - ${formatPrice(
+        Number(project.budget_max),
+        isRTL
+      )}`;
+    }
+    if (project.budget) return formatPrice(Number(project.budget), isRTL);
+    return t("notSpecified");
+  };
+
+  return (
+    <Card className="group flex h-full flex-col transition-shadow hover:shadow-lg">
+      <CardHeader className="pb-4">
+        <div className="flex items-start justify-between gap-2">
+          <CardTitle className="text-lg font-bold line-clamp-2 group-hover:text-design-main transition-colors">
+            {project.title}
+          </CardTitle>
+          {project.project_type && (
+            <Badge className="shrink-0 bg-design-main/10 text-design-main border-design-main/20">
+              {project.project_type.name}
+            </Badge>
+          )}
+        </div>
+        <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+          <span className="flex items-center gap-1">
+            <MapPin className="h-4 w-4 text-design-main" />
+            {project.city || t("notSpecified")}
+          </span>
+          {project.duration_value && (
+            <span className="flex items-center gap-1">
+              <Clock className="h-4 w-4 text-design-main" />
+              {project.duration_value}{" "}
+              {project.duration_unit &&
+                t(`createCompleteOffer.units.${project.duration_unit}`)}
+            </span>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="flex flex-1 flex-col gap-4 pt-0">
+        {project.description && (
+          <p className="flex-1 text-sm text-muted-foreground line-clamp-3">
+            {project.description}
+          </p>
+        )}
+
+        <div className="flex items-center justify-between rounded-lg border border-design-main/20 bg-design-main/5 p-3 text-sm">
+          <span className="flex items-center gap-2 text-muted-foreground">
+            <Wallet className="h-4 w-4 text-design-main" />
+            {t("projectBudget")}
+          </span>
+          <span className="font-bold text-design-main">{formatBudget()}</span>
+        </div>
+
+        <div className="flex items-center justify-between text-sm text-muted-foreground">
+          <span className="flex items-center gap-1">
+            <Users className="h-4 w-4" />
+            {project.offers_count || 0} {t("bidders")}
+          </span>
+          {project.work_type && <span>{project.work_type.name}</span>}
+        </div>
+
+        <Button asChild className="w-full">
+          <Link href={`/dashboard/contractor/offers/create/${project.id}`}>
+            {t("submitOffer")}
+            <ArrowRight className={twMerge("h-4 w-4", isRTL && "rotate-180")} />
+          </Link>
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
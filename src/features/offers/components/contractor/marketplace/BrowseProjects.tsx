@@ -0,0 +1,135 @@
+"use client";
+import React, { useCallback, useMemo } from "react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { useTranslations } from "next-intl";
+import { FolderSearch, RefreshCw } from "lucide-react";
+import { Button } from "@/shared/components/ui/button";
+import { Card, CardContent } from "@/shared/components/ui/card";
+import { ErrorState } from "@/shared/components/ui/ErrorState";
+import { Skeleton } from "@/components/ui/skeleton";
+import { cn } from "@/lib/utils";
+import { AvailableProjectFilters } from "../../../types";
+import { useAvailableProjects } from "../../../hooks/useAvailableProjects";
+import {
+  buildProjectSearchParams,
+  countActiveFilters,
+  parseProjectFilters,
+} from "../../../utils/projectFilters";
+import { OffersPagination } from "../../common/OffersPagination";
+import { AvailableProjectCard } from "./AvailableProjectCard";
+import { ProjectFiltersPanel } from "./ProjectFiltersPanel";
+import { SaveSearchDialog } from "./SaveSearchDialog";
+
+export function BrowseProjects() {
+  const t = useTranslations("offers.marketplace");
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  // The URL is the source of truth so searches can be shared and saved
+  const queryString = searchParams.toString();
+  const filters = useMemo(
+    () => parseProjectFilters(new URLSearchParams(queryString)),
+    [queryString]
+  );
+  const { projects, meta, isLoading, error, refetch } =
+    useAvailableProjects(filters);
+
+  const updateUrl = useCallback(
+    (nextFilters: AvailableProjectFilters) => {
+      const query = buildProjectSearchParams(nextFilters).toString();
+      router.replace(query ? `${pathname}?${query}` : pathname, {
+        scroll: false,
+      });
+    },
+    [pathname, router]
+  );
+
+  const handleApplyFilters = (nextFilters: AvailableProjectFilters) => {
+    updateUrl({ ...nextFilters, page: undefined });
+  };
+
+  const handlePageChange = (page: number) => {
+    updateUrl({ ...filters, page });
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
+  const activeFilterCount = countActiveFilters(filters);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">
+            {t("title")}
+          </h1>
+          <p className="text-gray-600">{t("subtitle")}</p>
+        </div>
+        <Button onClick={refetch} variant="outline" disabled={isLoading}>
+          <RefreshCw className={cn("h-4 w-4", isLoading && "animate-spin")} />
+          {t("refresh")}
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-4">
+        <aside className="lg:col-span-1">
+          <ProjectFiltersPanel
+            filters={filters}
+            onApply={handleApplyFilters}
+            onReset={() => updateUrl({})}
+          />
+        </aside>
+
+        <div className="space-y-4 lg:col-span-3">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <p className="text-sm text-muted-foreground">
+              {meta
+                ? t("results", { count: meta.total })
+                : t("results", { count: projects.length })}
+              {activeFilterCount > 0 &&
+                ` · ${t("activeFilters", { count: activeFilterCount })}`}
+            </p>
+            {activeFilterCount > 0 && <SaveSearchDialog filters={filters} />}
+          </div>
+
+          {error ? (
+            <ErrorState
+              variant="inline"
+              title={t("loadError")}
+              error={error}
+              onRetry={refetch}
+            />
+          ) : isLoading ? (
+            <div className="grid gap-6 md:grid-cols-2 xl:grid-cols-3">
+              {Array.from({ length: 6 }).map((_, i) => (
+                <Skeleton key={i} className="h-80 w-full rounded-xl" />
+              ))}
+            </div>
+          ) : projects.length === 0 ? (
+            <Card>
+              <CardContent className="flex flex-col items-center gap-2 py-16 text-center">
+                <FolderSearch className="h-12 w-12 text-muted-foreground" />
+                <h3 className="text-xl font-semibold">{t("empty")}</h3>
+                <p className="text-muted-foreground">{t("emptyHint")}</p>
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="grid gap-6 md:grid-cols-2 xl:grid-cols-3">
+              {projects.map((project) => (
+                <AvailableProjectCard key={project.id} project={project} />
+              ))}
+            </div>
+          )}
+
+          {meta && (
+            <OffersPagination
+              currentPage={meta.current_page}
+              totalPages={meta.last_page}
+              onPageChange={handlePageChange}
+            />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+"use client";
+import React from "react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/shared/components/ui/select";
+import { cn } from "@/lib/utils";
+
+const ANY_VALUE = "any";
+
+interface FilterSelectProps {
+  value?: number;
+  onSelect: (value?: number) => void;
+  options: { id: number; name: string }[];
+  anyLabel: string;
+  className?: string;
+  disabled?: boolean;
+}
+
+export function FilterSelect({
+  value,
+  onSelect,
+  options,
+  anyLabel,
+  className,
+  disabled,
+}: FilterSelectProps) {
+  return (
+    <Select
+      value={value ? value.toString() : ANY_VALUE}
+      onValueChange={(selected) =>
+        onSelect(selected === ANY_VALUE ? undefined : Number(selected))
+      }
+      disabled={disabled}
+    >
+      <SelectTrigger className={cn("w-full !h-10", className)}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ANY_VALUE}>{anyLabel}</SelectItem>
+        {options.map((option) => (
+          <SelectItem key={option.id} value={option.id.toString()}>
+            {option.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,83 @@
+"use client";
+import React, { useEffect, useState } from "react";
+import { useTranslations } from "next-intl";
+import { RotateCcw, Search } from "lucide-react";
+import { Button } from "@/shared/components/ui/button";
+import { Input } from "@/shared/components/ui/input";
+import { Label } from "@/shared/components/ui/label";
+import { Card, CardContent } from "@/shared/components/ui/card";
+import { AvailableProjectFilters } from "../../../types";
+import { useProjectLookups } from "../../../hooks/useProjectLookups";
+import { FilterSelect } from "./FilterSelect";
+
+interface ProjectFiltersPanelProps {
+  filters: AvailableProjectFilters;
+  onApply: (filters: AvailableProjectFilters) => void;
+  onReset: () => void;
+}
+
+export function ProjectFiltersPanel({
+  filters,
+  onApply,
+  onReset,
+}: ProjectFiltersPanelProps) {
+  const t = useTranslations("offers.marketplace.filters");
+  const { projectTypes } = useProjectLookups();
+  const [draft, setDraft] = useState<AvailableProjectFilters>(filters);
+
+  // Keep the draft in sync when filters change from the URL (e.g. saved search)
+  useEffect(() => {
+    setDraft(filters);
+  }, [filters]);
+
+  const updateDraft = (changes: Partial<AvailableProjectFilters>) => {
+    setDraft((current) => ({ ...current, ...changes }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onApply(draft);
+  };
+
+  return (
+    <Card>
+      <CardContent className="pt-6">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="project-search">{t("search")}</Label>
+            <div className="relative">
+              <Search className="absolute start-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                id="project-search"
+                className="ps-9"
+                value={draft.q || ""}
+                onChange={(e) => updateDraft({ q: e.target.value })}
+                placeholder={t("searchPlaceholder")}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>{t("projectType")}</Label>
+            <FilterSelect
+              value={draft.project_type_id}
+              onSelect={(value) => updateDraft({ project_type_id: value })}
+              options={projectTypes}
+              anyLabel={t("any")}
+            />
+          </div>
+
+          <div className="flex gap-2">
+            <Button type="submit" className="flex-1">
+              {t("apply")}
+            </Button>
+            <Button type="button" variant="outline" onClick={onReset}>
+              <RotateCcw className="h-4 w-4" />
+              {t("reset")}
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,77 @@
+"use client";
+import React, { useState } from "react";
+import { useTranslations } from "next-intl";
+import { BookmarkPlus } from "lucide-react";
+import toast from "react-hot-toast";
+import { Button } from "@/shared/components/ui/button";
+import { Input } from "@/shared/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/shared/components/ui/dialog";
+import { AvailableProjectFilters } from "../../../types";
+import { useSavedSearchesStore } from "../../../store/savedSearchesStore";
+
+export function SaveSearchDialog({
+  filters,
+}: {
+  filters: AvailableProjectFilters;
+}) {
+  const t = useTranslations("offers.marketplace.savedSearches");
+  const saveSearch = useSavedSearchesStore((state) => state.saveSearch);
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState("");
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    saveSearch(name, filters);
+    toast.success(t("saved"));
+    setName("");
+    setIsOpen(false);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <BookmarkPlus className="h-4 w-4" />
+          {t("save")}
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <form onSubmit={handleSave} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{t("saveTitle")}</DialogTitle>
+            <DialogDescription>{t("saveDescription")}</DialogDescription>
+          </DialogHeader>
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={60}
+            placeholder={t("namePlaceholder")}
+            autoFocus
+          />
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setIsOpen(false)}
+            >
+              {t("cancel")}
+            </Button>
+            <Button type="submit" disabled={!name.trim()}>
+              {t("save")}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,74 @@
+"use client";
+import React from "react";
+import Link from "next/link";
+import { useTranslations } from "next-intl";
+import { Bookmark, Play, Trash2 } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from "@/shared/components/ui/card";
+import { Button } from "@/shared/components/ui/button";
+import { useSavedSearchesStore } from "../../../store/savedSearchesStore";
+import { buildProjectSearchParams } from "../../../utils/projectFilters";
+
+const BROWSE_PROJECTS_PATH = "/dashboard/contractor/browse-projects";
+
+export function SavedSearchesWidget() {
+  const t = useTranslations("offers.marketplace.savedSearches");
+  const { searches, removeSearch } = useSavedSearchesStore();
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Bookmark className="h-5 w-5 text-design-main" />
+          {t("title")}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {searches.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t("empty")}</p>
+        ) : (
+          searches.map((search) => (
+            <div
+              key={search.id}
+              className="flex items-center justify-between gap-2 rounded-md border px-3 py-2"
+            >
+              <span className="truncate text-sm font-medium">
+                {search.name}
+              </span>
+              <div className="flex shrink-0 gap-1">
+                <Button
+                  asChild
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  aria-label={t("run")}
+                >
+                  <Link
+                    href={`${BROWSE_PROJECTS_PATH}?${buildProjectSearchParams(
+                      search.filters
+                    ).toString()}`}
+                  >
+                    <Play className="h-4 w-4 text-design-main" />
+                  </Link>
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => removeSearch(search.id)}
+                  aria-label={t("remove")}
+                >
+                  <Trash2 className="h-4 w-4 text-destructive" />
+                </Button>
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
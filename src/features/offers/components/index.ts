@@ -0,0 +1,14 @@
+// Export all offer components for easy importing
+export { CreateCompleteOfferForm } from "./contractor/CreateCompleteOfferForm";
+export { BrowseProjects } from "./contractor/marketplace/BrowseProjects";
+export { SavedSearchesWidget } from "./contractor/marketplace/SavedSearchesWidget";
+export { ReceivedOffersList } from "./individual/ReceivedOffersList";
+export { ReceivedOfferDetails } from "./individual/ReceivedOfferDetails";
+export { OfferComparison } from "./individual/OfferComparison";
+export { OfferDecisionActions } from "./individual/OfferDecisionActions";
+export { AttachmentsInput } from "./common/AttachmentsInput";
+export { OfferStatusBadge } from "./common/OfferStatusBadge";
+export { OffersPagination } from "./common/OffersPagination";
+export { OfferOverview } from "./common/OfferOverview";
+export { NegotiationThread } from "./common/negotiation/NegotiationThread";
+export { ContractorOfferDetails } from "./contractor/ContractorOfferDetails";
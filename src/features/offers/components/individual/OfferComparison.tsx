@@ -0,0 +1,203 @@
+"use client";
+import React, { useEffect } from "react";
+import { useTranslations } from "next-intl";
+import { ArrowLeft, Star, Trophy } from "lucide-react";
+import { twMerge } from "tailwind-merge";
+import { Button } from "@/shared/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Skeleton } from "@/components/ui/skeleton";
+import { formatPrice } from "@/lib/helpers";
+import { useLocale } from "@/hooks/useLocale";
+import { ReceivedOffer } from "../../types";
+import { useReceivedOffersStore } from "../../store/receivedOffersStore";
+import { getDurationInDays, toNumberAmount } from "../../utils/offerMappers";
+import { OfferStatusBadge } from "../common/OfferStatusBadge";
+import { OfferDecisionActions } from "./OfferDecisionActions";
+
+interface OfferComparisonProps {
+  offerIds: string[];
+  onBack: () => void;
+}
+
+export function OfferComparison({ offerIds, onBack }: OfferComparisonProps) {
+  const t = useTranslations("offers.received.compare");
+  const tUnits = useTranslations("offers.createCompleteOffer.units");
+  const { currentLocale } = useLocale();
+  const isRTL = currentLocale === "ar";
+  const { offerDetails, loadingDetailIds, fetchOfferDetails } =
+    useReceivedOffersStore();
+
+  // The list endpoint omits phases and plans, so load full details per offer
+  useEffect(() => {
+    offerIds
+      .filter((id) => !useReceivedOffersStore.getState().offerDetails[id])
+      .forEach((id) => fetchOfferDetails(id));
+  }, [offerIds, fetchOfferDetails]);
+
+  const offers = offerIds
+    .map((id) => offerDetails[id])
+    .filter((offer): offer is ReceivedOffer => Boolean(offer));
+  const isLoading = offerIds.some((id) => loadingDetailIds.includes(id));
+
+  const lowestAmount = Math.min(...offers.map((offer) => offer.amount));
+  const shortestDuration = Math.min(...offers.map(getDurationInDays));
+
+  const rows: { key: string; render: (offer: ReceivedOffer) => React.ReactNode }[] =
+    [
+      {
+        key: "status",
+        render: (offer) => <OfferStatusBadge status={offer.status} />,
+      },
+      {
+        key: "price",
+        render: (offer) => (
+          <span className="flex items-center gap-1 font-bold text-design-main">
+            {formatPrice(offer.amount, isRTL)}
+            {offers.length > 1 && offer.amount === lowestAmount && (
+              <Trophy className="h-4 w-4 text-yellow-500" aria-label={t("lowestPrice")} />
+            )}
+          </span>
+        ),
+      },
+      {
+        key: "duration",
+        render: (offer) => (
+          <span className="flex items-center gap-1">
+            {offer.timeline.estimatedDuration} {tUnits(offer.durationUnit)}
+            {offers.length > 1 &&
+              getDurationInDays(offer) === shortestDuration && (
+                <Trophy className="h-4 w-4 text-yellow-500" aria-label={t("shortestDuration")} />
+              )}
+          </span>
+        ),
+      },
+      {
+        key: "dates",
+        render: (offer) => (
+          <span className="text-sm">
+            {offer.timeline.proposedStartDate} → {offer.timeline.proposedEndDate}
+          </span>
+        ),
+      },
+      {
+        key: "rating",
+        render: (offer) =>
+          offer.contractorRating > 0 ? (
+            <span className="flex items-center gap-1">
+              <Star className="h-4 w-4 fill-yellow-400 text-yellow-400" />
+              {offer.contractorRating.toFixed(1)}
+              {offer.contractorReviewsCount !== undefined && (
+                <span className="text-xs text-muted-foreground">
+                  ({offer.contractorReviewsCount})
+                </span>
+              )}
+            </span>
+          ) : (
+            <span className="text-muted-foreground">{t("noRating")}</span>
+          ),
+      },
+      {
+        key: "validity",
+        render: (offer) =>
+          `${offer.validityValue} ${tUnits(offer.validityUnit)}`,
+      },
+      {
+        key: "warranty",
+        render: (offer) => (offer.hasWarranty ? t("yes") : t("no")),
+      },
+      {
+        key: "phases",
+        render: (offer) => (
+          <ol className="list-decimal space-y-1 ps-4 text-sm">
+            {offer.phases.map((phase) => (
+              <li key={phase.id}>{phase.title}</li>
+            ))}
+          </ol>
+        ),
+      },
+      {
+        key: "paymentSchedule",
+        render: (offer) => (
+          <ul className="space-y-1 text-sm">
+            {offer.paymentSchedule.map((plan) => (
+              <li key={plan.id} className="flex justify-between gap-2">
+                <span className="truncate">
+                  {plan.name}
+                  {plan.due_on && (
+                    <span className="block text-xs text-muted-foreground">
+                      {plan.due_on}
+                    </span>
+                  )}
+                </span>
+                <span className="shrink-0 font-medium">
+                  {formatPrice(toNumberAmount(plan.amount), isRTL)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        ),
+      },
+    ];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-semibold">
+          {t("title", { count: offerIds.length })}
+        </h2>
+        <Button variant="ghost" size="sm" onClick={onBack}>
+          <ArrowLeft className={twMerge("h-4 w-4", isRTL && "rotate-180")} />
+          {t("back")}
+        </Button>
+      </div>
+
+      {isLoading && offers.length < offerIds.length ? (
+        <Skeleton className="h-96 w-full" />
+      ) : (
+        <div className="overflow-x-auto rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-40">{t("criteria")}</TableHead>
+                {offers.map((offer) => (
+                  <TableHead key={offer.id} className="min-w-56 align-top">
+                    {offer.contractorName}
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => (
+                <TableRow key={row.key}>
+                  <TableCell className="font-medium text-muted-foreground align-top">
+                    {t(`rows.${row.key}`)}
+                  </TableCell>
+                  {offers.map((offer) => (
+                    <TableCell key={offer.id} className="align-top">
+                      {row.render(offer)}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+              <TableRow>
+                <TableCell />
+                {offers.map((offer) => (
+                  <TableCell key={offer.id}>
+                    <OfferDecisionActions offer={offer} size="sm" />
+                  </TableCell>
+                ))}
+              </TableRow>
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
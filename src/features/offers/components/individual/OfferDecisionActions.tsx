@@ -0,0 +1,178 @@
+"use client";
+import React, { useState } from "react";
+import { useTranslations } from "next-intl";
+import { Check, X } from "lucide-react";
+import toast from "react-hot-toast";
+import { Button } from "@/shared/components/ui/button";
+import { Textarea } from "@/shared/components/ui/textarea";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/shared/components/ui/alert-dialog";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/shared/components/ui/dialog";
+import { cn } from "@/lib/utils";
+import { ReceivedOffer } from "../../types";
+import { REJECT_REASON_LIMITS } from "../../constants";
+import { useReceivedOffersStore } from "../../store/receivedOffersStore";
+
+interface OfferDecisionActionsProps {
+  offer: ReceivedOffer;
+  size?: "sm" | "default";
+  className?: string;
+  onDecided?: (status: "accepted" | "rejected") => void;
+}
+
+export function OfferDecisionActions({
+  offer,
+  size = "default",
+  className,
+  onDecided,
+}: OfferDecisionActionsProps) {
+  const t = useTranslations("offers.received.decision");
+  const { acceptOffer, rejectOffer, actionOfferId } = useReceivedOffersStore();
+  const [isAcceptOpen, setIsAcceptOpen] = useState(false);
+  const [isRejectOpen, setIsRejectOpen] = useState(false);
+  const [reason, setReason] = useState("");
+
+  const isBusy = actionOfferId === offer.id;
+  const reasonLength = reason.trim().length;
+  const isReasonValid =
+    reasonLength >= REJECT_REASON_LIMITS.min &&
+    reasonLength <= REJECT_REASON_LIMITS.max;
+
+  // Only offers awaiting a decision can be accepted or rejected
+  if (offer.status !== "pending" && offer.status !== "counter_offer") {
+    return null;
+  }
+
+  const handleAccept = async () => {
+    const result = await acceptOffer(offer.id);
+    if (result.success) {
+      toast.success(result.message || t("acceptSuccess"));
+      setIsAcceptOpen(false);
+      onDecided?.("accepted");
+    } else {
+      toast.error(result.message || t("acceptError"));
+    }
+  };
+
+  const handleReject = async () => {
+    if (!isReasonValid) return;
+
+    const result = await rejectOffer(offer.id, reason);
+    if (result.success) {
+      toast.success(result.message || t("rejectSuccess"));
+      setIsRejectOpen(false);
+      setReason("");
+      onDecided?.("rejected");
+    } else {
+      toast.error(result.message || t("rejectError"));
+    }
+  };
+
+  return (
+    <div className={cn("flex gap-2", className)}>
+      <Button
+        size={size}
+        className="flex-1"
+        onClick={() => setIsAcceptOpen(true)}
+        disabled={isBusy}
+      >
+        <Check className="h-4 w-4" />
+        {t("accept")}
+      </Button>
+      <Button
+        size={size}
+        variant="outline"
+        className="flex-1 text-destructive"
+        onClick={() => setIsRejectOpen(true)}
+        disabled={isBusy}
+      >
+        <X className="h-4 w-4" />
+        {t("reject")}
+      </Button>
+
+      <AlertDialog open={isAcceptOpen} onOpenChange={setIsAcceptOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t("acceptTitle")}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t("acceptDescription", { contractor: offer.contractorName })}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isBusy}>{t("cancel")}</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleAccept();
+              }}
+              disabled={isBusy}
+            >
+              {isBusy ? t("processing") : t("confirmAccept")}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <Dialog open={isRejectOpen} onOpenChange={setIsRejectOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{t("rejectTitle")}</DialogTitle>
+            <DialogDescription>{t("rejectDescription")}</DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            rows={4}
+            maxLength={REJECT_REASON_LIMITS.max}
+            placeholder={t("reasonPlaceholder")}
+            disabled={isBusy}
+          />
+          <p
+            className={cn(
+              "text-xs",
+              reasonLength > 0 && !isReasonValid
+                ? "text-destructive"
+                : "text-muted-foreground"
+            )}
+          >
+            {t("reasonHint", {
+              min: REJECT_REASON_LIMITS.min,
+              max: REJECT_REASON_LIMITS.max,
+            })}
+          </p>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setIsRejectOpen(false)}
+              disabled={isBusy}
+            >
+              {t("cancel")}
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleReject}
+              disabled={isBusy || !isReasonValid}
+            >
+              {isBusy ? t("processing") : t("confirmReject")}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
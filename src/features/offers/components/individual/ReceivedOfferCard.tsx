@@ -0,0 +1,102 @@
+"use client";
+import React from "react";
+import Link from "next/link";
+import { useTranslations } from "next-intl";
+import { Calendar, Clock, Star } from "lucide-react";
+import { Card, CardContent } from "@/shared/components/ui/card";
+import { Checkbox } from "@/shared/components/ui/checkbox";
+import { Label } from "@/shared/components/ui/label";
+import { formatPrice } from "@/lib/helpers";
+import { useLocale } from "@/hooks/useLocale";
+import { cn } from "@/lib/utils";
+import { getContractorReviewsPath } from "@/features/reviews/utils/reviews";
+import { ReceivedOffer } from "../../types";
+import { OfferStatusBadge } from "../common/OfferStatusBadge";
+import { OfferDecisionActions } from "./OfferDecisionActions";
+
+interface ReceivedOfferCardProps {
+  offer: ReceivedOffer;
+  isCompared: boolean;
+  canCompareMore: boolean;
+  onToggleCompare: (offerId: string) => void;
+}
+
+export function ReceivedOfferCard({
+  offer,
+  isCompared,
+  canCompareMore,
+  onToggleCompare,
+}: ReceivedOfferCardProps) {
+  const t = useTranslations("offers");
+  const tUnits = useTranslations("offers.createCompleteOffer.units");
+  const { currentLocale } = useLocale();
+  const compareId = `compare-${offer.id}`;
+
+  return (
+    <Card
+      className={cn(
+        "transition-shadow hover:shadow-md",
+        isCompared && "border-design-main"
+      )}
+    >
+      <CardContent className="space-y-4 p-4">
+        <div className="flex items-start justify-between gap-2">
+          <div className="min-w-0">
+            <Link
+              href={`/dashboard/individual/offers/${offer.id}`}
+              className="font-semibold hover:text-design-main line-clamp-1"
+            >
+              {offer.contractorName || t("received.unknownContractor")}
+            </Link>
+            {offer.contractorId && (
+              <Link
+                href={getContractorReviewsPath(
+                  "individual",
+                  offer.contractorId
+                )}
+                className="mt-1 flex items-center gap-1 text-xs text-muted-foreground hover:text-design-main"
+              >
+                <Star className="h-3 w-3 fill-yellow-400 text-yellow-400" />
+                {offer.contractorRating > 0
+                  ? offer.contractorRating.toFixed(1)
+                  : t("received.noRating")}
+                {offer.contractorReviewsCount !== undefined &&
+                  ` (${offer.contractorReviewsCount})`}
+              </Link>
+            )}
+          </div>
+          <OfferStatusBadge status={offer.status} />
+        </div>
+
+        <div className="space-y-2 text-sm">
+          <p className="text-lg font-bold text-design-main">
+            {formatPrice(offer.amount, currentLocale === "ar")}
+          </p>
+          <p className="flex items-center gap-2 text-muted-foreground">
+            <Clock className="h-4 w-4" />
+            {offer.timeline.estimatedDuration} {tUnits(offer.durationUnit)}
+          </p>
+          <p className="flex items-center gap-2 text-muted-foreground">
+            <Calendar className="h-4 w-4" />
+            {offer.timeline.proposedStartDate} →{" "}
+            {offer.timeline.proposedEndDate}
+          </p>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id={compareId}
+            checked={isCompared}
+            onCheckedChange={() => onToggleCompare(offer.id)}
+            disabled={!isCompared && !canCompareMore}
+          />
+          <Label htmlFor={compareId} className="text-sm cursor-pointer">
+            {t("received.addToCompare")}
+          </Label>
+        </div>
+
+        <OfferDecisionActions offer={offer} size="sm" />
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,92 @@
+"use client";
+import React, { useEffect } from "react";
+import { useTranslations } from "next-intl";
+import { Star } from "lucide-react";
+import { Card, CardContent } from "@/shared/components/ui/card";
+import { ErrorState } from "@/shared/components/ui/ErrorState";
+import { Skeleton } from "@/components/ui/skeleton";
+import { CreateContractButton } from "@/features/contracts/components/CreateContractButton";
+import { ReportIssueButton } from "@/features/reports/components";
+import { formatPrice } from "@/lib/helpers";
+import { useLocale } from "@/hooks/useLocale";
+import { useReceivedOffersStore } from "../../store/receivedOffersStore";
+import { OfferStatusBadge } from "../common/OfferStatusBadge";
+import { OfferOverview } from "../common/OfferOverview";
+import { NegotiationThread } from "../common/negotiation/NegotiationThread";
+import { OfferDecisionActions } from "./OfferDecisionActions";
+
+export function ReceivedOfferDetails({ offerId }: { offerId: string }) {
+  const t = useTranslations("offers");
+  const { currentLocale } = useLocale();
+  const isRTL = currentLocale === "ar";
+  const { offerDetails, loadingDetailIds, error, fetchOfferDetails } =
+    useReceivedOffersStore();
+
+  useEffect(() => {
+    fetchOfferDetails(offerId);
+  }, [offerId, fetchOfferDetails]);
+
+  const offer = offerDetails[offerId];
+
+  if (!offer && loadingDetailIds.includes(offerId)) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-8 w-1/3" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  if (!offer) {
+    return (
+      <ErrorState
+        variant="inline"
+        title={t("received.notFound")}
+        error={error || t("received.loadError")}
+        onRetry={() => fetchOfferDetails(offerId)}
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardContent className="flex flex-col gap-4 pt-6 md:flex-row md:items-start md:justify-between">
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <h2 className="text-xl font-semibold">{offer.contractorName}</h2>
+              <OfferStatusBadge status={offer.status} />
+            </div>
+            {offer.projectTitle && (
+              <p className="text-sm text-muted-foreground">
+                {offer.projectTitle}
+              </p>
+            )}
+            {offer.contractorRating > 0 && (
+              <p className="flex items-center gap-1 text-sm">
+                <Star className="h-4 w-4 fill-yellow-400 text-yellow-400" />
+                {offer.contractorRating.toFixed(1)}
+              </p>
+            )}
+          </div>
+          <div className="space-y-3 md:text-end">
+            <p className="text-2xl font-bold text-design-main">
+              {formatPrice(offer.amount, isRTL)}
+            </p>
+            <OfferDecisionActions offer={offer} className="md:w-72" />
+            {offer.status === "accepted" && (
+              <CreateContractButton offerId={offer.id} className="md:w-72" />
+            )}
+            {offer.projectId && (
+              <ReportIssueButton party="owner" projectId={offer.projectId} />
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <OfferOverview offer={offer} />
+
+      <NegotiationThread party="owner" offer={offer} />
+    </div>
+  );
+}
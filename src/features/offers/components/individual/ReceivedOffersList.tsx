@@ -0,0 +1,186 @@
+"use client";
+import React, { useEffect, useState } from "react";
+import { useTranslations } from "next-intl";
+import { Inbox, Scale } from "lucide-react";
+import { Button } from "@/shared/components/ui/button";
+import { Card, CardContent } from "@/shared/components/ui/card";
+import { ErrorState } from "@/shared/components/ui/ErrorState";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/shared/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  OFFER_COMPARE_LIMITS,
+  OWNER_OFFER_STATUS_FILTERS,
+} from "../../constants";
+import { useReceivedOffersStore } from "../../store/receivedOffersStore";
+import { OffersPagination } from "../common/OffersPagination";
+import { OfferComparison } from "./OfferComparison";
+import { ReceivedOfferCard } from "./ReceivedOfferCard";
+
+export function ReceivedOffersList() {
+  const t = useTranslations("offers");
+  const {
+    projects,
+    selectedProjectId,
+    offers,
+    filters,
+    compareIds,
+    isLoadingProjects,
+    isLoading,
+    error,
+    currentPage,
+    totalPages,
+    totalOffers,
+    fetchProjects,
+    fetchOffers,
+    selectProject,
+    setStatusFilter,
+    setPage,
+    toggleCompare,
+    clearCompare,
+  } = useReceivedOffersStore();
+  const [isComparing, setIsComparing] = useState(false);
+
+  useEffect(() => {
+    fetchProjects();
+  }, [fetchProjects]);
+
+  const canCompare = compareIds.length >= OFFER_COMPARE_LIMITS.min;
+  const canCompareMore = compareIds.length < OFFER_COMPARE_LIMITS.max;
+
+  if (isComparing && canCompare) {
+    return (
+      <OfferComparison
+        offerIds={compareIds}
+        onBack={() => setIsComparing(false)}
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-center">
+        <Select
+          value={selectedProjectId ? String(selectedProjectId) : undefined}
+          onValueChange={(value) => selectProject(Number(value))}
+          disabled={isLoadingProjects || projects.length === 0}
+        >
+          <SelectTrigger className="sm:w-72">
+            <SelectValue placeholder={t("received.selectProject")} />
+          </SelectTrigger>
+          <SelectContent>
+            {projects.map((project) => (
+              <SelectItem key={project.id} value={String(project.id)}>
+                {project.title}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select
+          value={filters.status || "all"}
+          onValueChange={(value) =>
+            setStatusFilter(value === "all" ? undefined : value)
+          }
+          disabled={!selectedProjectId}
+        >
+          <SelectTrigger className="sm:w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {OWNER_OFFER_STATUS_FILTERS.map((status) => (
+              <SelectItem key={status} value={status}>
+                {status === "all"
+                  ? t("received.allStatuses")
+                  : t(`statuses.${status}`)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {selectedProjectId && !isLoading && (
+          <p className="text-sm text-muted-foreground sm:ms-auto">
+            {t("showingResults", {
+              count: offers.length,
+              total: totalOffers,
+            })}
+          </p>
+        )}
+      </div>
+
+      {error ? (
+        <ErrorState
+          variant="inline"
+          title={t("received.loadError")}
+          error={error}
+          onRetry={fetchOffers}
+        />
+      ) : isLoading || isLoadingProjects ? (
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-2 xl:grid-cols-3">
+          {Array.from({ length: 6 }).map((_, i) => (
+            <Skeleton key={i} className="h-64 w-full" />
+          ))}
+        </div>
+      ) : offers.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center gap-2 py-12 text-center">
+            <Inbox className="h-10 w-10 text-muted-foreground" />
+            <p className="font-medium">
+              {projects.length === 0 ? t("received.noProjects") : t("noOffers")}
+            </p>
+            <p className="text-sm text-muted-foreground">
+              {t("waitingForOffers")}
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-2 xl:grid-cols-3">
+          {offers.map((offer) => (
+            <ReceivedOfferCard
+              key={offer.id}
+              offer={offer}
+              isCompared={compareIds.includes(offer.id)}
+              canCompareMore={canCompareMore}
+              onToggleCompare={toggleCompare}
+            />
+          ))}
+        </div>
+      )}
+
+      <OffersPagination
+        currentPage={currentPage}
+        totalPages={totalPages}
+        onPageChange={setPage}
+      />
+
+      {compareIds.length > 0 && (
+        <div className="sticky bottom-4 z-20 mx-auto flex max-w-xl items-center justify-between gap-3 rounded-lg border bg-background p-3 shadow-lg">
+          <p className="text-sm">
+            {t("received.compareSelection", {
+              count: compareIds.length,
+              max: OFFER_COMPARE_LIMITS.max,
+            })}
+          </p>
+          <div className="flex gap-2">
+            <Button variant="ghost" size="sm" onClick={clearCompare}>
+              {t("received.clearCompare")}
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => setIsComparing(true)}
+              disabled={!canCompare}
+            >
+              <Scale className="h-4 w-4" />
+              {t("received.compare")}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
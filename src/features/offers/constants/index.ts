@@ -0,0 +1,15 @@
+export {
+  DURATION_UNITS,
+  DEFAULT_PHASE_STATUS,
+  PAYMENT_PLAN_TOLERANCE,
+  MARKETPLACE_PAGE_SIZE,
+  MAX_SAVED_SEARCHES,
+  OFFER_COMPARE_LIMITS,
+  REJECT_REASON_LIMITS,
+  OWNER_OFFER_STATUS_FILTERS,
+  NEGOTIATION_LIMITS,
+  OFFER_LIMITS,
+  DEFAULT_BREAKDOWN_LABELS,
+  CREATE_OFFER_STEPS,
+} from "./offerConstants";
+export type { CreateOfferStep } from "./offerConstants";
@@ -0,0 +1,58 @@
+import { DurationUnit, OfferPhaseStatus } from "../types/offer";
+
+export const DURATION_UNITS: DurationUnit[] = ["days", "weeks", "months"];
+
+// Phases created together with an offer start as drafts until it is accepted
+export const DEFAULT_PHASE_STATUS: OfferPhaseStatus = "draft";
+
+// Allowed rounding difference (SAR) between payment plans and offer amount
+export const PAYMENT_PLAN_TOLERANCE = 0.01;
+
+export const MARKETPLACE_PAGE_SIZE = 12;
+
+export const MAX_SAVED_SEARCHES = 10;
+
+// Number of offers that can be compared side by side
+export const OFFER_COMPARE_LIMITS = { min: 2, max: 4 } as const;
+
+export const REJECT_REASON_LIMITS = { min: 10, max: 1000 } as const;
+
+export const OWNER_OFFER_STATUS_FILTERS = [
+  "all",
+  "pending",
+  "accepted",
+  "rejected",
+  "withdrawn",
+] as const;
+
+export const NEGOTIATION_LIMITS = {
+  messageMaxLength: 2000,
+  maxAttachments: 5,
+  // Messages per request while loading a whole thread
+  pageSize: 100,
+} as const;
+
+export const OFFER_LIMITS = {
+  detailsMinLength: 10,
+  detailsMaxLength: 5000,
+  qualityCertificateMaxLength: 150,
+  validityMax: 365,
+  maxFiles: 10,
+} as const;
+
+// Default price breakdown categories offered to estimators
+export const DEFAULT_BREAKDOWN_LABELS = [
+  "materials",
+  "labor",
+  "equipment",
+  "overhead",
+] as const;
+
+export const CREATE_OFFER_STEPS = [
+  "pricing",
+  "timeline",
+  "phases",
+  "review",
+] as const;
+
+export type CreateOfferStep = (typeof CREATE_OFFER_STEPS)[number];
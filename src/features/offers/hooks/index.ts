@@ -0,0 +1,5 @@
+export * from "./useCreateCompleteOffer";
+export * from "./useAvailableProjects";
+export * from "./useProjectLookups";
+export * from "./useOfferNegotiations";
+export * from "./useContractorOfferDetails";
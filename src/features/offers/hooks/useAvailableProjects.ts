@@ -0,0 +1,52 @@
+"use client";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { PaginationMeta } from "@/lib/apiClient";
+import { offerApi } from "../services/offerApi";
+import { AvailableProject, AvailableProjectFilters } from "../types";
+import { MARKETPLACE_PAGE_SIZE } from "../constants";
+import {
+  buildProjectSearchParams,
+  parseProjectFilters,
+} from "../utils/projectFilters";
+
+export const useAvailableProjects = (filters: AvailableProjectFilters) => {
+  const [projects, setProjects] = useState<AvailableProject[]>([]);
+  const [meta, setMeta] = useState<PaginationMeta | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // Only the latest request may update the list, filters can change faster
+  // than the API answers
+  const requestIdRef = useRef(0);
+
+  // Re-fetch only when the serialized filters actually change
+  const queryKey = buildProjectSearchParams(filters).toString();
+
+  const fetchProjects = useCallback(async () => {
+    const requestId = ++requestIdRef.current;
+    setIsLoading(true);
+    setError(null);
+
+    const response = await offerApi.getAvailableProjects({
+      per_page: MARKETPLACE_PAGE_SIZE,
+      ...parseProjectFilters(new URLSearchParams(queryKey)),
+    });
+    if (requestId !== requestIdRef.current) return;
+
+    if (response.success) {
+      setProjects(response.data || response.response || []);
+      setMeta(response.meta || null);
+    } else {
+      setProjects([]);
+      setMeta(null);
+      setError(response.message || null);
+    }
+
+    setIsLoading(false);
+  }, [queryKey]);
+
+  useEffect(() => {
+    fetchProjects();
+  }, [fetchProjects]);
+
+  return { projects, meta, isLoading, error, refetch: fetchProjects };
+};
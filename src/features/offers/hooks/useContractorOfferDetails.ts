@@ -0,0 +1,34 @@
+"use client";
+import { useCallback, useEffect, useState } from "react";
+import { offerApi } from "../services/offerApi";
+import { ReceivedOffer } from "../types";
+import { toReceivedOffer } from "../utils/offerMappers";
+
+export const useContractorOfferDetails = (offerId: string) => {
+  const [offer, setOffer] = useState<ReceivedOffer | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchOffer = useCallback(async () => {
+    if (!offerId) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    const response = await offerApi.getContractorOfferDetails(offerId);
+    const raw = response.data || response.response;
+    if (response.success && raw) {
+      setOffer(toReceivedOffer(raw));
+    } else {
+      setError(response.message || null);
+    }
+
+    setIsLoading(false);
+  }, [offerId]);
+
+  useEffect(() => {
+    fetchOffer();
+  }, [fetchOffer]);
+
+  return { offer, isLoading, error, refetch: fetchOffer };
+};
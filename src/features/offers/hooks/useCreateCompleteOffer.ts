@@ -0,0 +1,128 @@
+"use client";
+import { useCallback, useEffect, useState } from "react";
+import { useTranslations } from "next-intl";
+import { useEntitlementsStore } from "@/features/subscriptions/store";
+import { offerApi } from "../services/offerApi";
+import {
+  AvailableProject,
+  CompleteOfferPayload,
+  CompleteOfferResult,
+} from "../types";
+import { DEFAULT_PHASE_STATUS } from "../constants";
+import { CompleteOfferFormValues } from "../utils/validation";
+import {
+  formatBreakdownSection,
+  sumBreakdown,
+  toContractPercentage,
+} from "../utils/paymentPlans";
+
+/**
+ * Build the complete-offer request body from the wizard values.
+ * The endpoint has no breakdown field, so the breakdown total becomes
+ * the offer amount and the items are appended to the details under
+ * `breakdownHeading`. Every plan's contract percentage derives from the total.
+ */
+export const buildCompleteOfferPayload = (
+  values: CompleteOfferFormValues,
+  breakdownHeading: string
+): CompleteOfferPayload => {
+  const offerAmount = sumBreakdown(values.price_breakdown);
+
+  return {
+    offer_amount: offerAmount,
+    offer_validity_value: values.offer_validity_value,
+    offer_validity_unit: values.offer_validity_unit,
+    execution_duration_value: values.execution_duration_value,
+    execution_duration_unit: values.execution_duration_unit,
+    expected_start_date: values.expected_start_date,
+    expected_end_date: values.expected_end_date,
+    details: [
+      values.details.trim(),
+      formatBreakdownSection(breakdownHeading, values.price_breakdown),
+    ].join("\n\n"),
+    has_warranty: values.has_warranty,
+    quality_certificate: values.quality_certificate?.trim() || undefined,
+    files: values.files.length > 0 ? values.files : undefined,
+    phases: values.phases.map((phase, phaseIndex) => ({
+      title: phase.title.trim(),
+      description: phase.description?.trim() || undefined,
+      order: phaseIndex + 1,
+      status: DEFAULT_PHASE_STATUS,
+      payment_plans: phase.payment_plans.map((plan, planIndex) => ({
+        name: plan.name.trim(),
+        amount: plan.amount,
+        percentage_of_contract: toContractPercentage(plan.amount, offerAmount),
+        due_on: plan.due_on || undefined,
+        sort_order: planIndex + 1,
+        status: "planned",
+        reference_note: plan.reference_note?.trim() || undefined,
+      })),
+    })),
+  };
+};
+
+export const useCreateCompleteOffer = (projectId: string) => {
+  const t = useTranslations("offers.createCompleteOffer");
+  const [project, setProject] = useState<AvailableProject | null>(null);
+  const [isLoadingProject, setIsLoadingProject] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!projectId) return;
+
+    const loadProject = async () => {
+      setIsLoadingProject(true);
+      const response = await offerApi.getAvailableProject(projectId);
+      if (response.success) {
+        setProject(response.data || response.response || null);
+      }
+      setIsLoadingProject(false);
+    };
+
+    loadProject();
+  }, [projectId]);
+
+  const submitOffer = useCallback(
+    async (
+      values: CompleteOfferFormValues
+    ): Promise<{
+      success: boolean;
+      message?: string;
+      data?: CompleteOfferResult;
+    }> => {
+      setIsSubmitting(true);
+      setError(null);
+
+      const response = await offerApi.createCompleteOffer(
+        projectId,
+        buildCompleteOfferPayload(values, t("priceBreakdown"))
+      );
+
+      if (response.success) {
+        // Only a sent offer counts against the plan quota, the Entitled gate
+        // already kept users without proposals left off the form
+        await useEntitlementsStore.getState().consumeProposal();
+      } else {
+        setError(response.message || null);
+      }
+      setIsSubmitting(false);
+
+      return {
+        success: response.success,
+        message: response.message,
+        data: response.data || response.response,
+      };
+    },
+    [projectId, t]
+  );
+
+  return {
+    project,
+    isLoadingProject,
+    isSubmitting,
+    error,
+    submitOffer,
+    clearError: () => setError(null),
+  };
+};
@@ -0,0 +1,81 @@
+"use client";
+import { useCallback, useEffect, useState } from "react";
+import { offerApi } from "../services/offerApi";
+import {
+  NegotiationMessagePayload,
+  OfferNegotiation,
+  OfferParty,
+} from "../types";
+
+const sortByDate = (messages: OfferNegotiation[]) =>
+  messages
+    .slice()
+    .sort(
+      (a, b) =>
+        new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+    );
+
+export const useOfferNegotiations = (party: OfferParty, offerId: string) => {
+  const [messages, setMessages] = useState<OfferNegotiation[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchMessages = useCallback(async () => {
+    if (!offerId) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    const response = await offerApi.getNegotiations(party, offerId);
+    if (response.success) {
+      setMessages(sortByDate(response.data || response.response || []));
+    } else {
+      setError(response.message || null);
+    }
+
+    setIsLoading(false);
+  }, [party, offerId]);
+
+  useEffect(() => {
+    fetchMessages();
+  }, [fetchMessages]);
+
+  const sendMessage = useCallback(
+    async (
+      payload: NegotiationMessagePayload
+    ): Promise<{ success: boolean; message?: string }> => {
+      setIsSending(true);
+
+      try {
+        const response = await offerApi.sendNegotiation(
+          party,
+          offerId,
+          payload
+        );
+        const sent = response.data || response.response;
+
+        if (response.success && sent) {
+          setMessages((current) => sortByDate([...current, sent]));
+        } else if (response.success) {
+          // Some responses omit the created message, reload the thread
+          await fetchMessages();
+        }
+
+        return { success: response.success, message: response.message };
+      } finally {
+        setIsSending(false);
+      }
+    },
+    [party, offerId, fetchMessages]
+  );
+
+  return {
+    messages,
+    isLoading,
+    isSending,
+    error,
+    refetch: fetchMessages,
+    sendMessage,
+  };
+};
@@ -0,0 +1,26 @@
+"use client";
+import { useEffect } from "react";
+import { useProjectStore } from "@/features/project/store/projectStore";
+import { projectApi } from "@/features/project/services/projectApi";
+
+/**
+ * Load project types once, sharing the cache with the project creation
+ * wizard
+ */
+export const useProjectLookups = () => {
+  const projectTypes = useProjectStore((state) => state.projectTypes);
+
+  useEffect(() => {
+    const store = useProjectStore.getState();
+
+    if (!store.projectTypes) {
+      projectApi.getProjectTypes().then((result) => {
+        if (result.success) store.setProjectTypes(result.response);
+      });
+    }
+  }, []);
+
+  return {
+    projectTypes: projectTypes || [],
+  };
+};
@@ -0,0 +1,20 @@
+// Store
+export * from "./store";
+
+// Hooks
+export * from "./hooks";
+
+// Types
+export * from "./types";
+
+// Services
+export * from "./services";
+
+// Constants
+export * from "./constants";
+
+// Utils
+export * from "./utils";
+
+// Components
+export * from "./components";
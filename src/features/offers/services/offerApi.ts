@@ -0,0 +1,192 @@
+import { ApiResponse } from "@/lib/apiClient";
+import { DEFAULT_FILE_CONFIG, FormDataOptions } from "@/lib/formDataUtils";
+import * as sdk from "@/lib/sdk";
+import {
+  AvailableProject,
+  AvailableProjectFilters,
+  CompleteOfferPayload,
+  CompleteOfferResult,
+  NegotiationMessagePayload,
+  OfferNegotiation,
+  OfferParty,
+  OwnerOfferFilters,
+  OwnerProjectOption,
+  ProjectOffer,
+  RejectOfferPayload,
+} from "../types";
+import { NEGOTIATION_LIMITS, OFFER_LIMITS } from "../constants";
+
+// Owners and contractors negotiate through mirrored endpoints
+const NEGOTIATION_OPERATIONS = {
+  owner: {
+    list: sdk.ownerGetOfferNegotiations,
+    send: sdk.ownerSendNegotiationMessage,
+  },
+  contractor: {
+    list: sdk.contractorGetOfferNegotiations,
+    send: sdk.contractorSendNegotiationMessage,
+  },
+} as const;
+
+/**
+ * Offer API Service
+ * Handles contractor and owner offer operations
+ */
+class OfferApiService {
+  /**
+   * Get projects open for offers with optional marketplace filters
+   */
+  async getAvailableProjects(
+    filters?: AvailableProjectFilters
+  ): Promise<ApiResponse<AvailableProject[]>> {
+    return sdk.getAvailableProjectsForContractors<AvailableProject[]>(
+      filters && { ...filters, q: filters.q?.trim() }
+    );
+  }
+
+  /**
+   * Get the details of a project that is open for offers
+   */
+  async getAvailableProject(
+    projectId: number | string
+  ): Promise<ApiResponse<AvailableProject>> {
+    return sdk.showAvailableProjectForContractor<AvailableProject>(projectId);
+  }
+
+  /**
+   * Submit an offer together with its phases and payment plans
+   */
+  async createCompleteOffer(
+    projectId: number | string,
+    data: CompleteOfferPayload
+  ): Promise<ApiResponse<CompleteOfferResult>> {
+    const options: FormDataOptions = {
+      fileFields: {
+        files: { ...DEFAULT_FILE_CONFIG, maxFiles: OFFER_LIMITS.maxFiles },
+      },
+      validateFiles: true,
+      excludeEmptyFiles: true,
+    };
+
+    return sdk.contractorCreateCompleteOffer<CompleteOfferResult>(
+      projectId,
+      data,
+      { formDataOptions: options }
+    );
+  }
+
+  /**
+   * Get the owner's projects to pick which offers to review
+   */
+  async getOwnerProjects(): Promise<ApiResponse<OwnerProjectOption[]>> {
+    return sdk.getOwnerProjects<OwnerProjectOption[]>({ per_page: 100 });
+  }
+
+  /**
+   * Get offers received on one of the owner's projects
+   */
+  async getProjectOffers(
+    projectId: number | string,
+    filters?: OwnerOfferFilters
+  ): Promise<ApiResponse<ProjectOffer[]>> {
+    return sdk.ownerGetProjectOffers<ProjectOffer[]>(projectId, filters);
+  }
+
+  /**
+   * Get an offer with its phases, payment plans and files (owner)
+   */
+  async getOwnerOfferDetails(
+    offerId: number | string
+  ): Promise<ApiResponse<ProjectOffer>> {
+    return sdk.ownerGetCompleteOfferDetails<ProjectOffer>(offerId);
+  }
+
+  /**
+   * Accept an offer on behalf of the project owner
+   */
+  async acceptOffer(offerId: number | string): Promise<ApiResponse<ProjectOffer>> {
+    return sdk.ownerAcceptProjectOffer<ProjectOffer>(offerId);
+  }
+
+  /**
+   * Reject an offer with a reason shown to the contractor
+   */
+  async rejectOffer(
+    offerId: number | string,
+    data: RejectOfferPayload
+  ): Promise<ApiResponse<ProjectOffer>> {
+    return sdk.ownerRejectProjectOffer<ProjectOffer>(offerId, data);
+  }
+
+  /**
+   * Get an offer with its phases, payment plans and files (contractor)
+   */
+  async getContractorOfferDetails(
+    offerId: number | string
+  ): Promise<ApiResponse<ProjectOffer>> {
+    return sdk.contractorGetCompleteOfferDetails<ProjectOffer>(offerId);
+  }
+
+  /**
+   * Get every negotiation message exchanged on an offer, page by page.
+   * api.json doesn't document the page param, axios adds it to the query.
+   */
+  async getNegotiations(
+    party: OfferParty,
+    offerId: number | string
+  ): Promise<ApiResponse<OfferNegotiation[]>> {
+    const messages: OfferNegotiation[] = [];
+    let page = 1;
+    let lastPage = 1;
+
+    // Pages are requested one at a time, concurrent GETs to the same URL
+    // are merged by the api client
+    do {
+      const response = await NEGOTIATION_OPERATIONS[party].list<
+        OfferNegotiation[]
+      >(
+        offerId,
+        { per_page: NEGOTIATION_LIMITS.pageSize },
+        { params: { page } }
+      );
+      if (!response.success) return response;
+
+      messages.push(...(response.data || response.response || []));
+      lastPage = response.meta?.last_page || 1;
+      page += 1;
+    } while (page <= lastPage);
+
+    return { success: true, data: messages };
+  }
+
+  /**
+   * Send a negotiation message, optionally with a counter-proposal
+   */
+  async sendNegotiation(
+    party: OfferParty,
+    offerId: number | string,
+    data: NegotiationMessagePayload
+  ): Promise<ApiResponse<OfferNegotiation>> {
+    const options: FormDataOptions = {
+      fileFields: {
+        attachments: {
+          ...DEFAULT_FILE_CONFIG,
+          maxFiles: NEGOTIATION_LIMITS.maxAttachments,
+        },
+      },
+      validateFiles: true,
+      excludeEmptyFiles: true,
+    };
+
+    return NEGOTIATION_OPERATIONS[party].send<OfferNegotiation>(
+      offerId,
+      data,
+      { formDataOptions: options }
+    );
+  }
+}
+
+/**
+ * Singleton instance of the OfferApiService
+ */
+export const offerApi = new OfferApiService();
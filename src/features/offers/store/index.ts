@@ -0,0 +1,2 @@
+export * from "./receivedOffersStore";
+export * from "./savedSearchesStore";
@@ -0,0 +1,259 @@
+import { create } from "zustand";
+import { devtools } from "zustand/middleware";
+import { offerApi } from "../services/offerApi";
+import {
+  OwnerOfferFilters,
+  OwnerProjectOption,
+  ReceivedOffer,
+} from "../types";
+import { OfferStatus } from "@/features/dashboard/types/offer";
+import { OFFER_COMPARE_LIMITS } from "../constants";
+import { toReceivedOffer } from "../utils/offerMappers";
+
+interface ReceivedOffersState {
+  // Data state
+  projects: OwnerProjectOption[];
+  selectedProjectId: number | null;
+  offers: ReceivedOffer[];
+  offerDetails: Record<string, ReceivedOffer>;
+  filters: OwnerOfferFilters;
+  compareIds: string[];
+
+  // UI state
+  isLoadingProjects: boolean;
+  isLoading: boolean;
+  loadingDetailIds: string[];
+  actionOfferId: string | null;
+  error: string | null;
+
+  // Pagination state
+  currentPage: number;
+  totalPages: number;
+  totalOffers: number;
+
+  // Actions
+  fetchProjects: () => Promise<void>;
+  selectProject: (projectId: number) => void;
+  fetchOffers: () => Promise<void>;
+  fetchOfferDetails: (offerId: string) => Promise<ReceivedOffer | null>;
+  acceptOffer: (offerId: string) => Promise<{ success: boolean; message?: string }>;
+  rejectOffer: (
+    offerId: string,
+    reason: string
+  ) => Promise<{ success: boolean; message?: string }>;
+  setStatusFilter: (status?: string) => void;
+  setPage: (page: number) => void;
+  toggleCompare: (offerId: string) => void;
+  clearCompare: () => void;
+  clearError: () => void;
+  reset: () => void;
+}
+
+const initialFilters: OwnerOfferFilters = {
+  status: undefined,
+  page: 1,
+  per_page: 12,
+};
+
+const initialState = {
+  projects: [],
+  selectedProjectId: null,
+  offers: [],
+  offerDetails: {},
+  filters: initialFilters,
+  compareIds: [],
+  isLoadingProjects: false,
+  isLoading: false,
+  loadingDetailIds: [],
+  actionOfferId: null,
+  error: null,
+  currentPage: 1,
+  totalPages: 0,
+  totalOffers: 0,
+};
+
+export const useReceivedOffersStore = create<ReceivedOffersState>()(
+  devtools(
+    (set, get) => {
+      // Keep the list and the detail cache in sync after accept/reject
+      const updateOfferStatus = (offerId: string, status: OfferStatus) => {
+        const { offers, offerDetails } = get();
+        set({
+          offers: offers.map((offer) =>
+            offer.id === offerId ? { ...offer, status } : offer
+          ),
+          offerDetails: offerDetails[offerId]
+            ? {
+                ...offerDetails,
+                [offerId]: { ...offerDetails[offerId], status },
+              }
+            : offerDetails,
+        });
+      };
+
+      return {
+        ...initialState,
+
+        fetchProjects: async () => {
+          set({ isLoadingProjects: true });
+
+          const response = await offerApi.getOwnerProjects();
+          const projects = response.success
+            ? response.data || response.response || []
+            : [];
+
+          set({ projects, isLoadingProjects: false });
+
+          // Default to the first project so the inbox is never empty
+          if (get().selectedProjectId) {
+            get().fetchOffers();
+          } else if (projects.length > 0) {
+            get().selectProject(projects[0].id);
+          }
+        },
+
+        selectProject: (projectId: number) => {
+          set({
+            selectedProjectId: projectId,
+            filters: { ...get().filters, page: 1 },
+            currentPage: 1,
+            compareIds: [],
+          });
+
+          get().fetchOffers();
+        },
+
+        fetchOffers: async () => {
+          const { selectedProjectId, filters } = get();
+          if (!selectedProjectId) return;
+
+          set({ isLoading: true, error: null });
+
+          const response = await offerApi.getProjectOffers(
+            selectedProjectId,
+            filters
+          );
+
+          // Another project or filter was picked while this page loaded,
+          // its own request owns the list now
+          if (
+            get().selectedProjectId !== selectedProjectId ||
+            get().filters !== filters
+          ) {
+            return;
+          }
+
+          if (response.success) {
+            const offers = (response.data || response.response || []).map(
+              toReceivedOffer
+            );
+
+            set({
+              offers,
+              totalOffers: response.meta?.total || offers.length,
+              totalPages: response.meta?.last_page || 1,
+              currentPage: response.meta?.current_page || 1,
+              isLoading: false,
+            });
+          } else {
+            set({
+              offers: [],
+              error: response.message || null,
+              isLoading: false,
+            });
+          }
+        },
+
+        fetchOfferDetails: async (offerId: string) => {
+          set({ loadingDetailIds: [...get().loadingDetailIds, offerId] });
+
+          const response = await offerApi.getOwnerOfferDetails(offerId);
+          const raw = response.data || response.response;
+          const offer = response.success && raw ? toReceivedOffer(raw) : null;
+
+          set({
+            loadingDetailIds: get().loadingDetailIds.filter(
+              (id) => id !== offerId
+            ),
+            offerDetails: offer
+              ? { ...get().offerDetails, [offerId]: offer }
+              : get().offerDetails,
+            error: offer ? get().error : response.message || null,
+          });
+
+          return offer;
+        },
+
+        acceptOffer: async (offerId: string) => {
+          set({ actionOfferId: offerId });
+
+          const response = await offerApi.acceptOffer(offerId);
+          if (response.success) {
+            updateOfferStatus(offerId, "accepted");
+          }
+
+          set({ actionOfferId: null });
+          return { success: response.success, message: response.message };
+        },
+
+        rejectOffer: async (offerId: string, reason: string) => {
+          set({ actionOfferId: offerId });
+
+          const response = await offerApi.rejectOffer(offerId, {
+            reason: reason.trim(),
+          });
+          if (response.success) {
+            updateOfferStatus(offerId, "rejected");
+            set({
+              compareIds: get().compareIds.filter((id) => id !== offerId),
+            });
+          }
+
+          set({ actionOfferId: null });
+          return { success: response.success, message: response.message };
+        },
+
+        setStatusFilter: (status?: string) => {
+          set({
+            filters: { ...get().filters, status, page: 1 },
+            currentPage: 1,
+          });
+
+          get().fetchOffers();
+        },
+
+        setPage: (page: number) => {
+          set({
+            filters: { ...get().filters, page },
+            currentPage: page,
+          });
+
+          get().fetchOffers();
+        },
+
+        toggleCompare: (offerId: string) => {
+          const { compareIds } = get();
+
+          if (compareIds.includes(offerId)) {
+            set({ compareIds: compareIds.filter((id) => id !== offerId) });
+          } else if (compareIds.length < OFFER_COMPARE_LIMITS.max) {
+            set({ compareIds: [...compareIds, offerId] });
+          }
+        },
+
+        clearCompare: () => {
+          set({ compareIds: [] });
+        },
+
+        clearError: () => {
+          set({ error: null });
+        },
+
+        reset: () => {
+          set(initialState);
+        },
+      };
+    },
+    { name: "received-offers-store" }
+  )
+);
@@ -0,0 +1,97 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { useAuthStore } from "@/features/auth/store/authStore";
+import { AvailableProjectFilters, SavedProjectSearch } from "../types";
+import { MAX_SAVED_SEARCHES } from "../constants";
+
+interface SavedSearchesState {
+  searchesByUser: Record<string, SavedProjectSearch[]>;
+  // The signed-in user's searches
+  searches: SavedProjectSearch[];
+
+  // Actions
+  saveSearch: (name: string, filters: AvailableProjectFilters) => void;
+  removeSearch: (id: string) => void;
+}
+
+const getUserKey = (): string | null => {
+  const userId = useAuthStore.getState().user?.id;
+  return userId === undefined ? null : String(userId);
+};
+
+/**
+ * Named marketplace searches, kept in local storage per browser and user
+ */
+export const useSavedSearchesStore = create<SavedSearchesState>()(
+  persist(
+    (set, get) => {
+      const setUserSearches = (searches: SavedProjectSearch[]) => {
+        const userKey = getUserKey();
+        if (!userKey) return;
+
+        set({
+          searches,
+          searchesByUser: { ...get().searchesByUser, [userKey]: searches },
+        });
+      };
+
+      return {
+        searchesByUser: {},
+        searches: [],
+
+        saveSearch: (name: string, filters: AvailableProjectFilters) => {
+          // Pagination is not part of a saved search
+          const searchFilters = { ...filters };
+          delete searchFilters.page;
+          const search: SavedProjectSearch = {
+            id: Date.now().toString(),
+            name: name.trim(),
+            filters: searchFilters,
+            createdAt: new Date().toISOString(),
+          };
+
+          // Saving under an existing name replaces that search
+          const others = get().searches.filter(
+            (item) => item.name.toLowerCase() !== search.name.toLowerCase()
+          );
+
+          setUserSearches([search, ...others].slice(0, MAX_SAVED_SEARCHES));
+        },
+
+        removeSearch: (id: string) => {
+          setUserSearches(get().searches.filter((item) => item.id !== id));
+        },
+      };
+    },
+    {
+      name: "contractor-saved-project-searches",
+      // Searches saved before they were scoped to a user can't be
+      // attributed to anyone, so they are dropped
+      version: 1,
+      migrate: () => ({ searchesByUser: {} }),
+      partialize: (state) => ({ searchesByUser: state.searchesByUser }),
+      merge: (persisted, current) => {
+        const { searchesByUser = {} } =
+          (persisted as Partial<SavedSearchesState>) ?? {};
+        const userKey = getUserKey();
+
+        return {
+          ...current,
+          searchesByUser,
+          searches: (userKey && searchesByUser[userKey]) || [],
+        };
+      },
+    }
+  )
+);
+
+// Show the searches of whoever is signed in now
+useAuthStore.subscribe((state, previous) => {
+  if (state.user?.id !== previous.user?.id) {
+    const userKey = getUserKey();
+    const { searchesByUser } = useSavedSearchesStore.getState();
+    useSavedSearchesStore.setState({
+      searches: (userKey && searchesByUser[userKey]) || [],
+    });
+  }
+});
@@ -0,0 +1,32 @@
+export type {
+  DurationUnit,
+  OfferPhaseStatus,
+  PaymentPlanStatus,
+  OfferPaymentPlanInput,
+  OfferPhaseInput,
+  CompleteOfferPayload,
+  OfferPaymentPlan,
+  OfferPhase,
+  OfferContractorSummary,
+  OfferFile,
+  ProjectOffer,
+  OwnerOfferFilters,
+  RejectOfferPayload,
+  OwnerProjectOption,
+  ReceivedOffer,
+  CompleteOfferResult,
+  AvailableProject,
+  PriceBreakdownItem,
+  PaymentPlanTotals,
+} from "./offer";
+
+export type {
+  AvailableProjectFilters,
+  SavedProjectSearch,
+} from "./marketplace";
+
+export type {
+  OfferParty,
+  OfferNegotiation,
+  NegotiationMessagePayload,
+} from "./negotiation";
@@ -0,0 +1,17 @@
+// Types for the contractor projects marketplace (browse available projects)
+
+// Query params for GET /projects/contractor/available
+export interface AvailableProjectFilters {
+  q?: string;
+  project_type_id?: number;
+  page?: number;
+  per_page?: number;
+}
+
+// Named filter set a contractor can re-run from the dashboard
+export interface SavedProjectSearch {
+  id: string;
+  name: string;
+  filters: AvailableProjectFilters;
+  createdAt: string;
+}
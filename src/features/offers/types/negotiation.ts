@@ -0,0 +1,27 @@
+// Offer negotiation types (/contractor|owner/offers/{offer}/negotiations)
+import { DurationUnit, OfferFile } from "./offer";
+
+// Side of the offer the current user is acting on
+export type OfferParty = "owner" | "contractor";
+
+export interface OfferNegotiation {
+  id: number;
+  offer_id: number;
+  sender_id?: number;
+  sender_type?: OfferParty | string;
+  sender?: { id: number; name: string; avatar?: string | null } | null;
+  message: string;
+  proposed_amount?: number | string | null;
+  proposed_duration_value?: number | null;
+  proposed_duration_unit?: DurationUnit | null;
+  attachments?: OfferFile[];
+  created_at: string;
+}
+
+export interface NegotiationMessagePayload {
+  message: string;
+  proposed_amount?: number;
+  proposed_duration_value?: number;
+  proposed_duration_unit?: DurationUnit;
+  attachments?: File[];
+}
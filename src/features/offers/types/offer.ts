@@ -0,0 +1,180 @@
+// Offer types based on API documentation (contractor & owner offer endpoints)
+import { Offer } from "@/features/dashboard/types/offer";
+
+export type DurationUnit = "days" | "weeks" | "months";
+
+export type OfferPhaseStatus =
+  | "draft"
+  | "pending_approval"
+  | "open"
+  | "closed"
+  | "rejected";
+
+export type PaymentPlanStatus = "planned" | "locked";
+
+export interface OfferPaymentPlanInput {
+  name: string;
+  amount: number;
+  percentage_of_contract?: number;
+  due_on?: string;
+  sort_order: number;
+  status?: PaymentPlanStatus;
+  user_bank_account_id?: number;
+  reference_note?: string;
+}
+
+export interface OfferPhaseInput {
+  title: string;
+  description?: string;
+  order: number;
+  status?: OfferPhaseStatus;
+  payment_plans: OfferPaymentPlanInput[];
+}
+
+// Request body for POST /contractor/projects/{project}/complete-offers
+export interface CompleteOfferPayload {
+  offer_amount: number;
+  offer_validity_value: number;
+  offer_validity_unit: DurationUnit;
+  execution_duration_value: number;
+  execution_duration_unit: DurationUnit;
+  expected_start_date: string;
+  expected_end_date: string;
+  details: string;
+  has_warranty?: boolean;
+  quality_certificate?: string;
+  files?: File[];
+  phases: OfferPhaseInput[];
+  global_payment_plans?: OfferPaymentPlanInput[];
+}
+
+export interface OfferPaymentPlan {
+  id: number;
+  name: string;
+  amount: number | string;
+  percentage_of_contract?: number | string | null;
+  due_on?: string | null;
+  sort_order: number;
+  status: PaymentPlanStatus;
+  reference_note?: string | null;
+}
+
+export interface OfferPhase {
+  id: number;
+  title: string;
+  description?: string | null;
+  order: number;
+  status: OfferPhaseStatus;
+  payment_plans?: OfferPaymentPlan[];
+}
+
+export interface OfferContractorSummary {
+  id: number;
+  name: string;
+  avatar?: string | null;
+  rating?: number | string | null;
+  reviews_count?: number;
+}
+
+export interface OfferFile {
+  id: number;
+  name?: string;
+  file_name?: string;
+  url: string;
+  mime_type?: string;
+  size?: number;
+}
+
+// Offer resource as returned by the contractor/owner offer endpoints
+export interface ProjectOffer {
+  id: number;
+  project_id: number;
+  contractor_id?: number;
+  status: string;
+  offer_amount: number | string;
+  execution_duration_value: number;
+  execution_duration_unit: DurationUnit;
+  expected_start_date: string;
+  expected_end_date: string;
+  offer_validity_value: number;
+  offer_validity_unit: DurationUnit;
+  details: string;
+  has_warranty?: boolean;
+  quality_certificate?: string | null;
+  created_at: string;
+  updated_at?: string;
+  project?: { id: number; title: string } | null;
+  contractor?: OfferContractorSummary | null;
+  phases?: OfferPhase[];
+  global_payment_plans?: OfferPaymentPlan[];
+  files?: OfferFile[];
+}
+
+export interface OwnerOfferFilters {
+  status?: string;
+  contractor_id?: number;
+  page?: number;
+  per_page?: number;
+}
+
+export interface RejectOfferPayload {
+  reason: string;
+}
+
+// Owner project shown in the received-offers project picker
+export interface OwnerProjectOption {
+  id: number;
+  title: string;
+  status?: string;
+  offers_count?: number;
+}
+
+export interface CompleteOfferResult {
+  offer: ProjectOffer;
+  phases_count: number;
+  payment_plans_count?: number;
+}
+
+// Minimal project info shown while preparing an offer
+export interface AvailableProject {
+  id: number;
+  title: string;
+  description?: string;
+  budget?: number | string;
+  budget_min?: number | string | null;
+  budget_max?: number | string | null;
+  budget_unit?: string;
+  duration_value?: number;
+  duration_unit?: string;
+  city?: string;
+  district?: string;
+  project_type?: { id: number; name: string } | null;
+  work_type?: { id: number; name: string } | null;
+  offers_count?: number;
+  created_at?: string;
+}
+
+// Client-side line item used to build up the offer amount
+export interface PriceBreakdownItem {
+  label: string;
+  amount: number;
+}
+
+export interface PaymentPlanTotals {
+  offerAmount: number;
+  allocated: number;
+  remaining: number;
+  isBalanced: boolean;
+}
+
+// Dashboard offer enriched with what the owner needs to compare offers
+export interface ReceivedOffer extends Offer {
+  durationUnit: DurationUnit;
+  validityValue: number;
+  validityUnit: DurationUnit;
+  hasWarranty: boolean;
+  qualityCertificate?: string;
+  contractorReviewsCount?: number;
+  phases: OfferPhase[];
+  paymentSchedule: OfferPaymentPlan[];
+}
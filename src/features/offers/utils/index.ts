@@ -0,0 +1,4 @@
+export * from "./paymentPlans";
+export * from "./validation";
+export * from "./offerMappers";
+export * from "./projectFilters";
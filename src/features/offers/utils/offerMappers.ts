@@ -0,0 +1,87 @@
+import { OfferStatus } from "@/features/dashboard/types/offer";
+import { OfferPaymentPlan, ProjectOffer, ReceivedOffer } from "../types";
+
+export const toNumberAmount = (
+  value: number | string | null | undefined
+): number => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : 0;
+};
+
+/**
+ * Normalize backend offer statuses to the dashboard OfferStatus union
+ */
+export const toOfferStatus = (status?: string | null): OfferStatus => {
+  switch (status) {
+    case "accepted":
+    case "rejected":
+    case "withdrawn":
+      return status;
+    case "cancelled":
+      return "withdrawn";
+    case "counter_offer":
+    case "negotiating":
+    case "under_negotiation":
+      return "counter_offer";
+    default:
+      return "pending";
+  }
+};
+
+/**
+ * Flatten the payment plans into one schedule: phase plans in phase order,
+ * then by their sort order within the phase, followed by the global plans
+ */
+export const getPaymentSchedule = (offer: ProjectOffer): OfferPaymentPlan[] => {
+  const phasePlans = (offer.phases || [])
+    .slice()
+    .sort((a, b) => a.order - b.order)
+    .flatMap((phase) =>
+      (phase.payment_plans || [])
+        .slice()
+        .sort((a, b) => a.sort_order - b.sort_order)
+    );
+
+  return [...phasePlans, ...(offer.global_payment_plans || [])];
+};
+
+export const toReceivedOffer = (offer: ProjectOffer): ReceivedOffer => ({
+  id: String(offer.id),
+  projectId: String(offer.project_id),
+  projectTitle: offer.project?.title || "",
+  contractorId: String(offer.contractor?.id ?? offer.contractor_id ?? ""),
+  contractorName: offer.contractor?.name || "",
+  contractorRating: toNumberAmount(offer.contractor?.rating),
+  contractorReviewsCount: offer.contractor?.reviews_count,
+  status: toOfferStatus(offer.status),
+  amount: toNumberAmount(offer.offer_amount),
+  currency: "SAR",
+  timeline: {
+    estimatedDuration: offer.execution_duration_value,
+    proposedStartDate: offer.expected_start_date,
+    proposedEndDate: offer.expected_end_date,
+  },
+  durationUnit: offer.execution_duration_unit,
+  validityValue: offer.offer_validity_value,
+  validityUnit: offer.offer_validity_unit,
+  hasWarranty: Boolean(offer.has_warranty),
+  qualityCertificate: offer.quality_certificate || undefined,
+  description: offer.details,
+  attachments: (offer.files || []).map((file) => ({
+    id: String(file.id),
+    name: file.name || file.file_name || "",
+    url: file.url,
+    type: file.mime_type || "",
+    size: file.size || 0,
+  })),
+  phases: (offer.phases || []).slice().sort((a, b) => a.order - b.order),
+  paymentSchedule: getPaymentSchedule(offer),
+  submittedAt: offer.created_at,
+  updatedAt: offer.updated_at || offer.created_at,
+});
+
+// Approximate durations in days so offers quoted in different units compare
+const DAYS_PER_UNIT = { days: 1, weeks: 7, months: 30 } as const;
+
+export const getDurationInDays = (offer: ReceivedOffer): number =>
+  offer.timeline.estimatedDuration * (DAYS_PER_UNIT[offer.durationUnit] || 1);
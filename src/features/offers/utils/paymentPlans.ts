@@ -0,0 +1,73 @@
+import { PAYMENT_PLAN_TOLERANCE } from "../constants";
+import { PaymentPlanTotals, PriceBreakdownItem } from "../types";
+
+type AmountLike = { amount?: number | string | null };
+type PhaseLike = { payment_plans?: AmountLike[] };
+
+const toAmount = (value: number | string | null | undefined): number => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : 0;
+};
+
+// Round to halalas to avoid floating point noise in totals
+export const roundAmount = (value: number): number =>
+  Math.round(value * 100) / 100;
+
+export const sumBreakdown = (items: PriceBreakdownItem[] = []): number =>
+  roundAmount(items.reduce((total, item) => total + toAmount(item.amount), 0));
+
+/**
+ * Render the price breakdown as a plain text section of the offer details
+ */
+export const formatBreakdownSection = (
+  heading: string,
+  items: PriceBreakdownItem[] = []
+): string =>
+  [
+    `${heading}:`,
+    ...items.map(
+      (item) => `- ${item.label.trim()}: ${toAmount(item.amount).toFixed(2)}`
+    ),
+  ].join("\n");
+
+export const sumPaymentPlans = (plans: AmountLike[] = []): number =>
+  roundAmount(plans.reduce((total, plan) => total + toAmount(plan.amount), 0));
+
+export const getAllocatedAmount = (
+  phases: PhaseLike[] = [],
+  globalPlans: AmountLike[] = []
+): number =>
+  roundAmount(
+    phases.reduce(
+      (total, phase) => total + sumPaymentPlans(phase.payment_plans),
+      0
+    ) + sumPaymentPlans(globalPlans)
+  );
+
+/**
+ * Compare what the payment plans allocate against the offer amount
+ */
+export const getPaymentPlanTotals = (
+  offerAmount: number,
+  phases: PhaseLike[] = [],
+  globalPlans: AmountLike[] = []
+): PaymentPlanTotals => {
+  const allocated = getAllocatedAmount(phases, globalPlans);
+  const remaining = roundAmount(offerAmount - allocated);
+
+  return {
+    offerAmount: roundAmount(offerAmount),
+    allocated,
+    remaining,
+    isBalanced:
+      offerAmount > 0 && Math.abs(remaining) <= PAYMENT_PLAN_TOLERANCE,
+  };
+};
+
+export const toContractPercentage = (
+  amount: number,
+  offerAmount: number
+): number => {
+  if (!offerAmount) return 0;
+  return roundAmount((toAmount(amount) / offerAmount) * 100);
+};
@@ -0,0 +1,45 @@
+import { AvailableProjectFilters } from "../types";
+
+const NUMERIC_FILTER_KEYS = ["project_type_id", "page", "per_page"] as const;
+
+/**
+ * Read marketplace filters from URL search params, ignoring invalid values
+ */
+export const parseProjectFilters = (
+  params: URLSearchParams
+): AvailableProjectFilters => {
+  const filters: AvailableProjectFilters = {};
+
+  const q = params.get("q")?.trim();
+  if (q) filters.q = q;
+
+  NUMERIC_FILTER_KEYS.forEach((key) => {
+    const value = Number(params.get(key));
+    if (params.get(key) && Number.isFinite(value) && value > 0) {
+      filters[key] = value;
+    }
+  });
+
+  return filters;
+};
+
+/**
+ * Serialize filters to search params, dropping empty values
+ */
+export const buildProjectSearchParams = (
+  filters: AvailableProjectFilters
+): URLSearchParams => {
+  const params = new URLSearchParams();
+
+  if (filters.q?.trim()) params.append("q", filters.q.trim());
+  NUMERIC_FILTER_KEYS.forEach((key) => {
+    const value = filters[key];
+    if (value) params.append(key, value.toString());
+  });
+
+  return params;
+};
+
+// Number of active filters, excluding pagination
+export const countActiveFilters = (filters: AvailableProjectFilters): number =>
+  [filters.q, filters.project_type_id].filter(Boolean).length;
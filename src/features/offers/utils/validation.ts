@@ -0,0 +1,111 @@
+"use client";
+import { z } from "zod";
+import { getOfferValidationMessages } from "./validationMessages";
+import { getPaymentPlanTotals, sumBreakdown } from "./paymentPlans";
+import { OFFER_LIMITS } from "../constants";
+
+const todayISO = () => new Date().toISOString().split("T")[0];
+
+export const createOfferValidationSchemas = (t: (key: string) => string) => {
+  const messages = getOfferValidationMessages(t);
+
+  const PaymentPlanSchema = z.object({
+    name: z.string().trim().min(1, messages.paymentName.required),
+    amount: z
+      .number({ error: messages.paymentAmount.required })
+      .positive(messages.paymentAmount.required),
+    due_on: z.string().optional(),
+    reference_note: z.string().optional(),
+  });
+
+  const PhaseSchema = z.object({
+    title: z.string().trim().min(1, messages.phaseTitle.required),
+    description: z.string().optional(),
+    payment_plans: z
+      .array(PaymentPlanSchema)
+      .min(1, messages.paymentPlans.required),
+  });
+
+  const CompleteOfferSchema = z
+    .object({
+      price_breakdown: z
+        .array(
+          z.object({
+            label: z.string().trim().min(1, messages.breakdownLabel.required),
+            amount: z
+              .number({ error: messages.breakdownAmount.required })
+              .positive(messages.breakdownAmount.required),
+          })
+        )
+        .min(1, messages.breakdown.required),
+      offer_validity_value: z
+        .number({ error: messages.validity.required })
+        .int()
+        .min(1, messages.validity.required)
+        .max(OFFER_LIMITS.validityMax, messages.validity.max),
+      offer_validity_unit: z.enum(["days", "weeks", "months"]),
+      execution_duration_value: z
+        .number({ error: messages.executionDuration.required })
+        .int()
+        .min(1, messages.executionDuration.required),
+      execution_duration_unit: z.enum(["days", "weeks", "months"]),
+      expected_start_date: z
+        .string()
+        .min(1, messages.startDate.required)
+        .refine((value) => value >= todayISO(), messages.startDate.past),
+      expected_end_date: z.string().min(1, messages.endDate.required),
+      details: z
+        .string()
+        .trim()
+        .min(1, messages.details.required)
+        .min(OFFER_LIMITS.detailsMinLength, messages.details.minLength)
+        .max(OFFER_LIMITS.detailsMaxLength, messages.details.maxLength),
+      has_warranty: z.boolean(),
+      quality_certificate: z
+        .string()
+        .max(
+          OFFER_LIMITS.qualityCertificateMaxLength,
+          messages.qualityCertificate.maxLength
+        )
+        .optional(),
+      files: z
+        .array(z.instanceof(File))
+        .max(OFFER_LIMITS.maxFiles, messages.files.max),
+      phases: z.array(PhaseSchema).min(1, messages.phases.required),
+    })
+    .superRefine((data, ctx) => {
+      if (
+        data.expected_start_date &&
+        data.expected_end_date &&
+        data.expected_end_date <= data.expected_start_date
+      ) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["expected_end_date"],
+          message: messages.endDate.beforeStart,
+        });
+      }
+
+      const totals = getPaymentPlanTotals(
+        sumBreakdown(data.price_breakdown),
+        data.phases
+      );
+      if (!totals.isBalanced) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["phases"],
+          message: messages.paymentPlans.unbalanced,
+        });
+      }
+    });
+
+  return {
+    PaymentPlanSchema,
+    PhaseSchema,
+    CompleteOfferSchema,
+  };
+};
+
+export type CompleteOfferFormValues = z.infer<
+  ReturnType<typeof createOfferValidationSchemas>["CompleteOfferSchema"]
+>;
@@ -0,0 +1,54 @@
+"use client";
+export const getOfferValidationMessages = (t: (key: string) => string) => ({
+  breakdownLabel: {
+    required: t("feedback.validation.offer.breakdownLabel.required"),
+  },
+  breakdownAmount: {
+    required: t("feedback.validation.offer.breakdownAmount.required"),
+  },
+  breakdown: {
+    required: t("feedback.validation.offer.breakdown.required"),
+  },
+  validity: {
+    required: t("feedback.validation.offer.validity.required"),
+    max: t("feedback.validation.offer.validity.max"),
+  },
+  executionDuration: {
+    required: t("feedback.validation.offer.executionDuration.required"),
+  },
+  startDate: {
+    required: t("feedback.validation.offer.startDate.required"),
+    past: t("feedback.validation.offer.startDate.past"),
+  },
+  endDate: {
+    required: t("feedback.validation.offer.endDate.required"),
+    beforeStart: t("feedback.validation.offer.endDate.beforeStart"),
+  },
+  details: {
+    required: t("feedback.validation.offer.details.required"),
+    minLength: t("feedback.validation.offer.details.minLength"),
+    maxLength: t("feedback.validation.offer.details.maxLength"),
+  },
+  qualityCertificate: {
+    maxLength: t("feedback.validation.offer.qualityCertificate.maxLength"),
+  },
+  files: {
+    max: t("feedback.validation.offer.files.max"),
+  },
+  phaseTitle: {
+    required: t("feedback.validation.offer.phaseTitle.required"),
+  },
+  phases: {
+    required: t("feedback.validation.offer.phases.required"),
+  },
+  paymentName: {
+    required: t("feedback.validation.offer.paymentName.required"),
+  },
+  paymentAmount: {
+    required: t("feedback.validation.offer.paymentAmount.required"),
+  },
+  paymentPlans: {
+    required: t("feedback.validation.offer.paymentPlans.required"),
+    unbalanced: t("feedback.validation.offer.paymentPlans.unbalanced"),
+  },
+});
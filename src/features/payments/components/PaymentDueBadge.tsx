@@ -0,0 +1,35 @@
+"use client";
+import React from "react";
+import { useTranslations } from "next-intl";
+import { Badge } from "@/shared/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { PaymentDueStatus } from "../types";
+
+const DUE_STATUS_COLORS: Record<PaymentDueStatus, string> = {
+  paid: "bg-green-100 text-green-800",
+  overdue: "bg-red-100 text-red-800",
+  due_soon: "bg-orange-100 text-orange-800",
+  upcoming: "bg-gray-100 text-gray-800",
+};
+
+export function PaymentDueBadge({
+  status,
+  className,
+}: {
+  status: PaymentDueStatus;
+  className?: string;
+}) {
+  const t = useTranslations("payments.dueStatuses");
+
+  return (
+    <Badge
+      variant="secondary"
+      className={cn(
+        DUE_STATUS_COLORS[status] ?? DUE_STATUS_COLORS.upcoming,
+        className
+      )}
+    >
+      {t(status)}
+    </Badge>
+  );
+}
@@ -0,0 +1,244 @@
+"use client";
+import React, { useEffect, useMemo } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useTranslations } from "next-intl";
+import { Button } from "@/shared/components/ui/button";
+import { Input } from "@/shared/components/ui/input";
+import { Textarea } from "@/shared/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/shared/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/shared/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/shared/components/ui/select";
+import { ProjectPhase } from "@/features/phases/types";
+import { PAYMENT_PLAN_LIMITS } from "../constants";
+import { PaymentPlan } from "../types";
+import {
+  PaymentPlanFormValues,
+  createPaymentPlanValidationSchemas,
+} from "../utils/validation";
+import { toPaymentPlanFormValues } from "../utils/paymentPlans";
+
+interface PaymentPlanFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  plan?: PaymentPlan;
+  phases: ProjectPhase[];
+  isSaving: boolean;
+  onSubmit: (values: PaymentPlanFormValues) => Promise<boolean>;
+}
+
+export function PaymentPlanFormDialog({
+  open,
+  onOpenChange,
+  plan,
+  phases,
+  isSaving,
+  onSubmit,
+}: PaymentPlanFormDialogProps) {
+  const t = useTranslations();
+  const { PaymentPlanSchema } = useMemo(
+    () => createPaymentPlanValidationSchemas(t),
+    [t]
+  );
+
+  const form = useForm<PaymentPlanFormValues>({
+    resolver: zodResolver(PaymentPlanSchema),
+    mode: "onTouched",
+    defaultValues: toPaymentPlanFormValues(plan),
+  });
+
+  // Load the selected installment every time the dialog opens
+  useEffect(() => {
+    if (open) {
+      form.reset(toPaymentPlanFormValues(plan));
+    }
+  }, [open, plan, form]);
+
+  const handleSubmit = async (values: PaymentPlanFormValues) => {
+    const saved = await onSubmit(values);
+    if (saved) {
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>
+            {plan
+              ? t("payments.form.editTitle")
+              : t("payments.form.addTitle")}
+          </DialogTitle>
+          <DialogDescription>
+            {t("payments.form.description")}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit(handleSubmit)}
+            className="space-y-4"
+          >
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t("payments.form.name")}</FormLabel>
+                  <FormControl>
+                    <Input
+                      {...field}
+                      maxLength={PAYMENT_PLAN_LIMITS.nameMax}
+                      disabled={isSaving}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="project_phase_id"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t("payments.form.phase")}</FormLabel>
+                  <Select
+                    value={field.value}
+                    onValueChange={field.onChange}
+                    // Installments are created under a phase and can't move
+                    disabled={isSaving || !!plan}
+                  >
+                    <FormControl>
+                      <SelectTrigger className="w-full">
+                        <SelectValue
+                          placeholder={t("payments.form.phasePlaceholder")}
+                        />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {phases.map((phase) => (
+                        <SelectItem key={phase.id} value={String(phase.id)}>
+                          {phase.title}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="amount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t("payments.form.amount")}</FormLabel>
+                    <FormControl>
+                      <Input
+                        {...field}
+                        type="number"
+                        min={0}
+                        step="0.01"
+                        disabled={isSaving}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="percentage_of_contract"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t("payments.form.percentage")}</FormLabel>
+                    <FormControl>
+                      <Input
+                        {...field}
+                        type="number"
+                        min={0}
+                        max={100}
+                        step="0.01"
+                        disabled={isSaving}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="due_on"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t("payments.form.dueOn")}</FormLabel>
+                  <FormControl>
+                    <Input {...field} type="date" disabled={isSaving} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="reference_note"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t("payments.form.referenceNote")}</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      {...field}
+                      rows={3}
+                      maxLength={PAYMENT_PLAN_LIMITS.referenceNoteMax}
+                      disabled={isSaving}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                disabled={isSaving}
+              >
+                {t("payments.form.cancel")}
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving
+                  ? t("payments.form.saving")
+                  : t("payments.form.save")}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,446 @@
+"use client";
+import React, { useState } from "react";
+import { usePathname } from "next/navigation";
+import { useTranslations } from "next-intl";
+import {
+  ArrowDown,
+  ArrowUp,
+  CalendarClock,
+  CreditCard,
+  Hourglass,
+  Lock,
+  LockOpen,
+  Pencil,
+  Plus,
+  Trash2,
+  Undo2,
+} from "lucide-react";
+import toast from "react-hot-toast";
+import { Button } from "@/shared/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from "@/shared/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/shared/components/ui/alert-dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { formatPrice } from "@/lib/helpers";
+import { useLocale } from "@/hooks/useLocale";
+import { ProjectPhase } from "@/features/phases/types";
+import { isPhaseClosed } from "@/features/phases/utils/phases";
+import { CheckoutRequest, PaymentPlan } from "../types";
+import { PaymentPlanFormValues } from "../utils/validation";
+import { getDueStatus, isPlanPaid, toAmount } from "../utils/paymentPlans";
+import { CheckoutDialog } from "./checkout/CheckoutDialog";
+import { RefundDialog } from "./refunds/RefundDialog";
+import { PaymentDueBadge } from "./PaymentDueBadge";
+import { PaymentPlanFormDialog } from "./PaymentPlanFormDialog";
+
+type ActionResult = { success: boolean; message?: string };
+
+interface PaymentPlanScheduleProps {
+  plans: PaymentPlan[];
+  phases: ProjectPhase[];
+  canManage: boolean;
+  isSaving: boolean;
+  onAdd: (values: PaymentPlanFormValues) => Promise<ActionResult>;
+  onUpdate: (
+    planId: number,
+    values: PaymentPlanFormValues
+  ) => Promise<ActionResult>;
+  onRemove: (planId: number) => Promise<ActionResult>;
+  onMove: (planId: number, direction: -1 | 1) => Promise<ActionResult>;
+  onLock: (planId: number) => Promise<ActionResult>;
+}
+
+export function PaymentPlanSchedule({
+  plans,
+  phases,
+  canManage,
+  isSaving,
+  onAdd,
+  onUpdate,
+  onRemove,
+  onMove,
+  onLock,
+}: PaymentPlanScheduleProps) {
+  const t = useTranslations("payments.schedule");
+  const { currentLocale } = useLocale();
+  const isRTL = currentLocale === "ar";
+  const [editingPlan, setEditingPlan] = useState<PaymentPlan>();
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [removingPlan, setRemovingPlan] = useState<PaymentPlan>();
+  const [lockingPlan, setLockingPlan] = useState<PaymentPlan>();
+  const [checkout, setCheckout] = useState<CheckoutRequest>();
+  const [refundingPlan, setRefundingPlan] = useState<PaymentPlan>();
+  const pathname = usePathname();
+
+  // Owners pay installments once they are agreed and locked
+  const canPay = (plan: PaymentPlan) =>
+    !canManage &&
+    Boolean(plan.is_locked) &&
+    plan.status !== "cancelled" &&
+    !isPlanPaid(plan);
+
+  // An installment tied to a phase unlocks once the phase is closed. A
+  // phase that hasn't loaded yet can't be shown closed, so it stays locked.
+  const isAwaitingPhaseClosure = (plan: PaymentPlan) => {
+    if (!plan.project_phase_id) return false;
+
+    const phase = phases.find((item) => item.id === plan.project_phase_id);
+    return !phase || !isPhaseClosed(phase);
+  };
+
+  const openCheckout = (plan: PaymentPlan) => {
+    setCheckout({
+      amount: toAmount(plan.amount),
+      description: plan.name,
+      orderId: `payment-plan-${plan.id}-${Date.now()}`,
+      payableId: plan.id,
+      payableType: "payment_plan",
+      returnPath: pathname,
+    });
+  };
+
+  const formatDate = (value?: string | null) =>
+    value ? new Date(value).toLocaleDateString(currentLocale) : "-";
+
+  const getPhaseTitle = (plan: PaymentPlan) =>
+    plan.phase?.title ??
+    phases.find((phase) => phase.id === plan.project_phase_id)?.title ??
+    "-";
+
+  const openForm = (plan?: PaymentPlan) => {
+    setEditingPlan(plan);
+    setIsFormOpen(true);
+  };
+
+  const handleSubmit = async (values: PaymentPlanFormValues) => {
+    const result = editingPlan
+      ? await onUpdate(editingPlan.id, values)
+      : await onAdd(values);
+
+    if (result.success) {
+      toast.success(result.message || t("saveSuccess"));
+    } else {
+      toast.error(result.message || t("saveError"));
+    }
+    return result.success;
+  };
+
+  const handleMove = async (planId: number, direction: -1 | 1) => {
+    const result = await onMove(planId, direction);
+    if (!result.success && result.message) {
+      toast.error(result.message);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!removingPlan) return;
+
+    const result = await onRemove(removingPlan.id);
+    if (result.success) {
+      toast.success(result.message || t("removeSuccess"));
+      setRemovingPlan(undefined);
+    } else {
+      toast.error(result.message || t("removeError"));
+    }
+  };
+
+  const handleLock = async () => {
+    if (!lockingPlan) return;
+
+    const result = await onLock(lockingPlan.id);
+    if (result.success) {
+      toast.success(result.message || t("lockSuccess"));
+      setLockingPlan(undefined);
+    } else {
+      toast.error(result.message || t("lockError"));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between gap-2">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <CalendarClock className="h-5 w-5 text-design-main" />
+          {t("title")}
+        </CardTitle>
+        {canManage && (
+          <Button
+            size="sm"
+            onClick={() => openForm()}
+            disabled={isSaving || phases.length === 0}
+          >
+            <Plus className="h-4 w-4" />
+            {t("add")}
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {plans.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {canManage && phases.length === 0
+              ? t("noPhases")
+              : canManage
+              ? t("emptyContractor")
+              : t("emptyOwner")}
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10">#</TableHead>
+                  <TableHead>{t("columns.name")}</TableHead>
+                  <TableHead>{t("columns.phase")}</TableHead>
+                  <TableHead>{t("columns.dueOn")}</TableHead>
+                  <TableHead>{t("columns.amount")}</TableHead>
+                  <TableHead>{t("columns.status")}</TableHead>
+                  <TableHead className="text-end">
+                    {t("columns.actions")}
+                  </TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {plans.map((plan, index) => {
+                  const isLocked = Boolean(plan.is_locked);
+
+                  return (
+                    <TableRow key={plan.id}>
+                      <TableCell className="text-muted-foreground">
+                        {index + 1}
+                      </TableCell>
+                      <TableCell>
+                        <p className="font-medium">{plan.name}</p>
+                        {plan.reference_note && (
+                          <p className="text-xs text-muted-foreground">
+                            {plan.reference_note}
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell>{getPhaseTitle(plan)}</TableCell>
+                      <TableCell>{formatDate(plan.due_on)}</TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {formatPrice(toAmount(plan.amount), isRTL)}
+                        {toAmount(plan.percentage_of_contract) > 0 && (
+                          <span className="ms-1 text-xs text-muted-foreground">
+                            ({toAmount(plan.percentage_of_contract)}%)
+                          </span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <PaymentDueBadge status={getDueStatus(plan)} />
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center justify-end gap-1">
+                          {plan.provider_payment_id && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setRefundingPlan(plan)}
+                            >
+                              <Undo2 className="h-4 w-4" />
+                              {t("refunds")}
+                            </Button>
+                          )}
+                          {isLocked ? (
+                            <>
+                              <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                                <Lock className="h-3 w-3" />
+                                {t("locked")}
+                              </span>
+                              {canPay(plan) &&
+                                (isAwaitingPhaseClosure(plan) ? (
+                                  <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                                    <Hourglass className="h-3 w-3" />
+                                    {t("awaitingPhaseClosure")}
+                                  </span>
+                                ) : (
+                                  <Button
+                                    size="sm"
+                                    onClick={() => openCheckout(plan)}
+                                  >
+                                    <CreditCard className="h-4 w-4" />
+                                    {t("pay")}
+                                  </Button>
+                                ))}
+                            </>
+                          ) : (
+                            <>
+                              {canManage && (
+                                <>
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    className="h-8 w-8"
+                                    onClick={() => handleMove(plan.id, -1)}
+                                    disabled={isSaving || index === 0}
+                                    aria-label={t("moveUp")}
+                                  >
+                                    <ArrowUp className="h-4 w-4" />
+                                  </Button>
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    className="h-8 w-8"
+                                    onClick={() => handleMove(plan.id, 1)}
+                                    disabled={
+                                      isSaving || index === plans.length - 1
+                                    }
+                                    aria-label={t("moveDown")}
+                                  >
+                                    <ArrowDown className="h-4 w-4" />
+                                  </Button>
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    className="h-8 w-8"
+                                    onClick={() => openForm(plan)}
+                                    disabled={isSaving}
+                                    aria-label={t("edit")}
+                                  >
+                                    <Pencil className="h-4 w-4" />
+                                  </Button>
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    className="h-8 w-8 text-destructive"
+                                    onClick={() => setRemovingPlan(plan)}
+                                    disabled={isSaving}
+                                    aria-label={t("remove")}
+                                  >
+                                    <Trash2 className="h-4 w-4" />
+                                  </Button>
+                                </>
+                              )}
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setLockingPlan(plan)}
+                                disabled={isSaving}
+                              >
+                                <LockOpen className="h-4 w-4" />
+                                {t("lock")}
+                              </Button>
+                            </>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      {canManage && (
+        <>
+          <PaymentPlanFormDialog
+            open={isFormOpen}
+            onOpenChange={setIsFormOpen}
+            plan={editingPlan}
+            phases={phases}
+            isSaving={isSaving}
+            onSubmit={handleSubmit}
+          />
+
+          <AlertDialog
+            open={removingPlan !== undefined}
+            onOpenChange={(open) => !open && setRemovingPlan(undefined)}
+          >
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>{t("removeTitle")}</AlertDialogTitle>
+                <AlertDialogDescription>
+                  {t("removeDescription")}
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel disabled={isSaving}>
+                  {t("cancel")}
+                </AlertDialogCancel>
+                <AlertDialogAction
+                  onClick={(e) => {
+                    e.preventDefault();
+                    handleRemove();
+                  }}
+                  disabled={isSaving}
+                >
+                  {isSaving ? t("saving") : t("remove")}
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </>
+      )}
+
+      {checkout && (
+        <CheckoutDialog
+          open
+          onOpenChange={(open) => !open && setCheckout(undefined)}
+          title={t("payTitle", { name: checkout.description })}
+          checkout={checkout}
+        />
+      )}
+
+      {refundingPlan?.provider_payment_id && (
+        <RefundDialog
+          open
+          onOpenChange={(open) => !open && setRefundingPlan(undefined)}
+          paymentId={refundingPlan.provider_payment_id}
+          title={t("refundsTitle", { name: refundingPlan.name })}
+          // Refunds go back to the owner, contractors only follow them
+          canIssue={!canManage}
+        />
+      )}
+
+      <AlertDialog
+        open={lockingPlan !== undefined}
+        onOpenChange={(open) => !open && setLockingPlan(undefined)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t("lockTitle")}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t("lockDescription", { name: lockingPlan?.name ?? "" })}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isSaving}>
+              {t("cancel")}
+            </AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleLock();
+              }}
+              disabled={isSaving}
+            >
+              {isSaving ? t("saving") : t("lock")}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
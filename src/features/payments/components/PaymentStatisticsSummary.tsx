@@ -0,0 +1,69 @@
+"use client";
+import React from "react";
+import { useTranslations } from "next-intl";
+import { AlertTriangle, CheckCircle2, Clock, Wallet } from "lucide-react";
+import { Card, CardContent } from "@/shared/components/ui/card";
+import { formatPrice } from "@/lib/helpers";
+import { useLocale } from "@/hooks/useLocale";
+import { PaymentPlanStatistics } from "../types";
+import { toAmount } from "../utils/paymentPlans";
+
+export function PaymentStatisticsSummary({
+  statistics,
+}: {
+  statistics: PaymentPlanStatistics;
+}) {
+  const t = useTranslations("payments.statistics");
+  const { currentLocale } = useLocale();
+  const isRTL = currentLocale === "ar";
+
+  const total = toAmount(statistics.total_amount);
+  const paid = toAmount(statistics.paid_amount);
+  const paidShare = total > 0 ? Math.round((paid / total) * 100) : 0;
+
+  const items = [
+    { key: "total", value: formatPrice(total, isRTL), icon: Wallet },
+    { key: "paid", value: formatPrice(paid, isRTL), icon: CheckCircle2 },
+    {
+      key: "unpaid",
+      value: formatPrice(toAmount(statistics.unpaid_amount), isRTL),
+      icon: Clock,
+    },
+    { key: "overdue", value: statistics.overdue_count, icon: AlertTriangle },
+  ];
+
+  return (
+    <Card>
+      <CardContent className="space-y-4 pt-6">
+        <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+          {items.map(({ key, value, icon: Icon }) => (
+            <div key={key} className="flex items-center gap-3">
+              <Icon className="h-5 w-5 text-design-main" />
+              <div>
+                <p className="text-lg font-semibold">{value}</p>
+                <p className="text-sm text-muted-foreground">{t(key)}</p>
+              </div>
+            </div>
+          ))}
+        </div>
+        <div className="space-y-1">
+          <div className="flex justify-between text-sm">
+            <span className="text-muted-foreground">
+              {t("paidInstallments", {
+                paid: statistics.paid_count,
+                total: statistics.plans_count,
+              })}
+            </span>
+            <span className="font-medium">{paidShare}%</span>
+          </div>
+          <div className="h-2 w-full overflow-hidden rounded-full bg-muted">
+            <div
+              className="h-full rounded-full bg-design-main transition-all"
+              style={{ width: `${paidShare}%` }}
+            />
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,87 @@
+"use client";
+import React, { useState } from "react";
+import { useTranslations } from "next-intl";
+import { Wallet } from "lucide-react";
+import { ErrorState } from "@/shared/components/ui/ErrorState";
+import { Card, CardContent } from "@/shared/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/shared/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { usePaymentProjects } from "../hooks/usePaymentProjects";
+import { PaymentParty } from "../types";
+import { ProjectPaymentPlans } from "./ProjectPaymentPlans";
+
+export function PaymentsOverview({ party }: { party: PaymentParty }) {
+  const t = useTranslations("payments");
+  const { projects, isLoading, error, refetch } = usePaymentProjects(party);
+  const [selectedProjectId, setSelectedProjectId] = useState<string>();
+
+  // Default to the most recent project until the user picks another one
+  const projectId =
+    selectedProjectId ?? (projects[0] ? String(projects[0].id) : undefined);
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-10 w-64" />
+        <Skeleton className="h-28 w-full" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <ErrorState
+        variant="inline"
+        title={t("projectsLoadError")}
+        error={error}
+        onRetry={refetch}
+      />
+    );
+  }
+
+  if (!projectId) {
+    return (
+      <Card>
+        <CardContent className="flex flex-col items-center gap-2 py-10 text-center">
+          <Wallet className="h-10 w-10 text-muted-foreground" />
+          <p className="font-medium">{t("empty.title")}</p>
+          <p className="text-sm text-muted-foreground">
+            {t("empty.description")}
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-sm font-medium">{t("projectLabel")}</span>
+        <Select value={projectId} onValueChange={setSelectedProjectId}>
+          <SelectTrigger className="w-full sm:w-72">
+            <SelectValue placeholder={t("projectPlaceholder")} />
+          </SelectTrigger>
+          <SelectContent>
+            {projects.map((project) => (
+              <SelectItem key={project.id} value={String(project.id)}>
+                {project.title}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <ProjectPaymentPlans
+        key={projectId}
+        party={party}
+        projectId={projectId}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+"use client";
+import React from "react";
+import { useTranslations } from "next-intl";
+import { ErrorState } from "@/shared/components/ui/ErrorState";
+import { Skeleton } from "@/components/ui/skeleton";
+import { usePaymentPlans } from "../hooks/usePaymentPlans";
+import { PaymentParty } from "../types";
+import { PaymentPlanSchedule } from "./PaymentPlanSchedule";
+import { PaymentStatisticsSummary } from "./PaymentStatisticsSummary";
+import { PayoutPanel } from "./payouts/PayoutPanel";
+
+interface ProjectPaymentPlansProps {
+  party: PaymentParty;
+  projectId: string;
+}
+
+export function ProjectPaymentPlans({
+  party,
+  projectId,
+}: ProjectPaymentPlansProps) {
+  const t = useTranslations("payments");
+  const {
+    plans,
+    phases,
+    statistics,
+    canManage,
+    isLoading,
+    isSaving,
+    error,
+    refetch,
+    addPlan,
+    updatePlan,
+    removePlan,
+    movePlan,
+    lockPlan,
+  } = usePaymentPlans(party, projectId);
+
+  if (plans.length === 0 && isLoading) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-28 w-full" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <ErrorState
+        variant="inline"
+        title={t("loadError")}
+        error={error}
+        onRetry={refetch}
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <PaymentStatisticsSummary statistics={statistics} />
+      {party === "contractor" && <PayoutPanel plans={plans} phases={phases} />}
+      <PaymentPlanSchedule
+        plans={plans}
+        phases={phases}
+        canManage={canManage}
+        isSaving={isSaving}
+        onAdd={addPlan}
+        onUpdate={updatePlan}
+        onRemove={removePlan}
+        onMove={movePlan}
+        onLock={lockPlan}
+      />
+    </div>
+  );
+}
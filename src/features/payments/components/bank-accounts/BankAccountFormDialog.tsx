@@ -0,0 +1,277 @@
+"use client";
+import React, { useEffect, useMemo } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useTranslations } from "next-intl";
+import { Button } from "@/shared/components/ui/button";
+import { Input } from "@/shared/components/ui/input";
+import { Switch } from "@/shared/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/shared/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/shared/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/shared/components/ui/select";
+import { useLocale } from "@/hooks/useLocale";
+import { BankAccount, BankType } from "../../types";
+import { BANK_ACCOUNT_LIMITS } from "../../constants";
+import {
+  BankAccountFormValues,
+  createBankAccountValidationSchemas,
+} from "../../utils/validation";
+import { toBankAccountFormValues } from "../../utils/payouts";
+import { formatIban } from "../../utils/iban";
+
+interface BankAccountFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  account?: BankAccount;
+  bankTypes: BankType[];
+  isSaving: boolean;
+  onSubmit: (values: BankAccountFormValues) => Promise<boolean>;
+}
+
+export function BankAccountFormDialog({
+  open,
+  onOpenChange,
+  account,
+  bankTypes,
+  isSaving,
+  onSubmit,
+}: BankAccountFormDialogProps) {
+  const t = useTranslations();
+  const { currentLocale } = useLocale();
+  const { BankAccountSchema } = useMemo(
+    () => createBankAccountValidationSchemas(t),
+    [t]
+  );
+
+  const form = useForm<BankAccountFormValues>({
+    resolver: zodResolver(BankAccountSchema),
+    mode: "onTouched",
+    defaultValues: toBankAccountFormValues(account),
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset(toBankAccountFormValues(account));
+    }
+  }, [open, account, form]);
+
+  const handleSubmit = async (values: BankAccountFormValues) => {
+    const saved = await onSubmit(values);
+    if (saved) {
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>
+            {account
+              ? t("payments.bankAccounts.form.editTitle")
+              : t("payments.bankAccounts.form.addTitle")}
+          </DialogTitle>
+          <DialogDescription>
+            {t("payments.bankAccounts.form.description")}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit(handleSubmit)}
+            className="space-y-4"
+          >
+            <FormField
+              control={form.control}
+              name="bank_type_id"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t("payments.bankAccounts.form.bank")}</FormLabel>
+                  <Select
+                    value={field.value}
+                    onValueChange={field.onChange}
+                    disabled={isSaving}
+                  >
+                    <FormControl>
+                      <SelectTrigger className="w-full">
+                        <SelectValue
+                          placeholder={t(
+                            "payments.bankAccounts.form.bankPlaceholder"
+                          )}
+                        />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {bankTypes.map((bankType) => (
+                        <SelectItem
+                          key={bankType.id}
+                          value={String(bankType.id)}
+                        >
+                          {(currentLocale === "ar" && bankType.name_ar) ||
+                            bankType.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="full_name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>
+                    {t("payments.bankAccounts.form.fullName")}
+                  </FormLabel>
+                  <FormControl>
+                    <Input
+                      {...field}
+                      maxLength={BANK_ACCOUNT_LIMITS.fullNameMax}
+                      disabled={isSaving}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="iban"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t("payments.bankAccounts.form.iban")}</FormLabel>
+                  <FormControl>
+                    <Input
+                      {...field}
+                      dir="ltr"
+                      placeholder="SA00 0000 0000 0000 0000 0000"
+                      // Regrouped once the user leaves the field
+                      onBlur={() => {
+                        field.onChange(formatIban(field.value));
+                        field.onBlur();
+                      }}
+                      disabled={isSaving}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="account_number"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>
+                      {t("payments.bankAccounts.form.accountNumber")}
+                    </FormLabel>
+                    <FormControl>
+                      <Input
+                        {...field}
+                        dir="ltr"
+                        maxLength={BANK_ACCOUNT_LIMITS.accountNumberMax}
+                        disabled={isSaving}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="swift_bic"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>
+                      {t("payments.bankAccounts.form.swiftBic")}
+                    </FormLabel>
+                    <FormControl>
+                      <Input {...field} dir="ltr" disabled={isSaving} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="branch_name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>
+                    {t("payments.bankAccounts.form.branchName")}
+                  </FormLabel>
+                  <FormControl>
+                    <Input
+                      {...field}
+                      maxLength={BANK_ACCOUNT_LIMITS.branchNameMax}
+                      disabled={isSaving}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="is_primary"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between gap-4">
+                  <FormLabel>
+                    {t("payments.bankAccounts.form.isPrimary")}
+                  </FormLabel>
+                  <FormControl>
+                    <Switch
+                      checked={field.value}
+                      onCheckedChange={field.onChange}
+                      disabled={isSaving}
+                    />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                disabled={isSaving}
+              >
+                {t("payments.bankAccounts.form.cancel")}
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving
+                  ? t("payments.bankAccounts.form.saving")
+                  : t("payments.bankAccounts.form.save")}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
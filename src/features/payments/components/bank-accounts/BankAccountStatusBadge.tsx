@@ -0,0 +1,32 @@
+"use client";
+import React from "react";
+import { useTranslations } from "next-intl";
+import { Badge } from "@/shared/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { BankAccountStatus } from "../../types";
+
+const STATUS_COLORS: Record<BankAccountStatus, string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  verified: "bg-green-100 text-green-800",
+  rejected: "bg-red-100 text-red-800",
+  disabled: "bg-gray-100 text-gray-800",
+};
+
+export function BankAccountStatusBadge({
+  status,
+  className,
+}: {
+  status: BankAccountStatus;
+  className?: string;
+}) {
+  const t = useTranslations("payments.bankAccounts.statuses");
+
+  return (
+    <Badge
+      variant="secondary"
+      className={cn(STATUS_COLORS[status] ?? STATUS_COLORS.pending, className)}
+    >
+      {t(status)}
+    </Badge>
+  );
+}
@@ -0,0 +1,241 @@
+"use client";
+import React, { useState } from "react";
+import { useTranslations } from "next-intl";
+import { Landmark, Pencil, Plus, Star, Trash2 } from "lucide-react";
+import toast from "react-hot-toast";
+import { Button } from "@/shared/components/ui/button";
+import { Badge } from "@/shared/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/shared/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/shared/components/ui/alert-dialog";
+import { ErrorState } from "@/shared/components/ui/ErrorState";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useLocale } from "@/hooks/useLocale";
+import { useBankAccounts } from "../../hooks/useBankAccounts";
+import { BankAccount } from "../../types";
+import { BankAccountFormValues } from "../../utils/validation";
+import { formatIban } from "../../utils/iban";
+import { BankAccountFormDialog } from "./BankAccountFormDialog";
+import { BankAccountStatusBadge } from "./BankAccountStatusBadge";
+
+export function BankAccountsSection() {
+  const t = useTranslations("payments.bankAccounts");
+  const { currentLocale } = useLocale();
+  const {
+    accounts,
+    bankTypes,
+    isLoading,
+    isSaving,
+    error,
+    refetch,
+    addAccount,
+    updateAccount,
+    removeAccount,
+    makePrimary,
+  } = useBankAccounts();
+  const [editingAccount, setEditingAccount] = useState<BankAccount>();
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [removingAccount, setRemovingAccount] = useState<BankAccount>();
+
+  const getBankName = (account: BankAccount) => {
+    const bankType =
+      account.bank_type ??
+      bankTypes.find((item) => item.id === account.bank_type_id);
+    if (!bankType) return "-";
+    return (currentLocale === "ar" && bankType.name_ar) || bankType.name;
+  };
+
+  const openForm = (account?: BankAccount) => {
+    setEditingAccount(account);
+    setIsFormOpen(true);
+  };
+
+  const handleSubmit = async (values: BankAccountFormValues) => {
+    const result = editingAccount
+      ? await updateAccount(editingAccount.id, values)
+      : await addAccount(values);
+
+    if (result.success) {
+      toast.success(result.message || t("saveSuccess"));
+    } else {
+      toast.error(result.message || t("saveError"));
+    }
+    return result.success;
+  };
+
+  const handleMakePrimary = async (accountId: number) => {
+    const result = await makePrimary(accountId);
+    if (result.success) {
+      toast.success(result.message || t("primarySuccess"));
+    } else {
+      toast.error(result.message || t("primaryError"));
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!removingAccount) return;
+
+    const result = await removeAccount(removingAccount.id);
+    if (result.success) {
+      toast.success(result.message || t("removeSuccess"));
+      setRemovingAccount(undefined);
+    } else {
+      toast.error(result.message || t("removeError"));
+    }
+  };
+
+  if (isLoading && accounts.length === 0) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-24 w-full" />
+        <Skeleton className="h-24 w-full" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <ErrorState
+        variant="inline"
+        title={t("loadError")}
+        error={error}
+        onRetry={refetch}
+      />
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-2">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <Landmark className="h-5 w-5 text-design-main" />
+            {t("title")}
+          </CardTitle>
+          <CardDescription>{t("description")}</CardDescription>
+        </div>
+        <Button size="sm" onClick={() => openForm()} disabled={isSaving}>
+          <Plus className="h-4 w-4" />
+          {t("add")}
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {accounts.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t("empty")}</p>
+        ) : (
+          <ul className="space-y-3">
+            {accounts.map((account) => (
+              <li
+                key={account.id}
+                className="flex flex-col gap-3 rounded-md border p-4 sm:flex-row sm:items-center sm:justify-between"
+              >
+                <div className="space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-medium">{getBankName(account)}</span>
+                    <BankAccountStatusBadge status={account.status} />
+                    {account.is_primary && (
+                      <Badge variant="outline">{t("primary")}</Badge>
+                    )}
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {account.full_name}
+                  </p>
+                  {account.iban && (
+                    <p className="font-mono text-sm" dir="ltr">
+                      {formatIban(account.iban)}
+                    </p>
+                  )}
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                  {!account.is_primary && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleMakePrimary(account.id)}
+                      disabled={isSaving}
+                    >
+                      <Star className="h-4 w-4" />
+                      {t("makePrimary")}
+                    </Button>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    aria-label={t("edit")}
+                    onClick={() => openForm(account)}
+                    disabled={isSaving}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    aria-label={t("remove")}
+                    onClick={() => setRemovingAccount(account)}
+                    disabled={isSaving}
+                  >
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+        <p className="mt-4 text-xs text-muted-foreground">
+          {t("verificationHint")}
+        </p>
+      </CardContent>
+
+      <BankAccountFormDialog
+        open={isFormOpen}
+        onOpenChange={setIsFormOpen}
+        account={editingAccount}
+        bankTypes={bankTypes}
+        isSaving={isSaving}
+        onSubmit={handleSubmit}
+      />
+
+      <AlertDialog
+        open={Boolean(removingAccount)}
+        onOpenChange={(open) => !open && setRemovingAccount(undefined)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t("removeTitle")}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t("removeDescription")}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isSaving}>
+              {t("cancel")}
+            </AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleRemove();
+              }}
+              disabled={isSaving}
+            >
+              {t("confirmRemove")}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
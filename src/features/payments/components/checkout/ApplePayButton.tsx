@@ -0,0 +1,43 @@
+"use client";
+import React from "react";
+import { useTranslations } from "next-intl";
+import toast from "react-hot-toast";
+import { Button } from "@/shared/components/ui/button";
+import { ApplePayDetails } from "../../types";
+
+interface ApplePayButtonProps {
+  isSubmitting: boolean;
+  onRequestToken: () => Promise<string | null>;
+  onSubmit: (details: ApplePayDetails) => void;
+}
+
+export function ApplePayButton({
+  isSubmitting,
+  onRequestToken,
+  onSubmit,
+}: ApplePayButtonProps) {
+  const t = useTranslations("payments.checkout.applePay");
+
+  const handleClick = async () => {
+    const token = await onRequestToken();
+    if (token) {
+      onSubmit({ token });
+    } else {
+      toast.error(t("cancelled"));
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-muted-foreground">{t("hint")}</p>
+      <Button
+        type="button"
+        className="w-full bg-black text-white hover:bg-black/90"
+        onClick={handleClick}
+        disabled={isSubmitting}
+      >
+        {t("button")}
+      </Button>
+    </div>
+  );
+}
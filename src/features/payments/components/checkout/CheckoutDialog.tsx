@@ -0,0 +1,38 @@
+"use client";
+import React from "react";
+import { useTranslations } from "next-intl";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/shared/components/ui/dialog";
+import { MoyasarCheckout, MoyasarCheckoutProps } from "./MoyasarCheckout";
+
+interface CheckoutDialogProps extends MoyasarCheckoutProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title?: string;
+}
+
+export function CheckoutDialog({
+  open,
+  onOpenChange,
+  title,
+  ...checkoutProps
+}: CheckoutDialogProps) {
+  const t = useTranslations("payments.checkout");
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>{title || t("title")}</DialogTitle>
+          <DialogDescription>{t("description")}</DialogDescription>
+        </DialogHeader>
+        {open && <MoyasarCheckout {...checkoutProps} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,163 @@
+"use client";
+import React, { useMemo } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useTranslations } from "next-intl";
+import { Button } from "@/shared/components/ui/button";
+import { Input } from "@/shared/components/ui/input";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/shared/components/ui/form";
+import { CreditCardDetails } from "../../types";
+import {
+  CreditCardFormValues,
+  createCheckoutValidationSchemas,
+} from "../../utils/validation";
+
+interface CreditCardFormProps {
+  isSubmitting: boolean;
+  submitLabel: string;
+  onSubmit: (details: CreditCardDetails) => void;
+}
+
+export function CreditCardForm({
+  isSubmitting,
+  submitLabel,
+  onSubmit,
+}: CreditCardFormProps) {
+  const t = useTranslations();
+  const { CreditCardSchema } = useMemo(
+    () => createCheckoutValidationSchemas(t),
+    [t]
+  );
+
+  const form = useForm<CreditCardFormValues, unknown, CreditCardDetails>({
+    resolver: zodResolver(CreditCardSchema),
+    mode: "onTouched",
+    defaultValues: {
+      card_holder_name: "",
+      card_number: "",
+      month: "",
+      year: "",
+      cvc: "",
+    },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="card_holder_name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>{t("payments.checkout.card.holder")}</FormLabel>
+              <FormControl>
+                <Input
+                  {...field}
+                  autoComplete="cc-name"
+                  disabled={isSubmitting}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="card_number"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>{t("payments.checkout.card.number")}</FormLabel>
+              <FormControl>
+                <Input
+                  {...field}
+                  dir="ltr"
+                  inputMode="numeric"
+                  autoComplete="cc-number"
+                  placeholder="0000 0000 0000 0000"
+                  disabled={isSubmitting}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <div className="grid grid-cols-3 gap-3">
+          <FormField
+            control={form.control}
+            name="month"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{t("payments.checkout.card.month")}</FormLabel>
+                <FormControl>
+                  <Input
+                    {...field}
+                    dir="ltr"
+                    inputMode="numeric"
+                    autoComplete="cc-exp-month"
+                    placeholder="MM"
+                    maxLength={2}
+                    disabled={isSubmitting}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="year"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{t("payments.checkout.card.year")}</FormLabel>
+                <FormControl>
+                  <Input
+                    {...field}
+                    dir="ltr"
+                    inputMode="numeric"
+                    autoComplete="cc-exp-year"
+                    placeholder="YYYY"
+                    maxLength={4}
+                    disabled={isSubmitting}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="cvc"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{t("payments.checkout.card.cvc")}</FormLabel>
+                <FormControl>
+                  <Input
+                    {...field}
+                    dir="ltr"
+                    type="password"
+                    inputMode="numeric"
+                    autoComplete="cc-csc"
+                    maxLength={4}
+                    disabled={isSubmitting}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <Button type="submit" className="w-full" disabled={isSubmitting}>
+          {isSubmitting ? t("payments.checkout.processing") : submitLabel}
+        </Button>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,154 @@
+"use client";
+import React, { useEffect, useState } from "react";
+import { useTranslations } from "next-intl";
+import { Apple, CreditCard, Landmark, Smartphone } from "lucide-react";
+import toast from "react-hot-toast";
+import { RadioGroup, RadioGroupItem } from "@/shared/components/ui/radio-group";
+import { formatPrice } from "@/lib/helpers";
+import { cn } from "@/lib/utils";
+import { useLocale } from "@/hooks/useLocale";
+import { useMoyasarCheckout } from "../../hooks/useMoyasarCheckout";
+import {
+  CheckoutRequest,
+  CreatePaymentHandler,
+  MoyasarMethod,
+  MoyasarMethodDetails,
+} from "../../types";
+import { MOYASAR_METHODS } from "../../constants";
+import { ApplePayButton } from "./ApplePayButton";
+import { CreditCardForm } from "./CreditCardForm";
+import { SadadForm } from "./SadadForm";
+import { StcPayForm } from "./StcPayForm";
+
+const METHOD_ICONS = {
+  credit_card: CreditCard,
+  stc_pay: Smartphone,
+  apple_pay: Apple,
+  sadad: Landmark,
+} satisfies Record<MoyasarMethod, React.ElementType>;
+
+const supportsApplePay = () =>
+  typeof window !== "undefined" && "ApplePaySession" in window;
+
+export interface MoyasarCheckoutProps {
+  checkout: CheckoutRequest;
+  methods?: MoyasarMethod[];
+  // Apple Pay needs a merchant-validated session owned by the host page
+  onRequestApplePayToken?: () => Promise<string | null>;
+  createPayment?: CreatePaymentHandler;
+}
+
+/**
+ * Reusable gateway checkout, used for subscriptions and milestone payments
+ */
+export function MoyasarCheckout({
+  checkout,
+  methods = MOYASAR_METHODS,
+  onRequestApplePayToken,
+  createPayment,
+}: MoyasarCheckoutProps) {
+  const t = useTranslations("payments.checkout");
+  const { currentLocale } = useLocale();
+  const { pay, isSubmitting } = useMoyasarCheckout(
+    checkout,
+    createPayment
+  );
+  const [canUseApplePay, setCanUseApplePay] = useState(false);
+  const availableMethods = methods.filter(
+    (item) => item !== "apple_pay" || canUseApplePay
+  );
+  const [method, setMethod] = useState<MoyasarMethod>(
+    availableMethods[0] ?? "credit_card"
+  );
+
+  // Apple Pay availability is only known in the browser
+  useEffect(() => {
+    setCanUseApplePay(!!onRequestApplePayToken && supportsApplePay());
+  }, [onRequestApplePayToken]);
+
+  const handlePay = async <M extends MoyasarMethod>(
+    selected: M,
+    details: MoyasarMethodDetails[M]
+  ) => {
+    const result = await pay(selected, details);
+    if (!result.success) {
+      toast.error(result.message || t("createError"));
+    }
+  };
+
+  const submitLabel = t("payAmount", {
+    amount: formatPrice(checkout.amount, currentLocale === "ar"),
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="rounded-md border bg-muted/40 p-4">
+        <p className="text-sm text-muted-foreground">{checkout.description}</p>
+        <p className="text-2xl font-semibold">
+          {formatPrice(checkout.amount, currentLocale === "ar")}
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium">{t("methodLabel")}</p>
+        <RadioGroup
+          value={method}
+          onValueChange={(value) => setMethod(value as MoyasarMethod)}
+          className="grid grid-cols-2 gap-2 sm:grid-cols-4"
+          disabled={isSubmitting}
+        >
+          {availableMethods.map((item) => {
+            const Icon = METHOD_ICONS[item];
+            return (
+              <label
+                key={item}
+                htmlFor={`checkout-method-${item}`}
+                className={cn(
+                  "flex cursor-pointer items-center gap-2 rounded-md border p-3 text-sm",
+                  method === item && "border-design-main bg-design-main/5"
+                )}
+              >
+                <RadioGroupItem value={item} id={`checkout-method-${item}`} />
+                <Icon className="h-4 w-4" />
+                {t(`methods.${item}`)}
+              </label>
+            );
+          })}
+        </RadioGroup>
+      </div>
+
+      {method === "credit_card" && (
+        <CreditCardForm
+          isSubmitting={isSubmitting}
+          submitLabel={submitLabel}
+          onSubmit={(details) => handlePay("credit_card", details)}
+        />
+      )}
+      {method === "stc_pay" && (
+        <StcPayForm
+          isSubmitting={isSubmitting}
+          submitLabel={submitLabel}
+          onSubmit={(details) => handlePay("stc_pay", details)}
+        />
+      )}
+      {method === "sadad" && (
+        <SadadForm
+          isSubmitting={isSubmitting}
+          submitLabel={submitLabel}
+          onSubmit={(details) => handlePay("sadad", details)}
+        />
+      )}
+      {method === "apple_pay" && onRequestApplePayToken && (
+        <ApplePayButton
+          isSubmitting={isSubmitting}
+          onRequestToken={onRequestApplePayToken}
+          onSubmit={(details) => handlePay("apple_pay", details)}
+        />
+      )}
+
+      <p className="text-center text-xs text-muted-foreground">
+        {t("secureNote")}
+      </p>
+    </div>
+  );
+}
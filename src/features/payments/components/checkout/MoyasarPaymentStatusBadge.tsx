@@ -0,0 +1,39 @@
+"use client";
+import React from "react";
+import { useTranslations } from "next-intl";
+import { Badge } from "@/shared/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { MoyasarPaymentStatus } from "../../types";
+
+const PAYMENT_STATUS_COLORS: Record<MoyasarPaymentStatus, string> = {
+  initiated: "bg-gray-100 text-gray-800",
+  authorized: "bg-blue-100 text-blue-800",
+  paid: "bg-green-100 text-green-800",
+  captured: "bg-green-100 text-green-800",
+  verified: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+  voided: "bg-orange-100 text-orange-800",
+  refunded: "bg-purple-100 text-purple-800",
+};
+
+export function MoyasarPaymentStatusBadge({
+  status,
+  className,
+}: {
+  status: MoyasarPaymentStatus;
+  className?: string;
+}) {
+  const t = useTranslations("payments.checkout.statuses");
+
+  return (
+    <Badge
+      variant="secondary"
+      className={cn(
+        PAYMENT_STATUS_COLORS[status] ?? PAYMENT_STATUS_COLORS.initiated,
+        className
+      )}
+    >
+      {t(status)}
+    </Badge>
+  );
+}
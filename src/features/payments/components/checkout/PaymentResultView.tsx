@@ -0,0 +1,178 @@
+"use client";
+import React from "react";
+import Link from "next/link";
+import { useTranslations } from "next-intl";
+import {
+  CheckCircle2,
+  Loader2,
+  RefreshCw,
+  RotateCcw,
+  ShieldCheck,
+  XCircle,
+} from "lucide-react";
+import toast from "react-hot-toast";
+import { Button } from "@/shared/components/ui/button";
+import { Card, CardContent } from "@/shared/components/ui/card";
+import { ErrorState } from "@/shared/components/ui/ErrorState";
+import { formatPrice } from "@/lib/helpers";
+import { useLocale } from "@/hooks/useLocale";
+import { useMoyasarPaymentStatus } from "../../hooks/useMoyasarPaymentStatus";
+import { CheckoutOutcome } from "../../types";
+import { fromHalalas, getCheckoutOutcome } from "../../utils/moyasar";
+import { MoyasarPaymentStatusBadge } from "./MoyasarPaymentStatusBadge";
+
+const OUTCOME_ICONS: Record<CheckoutOutcome, React.ReactNode> = {
+  pending: <Loader2 className="h-12 w-12 animate-spin text-design-main" />,
+  authorized: <ShieldCheck className="h-12 w-12 text-design-main" />,
+  success: <CheckCircle2 className="h-12 w-12 text-green-600" />,
+  failed: <XCircle className="h-12 w-12 text-red-600" />,
+  reversed: <RotateCcw className="h-12 w-12 text-orange-500" />,
+};
+
+interface PaymentResultViewProps {
+  paymentId: string;
+  returnPath?: string;
+  // Message Moyasar appended to the callback, shown until polling answers
+  gatewayMessage?: string | null;
+}
+
+export function PaymentResultView({
+  paymentId,
+  returnPath,
+  gatewayMessage,
+}: PaymentResultViewProps) {
+  const t = useTranslations("payments.result");
+  const { currentLocale } = useLocale();
+  const isRTL = currentLocale === "ar";
+  const {
+    payment,
+    isPolling,
+    hasTimedOut,
+    isSaving,
+    error,
+    refresh,
+    capture,
+    voidPayment,
+  } = useMoyasarPaymentStatus(paymentId);
+
+  if (error && !payment) {
+    return (
+      <ErrorState
+        variant="inline"
+        title={t("loadError")}
+        error={error}
+        onRetry={refresh}
+      />
+    );
+  }
+
+  const outcome = payment ? getCheckoutOutcome(payment.status) : "pending";
+  const message = payment?.source?.message || gatewayMessage;
+
+  const handleAction = async (action: typeof capture, successKey: string) => {
+    const result = await action();
+    if (result.success) {
+      toast.success(result.message || t(successKey));
+    } else {
+      toast.error(result.message || t("actionError"));
+    }
+  };
+
+  const details = payment
+    ? [
+        {
+          key: "amount",
+          value: formatPrice(fromHalalas(payment.amount), isRTL),
+        },
+        !!payment.captured && {
+          key: "captured",
+          value: formatPrice(fromHalalas(payment.captured), isRTL),
+        },
+        !!payment.refunded && {
+          key: "refunded",
+          value: formatPrice(fromHalalas(payment.refunded), isRTL),
+        },
+        payment.voided_at && {
+          key: "voidedAt",
+          value: new Date(payment.voided_at).toLocaleString(currentLocale),
+        },
+      ].filter((item): item is { key: string; value: string } => !!item)
+    : [];
+
+  return (
+    <Card className="mx-auto max-w-lg">
+      <CardContent className="flex flex-col items-center gap-4 py-10 text-center">
+        {OUTCOME_ICONS[outcome]}
+        <div className="space-y-1">
+          <h2 className="text-xl font-semibold">
+            {t(`outcomes.${outcome}.title`)}
+          </h2>
+          <p className="text-sm text-muted-foreground">
+            {outcome === "pending" && hasTimedOut
+              ? t("timedOut")
+              : t(`outcomes.${outcome}.description`)}
+          </p>
+          {message && outcome !== "success" && (
+            <p className="text-sm text-muted-foreground">{message}</p>
+          )}
+        </div>
+
+        {payment && (
+          <div className="w-full space-y-2 rounded-md border p-4 text-sm">
+            <div className="flex items-center justify-between">
+              <span className="text-muted-foreground">{t("status")}</span>
+              <MoyasarPaymentStatusBadge status={payment.status} />
+            </div>
+            {details.map((item) => (
+              <div key={item.key} className="flex justify-between">
+                <span className="text-muted-foreground">{t(item.key)}</span>
+                <span className="font-medium">{item.value}</span>
+              </div>
+            ))}
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">{t("reference")}</span>
+              <span className="font-mono text-xs" dir="ltr">
+                {payment.id}
+              </span>
+            </div>
+          </div>
+        )}
+
+        {payment?.status === "authorized" && (
+          <div className="w-full space-y-2">
+            <p className="text-sm text-muted-foreground">
+              {t("authorizedHint")}
+            </p>
+            <div className="flex justify-center gap-2">
+              <Button
+                onClick={() => handleAction(capture, "captureSuccess")}
+                disabled={isSaving}
+              >
+                {t("capture")}
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => handleAction(voidPayment, "voidSuccess")}
+                disabled={isSaving}
+              >
+                {t("void")}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <div className="flex flex-wrap justify-center gap-2">
+          {hasTimedOut && !isPolling && (
+            <Button variant="outline" onClick={refresh}>
+              <RefreshCw className="h-4 w-4" />
+              {t("checkAgain")}
+            </Button>
+          )}
+          <Button variant={outcome === "pending" ? "ghost" : "default"} asChild>
+            <Link href={returnPath || "/dashboard"}>{t("continue")}</Link>
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,76 @@
+"use client";
+import React, { useMemo } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useTranslations } from "next-intl";
+import { Button } from "@/shared/components/ui/button";
+import { Input } from "@/shared/components/ui/input";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/shared/components/ui/form";
+import { SadadDetails } from "../../types";
+import {
+  SadadFormValues,
+  createCheckoutValidationSchemas,
+} from "../../utils/validation";
+
+interface SadadFormProps {
+  isSubmitting: boolean;
+  submitLabel: string;
+  onSubmit: (details: SadadDetails) => void;
+}
+
+export function SadadForm({
+  isSubmitting,
+  submitLabel,
+  onSubmit,
+}: SadadFormProps) {
+  const t = useTranslations();
+  const { SadadSchema } = useMemo(
+    () => createCheckoutValidationSchemas(t),
+    [t]
+  );
+
+  const form = useForm<SadadFormValues>({
+    resolver: zodResolver(SadadSchema),
+    mode: "onTouched",
+    defaultValues: { username: "" },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="username"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>{t("payments.checkout.sadad.username")}</FormLabel>
+              <FormControl>
+                <Input
+                  {...field}
+                  dir="ltr"
+                  autoComplete="username"
+                  disabled={isSubmitting}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <p className="text-xs text-muted-foreground">
+          {t("payments.checkout.sadad.hint")}
+        </p>
+
+        <Button type="submit" className="w-full" disabled={isSubmitting}>
+          {isSubmitting ? t("payments.checkout.processing") : submitLabel}
+        </Button>
+      </form>
+    </Form>
+  );
+}
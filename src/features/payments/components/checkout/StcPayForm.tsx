@@ -0,0 +1,83 @@
+"use client";
+import React, { useMemo } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useTranslations } from "next-intl";
+import { Button } from "@/shared/components/ui/button";
+import { Input } from "@/shared/components/ui/input";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/shared/components/ui/form";
+import { StcPayDetails } from "../../types";
+import {
+  StcPayFormValues,
+  createCheckoutValidationSchemas,
+} from "../../utils/validation";
+import { toInternationalMobile } from "../../utils/moyasar";
+
+interface StcPayFormProps {
+  isSubmitting: boolean;
+  submitLabel: string;
+  onSubmit: (details: StcPayDetails) => void;
+}
+
+export function StcPayForm({
+  isSubmitting,
+  submitLabel,
+  onSubmit,
+}: StcPayFormProps) {
+  const t = useTranslations();
+  const { StcPaySchema } = useMemo(
+    () => createCheckoutValidationSchemas(t),
+    [t]
+  );
+
+  const form = useForm<StcPayFormValues>({
+    resolver: zodResolver(StcPaySchema),
+    mode: "onTouched",
+    defaultValues: { mobile: "" },
+  });
+
+  const handleSubmit = (values: StcPayFormValues) => {
+    onSubmit({ mobile: toInternationalMobile(values.mobile) });
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="mobile"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>{t("payments.checkout.stcPay.mobile")}</FormLabel>
+              <FormControl>
+                <Input
+                  {...field}
+                  dir="ltr"
+                  type="tel"
+                  autoComplete="tel"
+                  placeholder="05XXXXXXXX"
+                  disabled={isSubmitting}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <p className="text-xs text-muted-foreground">
+          {t("payments.checkout.stcPay.hint")}
+        </p>
+
+        <Button type="submit" className="w-full" disabled={isSubmitting}>
+          {isSubmitting ? t("payments.checkout.processing") : submitLabel}
+        </Button>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,20 @@
+// Export all payment components for easy importing
+export { PaymentsOverview } from "./PaymentsOverview";
+export { ProjectPaymentPlans } from "./ProjectPaymentPlans";
+export { PaymentPlanSchedule } from "./PaymentPlanSchedule";
+export { PaymentStatisticsSummary } from "./PaymentStatisticsSummary";
+export { PaymentPlanFormDialog } from "./PaymentPlanFormDialog";
+export { PaymentDueBadge } from "./PaymentDueBadge";
+export { MoyasarCheckout } from "./checkout/MoyasarCheckout";
+export { CheckoutDialog } from "./checkout/CheckoutDialog";
+export { PaymentResultView } from "./checkout/PaymentResultView";
+export { MoyasarPaymentStatusBadge } from "./checkout/MoyasarPaymentStatusBadge";
+export { RefundPanel } from "./refunds/RefundPanel";
+export { RefundDialog } from "./refunds/RefundDialog";
+export { RefundHistory } from "./refunds/RefundHistory";
+export { RefundStatusBadge } from "./refunds/RefundStatusBadge";
+export { BankAccountsSection } from "./bank-accounts/BankAccountsSection";
+export { BankAccountFormDialog } from "./bank-accounts/BankAccountFormDialog";
+export { BankAccountStatusBadge } from "./bank-accounts/BankAccountStatusBadge";
+export { PayoutPanel } from "./payouts/PayoutPanel";
+export { PayoutRequestDialog } from "./payouts/PayoutRequestDialog";
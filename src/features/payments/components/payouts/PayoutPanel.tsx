@@ -0,0 +1,125 @@
+"use client";
+import React, { useState } from "react";
+import Link from "next/link";
+import { useTranslations } from "next-intl";
+import { Banknote, Wallet } from "lucide-react";
+import toast from "react-hot-toast";
+import { Button } from "@/shared/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from "@/shared/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { formatPrice } from "@/lib/helpers";
+import { useLocale } from "@/hooks/useLocale";
+import { ProjectPhase } from "@/features/phases/types";
+import { usePayoutRequests } from "../../hooks/usePayoutRequests";
+import { PaymentPlan } from "../../types";
+import { BANK_ACCOUNTS_SETTINGS_PATH } from "../../constants";
+import { PayoutFormValues } from "../../utils/validation";
+import { PayoutRequestDialog } from "./PayoutRequestDialog";
+
+interface PayoutPanelProps {
+  plans: PaymentPlan[];
+  phases: ProjectPhase[];
+}
+
+export function PayoutPanel({ plans, phases }: PayoutPanelProps) {
+  const t = useTranslations("payments.payouts");
+  const { currentLocale } = useLocale();
+  const isRTL = currentLocale === "ar";
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const {
+    primaryAccount,
+    payoutAccount,
+    requestablePlans,
+    payableAmount,
+    isLoadingAccount,
+    isSubmitting,
+    requestPayout,
+  } = usePayoutRequests(plans, phases);
+
+  const handleSubmit = async (values: PayoutFormValues) => {
+    const result = await requestPayout(values);
+    if (result.success) {
+      toast.success(result.message || t("submitSuccess"));
+    } else if (result.alreadyRequested) {
+      toast.error(result.message || t("alreadyRequested"));
+    } else {
+      toast.error(result.message || t("submitError"));
+    }
+    return result.success;
+  };
+
+  // Explains why the request button is missing
+  const accountHint = !primaryAccount
+    ? t("noAccount")
+    : !payoutAccount
+    ? t("accountNotVerified")
+    : null;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between gap-2">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Wallet className="h-5 w-5 text-design-main" />
+          {t("title")}
+        </CardTitle>
+        {payoutAccount && (
+          <Button
+            size="sm"
+            onClick={() => setIsDialogOpen(true)}
+            disabled={isSubmitting || requestablePlans.length === 0}
+          >
+            <Banknote className="h-4 w-4" />
+            {t("request")}
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="rounded-md border p-3">
+          <p className="text-sm text-muted-foreground">{t("payable")}</p>
+          <p className="text-lg font-semibold">
+            {formatPrice(payableAmount, isRTL)}
+          </p>
+          <p className="mt-1 text-xs text-muted-foreground">
+            {t("payableHint")}
+          </p>
+        </div>
+
+        {isLoadingAccount ? (
+          <Skeleton className="h-5 w-2/3" />
+        ) : accountHint ? (
+          <p className="text-sm text-muted-foreground">
+            {accountHint}{" "}
+            <Link
+              href={BANK_ACCOUNTS_SETTINGS_PATH}
+              className="font-medium text-design-main hover:underline"
+            >
+              {t("manageAccounts")}
+            </Link>
+          </p>
+        ) : (
+          requestablePlans.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              {t("nothingToRequest")}
+            </p>
+          )
+        )}
+      </CardContent>
+
+      {payoutAccount && (
+        <PayoutRequestDialog
+          open={isDialogOpen}
+          onOpenChange={setIsDialogOpen}
+          plans={requestablePlans}
+          account={payoutAccount}
+          isSubmitting={isSubmitting}
+          onSubmit={handleSubmit}
+        />
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,185 @@
+"use client";
+import React, { useEffect, useMemo } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useTranslations } from "next-intl";
+import { Button } from "@/shared/components/ui/button";
+import { Textarea } from "@/shared/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/shared/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/shared/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/shared/components/ui/select";
+import { formatPrice } from "@/lib/helpers";
+import { useLocale } from "@/hooks/useLocale";
+import { BankAccount, PaymentPlan } from "../../types";
+import { PAYOUT_LIMITS } from "../../constants";
+import {
+  PayoutFormValues,
+  createPayoutValidationSchemas,
+} from "../../utils/validation";
+import { toAmount } from "../../utils/paymentPlans";
+import { maskIban } from "../../utils/iban";
+
+interface PayoutRequestDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  plans: PaymentPlan[];
+  account: BankAccount;
+  isSubmitting: boolean;
+  onSubmit: (values: PayoutFormValues) => Promise<boolean>;
+}
+
+const EMPTY_VALUES: PayoutFormValues = { payment_id: "", note: "" };
+
+export function PayoutRequestDialog({
+  open,
+  onOpenChange,
+  plans,
+  account,
+  isSubmitting,
+  onSubmit,
+}: PayoutRequestDialogProps) {
+  const t = useTranslations();
+  const { currentLocale } = useLocale();
+  const isRTL = currentLocale === "ar";
+  const { PayoutSchema } = useMemo(() => createPayoutValidationSchemas(t), [t]);
+
+  const form = useForm<PayoutFormValues>({
+    resolver: zodResolver(PayoutSchema),
+    mode: "onTouched",
+    defaultValues: EMPTY_VALUES,
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset(EMPTY_VALUES);
+    }
+  }, [open, form]);
+
+  const handleSubmit = async (values: PayoutFormValues) => {
+    const submitted = await onSubmit(values);
+    if (submitted) {
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{t("payments.payouts.form.title")}</DialogTitle>
+          <DialogDescription>
+            {t("payments.payouts.form.description")}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit(handleSubmit)}
+            className="space-y-4"
+          >
+            <FormField
+              control={form.control}
+              name="payment_id"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>
+                    {t("payments.payouts.form.installment")}
+                  </FormLabel>
+                  <Select
+                    value={field.value}
+                    onValueChange={field.onChange}
+                    disabled={isSubmitting}
+                  >
+                    <FormControl>
+                      <SelectTrigger className="w-full">
+                        <SelectValue
+                          placeholder={t(
+                            "payments.payouts.form.installmentPlaceholder"
+                          )}
+                        />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {plans.map((plan) => (
+                        <SelectItem key={plan.id} value={String(plan.id)}>
+                          {plan.name} ·{" "}
+                          {formatPrice(toAmount(plan.amount), isRTL)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="note"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t("payments.payouts.form.note")}</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      {...field}
+                      rows={3}
+                      maxLength={PAYOUT_LIMITS.noteMax}
+                      disabled={isSubmitting}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="rounded-md border p-3 text-sm">
+              <p className="text-muted-foreground">
+                {t("payments.payouts.form.destination")}
+              </p>
+              <p className="font-medium">{account.full_name}</p>
+              {account.iban && (
+                <p className="font-mono" dir="ltr">
+                  {maskIban(account.iban)}
+                </p>
+              )}
+            </div>
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                disabled={isSubmitting}
+              >
+                {t("payments.payouts.form.cancel")}
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting
+                  ? t("payments.payouts.form.submitting")
+                  : t("payments.payouts.form.submit")}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,41 @@
+"use client";
+import React from "react";
+import { useTranslations } from "next-intl";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/shared/components/ui/dialog";
+import { RefundPanel } from "./RefundPanel";
+
+interface RefundDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  paymentId: string;
+  title?: string;
+  canIssue?: boolean;
+}
+
+export function RefundDialog({
+  open,
+  onOpenChange,
+  paymentId,
+  title,
+  canIssue,
+}: RefundDialogProps) {
+  const t = useTranslations("payments.refunds");
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{title || t("title")}</DialogTitle>
+          <DialogDescription>{t("description")}</DialogDescription>
+        </DialogHeader>
+        {open && <RefundPanel paymentId={paymentId} canIssue={canIssue} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,141 @@
+"use client";
+import React, { useEffect, useMemo } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useTranslations } from "next-intl";
+import { Button } from "@/shared/components/ui/button";
+import { Input } from "@/shared/components/ui/input";
+import { Textarea } from "@/shared/components/ui/textarea";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/shared/components/ui/form";
+import { REFUND_LIMITS } from "../../constants";
+import {
+  RefundFormValues,
+  createRefundValidationSchemas,
+} from "../../utils/validation";
+
+interface RefundFormProps {
+  refundableAmount: number;
+  isSubmitting: boolean;
+  onSubmit: (values: RefundFormValues) => Promise<boolean>;
+}
+
+export function RefundForm({
+  refundableAmount,
+  isSubmitting,
+  onSubmit,
+}: RefundFormProps) {
+  const t = useTranslations();
+  const { RefundSchema } = useMemo(
+    () => createRefundValidationSchemas(t, refundableAmount),
+    [t, refundableAmount]
+  );
+
+  const form = useForm<RefundFormValues>({
+    resolver: zodResolver(RefundSchema),
+    mode: "onTouched",
+    defaultValues: { amount: "", reason: "", description: "" },
+  });
+
+  // Re-check the entered amount against the new cap after each refund
+  useEffect(() => {
+    if (form.getValues("amount")) {
+      form.trigger("amount");
+    }
+  }, [refundableAmount, form]);
+
+  const handleSubmit = async (values: RefundFormValues) => {
+    const saved = await onSubmit(values);
+    if (saved) {
+      form.reset({ amount: "", reason: "", description: "" });
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="amount"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>{t("payments.refunds.form.amount")}</FormLabel>
+              <div className="flex gap-2">
+                <FormControl>
+                  <Input
+                    {...field}
+                    type="number"
+                    min={0}
+                    max={refundableAmount}
+                    step="0.01"
+                    disabled={isSubmitting}
+                  />
+                </FormControl>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() =>
+                    form.setValue("amount", String(refundableAmount), {
+                      shouldValidate: true,
+                    })
+                  }
+                  disabled={isSubmitting}
+                >
+                  {t("payments.refunds.form.fullAmount")}
+                </Button>
+              </div>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="reason"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>{t("payments.refunds.form.reason")}</FormLabel>
+              <FormControl>
+                <Input
+                  {...field}
+                  maxLength={REFUND_LIMITS.reasonMax}
+                  disabled={isSubmitting}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="description"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>{t("payments.refunds.form.description")}</FormLabel>
+              <FormControl>
+                <Textarea
+                  {...field}
+                  rows={3}
+                  maxLength={REFUND_LIMITS.descriptionMax}
+                  disabled={isSubmitting}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <Button type="submit" disabled={isSubmitting}>
+          {isSubmitting
+            ? t("payments.refunds.form.submitting")
+            : t("payments.refunds.form.submit")}
+        </Button>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,63 @@
+"use client";
+import React from "react";
+import { useTranslations } from "next-intl";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { formatPrice } from "@/lib/helpers";
+import { useLocale } from "@/hooks/useLocale";
+import { PaymentRefund } from "../../types";
+import { fromHalalas } from "../../utils/moyasar";
+import { RefundStatusBadge } from "./RefundStatusBadge";
+
+export function RefundHistory({ refunds }: { refunds: PaymentRefund[] }) {
+  const t = useTranslations("payments.refunds.history");
+  const { currentLocale } = useLocale();
+
+  if (refunds.length === 0) {
+    return <p className="text-sm text-muted-foreground">{t("empty")}</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>{t("date")}</TableHead>
+            <TableHead>{t("amount")}</TableHead>
+            <TableHead>{t("reason")}</TableHead>
+            <TableHead>{t("status")}</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {refunds.map((refund) => (
+            <TableRow key={refund.id}>
+              <TableCell className="whitespace-nowrap">
+                {new Date(refund.created_at).toLocaleDateString(currentLocale)}
+              </TableCell>
+              <TableCell className="whitespace-nowrap">
+                {formatPrice(fromHalalas(refund.amount), currentLocale === "ar")}
+              </TableCell>
+              <TableCell>
+                <p>{refund.reason || "-"}</p>
+                {refund.description && (
+                  <p className="text-xs text-muted-foreground">
+                    {refund.description}
+                  </p>
+                )}
+              </TableCell>
+              <TableCell>
+                <RefundStatusBadge status={refund.status} />
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+"use client";
+import React from "react";
+import { useTranslations } from "next-intl";
+import { Loader2 } from "lucide-react";
+import toast from "react-hot-toast";
+import { ErrorState } from "@/shared/components/ui/ErrorState";
+import { Skeleton } from "@/components/ui/skeleton";
+import { formatPrice } from "@/lib/helpers";
+import { useLocale } from "@/hooks/useLocale";
+import { usePaymentRefunds } from "../../hooks/usePaymentRefunds";
+import { RefundFormValues } from "../../utils/validation";
+import { RefundForm } from "./RefundForm";
+import { RefundHistory } from "./RefundHistory";
+
+interface RefundPanelProps {
+  paymentId: string;
+  // Viewers without refund rights only see the history
+  canIssue?: boolean;
+}
+
+export function RefundPanel({ paymentId, canIssue = true }: RefundPanelProps) {
+  const t = useTranslations("payments.refunds");
+  const { currentLocale } = useLocale();
+  const isRTL = currentLocale === "ar";
+  const {
+    canRefund,
+    blockedReason,
+    refundableAmount,
+    refundedAmount,
+    refunds,
+    hasPendingRefunds,
+    isLoading,
+    isSubmitting,
+    error,
+    refetch,
+    refund,
+  } = usePaymentRefunds(paymentId);
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-16 w-full" />
+        <Skeleton className="h-32 w-full" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <ErrorState
+        variant="inline"
+        title={t("loadError")}
+        error={error}
+        onRetry={refetch}
+      />
+    );
+  }
+
+  const handleSubmit = async (values: RefundFormValues) => {
+    const result = await refund(values);
+    if (result.success) {
+      toast.success(result.message || t("submitSuccess"));
+    } else {
+      toast.error(result.message || t("submitError"));
+    }
+    return result.success;
+  };
+
+  const totals = [
+    { key: "refunded", value: refundedAmount },
+    { key: "refundable", value: refundableAmount },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 gap-3">
+        {totals.map((item) => (
+          <div key={item.key} className="rounded-md border p-3">
+            <p className="text-sm text-muted-foreground">{t(item.key)}</p>
+            <p className="text-lg font-semibold">
+              {formatPrice(item.value, isRTL)}
+            </p>
+          </div>
+        ))}
+      </div>
+
+      {hasPendingRefunds && (
+        <p className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          {t("pendingHint")}
+        </p>
+      )}
+
+      <div className="space-y-2">
+        <h3 className="font-medium">{t("history.title")}</h3>
+        <RefundHistory refunds={refunds} />
+      </div>
+
+      {canIssue &&
+        (canRefund && refundableAmount > 0 ? (
+          <div className="space-y-2">
+            <h3 className="font-medium">{t("form.title")}</h3>
+            <RefundForm
+              refundableAmount={refundableAmount}
+              isSubmitting={isSubmitting}
+              onSubmit={handleSubmit}
+            />
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            {blockedReason || t("notRefundable")}
+          </p>
+        ))}
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+"use client";
+import React from "react";
+import { useTranslations } from "next-intl";
+import { Badge } from "@/shared/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { RefundStatus } from "../../types";
+
+const REFUND_STATUS_COLORS: Record<RefundStatus, string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  succeeded: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+};
+
+export function RefundStatusBadge({
+  status,
+  className,
+}: {
+  status: RefundStatus;
+  className?: string;
+}) {
+  const t = useTranslations("payments.refunds.statuses");
+
+  return (
+    <Badge
+      variant="secondary"
+      className={cn(
+        REFUND_STATUS_COLORS[status] ?? REFUND_STATUS_COLORS.pending,
+        className
+      )}
+    >
+      {t(status)}
+    </Badge>
+  );
+}
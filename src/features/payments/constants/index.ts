@@ -0,0 +1,18 @@
+export {
+  PAYMENT_DUE_SOON_DAYS,
+  PAYMENT_PLAN_LIMITS,
+  PAYMENT_EVENTS_PROJECTS_LIMIT,
+  PAYMENT_EVENTS_STALE_MS,
+  BANK_ACCOUNT_LIMITS,
+  PAYOUT_LIMITS,
+  BANK_ACCOUNTS_SETTINGS_PATH,
+} from "./paymentConstants";
+export {
+  MOYASAR_METHODS,
+  MOYASAR_CURRENCY,
+  MOYASAR_FINAL_STATUSES,
+  MOYASAR_POLLING,
+  REFUND_LIMITS,
+  PAYMENT_RESULT_PATH,
+  MOYASAR_API_URL,
+} from "./moyasarConstants";
@@ -0,0 +1,40 @@
+import { MoyasarMethod, MoyasarPaymentStatus } from "../types";
+
+export const MOYASAR_METHODS: MoyasarMethod[] = [
+  "credit_card",
+  "stc_pay",
+  "apple_pay",
+  "sadad",
+];
+
+export const MOYASAR_CURRENCY = "SAR";
+
+// Statuses that won't change any more without a capture, void or refund
+export const MOYASAR_FINAL_STATUSES: MoyasarPaymentStatus[] = [
+  "paid",
+  "authorized",
+  "captured",
+  "verified",
+  "failed",
+  "voided",
+  "refunded",
+];
+
+export const MOYASAR_POLLING = {
+  intervalMs: 3000,
+  maxAttempts: 20,
+} as const;
+
+export const REFUND_LIMITS = {
+  reasonMax: 255,
+  descriptionMax: 1000,
+} as const;
+
+// Moyasar sends the payer back here after 3-D Secure or OTP confirmation
+export const PAYMENT_RESULT_PATH = "/dashboard/payments/result";
+
+/**
+ * Points the gateway calls at another host, e.g. the local mock served from
+ * /api/mock when NEXT_PUBLIC_MOYASAR_API_URL=http://localhost:3000/api/mock
+ */
+export const MOYASAR_API_URL = process.env.NEXT_PUBLIC_MOYASAR_API_URL;
@@ -0,0 +1,26 @@
+// Installments due within this many days are highlighted
+export const PAYMENT_DUE_SOON_DAYS = 7;
+
+export const PAYMENT_PLAN_LIMITS = {
+  nameMax: 255,
+  referenceNoteMax: 1000,
+} as const;
+
+// Signed contracts scanned for upcoming installments on the dashboard
+export const PAYMENT_EVENTS_PROJECTS_LIMIT = 10;
+
+// How long the dashboard reuses the installments it already loaded
+export const PAYMENT_EVENTS_STALE_MS = 60 * 1000;
+
+export const BANK_ACCOUNT_LIMITS = {
+  fullNameMax: 255,
+  accountNumberMax: 34,
+  branchNameMax: 255,
+} as const;
+
+export const PAYOUT_LIMITS = {
+  noteMax: 1000,
+} as const;
+
+export const BANK_ACCOUNTS_SETTINGS_PATH =
+  "/dashboard/contractor/settings/bank-accounts";
@@ -0,0 +1,8 @@
+export * from "./usePaymentPlans";
+export * from "./usePaymentProjects";
+export * from "./usePaymentDueEvents";
+export * from "./useMoyasarCheckout";
+export * from "./useMoyasarPaymentStatus";
+export * from "./usePaymentRefunds";
+export * from "./useBankAccounts";
+export * from "./usePayoutRequests";
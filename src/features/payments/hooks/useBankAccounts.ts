@@ -0,0 +1,140 @@
+"use client";
+import { useCallback, useEffect, useState } from "react";
+import { bankAccountApi } from "../services/bankAccountApi";
+import { BankAccount, BankType } from "../types";
+import { BankAccountFormValues } from "../utils/validation";
+import { sortBankAccounts, toBankAccountPayload } from "../utils/payouts";
+
+type ActionResult = { success: boolean; message?: string };
+
+export const useBankAccounts = () => {
+  const [accounts, setAccounts] = useState<BankAccount[]>([]);
+  const [bankTypes, setBankTypes] = useState<BankType[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchAccounts = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    const [accountsResponse, bankTypesResponse] = await Promise.all([
+      bankAccountApi.getAccounts(),
+      bankAccountApi.getBankTypes(),
+    ]);
+
+    if (accountsResponse.success) {
+      setAccounts(
+        sortBankAccounts(
+          accountsResponse.data || accountsResponse.response || []
+        )
+      );
+    } else {
+      setError(accountsResponse.message || null);
+    }
+
+    if (bankTypesResponse.success) {
+      setBankTypes(bankTypesResponse.data || bankTypesResponse.response || []);
+    }
+
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    fetchAccounts();
+  }, [fetchAccounts]);
+
+  const addAccount = useCallback(
+    async (values: BankAccountFormValues): Promise<ActionResult> => {
+      setIsSaving(true);
+
+      const response = await bankAccountApi.createAccount(
+        toBankAccountPayload(values)
+      );
+      if (response.success) {
+        await fetchAccounts();
+      }
+
+      setIsSaving(false);
+      return { success: response.success, message: response.message };
+    },
+    [fetchAccounts]
+  );
+
+  const updateAccount = useCallback(
+    async (
+      accountId: number,
+      values: BankAccountFormValues
+    ): Promise<ActionResult> => {
+      setIsSaving(true);
+
+      const response = await bankAccountApi.updateAccount(
+        accountId,
+        toBankAccountPayload(values)
+      );
+      if (response.success) {
+        await fetchAccounts();
+      }
+
+      setIsSaving(false);
+      return { success: response.success, message: response.message };
+    },
+    [fetchAccounts]
+  );
+
+  const removeAccount = useCallback(
+    async (accountId: number): Promise<ActionResult> => {
+      setIsSaving(true);
+
+      const response = await bankAccountApi.deleteAccount(accountId);
+      if (response.success) {
+        setAccounts((current) =>
+          current.filter((account) => account.id !== accountId)
+        );
+      }
+
+      setIsSaving(false);
+      return { success: response.success, message: response.message };
+    },
+    []
+  );
+
+  // Only one account can be primary, the switch shows right away and is
+  // undone if the server refuses it
+  const makePrimary = useCallback(
+    async (accountId: number): Promise<ActionResult> => {
+      const previous = accounts;
+      setAccounts(
+        sortBankAccounts(
+          accounts.map((account) => ({
+            ...account,
+            is_primary: account.id === accountId,
+          }))
+        )
+      );
+      setIsSaving(true);
+
+      const response = await bankAccountApi.makePrimary(accountId);
+      if (!response.success) {
+        setAccounts(previous);
+      }
+
+      setIsSaving(false);
+      return { success: response.success, message: response.message };
+    },
+    [accounts]
+  );
+
+  return {
+    accounts,
+    bankTypes,
+    isLoading,
+    isSaving,
+    error,
+    refetch: fetchAccounts,
+    addAccount,
+    updateAccount,
+    removeAccount,
+    makePrimary,
+  };
+};
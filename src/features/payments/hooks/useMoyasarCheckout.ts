@@ -0,0 +1,71 @@
+"use client";
+import { useCallback, useState } from "react";
+import { useRouter } from "next/navigation";
+import { moyasarApi } from "../services/moyasarApi";
+import {
+  CheckoutRequest,
+  CreatePaymentHandler,
+  MoyasarMethod,
+  MoyasarMethodDetails,
+  MoyasarPayment,
+} from "../types";
+import {
+  buildPaymentResultPath,
+  getRedirectUrl,
+  toMoyasarPaymentPayload,
+} from "../utils/moyasar";
+
+type ActionResult = {
+  success: boolean;
+  message?: string;
+  payment?: MoyasarPayment;
+};
+
+const createGatewayPayment: CreatePaymentHandler = (method, payload, details) =>
+  moyasarApi.createPayment(method, payload, details);
+
+/**
+ * Creates a gateway payment and sends the payer on, either to the
+ * gateway's confirmation page or straight to the payment result page
+ */
+export const useMoyasarCheckout = (
+  checkout: CheckoutRequest,
+  createPayment: CreatePaymentHandler = createGatewayPayment
+) => {
+  const router = useRouter();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const pay = useCallback(
+    async <M extends MoyasarMethod>(
+      method: M,
+      details: MoyasarMethodDetails[M]
+    ): Promise<ActionResult> => {
+      setIsSubmitting(true);
+
+      const response = await createPayment(
+        method,
+        toMoyasarPaymentPayload(checkout),
+        details
+      );
+      const payment = response.data || response.response;
+      if (!response.success || !payment) {
+        setIsSubmitting(false);
+        return { success: false, message: response.message };
+      }
+
+      const redirectUrl = getRedirectUrl(payment);
+      if (redirectUrl) {
+        // Leaving the app, keep the form disabled until the page unloads
+        window.location.assign(redirectUrl);
+      } else {
+        router.push(buildPaymentResultPath(checkout.returnPath, payment.id));
+        setIsSubmitting(false);
+      }
+
+      return { success: true, message: response.message, payment };
+    },
+    [checkout, createPayment, router]
+  );
+
+  return { pay, isSubmitting };
+};
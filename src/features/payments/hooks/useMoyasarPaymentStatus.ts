@@ -0,0 +1,110 @@
+"use client";
+import { useCallback, useEffect, useState } from "react";
+import { moyasarApi } from "../services/moyasarApi";
+import { MoyasarPayment } from "../types";
+import { MOYASAR_POLLING } from "../constants";
+import { isFinalStatus } from "../utils/moyasar";
+
+type ActionResult = { success: boolean; message?: string };
+
+/**
+ * Polls a gateway payment until it reaches a final status or the polling
+ * budget runs out
+ */
+export const useMoyasarPaymentStatus = (paymentId: string | null) => {
+  const [payment, setPayment] = useState<MoyasarPayment | null>(null);
+  const [isPolling, setIsPolling] = useState(false);
+  const [hasTimedOut, setHasTimedOut] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [pollRound, setPollRound] = useState(0);
+
+  useEffect(() => {
+    if (!paymentId) return;
+
+    let isCancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let attempts = 0;
+    let hasResult = false;
+
+    setIsPolling(true);
+    setHasTimedOut(false);
+    setError(null);
+
+    const poll = async () => {
+      attempts += 1;
+      const response = await moyasarApi.getPaymentStatus(paymentId);
+      if (isCancelled) return;
+
+      const latest = response.data || response.response;
+      if (response.success && latest) {
+        hasResult = true;
+        setPayment(latest);
+        if (isFinalStatus(latest.status)) {
+          setIsPolling(false);
+          return;
+        }
+      } else if (!hasResult) {
+        setError(response.message || null);
+      }
+
+      if (attempts >= MOYASAR_POLLING.maxAttempts) {
+        setIsPolling(false);
+        setHasTimedOut(true);
+        return;
+      }
+      timer = setTimeout(poll, MOYASAR_POLLING.intervalMs);
+    };
+
+    poll();
+
+    return () => {
+      isCancelled = true;
+      if (timer) clearTimeout(timer);
+    };
+  }, [paymentId, pollRound]);
+
+  const refresh = useCallback(() => {
+    setPollRound((round) => round + 1);
+  }, []);
+
+  const runAction = useCallback(
+    async (
+      action: (id: string) => ReturnType<typeof moyasarApi.voidPayment>
+    ): Promise<ActionResult> => {
+      if (!paymentId) return { success: false };
+
+      setIsSaving(true);
+      const response = await action(paymentId);
+      const updated = response.data || response.response;
+      if (response.success && updated) {
+        setPayment(updated);
+      }
+      setIsSaving(false);
+
+      return { success: response.success, message: response.message };
+    },
+    [paymentId]
+  );
+
+  const capture = useCallback(
+    () => runAction((id) => moyasarApi.capturePayment(id)),
+    [runAction]
+  );
+
+  const voidPayment = useCallback(
+    () => runAction((id) => moyasarApi.voidPayment(id)),
+    [runAction]
+  );
+
+  return {
+    payment,
+    isPolling,
+    hasTimedOut,
+    isSaving,
+    error,
+    refresh,
+    capture,
+    voidPayment,
+  };
+};
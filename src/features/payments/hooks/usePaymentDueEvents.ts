@@ -0,0 +1,65 @@
+"use client";
+import { useEffect, useState } from "react";
+import { CalendarEvent } from "@/features/dashboard/types";
+import { paymentPlanApi } from "../services/paymentPlanApi";
+import { PaymentParty, PaymentProject } from "../types";
+import { PAYMENT_EVENTS_STALE_MS } from "../constants";
+import { toPaymentDueEvents } from "../utils/paymentPlans";
+import { usePaymentProjects } from "./usePaymentProjects";
+
+// api.json has no cross-project installments endpoint, each project's plans
+// are a request of their own. The answers are kept per project so only
+// projects that aren't cached yet (or went stale) are asked again.
+const eventsCache = new Map<
+  string,
+  { events: CalendarEvent[]; fetchedAt: number }
+>();
+
+const getCachedEvents = (key: string) => {
+  const cached = eventsCache.get(key);
+  return cached && Date.now() - cached.fetchedAt < PAYMENT_EVENTS_STALE_MS
+    ? cached.events
+    : null;
+};
+
+const loadProjectEvents = async (
+  party: PaymentParty,
+  project: PaymentProject
+): Promise<CalendarEvent[]> => {
+  const key = `${party}:${project.id}`;
+  const cached = getCachedEvents(key);
+  if (cached) return cached;
+
+  const response = await paymentPlanApi.getPaymentPlans(party, project.id);
+  if (!response.success) return [];
+
+  const events = toPaymentDueEvents(
+    response.data || response.response || [],
+    project
+  );
+  eventsCache.set(key, { events, fetchedAt: Date.now() });
+  return events;
+};
+
+/** Upcoming installments of the user's signed projects, for the calendar */
+export const usePaymentDueEvents = (party: PaymentParty) => {
+  const { projects } = usePaymentProjects(party);
+  const [events, setEvents] = useState<CalendarEvent[]>([]);
+
+  useEffect(() => {
+    if (projects.length === 0) return;
+
+    let isCancelled = false;
+    Promise.all(
+      projects.map((project) => loadProjectEvents(party, project))
+    ).then((results) => {
+      if (!isCancelled) setEvents(results.flat());
+    });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [party, projects]);
+
+  return events;
+};
@@ -0,0 +1,198 @@
+"use client";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { phaseApi } from "@/features/phases/services/phaseApi";
+import { ProjectPhase } from "@/features/phases/types";
+import { sortPhases } from "@/features/phases/utils/phases";
+import { paymentPlanApi } from "../services/paymentPlanApi";
+import { PaymentParty, PaymentPlan, PaymentPlanStatistics } from "../types";
+import { PaymentPlanFormValues } from "../utils/validation";
+import {
+  computePaymentStatistics,
+  sortPaymentPlans,
+  toPaymentPlanPayload,
+} from "../utils/paymentPlans";
+
+type ActionResult = { success: boolean; message?: string };
+
+export const usePaymentPlans = (party: PaymentParty, projectId: string) => {
+  const [plans, setPlans] = useState<PaymentPlan[]>([]);
+  const [phases, setPhases] = useState<ProjectPhase[]>([]);
+  const [serverStatistics, setServerStatistics] =
+    useState<PaymentPlanStatistics | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canManage = party === "contractor";
+
+  const fetchPlans = useCallback(async () => {
+    if (!projectId) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    const [plansResponse, statisticsResponse, phasesResponse] =
+      await Promise.all([
+        paymentPlanApi.getPaymentPlans(party, projectId),
+        paymentPlanApi.getStatistics(party, projectId),
+        phaseApi.getPhases(party, projectId),
+      ]);
+
+    if (plansResponse.success) {
+      setPlans(
+        sortPaymentPlans(plansResponse.data || plansResponse.response || [])
+      );
+    } else {
+      setError(plansResponse.message || null);
+    }
+
+    const statistics = statisticsResponse.data || statisticsResponse.response;
+    setServerStatistics(
+      statisticsResponse.success && statistics ? statistics : null
+    );
+
+    if (phasesResponse.success) {
+      setPhases(
+        sortPhases(phasesResponse.data || phasesResponse.response || [])
+      );
+    }
+
+    setIsLoading(false);
+  }, [party, projectId]);
+
+  useEffect(() => {
+    fetchPlans();
+  }, [fetchPlans]);
+
+  // Local totals stand in when the statistics endpoint has no answer
+  const statistics = useMemo(
+    () => serverStatistics ?? computePaymentStatistics(plans),
+    [serverStatistics, plans]
+  );
+
+  const addPlan = useCallback(
+    async (values: PaymentPlanFormValues): Promise<ActionResult> => {
+      setIsSaving(true);
+
+      const lastOrder = plans.reduce(
+        (max, plan) => Math.max(max, plan.sort_order),
+        0
+      );
+      const response = await paymentPlanApi.createPaymentPlan(
+        values.project_phase_id,
+        { ...toPaymentPlanPayload(values), sort_order: lastOrder + 1 }
+      );
+      if (response.success) {
+        await fetchPlans();
+      }
+
+      setIsSaving(false);
+      return { success: response.success, message: response.message };
+    },
+    [plans, fetchPlans]
+  );
+
+  const updatePlan = useCallback(
+    async (
+      planId: number,
+      values: PaymentPlanFormValues
+    ): Promise<ActionResult> => {
+      setIsSaving(true);
+
+      const response = await paymentPlanApi.updatePaymentPlan(
+        planId,
+        toPaymentPlanPayload(values)
+      );
+      if (response.success) {
+        await fetchPlans();
+      }
+
+      setIsSaving(false);
+      return { success: response.success, message: response.message };
+    },
+    [fetchPlans]
+  );
+
+  const removePlan = useCallback(
+    async (planId: number): Promise<ActionResult> => {
+      setIsSaving(true);
+
+      const response = await paymentPlanApi.deletePaymentPlan(planId);
+      if (response.success) {
+        await fetchPlans();
+      }
+
+      setIsSaving(false);
+      return { success: response.success, message: response.message };
+    },
+    [fetchPlans]
+  );
+
+  const movePlan = useCallback(
+    async (planId: number, direction: -1 | 1): Promise<ActionResult> => {
+      const index = plans.findIndex((plan) => plan.id === planId);
+      const target = plans[index + direction];
+      if (index === -1 || !target) return { success: false };
+
+      const reordered = plans.slice();
+      reordered[index] = target;
+      reordered[index + direction] = plans[index];
+      setPlans(
+        reordered.map((plan, position) => ({
+          ...plan,
+          sort_order: position + 1,
+        }))
+      );
+      setIsSaving(true);
+
+      const response = await paymentPlanApi.reorderPaymentPlans(
+        projectId,
+        reordered.map((plan) => plan.id)
+      );
+      if (!response.success) {
+        setPlans(plans);
+      }
+
+      setIsSaving(false);
+      return { success: response.success, message: response.message };
+    },
+    [projectId, plans]
+  );
+
+  // Locking is final, the schedule row is updated in place on success
+  const lockPlan = useCallback(
+    async (planId: number): Promise<ActionResult> => {
+      setIsSaving(true);
+
+      const response = await paymentPlanApi.lockPaymentPlan(party, planId);
+      if (response.success) {
+        const locked = response.data || response.response;
+        setPlans((current) =>
+          current.map((plan) =>
+            plan.id === planId ? { ...plan, ...locked, is_locked: true } : plan
+          )
+        );
+      }
+
+      setIsSaving(false);
+      return { success: response.success, message: response.message };
+    },
+    [party]
+  );
+
+  return {
+    plans,
+    phases,
+    statistics,
+    canManage,
+    isLoading,
+    isSaving,
+    error,
+    refetch: fetchPlans,
+    addPlan,
+    updatePlan,
+    removePlan,
+    movePlan,
+    lockPlan,
+  };
+};
@@ -0,0 +1,78 @@
+"use client";
+import { useCallback, useEffect, useState } from "react";
+import { contractApi } from "@/features/contracts/services/contractApi";
+import { Contract } from "@/features/contracts/types";
+import { PaymentParty, PaymentProject } from "../types";
+import { PAYMENT_EVENTS_PROJECTS_LIMIT } from "../constants";
+
+const toPaymentProject = (contract: Contract): PaymentProject | null => {
+  const projectId = contract.project_id ?? contract.project?.id;
+  if (!projectId) return null;
+
+  return {
+    id: projectId,
+    title: contract.project?.title || `#${projectId}`,
+    contract_id: contract.id,
+  };
+};
+
+/**
+ * Projects that have a payment schedule, i.e. the ones whose contract has
+ * been signed by both parties
+ */
+export const usePaymentProjects = (
+  party: PaymentParty,
+  limit = PAYMENT_EVENTS_PROJECTS_LIMIT
+) => {
+  const [projects, setProjects] = useState<PaymentProject[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchProjects = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    // Contractors can't filter the list by this status, api.json only
+    // documents it for owners, so their contracts are paged through until
+    // enough signed ones are found
+    const signed: Contract[] = [];
+    let page = 1;
+    let lastPage = 1;
+
+    do {
+      const response = await contractApi.getContracts(party, {
+        status: "signed_by_both",
+        page,
+        per_page: limit,
+      });
+      if (!response.success) {
+        setError(response.message || null);
+        setIsLoading(false);
+        return;
+      }
+
+      const result = response.data || response.response;
+      signed.push(
+        ...(result?.contracts || []).filter(
+          (contract) => contract.status === "signed_by_both"
+        )
+      );
+      lastPage = result?.pagination?.last_page || 1;
+      page += 1;
+    } while (signed.length < limit && page <= lastPage);
+
+    setProjects(
+      signed
+        .slice(0, limit)
+        .map(toPaymentProject)
+        .filter((project): project is PaymentProject => !!project)
+    );
+    setIsLoading(false);
+  }, [party, limit]);
+
+  useEffect(() => {
+    fetchProjects();
+  }, [fetchProjects]);
+
+  return { projects, isLoading, error, refetch: fetchProjects };
+};
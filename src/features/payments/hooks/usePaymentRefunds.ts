@@ -0,0 +1,124 @@
+"use client";
+import { useCallback, useEffect, useState } from "react";
+import { moyasarApi } from "../services/moyasarApi";
+import { RefundOverview } from "../types";
+import { MOYASAR_POLLING } from "../constants";
+import { RefundFormValues } from "../utils/validation";
+import { fromHalalas } from "../utils/moyasar";
+import {
+  hasPendingRefunds,
+  readHalalas,
+  sortRefunds,
+  toRefundPayload,
+} from "../utils/refunds";
+
+type ActionResult = { success: boolean; message?: string };
+
+const EMPTY_OVERVIEW: RefundOverview = {
+  canRefund: false,
+  refundableAmount: 0,
+  refundedAmount: 0,
+  refunds: [],
+};
+
+/**
+ * Refund state of one gateway payment. Pending refunds are polled until
+ * the gateway settles them.
+ */
+export const usePaymentRefunds = (paymentId: string) => {
+  const [overview, setOverview] = useState<RefundOverview>(EMPTY_OVERVIEW);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchOverview = useCallback(async () => {
+    if (!paymentId) return;
+
+    setError(null);
+
+    const [eligibility, refundable, refunded, status] = await Promise.all([
+      moyasarApi.canRefund(paymentId),
+      moyasarApi.getRefundableAmount(paymentId),
+      moyasarApi.getRefundedAmount(paymentId),
+      moyasarApi.getRefundStatus(paymentId),
+    ]);
+
+    if (!status.success) {
+      setError(status.message || null);
+      setIsLoading(false);
+      return;
+    }
+
+    const eligibilityData = eligibility.data || eligibility.response;
+    const summary = status.data || status.response;
+    const refunds = summary?.refunds || [];
+    setOverview({
+      canRefund: eligibility.success && !!eligibilityData?.can_refund,
+      blockedReason: eligibilityData?.reason,
+      // The server already leaves pending refunds out of this amount
+      refundableAmount: fromHalalas(
+        readHalalas(
+          refundable.data ?? refundable.response,
+          "refundable_amount"
+        )
+      ),
+      refundedAmount: fromHalalas(
+        readHalalas(refunded.data ?? refunded.response, "refunded_amount")
+      ),
+      refunds: sortRefunds(refunds),
+    });
+
+    setIsLoading(false);
+  }, [paymentId]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    fetchOverview();
+  }, [fetchOverview]);
+
+  const hasPending = hasPendingRefunds(overview.refunds);
+
+  // Keep checking while a refund is in flight
+  useEffect(() => {
+    if (!hasPending) return;
+
+    const timer = setTimeout(fetchOverview, MOYASAR_POLLING.intervalMs);
+    return () => clearTimeout(timer);
+  }, [hasPending, overview, fetchOverview]);
+
+  const refund = useCallback(
+    async (values: RefundFormValues): Promise<ActionResult> => {
+      // The form validates this too, the hook is the last line of defence
+      if (
+        !overview.canRefund ||
+        Number(values.amount) > overview.refundableAmount
+      ) {
+        return { success: false };
+      }
+
+      setIsSubmitting(true);
+
+      const response = await moyasarApi.refundPayment(
+        paymentId,
+        toRefundPayload(values)
+      );
+      if (response.success) {
+        await fetchOverview();
+      }
+
+      setIsSubmitting(false);
+      return { success: response.success, message: response.message };
+    },
+    [paymentId, overview, fetchOverview]
+  );
+
+  return {
+    ...overview,
+    hasPendingRefunds: hasPending,
+    isLoading,
+    isSubmitting,
+    error,
+    refetch: fetchOverview,
+    refund,
+  };
+};
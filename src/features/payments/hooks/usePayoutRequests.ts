@@ -0,0 +1,101 @@
+"use client";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { ProjectPhase } from "@/features/phases/types";
+import { bankAccountApi } from "../services/bankAccountApi";
+import { payoutApi } from "../services/payoutApi";
+import { BankAccount, PaymentPlan } from "../types";
+import { PayoutFormValues } from "../utils/validation";
+import {
+  canReceivePayouts,
+  getPayableAmount,
+  getPayablePlans,
+  toPayoutPayload,
+} from "../utils/payouts";
+
+type ActionResult = { success: boolean; message?: string };
+
+// The API answers with a conflict when the installment was already requested
+const ALREADY_REQUESTED_STATUS = 409;
+
+/**
+ * Payouts of one project. The API can't list payout requests, so an
+ * installment only leaves the request list once the server confirmed it,
+ * either by accepting the request or by rejecting it as a duplicate.
+ */
+export const usePayoutRequests = (
+  plans: PaymentPlan[],
+  phases: ProjectPhase[]
+) => {
+  const [primaryAccount, setPrimaryAccount] = useState<BankAccount | null>(
+    null
+  );
+  const [requestedPlanIds, setRequestedPlanIds] = useState<number[]>([]);
+  const [isLoadingAccount, setIsLoadingAccount] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const fetchPrimaryAccount = useCallback(async () => {
+    setIsLoadingAccount(true);
+
+    const response = await bankAccountApi.getPrimaryAccount();
+    const account = response.data || response.response;
+    setPrimaryAccount(response.success && account ? account : null);
+
+    setIsLoadingAccount(false);
+  }, []);
+
+  useEffect(() => {
+    fetchPrimaryAccount();
+  }, [fetchPrimaryAccount]);
+
+  const payablePlans = useMemo(
+    () => getPayablePlans(plans, phases),
+    [plans, phases]
+  );
+
+  const payableAmount = useMemo(
+    () => getPayableAmount(payablePlans),
+    [payablePlans]
+  );
+
+  const requestablePlans = useMemo(
+    () =>
+      payablePlans.filter((plan) => !requestedPlanIds.includes(plan.id)),
+    [payablePlans, requestedPlanIds]
+  );
+
+  const payoutAccount =
+    primaryAccount && canReceivePayouts(primaryAccount) ? primaryAccount : null;
+
+  const requestPayout = useCallback(
+    async (
+      values: PayoutFormValues
+    ): Promise<ActionResult & { alreadyRequested: boolean }> => {
+      setIsSubmitting(true);
+
+      const payload = toPayoutPayload(values);
+      const response = await payoutApi.requestPayout(payload);
+      const alreadyRequested = response.status === ALREADY_REQUESTED_STATUS;
+      if (response.success || alreadyRequested) {
+        setRequestedPlanIds((current) => [...current, payload.payment_id]);
+      }
+
+      setIsSubmitting(false);
+      return {
+        success: response.success,
+        alreadyRequested,
+        message: response.message,
+      };
+    },
+    []
+  );
+
+  return {
+    primaryAccount,
+    payoutAccount,
+    requestablePlans,
+    payableAmount,
+    isLoadingAccount,
+    isSubmitting,
+    requestPayout,
+  };
+};
@@ -0,0 +1,59 @@
+import { ApiResponse } from "@/lib/apiClient";
+import * as sdk from "@/lib/sdk";
+import { BankAccount, BankAccountPayload, BankType } from "../types";
+
+/**
+ * Bank Account API Service
+ * The accounts payouts are sent to, verified by the platform before use
+ */
+class BankAccountApiService {
+  async getAccounts(): Promise<ApiResponse<BankAccount[]>> {
+    return sdk.listUserBankAccounts<BankAccount[]>();
+  }
+
+  /**
+   * Get the account payouts go to by default, null when there is none
+   */
+  async getPrimaryAccount(): Promise<ApiResponse<BankAccount | null>> {
+    return sdk.getPrimaryAccount<BankAccount | null>();
+  }
+
+  async createAccount(
+    data: BankAccountPayload
+  ): Promise<ApiResponse<BankAccount>> {
+    return sdk.createUserBankAccount<BankAccount>(data);
+  }
+
+  /**
+   * Update an account, a changed IBAN sends it back to verification
+   */
+  async updateAccount(
+    accountId: number | string,
+    data: Partial<BankAccountPayload>
+  ): Promise<ApiResponse<BankAccount>> {
+    return sdk.updateUserBankAccount<BankAccount>(accountId, data);
+  }
+
+  async deleteAccount(accountId: number | string): Promise<ApiResponse> {
+    return sdk.deleteUserBankAccount(accountId);
+  }
+
+  /**
+   * Make an account the only primary one
+   */
+  async makePrimary(
+    accountId: number | string
+  ): Promise<ApiResponse<BankAccount>> {
+    return sdk.makePrimaryUserBankAccount<BankAccount>(accountId);
+  }
+
+  /**
+   * Get the banks an account can be opened with
+   */
+  async getBankTypes(): Promise<ApiResponse<BankType[]>> {
+    return sdk.listBankTypes<BankType[]>({ active: true });
+  }
+}
+
+/** Singleton instance of the BankAccountApiService */
+export const bankAccountApi = new BankAccountApiService();
@@ -0,0 +1,4 @@
+export * from "./paymentPlanApi";
+export * from "./moyasarApi";
+export * from "./bankAccountApi";
+export * from "./payoutApi";
@@ -0,0 +1,145 @@
+import { ApiResponse, RequestConfig } from "@/lib/apiClient";
+import * as sdk from "@/lib/sdk";
+import {
+  MoyasarMethod,
+  MoyasarMethodDetails,
+  MoyasarPayment,
+  MoyasarPaymentPayload,
+  PaymentRefund,
+  RefundEligibility,
+  RefundPayload,
+  RefundStatusSummary,
+} from "../types";
+import { MOYASAR_API_URL } from "../constants";
+
+// Only overrides the host when a mock gateway is configured
+const gatewayConfig: RequestConfig = MOYASAR_API_URL
+  ? { baseURL: MOYASAR_API_URL }
+  : {};
+
+// Each payment method has its own create endpoint
+const CREATE_PAYMENT_OPERATIONS: {
+  [M in MoyasarMethod]: (
+    body: MoyasarPaymentPayload & MoyasarMethodDetails[M],
+    config?: RequestConfig
+  ) => Promise<ApiResponse<MoyasarPayment>>;
+} = {
+  credit_card: sdk.createCreditCardPayment,
+  stc_pay: sdk.createStcPayPayment,
+  apple_pay: sdk.createApplePayPayment,
+  sadad: sdk.createSadadPayment,
+};
+
+/**
+ * Moyasar API Service
+ * Creates gateway payments and follows them until they settle
+ */
+class MoyasarApiService {
+  /**
+   * Create a payment with one of the supported methods
+   */
+  async createPayment<M extends MoyasarMethod>(
+    method: M,
+    payload: MoyasarPaymentPayload,
+    details: MoyasarMethodDetails[M]
+  ): Promise<ApiResponse<MoyasarPayment>> {
+    return CREATE_PAYMENT_OPERATIONS[method](
+      { ...payload, ...details },
+      gatewayConfig
+    );
+  }
+
+  /**
+   * Fetch a payment from Moyasar and sync the local record
+   */
+  async getPayment(paymentId: string): Promise<ApiResponse<MoyasarPayment>> {
+    return sdk.fetchPayment<MoyasarPayment>(paymentId, gatewayConfig);
+  }
+
+  /**
+   * Get the current status of a payment
+   */
+  async getPaymentStatus(
+    paymentId: string
+  ): Promise<ApiResponse<MoyasarPayment>> {
+    return sdk.getPaymentStatus<MoyasarPayment>(paymentId, gatewayConfig);
+  }
+
+  /**
+   * Capture an authorized payment, the full amount when none is given
+   */
+  async capturePayment(
+    paymentId: string,
+    amount?: number
+  ): Promise<ApiResponse<MoyasarPayment>> {
+    return sdk.capturePayment<MoyasarPayment>(
+      paymentId,
+      amount ? { amount } : {},
+      gatewayConfig
+    );
+  }
+
+  /**
+   * Void an authorized payment
+   */
+  async voidPayment(paymentId: string): Promise<ApiResponse<MoyasarPayment>> {
+    return sdk.voidPayment<MoyasarPayment>(paymentId, gatewayConfig);
+  }
+
+  /**
+   * Check whether a payment can still be refunded
+   */
+  async canRefund(paymentId: string): Promise<ApiResponse<RefundEligibility>> {
+    return sdk.canRefundPayment<RefundEligibility>(
+      paymentId,
+      undefined,
+      gatewayConfig
+    );
+  }
+
+  /**
+   * Get the amount left to refund, in halalas
+   */
+  async getRefundableAmount(
+    paymentId: string
+  ): Promise<ApiResponse<{ refundable_amount: number }>> {
+    return sdk.getRefundableAmount<{ refundable_amount: number }>(
+      paymentId,
+      gatewayConfig
+    );
+  }
+
+  /**
+   * Get the amount refunded so far, in halalas
+   */
+  async getRefundedAmount(
+    paymentId: string
+  ): Promise<ApiResponse<{ refunded_amount: number }>> {
+    return sdk.getRefundedAmount<{ refunded_amount: number }>(
+      paymentId,
+      gatewayConfig
+    );
+  }
+
+  /**
+   * Get the refunds of a payment and their state
+   */
+  async getRefundStatus(
+    paymentId: string
+  ): Promise<ApiResponse<RefundStatusSummary>> {
+    return sdk.getRefundStatus<RefundStatusSummary>(paymentId, gatewayConfig);
+  }
+
+  /**
+   * Refund a payment, in full when no amount is given
+   */
+  async refundPayment(
+    paymentId: string,
+    data: RefundPayload
+  ): Promise<ApiResponse<PaymentRefund>> {
+    return sdk.refundPayment<PaymentRefund>(paymentId, data, gatewayConfig);
+  }
+}
+
+/** Singleton instance of the MoyasarApiService */
+export const moyasarApi = new MoyasarApiService();
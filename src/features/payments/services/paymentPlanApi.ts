@@ -0,0 +1,109 @@
+import { ApiResponse } from "@/lib/apiClient";
+import * as sdk from "@/lib/sdk";
+import {
+  PaymentParty,
+  PaymentPlan,
+  PaymentPlanFilters,
+  PaymentPlanPayload,
+  PaymentPlanStatistics,
+  PaymentPlanStatus,
+} from "../types";
+
+/**
+ * Payment Plan API Service
+ * Handles the installment schedule of awarded projects
+ */
+class PaymentPlanApiService {
+  /**
+   * Get the payment plans of a project
+   */
+  async getPaymentPlans(
+    party: PaymentParty,
+    projectId: number | string,
+    filters?: PaymentPlanFilters
+  ): Promise<ApiResponse<PaymentPlan[]>> {
+    return party === "owner"
+      ? sdk.ownerGetProjectPaymentPlans<PaymentPlan[]>(projectId, filters)
+      : sdk.contractorGetProjectPaymentPlans<PaymentPlan[]>(projectId, filters);
+  }
+
+  /**
+   * Get a single payment plan
+   */
+  async getPaymentPlan(
+    party: PaymentParty,
+    planId: number | string
+  ): Promise<ApiResponse<PaymentPlan>> {
+    return party === "owner"
+      ? sdk.ownerShowProjectPaymentPlan<PaymentPlan>(planId)
+      : sdk.contractorShowProjectPaymentPlan<PaymentPlan>(planId);
+  }
+
+  /**
+   * Add an installment to a project phase (contractor)
+   */
+  async createPaymentPlan(
+    phaseId: number | string,
+    data: PaymentPlanPayload
+  ): Promise<ApiResponse<PaymentPlan>> {
+    return sdk.contractorStoreProjectPaymentPlan<PaymentPlan>(phaseId, data);
+  }
+
+  /**
+   * Update an installment (contractor)
+   */
+  async updatePaymentPlan(
+    planId: number | string,
+    data: Partial<PaymentPlanPayload> & { status?: PaymentPlanStatus }
+  ): Promise<ApiResponse<PaymentPlan>> {
+    return sdk.contractorUpdateProjectPaymentPlan<PaymentPlan>(planId, data);
+  }
+
+  /**
+   * Delete an installment (contractor)
+   */
+  async deletePaymentPlan(planId: number | string): Promise<ApiResponse> {
+    return sdk.contractorDeleteProjectPaymentPlan(planId);
+  }
+
+  /**
+   * Lock an agreed installment so it can no longer change
+   */
+  async lockPaymentPlan(
+    party: PaymentParty,
+    planId: number | string
+  ): Promise<ApiResponse<PaymentPlan>> {
+    return party === "owner"
+      ? sdk.ownerLockPaymentPlan<PaymentPlan>(planId)
+      : sdk.contractorLockPaymentPlan<PaymentPlan>(planId);
+  }
+
+  /**
+   * Persist a new order of the installments (contractor)
+   */
+  async reorderPaymentPlans(
+    projectId: number | string,
+    planIds: number[]
+  ): Promise<ApiResponse> {
+    return sdk.contractorReorderPaymentPlans(projectId, {
+      payment_plan_ids: planIds,
+    });
+  }
+
+  /**
+   * Get the paid and unpaid totals of a project
+   */
+  async getStatistics(
+    party: PaymentParty,
+    projectId: number | string
+  ): Promise<ApiResponse<PaymentPlanStatistics>> {
+    return party === "owner"
+      ? sdk.ownerGetPaymentPlanStats<PaymentPlanStatistics>(projectId)
+      : sdk.contractorGetPaymentPlanStats<PaymentPlanStatistics>(projectId);
+  }
+}
+
+/**
+ * Singleton instance of the PaymentPlanApiService
+ */
+export const paymentPlanApi = new PaymentPlanApiService();
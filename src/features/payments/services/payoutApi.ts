@@ -0,0 +1,16 @@
+import { ApiResponse } from "@/lib/apiClient";
+import * as sdk from "@/lib/sdk";
+import { PayoutRequestPayload } from "../types";
+
+/**
+ * Payout API Service
+ * Contractors ask for the release of installments the owner paid
+ */
+class PayoutApiService {
+  async requestPayout(data: PayoutRequestPayload): Promise<ApiResponse> {
+    return sdk.createContractorPayoutRequest(data);
+  }
+}
+
+/** Singleton instance of the PayoutApiService */
+export const payoutApi = new PayoutApiService();
@@ -0,0 +1,41 @@
+export type {
+  PaymentParty,
+  PaymentPlanStatus,
+  PaymentDueStatus,
+  PaymentPlanPhase,
+  PaymentPlan,
+  PaymentPlanStatistics,
+  PaymentPlanPayload,
+  PaymentPlanFilters,
+  PaymentProject,
+} from "./paymentPlan";
+export type {
+  MoyasarMethod,
+  MoyasarPaymentStatus,
+  CheckoutOutcome,
+  MoyasarSource,
+  MoyasarPayment,
+  CheckoutRequest,
+  MoyasarPaymentPayload,
+  CreditCardDetails,
+  StcPayDetails,
+  ApplePayDetails,
+  SadadDetails,
+  MoyasarMethodDetails,
+  CreatePaymentHandler,
+} from "./moyasar";
+export type {
+  RefundStatus,
+  PaymentRefund,
+  RefundEligibility,
+  RefundStatusSummary,
+  RefundPayload,
+  RefundOverview,
+} from "./refund";
+export type {
+  BankAccountStatus,
+  BankType,
+  BankAccount,
+  BankAccountPayload,
+  PayoutRequestPayload,
+} from "./payout";
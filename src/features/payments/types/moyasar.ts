@@ -0,0 +1,111 @@
+import { ApiResponse } from "@/lib/apiClient";
+
+// Checkout methods offered through the Moyasar gateway
+export type MoyasarMethod = "credit_card" | "stc_pay" | "apple_pay" | "sadad";
+
+export type MoyasarPaymentStatus =
+  | "initiated"
+  | "authorized"
+  | "paid"
+  | "captured"
+  | "verified"
+  | "failed"
+  | "voided"
+  | "refunded";
+
+export type CheckoutOutcome =
+  | "pending"
+  | "authorized"
+  | "success"
+  | "failed"
+  | "reversed";
+
+export interface MoyasarSource {
+  type: string;
+  company?: string | null;
+  name?: string | null;
+  number?: string | null;
+  message?: string | null;
+  // Set while the payer still has to complete 3-D Secure or an OTP step
+  transaction_url?: string | null;
+}
+
+export interface MoyasarPayment {
+  id: string;
+  status: MoyasarPaymentStatus;
+  // Amounts are in halalas
+  amount: number;
+  fee?: number;
+  currency: string;
+  description?: string | null;
+  captured?: number;
+  captured_at?: string | null;
+  refunded?: number;
+  refunded_at?: string | null;
+  voided_at?: string | null;
+  source?: MoyasarSource | null;
+  metadata?: Record<string, string> | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+/** What the caller is charging for, amounts in SAR */
+export interface CheckoutRequest {
+  amount: number;
+  description: string;
+  orderId: string;
+  payableId?: number;
+  payableType?: string;
+  metadata?: Record<string, string>;
+  // Dashboard path the result page links back to
+  returnPath?: string;
+}
+
+export interface MoyasarPaymentPayload {
+  amount: number;
+  currency: string;
+  description: string;
+  order_id: string;
+  callback_url?: string;
+  back_url?: string;
+  metadata?: Record<string, string>;
+  payable_id?: number;
+  payable_type?: string;
+}
+
+export interface CreditCardDetails {
+  card_holder_name: string;
+  card_number: string;
+  month: string;
+  year: string;
+  cvc: string;
+}
+
+export interface StcPayDetails {
+  mobile: string;
+}
+
+export interface ApplePayDetails {
+  token: string;
+}
+
+export interface SadadDetails {
+  username: string;
+}
+
+export type MoyasarMethodDetails = {
+  credit_card: CreditCardDetails;
+  stc_pay: StcPayDetails;
+  apple_pay: ApplePayDetails;
+  sadad: SadadDetails;
+};
+
+/**
+ * Creates the payment for a checkout, the gateway endpoints by default.
+ * Flows with their own checkout endpoint (e.g. subscriptions) pass one in.
+ */
+export type CreatePaymentHandler = <M extends MoyasarMethod>(
+  method: M,
+  payload: MoyasarPaymentPayload,
+  details: MoyasarMethodDetails[M]
+) => Promise<ApiResponse<MoyasarPayment>>;
@@ -0,0 +1,63 @@
+/** Which side of the project the current user is acting for */
+export type PaymentParty = "owner" | "contractor";
+
+export type PaymentPlanStatus = "pending" | "due" | "paid" | "cancelled";
+
+/** Due state shown to the user, derived from the status and the due date */
+export type PaymentDueStatus = "paid" | "overdue" | "due_soon" | "upcoming";
+
+export interface PaymentPlanPhase {
+  id: number;
+  title: string;
+}
+
+export interface PaymentPlan {
+  id: number;
+  project_id: number;
+  project_phase_id: number | null;
+  name: string;
+  amount: number | string | null;
+  percentage_of_contract?: number | string | null;
+  due_on?: string | null;
+  sort_order: number;
+  status: PaymentPlanStatus;
+  is_locked?: boolean;
+  locked_at?: string | null;
+  paid_at?: string | null;
+  reference_note?: string | null;
+  user_bank_account_id?: number | null;
+  // Gateway payment that settled the installment
+  provider_payment_id?: string | null;
+  phase?: PaymentPlanPhase | null;
+  created_at?: string;
+}
+
+export interface PaymentPlanStatistics {
+  plans_count: number;
+  paid_count: number;
+  overdue_count: number;
+  total_amount: number;
+  paid_amount: number;
+  unpaid_amount: number;
+}
+
+export interface PaymentPlanPayload {
+  name: string;
+  amount?: number;
+  percentage_of_contract?: number;
+  due_on?: string;
+  reference_note?: string;
+  sort_order?: number;
+}
+
+export interface PaymentPlanFilters {
+  status?: PaymentPlanStatus;
+  project_phase_id?: number;
+}
+
+/** A signed project the user can see payments for */
+export interface PaymentProject {
+  id: number;
+  title: string;
+  contract_id: number;
+}
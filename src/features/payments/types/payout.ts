@@ -0,0 +1,45 @@
+export type BankAccountStatus =
+  | "pending"
+  | "verified"
+  | "rejected"
+  | "disabled";
+
+export interface BankType {
+  id: number;
+  code: string;
+  name: string;
+  name_ar?: string | null;
+  is_active?: boolean;
+}
+
+export interface BankAccount {
+  id: number;
+  bank_type_id: number;
+  bank_type?: BankType | null;
+  full_name: string;
+  iban?: string | null;
+  account_number?: string | null;
+  swift_bic?: string | null;
+  branch_name?: string | null;
+  is_primary: boolean;
+  // Only verified accounts can receive payouts
+  status: BankAccountStatus;
+  created_at?: string;
+}
+
+export interface BankAccountPayload {
+  bank_type_id: number;
+  full_name: string;
+  iban: string;
+  account_number?: string;
+  swift_bic?: string;
+  branch_name?: string;
+  is_primary?: boolean;
+}
+
+/** Asks the platform to release a paid installment to the contractor */
+export interface PayoutRequestPayload {
+  payment_id: number;
+  note?: string;
+}
+
@@ -0,0 +1,37 @@
+export type RefundStatus = "pending" | "succeeded" | "failed";
+
+export interface PaymentRefund {
+  id: number | string;
+  // Amounts are in halalas
+  amount: number;
+  status: RefundStatus;
+  reason?: string | null;
+  description?: string | null;
+  created_at: string;
+  settled_at?: string | null;
+}
+
+export interface RefundEligibility {
+  can_refund: boolean;
+  reason?: string | null;
+}
+
+export interface RefundStatusSummary {
+  status?: string;
+  refunds: PaymentRefund[];
+}
+
+export interface RefundPayload {
+  amount?: number;
+  reason?: string;
+  description?: string;
+}
+
+/** Everything the refund panel shows for one payment, amounts in SAR */
+export interface RefundOverview {
+  canRefund: boolean;
+  blockedReason?: string | null;
+  refundableAmount: number;
+  refundedAmount: number;
+  refunds: PaymentRefund[];
+}
@@ -0,0 +1,37 @@
+// Saudi IBANs are SA, two check digits, a two digit bank code and 18
+// account characters
+const SAUDI_IBAN_PATTERN = /^SA[0-9]{4}[0-9A-Z]{18}$/;
+
+export const normalizeIban = (value: string) =>
+  value.replace(/\s+/g, "").toUpperCase();
+
+/** Groups of four, the way IBANs are printed on bank documents */
+export const formatIban = (value: string) =>
+  normalizeIban(value).replace(/(.{4})(?=.)/g, "$1 ");
+
+/** Last characters only, enough for the owner to recognise the account */
+export const maskIban = (value: string) => {
+  const iban = normalizeIban(value);
+  return iban.length > 4 ? `•••• ${iban.slice(-4)}` : iban;
+};
+
+// ISO 13616: the country code and check digits move to the end, letters
+// become numbers and the result must leave 1 modulo 97
+const hasValidChecksum = (iban: string) => {
+  const rearranged = `${iban.slice(4)}${iban.slice(0, 4)}`;
+  const digits = rearranged.replace(/[A-Z]/g, (letter) =>
+    String(letter.charCodeAt(0) - 55)
+  );
+
+  // Chunked so the number never exceeds what a double holds exactly
+  let remainder = 0;
+  for (let index = 0; index < digits.length; index += 7) {
+    remainder = Number(`${remainder}${digits.slice(index, index + 7)}`) % 97;
+  }
+  return remainder === 1;
+};
+
+export const isValidSaudiIban = (value: string) => {
+  const iban = normalizeIban(value);
+  return SAUDI_IBAN_PATTERN.test(iban) && hasValidChecksum(iban);
+};
@@ -0,0 +1,7 @@
+export * from "./validation";
+export * from "./validationMessages";
+export * from "./paymentPlans";
+export * from "./moyasar";
+export * from "./refunds";
+export * from "./iban";
+export * from "./payouts";
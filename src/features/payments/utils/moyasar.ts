@@ -0,0 +1,96 @@
+import {
+  CheckoutOutcome,
+  CheckoutRequest,
+  MoyasarPayment,
+  MoyasarPaymentPayload,
+  MoyasarPaymentStatus,
+} from "../types";
+import {
+  MOYASAR_CURRENCY,
+  MOYASAR_FINAL_STATUSES,
+  PAYMENT_RESULT_PATH,
+} from "../constants";
+
+/** Moyasar takes amounts in the smallest currency unit */
+export const toHalalas = (amount: number) => Math.round(amount * 100);
+
+export const fromHalalas = (amount?: number | null) => (amount ?? 0) / 100;
+
+export const isFinalStatus = (status: MoyasarPaymentStatus) =>
+  MOYASAR_FINAL_STATUSES.includes(status);
+
+export const getCheckoutOutcome = (
+  status: MoyasarPaymentStatus
+): CheckoutOutcome => {
+  switch (status) {
+    case "paid":
+    case "captured":
+    case "verified":
+      return "success";
+    // Reserved on the card, waits for a capture or void
+    case "authorized":
+      return "authorized";
+    case "failed":
+      return "failed";
+    case "voided":
+    case "refunded":
+      return "reversed";
+    default:
+      return "pending";
+  }
+};
+
+/** Luhn check, catches typos before the gateway does */
+export const isValidCardNumber = (value: string) => {
+  if (!/^[0-9]{12,19}$/.test(value)) return false;
+
+  let sum = 0;
+  for (let index = 0; index < value.length; index++) {
+    let digit = Number(value[value.length - 1 - index]);
+    if (index % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+};
+
+/** Moyasar expects STC Pay numbers in international format */
+export const toInternationalMobile = (mobile: string) =>
+  mobile.startsWith("0") ? `966${mobile.slice(1)}` : mobile;
+
+export const buildPaymentResultPath = (
+  returnPath?: string,
+  paymentId?: string
+) => {
+  const params = new URLSearchParams();
+  // Moyasar appends its own id, status and message to the callback
+  if (paymentId) params.append("id", paymentId);
+  if (returnPath) params.append("return_to", returnPath);
+
+  const queryString = params.toString();
+  return queryString
+    ? `${PAYMENT_RESULT_PATH}?${queryString}`
+    : PAYMENT_RESULT_PATH;
+};
+
+export const toMoyasarPaymentPayload = (
+  checkout: CheckoutRequest
+): MoyasarPaymentPayload => ({
+  amount: toHalalas(checkout.amount),
+  currency: MOYASAR_CURRENCY,
+  description: checkout.description,
+  order_id: checkout.orderId,
+  callback_url: `${window.location.origin}${buildPaymentResultPath(
+    checkout.returnPath
+  )}`,
+  back_url: window.location.href,
+  metadata: checkout.metadata,
+  payable_id: checkout.payableId,
+  payable_type: checkout.payableType,
+});
+
+// The gateway asks for confirmation on its own page, e.g. 3-D Secure
+export const getRedirectUrl = (payment: MoyasarPayment) =>
+  payment.status === "initiated" ? payment.source?.transaction_url : null;
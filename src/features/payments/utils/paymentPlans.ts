@@ -0,0 +1,107 @@
+import { CalendarEvent } from "@/features/dashboard/types";
+import {
+  PaymentDueStatus,
+  PaymentPlan,
+  PaymentPlanPayload,
+  PaymentPlanStatistics,
+  PaymentProject,
+} from "../types";
+import { PAYMENT_DUE_SOON_DAYS } from "../constants";
+import { PaymentPlanFormValues } from "./validation";
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+export const toAmount = (value?: number | string | null): number => {
+  const amount = Number(value ?? 0);
+  return Number.isFinite(amount) ? amount : 0;
+};
+
+/** Orders installments the way the contractor arranged them */
+export const sortPaymentPlans = (plans: PaymentPlan[]): PaymentPlan[] =>
+  plans.slice().sort((a, b) => a.sort_order - b.sort_order);
+
+export const isPlanPaid = (plan: PaymentPlan) =>
+  plan.status === "paid" || Boolean(plan.paid_at);
+
+export const getDueStatus = (
+  plan: PaymentPlan,
+  now = Date.now()
+): PaymentDueStatus => {
+  if (isPlanPaid(plan)) return "paid";
+  if (!plan.due_on) return "upcoming";
+
+  const dueAt = new Date(plan.due_on).getTime();
+  // Due dates have no time, the whole due day still counts as on time
+  if (dueAt + DAY_IN_MS < now) return "overdue";
+  if (dueAt - now <= PAYMENT_DUE_SOON_DAYS * DAY_IN_MS) return "due_soon";
+  return "upcoming";
+};
+
+/** Same totals as the statistics endpoint, derived from the plan list */
+export const computePaymentStatistics = (
+  plans: PaymentPlan[]
+): PaymentPlanStatistics => {
+  const sumAmounts = (items: PaymentPlan[]) =>
+    items.reduce((sum, plan) => sum + toAmount(plan.amount), 0);
+
+  const active = plans.filter((plan) => plan.status !== "cancelled");
+  const paid = active.filter(isPlanPaid);
+  const overdue = active.filter((plan) => getDueStatus(plan) === "overdue");
+
+  return {
+    plans_count: active.length,
+    paid_count: paid.length,
+    overdue_count: overdue.length,
+    total_amount: sumAmounts(active),
+    paid_amount: sumAmounts(paid),
+    unpaid_amount: sumAmounts(active) - sumAmounts(paid),
+  };
+};
+
+/** Unpaid installments as dashboard calendar events */
+export const toPaymentDueEvents = (
+  plans: PaymentPlan[],
+  project: PaymentProject
+): CalendarEvent[] =>
+  plans
+    .filter(
+      (plan) => plan.due_on && !isPlanPaid(plan) && plan.status !== "cancelled"
+    )
+    .map((plan) => ({
+      id: `payment-plan-${plan.id}`,
+      title: plan.name,
+      description: project.title,
+      startDate: plan.due_on!,
+      endDate: plan.due_on!,
+      type: "payment_due",
+      status: "upcoming",
+      relatedEntityId: String(project.id),
+      relatedEntityType: "project",
+    }));
+
+export const toPaymentPlanFormValues = (
+  plan?: PaymentPlan
+): PaymentPlanFormValues => ({
+  name: plan?.name ?? "",
+  project_phase_id: plan?.project_phase_id
+    ? String(plan.project_phase_id)
+    : "",
+  amount: plan?.amount ? String(toAmount(plan.amount)) : "",
+  percentage_of_contract: plan?.percentage_of_contract
+    ? String(toAmount(plan.percentage_of_contract))
+    : "",
+  due_on: plan?.due_on?.slice(0, 10) ?? "",
+  reference_note: plan?.reference_note ?? "",
+});
+
+export const toPaymentPlanPayload = (
+  values: PaymentPlanFormValues
+): PaymentPlanPayload => ({
+  name: values.name,
+  amount: values.amount ? Number(values.amount) : undefined,
+  percentage_of_contract: values.percentage_of_contract
+    ? Number(values.percentage_of_contract)
+    : undefined,
+  due_on: values.due_on || undefined,
+  reference_note: values.reference_note || undefined,
+});
@@ -0,0 +1,78 @@
+import { ProjectPhase } from "@/features/phases/types";
+import { isPhaseClosed } from "@/features/phases/utils/phases";
+import {
+  BankAccount,
+  BankAccountPayload,
+  PaymentPlan,
+  PayoutRequestPayload,
+} from "../types";
+import { BankAccountFormValues, PayoutFormValues } from "./validation";
+import { isPlanPaid, toAmount } from "./paymentPlans";
+import { normalizeIban } from "./iban";
+
+/** Primary account first, then the newest */
+export const sortBankAccounts = (accounts: BankAccount[]): BankAccount[] =>
+  accounts
+    .slice()
+    .sort(
+      (a, b) =>
+        Number(b.is_primary) - Number(a.is_primary) ||
+        new Date(b.created_at ?? 0).getTime() -
+          new Date(a.created_at ?? 0).getTime()
+    );
+
+// Payouts always go to the primary account, and only once it is verified
+export const canReceivePayouts = (account: BankAccount) =>
+  account.is_primary && account.status === "verified";
+
+export const toBankAccountFormValues = (
+  account?: BankAccount
+): BankAccountFormValues => ({
+  bank_type_id: account ? String(account.bank_type_id) : "",
+  full_name: account?.full_name ?? "",
+  iban: account?.iban ?? "",
+  account_number: account?.account_number ?? "",
+  swift_bic: account?.swift_bic ?? "",
+  branch_name: account?.branch_name ?? "",
+  is_primary: account?.is_primary ?? false,
+});
+
+export const toBankAccountPayload = (
+  values: BankAccountFormValues
+): BankAccountPayload => ({
+  bank_type_id: Number(values.bank_type_id),
+  full_name: values.full_name,
+  iban: normalizeIban(values.iban),
+  account_number: values.account_number || undefined,
+  swift_bic: values.swift_bic.toUpperCase() || undefined,
+  branch_name: values.branch_name || undefined,
+  is_primary: values.is_primary,
+});
+
+/**
+ * Installments the contractor can withdraw: paid by the owner and, when
+ * tied to a phase, with that phase closed. A plan whose phase isn't loaded
+ * is held back until it is.
+ */
+export const getPayablePlans = (
+  plans: PaymentPlan[],
+  phases: ProjectPhase[]
+): PaymentPlan[] =>
+  plans.filter((plan) => {
+    if (plan.status === "cancelled" || !isPlanPaid(plan)) return false;
+    if (plan.project_phase_id === null) return true;
+
+    const phase = phases.find((item) => item.id === plan.project_phase_id);
+    return !!phase && isPhaseClosed(phase);
+  });
+
+/** Total of the payable installments in SAR, requested or not */
+export const getPayableAmount = (plans: PaymentPlan[]) =>
+  plans.reduce((sum, plan) => sum + toAmount(plan.amount), 0);
+
+export const toPayoutPayload = (
+  values: PayoutFormValues
+): PayoutRequestPayload => ({
+  payment_id: Number(values.payment_id),
+  note: values.note || undefined,
+});
@@ -0,0 +1,37 @@
+import { PaymentRefund, RefundPayload } from "../types";
+import { RefundFormValues } from "./validation";
+import { toHalalas } from "./moyasar";
+
+/** Amount endpoints answer with a bare number or a keyed object */
+export const readHalalas = (data: unknown, key: string): number => {
+  const value =
+    data && typeof data === "object"
+      ? (data as Record<string, unknown>)[key]
+      : data;
+  const amount = Number(value ?? 0);
+  return Number.isFinite(amount) ? amount : 0;
+};
+
+/** Newest refunds first */
+export const sortRefunds = (refunds: PaymentRefund[]): PaymentRefund[] =>
+  refunds
+    .slice()
+    .sort(
+      (a, b) =>
+        new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+    );
+
+export const hasPendingRefunds = (refunds: PaymentRefund[]) =>
+  refunds.some((refund) => refund.status === "pending");
+
+/** Refunds still in flight are reserved against the refundable amount */
+export const getPendingRefundTotal = (refunds: PaymentRefund[]) =>
+  refunds
+    .filter((refund) => refund.status === "pending")
+    .reduce((sum, refund) => sum + refund.amount, 0);
+
+export const toRefundPayload = (values: RefundFormValues): RefundPayload => ({
+  amount: toHalalas(Number(values.amount)),
+  reason: values.reason.trim() || undefined,
+  description: values.description.trim() || undefined,
+});
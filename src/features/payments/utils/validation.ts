@@ -0,0 +1,218 @@
+"use client";
+import { z } from "zod";
+import {
+  getBankAccountValidationMessages,
+  getCheckoutValidationMessages,
+  getPaymentPlanValidationMessages,
+  getPayoutValidationMessages,
+  getRefundValidationMessages,
+} from "./validationMessages";
+import { isValidCardNumber } from "./moyasar";
+import { isValidSaudiIban } from "./iban";
+import {
+  BANK_ACCOUNT_LIMITS,
+  PAYMENT_PLAN_LIMITS,
+  PAYOUT_LIMITS,
+  REFUND_LIMITS,
+} from "../constants";
+
+// Empty inputs stay empty strings so the fields remain controlled
+const positiveNumber = (message: string, max?: number) =>
+  z
+    .string()
+    .trim()
+    .refine(
+      (value) =>
+        value === "" ||
+        (!Number.isNaN(Number(value)) &&
+          Number(value) > 0 &&
+          (max === undefined || Number(value) <= max)),
+      message
+    );
+
+export const createPaymentPlanValidationSchemas = (
+  t: (key: string) => string
+) => {
+  const messages = getPaymentPlanValidationMessages(t);
+
+  const PaymentPlanSchema = z
+    .object({
+      name: z
+        .string()
+        .trim()
+        .min(1, messages.name.required)
+        .max(PAYMENT_PLAN_LIMITS.nameMax, messages.name.maxLength),
+      project_phase_id: z.string().min(1, messages.phase.required),
+      amount: positiveNumber(messages.amount.invalid),
+      percentage_of_contract: positiveNumber(messages.percentage.invalid, 100),
+      due_on: z.string(),
+      reference_note: z
+        .string()
+        .trim()
+        .max(
+          PAYMENT_PLAN_LIMITS.referenceNoteMax,
+          messages.referenceNote.maxLength
+        ),
+    })
+    // An installment is either a fixed amount or a share of the contract
+    .refine(
+      (values) => values.amount !== "" || values.percentage_of_contract !== "",
+      { message: messages.amount.required, path: ["amount"] }
+    );
+
+  return { PaymentPlanSchema };
+};
+
+export type PaymentPlanFormValues = z.infer<
+  ReturnType<typeof createPaymentPlanValidationSchemas>["PaymentPlanSchema"]
+>;
+
+const saPhoneRegex = /^05[0-9]{8}$/; // Saudi phone number format: 05XXXXXXXX
+
+export const createCheckoutValidationSchemas = (
+  t: (key: string) => string
+) => {
+  const messages = getCheckoutValidationMessages(t);
+
+  const CreditCardSchema = z
+    .object({
+      card_holder_name: z
+        .string()
+        .trim()
+        .min(1, messages.cardHolder.required),
+      card_number: z
+        .string()
+        .transform((value) => value.replace(/\s+/g, ""))
+        .refine(isValidCardNumber, messages.cardNumber.invalid),
+      month: z.string().regex(/^(0[1-9]|1[0-2])$/, messages.month.invalid),
+      year: z.string().regex(/^20[0-9]{2}$/, messages.year.invalid),
+      cvc: z.string().regex(/^[0-9]{3,4}$/, messages.cvc.invalid),
+    })
+    // Cards stay valid until the end of their expiry month
+    .refine(
+      (values) =>
+        new Date(Number(values.year), Number(values.month), 1).getTime() >
+        Date.now(),
+      { message: messages.expiry.past, path: ["month"] }
+    );
+
+  const StcPaySchema = z.object({
+    mobile: z.string().trim().regex(saPhoneRegex, messages.mobile.invalid),
+  });
+
+  const SadadSchema = z.object({
+    username: z.string().trim().min(1, messages.username.required),
+  });
+
+  return { CreditCardSchema, StcPaySchema, SadadSchema };
+};
+
+type CheckoutSchemas = ReturnType<typeof createCheckoutValidationSchemas>;
+
+export type CreditCardFormValues = z.input<CheckoutSchemas["CreditCardSchema"]>;
+export type StcPayFormValues = z.infer<CheckoutSchemas["StcPaySchema"]>;
+export type SadadFormValues = z.infer<CheckoutSchemas["SadadSchema"]>;
+
+/**
+ * Refund form, the amount is capped at what is still refundable (in SAR)
+ * so the gateway never sees an over-refund
+ */
+export const createRefundValidationSchemas = (
+  t: (key: string) => string,
+  maxAmount: number
+) => {
+  const messages = getRefundValidationMessages(t);
+
+  const RefundSchema = z.object({
+    amount: z
+      .string()
+      .trim()
+      .min(1, messages.amount.required)
+      .refine(
+        (value) => !Number.isNaN(Number(value)) && Number(value) > 0,
+        messages.amount.invalid
+      )
+      .refine((value) => Number(value) <= maxAmount, messages.amount.exceeds),
+    reason: z
+      .string()
+      .trim()
+      .min(1, messages.reason.required)
+      .max(REFUND_LIMITS.reasonMax, messages.reason.maxLength),
+    description: z
+      .string()
+      .trim()
+      .max(REFUND_LIMITS.descriptionMax, messages.description.maxLength),
+  });
+
+  return { RefundSchema };
+};
+
+export type RefundFormValues = z.infer<
+  ReturnType<typeof createRefundValidationSchemas>["RefundSchema"]
+>;
+
+// 8 or 11 characters: bank, country, location and an optional branch
+const swiftBicRegex = /^[A-Z]{6}[A-Z0-9]{2}([A-Z0-9]{3})?$/;
+
+export const createBankAccountValidationSchemas = (
+  t: (key: string) => string
+) => {
+  const messages = getBankAccountValidationMessages(t);
+
+  const BankAccountSchema = z.object({
+    bank_type_id: z.string().min(1, messages.bank.required),
+    full_name: z
+      .string()
+      .trim()
+      .min(1, messages.fullName.required)
+      .max(BANK_ACCOUNT_LIMITS.fullNameMax, messages.fullName.maxLength),
+    iban: z
+      .string()
+      .trim()
+      .min(1, messages.iban.required)
+      .refine(isValidSaudiIban, messages.iban.invalid),
+    account_number: z
+      .string()
+      .trim()
+      .max(
+        BANK_ACCOUNT_LIMITS.accountNumberMax,
+        messages.accountNumber.maxLength
+      ),
+    swift_bic: z
+      .string()
+      .trim()
+      .refine(
+        (value) => value === "" || swiftBicRegex.test(value.toUpperCase()),
+        messages.swiftBic.invalid
+      ),
+    branch_name: z
+      .string()
+      .trim()
+      .max(BANK_ACCOUNT_LIMITS.branchNameMax, messages.branchName.maxLength),
+    is_primary: z.boolean(),
+  });
+
+  return { BankAccountSchema };
+};
+
+export type BankAccountFormValues = z.infer<
+  ReturnType<typeof createBankAccountValidationSchemas>["BankAccountSchema"]
+>;
+
+export const createPayoutValidationSchemas = (t: (key: string) => string) => {
+  const messages = getPayoutValidationMessages(t);
+
+  const PayoutSchema = z.object({
+    payment_id: z.string().min(1, messages.installment.required),
+    note: z
+      .string()
+      .trim()
+      .max(PAYOUT_LIMITS.noteMax, messages.note.maxLength),
+  });
+
+  return { PayoutSchema };
+};
+
+export type PayoutFormValues = z.infer<
+  ReturnType<typeof createPayoutValidationSchemas>["PayoutSchema"]
+>;
@@ -0,0 +1,98 @@
+"use client";
+export const getPaymentPlanValidationMessages = (
+  t: (key: string) => string
+) => ({
+  name: {
+    required: t("feedback.validation.paymentPlan.name.required"),
+    maxLength: t("feedback.validation.paymentPlan.name.maxLength"),
+  },
+  phase: {
+    required: t("feedback.validation.paymentPlan.phase.required"),
+  },
+  amount: {
+    invalid: t("feedback.validation.paymentPlan.amount.invalid"),
+    required: t("feedback.validation.paymentPlan.amount.required"),
+  },
+  percentage: {
+    invalid: t("feedback.validation.paymentPlan.percentage.invalid"),
+  },
+  referenceNote: {
+    maxLength: t("feedback.validation.paymentPlan.referenceNote.maxLength"),
+  },
+});
+
+export const getCheckoutValidationMessages = (t: (key: string) => string) => ({
+  cardHolder: {
+    required: t("feedback.validation.checkout.cardHolder.required"),
+  },
+  cardNumber: {
+    invalid: t("feedback.validation.checkout.cardNumber.invalid"),
+  },
+  month: {
+    invalid: t("feedback.validation.checkout.month.invalid"),
+  },
+  year: {
+    invalid: t("feedback.validation.checkout.year.invalid"),
+  },
+  expiry: {
+    past: t("feedback.validation.checkout.expiry.past"),
+  },
+  cvc: {
+    invalid: t("feedback.validation.checkout.cvc.invalid"),
+  },
+  mobile: {
+    invalid: t("feedback.validation.checkout.mobile.invalid"),
+  },
+  username: {
+    required: t("feedback.validation.checkout.username.required"),
+  },
+});
+
+export const getRefundValidationMessages = (t: (key: string) => string) => ({
+  amount: {
+    required: t("feedback.validation.refund.amount.required"),
+    invalid: t("feedback.validation.refund.amount.invalid"),
+    exceeds: t("feedback.validation.refund.amount.exceeds"),
+  },
+  reason: {
+    required: t("feedback.validation.refund.reason.required"),
+    maxLength: t("feedback.validation.refund.reason.maxLength"),
+  },
+  description: {
+    maxLength: t("feedback.validation.refund.description.maxLength"),
+  },
+});
+
+export const getBankAccountValidationMessages = (
+  t: (key: string) => string
+) => ({
+  bank: {
+    required: t("feedback.validation.bankAccount.bank.required"),
+  },
+  fullName: {
+    required: t("feedback.validation.bankAccount.fullName.required"),
+    maxLength: t("feedback.validation.bankAccount.fullName.maxLength"),
+  },
+  iban: {
+    required: t("feedback.validation.bankAccount.iban.required"),
+    invalid: t("feedback.validation.bankAccount.iban.invalid"),
+  },
+  accountNumber: {
+    maxLength: t("feedback.validation.bankAccount.accountNumber.maxLength"),
+  },
+  swiftBic: {
+    invalid: t("feedback.validation.bankAccount.swiftBic.invalid"),
+  },
+  branchName: {
+    maxLength: t("feedback.validation.bankAccount.branchName.maxLength"),
+  },
+});
+
+export const getPayoutValidationMessages = (t: (key: string) => string) => ({
+  installment: {
+    required: t("feedback.validation.payout.installment.required"),
+  },
+  note: {
+    maxLength: t("feedback.validation.payout.note.maxLength"),
+  },
+});
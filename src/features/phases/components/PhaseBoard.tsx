@@ -0,0 +1,440 @@
+"use client";
+import React, { useState } from "react";
+import { useTranslations } from "next-intl";
+import {
+  ArrowDown,
+  ArrowUp,
+  CalendarDays,
+  Check,
+  ChevronsRight,
+  FileCheck2,
+  ListOrdered,
+  Pencil,
+  Plus,
+  Trash2,
+  Undo2,
+  X,
+} from "lucide-react";
+import toast from "react-hot-toast";
+import { twMerge } from "tailwind-merge";
+import { Badge } from "@/shared/components/ui/badge";
+import { Button } from "@/shared/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from "@/shared/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/shared/components/ui/alert-dialog";
+import { useLocale } from "@/hooks/useLocale";
+import { PhaseClosureRequest, ProjectPhase } from "../types";
+import {
+  ClosureFormValues,
+  PhaseFormValues,
+  RejectionFormValues,
+} from "../utils/validation";
+import {
+  getCurrentClosureRequest,
+  getNextStatus,
+  isPhaseClosed,
+} from "../utils/phases";
+import { PhaseClosureDialog } from "./PhaseClosureDialog";
+import { PhaseClosureTimeline } from "./PhaseClosureTimeline";
+import { PhaseFormDialog } from "./PhaseFormDialog";
+import { PhaseStatusBadge } from "./PhaseStatusBadge";
+import { RejectClosureDialog } from "./RejectClosureDialog";
+
+type ActionResult = { success: boolean; message?: string };
+
+interface PhaseBoardProps {
+  phases: ProjectPhase[];
+  canManage: boolean;
+  isSaving: boolean;
+  onAdd: (values: PhaseFormValues) => Promise<ActionResult>;
+  onUpdate: (
+    phaseId: number,
+    values: PhaseFormValues
+  ) => Promise<ActionResult>;
+  onRemove: (phaseId: number) => Promise<ActionResult>;
+  onMove: (phaseId: number, direction: -1 | 1) => Promise<ActionResult>;
+  onAdvance: (phaseId: number) => Promise<ActionResult>;
+  onSubmitClosure: (
+    phaseId: number,
+    values: ClosureFormValues
+  ) => Promise<ActionResult>;
+  onCancelClosure: (requestId: number) => Promise<ActionResult>;
+  onApproveClosure: (requestId: number) => Promise<ActionResult>;
+  onRejectClosure: (
+    requestId: number,
+    reason: string
+  ) => Promise<ActionResult>;
+}
+
+/**
+ * Contractors plan the phases and submit them, owners open them. Finishing
+ * one goes through a closure request the owner approves or rejects.
+ */
+
+export function PhaseBoard({
+  phases,
+  canManage,
+  isSaving,
+  onAdd,
+  onUpdate,
+  onRemove,
+  onMove,
+  onAdvance,
+  onSubmitClosure,
+  onCancelClosure,
+  onApproveClosure,
+  onRejectClosure,
+}: PhaseBoardProps) {
+  const t = useTranslations("phases.board");
+  const tClosure = useTranslations("phases.closure");
+  const tStatus = useTranslations("phases.statuses");
+  const { currentLocale } = useLocale();
+  const [editingPhase, setEditingPhase] = useState<ProjectPhase>();
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [removingPhase, setRemovingPhase] = useState<ProjectPhase>();
+  const [closingPhase, setClosingPhase] = useState<ProjectPhase>();
+  const [rejectingRequest, setRejectingRequest] =
+    useState<PhaseClosureRequest>();
+
+  const formatDate = (value?: string | null) =>
+    value ? new Date(value).toLocaleDateString(currentLocale) : null;
+
+  const openForm = (phase?: ProjectPhase) => {
+    setEditingPhase(phase);
+    setIsFormOpen(true);
+  };
+
+  const handleSubmit = async (values: PhaseFormValues) => {
+    const result = editingPhase
+      ? await onUpdate(editingPhase.id, values)
+      : await onAdd(values);
+
+    if (result.success) {
+      toast.success(result.message || t("saveSuccess"));
+    } else {
+      toast.error(result.message || t("saveError"));
+    }
+    return result.success;
+  };
+
+  const handleMove = async (phaseId: number, direction: -1 | 1) => {
+    const result = await onMove(phaseId, direction);
+    if (!result.success && result.message) {
+      toast.error(result.message);
+    }
+  };
+
+  const handleAdvance = async (phaseId: number) => {
+    const result = await onAdvance(phaseId);
+    if (!result.success) {
+      toast.error(result.message || t("statusError"));
+    }
+  };
+
+  const handleSubmitClosure = async (values: ClosureFormValues) => {
+    if (!closingPhase) return false;
+
+    const result = await onSubmitClosure(closingPhase.id, values);
+    if (result.success) {
+      toast.success(result.message || tClosure("submitSuccess"));
+    } else {
+      toast.error(result.message || tClosure("submitError"));
+    }
+    return result.success;
+  };
+
+  const handleClosureAction = async (
+    action: Promise<ActionResult>,
+    successMessage: string
+  ) => {
+    const result = await action;
+    if (result.success) {
+      toast.success(result.message || successMessage);
+    } else {
+      toast.error(result.message || tClosure("actionError"));
+    }
+  };
+
+  const handleReject = async (values: RejectionFormValues) => {
+    if (!rejectingRequest) return false;
+
+    const result = await onRejectClosure(rejectingRequest.id, values.reason);
+    if (result.success) {
+      toast.success(result.message || tClosure("rejectSuccess"));
+    } else {
+      toast.error(result.message || tClosure("actionError"));
+    }
+    return result.success;
+  };
+
+  const handleRemove = async () => {
+    if (!removingPhase) return;
+
+    const result = await onRemove(removingPhase.id);
+    if (result.success) {
+      toast.success(result.message || t("removeSuccess"));
+      setRemovingPhase(undefined);
+    } else {
+      toast.error(result.message || t("removeError"));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between gap-2">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <ListOrdered className="h-5 w-5 text-design-main" />
+          {t("title")}
+        </CardTitle>
+        {canManage && (
+          <Button size="sm" onClick={() => openForm()} disabled={isSaving}>
+            <Plus className="h-4 w-4" />
+            {t("add")}
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {phases.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {canManage ? t("emptyContractor") : t("emptyOwner")}
+          </p>
+        ) : (
+          <ol className="space-y-3">
+            {phases.map((phase, index) => {
+              const nextStatus = getNextStatus(phase.status);
+              // The contractor submits phases, the owner opens them
+              const advanceButton = nextStatus &&
+                nextStatus === (canManage ? "pending_approval" : "open") && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleAdvance(phase.id)}
+                    disabled={isSaving}
+                  >
+                    <ChevronsRight
+                      className={twMerge(
+                        "h-4 w-4",
+                        currentLocale === "ar" && "rotate-180"
+                      )}
+                    />
+                    {t("advanceTo", { status: tStatus(nextStatus) })}
+                  </Button>
+                );
+              const startDate = formatDate(phase.start_date);
+              const endDate = formatDate(phase.end_date);
+              const closure = getCurrentClosureRequest(phase);
+              const isAwaitingClosure = closure?.status === "pending";
+              const canRequestClosure =
+                phase.status === "open" &&
+                !isAwaitingClosure &&
+                !isPhaseClosed(phase);
+
+              return (
+                <li key={phase.id} className="rounded-md border p-3">
+                  <div className="flex flex-wrap items-start justify-between gap-2">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="text-sm text-muted-foreground">
+                        {index + 1}.
+                      </span>
+                      <p className="font-medium">{phase.title}</p>
+                      <PhaseStatusBadge status={phase.status} />
+                      {isAwaitingClosure && (
+                        <Badge
+                          variant="secondary"
+                          className="bg-yellow-100 text-yellow-800"
+                        >
+                          {tClosure("awaitingApproval")}
+                        </Badge>
+                      )}
+                    </div>
+                    {!canManage && closure && isAwaitingClosure && (
+                      <div className="flex flex-wrap gap-1">
+                        <Button
+                          size="sm"
+                          onClick={() =>
+                            handleClosureAction(
+                              onApproveClosure(closure.id),
+                              tClosure("approveSuccess")
+                            )
+                          }
+                          disabled={isSaving}
+                        >
+                          <Check className="h-4 w-4" />
+                          {tClosure("approve")}
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setRejectingRequest(closure)}
+                          disabled={isSaving}
+                        >
+                          <X className="h-4 w-4" />
+                          {tClosure("reject")}
+                        </Button>
+                      </div>
+                    )}
+                    {!canManage && advanceButton}
+                    {canManage && (
+                      <div className="flex flex-wrap gap-1">
+                        {advanceButton}
+                        {canRequestClosure && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setClosingPhase(phase)}
+                            disabled={isSaving}
+                          >
+                            <FileCheck2 className="h-4 w-4" />
+                            {tClosure("request")}
+                          </Button>
+                        )}
+                        {closure && isAwaitingClosure && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() =>
+                              handleClosureAction(
+                                onCancelClosure(closure.id),
+                                tClosure("cancelSuccess")
+                              )
+                            }
+                            disabled={isSaving}
+                          >
+                            <Undo2 className="h-4 w-4" />
+                            {tClosure("cancelRequest")}
+                          </Button>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          onClick={() => handleMove(phase.id, -1)}
+                          disabled={isSaving || index === 0}
+                          aria-label={t("moveUp")}
+                        >
+                          <ArrowUp className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          onClick={() => handleMove(phase.id, 1)}
+                          disabled={isSaving || index === phases.length - 1}
+                          aria-label={t("moveDown")}
+                        >
+                          <ArrowDown className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          onClick={() => openForm(phase)}
+                          disabled={isSaving}
+                          aria-label={t("edit")}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 text-destructive"
+                          onClick={() => setRemovingPhase(phase)}
+                          disabled={isSaving}
+                          aria-label={t("remove")}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                  {phase.description && (
+                    <p className="mt-2 whitespace-pre-wrap text-sm text-muted-foreground">
+                      {phase.description}
+                    </p>
+                  )}
+                  {(startDate || endDate) && (
+                    <p className="mt-2 flex items-center gap-1 text-xs text-muted-foreground">
+                      <CalendarDays className="h-3 w-3" />
+                      {startDate || "-"} — {endDate || "-"}
+                    </p>
+                  )}
+                  <PhaseClosureTimeline phase={phase} />
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </CardContent>
+
+      {!canManage && (
+        <RejectClosureDialog
+          open={rejectingRequest !== undefined}
+          onOpenChange={(open) => !open && setRejectingRequest(undefined)}
+          isSaving={isSaving}
+          onSubmit={handleReject}
+        />
+      )}
+
+      {canManage && (
+        <>
+          <PhaseClosureDialog
+            open={closingPhase !== undefined}
+            onOpenChange={(open) => !open && setClosingPhase(undefined)}
+            phase={closingPhase}
+            isSaving={isSaving}
+            onSubmit={handleSubmitClosure}
+          />
+
+          <PhaseFormDialog
+            open={isFormOpen}
+            onOpenChange={setIsFormOpen}
+            phase={editingPhase}
+            isSaving={isSaving}
+            onSubmit={handleSubmit}
+          />
+
+          <AlertDialog
+            open={removingPhase !== undefined}
+            onOpenChange={(open) => !open && setRemovingPhase(undefined)}
+          >
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>{t("removeTitle")}</AlertDialogTitle>
+                <AlertDialogDescription>
+                  {t("removeDescription")}
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel disabled={isSaving}>
+                  {t("cancel")}
+                </AlertDialogCancel>
+                <AlertDialogAction
+                  onClick={(e) => {
+                    e.preventDefault();
+                    handleRemove();
+                  }}
+                  disabled={isSaving}
+                >
+                  {isSaving ? t("saving") : t("remove")}
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,186 @@
+"use client";
+import React, { useEffect, useMemo } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useTranslations } from "next-intl";
+import { Paperclip, X } from "lucide-react";
+import { Button } from "@/shared/components/ui/button";
+import { Input } from "@/shared/components/ui/input";
+import { Textarea } from "@/shared/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/shared/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/shared/components/ui/form";
+import { CLOSURE_LIMITS } from "../constants";
+import { ProjectPhase } from "../types";
+import {
+  ClosureFormValues,
+  createClosureValidationSchemas,
+} from "../utils/validation";
+
+const EMPTY_CLOSURE: ClosureFormValues = { description: "", attachments: [] };
+
+interface PhaseClosureDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  phase?: ProjectPhase;
+  isSaving: boolean;
+  onSubmit: (values: ClosureFormValues) => Promise<boolean>;
+}
+
+/** The contractor's closure request with what was done and the evidence */
+export function PhaseClosureDialog({
+  open,
+  onOpenChange,
+  phase,
+  isSaving,
+  onSubmit,
+}: PhaseClosureDialogProps) {
+  const t = useTranslations();
+  const { ClosureSchema } = useMemo(
+    () => createClosureValidationSchemas(t),
+    [t]
+  );
+
+  const form = useForm<ClosureFormValues>({
+    resolver: zodResolver(ClosureSchema),
+    mode: "onTouched",
+    defaultValues: EMPTY_CLOSURE,
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset(EMPTY_CLOSURE);
+    }
+  }, [open, form]);
+
+  const handleSubmit = async (values: ClosureFormValues) => {
+    const saved = await onSubmit(values);
+    if (saved) {
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>
+            {t("phases.closure.form.title", { phase: phase?.title ?? "" })}
+          </DialogTitle>
+          <DialogDescription>
+            {t("phases.closure.form.description")}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit(handleSubmit)}
+            className="space-y-4"
+          >
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t("phases.closure.form.summary")}</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      {...field}
+                      rows={4}
+                      maxLength={CLOSURE_LIMITS.descriptionMax}
+                      placeholder={t("phases.closure.form.summaryPlaceholder")}
+                      disabled={isSaving}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="attachments"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t("phases.closure.form.evidence")}</FormLabel>
+                  <FormControl>
+                    <Input
+                      // Cleared after each pick so a file can be picked again
+                      value=""
+                      type="file"
+                      multiple
+                      name={field.name}
+                      onBlur={field.onBlur}
+                      onChange={(event) => {
+                        const picked = Array.from(event.target.files ?? []);
+                        field.onChange([...field.value, ...picked]);
+                      }}
+                      disabled={isSaving}
+                    />
+                  </FormControl>
+                  {field.value.length > 0 && (
+                    <ul className="space-y-1">
+                      {field.value.map((file, index) => (
+                        <li
+                          key={`${file.name}-${index}`}
+                          className="flex items-center gap-2 text-sm"
+                        >
+                          <Paperclip className="h-3 w-3 shrink-0" />
+                          <span className="truncate">{file.name}</span>
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            className="ms-auto h-6 w-6"
+                            onClick={() =>
+                              field.onChange(
+                                field.value.filter((_, item) => item !== index)
+                              )
+                            }
+                            disabled={isSaving}
+                            aria-label={t("phases.closure.form.removeFile")}
+                          >
+                            <X className="h-3 w-3" />
+                          </Button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                disabled={isSaving}
+              >
+                {t("phases.closure.form.cancel")}
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving
+                  ? t("phases.closure.form.submitting")
+                  : t("phases.closure.form.submit")}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,78 @@
+"use client";
+import React from "react";
+import { useTranslations } from "next-intl";
+import { Paperclip } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useLocale } from "@/hooks/useLocale";
+import { ClosureTimelineEvent, ProjectPhase } from "../types";
+import { getClosureTimeline } from "../utils/phases";
+
+const DOT_COLORS: Record<ClosureTimelineEvent["status"], string> = {
+  submitted: "bg-blue-500",
+  approved: "bg-green-500",
+  rejected: "bg-red-500",
+  cancelled: "bg-gray-400",
+};
+
+/** Closure history of a phase, oldest request first */
+export function PhaseClosureTimeline({ phase }: { phase: ProjectPhase }) {
+  const t = useTranslations("phases.closure.timeline");
+  const { currentLocale } = useLocale();
+  const events = getClosureTimeline(phase);
+
+  if (events.length === 0) return null;
+
+  const formatDate = (value: string | null) =>
+    value ? new Date(value).toLocaleString(currentLocale) : null;
+
+  return (
+    <div className="mt-3 border-t pt-3">
+      <p className="mb-2 text-xs font-medium text-muted-foreground">
+        {t("title")}
+      </p>
+      <ol className="space-y-3 border-s ps-4">
+        {events.map((event) => (
+          <li key={event.key} className="relative">
+            <span
+              className={cn(
+                "absolute -start-[1.3rem] top-1.5 h-2 w-2 rounded-full",
+                DOT_COLORS[event.status]
+              )}
+            />
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="font-medium">{t(event.status)}</span>
+              {event.date && (
+                <span className="text-xs text-muted-foreground">
+                  {formatDate(event.date)}
+                </span>
+              )}
+            </div>
+            {event.note && (
+              <p className="mt-1 whitespace-pre-wrap text-sm text-muted-foreground">
+                {event.note}
+              </p>
+            )}
+            {event.attachments && event.attachments.length > 0 && (
+              <ul className="mt-1 flex flex-wrap gap-2">
+                {event.attachments.map((attachment, index) => (
+                  <li key={attachment.id}>
+                    <a
+                      href={attachment.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center gap-1 text-xs text-design-main hover:underline"
+                    >
+                      <Paperclip className="h-3 w-3" />
+                      {attachment.name ||
+                        t("attachment", { number: index + 1 })}
+                    </a>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+"use client";
+import React, { useEffect, useMemo } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useTranslations } from "next-intl";
+import { Button } from "@/shared/components/ui/button";
+import { Input } from "@/shared/components/ui/input";
+import { Textarea } from "@/shared/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/shared/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/shared/components/ui/form";
+import { PHASE_LIMITS } from "../constants";
+import { ProjectPhase } from "../types";
+import {
+  PhaseFormValues,
+  createPhaseValidationSchemas,
+} from "../utils/validation";
+import { toPhaseFormValues } from "../utils/phases";
+
+interface PhaseFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  phase?: ProjectPhase;
+  isSaving: boolean;
+  onSubmit: (values: PhaseFormValues) => Promise<boolean>;
+}
+
+export function PhaseFormDialog({
+  open,
+  onOpenChange,
+  phase,
+  isSaving,
+  onSubmit,
+}: PhaseFormDialogProps) {
+  const t = useTranslations();
+  const { PhaseSchema } = useMemo(() => createPhaseValidationSchemas(t), [t]);
+
+  const form = useForm<PhaseFormValues>({
+    resolver: zodResolver(PhaseSchema),
+    mode: "onTouched",
+    defaultValues: toPhaseFormValues(phase),
+  });
+
+  // Load the selected phase every time the dialog opens
+  useEffect(() => {
+    if (open) {
+      form.reset(toPhaseFormValues(phase));
+    }
+  }, [open, phase, form]);
+
+  const handleSubmit = async (values: PhaseFormValues) => {
+    const saved = await onSubmit(values);
+    if (saved) {
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>
+            {phase ? t("phases.form.editTitle") : t("phases.form.addTitle")}
+          </DialogTitle>
+          <DialogDescription>{t("phases.form.description")}</DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit(handleSubmit)}
+            className="space-y-4"
+          >
+            <FormField
+              control={form.control}
+              name="title"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t("phases.form.title")}</FormLabel>
+                  <FormControl>
+                    <Input
+                      {...field}
+                      maxLength={PHASE_LIMITS.titleMax}
+                      disabled={isSaving}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t("phases.form.details")}</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      {...field}
+                      rows={4}
+                      maxLength={PHASE_LIMITS.descriptionMax}
+                      disabled={isSaving}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="start_date"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t("phases.form.startDate")}</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="date" disabled={isSaving} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="end_date"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t("phases.form.endDate")}</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="date" disabled={isSaving} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                disabled={isSaving}
+              >
+                {t("phases.form.cancel")}
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving ? t("phases.form.saving") : t("phases.form.save")}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,56 @@
+"use client";
+import React from "react";
+import { useTranslations } from "next-intl";
+import { CheckCircle2, CircleDashed, Layers, Loader } from "lucide-react";
+import { Card, CardContent } from "@/shared/components/ui/card";
+import { PhaseStatistics } from "../types";
+
+export function PhaseStatisticsSummary({
+  statistics,
+}: {
+  statistics: PhaseStatistics;
+}) {
+  const t = useTranslations("phases.statistics");
+  const progress = Math.min(Math.max(statistics.progress_percentage, 0), 100);
+
+  const items = [
+    { key: "total", value: statistics.total_phases, icon: Layers },
+    { key: "pending", value: statistics.pending_phases, icon: CircleDashed },
+    { key: "inProgress", value: statistics.in_progress_phases, icon: Loader },
+    {
+      key: "completed",
+      value: statistics.completed_phases,
+      icon: CheckCircle2,
+    },
+  ];
+
+  return (
+    <Card>
+      <CardContent className="space-y-4 pt-6">
+        <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+          {items.map(({ key, value, icon: Icon }) => (
+            <div key={key} className="flex items-center gap-3">
+              <Icon className="h-5 w-5 text-design-main" />
+              <div>
+                <p className="text-xl font-semibold">{value}</p>
+                <p className="text-sm text-muted-foreground">{t(key)}</p>
+              </div>
+            </div>
+          ))}
+        </div>
+        <div className="space-y-1">
+          <div className="flex justify-between text-sm">
+            <span className="text-muted-foreground">{t("progress")}</span>
+            <span className="font-medium">{progress}%</span>
+          </div>
+          <div className="h-2 w-full overflow-hidden rounded-full bg-muted">
+            <div
+              className="h-full rounded-full bg-design-main transition-all"
+              style={{ width: `${progress}%` }}
+            />
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,36 @@
+"use client";
+import React from "react";
+import { useTranslations } from "next-intl";
+import { Badge } from "@/shared/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { PhaseStatus } from "../types";
+
+export const PHASE_STATUS_COLORS: Record<PhaseStatus, string> = {
+  draft: "bg-gray-100 text-gray-800",
+  pending_approval: "bg-yellow-100 text-yellow-800",
+  open: "bg-blue-100 text-blue-800",
+  closed: "bg-green-100 text-green-800",
+  rejected: "bg-red-100 text-red-800",
+};
+
+export function PhaseStatusBadge({
+  status,
+  className,
+}: {
+  status: PhaseStatus;
+  className?: string;
+}) {
+  const t = useTranslations("phases.statuses");
+
+  return (
+    <Badge
+      variant="secondary"
+      className={cn(
+        PHASE_STATUS_COLORS[status] ?? PHASE_STATUS_COLORS.draft,
+        className
+      )}
+    >
+      {t(status)}
+    </Badge>
+  );
+}
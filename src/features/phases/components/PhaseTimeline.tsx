@@ -0,0 +1,138 @@
+"use client";
+import React from "react";
+import { useTranslations } from "next-intl";
+import { GanttChart } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from "@/shared/components/ui/card";
+import { cn } from "@/lib/utils";
+import { useLocale } from "@/hooks/useLocale";
+import { PhaseStatus, ProjectPhase } from "../types";
+import {
+  getPhaseDates,
+  getTimelineOffset,
+  getTimelineRange,
+} from "../utils/phases";
+
+const BAR_COLORS: Record<PhaseStatus, string> = {
+  draft: "bg-gray-300",
+  pending_approval: "bg-yellow-400",
+  open: "bg-blue-500",
+  closed: "bg-green-500",
+  rejected: "bg-red-400",
+};
+
+/**
+ * Gantt-style view of the phases. Bars are positioned with logical inset so
+ * the timeline runs right to left in Arabic.
+ */
+export function PhaseTimeline({ phases }: { phases: ProjectPhase[] }) {
+  const t = useTranslations("phases.timeline");
+  const tStatus = useTranslations("phases.statuses");
+  const { currentLocale } = useLocale();
+  const range = getTimelineRange(phases);
+
+  const formatDate = (time: number) =>
+    new Date(time).toLocaleDateString(currentLocale, {
+      day: "numeric",
+      month: "short",
+    });
+
+  const now = Date.now();
+  const showToday = range && now >= range.start && now <= range.end;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <GanttChart className="h-5 w-5 text-design-main" />
+          {t("title")}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {!range ? (
+          <p className="text-sm text-muted-foreground">{t("empty")}</p>
+        ) : (
+          <div className="space-y-2">
+            <div className="flex text-xs text-muted-foreground">
+              <div className="w-32 shrink-0 md:w-48" />
+              <div className="flex flex-1 justify-between">
+                <span>{formatDate(range.start)}</span>
+                <span>{formatDate((range.start + range.end) / 2)}</span>
+                <span>{formatDate(range.end)}</span>
+              </div>
+            </div>
+
+            {phases.map((phase) => {
+              const dates = getPhaseDates(phase);
+              const offset = dates ? getTimelineOffset(dates.start, range) : 0;
+              const width = dates
+                ? Math.max(getTimelineOffset(dates.end, range) - offset, 1)
+                : 0;
+
+              return (
+                <div key={phase.id} className="flex items-center gap-2">
+                  <p
+                    className="w-32 shrink-0 truncate text-sm md:w-48"
+                    title={phase.title}
+                  >
+                    {phase.title}
+                  </p>
+                  <div className="relative h-7 flex-1 rounded bg-muted/50">
+                    {showToday && (
+                      <div
+                        className="absolute inset-y-0 w-px bg-red-400"
+                        style={{
+                          insetInlineStart: `${getTimelineOffset(now, range)}%`,
+                        }}
+                      />
+                    )}
+                    {dates ? (
+                      <div
+                        className={cn(
+                          "absolute inset-y-1 rounded",
+                          BAR_COLORS[phase.status] ?? BAR_COLORS.draft
+                        )}
+                        style={{
+                          insetInlineStart: `${offset}%`,
+                          width: `${width}%`,
+                        }}
+                        title={`${tStatus(phase.status)} · ${formatDate(
+                          dates.start
+                        )} - ${formatDate(dates.end)}`}
+                      />
+                    ) : (
+                      <span className="absolute inset-0 flex items-center px-2 text-xs text-muted-foreground">
+                        {t("unscheduled")}
+                      </span>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+
+            <div className="flex flex-wrap gap-4 pt-2 text-xs text-muted-foreground">
+              {(Object.keys(BAR_COLORS) as PhaseStatus[]).map((status) => (
+                <span key={status} className="flex items-center gap-1">
+                  <span
+                    className={cn("h-2 w-4 rounded", BAR_COLORS[status])}
+                  />
+                  {tStatus(status)}
+                </span>
+              ))}
+              {showToday && (
+                <span className="flex items-center gap-1">
+                  <span className="h-3 w-px bg-red-400" />
+                  {t("today")}
+                </span>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,236 @@
+"use client";
+import React, { useState } from "react";
+import { useTranslations } from "next-intl";
+import { Check, FlagTriangleRight, Lock, Send, X } from "lucide-react";
+import toast from "react-hot-toast";
+import { Button } from "@/shared/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from "@/shared/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/shared/components/ui/alert-dialog";
+import { useProjectClosure } from "../hooks/useProjectClosure";
+import { PhaseParty, ProjectPhase } from "../types";
+import { areAllPhasesClosed } from "../utils/phases";
+import {
+  ProjectClosureRejectionFormValues,
+  ProjectClosureRequestFormValues,
+} from "../utils/validation";
+import { RejectProjectClosureDialog } from "./RejectProjectClosureDialog";
+import { RequestProjectClosureDialog } from "./RequestProjectClosureDialog";
+
+interface ProjectClosurePanelProps {
+  party: PhaseParty;
+  projectId: string;
+  phases: ProjectPhase[];
+  // The owner's pending closure request, from their notification link
+  closureRequestId?: number | null;
+}
+
+/**
+ * Closing the whole project. The contractor asks once every phase is closed,
+ * the owner reviews the request or closes the project on their own.
+ */
+export function ProjectClosurePanel({
+  party,
+  projectId,
+  phases,
+  closureRequestId,
+}: ProjectClosurePanelProps) {
+  const t = useTranslations("phases.projectClosure");
+  const {
+    isRequested,
+    isClosed,
+    isSaving,
+    requestClosure,
+    approveClosure,
+    rejectClosure,
+    closeDirectly,
+  } = useProjectClosure(party, projectId);
+  const [isRequestOpen, setIsRequestOpen] = useState(false);
+  const [isRejectOpen, setIsRejectOpen] = useState(false);
+  const [isCloseOpen, setIsCloseOpen] = useState(false);
+  const [isReviewed, setIsReviewed] = useState(false);
+
+  const allPhasesClosed = areAllPhasesClosed(phases);
+  const hasRequestToReview = Boolean(closureRequestId) && !isReviewed;
+
+  const handleRequest = async (values: ProjectClosureRequestFormValues) => {
+    const result = await requestClosure(values);
+    if (result.success) {
+      toast.success(result.message || t("requestSuccess"));
+    } else {
+      toast.error(result.message || t("actionError"));
+    }
+    return result.success;
+  };
+
+  const handleApprove = async () => {
+    if (!closureRequestId) return;
+
+    const result = await approveClosure(closureRequestId);
+    if (result.success) {
+      toast.success(result.message || t("approveSuccess"));
+      setIsReviewed(true);
+    } else {
+      toast.error(result.message || t("actionError"));
+    }
+  };
+
+  const handleReject = async (values: ProjectClosureRejectionFormValues) => {
+    if (!closureRequestId) return false;
+
+    const result = await rejectClosure(closureRequestId, values);
+    if (result.success) {
+      toast.success(result.message || t("rejectSuccess"));
+      setIsReviewed(true);
+    } else {
+      toast.error(result.message || t("actionError"));
+    }
+    return result.success;
+  };
+
+  const handleCloseDirectly = async () => {
+    const result = await closeDirectly();
+    if (result.success) {
+      toast.success(result.message || t("closeSuccess"));
+      setIsCloseOpen(false);
+    } else {
+      toast.error(result.message || t("actionError"));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <FlagTriangleRight className="h-5 w-5 text-design-main" />
+          {t("title")}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isClosed ? (
+          <p className="flex items-center gap-2 text-sm text-green-700">
+            <Lock className="h-4 w-4" />
+            {t("closed")}
+          </p>
+        ) : party === "contractor" ? (
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <p className="text-sm text-muted-foreground">
+              {isRequested
+                ? t("requested")
+                : allPhasesClosed
+                  ? t("readyToRequest")
+                  : t("phasesOpen")}
+            </p>
+            {!isRequested && (
+              <Button
+                size="sm"
+                onClick={() => setIsRequestOpen(true)}
+                disabled={isSaving || !allPhasesClosed}
+              >
+                <Send className="h-4 w-4 rtl:rotate-180" />
+                {t("request")}
+              </Button>
+            )}
+          </div>
+        ) : (
+          <>
+            {hasRequestToReview && (
+              <div className="flex flex-wrap items-center justify-between gap-2 rounded-md border border-yellow-200 bg-yellow-50 p-3">
+                <p className="text-sm">{t("pendingReview")}</p>
+                <div className="flex flex-wrap gap-1">
+                  <Button
+                    size="sm"
+                    onClick={handleApprove}
+                    disabled={isSaving}
+                  >
+                    <Check className="h-4 w-4" />
+                    {t("approve")}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setIsRejectOpen(true)}
+                    disabled={isSaving}
+                  >
+                    <X className="h-4 w-4" />
+                    {t("reject")}
+                  </Button>
+                </div>
+              </div>
+            )}
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <p className="text-sm text-muted-foreground">
+                {t("closeDirectlyHint")}
+              </p>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setIsCloseOpen(true)}
+                disabled={isSaving}
+              >
+                <Lock className="h-4 w-4" />
+                {t("closeDirectly")}
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+
+      {party === "contractor" ? (
+        <RequestProjectClosureDialog
+          open={isRequestOpen}
+          onOpenChange={setIsRequestOpen}
+          isSaving={isSaving}
+          onSubmit={handleRequest}
+        />
+      ) : (
+        <>
+          <RejectProjectClosureDialog
+            open={isRejectOpen}
+            onOpenChange={setIsRejectOpen}
+            isSaving={isSaving}
+            onSubmit={handleReject}
+          />
+
+          <AlertDialog open={isCloseOpen} onOpenChange={setIsCloseOpen}>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>{t("closeTitle")}</AlertDialogTitle>
+                <AlertDialogDescription>
+                  {t("closeDescription")}
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel disabled={isSaving}>
+                  {t("cancel")}
+                </AlertDialogCancel>
+                <AlertDialogAction
+                  onClick={(e) => {
+                    e.preventDefault();
+                    handleCloseDirectly();
+                  }}
+                  disabled={isSaving}
+                >
+                  {isSaving ? t("sending") : t("closeDirectly")}
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </>
+      )}
+    </Card>
+  );
+}
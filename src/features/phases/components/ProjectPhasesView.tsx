@@ -0,0 +1,89 @@
+"use client";
+import React from "react";
+import { useSearchParams } from "next/navigation";
+import { useTranslations } from "next-intl";
+import { ErrorState } from "@/shared/components/ui/ErrorState";
+import { Skeleton } from "@/components/ui/skeleton";
+import { CLOSURE_REQUEST_PARAM } from "../constants";
+import { useProjectPhases } from "../hooks/useProjectPhases";
+import { PhaseParty } from "../types";
+import { PhaseBoard } from "./PhaseBoard";
+import { ProjectClosurePanel } from "./ProjectClosurePanel";
+import { PhaseStatisticsSummary } from "./PhaseStatisticsSummary";
+import { PhaseTimeline } from "./PhaseTimeline";
+
+interface ProjectPhasesViewProps {
+  party: PhaseParty;
+  projectId: string;
+}
+
+export function ProjectPhasesView({ party, projectId }: ProjectPhasesViewProps) {
+  const t = useTranslations("phases");
+  const searchParams = useSearchParams();
+  const closureRequestId = Number(searchParams.get(CLOSURE_REQUEST_PARAM));
+  const {
+    phases,
+    statistics,
+    canManage,
+    isLoading,
+    isSaving,
+    error,
+    refetch,
+    addPhase,
+    updatePhase,
+    removePhase,
+    movePhase,
+    advancePhase,
+    submitClosure,
+    cancelClosure,
+    approveClosure,
+    rejectClosure,
+  } = useProjectPhases(party, projectId);
+
+  if (phases.length === 0 && isLoading) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-28 w-full" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <ErrorState
+        variant="inline"
+        title={t("loadError")}
+        error={error}
+        onRetry={refetch}
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <PhaseStatisticsSummary statistics={statistics} />
+      <PhaseBoard
+        phases={phases}
+        canManage={canManage}
+        isSaving={isSaving}
+        onAdd={addPhase}
+        onUpdate={updatePhase}
+        onRemove={removePhase}
+        onMove={movePhase}
+        onAdvance={advancePhase}
+        onSubmitClosure={submitClosure}
+        onCancelClosure={cancelClosure}
+        onApproveClosure={approveClosure}
+        onRejectClosure={rejectClosure}
+      />
+      <PhaseTimeline phases={phases} />
+      <ProjectClosurePanel
+        party={party}
+        projectId={projectId}
+        phases={phases}
+        closureRequestId={closureRequestId || null}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+"use client";
+import React, { useEffect, useMemo } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useTranslations } from "next-intl";
+import { Button } from "@/shared/components/ui/button";
+import { Textarea } from "@/shared/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/shared/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/shared/components/ui/form";
+import { CLOSURE_LIMITS } from "../constants";
+import {
+  RejectionFormValues,
+  createClosureValidationSchemas,
+} from "../utils/validation";
+
+interface RejectClosureDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  isSaving: boolean;
+  onSubmit: (values: RejectionFormValues) => Promise<boolean>;
+}
+
+/** The owner's answer to a phase closure request they can't accept yet */
+export function RejectClosureDialog({
+  open,
+  onOpenChange,
+  isSaving,
+  onSubmit,
+}: RejectClosureDialogProps) {
+  const t = useTranslations();
+  const { RejectionSchema } = useMemo(
+    () => createClosureValidationSchemas(t),
+    [t]
+  );
+
+  const form = useForm<RejectionFormValues>({
+    resolver: zodResolver(RejectionSchema),
+    mode: "onTouched",
+    defaultValues: { reason: "" },
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset({ reason: "" });
+    }
+  }, [open, form]);
+
+  const handleSubmit = async (values: RejectionFormValues) => {
+    const saved = await onSubmit(values);
+    if (saved) {
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{t("phases.closure.reject.title")}</DialogTitle>
+          <DialogDescription>
+            {t("phases.closure.reject.description")}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit(handleSubmit)}
+            className="space-y-4"
+          >
+            <FormField
+              control={form.control}
+              name="reason"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t("phases.closure.reject.reason")}</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      {...field}
+                      rows={4}
+                      maxLength={CLOSURE_LIMITS.reasonMax}
+                      disabled={isSaving}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                disabled={isSaving}
+              >
+                {t("phases.closure.reject.cancel")}
+              </Button>
+              <Button type="submit" variant="destructive" disabled={isSaving}>
+                {isSaving
+                  ? t("phases.closure.reject.sending")
+                  : t("phases.closure.reject.confirm")}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
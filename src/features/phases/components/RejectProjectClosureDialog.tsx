@@ -0,0 +1,168 @@
+"use client";
+import React, { useEffect, useMemo } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useTranslations } from "next-intl";
+import { Button } from "@/shared/components/ui/button";
+import { Textarea } from "@/shared/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/shared/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/shared/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/shared/components/ui/select";
+import { CLOSURE_LIMITS, PROJECT_CLOSURE_REJECT_REASONS } from "../constants";
+import {
+  ProjectClosureRejectionFormValues,
+  createClosureValidationSchemas,
+} from "../utils/validation";
+
+const EMPTY_REJECTION: ProjectClosureRejectionFormValues = {
+  reason_code: "incomplete_work",
+  reason_text: "",
+};
+
+interface RejectProjectClosureDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  isSaving: boolean;
+  onSubmit: (values: ProjectClosureRejectionFormValues) => Promise<boolean>;
+}
+
+export function RejectProjectClosureDialog({
+  open,
+  onOpenChange,
+  isSaving,
+  onSubmit,
+}: RejectProjectClosureDialogProps) {
+  const t = useTranslations();
+  const { ProjectClosureRejectionSchema } = useMemo(
+    () => createClosureValidationSchemas(t),
+    [t]
+  );
+
+  const form = useForm<ProjectClosureRejectionFormValues>({
+    resolver: zodResolver(ProjectClosureRejectionSchema),
+    mode: "onTouched",
+    defaultValues: EMPTY_REJECTION,
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset(EMPTY_REJECTION);
+    }
+  }, [open, form]);
+
+  const handleSubmit = async (values: ProjectClosureRejectionFormValues) => {
+    const saved = await onSubmit(values);
+    if (saved) {
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>
+            {t("phases.projectClosure.rejectForm.title")}
+          </DialogTitle>
+          <DialogDescription>
+            {t("phases.projectClosure.rejectForm.description")}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit(handleSubmit)}
+            className="space-y-4"
+          >
+            <FormField
+              control={form.control}
+              name="reason_code"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>
+                    {t("phases.projectClosure.rejectForm.reasonCode")}
+                  </FormLabel>
+                  <Select
+                    value={field.value}
+                    onValueChange={field.onChange}
+                    disabled={isSaving}
+                  >
+                    <FormControl>
+                      <SelectTrigger className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {PROJECT_CLOSURE_REJECT_REASONS.map((reason) => (
+                        <SelectItem key={reason} value={reason}>
+                          {t(`phases.projectClosure.rejectReasons.${reason}`)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="reason_text"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>
+                    {t("phases.projectClosure.rejectForm.reasonText")}
+                  </FormLabel>
+                  <FormControl>
+                    <Textarea
+                      {...field}
+                      rows={4}
+                      maxLength={CLOSURE_LIMITS.reasonMax}
+                      disabled={isSaving}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                disabled={isSaving}
+              >
+                {t("phases.projectClosure.cancel")}
+              </Button>
+              <Button type="submit" variant="destructive" disabled={isSaving}>
+                {isSaving
+                  ? t("phases.projectClosure.sending")
+                  : t("phases.projectClosure.rejectForm.submit")}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
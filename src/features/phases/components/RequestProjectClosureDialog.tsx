@@ -0,0 +1,126 @@
+"use client";
+import React, { useEffect, useMemo } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useTranslations } from "next-intl";
+import { Button } from "@/shared/components/ui/button";
+import { Textarea } from "@/shared/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/shared/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/shared/components/ui/form";
+import { CLOSURE_LIMITS } from "../constants";
+import {
+  ProjectClosureRequestFormValues,
+  createClosureValidationSchemas,
+} from "../utils/validation";
+
+interface RequestProjectClosureDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  isSaving: boolean;
+  onSubmit: (values: ProjectClosureRequestFormValues) => Promise<boolean>;
+}
+
+export function RequestProjectClosureDialog({
+  open,
+  onOpenChange,
+  isSaving,
+  onSubmit,
+}: RequestProjectClosureDialogProps) {
+  const t = useTranslations();
+  const { ProjectClosureRequestSchema } = useMemo(
+    () => createClosureValidationSchemas(t),
+    [t]
+  );
+
+  const form = useForm<ProjectClosureRequestFormValues>({
+    resolver: zodResolver(ProjectClosureRequestSchema),
+    mode: "onTouched",
+    defaultValues: { message: "" },
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset({ message: "" });
+    }
+  }, [open, form]);
+
+  const handleSubmit = async (values: ProjectClosureRequestFormValues) => {
+    const saved = await onSubmit(values);
+    if (saved) {
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>
+            {t("phases.projectClosure.requestForm.title")}
+          </DialogTitle>
+          <DialogDescription>
+            {t("phases.projectClosure.requestForm.description")}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit(handleSubmit)}
+            className="space-y-4"
+          >
+            <FormField
+              control={form.control}
+              name="message"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>
+                    {t("phases.projectClosure.requestForm.message")}
+                  </FormLabel>
+                  <FormControl>
+                    <Textarea
+                      {...field}
+                      rows={4}
+                      maxLength={CLOSURE_LIMITS.messageMax}
+                      disabled={isSaving}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                disabled={isSaving}
+              >
+                {t("phases.projectClosure.cancel")}
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving
+                  ? t("phases.projectClosure.sending")
+                  : t("phases.projectClosure.requestForm.submit")}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
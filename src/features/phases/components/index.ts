@@ -0,0 +1,13 @@
+// Export all phase components for easy importing
+export { ProjectPhasesView } from "./ProjectPhasesView";
+export { PhaseBoard } from "./PhaseBoard";
+export { PhaseTimeline } from "./PhaseTimeline";
+export { PhaseStatisticsSummary } from "./PhaseStatisticsSummary";
+export { PhaseFormDialog } from "./PhaseFormDialog";
+export { PhaseStatusBadge } from "./PhaseStatusBadge";
+export { PhaseClosureDialog } from "./PhaseClosureDialog";
+export { RejectClosureDialog } from "./RejectClosureDialog";
+export { PhaseClosureTimeline } from "./PhaseClosureTimeline";
+export { ProjectClosurePanel } from "./ProjectClosurePanel";
+export { RequestProjectClosureDialog } from "./RequestProjectClosureDialog";
+export { RejectProjectClosureDialog } from "./RejectProjectClosureDialog";
@@ -0,0 +1,10 @@
+export {
+  PHASE_STATUSES,
+  NEXT_PHASE_STATUS,
+  PHASE_LIMITS,
+  PROJECT_CLOSURE_REJECT_REASONS,
+  CLOSURE_LIMITS,
+  CLOSURE_REQUEST_PARAM,
+  TIMELINE_PADDING_MS,
+  DAY_IN_MS,
+} from "./phaseConstants";
@@ -0,0 +1,48 @@
+import { PhaseStatus, ProjectClosureRejectReason } from "../types";
+
+export const PHASE_STATUSES: PhaseStatus[] = [
+  "draft",
+  "pending_approval",
+  "open",
+  "closed",
+  "rejected",
+];
+
+// The contractor submits a draft or rejected phase and the owner opens it.
+// An open phase is closed through the closure request, not a status change.
+export const NEXT_PHASE_STATUS: Record<PhaseStatus, PhaseStatus | null> = {
+  draft: "pending_approval",
+  pending_approval: "open",
+  open: null,
+  closed: null,
+  rejected: "pending_approval",
+};
+
+export const PHASE_LIMITS = {
+  titleMax: 255,
+  descriptionMax: 2000,
+} as const;
+
+export const PROJECT_CLOSURE_REJECT_REASONS: ProjectClosureRejectReason[] = [
+  "incomplete_work",
+  "quality_issues",
+  "missing_documents",
+  "outstanding_payments",
+  "other",
+];
+
+export const CLOSURE_LIMITS = {
+  descriptionMax: 2000,
+  reasonMax: 1000,
+  messageMax: 1000,
+  attachmentsMax: 5,
+  attachmentMaxSize: 10 * 1024 * 1024,
+} as const;
+
+// Query parameter of the owner's link to a project closure request
+export const CLOSURE_REQUEST_PARAM = "closureRequest";
+
+export const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+// Padding around the scheduled phases so bars never touch the edges
+export const TIMELINE_PADDING_MS = 2 * DAY_IN_MS;
@@ -0,0 +1,2 @@
+export * from "./useProjectPhases";
+export * from "./useProjectClosure";
@@ -0,0 +1,99 @@
+"use client";
+import { useCallback, useState } from "react";
+import { closureApi } from "../services/closureApi";
+import { PhaseParty } from "../types";
+import {
+  ProjectClosureRejectionFormValues,
+  ProjectClosureRequestFormValues,
+} from "../utils/validation";
+
+type ActionResult = { success: boolean; message?: string };
+
+/**
+ * Closing the whole project. The API has no way to read a closure request
+ * back, so the contractor's request is only known for this visit and the
+ * owner reviews the request their notification links to.
+ */
+export const useProjectClosure = (party: PhaseParty, projectId: string) => {
+  const [isRequested, setIsRequested] = useState(false);
+  const [isClosed, setIsClosed] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const requestClosure = useCallback(
+    async (values: ProjectClosureRequestFormValues): Promise<ActionResult> => {
+      if (party !== "contractor") return { success: false };
+
+      setIsSaving(true);
+
+      const response = await closureApi.requestProjectClosure(
+        projectId,
+        values.message || undefined
+      );
+      if (response.success) {
+        setIsRequested(true);
+      }
+
+      setIsSaving(false);
+      return { success: response.success, message: response.message };
+    },
+    [party, projectId]
+  );
+
+  const approveClosure = useCallback(
+    async (requestId: number): Promise<ActionResult> => {
+      setIsSaving(true);
+
+      const response = await closureApi.reviewProjectClosure(requestId, {
+        decision: "approve",
+      });
+      if (response.success) {
+        setIsClosed(true);
+      }
+
+      setIsSaving(false);
+      return { success: response.success, message: response.message };
+    },
+    []
+  );
+
+  const rejectClosure = useCallback(
+    async (
+      requestId: number,
+      values: ProjectClosureRejectionFormValues
+    ): Promise<ActionResult> => {
+      setIsSaving(true);
+
+      const response = await closureApi.reviewProjectClosure(requestId, {
+        decision: "reject",
+        reject_reason_code: values.reason_code,
+        reject_reason_text: values.reason_text || undefined,
+      });
+
+      setIsSaving(false);
+      return { success: response.success, message: response.message };
+    },
+    []
+  );
+
+  const closeDirectly = useCallback(async (): Promise<ActionResult> => {
+    setIsSaving(true);
+
+    const response = await closureApi.closeProjectDirectly(projectId);
+    if (response.success) {
+      setIsClosed(true);
+    }
+
+    setIsSaving(false);
+    return { success: response.success, message: response.message };
+  }, [projectId]);
+
+  return {
+    isRequested,
+    isClosed,
+    isSaving,
+    requestClosure,
+    approveClosure,
+    rejectClosure,
+    closeDirectly,
+  };
+};
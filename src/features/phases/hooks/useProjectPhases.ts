@@ -0,0 +1,248 @@
+"use client";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { phaseApi } from "../services/phaseApi";
+import { closureApi } from "../services/closureApi";
+import { PhaseParty, PhaseStatistics, ProjectPhase } from "../types";
+import { ClosureFormValues, PhaseFormValues } from "../utils/validation";
+import {
+  computePhaseStatistics,
+  getNextStatus,
+  sortPhases,
+  toPhaseClosurePayload,
+  toPhasePayload,
+} from "../utils/phases";
+
+type ActionResult = { success: boolean; message?: string };
+
+export const useProjectPhases = (party: PhaseParty, projectId: string) => {
+  const [phases, setPhases] = useState<ProjectPhase[]>([]);
+  const [serverStatistics, setServerStatistics] =
+    useState<PhaseStatistics | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canManage = party === "contractor";
+
+  const fetchStatistics = useCallback(async () => {
+    if (!canManage || !projectId) return;
+
+    const response = await phaseApi.getStatistics(projectId);
+    const data = response.data || response.response;
+    setServerStatistics(response.success && data ? data : null);
+  }, [canManage, projectId]);
+
+  const fetchPhases = useCallback(async () => {
+    if (!projectId) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    const response = await phaseApi.getPhases(party, projectId);
+    if (response.success) {
+      setPhases(sortPhases(response.data || response.response || []));
+    } else {
+      setError(response.message || null);
+    }
+
+    setIsLoading(false);
+  }, [party, projectId]);
+
+  useEffect(() => {
+    fetchPhases();
+    fetchStatistics();
+  }, [fetchPhases, fetchStatistics]);
+
+  // Owners have no statistics endpoint, and the local summary keeps the
+  // contractor's numbers current between refetches
+  const statistics = useMemo(
+    () => serverStatistics ?? computePhaseStatistics(phases),
+    [serverStatistics, phases]
+  );
+
+  const afterChange = useCallback(async () => {
+    await Promise.all([fetchPhases(), fetchStatistics()]);
+  }, [fetchPhases, fetchStatistics]);
+
+  const addPhase = useCallback(
+    async (values: PhaseFormValues): Promise<ActionResult> => {
+      setIsSaving(true);
+
+      const lastOrder = phases.reduce(
+        (max, phase) => Math.max(max, phase.order),
+        0
+      );
+      const response = await phaseApi.createPhase(projectId, {
+        ...toPhasePayload(values),
+        order: lastOrder + 1,
+        status: "draft",
+      });
+      if (response.success) {
+        await afterChange();
+      }
+
+      setIsSaving(false);
+      return { success: response.success, message: response.message };
+    },
+    [projectId, phases, afterChange]
+  );
+
+  const updatePhase = useCallback(
+    async (
+      phaseId: number,
+      values: PhaseFormValues
+    ): Promise<ActionResult> => {
+      setIsSaving(true);
+
+      const response = await phaseApi.updatePhase(
+        phaseId,
+        toPhasePayload(values)
+      );
+      if (response.success) {
+        await afterChange();
+      }
+
+      setIsSaving(false);
+      return { success: response.success, message: response.message };
+    },
+    [afterChange]
+  );
+
+  const removePhase = useCallback(
+    async (phaseId: number): Promise<ActionResult> => {
+      setIsSaving(true);
+
+      const response = await phaseApi.deletePhase(phaseId);
+      if (response.success) {
+        await afterChange();
+      }
+
+      setIsSaving(false);
+      return { success: response.success, message: response.message };
+    },
+    [afterChange]
+  );
+
+  const movePhase = useCallback(
+    async (phaseId: number, direction: -1 | 1): Promise<ActionResult> => {
+      const index = phases.findIndex((phase) => phase.id === phaseId);
+      const target = phases[index + direction];
+      if (index === -1 || !target) return { success: false };
+
+      const reordered = phases.slice();
+      reordered[index] = target;
+      reordered[index + direction] = phases[index];
+      setPhases(
+        reordered.map((phase, position) => ({ ...phase, order: position + 1 }))
+      );
+      setIsSaving(true);
+
+      const response = await phaseApi.reorderPhases(
+        party,
+        projectId,
+        reordered.map((phase) => phase.id)
+      );
+      if (!response.success) {
+        setPhases(phases);
+      }
+
+      setIsSaving(false);
+      return { success: response.success, message: response.message };
+    },
+    [party, projectId, phases]
+  );
+
+  const advancePhase = useCallback(
+    async (phaseId: number): Promise<ActionResult> => {
+      const phase = phases.find((item) => item.id === phaseId);
+      const nextStatus = phase ? getNextStatus(phase.status) : null;
+      if (!phase || !nextStatus) return { success: false };
+
+      setPhases((current) =>
+        current.map((item) =>
+          item.id === phaseId ? { ...item, status: nextStatus } : item
+        )
+      );
+      setIsSaving(true);
+
+      const response = await phaseApi.changeStatus(party, phaseId, nextStatus);
+      if (response.success) {
+        await afterChange();
+      } else {
+        setPhases((current) =>
+          current.map((item) => (item.id === phaseId ? phase : item))
+        );
+      }
+
+      setIsSaving(false);
+      return { success: response.success, message: response.message };
+    },
+    [party, phases, afterChange]
+  );
+
+  // Closure requests change the phase on the server, so every answer
+  // reloads the phases and their closure history
+  const runClosureAction = useCallback(
+    async (
+      action: () => Promise<{ success: boolean; message?: string }>
+    ): Promise<ActionResult> => {
+      setIsSaving(true);
+
+      const response = await action();
+      if (response.success) {
+        await afterChange();
+      }
+
+      setIsSaving(false);
+      return { success: response.success, message: response.message };
+    },
+    [afterChange]
+  );
+
+  const submitClosure = useCallback(
+    (phaseId: number, values: ClosureFormValues) =>
+      runClosureAction(() =>
+        closureApi.submitPhaseClosure(toPhaseClosurePayload(phaseId, values))
+      ),
+    [runClosureAction]
+  );
+
+  const cancelClosure = useCallback(
+    (requestId: number) =>
+      runClosureAction(() => closureApi.cancelPhaseClosure(requestId)),
+    [runClosureAction]
+  );
+
+  const approveClosure = useCallback(
+    (requestId: number) =>
+      runClosureAction(() => closureApi.approvePhaseClosure(requestId)),
+    [runClosureAction]
+  );
+
+  const rejectClosure = useCallback(
+    (requestId: number, reason: string) =>
+      runClosureAction(() =>
+        closureApi.rejectPhaseClosure(requestId, reason)
+      ),
+    [runClosureAction]
+  );
+
+  return {
+    phases,
+    statistics,
+    canManage,
+    isLoading,
+    isSaving,
+    error,
+    refetch: afterChange,
+    addPhase,
+    updatePhase,
+    removePhase,
+    movePhase,
+    advancePhase,
+    submitClosure,
+    cancelClosure,
+    approveClosure,
+    rejectClosure,
+  };
+};
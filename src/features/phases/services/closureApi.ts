@@ -0,0 +1,76 @@
+import { ApiResponse } from "@/lib/apiClient";
+import * as sdk from "@/lib/sdk";
+import {
+  PhaseClosurePayload,
+  PhaseClosureRequest,
+  ProjectClosureRequest,
+  ProjectClosureReviewPayload,
+} from "../types";
+
+/**
+ * Closure API Service
+ * Handles the handshake that closes phases and whole projects: the
+ * contractor asks, the owner approves or rejects
+ */
+class ClosureApiService {
+  /**
+   * Ask the owner to close a finished phase (contractor), evidence files
+   * go up as multipart
+   */
+  async submitPhaseClosure(
+    data: PhaseClosurePayload
+  ): Promise<ApiResponse<PhaseClosureRequest>> {
+    return sdk.submitClosureRequest<PhaseClosureRequest>(data);
+  }
+
+  /**
+   * Withdraw a closure request the owner hasn't answered yet (contractor)
+   */
+  async cancelPhaseClosure(requestId: number | string): Promise<ApiResponse> {
+    return sdk.cancelClosureRequest(requestId);
+  }
+
+  async approvePhaseClosure(requestId: number | string): Promise<ApiResponse> {
+    return sdk.approveClosureRequest(requestId);
+  }
+
+  async rejectPhaseClosure(
+    requestId: number | string,
+    rejectionReason: string
+  ): Promise<ApiResponse> {
+    return sdk.rejectClosureRequest(requestId, {
+      rejection_reason: rejectionReason,
+    });
+  }
+
+  /**
+   * Ask the owner to close the project once every phase is closed
+   * (contractor)
+   */
+  async requestProjectClosure(
+    projectId: number | string,
+    message?: string
+  ): Promise<ApiResponse<ProjectClosureRequest>> {
+    return sdk.contractorSubmitClosureRequest<ProjectClosureRequest>(
+      projectId,
+      message ? { message } : {}
+    );
+  }
+
+  async reviewProjectClosure(
+    requestId: number | string,
+    data: ProjectClosureReviewPayload
+  ): Promise<ApiResponse> {
+    return sdk.clientReviewClosureRequest(requestId, data);
+  }
+
+  /**
+   * Close the project without waiting for the contractor (owner)
+   */
+  async closeProjectDirectly(projectId: number | string): Promise<ApiResponse> {
+    return sdk.clientCloseProjectDirectly(projectId);
+  }
+}
+
+/** Singleton instance of the ClosureApiService */
+export const closureApi = new ClosureApiService();
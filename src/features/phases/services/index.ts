@@ -0,0 +1,2 @@
+export * from "./phaseApi";
+export * from "./closureApi";
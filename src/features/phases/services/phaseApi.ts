@@ -0,0 +1,107 @@
+import { ApiResponse } from "@/lib/apiClient";
+import * as sdk from "@/lib/sdk";
+import {
+  PhaseParty,
+  PhasePayload,
+  PhaseStatistics,
+  PhaseStatus,
+  ProjectPhase,
+} from "../types";
+
+/**
+ * Phase API Service
+ * Handles the execution phases of awarded projects
+ */
+class PhaseApiService {
+  /**
+   * Get the phases of a project
+   */
+  async getPhases(
+    party: PhaseParty,
+    projectId: number | string
+  ): Promise<ApiResponse<ProjectPhase[]>> {
+    return party === "owner"
+      ? sdk.ownerGetProjectPhases<ProjectPhase[]>(projectId)
+      : sdk.contractorGetProjectPhases<ProjectPhase[]>(projectId);
+  }
+
+  /**
+   * Get a single phase
+   */
+  async getPhase(
+    party: PhaseParty,
+    phaseId: number | string
+  ): Promise<ApiResponse<ProjectPhase>> {
+    return party === "owner"
+      ? sdk.ownerShowProjectPhase<ProjectPhase>(phaseId)
+      : sdk.contractorShowProjectPhase<ProjectPhase>(phaseId);
+  }
+
+  /**
+   * Add a phase to a project (contractor)
+   */
+  async createPhase(
+    projectId: number | string,
+    data: PhasePayload
+  ): Promise<ApiResponse<ProjectPhase>> {
+    return sdk.contractorStoreProjectPhase<ProjectPhase>(projectId, data);
+  }
+
+  /**
+   * Update the details of a phase (contractor)
+   */
+  async updatePhase(
+    phaseId: number | string,
+    data: Partial<PhasePayload>
+  ): Promise<ApiResponse<ProjectPhase>> {
+    return sdk.contractorUpdateProjectPhase<ProjectPhase>(phaseId, data);
+  }
+
+  /**
+   * Delete a phase (contractor)
+   */
+  async deletePhase(phaseId: number | string): Promise<ApiResponse> {
+    return sdk.contractorDeleteProjectPhase(phaseId);
+  }
+
+  /**
+   * Move a phase to another status
+   */
+  async changeStatus(
+    party: PhaseParty,
+    phaseId: number | string,
+    status: PhaseStatus
+  ): Promise<ApiResponse<ProjectPhase>> {
+    return party === "owner"
+      ? sdk.ownerChangePhaseStatus<ProjectPhase>(phaseId, { status })
+      : sdk.contractorChangePhaseStatus<ProjectPhase>(phaseId, { status });
+  }
+
+  /**
+   * Persist a new order of the project phases
+   */
+  async reorderPhases(
+    party: PhaseParty,
+    projectId: number | string,
+    phaseIds: number[]
+  ): Promise<ApiResponse> {
+    const body = { phase_ids: phaseIds };
+    return party === "owner"
+      ? sdk.ownerReorderProjectPhases(projectId, body)
+      : sdk.contractorReorderProjectPhases(projectId, body);
+  }
+
+  /**
+   * Get the progress summary of the project phases (contractor)
+   */
+  async getStatistics(
+    projectId: number | string
+  ): Promise<ApiResponse<PhaseStatistics>> {
+    return sdk.contractorGetProjectPhaseStats<PhaseStatistics>(projectId);
+  }
+}
+
+/**
+ * Singleton instance of the PhaseApiService
+ */
+export const phaseApi = new PhaseApiService();
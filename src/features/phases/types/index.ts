@@ -0,0 +1,17 @@
+export type {
+  PhaseParty,
+  PhaseStatus,
+  ClosureRequestStatus,
+  ClosureAttachment,
+  PhaseClosureRequest,
+  ProjectPhase,
+  PhaseStatistics,
+  PhasePayload,
+  PhaseClosurePayload,
+  ProjectClosureDecision,
+  ProjectClosureRejectReason,
+  ProjectClosureRequest,
+  ProjectClosureReviewPayload,
+  ClosureTimelineEvent,
+  TimelineRange,
+} from "./phase";
@@ -0,0 +1,116 @@
+/** Which side of the project the current user is acting for */
+export type PhaseParty = "owner" | "contractor";
+
+export type PhaseStatus =
+  | "draft"
+  | "pending_approval"
+  | "open"
+  | "closed"
+  | "rejected";
+
+export type ClosureRequestStatus =
+  | "pending"
+  | "approved"
+  | "rejected"
+  | "cancelled";
+
+export interface ClosureAttachment {
+  id: number;
+  name?: string | null;
+  url: string;
+}
+
+/** The contractor's request to close a phase and the owner's answer */
+export interface PhaseClosureRequest {
+  id: number;
+  phase_id: number;
+  status: ClosureRequestStatus;
+  description: string;
+  attachments?: ClosureAttachment[];
+  rejection_reason?: string | null;
+  created_at: string;
+  reviewed_at?: string | null;
+  cancelled_at?: string | null;
+}
+
+export interface ProjectPhase {
+  id: number;
+  project_id: number;
+  offer_id?: number | null;
+  title: string;
+  description?: string | null;
+  order: number;
+  status: PhaseStatus;
+  progress?: number | null;
+  start_date?: string | null;
+  end_date?: string | null;
+  started_at?: string | null;
+  completed_at?: string | null;
+  // Every closure request of the phase, the last one is the current one
+  closure_requests?: PhaseClosureRequest[];
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface PhaseStatistics {
+  total_phases: number;
+  pending_phases: number;
+  in_progress_phases: number;
+  completed_phases: number;
+  progress_percentage: number;
+}
+
+export interface PhasePayload {
+  title: string;
+  description?: string;
+  order?: number;
+  status?: PhaseStatus;
+  offer_id?: number;
+  start_date?: string;
+  end_date?: string;
+}
+
+// Multipart when evidence is attached
+export interface PhaseClosurePayload {
+  phase_id: number;
+  description: string;
+  attachments?: File[];
+}
+
+export type ProjectClosureDecision = "approve" | "reject";
+
+export type ProjectClosureRejectReason =
+  | "incomplete_work"
+  | "quality_issues"
+  | "missing_documents"
+  | "outstanding_payments"
+  | "other";
+
+export interface ProjectClosureRequest {
+  id: number;
+  project_id: number;
+  status: ClosureRequestStatus;
+  message?: string | null;
+  created_at?: string;
+}
+
+export interface ProjectClosureReviewPayload {
+  decision: ProjectClosureDecision;
+  reject_reason_code?: ProjectClosureRejectReason;
+  reject_reason_text?: string;
+}
+
+/** One step of a phase's closure history */
+export interface ClosureTimelineEvent {
+  key: string;
+  status: "submitted" | Exclude<ClosureRequestStatus, "pending">;
+  date: string | null;
+  note?: string | null;
+  attachments?: ClosureAttachment[];
+}
+
+/** Visible window of the timeline, in milliseconds */
+export interface TimelineRange {
+  start: number;
+  end: number;
+}
@@ -0,0 +1,145 @@
+import {
+  ClosureTimelineEvent,
+  PhaseClosurePayload,
+  PhaseClosureRequest,
+  PhasePayload,
+  PhaseStatistics,
+  PhaseStatus,
+  ProjectPhase,
+  TimelineRange,
+} from "../types";
+import { NEXT_PHASE_STATUS, TIMELINE_PADDING_MS } from "../constants";
+import { ClosureFormValues, PhaseFormValues } from "./validation";
+
+/** Orders phases the way the contractor arranged them */
+export const sortPhases = (phases: ProjectPhase[]): ProjectPhase[] =>
+  phases.slice().sort((a, b) => a.order - b.order);
+
+export const getNextStatus = (status: PhaseStatus): PhaseStatus | null =>
+  NEXT_PHASE_STATUS[status] ?? null;
+
+/** Same summary as the statistics endpoint, derived from the phase list */
+export const computePhaseStatistics = (
+  phases: ProjectPhase[]
+): PhaseStatistics => {
+  const completed = phases.filter(isPhaseClosed).length;
+  const inProgress = phases.filter(
+    (phase) => phase.status === "open" && !isPhaseClosed(phase)
+  ).length;
+
+  return {
+    total_phases: phases.length,
+    pending_phases: phases.length - completed - inProgress,
+    in_progress_phases: inProgress,
+    completed_phases: completed,
+    progress_percentage:
+      phases.length > 0 ? Math.round((completed / phases.length) * 100) : 0,
+  };
+};
+
+const toTime = (value?: string | null) => {
+  if (!value) return null;
+  const time = new Date(value).getTime();
+  return Number.isNaN(time) ? null : time;
+};
+
+/** Start and end of a phase, falling back to when work actually happened */
+export const getPhaseDates = (phase: ProjectPhase) => {
+  const start = toTime(phase.start_date) ?? toTime(phase.started_at);
+  const end = toTime(phase.end_date) ?? toTime(phase.completed_at);
+
+  if (start === null || end === null || end < start) return null;
+  return { start, end };
+};
+
+/** The window that fits every scheduled phase, or null if none is scheduled */
+export const getTimelineRange = (
+  phases: ProjectPhase[]
+): TimelineRange | null => {
+  const scheduled = phases
+    .map(getPhaseDates)
+    .filter((dates): dates is { start: number; end: number } => !!dates);
+  if (scheduled.length === 0) return null;
+
+  const start = Math.min(...scheduled.map((dates) => dates.start));
+  const end = Math.max(...scheduled.map((dates) => dates.end));
+
+  return {
+    start: start - TIMELINE_PADDING_MS,
+    end: end + TIMELINE_PADDING_MS,
+  };
+};
+
+/** Position of a time inside the timeline, as a percentage */
+export const getTimelineOffset = (time: number, range: TimelineRange) =>
+  ((time - range.start) / (range.end - range.start)) * 100;
+
+export const toPhaseFormValues = (phase?: ProjectPhase): PhaseFormValues => ({
+  title: phase?.title ?? "",
+  description: phase?.description ?? "",
+  start_date: phase?.start_date?.slice(0, 10) ?? "",
+  end_date: phase?.end_date?.slice(0, 10) ?? "",
+});
+
+export const toPhasePayload = (values: PhaseFormValues): PhasePayload => ({
+  title: values.title,
+  description: values.description || undefined,
+  start_date: values.start_date || undefined,
+  end_date: values.end_date || undefined,
+});
+
+/** The latest closure request of a phase, if the contractor ever sent one */
+export const getCurrentClosureRequest = (
+  phase: ProjectPhase
+): PhaseClosureRequest | null => {
+  const requests = phase.closure_requests ?? [];
+  return requests.length > 0 ? requests[requests.length - 1] : null;
+};
+
+// A phase is closed once the server marks it closed or the owner approved
+// its closure and the phase list hasn't caught up yet
+export const isPhaseClosed = (phase: ProjectPhase) =>
+  phase.status === "closed" ||
+  getCurrentClosureRequest(phase)?.status === "approved";
+
+export const areAllPhasesClosed = (phases: ProjectPhase[]) =>
+  phases.length > 0 && phases.every(isPhaseClosed);
+
+/** Each request as its submission followed by how it was answered */
+export const getClosureTimeline = (
+  phase: ProjectPhase
+): ClosureTimelineEvent[] =>
+  (phase.closure_requests ?? []).flatMap((request) => {
+    const events: ClosureTimelineEvent[] = [
+      {
+        key: `${request.id}-submitted`,
+        status: "submitted",
+        date: request.created_at,
+        note: request.description,
+        attachments: request.attachments,
+      },
+    ];
+
+    if (request.status !== "pending") {
+      events.push({
+        key: `${request.id}-${request.status}`,
+        status: request.status,
+        date:
+          request.status === "cancelled"
+            ? request.cancelled_at ?? null
+            : request.reviewed_at ?? null,
+        note: request.status === "rejected" ? request.rejection_reason : null,
+      });
+    }
+
+    return events;
+  });
+
+export const toPhaseClosurePayload = (
+  phaseId: number,
+  values: ClosureFormValues
+): PhaseClosurePayload => ({
+  phase_id: phaseId,
+  description: values.description,
+  attachments: values.attachments.length > 0 ? values.attachments : undefined,
+});
@@ -0,0 +1,109 @@
+"use client";
+import { z } from "zod";
+import {
+  getClosureValidationMessages,
+  getPhaseValidationMessages,
+} from "./validationMessages";
+import {
+  CLOSURE_LIMITS,
+  PHASE_LIMITS,
+  PROJECT_CLOSURE_REJECT_REASONS,
+} from "../constants";
+
+export const createPhaseValidationSchemas = (t: (key: string) => string) => {
+  const messages = getPhaseValidationMessages(t);
+
+  const PhaseSchema = z
+    .object({
+      title: z
+        .string()
+        .trim()
+        .min(1, messages.title.required)
+        .max(PHASE_LIMITS.titleMax, messages.title.maxLength),
+      description: z
+        .string()
+        .trim()
+        .max(PHASE_LIMITS.descriptionMax, messages.description.maxLength),
+      start_date: z.string(),
+      end_date: z.string(),
+    })
+    .refine(
+      (values) =>
+        !values.start_date ||
+        !values.end_date ||
+        values.end_date >= values.start_date,
+      { message: messages.endDate.beforeStart, path: ["end_date"] }
+    );
+
+  return { PhaseSchema };
+};
+
+export type PhaseFormValues = z.infer<
+  ReturnType<typeof createPhaseValidationSchemas>["PhaseSchema"]
+>;
+
+export const createClosureValidationSchemas = (t: (key: string) => string) => {
+  const messages = getClosureValidationMessages(t);
+
+  const reason = z
+    .string()
+    .trim()
+    .max(CLOSURE_LIMITS.reasonMax, messages.reason.maxLength);
+
+  // Phase closure request with the evidence of the finished work
+  const ClosureSchema = z.object({
+    description: z
+      .string()
+      .trim()
+      .min(1, messages.description.required)
+      .max(CLOSURE_LIMITS.descriptionMax, messages.description.maxLength),
+    attachments: z
+      .array(z.custom<File>((value) => value instanceof File))
+      .max(CLOSURE_LIMITS.attachmentsMax, messages.attachments.tooMany)
+      .refine(
+        (files) =>
+          files.every((file) => file.size <= CLOSURE_LIMITS.attachmentMaxSize),
+        messages.attachments.tooLarge
+      ),
+  });
+
+  const RejectionSchema = z.object({
+    reason: reason.min(1, messages.reason.required),
+  });
+
+  const ProjectClosureRequestSchema = z.object({
+    message: z
+      .string()
+      .trim()
+      .max(CLOSURE_LIMITS.messageMax, messages.message.maxLength),
+  });
+
+  // The reason code is required, the text only explains "other"
+  const ProjectClosureRejectionSchema = z
+    .object({
+      reason_code: z.enum(PROJECT_CLOSURE_REJECT_REASONS),
+      reason_text: reason,
+    })
+    .refine(
+      (values) => values.reason_code !== "other" || values.reason_text !== "",
+      { message: messages.reason.required, path: ["reason_text"] }
+    );
+
+  return {
+    ClosureSchema,
+    RejectionSchema,
+    ProjectClosureRequestSchema,
+    ProjectClosureRejectionSchema,
+  };
+};
+
+type ClosureSchemas = ReturnType<typeof createClosureValidationSchemas>;
+
+export type ClosureFormValues = z.infer<ClosureSchemas["ClosureSchema"]>;
+export type RejectionFormValues = z.infer<ClosureSchemas["RejectionSchema"]>;
+export type ProjectClosureRequestFormValues = z.infer<
+  ClosureSchemas["ProjectClosureRequestSchema"]
+>;
+export type ProjectClosureRejectionFormValues = z.infer<
+  ClosureSchemas["ProjectClosureRejectionSchema"]
+>;
@@ -0,0 +1,31 @@
+"use client";
+export const getPhaseValidationMessages = (t: (key: string) => string) => ({
+  title: {
+    required: t("feedback.validation.phase.title.required"),
+    maxLength: t("feedback.validation.phase.title.maxLength"),
+  },
+  description: {
+    maxLength: t("feedback.validation.phase.description.maxLength"),
+  },
+  endDate: {
+    beforeStart: t("feedback.validation.phase.endDate.beforeStart"),
+  },
+});
+
+export const getClosureValidationMessages = (t: (key: string) => string) => ({
+  description: {
+    required: t("feedback.validation.closure.description.required"),
+    maxLength: t("feedback.validation.closure.description.maxLength"),
+  },
+  attachments: {
+    tooMany: t("feedback.validation.closure.attachments.tooMany"),
+    tooLarge: t("feedback.validation.closure.attachments.tooLarge"),
+  },
+  reason: {
+    required: t("feedback.validation.closure.reason.required"),
+    maxLength: t("feedback.validation.closure.reason.maxLength"),
+  },
+  message: {
+    maxLength: t("feedback.validation.closure.message.maxLength"),
+  },
+});
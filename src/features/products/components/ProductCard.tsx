@@ -19,9 +19,13 @@ import { Product, ProductLabel } from "../types";
 import { useLocale } from "@/hooks/useLocale";
 import { useTranslations } from "next-intl";
 import { formatPrice } from "@/lib/helpers";
+import { ProductRating } from "@/features/reviews/components";
+import { ProductWithReviews } from "@/features/reviews/types";
 
 interface ProductCardProps {
   product: Product;
+  // Rating summary loaded once for the whole list
+  rating?: ProductWithReviews;
   onView?: (product: Product) => void;
   onEdit?: (product: Product) => void;
   onDelete?: (id: number) => void;
@@ -31,6 +35,7 @@ interface ProductCardProps {
 
 export function ProductCard({
   product,
+  rating,
   onView,
   onEdit,
   onDelete,
@@ -284,6 +289,10 @@ export function ProductCard({
                 >
                   {productDescription || t("noDescription")}
                 </p>
+
+                {!product.is_optimistic && (
+                  <ProductRating rating={rating} />
+                )}
               </div>
 
               {/* Price and Category - Fixed at bottom */}
@@ -35,6 +35,7 @@ import { useLocale } from "@/hooks/useLocale";
 import { useTranslations } from "next-intl";
 import { Product, ProductMedia } from "../types";
 import { PRODUCT_LABELS } from "../constants";
+import { ProductReviews } from "@/features/reviews/components";
 
 interface ProductDetailsProps {
   product?: Product;
@@ -46,6 +47,7 @@ interface ProductDetailsProps {
   onShare?: () => void;
   onDownload?: (media: ProductMedia) => void;
   onRetry?: () => void; // Add retry prop
+  isOwnProduct?: boolean; // Hides the review form and votes
 }
 
 export function ProductDetails({
@@ -58,6 +60,7 @@ export function ProductDetails({
   onShare,
   onDownload,
   onRetry,
+  isOwnProduct = false,
 }: ProductDetailsProps) {
   const { currentLocale } = useLocale();
   const t = useTranslations("products");
@@ -550,6 +553,13 @@ export function ProductDetails({
           )}
         </div>
       </div>
+
+      <Separator />
+
+      <ProductReviews
+        productId={String(product.id)}
+        isOwnProduct={isOwnProduct}
+      />
     </div>
   );
 }
@@ -53,6 +53,8 @@ import { useLocale } from "@/hooks/useLocale";
 import toast from "react-hot-toast";
 import { PAGINATION_DEFAULTS } from "@/constants/global";
 import { PRODUCT_LABELS } from "../constants";
+import { useAuthStore } from "@/features/auth/store/authStore";
+import { useSupplierProductRatings } from "@/features/reviews/hooks";
 
 type ViewMode = "grid" | "table";
 
@@ -98,6 +100,12 @@ export function ProductsManagementPage({
     deleteProduct,
   } = useProductsStore();
 
+  // One rating request for the list instead of one per card
+  const supplierId = useAuthStore((state) => state.user?.id);
+  const { ratings } = useSupplierProductRatings(
+    supplierId ? String(supplierId) : undefined
+  );
+
   // Fetch products on mount
   useEffect(() => {
     fetchProducts();
@@ -443,6 +451,7 @@ export function ProductsManagementPage({
                   <ProductCard
                     key={product.id}
                     product={product}
+                    rating={ratings[String(product.id)]}
                     onView={() => handleViewProduct(Number(product.id))}
                     onEdit={() => handleEditProduct(Number(product.id))}
                     onDelete={() => handleDeleteProduct(Number(product.id))}
@@ -3,7 +3,6 @@ export {
   DISCOUNT_TYPES,
   PRODUCT_STATUS,
   FILE_CONSTRAINTS,
-  PRODUCT_ENDPOINTS,
   GRID_BREAKPOINTS,
   STAGGER_DELAYS,
 } from "./productConstants";
@@ -71,18 +71,6 @@ export const FILE_CONSTRAINTS = {
   },
 } as const;
 
-// API endpoints
-export const PRODUCT_ENDPOINTS = {
-  list: "/supplier/products/my-products",
-  create: "/supplier/products",
-  get: (id: number) => `/supplier/products/${id}`,
-  update: (id: number) => `/supplier/products/${id}/update`,
-  delete: (id: number) => `/supplier/products/${id}`,
-  uploadFiles: (id: number) => `/supplier/products/${id}/upload-files`,
-  deleteMedia: (id: number, mediaId: number) =>
-    `/supplier/products/${id}/media/${mediaId}`,
-} as const;
-
 // Grid responsive breakpoints
 export const GRID_BREAKPOINTS = {
   sm: 1,
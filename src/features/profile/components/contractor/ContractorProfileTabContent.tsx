@@ -17,6 +17,8 @@ import Documents from "./overview/Documents";
 import Operational from "./overview/Operational";
 import AchievedProjects from "./overview/AchievedProjects";
 import { usePersonalInfoStore } from "@/features/profile/store/personalInfoStore";
+import { useAuthStore } from "@/features/auth/store/authStore";
+import { ContractorReviews } from "@/features/reviews/components";
 import Link from "next/link";
 
 interface ContractorProfileTabContentProps {
@@ -36,6 +38,7 @@ const ContractorProfileTabContent: React.FC<
     isLoading,
     error,
   } = usePersonalInfoStore();
+  const userId = useAuthStore((state) => state.user?.id);
   const [content, setContent] = useState<React.ReactNode>(null);
   const [hasInitialLoad, setHasInitialLoad] = useState(false);
 
@@ -66,6 +69,13 @@ const ContractorProfileTabContent: React.FC<
       title: t("operational"),
       component: <Operational profile={contractorProfile} />,
     },
+    {
+      id: 4,
+      title: t("reviews"),
+      component: userId ? (
+        <ContractorReviews contractorId={String(userId)} isOwnProfile />
+      ) : null,
+    },
   ];
   const getContentForTab = (tabIndex: number) => {
     const tab = tabs.find((t) => t.id === tabIndex);
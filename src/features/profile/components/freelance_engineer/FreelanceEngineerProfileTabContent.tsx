@@ -17,6 +17,8 @@ import {
   ProfessionalInfo,
 } from "@/features/profile/components/freelance_engineer/overview";
 import { usePersonalInfoStore } from "@/features/profile/store/personalInfoStore";
+import { useAuthStore } from "@/features/auth/store/authStore";
+import { EngineerReviews } from "@/features/reviews/components";
 import FreelanceEngineerProfessionalInfo from "./FreelanceEngineerProfessionalInfo";
 
 interface FreelanceEngineerProfileTabContentProps {
@@ -35,6 +37,7 @@ const FreelanceEngineerProfileTabContent: React.FC<
     isLoading,
     error,
   } = usePersonalInfoStore();
+  const userId = useAuthStore((state) => state.user?.id);
   const [content, setContent] = useState<React.ReactNode>(null);
   const [hasInitialLoad, setHasInitialLoad] = useState(false);
 
@@ -54,6 +57,13 @@ const FreelanceEngineerProfileTabContent: React.FC<
       title: t("professionalInfo"),
       component: <ProfessionalInfo />,
     },
+    {
+      id: 3,
+      title: t("reviews"),
+      component: userId ? (
+        <EngineerReviews engineerId={String(userId)} isOwnProfile />
+      ) : null,
+    },
   ];
 
   const getContentForTab = (tabIndex: number) => {
@@ -1,5 +1,9 @@
 import { useState, useEffect } from "react";
-import { documentsApi, Document } from "../services/documentsApi";
+import {
+  documentsApi,
+  Document,
+  UploadDocumentPayload,
+} from "../services/documentsApi";
 
 export const useDocuments = () => {
   const [documents, setDocuments] = useState<Document[]>([]);
@@ -41,9 +45,9 @@ export const useDocuments = () => {
     }
   };
 
-  const uploadDocument = async (formData: FormData) => {
+  const uploadDocument = async (payload: UploadDocumentPayload) => {
     try {
-      const response = await documentsApi.uploadDocument(formData);
+      const response = await documentsApi.uploadDocument(payload);
       if (response.success && response.data) {
         // Add the new document to local state
         setDocuments((prev) => [...prev, response.data!]);
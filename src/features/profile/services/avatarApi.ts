@@ -1,4 +1,4 @@
-import api from "@/lib/api";
+import * as sdk from "@/lib/sdk";
 
 export interface AvatarUploadResponse {
   success: boolean;
@@ -24,52 +24,36 @@ export interface AvatarUpdateResponse {
 export const avatarApi = {
   // Upload new avatar
   uploadAvatar: async (file: File): Promise<AvatarUploadResponse> => {
-    const formData = new FormData();
-    formData.append("file", file);
-
-    const response = await api.post("/base/profile/avatar/upload", formData, {
-      headers: {
-        "Content-Type": "multipart/form-data",
-      },
-      transformRequest: [(data) => data],
+    const response = await sdk.postBaseProfileAvatarUpload<{ avatar_url?: string }>({
+      file,
     });
 
     return {
-      success: response.data.success,
-      message: response.data.message,
-      data: (response.data.response || response.data.data) as
-        | { avatar_url?: string }
-        | undefined,
+      success: response.success,
+      message: response.message,
+      data: response.response || response.data,
     };
   },
 
   // Update existing avatar
   updateAvatar: async (file: File): Promise<AvatarUpdateResponse> => {
-    const formData = new FormData();
-    formData.append("file", file);
-
-    const response = await api.post("/base/profile/avatar/update", formData, {
-      headers: {
-        "Content-Type": "multipart/form-data",
-      },
-      transformRequest: [(data) => data],
+    const response = await sdk.postBaseProfileAvatarUpdate<{ avatar_url?: string }>({
+      file,
     });
 
     return {
-      success: response.data.success,
-      message: response.data.message,
-      data: (response.data.response || response.data.data) as
-        | { avatar_url?: string }
-        | undefined,
+      success: response.success,
+      message: response.message,
+      data: response.response || response.data,
     };
   },
 
   // Remove avatar
   removeAvatar: async (): Promise<AvatarRemoveResponse> => {
-    const response = await api.post("/base/profile/avatar/remove");
+    const response = await sdk.postBaseProfileAvatarRemove();
     return {
-      success: response.data.success,
-      message: response.data.message,
+      success: response.success,
+      message: response.message,
     };
   },
 };
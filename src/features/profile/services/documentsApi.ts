@@ -1,4 +1,4 @@
-import api from "@/lib/api";
+import * as sdk from "@/lib/sdk";
 
 // Document interface based on the profile structure
 export interface Document {
@@ -34,69 +34,42 @@ export interface ApiResponse<T = any> {
   message?: string;
 }
 
+export type UploadDocumentPayload = sdk.PostBaseDocumentUploadDocumentBody;
+
 export const documentsApi = {
   // Get uploaded documents
   async getUploadedDocuments(): Promise<ApiResponse<Document[]>> {
-    try {
-      const response = await api.get("/base/document/uploaded-documents");
-      return {
-        success: response.data.success,
-        data: response.data.response || response.data.data,
-        message: response.data.message,
-      };
-    } catch (error: any) {
-      console.error("Error fetching uploaded documents:", error);
-      return {
-        success: false,
-        data: [],
-        message: error?.response?.data?.message || "Failed to fetch documents",
-      };
-    }
+    const response = await sdk.getBaseDocumentUploadedDocuments<Document[]>();
+    return {
+      success: response.success,
+      data: response.response || response.data || [],
+      message: response.message,
+    };
   },
 
   // Delete a document
-  async deleteDocument(documentId: number): Promise<ApiResponse<any>> {
-    try {
-      const response = await api.delete(
-        `/base/document/uploaded-documents/${documentId}`
-      );
-      return {
-        success: response.data.success,
-        data: response.data.response || response.data.data,
-        message: response.data.message,
-      };
-    } catch (error: any) {
-      console.error("Error deleting document:", error);
-      return {
-        success: false,
-        message: error?.response?.data?.message || "Failed to delete document",
-      };
-    }
+  async deleteDocument(documentId: number): Promise<ApiResponse<boolean>> {
+    const response = await sdk.deleteBaseDocumentDeleteDocument({
+      document_id: documentId,
+    });
+    return {
+      success: response.success,
+      data: response.response || response.data,
+      message: response.message,
+    };
   },
 
-  // Upload a document
-  async uploadDocument(formData: FormData): Promise<ApiResponse<Document>> {
-    try {
-      const response = await api.post(
-        "/base/document/uploaded-documents",
-        formData,
-        {
-          headers: {
-            "Content-Type": "multipart/form-data",
-          },
-        }
-      );
-      return {
-        success: response.data.success,
-        data: response.data.response || response.data.data,
-        message: response.data.message,
-      };
-    } catch (error: any) {
-      console.error("Error uploading document:", error);
-      return {
-        success: false,
-        message: error?.response?.data?.message || "Failed to upload document",
-      };
-    }
+  // Upload a document, the file is sent as multipart/form-data
+  async uploadDocument(
+    payload: UploadDocumentPayload
+  ): Promise<ApiResponse<Document>> {
+    const response = await sdk.postBaseDocumentUploadDocument<Document>(
+      payload
+    );
+    return {
+      success: response.success,
+      data: response.response || response.data,
+      message: response.message,
+    };
   },
 };
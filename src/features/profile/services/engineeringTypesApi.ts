@@ -1,4 +1,4 @@
-import api from "@/lib/api";
+import * as sdk from "@/lib/sdk";
 
 // Engineering Type interface
 export interface EngineeringType {
@@ -27,13 +27,12 @@ export const engineeringTypesApi = {
   // Fetch engineering types from the general-data-profile/engineering-types endpoint
   async getEngineeringTypes(): Promise<EngineeringType[]> {
     try {
-      const response = await api.get("/general-data-profile/engineering-types");
+      const response = await sdk.getEngineeringTypes<EngineeringType[]>();
 
-      // Handle the response structure - check if data is in response.data.response or response.data.data
-      const responseData =
-        response.data?.response || response.data?.data || response.data;
+      // Handle the response structure - check if data is in response.response or response.data
+      const responseData = response.response || response.data;
 
-      if (!responseData) {
+      if (!response.success || !responseData) {
         throw new Error("No engineering types data received");
       }
 
@@ -1,4 +1,4 @@
-import api from "@/lib/api";
+import * as sdk from "@/lib/sdk";
 
 // Experience Years Range interface
 export interface ExperienceYearsRange {
@@ -26,11 +26,12 @@ export const experienceYearsRangesApi = {
   // Fetch experience years ranges from the general-data-profile/experience-years-ranges endpoint
   async getExperienceYearsRanges(): Promise<ExperienceYearsRange[]> {
     try {
-      const response = await api.get("/general-data-profile/all");
+      const response = await sdk.getAllGeneralData<{
+        experience_years_ranges?: ExperienceYearsRange[];
+      }>();
 
       // Extract experience years ranges from the operational data
-      const operationalData =
-        response.data?.response || response.data?.data || response.data;
+      const operationalData = response.response || response.data;
 
       if (!operationalData || !operationalData.experience_years_ranges) {
         throw new Error("No experience years ranges data received");
@@ -1,4 +1,4 @@
-import { api } from "@/lib/api";
+import * as sdk from "@/lib/sdk";
 
 export interface WorkField {
   id: number;
@@ -18,11 +18,11 @@ export interface ApiResponse<T> {
 
 export const workFieldsApi = {
   async getWorkFields(): Promise<ApiResponse<WorkField[]>> {
-    const response = await api.get("/general-data-profile/work-fields");
+    const response = await sdk.getWorkFields<WorkField[]>();
     return {
-      success: response.data.success,
-      data: response.data.response || response.data.data,
-      message: response.data.message,
+      success: response.success,
+      data: response.response || response.data,
+      message: response.message,
     };
   },
 };
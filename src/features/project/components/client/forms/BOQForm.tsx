@@ -1,6 +1,7 @@
 "use client";
 import { useTranslations } from "next-intl";
 import React, { useState, useEffect } from "react";
+import toast from "react-hot-toast";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -34,29 +35,49 @@ import {
 import NavigationButtons from "@/features/project/components/common/NavigationButtons";
 import BOQTable from "./BOQTable";
 import BOQItemForm from "./BOQItemForm";
+import BOQImportDialog from "./boqImport/BOQImportDialog";
 import { useProjectStore } from "@/features/project/store/projectStore";
-import { BOQItem, BOQTemplate, Unit } from "@/features/project/types/project";
+import { BOQItem, BOQTemplate } from "@/features/project/types/project";
 import { useCreateProject } from "@/features/project/hooks/useCreateProject";
+import { useProjectBoq } from "@/features/project/hooks/useProjectBoq";
 import { createProjectValidationSchemas } from "@/features/project/utils/validation";
-import { Plus, FileText, RotateCcw } from "lucide-react";
+import { boqApi } from "@/features/project/services/boqApi";
+import {
+  Plus,
+  FileText,
+  RotateCcw,
+  FileSpreadsheet,
+  Lock,
+  LockOpen,
+  Calculator,
+} from "lucide-react";
 
 const BOQForm = () => {
   const t = useTranslations("project.step4");
   const tValidation = useTranslations("");
   const {
+    projectId,
     boqData,
     boqTemplates,
     units,
     setBOQTemplates,
     setUnits,
-    addBOQItem,
-    updateBOQItem,
-    removeBOQItem,
-    resetBOQ,
-    loadBOQTemplate,
   } = useProjectStore();
 
   const { submitBOQ, loading, error } = useCreateProject();
+  const {
+    isLocked,
+    isBusy,
+    savingItemIds,
+    reload,
+    addItem,
+    updateItem,
+    removeItem,
+    moveItem,
+    replaceItems,
+    recalculate,
+    toggleLock,
+  } = useProjectBoq(projectId);
 
   // Create validation schema
   const { BOQFormSchema } = createProjectValidationSchemas(tValidation);
@@ -73,6 +94,7 @@ const BOQForm = () => {
   const [showItemForm, setShowItemForm] = useState(false);
   const [editingItem, setEditingItem] = useState<BOQItem | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [showImport, setShowImport] = useState(false);
 
   // Sync form with store data
   useEffect(() => {
@@ -136,58 +158,43 @@ const BOQForm = () => {
       },
     ];
 
-    // Mock units
-    const mockUnits: Unit[] = [
-      {
-        id: 1,
-        name: "Cubic Meter",
-        symbol: "m³",
-        description: "Volume unit",
-        is_active: true,
-      },
-      {
-        id: 2,
-        name: "Kilogram",
-        symbol: "kg",
-        description: "Weight unit",
-        is_active: true,
-      },
-      {
-        id: 3,
-        name: "Square Meter",
-        symbol: "m²",
-        description: "Area unit",
-        is_active: true,
-      },
-      {
-        id: 4,
-        name: "Meter",
-        symbol: "m",
-        description: "Length unit",
-        is_active: true,
-      },
-      {
-        id: 5,
-        name: "Piece",
-        symbol: "pcs",
-        description: "Count unit",
-        is_active: true,
-      },
-    ];
-
     setBOQTemplates(mockTemplates);
-    setUnits(mockUnits);
-  }, [setBOQTemplates, setUnits]);
+  }, [setBOQTemplates]);
+
+  // Units come from the API so imported items and manual items share ids
+  useEffect(() => {
+    boqApi.getUnits().then((response) => {
+      if (response.success) {
+        setUnits(
+          (response.data || response.response || []).map((unit) => ({
+            id: unit.id,
+            name: unit.name,
+            symbol: unit.symbol || unit.code || "",
+            description: unit.description || "",
+            is_active: unit.is_active ?? true,
+          }))
+        );
+      }
+    });
+  }, [setUnits]);
+
+  const notifyFailure = (result: { success: boolean; message?: string }) => {
+    if (!result.success) {
+      toast.error(result.message || t("persistence.saveError"));
+    }
+  };
 
-  const handleTemplateSelect = (templateId: string) => {
+  const handleTemplateSelect = async (templateId: string) => {
     if (templateId === "manual") return;
 
+    const template = boqTemplates?.find(
+      (item) => item.id === parseInt(templateId)
+    );
+    if (!template) return;
+
     setIsLoading(true);
-    // Simulate API call
-    setTimeout(() => {
-      loadBOQTemplate(parseInt(templateId));
-      setIsLoading(false);
-    }, 1000);
+    notifyFailure(await replaceItems(template.items));
+    setIsLoading(false);
   };
 
   const handleAddItem = () => {
@@ -200,24 +207,39 @@ const BOQForm = () => {
     setShowItemForm(true);
   };
 
-  const handleItemSubmit = (itemData: Omit<BOQItem, "id">) => {
-    if (editingItem) {
-      updateBOQItem(editingItem.id!, itemData);
-    } else {
-      addBOQItem(itemData);
-    }
+  // The dialog closes right away, the table already shows the optimistic row
+  const handleItemSubmit = async (itemData: Omit<BOQItem, "id">) => {
+    const itemId = editingItem?.id;
     setShowItemForm(false);
     setEditingItem(null);
+
+    notifyFailure(
+      itemId ? await updateItem(itemId, itemData) : await addItem(itemData)
+    );
+  };
+
+  const handleDeleteItem = async (itemId: string) => {
+    notifyFailure(await removeItem(itemId));
   };
 
-  const handleDeleteItem = (itemId: string) => {
-    removeBOQItem(itemId);
+  const handleMoveItem = async (itemId: string, direction: -1 | 1) => {
+    notifyFailure(await moveItem(itemId, direction));
   };
 
-  const handleReset = () => {
-    resetBOQ();
+  const handleReset = async () => {
+    notifyFailure(await replaceItems([]));
   };
 
+  const handleRecalculate = async () => {
+    notifyFailure(await recalculate());
+  };
+
+  const handleToggleLock = async () => {
+    notifyFailure(await toggleLock());
+  };
+
+  const isEditingDisabled = isLoading || isBusy || isLocked;
+
   const onSubmit = async (data: z.infer<typeof BOQFormSchema>) => {
     console.log("🚀 Submitting BOQ:", data);
     const result = await submitBOQ(data);
@@ -246,7 +268,10 @@ const BOQForm = () => {
         >
           <div className="w-full flex flex-col sm:flex-row gap-4 sm:gap-2 sm:items-center sm:justify-between">
             <div className="flex-1 min-w-0">
-              <Select onValueChange={handleTemplateSelect} disabled={isLoading}>
+              <Select
+                onValueChange={handleTemplateSelect}
+                disabled={isEditingDisabled}
+              >
                 <SelectTrigger className="w-full sm:w-[300px] min-w-0">
                   <SelectValue
                     placeholder={t("templateSelection.templatePlaceholder")}
@@ -279,19 +304,31 @@ const BOQForm = () => {
                 type="button"
                 onClick={handleAddItem}
                 className="flex items-center gap-2 flex-shrink-0"
-                disabled={isLoading}
+                disabled={isEditingDisabled}
               >
                 <Plus className="h-4 w-4" />
                 <span className="hidden sm:block text-sm font-medium">
                   {t("boqTable.addItem")}
                 </span>
               </Button>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setShowImport(true)}
+                className="flex items-center gap-2 flex-shrink-0"
+                disabled={isEditingDisabled || !projectId}
+              >
+                <FileSpreadsheet className="h-4 w-4" />
+                <span className="hidden sm:block text-sm font-medium">
+                  {t("import.openButton")}
+                </span>
+              </Button>
               <AlertDialog>
                 <AlertDialogTrigger asChild>
                   <Button
                     type="button"
                     variant="outline"
-                    disabled={boqData.items.length === 0}
+                    disabled={isEditingDisabled || boqData.items.length === 0}
                     className="flex-shrink-0"
                   >
                     <RotateCcw className="h-4 w-4" />
@@ -320,8 +357,46 @@ const BOQForm = () => {
                   </AlertDialogFooter>
                 </AlertDialogContent>
               </AlertDialog>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={handleRecalculate}
+                disabled={isLoading || isBusy || boqData.items.length === 0}
+                className="flex-shrink-0"
+              >
+                <Calculator className="h-4 w-4" />
+                <span className="hidden sm:block text-sm font-medium">
+                  {t("actions.recalculate")}
+                </span>
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={handleToggleLock}
+                disabled={isLoading || isBusy || boqData.items.length === 0}
+                className="flex-shrink-0"
+              >
+                {isLocked ? (
+                  <LockOpen className="h-4 w-4" />
+                ) : (
+                  <Lock className="h-4 w-4" />
+                )}
+                <span className="hidden sm:block text-sm font-medium">
+                  {isLocked ? t("lock.unlock") : t("lock.lock")}
+                </span>
+              </Button>
             </div>
           </div>
+
+          {isLocked && (
+            <div className="flex items-start gap-2 p-3 bg-amber-50 border border-amber-200 rounded-md">
+              <Lock className="h-4 w-4 mt-0.5 text-amber-700 flex-shrink-0" />
+              <div className="text-sm text-amber-800">
+                <p className="font-medium">{t("lock.lockedTitle")}</p>
+                <p>{t("lock.lockedDescription")}</p>
+              </div>
+            </div>
+          )}
           {/* BOQ Table */}
           <BOQTable
             items={boqData.items}
@@ -329,6 +404,9 @@ const BOQForm = () => {
             onAddItem={handleAddItem}
             onEditItem={handleEditItem}
             onDeleteItem={handleDeleteItem}
+            onMoveItem={handleMoveItem}
+            savingItemIds={savingItemIds}
+            readOnly={isLocked}
             totalAmount={boqData.total_amount}
           />
 
@@ -356,6 +434,12 @@ const BOQForm = () => {
         editingItem={editingItem}
         units={units || []}
       />
+      <BOQImportDialog
+        projectId={projectId}
+        isOpen={showImport}
+        onClose={() => setShowImport(false)}
+        onApplied={reload}
+      />
     </div>
   );
 };
@@ -22,7 +22,15 @@ import {
   AlertDialogTrigger,
 } from "@/shared/components/ui/alert-dialog";
 import { BOQItem, Unit } from "@/features/project/types/project";
-import { Edit, Trash2, CircleCheckBig, CircleX } from "lucide-react";
+import {
+  Edit,
+  Trash2,
+  CircleCheckBig,
+  CircleX,
+  ArrowUp,
+  ArrowDown,
+  Loader2,
+} from "lucide-react";
 import {
   Tooltip,
   TooltipContent,
@@ -36,6 +44,9 @@ interface BOQTableProps {
   onAddItem: () => void;
   onEditItem: (item: BOQItem) => void;
   onDeleteItem: (itemId: string) => void;
+  onMoveItem?: (itemId: string, direction: -1 | 1) => void;
+  savingItemIds?: string[];
+  readOnly?: boolean;
   totalAmount: number;
 }
 
@@ -45,6 +56,9 @@ const BOQTable: React.FC<BOQTableProps> = ({
   onAddItem,
   onEditItem,
   onDeleteItem,
+  onMoveItem,
+  savingItemIds = [],
+  readOnly = false,
   totalAmount,
 }) => {
   const t = useTranslations("project.step4.boqTable");
@@ -101,114 +115,155 @@ const BOQTable: React.FC<BOQTableProps> = ({
               </TableHeader>
               <TableBody>
                 {items.length > 0 ? (
-                  items.map((item) => (
-                    <TableRow key={item.id}>
-                      <TableCell className="font-medium max-w-[200px]">
-                        <Tooltip>
-                          <TooltipTrigger asChild>
-                            <div className="truncate">{item.name}</div>
-                          </TooltipTrigger>
-                          <TooltipContent>
-                            <p className="max-w-xs">{item.name}</p>
-                          </TooltipContent>
-                        </Tooltip>
-                      </TableCell>
-                      <TableCell className="text-sm text-muted-foreground max-w-[300px]">
-                        <Tooltip>
-                          <TooltipTrigger asChild>
-                            <div className="truncate">{item.description}</div>
-                          </TooltipTrigger>
-                          <TooltipContent>
-                            <p className="max-w-xs">{item.description}</p>
-                          </TooltipContent>
-                        </Tooltip>
-                      </TableCell>
-                      <TableCell className="text-sm max-w-[150px]">
-                        <div className="truncate">
-                          {getUnitName(item.unit_id)}
-                        </div>
-                      </TableCell>
-                      <TableCell className="text-right max-w-[120px]">
-                        <div className="truncate">
-                          {item.quantity.toLocaleString()}
-                        </div>
-                      </TableCell>
-                      <TableCell className="text-right max-w-[140px]">
-                        <div className="truncate">
-                          {formatCurrency(item.unit_price)}
-                        </div>
-                      </TableCell>
-                      <TableCell className="text-right font-medium max-w-[140px]">
-                        <div className="truncate">
-                          {formatCurrency(item.quantity * item.unit_price)}
-                        </div>
-                      </TableCell>
-                      <TableCell className="text-center max-w-[120px]">
-                        {item.is_required ? (
-                          <CircleCheckBig className="h-4 w-4 text-green-500 mx-auto" />
-                        ) : (
-                          <CircleX className="h-4 w-4 text-red-500 mx-auto" />
-                        )}
-                      </TableCell>
-                      <TableCell className="text-center max-w-[140px]">
-                        <div className="flex items-center justify-center gap-2">
+                  items.map((item, index) => {
+                    const isSaving = savingItemIds.includes(item.id!);
+                    const isDisabled = readOnly || isSaving;
+
+                    return (
+                      <TableRow
+                        key={item.id}
+                        className={isSaving ? "opacity-60" : undefined}
+                      >
+                        <TableCell className="font-medium max-w-[200px]">
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <div className="truncate">{item.name}</div>
+                            </TooltipTrigger>
+                            <TooltipContent>
+                              <p className="max-w-xs">{item.name}</p>
+                            </TooltipContent>
+                          </Tooltip>
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground max-w-[300px]">
                           <Tooltip>
                             <TooltipTrigger asChild>
-                              <Button
-                                type="button"
-                                variant="ghost"
-                                size="sm"
-                                onClick={() => onEditItem(item)}
-                                className="h-8 w-8 p-0"
-                              >
-                                <Edit className="h-4 w-4" />
-                              </Button>
+                              <div className="truncate">{item.description}</div>
                             </TooltipTrigger>
-                            <TooltipContent className="bg-design-main text-white">
-                              <p className="max-w-xs">
-                                {t("dialogs.editTooltip")}
-                              </p>
+                            <TooltipContent>
+                              <p className="max-w-xs">{item.description}</p>
                             </TooltipContent>
                           </Tooltip>
+                        </TableCell>
+                        <TableCell className="text-sm max-w-[150px]">
+                          <div className="truncate">
+                            {getUnitName(item.unit_id)}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right max-w-[120px]">
+                          <div className="truncate">
+                            {item.quantity.toLocaleString()}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right max-w-[140px]">
+                          <div className="truncate">
+                            {formatCurrency(item.unit_price)}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right font-medium max-w-[140px]">
+                          <div className="truncate">
+                            {formatCurrency(item.quantity * item.unit_price)}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-center max-w-[120px]">
+                          {item.is_required ? (
+                            <CircleCheckBig className="h-4 w-4 text-green-500 mx-auto" />
+                          ) : (
+                            <CircleX className="h-4 w-4 text-red-500 mx-auto" />
+                          )}
+                        </TableCell>
+                        <TableCell className="text-center max-w-[140px]">
+                          <div className="flex items-center justify-center gap-2">
+                            {isSaving && (
+                              <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                            )}
+                            {onMoveItem && (
+                              <>
+                                <Button
+                                  type="button"
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => onMoveItem(item.id!, -1)}
+                                  disabled={isDisabled || index === 0}
+                                  className="h-8 w-8 p-0"
+                                  aria-label={t("moveUp")}
+                                >
+                                  <ArrowUp className="h-4 w-4" />
+                                </Button>
+                                <Button
+                                  type="button"
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => onMoveItem(item.id!, 1)}
+                                  disabled={
+                                    isDisabled || index === items.length - 1
+                                  }
+                                  className="h-8 w-8 p-0"
+                                  aria-label={t("moveDown")}
+                                >
+                                  <ArrowDown className="h-4 w-4" />
+                                </Button>
+                              </>
+                            )}
+                            <Tooltip>
+                              <TooltipTrigger asChild>
+                                <Button
+                                  type="button"
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => onEditItem(item)}
+                                  disabled={isDisabled}
+                                  className="h-8 w-8 p-0"
+                                >
+                                  <Edit className="h-4 w-4" />
+                                </Button>
+                              </TooltipTrigger>
+                              <TooltipContent className="bg-design-main text-white">
+                                <p className="max-w-xs">
+                                  {t("dialogs.editTooltip")}
+                                </p>
+                              </TooltipContent>
+                            </Tooltip>
 
-                          <AlertDialog>
-                            <AlertDialogTrigger asChild>
-                                  <Button
-                                    type="button"
-                                    variant="ghost"
-                                    size="sm"
-                                    className="h-8 w-8 p-0 text-red-600 hover:text-red-700 hover:bg-red-50"
-                                  >
-                                    <Trash2 className="h-4 w-4" />
-                                  </Button>
+                            <AlertDialog>
+                              <AlertDialogTrigger asChild>
+                                    <Button
+                                      type="button"
+                                      variant="ghost"
+                                      size="sm"
+                                      disabled={isDisabled}
+                                      className="h-8 w-8 p-0 text-red-600 hover:text-red-700 hover:bg-red-50"
+                                    >
+                                      <Trash2 className="h-4 w-4" />
+                                    </Button>
 
-                            </AlertDialogTrigger>
-                            <AlertDialogContent>
-                              <AlertDialogHeader>
-                                <AlertDialogTitle>
-                                  {t("dialogs.deleteTitle")}
-                                </AlertDialogTitle>
-                                <AlertDialogDescription>
-                                  {t("dialogs.deleteDescription")}
-                                </AlertDialogDescription>
-                              </AlertDialogHeader>
-                              <AlertDialogFooter>
-                                <AlertDialogCancel>
-                                  {t("dialogs.cancel")}
-                                </AlertDialogCancel>
-                                <AlertDialogAction
-                                  onClick={() => handleDelete(item.id!)}
-                                  className="bg-red-600 hover:bg-red-700"
-                                >
-                                  {t("dialogs.delete")}
-                                </AlertDialogAction>
-                              </AlertDialogFooter>
-                            </AlertDialogContent>
-                          </AlertDialog>
-                        </div>
-                      </TableCell>
-                    </TableRow>
-                  ))
+                              </AlertDialogTrigger>
+                              <AlertDialogContent>
+                                <AlertDialogHeader>
+                                  <AlertDialogTitle>
+                                    {t("dialogs.deleteTitle")}
+                                  </AlertDialogTitle>
+                                  <AlertDialogDescription>
+                                    {t("dialogs.deleteDescription")}
+                                  </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                  <AlertDialogCancel>
+                                    {t("dialogs.cancel")}
+                                  </AlertDialogCancel>
+                                  <AlertDialogAction
+                                    onClick={() => handleDelete(item.id!)}
+                                    className="bg-red-600 hover:bg-red-700"
+                                  >
+                                    {t("dialogs.delete")}
+                                  </AlertDialogAction>
+                                </AlertDialogFooter>
+                              </AlertDialogContent>
+                            </AlertDialog>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
                 ) : (
                   <TableRow>
                     <TableCell colSpan={8} className="text-center">
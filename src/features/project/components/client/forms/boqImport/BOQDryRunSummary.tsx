@@ -0,0 +1,73 @@
+"use client";
+import { useTranslations } from "next-intl";
+import React from "react";
+import { AlertTriangle } from "lucide-react";
+import { formatPrice } from "@/lib/helpers";
+import { useLocale } from "@/hooks/useLocale";
+import { BoqDryRunSummary } from "@/features/project/types/boq";
+import { toAmount } from "@/features/project/utils/boqImport";
+
+const BOQDryRunSummary: React.FC<{ summary: BoqDryRunSummary }> = ({
+  summary,
+}) => {
+  const t = useTranslations("project.step4.import.dryRun");
+  const { currentLocale } = useLocale();
+  const isRTL = currentLocale === "ar";
+
+  const stats = [
+    { label: t("itemsCount"), value: summary.items_count },
+    { label: t("newItems"), value: summary.new_items_count },
+    { label: t("updatedItems"), value: summary.updated_items_count },
+    { label: t("removedItems"), value: summary.removed_items_count },
+  ].filter((stat) => stat.value !== undefined);
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">{t("description")}</p>
+
+      <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+        {stats.map((stat) => (
+          <div key={stat.label} className="rounded-md border p-3">
+            <p className="text-xs text-muted-foreground">{stat.label}</p>
+            <p className="text-xl font-semibold">{stat.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-6 rounded-md bg-gray-50 p-4">
+        {summary.current_total_amount !== undefined && (
+          <div>
+            <p className="text-xs text-muted-foreground">
+              {t("currentTotal")}
+            </p>
+            <p className="font-semibold">
+              {formatPrice(toAmount(summary.current_total_amount), isRTL)}
+            </p>
+          </div>
+        )}
+        <div>
+          <p className="text-xs text-muted-foreground">{t("newTotal")}</p>
+          <p className="text-lg font-bold text-design-main">
+            {formatPrice(toAmount(summary.total_amount), isRTL)}
+          </p>
+        </div>
+      </div>
+
+      {summary.warnings && summary.warnings.length > 0 && (
+        <div className="rounded-md border border-yellow-200 bg-yellow-50 p-3 text-sm text-yellow-800">
+          <p className="flex items-center gap-2 font-medium">
+            <AlertTriangle className="h-4 w-4" />
+            {t("warnings")}
+          </p>
+          <ul className="mt-1 list-inside list-disc">
+            {summary.warnings.map((warning) => (
+              <li key={warning}>{warning}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BOQDryRunSummary;
@@ -0,0 +1,199 @@
+"use client";
+import { useTranslations } from "next-intl";
+import React from "react";
+import { CheckCircle2 } from "lucide-react";
+import toast from "react-hot-toast";
+import { Button } from "@/shared/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/shared/components/ui/dialog";
+import { cn } from "@/lib/utils";
+import { useBoqImport } from "@/features/project/hooks/useBoqImport";
+import { BOQ_IMPORT_STEPS } from "@/features/project/constants/boqConstants";
+import { BoqStagingRowFix } from "@/features/project/types/boq";
+import BOQImportUpload from "./BOQImportUpload";
+import BOQStagingGrid from "./BOQStagingGrid";
+import BOQDryRunSummary from "./BOQDryRunSummary";
+
+interface BOQImportDialogProps {
+  projectId: string | null;
+  isOpen: boolean;
+  onClose: () => void;
+  onApplied: () => void;
+}
+
+const BOQImportDialog: React.FC<BOQImportDialogProps> = ({
+  projectId,
+  isOpen,
+  onClose,
+  onApplied,
+}) => {
+  const t = useTranslations("project.step4.import");
+  const {
+    step,
+    rows,
+    units,
+    validation,
+    dryRun,
+    result,
+    savingRowIds,
+    isProcessing,
+    upload,
+    automap,
+    mapUnit,
+    fixRow,
+    runDryRun,
+    apply,
+    backToReview,
+    reset,
+  } = useBoqImport(projectId);
+
+  const stepIndex = BOQ_IMPORT_STEPS.indexOf(step);
+
+  const notifyError = (message?: string, fallback?: string) => {
+    toast.error(message || fallback || t("error"));
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const handleUpload = async (file: File) => {
+    const outcome = await upload(file);
+    if (!outcome.success) notifyError(outcome.message, t("upload.error"));
+  };
+
+  const handleAutomap = async () => {
+    const outcome = await automap();
+    if (!outcome.success) notifyError(outcome.message);
+  };
+
+  const handleMapUnit = async (rowId: number, unitId: number) => {
+    const outcome = await mapUnit(rowId, unitId);
+    if (!outcome.success) notifyError(outcome.message);
+  };
+
+  const handleFix = async (rowId: number, fix: BoqStagingRowFix) => {
+    const outcome = await fixRow(rowId, fix);
+    if (!outcome.success) notifyError(outcome.message);
+  };
+
+  const handleDryRun = async () => {
+    const outcome = await runDryRun();
+    if (!outcome.success) notifyError(outcome.message, t("review.notReady"));
+  };
+
+  const handleApply = async () => {
+    const outcome = await apply();
+    if (outcome.success) {
+      toast.success(outcome.message || t("done.success"));
+      onApplied();
+    } else {
+      notifyError(outcome.message);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="max-h-[95vh] overflow-y-auto sm:max-w-6xl">
+        <DialogHeader>
+          <DialogTitle>{t("title")}</DialogTitle>
+          <DialogDescription>{t("description")}</DialogDescription>
+        </DialogHeader>
+
+        <ol className="flex flex-wrap gap-2 text-sm">
+          {BOQ_IMPORT_STEPS.map((key, index) => (
+            <li
+              key={key}
+              className={cn(
+                "rounded-full px-3 py-1",
+                index === stepIndex
+                  ? "bg-design-main text-white"
+                  : index < stepIndex
+                    ? "bg-design-main/10 text-design-main"
+                    : "bg-gray-100 text-muted-foreground"
+              )}
+            >
+              {index + 1}. {t(`steps.${key}`)}
+            </li>
+          ))}
+        </ol>
+
+        {step === "upload" && (
+          <BOQImportUpload isProcessing={isProcessing} onUpload={handleUpload} />
+        )}
+
+        {step === "review" && (
+          <BOQStagingGrid
+            rows={rows}
+            units={units}
+            validation={validation}
+            savingRowIds={savingRowIds}
+            isProcessing={isProcessing}
+            onAutomap={handleAutomap}
+            onMapUnit={handleMapUnit}
+            onFix={handleFix}
+          />
+        )}
+
+        {step === "dryRun" && dryRun && <BOQDryRunSummary summary={dryRun} />}
+
+        {step === "done" && (
+          <div className="flex flex-col items-center gap-2 py-8 text-center">
+            <CheckCircle2 className="h-12 w-12 text-green-600" />
+            <p className="font-medium">{t("done.success")}</p>
+            {result?.items_count !== undefined && (
+              <p className="text-sm text-muted-foreground">
+                {t("done.itemsImported", { count: result.items_count })}
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === "review" && (
+            <Button
+              type="button"
+              onClick={handleDryRun}
+              disabled={isProcessing || savingRowIds.length > 0}
+            >
+              {isProcessing ? t("processing") : t("review.runDryRun")}
+            </Button>
+          )}
+          {step === "dryRun" && (
+            <>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={backToReview}
+                disabled={isProcessing}
+              >
+                {t("dryRun.back")}
+              </Button>
+              <Button
+                type="button"
+                onClick={handleApply}
+                disabled={isProcessing}
+              >
+                {isProcessing ? t("processing") : t("dryRun.apply")}
+              </Button>
+            </>
+          )}
+          {step === "done" && (
+            <Button type="button" onClick={handleClose}>
+              {t("done.close")}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BOQImportDialog;
@@ -0,0 +1,96 @@
+"use client";
+import { useTranslations } from "next-intl";
+import React, { useRef, useState } from "react";
+import { FileSpreadsheet, Upload } from "lucide-react";
+import { Button } from "@/shared/components/ui/button";
+import { validateFile } from "@/lib/formDataUtils";
+import { cn } from "@/lib/utils";
+import { BOQ_IMPORT_FILE_CONFIG } from "@/features/project/constants/boqConstants";
+
+interface BOQImportUploadProps {
+  isProcessing: boolean;
+  onUpload: (file: File) => void;
+}
+
+const BOQImportUpload: React.FC<BOQImportUploadProps> = ({
+  isProcessing,
+  onUpload,
+}) => {
+  const t = useTranslations("project.step4.import.upload");
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const selectFile = (selected?: File) => {
+    if (!selected) return;
+
+    const errors = validateFile(selected, BOQ_IMPORT_FILE_CONFIG);
+    setFileError(errors.length > 0 ? t("invalidFile") : null);
+    setFile(errors.length > 0 ? null : selected);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div
+        role="button"
+        tabIndex={0}
+        onClick={() => inputRef.current?.click()}
+        onKeyDown={(e) => e.key === "Enter" && inputRef.current?.click()}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setIsDragging(false);
+          selectFile(e.dataTransfer.files[0]);
+        }}
+        className={cn(
+          "flex cursor-pointer flex-col items-center gap-2 rounded-lg border-2 border-dashed p-8 text-center transition-colors",
+          isDragging ? "border-design-main bg-design-main/5" : "border-gray-300"
+        )}
+      >
+        <FileSpreadsheet className="h-10 w-10 text-design-main" />
+        <p className="font-medium">{t("dropzone")}</p>
+        <p className="text-sm text-muted-foreground">
+          {t("hint", {
+            types: BOQ_IMPORT_FILE_CONFIG.allowedTypes?.join(", ") ?? "",
+            size: (BOQ_IMPORT_FILE_CONFIG.maxSize ?? 0) / (1024 * 1024),
+          })}
+        </p>
+        <input
+          ref={inputRef}
+          type="file"
+          className="hidden"
+          accept={BOQ_IMPORT_FILE_CONFIG.allowedTypes?.join(",")}
+          onChange={(e) => {
+            selectFile(e.target.files?.[0]);
+            e.target.value = "";
+          }}
+        />
+      </div>
+
+      {file && (
+        <p className="text-sm">
+          {t("selected")}: <span className="font-medium">{file.name}</span>
+        </p>
+      )}
+      {fileError && <p className="text-sm text-destructive">{fileError}</p>}
+
+      <div className="flex justify-end">
+        <Button
+          type="button"
+          onClick={() => file && onUpload(file)}
+          disabled={!file || isProcessing}
+        >
+          <Upload className="h-4 w-4" />
+          {isProcessing ? t("processing") : t("submit")}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default BOQImportUpload;
@@ -0,0 +1,164 @@
+"use client";
+import { useTranslations } from "next-intl";
+import React, { useMemo, useState } from "react";
+import { Wand2 } from "lucide-react";
+import { Button } from "@/shared/components/ui/button";
+import { Switch } from "@/shared/components/ui/switch";
+import { Label } from "@/shared/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { OffersPagination } from "@/features/offers/components/common/OffersPagination";
+import {
+  BoqImportValidation,
+  BoqStagingRow,
+  BoqStagingRowFix,
+  BoqUnit,
+} from "@/features/project/types/boq";
+import { BOQ_STAGING_PAGE_SIZE } from "@/features/project/constants/boqConstants";
+import {
+  getRowErrors,
+  getStagingSummary,
+  isRowUnmapped,
+} from "@/features/project/utils/boqImport";
+import BOQStagingRowItem from "./BOQStagingRowItem";
+
+interface BOQStagingGridProps {
+  rows: BoqStagingRow[];
+  units: BoqUnit[];
+  validation: BoqImportValidation | null;
+  savingRowIds: number[];
+  isProcessing: boolean;
+  onAutomap: () => void;
+  onMapUnit: (rowId: number, unitId: number) => void;
+  onFix: (rowId: number, fix: BoqStagingRowFix) => void;
+}
+
+const BOQStagingGrid: React.FC<BOQStagingGridProps> = ({
+  rows,
+  units,
+  validation,
+  savingRowIds,
+  isProcessing,
+  onAutomap,
+  onMapUnit,
+  onFix,
+}) => {
+  const t = useTranslations("project.step4.import.review");
+  const [onlyIssues, setOnlyIssues] = useState(false);
+  const [page, setPage] = useState(1);
+
+  const summary = useMemo(() => getStagingSummary(rows), [rows]);
+  const visibleRows = useMemo(
+    () =>
+      onlyIssues
+        ? rows.filter(
+            (row) => getRowErrors(row).length > 0 || isRowUnmapped(row)
+          )
+        : rows,
+    [rows, onlyIssues]
+  );
+  const totalPages = Math.ceil(visibleRows.length / BOQ_STAGING_PAGE_SIZE);
+  const currentPage = Math.min(page, Math.max(totalPages, 1));
+  const pageRows = visibleRows.slice(
+    (currentPage - 1) * BOQ_STAGING_PAGE_SIZE,
+    currentPage * BOQ_STAGING_PAGE_SIZE
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <span>{t("rowsCount", { count: summary.total })}</span>
+        <span className="text-destructive">
+          {t("errorsCount", { count: summary.withErrors })}
+        </span>
+        <span className="text-yellow-700">
+          {t("unmappedCount", { count: summary.unmapped })}
+        </span>
+        <div className="flex items-center gap-2 sm:ms-auto">
+          <Switch
+            id="boq-only-issues"
+            checked={onlyIssues}
+            onCheckedChange={(checked) => {
+              setOnlyIssues(checked);
+              setPage(1);
+            }}
+          />
+          <Label htmlFor="boq-only-issues" className="cursor-pointer">
+            {t("onlyIssues")}
+          </Label>
+        </div>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={onAutomap}
+          disabled={isProcessing || summary.unmapped === 0}
+        >
+          <Wand2 className="h-4 w-4" />
+          {t("automap")}
+        </Button>
+      </div>
+
+      {validation && !validation.ready && (
+        <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-800">
+          <p className="font-medium">{t("notReady")}</p>
+          {validation.errors && validation.errors.length > 0 && (
+            <ul className="mt-1 list-inside list-disc">
+              {validation.errors.map((error) => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <div className="overflow-hidden rounded-lg border">
+        <div className="max-h-[55vh] overflow-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>#</TableHead>
+                <TableHead>{t("columns.name")}</TableHead>
+                <TableHead>{t("columns.unit")}</TableHead>
+                <TableHead>{t("columns.quantity")}</TableHead>
+                <TableHead>{t("columns.unitPrice")}</TableHead>
+                <TableHead>{t("columns.status")}</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {pageRows.map((row) => (
+                <BOQStagingRowItem
+                  key={row.id}
+                  row={row}
+                  units={units}
+                  isSaving={savingRowIds.includes(row.id)}
+                  onMapUnit={onMapUnit}
+                  onFix={onFix}
+                />
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+        {pageRows.length === 0 && (
+          <p className="p-6 text-center text-sm text-muted-foreground">
+            {onlyIssues ? t("noIssues") : t("noRows")}
+          </p>
+        )}
+      </div>
+
+      <OffersPagination
+        currentPage={currentPage}
+        totalPages={totalPages}
+        onPageChange={setPage}
+      />
+    </div>
+  );
+};
+
+export default BOQStagingGrid;
@@ -0,0 +1,176 @@
+"use client";
+import { useTranslations } from "next-intl";
+import React, { useEffect, useState } from "react";
+import { AlertCircle, Check, Loader2 } from "lucide-react";
+import { Button } from "@/shared/components/ui/button";
+import { Input } from "@/shared/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/shared/components/ui/select";
+import { TableCell, TableRow } from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import {
+  BoqStagingRow,
+  BoqStagingRowFix,
+  BoqUnit,
+} from "@/features/project/types/boq";
+import {
+  getRowErrors,
+  isRowUnmapped,
+  toAmount,
+} from "@/features/project/utils/boqImport";
+
+interface BOQStagingRowItemProps {
+  row: BoqStagingRow;
+  units: BoqUnit[];
+  isSaving: boolean;
+  onMapUnit: (rowId: number, unitId: number) => void;
+  onFix: (rowId: number, fix: BoqStagingRowFix) => void;
+}
+
+const toDraft = (row: BoqStagingRow) => ({
+  name: row.name ?? "",
+  quantity: String(row.quantity ?? ""),
+  unit_price: String(row.unit_price ?? ""),
+});
+
+const BOQStagingRowItem: React.FC<BOQStagingRowItemProps> = ({
+  row,
+  units,
+  isSaving,
+  onMapUnit,
+  onFix,
+}) => {
+  const t = useTranslations("project.step4.import.review");
+  const [draft, setDraft] = useState(() => toDraft(row));
+
+  // Server corrections replace whatever was typed locally
+  useEffect(() => {
+    setDraft(toDraft(row));
+  }, [row]);
+
+  const errors = getRowErrors(row);
+  const isUnmapped = isRowUnmapped(row);
+  const original = toDraft(row);
+  const isDirty =
+    draft.name !== original.name ||
+    draft.quantity !== original.quantity ||
+    draft.unit_price !== original.unit_price;
+
+  const handleSave = () => {
+    onFix(row.id, {
+      name: draft.name.trim(),
+      quantity: toAmount(draft.quantity),
+      unit_price: toAmount(draft.unit_price),
+    });
+  };
+
+  return (
+    <TableRow
+      className={cn(
+        errors.length > 0 && "bg-red-50/60",
+        errors.length === 0 && isUnmapped && "bg-yellow-50/60"
+      )}
+    >
+      <TableCell className="text-muted-foreground">
+        {row.row_number ?? row.id}
+      </TableCell>
+      <TableCell className="min-w-[200px]">
+        <Input
+          value={draft.name}
+          onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+          disabled={isSaving}
+          className="h-8"
+        />
+      </TableCell>
+      <TableCell className="min-w-[180px]">
+        <div className="space-y-1">
+          <Select
+            value={row.mapped_unit_id ? String(row.mapped_unit_id) : undefined}
+            onValueChange={(value) => onMapUnit(row.id, Number(value))}
+            disabled={isSaving}
+          >
+            <SelectTrigger
+              size="sm"
+              className={cn("w-full", isUnmapped && "border-yellow-500")}
+            >
+              <SelectValue placeholder={t("selectUnit")} />
+            </SelectTrigger>
+            <SelectContent>
+              {units.map((unit) => (
+                <SelectItem key={unit.id} value={String(unit.id)}>
+                  {unit.symbol ? `${unit.name} (${unit.symbol})` : unit.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {row.unit_code && (
+            <p className="text-xs text-muted-foreground">
+              {t("sheetUnit", { unit: row.unit_code })}
+            </p>
+          )}
+        </div>
+      </TableCell>
+      <TableCell className="min-w-[110px]">
+        <Input
+          dir="ltr"
+          type="number"
+          min={0}
+          step="any"
+          value={draft.quantity}
+          onChange={(e) => setDraft({ ...draft, quantity: e.target.value })}
+          disabled={isSaving}
+          className="h-8"
+        />
+      </TableCell>
+      <TableCell className="min-w-[120px]">
+        <Input
+          dir="ltr"
+          type="number"
+          min={0}
+          step="0.01"
+          value={draft.unit_price}
+          onChange={(e) => setDraft({ ...draft, unit_price: e.target.value })}
+          disabled={isSaving}
+          className="h-8"
+        />
+      </TableCell>
+      <TableCell className="min-w-[220px]">
+        {errors.length > 0 ? (
+          <ul className="space-y-0.5 text-xs text-destructive">
+            {errors.map((error) => (
+              <li key={error} className="flex items-start gap-1">
+                <AlertCircle className="mt-0.5 h-3 w-3 shrink-0" />
+                {error}
+              </li>
+            ))}
+          </ul>
+        ) : isUnmapped ? (
+          <p className="text-xs text-yellow-700">{t("unmapped")}</p>
+        ) : (
+          <p className="flex items-center gap-1 text-xs text-green-700">
+            <Check className="h-3 w-3" />
+            {t("ready")}
+          </p>
+        )}
+      </TableCell>
+      <TableCell className="w-[90px]">
+        {isSaving ? (
+          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+        ) : (
+          isDirty && (
+            <Button type="button" size="sm" onClick={handleSave}>
+              {t("saveRow")}
+            </Button>
+          )
+        )}
+      </TableCell>
+    </TableRow>
+  );
+};
+
+export default BOQStagingRowItem;
@@ -0,0 +1,17 @@
+import { FileUploadConfig } from "@/lib/formDataUtils";
+
+export const BOQ_IMPORT_STEPS = ["upload", "review", "dryRun", "done"] as const;
+
+export type BoqImportStep = (typeof BOQ_IMPORT_STEPS)[number];
+
+export const BOQ_IMPORT_FILE_CONFIG: FileUploadConfig = {
+  maxSize: 10 * 1024 * 1024, // 10MB
+  maxFiles: 1,
+  allowedTypes: [".xlsx", ".xls", ".csv"],
+};
+
+// Rows shown per page in the staging grid, sheets often have hundreds of lines
+export const BOQ_STAGING_PAGE_SIZE = 50;
+
+// Prefix of ids given to optimistic items until the server returns real ones
+export const BOQ_TEMP_ITEM_PREFIX = "temp_";
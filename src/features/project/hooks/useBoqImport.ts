@@ -0,0 +1,219 @@
+"use client";
+import { useCallback, useEffect, useState } from "react";
+import { boqApi } from "../services/boqApi";
+import {
+  BoqDryRunSummary,
+  BoqImport,
+  BoqImportResult,
+  BoqImportValidation,
+  BoqStagingRow,
+  BoqStagingRowFix,
+  BoqUnit,
+} from "../types/boq";
+import { BoqImportStep } from "../constants/boqConstants";
+import { extractStagingRows } from "../utils/boqImport";
+
+type ActionResult = { success: boolean; message?: string };
+
+export const useBoqImport = (projectId: string | null) => {
+  const [step, setStep] = useState<BoqImportStep>("upload");
+  const [importRecord, setImportRecord] = useState<BoqImport | null>(null);
+  const [rows, setRows] = useState<BoqStagingRow[]>([]);
+  const [units, setUnits] = useState<BoqUnit[]>([]);
+  const [validation, setValidation] = useState<BoqImportValidation | null>(
+    null
+  );
+  const [dryRun, setDryRun] = useState<BoqDryRunSummary | null>(null);
+  const [result, setResult] = useState<BoqImportResult | null>(null);
+  const [savingRowIds, setSavingRowIds] = useState<number[]>([]);
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  useEffect(() => {
+    boqApi.getUnits().then((response) => {
+      if (response.success) {
+        setUnits(response.data || response.response || []);
+      }
+    });
+  }, []);
+
+  const replaceRow = useCallback((updated: BoqStagingRow) => {
+    setRows((current) =>
+      current.map((row) =>
+        row.id === updated.id ? { ...row, ...updated } : row
+      )
+    );
+  }, []);
+
+  const automap = useCallback(async (): Promise<ActionResult> => {
+    if (!importRecord) return { success: false };
+
+    setIsProcessing(true);
+    const response = await boqApi.automapUnits(importRecord.id);
+    const mapped = extractStagingRows(response.data || response.response);
+    if (response.success && mapped.length > 0) {
+      setRows(mapped);
+    }
+    setIsProcessing(false);
+
+    return { success: response.success, message: response.message };
+  }, [importRecord]);
+
+  // Upload, parse and automap run back to back so the user lands directly
+  // on the staging grid
+  const upload = useCallback(
+    async (file: File): Promise<ActionResult> => {
+      if (!projectId) return { success: false };
+
+      setIsProcessing(true);
+      try {
+        const uploaded = await boqApi.uploadImport(projectId, file);
+        const record = uploaded.data || uploaded.response;
+        if (!uploaded.success || !record) {
+          return { success: false, message: uploaded.message };
+        }
+        setImportRecord(record);
+
+        const parsed = await boqApi.parseImport(projectId, record.id);
+        if (!parsed.success) {
+          return { success: false, message: parsed.message };
+        }
+
+        const automapped = await boqApi.automapUnits(record.id);
+        const automappedRows = extractStagingRows(
+          automapped.data || automapped.response
+        );
+        setRows(
+          automappedRows.length > 0
+            ? automappedRows
+            : extractStagingRows(parsed.data || parsed.response)
+        );
+        setStep("review");
+
+        return { success: true };
+      } finally {
+        setIsProcessing(false);
+      }
+    },
+    [projectId]
+  );
+
+  const mapUnit = useCallback(
+    async (rowId: number, unitId: number): Promise<ActionResult> => {
+      const previous = rows.find((row) => row.id === rowId);
+      setSavingRowIds((ids) => [...ids, rowId]);
+      setRows((current) =>
+        current.map((row) =>
+          row.id === rowId ? { ...row, mapped_unit_id: unitId } : row
+        )
+      );
+
+      const response = await boqApi.mapRowUnit(rowId, unitId);
+      const updated = response.data || response.response;
+      if (response.success && updated) {
+        replaceRow(updated);
+      } else if (!response.success && previous) {
+        replaceRow(previous);
+      }
+
+      setSavingRowIds((ids) => ids.filter((id) => id !== rowId));
+      return { success: response.success, message: response.message };
+    },
+    [rows, replaceRow]
+  );
+
+  const fixRow = useCallback(
+    async (rowId: number, fix: BoqStagingRowFix): Promise<ActionResult> => {
+      setSavingRowIds((ids) => [...ids, rowId]);
+
+      const response = await boqApi.fixRow(rowId, fix);
+      const updated = response.data || response.response;
+      if (response.success) {
+        // Fixed values clear the row errors until the server says otherwise
+        replaceRow(
+          updated || ({ ...fix, id: rowId, errors: null } as BoqStagingRow)
+        );
+      }
+
+      setSavingRowIds((ids) => ids.filter((id) => id !== rowId));
+      return { success: response.success, message: response.message };
+    },
+    [replaceRow]
+  );
+
+  const runDryRun = useCallback(async (): Promise<ActionResult> => {
+    if (!projectId || !importRecord) return { success: false };
+
+    setIsProcessing(true);
+    try {
+      const validated = await boqApi.validateImport(
+        projectId,
+        importRecord.id
+      );
+      const readiness = validated.data || validated.response || null;
+      setValidation(readiness);
+      if (!validated.success || !readiness?.ready) {
+        return { success: false, message: validated.message };
+      }
+
+      const simulated = await boqApi.dryRunImport(projectId, importRecord.id);
+      const summary = simulated.data || simulated.response;
+      if (!simulated.success || !summary) {
+        return { success: false, message: simulated.message };
+      }
+
+      setDryRun(summary);
+      setStep("dryRun");
+      return { success: true };
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [projectId, importRecord]);
+
+  const apply = useCallback(async (): Promise<ActionResult> => {
+    if (!projectId || !importRecord) return { success: false };
+
+    setIsProcessing(true);
+    const response = await boqApi.applyImport(projectId, importRecord.id);
+    if (response.success) {
+      setResult(response.data || response.response || {});
+      setStep("done");
+    }
+    setIsProcessing(false);
+
+    return { success: response.success, message: response.message };
+  }, [projectId, importRecord]);
+
+  const backToReview = useCallback(() => {
+    setDryRun(null);
+    setStep("review");
+  }, []);
+
+  const reset = useCallback(() => {
+    setStep("upload");
+    setImportRecord(null);
+    setRows([]);
+    setValidation(null);
+    setDryRun(null);
+    setResult(null);
+  }, []);
+
+  return {
+    step,
+    importRecord,
+    rows,
+    units,
+    validation,
+    dryRun,
+    result,
+    savingRowIds,
+    isProcessing,
+    upload,
+    automap,
+    mapUnit,
+    fixRow,
+    runDryRun,
+    apply,
+    backToReview,
+    reset,
+  };
+};
@@ -42,7 +42,6 @@ export const useCreateProject = () => {
     addDocumentFile,
     updateDocumentFile,
     removeDocumentFile,
-    hasBOQDataChanged,
     setOriginalBOQData,
     hasPublishSettingsChanged,
     publishSettings,
@@ -414,11 +413,7 @@ export const useCreateProject = () => {
   const removeFile = useCallback(
     async (fileId: string, collection: string, projectId: string) => {
       try {
-        const response = await projectApi.removeFile(
-          projectId,
-          fileId,
-          collection
-        );
+        const response = await projectApi.removeFile(projectId, fileId);
 
         if (response.success) {
           // Only remove from local state after successful API call
@@ -480,7 +475,7 @@ export const useCreateProject = () => {
             type: newFile.type,
             uploadStatus: "completed",
             uploadProgress: 100,
-            url: response.data.url,
+            url: response.data?.url,
           });
           return { success: true, message: "File reuploaded successfully" };
         } else {
@@ -589,54 +584,16 @@ export const useCreateProject = () => {
           currentStep: currentStep,
         });
 
-        // Here you would typically make an API call to save the BOQ data
-        // For now, we'll just simulate success
-        const shouldCreate = completedSteps < currentStep;
-        const hasChanged = hasBOQDataChanged(data);
-
-        let response: any;
-        if (!shouldCreate && !hasChanged) {
-          setCurrentStep(currentStep + 1);
-          console.log("No changes detected, navigating to next step");
-          return {
-            success: true,
-            message: "No changes detected, navigating to next step",
-          };
-        }
-
-        // Simulate API call
-        await new Promise((resolve) => setTimeout(resolve, 1000));
-
-        if (shouldCreate) {
+        // Items are persisted as they are edited, submitting the step only
+        // records it as completed and moves on
+        if (completedSteps < currentStep) {
           setCompletedSteps(currentStep);
-          // Set original data for change detection
-          setOriginalBOQData(data);
-          response = await projectApi.createBOQProject(projectId, data);
-          if (response.success) {
-            setCompletedSteps(currentStep);
-            setOriginalBOQData(data);
-            setCurrentStep(currentStep + 1);
-            return {
-              success: true,
-              message: "BOQ saved successfully",
-            };
-            // Note: loadAllProjectData will be called by the forms when they detect the new projectId
-          }
-        } else {
-          response = await projectApi.updateBOQProject(projectId, data);
-          if (response.success) {
-            setOriginalBOQData(data);
-            setCurrentStep(currentStep + 1);
-            return {
-              success: true,
-              message: "BOQ saved successfully",
-            };
-          }
         }
-
+        setOriginalBOQData(data);
+        setCurrentStep(currentStep + 1);
         return {
-          success: false,
-          message: response.message || "Failed to save BOQ",
+          success: true,
+          message: "BOQ saved successfully",
         };
       } catch (error) {
         console.error("❌ Error:", error);
@@ -659,7 +616,7 @@ export const useCreateProject = () => {
       setLoading,
       setCompletedSteps,
       setCurrentStep,
-      hasBOQDataChanged,
+      setOriginalBOQData,
     ]
   );
   const submitPublishSettings = useCallback(
@@ -0,0 +1,327 @@
+"use client";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { boqApi } from "../services/boqApi";
+import { useProjectStore } from "../store/projectStore";
+import { ProjectBoq } from "../types/boq";
+import { BOQItem } from "../types/project";
+import { BOQ_TEMP_ITEM_PREFIX } from "../constants/boqConstants";
+import { toBOQData, toBoqItemPayload } from "../utils/boqMappers";
+
+type ActionResult = { success: boolean; message?: string };
+
+const sumItems = (items: BOQItem[]) =>
+  items.reduce((sum, item) => sum + item.quantity * item.unit_price, 0);
+
+const isTempItem = (itemId: string) => itemId.startsWith(BOQ_TEMP_ITEM_PREFIX);
+
+/**
+ * Keeps the BOQ step in sync with the latest BOQ version of the project.
+ * Every edit is applied to the store right away and rolled back if the
+ * server rejects it.
+ */
+export const useProjectBoq = (projectId: string | null) => {
+  const {
+    setBOQData,
+    setOriginalBOQData,
+    addBOQItem,
+    updateBOQItem,
+    removeBOQItem,
+  } = useProjectStore();
+
+  const [boq, setBoq] = useState<ProjectBoq | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [savingItemIds, setSavingItemIds] = useState<string[]>([]);
+  // The manual BOQ being created, shared by every edit made meanwhile
+  const creatingBoq = useRef<Promise<ProjectBoq | null> | null>(null);
+
+  const isLocked = Boolean(boq?.is_locked);
+
+  const applyBoq = useCallback(
+    (latest: ProjectBoq) => {
+      const data = toBOQData(latest);
+      setBoq(latest);
+      setBOQData(data);
+      setOriginalBOQData(data);
+    },
+    [setBOQData, setOriginalBOQData]
+  );
+
+  // The saved items become the baseline for change detection
+  const commitItems = useCallback(() => {
+    setOriginalBOQData(useProjectStore.getState().boqData);
+  }, [setOriginalBOQData]);
+
+  const setItemSaving = useCallback((itemId: string, saving: boolean) => {
+    setSavingItemIds((current) =>
+      saving ? [...current, itemId] : current.filter((id) => id !== itemId)
+    );
+  }, []);
+
+  const loadBoq = useCallback(async () => {
+    if (!projectId) return;
+
+    setIsLoading(true);
+    const response = await boqApi.getLatestBoq(projectId);
+    const latest = response.data || response.response;
+    if (response.success && latest) {
+      applyBoq(latest);
+    }
+    setIsLoading(false);
+  }, [projectId, applyBoq]);
+
+  useEffect(() => {
+    creatingBoq.current = null;
+    loadBoq();
+  }, [loadBoq]);
+
+  // A project has no BOQ until its first item, an empty manual one is
+  // created on demand
+  const ensureBoq = useCallback(async (): Promise<ProjectBoq | null> => {
+    if (boq) return boq;
+    if (!projectId) return null;
+
+    if (!creatingBoq.current) {
+      creatingBoq.current = boqApi
+        .createManualBoq(projectId)
+        .then((response) => {
+          const created = response.data || response.response;
+          if (!response.success || !created) {
+            // Let the next edit try again
+            creatingBoq.current = null;
+            return null;
+          }
+
+          setBoq(created);
+          return created;
+        });
+    }
+
+    return creatingBoq.current;
+  }, [boq, projectId]);
+
+  const addItem = useCallback(
+    async (item: Omit<BOQItem, "id">): Promise<ActionResult> => {
+      if (isLocked) return { success: false };
+
+      const tempId = `${BOQ_TEMP_ITEM_PREFIX}${Date.now()}`;
+      const sortOrder =
+        item.sort_order || useProjectStore.getState().boqData.items.length + 1;
+      const newItem = { ...item, sort_order: sortOrder };
+
+      addBOQItem({ ...newItem, id: tempId });
+      setItemSaving(tempId, true);
+
+      try {
+        const target = await ensureBoq();
+        if (!target) {
+          removeBOQItem(tempId);
+          return { success: false };
+        }
+
+        const response = await boqApi.addItem(
+          target.id,
+          toBoqItemPayload(newItem)
+        );
+        const created = response.data || response.response;
+        if (!response.success || !created) {
+          removeBOQItem(tempId);
+          return { success: false, message: response.message };
+        }
+
+        updateBOQItem(tempId, { id: String(created.id) });
+        commitItems();
+        return { success: true, message: response.message };
+      } finally {
+        setItemSaving(tempId, false);
+      }
+    },
+    [
+      isLocked,
+      ensureBoq,
+      addBOQItem,
+      updateBOQItem,
+      removeBOQItem,
+      commitItems,
+      setItemSaving,
+    ]
+  );
+
+  const updateItem = useCallback(
+    async (
+      itemId: string,
+      updates: Omit<BOQItem, "id">
+    ): Promise<ActionResult> => {
+      const previous = useProjectStore
+        .getState()
+        .boqData.items.find((item) => item.id === itemId);
+      if (isLocked || !previous || isTempItem(itemId)) {
+        return { success: false };
+      }
+
+      updateBOQItem(itemId, updates);
+      setItemSaving(itemId, true);
+
+      const response = await boqApi.updateItem(
+        itemId,
+        toBoqItemPayload(updates)
+      );
+      setItemSaving(itemId, false);
+
+      if (!response.success) {
+        updateBOQItem(itemId, previous);
+        return { success: false, message: response.message };
+      }
+
+      commitItems();
+      return { success: true, message: response.message };
+    },
+    [isLocked, updateBOQItem, commitItems, setItemSaving]
+  );
+
+  const removeItem = useCallback(
+    async (itemId: string): Promise<ActionResult> => {
+      const { items } = useProjectStore.getState().boqData;
+      const index = items.findIndex((item) => item.id === itemId);
+      if (isLocked || index === -1 || isTempItem(itemId)) {
+        return { success: false };
+      }
+      const previous = items[index];
+
+      removeBOQItem(itemId);
+
+      const response = await boqApi.deleteItem(itemId);
+      if (!response.success) {
+        // Put the item back where it was
+        const current = useProjectStore.getState().boqData;
+        const restored = [...current.items];
+        restored.splice(index, 0, previous);
+        setBOQData({
+          ...current,
+          items: restored,
+          total_amount: sumItems(restored),
+        });
+        return { success: false, message: response.message };
+      }
+
+      commitItems();
+      return { success: true, message: response.message };
+    },
+    [isLocked, removeBOQItem, setBOQData, commitItems]
+  );
+
+  const moveItem = useCallback(
+    async (itemId: string, direction: -1 | 1): Promise<ActionResult> => {
+      const snapshot = useProjectStore.getState().boqData;
+      const index = snapshot.items.findIndex((item) => item.id === itemId);
+      const targetIndex = index + direction;
+      if (
+        !boq ||
+        isLocked ||
+        index === -1 ||
+        targetIndex < 0 ||
+        targetIndex >= snapshot.items.length
+      ) {
+        return { success: false };
+      }
+
+      const reordered = [...snapshot.items];
+      [reordered[index], reordered[targetIndex]] = [
+        reordered[targetIndex],
+        reordered[index],
+      ];
+      const items = reordered.map((item, position) => ({
+        ...item,
+        sort_order: position + 1,
+      }));
+
+      setBOQData({ ...snapshot, items });
+
+      const orders = items
+        .filter((item) => item.id && !isTempItem(item.id))
+        .map((item) => ({
+          item_id: Number(item.id),
+          sort_order: item.sort_order,
+        }));
+      const response = await boqApi.reorderItems(boq.id, orders);
+      if (!response.success) {
+        setBOQData(snapshot);
+        return { success: false, message: response.message };
+      }
+
+      commitItems();
+      return { success: true, message: response.message };
+    },
+    [boq, isLocked, setBOQData, commitItems]
+  );
+
+  // Bulk replacement isn't optimistic, the new items need their server ids
+  const replaceItems = useCallback(
+    async (items: Omit<BOQItem, "id">[]): Promise<ActionResult> => {
+      if (isLocked) return { success: false };
+
+      setIsBusy(true);
+      try {
+        const target = await ensureBoq();
+        if (!target) return { success: false };
+
+        const response = await boqApi.replaceItems(
+          target.id,
+          items.map(toBoqItemPayload)
+        );
+        if (response.success) {
+          await loadBoq();
+        }
+        return { success: response.success, message: response.message };
+      } finally {
+        setIsBusy(false);
+      }
+    },
+    [isLocked, ensureBoq, loadBoq]
+  );
+
+  const recalculate = useCallback(async (): Promise<ActionResult> => {
+    if (!boq) return { success: false };
+
+    setIsBusy(true);
+    const response = await boqApi.recalculate(boq.id);
+    if (response.success) {
+      await loadBoq();
+    }
+    setIsBusy(false);
+
+    return { success: response.success, message: response.message };
+  }, [boq, loadBoq]);
+
+  const toggleLock = useCallback(async (): Promise<ActionResult> => {
+    if (!boq) return { success: false };
+
+    const locking = !boq.is_locked;
+    setBoq((current) => current && { ...current, is_locked: locking });
+
+    const response = locking
+      ? await boqApi.lockBoq(boq.id)
+      : await boqApi.unlockBoq(boq.id);
+    if (!response.success) {
+      setBoq((current) => current && { ...current, is_locked: !locking });
+    }
+
+    return { success: response.success, message: response.message };
+  }, [boq]);
+
+  return {
+    boq,
+    isLocked,
+    isLoading,
+    isBusy,
+    savingItemIds,
+    reload: loadBoq,
+    addItem,
+    updateItem,
+    removeItem,
+    moveItem,
+    replaceItems,
+    recalculate,
+    toggleLock,
+  };
+};
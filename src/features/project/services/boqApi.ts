@@ -0,0 +1,212 @@
+import { ApiResponse } from "@/lib/apiClient";
+import { FormDataOptions } from "@/lib/formDataUtils";
+import * as sdk from "@/lib/sdk";
+import {
+  BoqDryRunSummary,
+  BoqImport,
+  BoqImportResult,
+  BoqImportValidation,
+  BoqItemOrder,
+  BoqStagingRow,
+  BoqStagingRowFix,
+  BoqUnit,
+  ProjectBoq,
+  ProjectBoqItem,
+  ProjectBoqItemPayload,
+} from "../types/boq";
+import { BOQ_IMPORT_FILE_CONFIG } from "../constants/boqConstants";
+
+/**
+ * BOQ API Service
+ * Handles the bill of quantities of a project, including spreadsheet imports
+ */
+class BoqApiService {
+  /**
+   * Get the active units BOQ items can be measured in
+   */
+  async getUnits(): Promise<ApiResponse<BoqUnit[]>> {
+    return sdk.getBoqUnits<BoqUnit[]>();
+  }
+
+  /**
+   * Get the latest BOQ version of a project
+   */
+  async getLatestBoq(
+    projectId: number | string
+  ): Promise<ApiResponse<ProjectBoq>> {
+    return sdk.getLatestBoq<ProjectBoq>(projectId);
+  }
+
+  /**
+   * Create an empty manual BOQ version for a project
+   */
+  async createManualBoq(
+    projectId: number | string
+  ): Promise<ApiResponse<ProjectBoq>> {
+    return sdk.createManualBoq<ProjectBoq>(projectId);
+  }
+
+  /**
+   * Replace all items of a BOQ at once, used when loading a template
+   */
+  async replaceItems(
+    boqId: number | string,
+    items: ProjectBoqItemPayload[]
+  ): Promise<ApiResponse<ProjectBoq>> {
+    return sdk.updateManualBoqWithItems<ProjectBoq>(boqId, { items });
+  }
+
+  /**
+   * Add an item to a BOQ
+   */
+  async addItem(
+    boqId: number | string,
+    data: ProjectBoqItemPayload
+  ): Promise<ApiResponse<ProjectBoqItem>> {
+    return sdk.storeBoqItem<ProjectBoqItem>(boqId, data);
+  }
+
+  /**
+   * Update an item of a BOQ
+   */
+  async updateItem(
+    itemId: number | string,
+    data: Partial<ProjectBoqItemPayload>
+  ): Promise<ApiResponse<ProjectBoqItem>> {
+    return sdk.updateBoqItem<ProjectBoqItem>(itemId, data);
+  }
+
+  /**
+   * Delete an item of a BOQ
+   */
+  async deleteItem(itemId: number | string): Promise<ApiResponse> {
+    return sdk.destroyBoqItem(itemId);
+  }
+
+  /**
+   * Persist a new order of the BOQ items
+   */
+  async reorderItems(
+    boqId: number | string,
+    orders: BoqItemOrder[]
+  ): Promise<ApiResponse> {
+    return sdk.reorderBoqItems(boqId, { orders });
+  }
+
+  /**
+   * Recalculate the totals of a BOQ on the server
+   */
+  async recalculate(boqId: number | string): Promise<ApiResponse<ProjectBoq>> {
+    return sdk.recalculateBoq<ProjectBoq>(boqId);
+  }
+
+  /**
+   * Lock a BOQ so it can't be edited while offers are priced against it
+   */
+  async lockBoq(boqId: number | string): Promise<ApiResponse> {
+    return sdk.lockBoq(boqId);
+  }
+
+  /**
+   * Unlock a BOQ to allow editing again
+   */
+  async unlockBoq(boqId: number | string): Promise<ApiResponse> {
+    return sdk.unlockBoq(boqId);
+  }
+
+  /**
+   * Upload a spreadsheet and register it as a new import
+   */
+  async uploadImport(
+    projectId: number | string,
+    file: File
+  ): Promise<ApiResponse<BoqImport>> {
+    const options: FormDataOptions = {
+      fileFields: { file: BOQ_IMPORT_FILE_CONFIG },
+      validateFiles: true,
+    };
+
+    return sdk.registerBoqUpload<BoqImport>(
+      projectId,
+      { file },
+      { formDataOptions: options }
+    );
+  }
+
+  /**
+   * Read the uploaded sheet into staging rows
+   */
+  async parseImport(
+    projectId: number | string,
+    importId: number | string
+  ): Promise<ApiResponse<{ import?: BoqImport; rows: BoqStagingRow[] }>> {
+    return sdk.parseBoqImport<{ import?: BoqImport; rows: BoqStagingRow[] }>(
+      projectId,
+      importId
+    );
+  }
+
+  /**
+   * Match the unit codes of the staging rows to known units
+   */
+  async automapUnits(
+    importId: number | string
+  ): Promise<ApiResponse<{ rows: BoqStagingRow[] }>> {
+    return sdk.autoMapBoqUnits<{ rows: BoqStagingRow[] }>(importId);
+  }
+
+  /**
+   * Map a staging row to a unit by hand
+   */
+  async mapRowUnit(
+    rowId: number | string,
+    unitId: number
+  ): Promise<ApiResponse<BoqStagingRow>> {
+    return sdk.setMappedUnit<BoqStagingRow>(rowId, { unit_id: unitId });
+  }
+
+  /**
+   * Correct the values of a staging row
+   */
+  async fixRow(
+    rowId: number | string,
+    data: BoqStagingRowFix
+  ): Promise<ApiResponse<BoqStagingRow>> {
+    return sdk.fixBoqStagingRow<BoqStagingRow>(rowId, data);
+  }
+
+  /**
+   * Check that every staging row is valid and mapped
+   */
+  async validateImport(
+    projectId: number | string,
+    importId: number | string
+  ): Promise<ApiResponse<BoqImportValidation>> {
+    return sdk.validateBoqImportReady<BoqImportValidation>(projectId, importId);
+  }
+
+  /**
+   * Simulate applying the import without saving anything
+   */
+  async dryRunImport(
+    projectId: number | string,
+    importId: number | string
+  ): Promise<ApiResponse<BoqDryRunSummary>> {
+    return sdk.dryRunBoqImport<BoqDryRunSummary>(projectId, importId);
+  }
+
+  /**
+   * Apply the import as a new BOQ version
+   */
+  async applyImport(
+    projectId: number | string,
+    importId: number | string
+  ): Promise<ApiResponse<BoqImportResult>> {
+    return sdk.applyBoqImport<BoqImportResult>(projectId, importId);
+  }
+}
+
+/**
+ * Singleton instance of the BoqApiService
+ */
+export const boqApi = new BoqApiService();
@@ -1,147 +1,75 @@
-import { api } from "@/lib/api";
+import { ApiResponse } from "@/lib/apiClient";
+import * as sdk from "@/lib/sdk";
 import {
   BOQData,
   ProjectClassification,
   DocumentsState,
   ProjectEssentialInfo,
   PublishSettings,
+  ProjectType,
+  WorkType,
+  Level,
+  ProjectClassificationJob,
 } from "../types/project";
 
+// Lookup lists come back under `response`, api.json documents them under
+// `data`, callers read `response` either way
+const toLookupResponse = <T>(result: ApiResponse<T[]>) => ({
+  ...result,
+  response: result.response || result.data || [],
+});
+
 export const projectApi = {
   getProject: async (projectId: string) => {
-    try {
-      const response = await api.get(`/projects/owner/${projectId}`);
-      return response.data;
-    } catch (error) {
-      console.log("Error getting project:", error);
-      return {
-        success: false,
-        message: "Error getting project",
-        data: null,
-      };
-    }
+    return sdk.showOwnerProject(projectId);
   },
   getProjectTypes: async () => {
-    try {
-      const response = await api.get("general-data-profile/project-types");
-
-      return response.data;
-    } catch (error) {
-      console.log("Error getting project types:", error);
-      return {
-        success: false,
-        message: "Error getting project types",
-        data: null,
-      };
-    }
+    return toLookupResponse(await sdk.getProjectTypes<ProjectType[]>());
   },
   getWorkTypes: async () => {
-    try {
-      const response = await api.get("general-data-profile/work-types");
-      return response.data;
-    } catch (error) {
-      console.log("Error getting work types:", error);
-      return {
-        success: false,
-        message: "Error getting work types",
-        data: null,
-      };
-    }
+    return toLookupResponse(await sdk.getWorkTypes<WorkType[]>());
   },
   getProjectClassificationJobs: async () => {
-    try {
-      const response = await api.get(
-        "/general-data-profile/classification-jobs"
-      );
-      return response.data;
-    } catch (error) {
-      console.log("Error getting project classification jobs:", error);
-      return {
-        success: false,
-        message: "Error getting project classification jobs",
-        data: null,
-      };
-    }
+    return toLookupResponse(
+      await sdk.getClassificationJobs<ProjectClassificationJob[]>()
+    );
   },
 
   getProjectClassificationLevels: async () => {
-    try {
-      const response = await api.get(
-        "/general-data-profile/classification-levels"
-      );
-      return response.data;
-    } catch (error) {
-      console.log("Error getting project classifications:", error);
-      return {
-        success: false,
-        message: "Error getting project classifications",
-        data: null,
-      };
-    }
+    return toLookupResponse(await sdk.getClassificationLevels<Level[]>());
   },
 
   createEssentialInfoProject: async (data: ProjectEssentialInfo) => {
-    try {
-      console.log("🚀 Creating project with data:", data);
-
-      const response = await api.post("/projects/owner", data);
-
-      console.log("✅ Project creation response:", response.data);
-
-      return {
-        success: true,
-        message: "Project created successfully",
-        data: response.data,
-      };
-    } catch (error: any) {
-      console.error("❌ Error creating project:", error);
-
-      // Handle different error response formats
-      const errorMessage =
-        error.response?.data?.message ||
-        error.response?.data?.error ||
-        error.message ||
-        "Failed to create project";
-
-      return {
-        success: false,
-        message: errorMessage,
-        data: null,
-      };
-    }
+    const response = await sdk.createOwnerProject(
+      data as sdk.CreateOwnerProjectBody
+    );
+    return {
+      success: response.success,
+      message:
+        response.message ||
+        (response.success
+          ? "Project created successfully"
+          : "Failed to create project"),
+      data: response.success ? response.response || response.data : null,
+    };
   },
   updateEssentialInfoProject: async (
     projectId: string,
     data: ProjectEssentialInfo
   ) => {
-    try {
-      console.log("🔄 Updating project essential info:", { projectId, data });
-
-      const response = await api.put(`/projects/owner/${projectId}`, data);
-
-      console.log("✅ Essential info update response:", response.data);
-
-      return {
-        success: true,
-        message: "Essential info updated successfully",
-        data: response.data,
-      };
-    } catch (error: any) {
-      console.error("❌ Error updating project essential info:", error);
-
-      // Handle different error response formats
-      const errorMessage =
-        error.response?.data?.message ||
-        error.response?.data?.error ||
-        error.message ||
-        "Failed to update essential info";
-
-      return {
-        success: false,
-        message: errorMessage,
-        data: null,
-      };
-    }
+    const response = await sdk.updateOwnerProject(
+      projectId,
+      data as sdk.UpdateOwnerProjectBody
+    );
+    return {
+      success: response.success,
+      message:
+        response.message ||
+        (response.success
+          ? "Essential info updated successfully"
+          : "Failed to update essential info"),
+      data: response.success ? response.response || response.data : null,
+    };
   },
   createClassificationProject: async (
     projectId: string,
@@ -220,18 +148,6 @@ export const projectApi = {
       throw error;
     }
   },
-  createDocumentsProject: async (projectId: string, data: DocumentsState) => {
-    try {
-      const response = await api.post(
-        `/projects/owner/${projectId}/documents`,
-        data
-      );
-      return response.data;
-    } catch (error) {
-      console.error("Error creating project documents:", error);
-      throw error;
-    }
-  },
 
   // Fake API methods for file operations
   uploadFile: async (projectId: string, file: File, collection: string) => {
@@ -276,32 +192,8 @@ export const projectApi = {
     }
   },
 
-  removeFile: async (projectId: string, fileId: string, collection: string) => {
-    try {
-      // return new Promise<{ success: boolean; message: string }>((resolve) => {
-      //   setTimeout(() => {
-      //     resolve({
-      //       success: true,
-      //       message: "File removed successfully",
-      //     });
-      //   }, 1000); // Simulate API delay
-      // });
-      const response = await api.delete(
-        `/projects/owner/${projectId}/files/${fileId}`,
-        {
-          data: {
-            collection,
-          },
-        }
-      );
-      return response.data;
-    } catch (error) {
-      console.error("Error removing file:", error);
-      return {
-        success: false,
-        message: "Error removing file",
-      };
-    }
+  removeFile: async (projectId: string, fileId: string) => {
+    return sdk.deleteOwnerProjectFile(projectId, fileId);
   },
 
   reuploadFile: async (
@@ -310,45 +202,10 @@ export const projectApi = {
     newFile: File,
     collection: string
   ) => {
-    try {
-      const response = await api.post(
-        `/projects/owner/${projectId}/files/upload-single`,
-        {
-          file: newFile,
-          collection: collection,
-        }
-      );
-      return response.data;
-      // return new Promise<{ success: boolean; data: any; message: string }>(
-      //   (resolve) => {
-      //     const interval = setInterval(() => {
-      //       clearInterval(interval);
-      //       // Simulate successful reupload
-      //       resolve({
-      //         success: true,
-      //         data: {
-      //           fileId: fileId, // Keep same ID for reupload
-      //           fileName: newFile.name,
-      //           fileSize: newFile.size,
-      //           fileType: newFile.type,
-      //           collection: collection,
-      //           url: `https://fake-cdn.com/uploads/${collection}/${
-      //             newFile.name
-      //           }?updated=${Date.now()}`,
-      //         },
-      //         message: "File reuploaded successfully",
-      //       });
-      //     }, 1500); // Slightly faster for reupload (1.5 seconds)
-      //   }
-      // );
-    } catch (error) {
-      console.error("Error reuploading file:", error);
-      return {
-        success: false,
-        data: null,
-        message: "Error reuploading file",
-      };
-    }
+    return sdk.uploadOwnerProjectFile<{ url: string }>(projectId, {
+      file: newFile,
+      collection: collection as sdk.UploadOwnerProjectFileBody["collection"],
+    });
   },
   createBOQProject: async (projectId: string, data: BOQData) => {
     try {
@@ -0,0 +1,109 @@
+import { Unit } from "./project";
+
+export interface BoqUnit extends Partial<Omit<Unit, "id">> {
+  id: number;
+  code?: string;
+  name: string;
+}
+
+export type BoqImportStatus =
+  | "uploaded"
+  | "parsed"
+  | "mapped"
+  | "validated"
+  | "applied"
+  | "failed";
+
+export interface BoqImport {
+  id: number;
+  project_id: number;
+  status: BoqImportStatus;
+  file_name?: string;
+  rows_count?: number;
+  created_at?: string;
+}
+
+/** Row errors come back either as a flat list or keyed by column */
+export type BoqRowErrors = string[] | Record<string, string[] | string>;
+
+export interface BoqStagingRow {
+  id: number;
+  row_number?: number;
+  name: string;
+  description?: string | null;
+  unit_code?: string | null;
+  mapped_unit_id?: number | null;
+  quantity: number | string | null;
+  unit_price: number | string | null;
+  total?: number | string | null;
+  errors?: BoqRowErrors | null;
+}
+
+export interface BoqStagingRowFix {
+  name?: string;
+  description?: string;
+  unit_code?: string;
+  quantity?: number;
+  unit_price?: number;
+}
+
+export interface BoqImportValidation {
+  ready: boolean;
+  errors_count?: number;
+  unmapped_units_count?: number;
+  errors?: string[];
+}
+
+export interface BoqDryRunSummary {
+  items_count: number;
+  total_amount: number | string;
+  new_items_count?: number;
+  updated_items_count?: number;
+  removed_items_count?: number;
+  current_total_amount?: number | string;
+  warnings?: string[];
+}
+
+export interface BoqImportResult {
+  boq_id?: number;
+  version?: number;
+  items_count?: number;
+  total_amount?: number | string;
+}
+
+export interface ProjectBoqItem {
+  id: number;
+  name: string;
+  description?: string | null;
+  unit_id: number;
+  quantity: number | string;
+  unit_price: number | string;
+  total?: number | string;
+  sort_order: number;
+  is_required?: boolean;
+}
+
+export interface ProjectBoqItemPayload {
+  name: string;
+  description?: string;
+  unit_id: number;
+  quantity: number;
+  unit_price: number;
+  sort_order?: number;
+  is_required?: boolean;
+}
+
+export interface BoqItemOrder {
+  item_id: number;
+  sort_order: number;
+}
+
+export interface ProjectBoq {
+  id: number;
+  project_id?: number;
+  version?: number;
+  is_locked?: boolean;
+  total_amount: number | string;
+  template_id?: number | null;
+  items: ProjectBoqItem[];
+}
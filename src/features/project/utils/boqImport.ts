@@ -0,0 +1,39 @@
+import { BoqStagingRow } from "../types/boq";
+
+type StagingRowsPayload =
+  | BoqStagingRow[]
+  | { rows?: BoqStagingRow[]; staging_rows?: BoqStagingRow[] }
+  | null
+  | undefined;
+
+/** Parse and automap answer with the rows either bare or wrapped */
+export const extractStagingRows = (payload: StagingRowsPayload) => {
+  if (!payload) return [];
+  if (Array.isArray(payload)) return payload;
+  return payload.rows || payload.staging_rows || [];
+};
+
+export const toAmount = (value: number | string | null | undefined) => {
+  const amount = Number(value);
+  return Number.isFinite(amount) ? amount : 0;
+};
+
+/** Flattens row errors into readable messages, keeping the column name */
+export const getRowErrors = (row: BoqStagingRow): string[] => {
+  if (!row.errors) return [];
+  if (Array.isArray(row.errors)) return row.errors;
+
+  return Object.entries(row.errors).flatMap(([field, messages]) =>
+    (Array.isArray(messages) ? messages : [messages]).map(
+      (message) => `${field}: ${message}`
+    )
+  );
+};
+
+export const isRowUnmapped = (row: BoqStagingRow) => !row.mapped_unit_id;
+
+export const getStagingSummary = (rows: BoqStagingRow[]) => ({
+  total: rows.length,
+  withErrors: rows.filter((row) => getRowErrors(row).length > 0).length,
+  unmapped: rows.filter(isRowUnmapped).length,
+});
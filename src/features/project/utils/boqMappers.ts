@@ -0,0 +1,35 @@
+import { BOQData, BOQItem } from "../types/project";
+import { ProjectBoq, ProjectBoqItemPayload } from "../types/boq";
+import { toAmount } from "./boqImport";
+
+/** Converts a saved BOQ version into the shape the BOQ form works with */
+export const toBOQData = (boq: ProjectBoq): BOQData => ({
+  items: (boq.items || [])
+    .slice()
+    .sort((a, b) => a.sort_order - b.sort_order)
+    .map((item) => ({
+      id: String(item.id),
+      name: item.name,
+      description: item.description ?? "",
+      unit_id: item.unit_id,
+      quantity: toAmount(item.quantity),
+      unit_price: toAmount(item.unit_price),
+      sort_order: item.sort_order,
+      is_required: item.is_required ?? false,
+    })),
+  total_amount: toAmount(boq.total_amount),
+  template_id: boq.template_id ?? undefined,
+});
+
+/** Builds the API payload of a BOQ item from the form values */
+export const toBoqItemPayload = (
+  item: Omit<BOQItem, "id">
+): ProjectBoqItemPayload => ({
+  name: item.name,
+  description: item.description || undefined,
+  unit_id: item.unit_id,
+  quantity: item.quantity,
+  unit_price: item.unit_price,
+  sort_order: item.sort_order,
+  is_required: item.is_required,
+});
@@ -0,0 +1,106 @@
+"use client";
+import React from "react";
+import { useTranslations } from "next-intl";
+import { Flag } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from "@/shared/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/shared/components/ui/select";
+import { ErrorState } from "@/shared/components/ui/ErrorState";
+import { Skeleton } from "@/components/ui/skeleton";
+import { OffersPagination } from "@/features/offers/components/common/OffersPagination";
+import { useReports } from "../hooks/useReports";
+import { ReportParty, ReportStatus } from "../types";
+import { REPORT_STATUSES } from "../constants";
+import { ReportCard } from "./ReportCard";
+
+const ALL_STATUSES = "all";
+
+export function MyReportsList({ party }: { party: ReportParty }) {
+  const t = useTranslations("reports");
+  const {
+    reports,
+    meta,
+    setPage,
+    status,
+    filterByStatus,
+    isLoading,
+    error,
+    refetch,
+  } = useReports(party);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between gap-2">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Flag className="h-5 w-5 text-design-main" />
+          {t("list.title")}
+        </CardTitle>
+        <Select
+          value={status ?? ALL_STATUSES}
+          onValueChange={(value) =>
+            filterByStatus(
+              value === ALL_STATUSES ? undefined : (value as ReportStatus)
+            )
+          }
+        >
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_STATUSES}>
+              {t("list.allStatuses")}
+            </SelectItem>
+            {REPORT_STATUSES.map((item) => (
+              <SelectItem key={item} value={item}>
+                {t(`statuses.${item}`)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading && reports.length === 0 ? (
+          <div className="space-y-3">
+            <Skeleton className="h-28 w-full" />
+            <Skeleton className="h-28 w-full" />
+          </div>
+        ) : error ? (
+          <ErrorState
+            variant="inline"
+            title={t("list.loadError")}
+            error={error}
+            onRetry={refetch}
+          />
+        ) : reports.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {status ? t("list.emptyFiltered") : t("list.empty")}
+          </p>
+        ) : (
+          <ul className="space-y-3">
+            {reports.map((report) => (
+              <ReportCard key={report.id} report={report} />
+            ))}
+          </ul>
+        )}
+
+        {meta && (
+          <OffersPagination
+            currentPage={meta.current_page}
+            totalPages={meta.last_page}
+            onPageChange={setPage}
+          />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,101 @@
+"use client";
+import React from "react";
+import { useTranslations } from "next-intl";
+import { Paperclip } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useLocale } from "@/hooks/useLocale";
+import { Report } from "../types";
+import { getReportStep, isReportResolved } from "../utils/reports";
+import { ReportStatusBadge } from "./ReportStatusBadge";
+
+export function ReportCard({ report }: { report: Report }) {
+  const t = useTranslations("reports");
+  const { currentLocale } = useLocale();
+  const step = getReportStep(report.status);
+  const steps = [
+    t("tracking.received"),
+    t("tracking.inReview"),
+    isReportResolved(report.status)
+      ? t(`statuses.${report.status}`)
+      : t("tracking.resolved"),
+  ];
+
+  const formatDate = (value?: string) =>
+    value ? new Date(value).toLocaleDateString(currentLocale) : "-";
+
+  return (
+    <li className="space-y-3 rounded-md border p-4">
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div>
+          <p className="font-medium">{t(`reasons.${report.reason_type}`)}</p>
+          <p className="text-sm text-muted-foreground">
+            {report.project?.title ||
+              t("list.project", { id: report.project_id })}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-muted-foreground">
+            {formatDate(report.created_at)}
+          </span>
+          <ReportStatusBadge status={report.status} />
+        </div>
+      </div>
+
+      {report.description && (
+        <p className="whitespace-pre-wrap text-sm">{report.description}</p>
+      )}
+
+      {report.attachments && report.attachments.length > 0 && (
+        <ul className="flex flex-wrap gap-2">
+          {report.attachments.map((attachment, index) => (
+            <li key={attachment.id}>
+              <a
+                href={attachment.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex items-center gap-1 text-xs text-design-main hover:underline"
+              >
+                <Paperclip className="h-3 w-3" />
+                {attachment.name || t("list.attachment", { number: index + 1 })}
+              </a>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <ol className="grid grid-cols-3 gap-2">
+        {steps.map((label, index) => (
+          <li key={index} className="space-y-1">
+            <div
+              className={cn(
+                "h-1.5 rounded-full",
+                index <= step
+                  ? report.status === "rejected" && index === 2
+                    ? "bg-red-500"
+                    : "bg-design-main"
+                  : "bg-muted"
+              )}
+            />
+            <p
+              className={cn(
+                "text-xs",
+                index <= step ? "font-medium" : "text-muted-foreground"
+              )}
+            >
+              {label}
+            </p>
+          </li>
+        ))}
+      </ol>
+
+      {report.resolution_note && (
+        <div className="rounded-md bg-muted p-3 text-sm">
+          <p className="mb-1 text-xs font-medium text-muted-foreground">
+            {t("list.supportReply")}
+          </p>
+          <p className="whitespace-pre-wrap">{report.resolution_note}</p>
+        </div>
+      )}
+    </li>
+  );
+}
@@ -0,0 +1,44 @@
+"use client";
+import React, { useState } from "react";
+import { useTranslations } from "next-intl";
+import { Flag } from "lucide-react";
+import { Button } from "@/shared/components/ui/button";
+import { ReportParty } from "../types";
+import { ReportIssueDialog } from "./ReportIssueDialog";
+
+interface ReportIssueButtonProps {
+  party: ReportParty;
+  projectId: number | string;
+  className?: string;
+}
+
+/** Entry point of the report flow on project, offer and contract pages */
+export function ReportIssueButton({
+  party,
+  projectId,
+  className,
+}: ReportIssueButtonProps) {
+  const t = useTranslations("reports");
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <>
+      <Button
+        variant="ghost"
+        size="sm"
+        className={className}
+        onClick={() => setIsOpen(true)}
+      >
+        <Flag className="h-4 w-4" />
+        {t("reportIssue")}
+      </Button>
+
+      <ReportIssueDialog
+        party={party}
+        projectId={projectId}
+        open={isOpen}
+        onOpenChange={setIsOpen}
+      />
+    </>
+  );
+}
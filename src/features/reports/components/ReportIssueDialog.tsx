@@ -0,0 +1,221 @@
+"use client";
+import React, { useEffect, useMemo } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useTranslations } from "next-intl";
+import { Paperclip, X } from "lucide-react";
+import toast from "react-hot-toast";
+import { Button } from "@/shared/components/ui/button";
+import { Textarea } from "@/shared/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/shared/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/shared/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/shared/components/ui/select";
+import { FileUpload } from "@/features/auth/components/file-upload";
+import { useReportIssue } from "../hooks/useReportIssue";
+import { ReportParty } from "../types";
+import {
+  REPORT_FILE_ACCEPT,
+  REPORT_LIMITS,
+  REPORT_REASONS,
+} from "../constants";
+import {
+  ReportFormValues,
+  createReportValidationSchemas,
+} from "../utils/validation";
+import { toReportFormValues } from "../utils/reports";
+
+interface ReportIssueDialogProps {
+  party: ReportParty;
+  projectId: number | string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ReportIssueDialog({
+  party,
+  projectId,
+  open,
+  onOpenChange,
+}: ReportIssueDialogProps) {
+  const t = useTranslations();
+  const { isSaving, submitReport } = useReportIssue(party, projectId);
+  const { ReportSchema } = useMemo(
+    () => createReportValidationSchemas(t, party),
+    [t, party]
+  );
+
+  const form = useForm<ReportFormValues>({
+    resolver: zodResolver(ReportSchema),
+    mode: "onTouched",
+    defaultValues: toReportFormValues(party),
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset(toReportFormValues(party));
+    }
+  }, [open, party, form]);
+
+  const handleSubmit = async (values: ReportFormValues) => {
+    const result = await submitReport(values);
+    if (result.success) {
+      toast.success(result.message || t("reports.form.success"));
+      onOpenChange(false);
+    } else {
+      toast.error(result.message || t("reports.form.error"));
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{t("reports.form.title")}</DialogTitle>
+          <DialogDescription>{t("reports.form.description")}</DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit(handleSubmit)}
+            className="space-y-4"
+          >
+            <FormField
+              control={form.control}
+              name="reason_type"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t("reports.form.reason")}</FormLabel>
+                  <Select
+                    value={field.value}
+                    onValueChange={field.onChange}
+                    disabled={isSaving}
+                  >
+                    <FormControl>
+                      <SelectTrigger className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {REPORT_REASONS[party].map((reason) => (
+                        <SelectItem key={reason} value={reason}>
+                          {t(`reports.reasons.${reason}`)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t("reports.form.details")}</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      {...field}
+                      rows={5}
+                      maxLength={REPORT_LIMITS.descriptionMax}
+                      placeholder={t("reports.form.detailsPlaceholder")}
+                      disabled={isSaving}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="attachments"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t("reports.form.evidence")}</FormLabel>
+                  {/* Picks one file at a time and adds it to the list */}
+                  <FileUpload
+                    id="report-evidence"
+                    onChange={(file) =>
+                      file && field.onChange([...field.value, file])
+                    }
+                    accept={REPORT_FILE_ACCEPT}
+                    maxSizeMB={REPORT_LIMITS.attachmentMaxSizeMB}
+                    disabled={
+                      isSaving ||
+                      field.value.length >= REPORT_LIMITS.attachmentsMax
+                    }
+                  />
+                  {field.value.length > 0 && (
+                    <ul className="space-y-1">
+                      {field.value.map((file, index) => (
+                        <li
+                          key={`${file.name}-${index}`}
+                          className="flex items-center gap-2 text-sm"
+                        >
+                          <Paperclip className="h-3 w-3 shrink-0" />
+                          <span className="truncate">{file.name}</span>
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            className="ms-auto h-6 w-6"
+                            onClick={() =>
+                              field.onChange(
+                                field.value.filter((_, item) => item !== index)
+                              )
+                            }
+                            disabled={isSaving}
+                            aria-label={t("reports.form.removeFile")}
+                          >
+                            <X className="h-3 w-3" />
+                          </Button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                disabled={isSaving}
+              >
+                {t("reports.form.cancel")}
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving
+                  ? t("reports.form.sending")
+                  : t("reports.form.submit")}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,33 @@
+"use client";
+import React from "react";
+import { useTranslations } from "next-intl";
+import { Badge } from "@/shared/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { ReportStatus } from "../types";
+
+const STATUS_COLORS: Record<ReportStatus, string> = {
+  new: "bg-blue-100 text-blue-800",
+  in_review: "bg-yellow-100 text-yellow-800",
+  action_taken: "bg-green-100 text-green-800",
+  rejected: "bg-red-100 text-red-800",
+  closed: "bg-gray-100 text-gray-800",
+};
+
+export function ReportStatusBadge({
+  status,
+  className,
+}: {
+  status: ReportStatus;
+  className?: string;
+}) {
+  const t = useTranslations("reports.statuses");
+
+  return (
+    <Badge
+      variant="secondary"
+      className={cn(STATUS_COLORS[status] ?? STATUS_COLORS.new, className)}
+    >
+      {t(status)}
+    </Badge>
+  );
+}
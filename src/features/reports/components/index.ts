@@ -0,0 +1,5 @@
+export { MyReportsList } from "./MyReportsList";
+export { ReportCard } from "./ReportCard";
+export { ReportIssueButton } from "./ReportIssueButton";
+export { ReportIssueDialog } from "./ReportIssueDialog";
+export { ReportStatusBadge } from "./ReportStatusBadge";
@@ -0,0 +1,7 @@
+export {
+  REPORT_REASONS,
+  REPORT_STATUSES,
+  REPORT_FILE_ACCEPT,
+  REPORTS_PAGE_SIZE,
+  REPORT_LIMITS,
+} from "./reportConstants";
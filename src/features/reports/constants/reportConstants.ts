@@ -0,0 +1,26 @@
+import { ReportParty, ReportReason, ReportStatus } from "../types";
+
+// Each side has its own reasons, "other" is always last
+export const REPORT_REASONS: Record<ReportParty, ReportReason[]> = {
+  owner: ["no_update", "ignore_request", "no_response", "other"],
+  contractor: ["client_delay_phase_closure", "other"],
+};
+
+// In the order a report moves through support
+export const REPORT_STATUSES: ReportStatus[] = [
+  "new",
+  "in_review",
+  "action_taken",
+  "rejected",
+  "closed",
+];
+
+export const REPORT_FILE_ACCEPT = ".pdf,.jpg,.jpeg,.png,.webp";
+
+export const REPORTS_PAGE_SIZE = 20;
+
+export const REPORT_LIMITS = {
+  descriptionMax: 5000,
+  attachmentsMax: 5,
+  attachmentMaxSizeMB: 10,
+} as const;
@@ -0,0 +1,2 @@
+export * from "./useReports";
+export * from "./useReportIssue";
@@ -0,0 +1,32 @@
+"use client";
+import { useCallback, useState } from "react";
+import { reportApi } from "../services/reportApi";
+import { ReportParty } from "../types";
+import { ReportFormValues } from "../utils/validation";
+import { toReportPayload } from "../utils/reports";
+
+type ActionResult = { success: boolean; message?: string };
+
+export const useReportIssue = (
+  party: ReportParty,
+  projectId: number | string
+) => {
+  const [isSaving, setIsSaving] = useState(false);
+
+  const submitReport = useCallback(
+    async (values: ReportFormValues): Promise<ActionResult> => {
+      setIsSaving(true);
+
+      const response = await reportApi.createReport(
+        party,
+        toReportPayload(projectId, values)
+      );
+
+      setIsSaving(false);
+      return { success: response.success, message: response.message };
+    },
+    [party, projectId]
+  );
+
+  return { isSaving, submitReport };
+};
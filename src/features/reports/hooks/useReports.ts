@@ -0,0 +1,57 @@
+"use client";
+import { useCallback, useEffect, useState } from "react";
+import { PaginationMeta } from "@/lib/apiClient";
+import { reportApi } from "../services/reportApi";
+import { Report, ReportParty, ReportStatus } from "../types";
+import { REPORTS_PAGE_SIZE } from "../constants";
+
+/** The reports the current user filed, newest first, by status */
+export const useReports = (party: ReportParty) => {
+  const [reports, setReports] = useState<Report[]>([]);
+  const [meta, setMeta] = useState<PaginationMeta | null>(null);
+  const [page, setPage] = useState(1);
+  const [status, setStatus] = useState<ReportStatus | undefined>();
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchReports = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    const response = await reportApi.getReports(party, {
+      status,
+      page,
+      per_page: REPORTS_PAGE_SIZE,
+    });
+    if (response.success) {
+      setReports(response.data || response.response || []);
+      setMeta(response.meta ?? null);
+    } else {
+      setError(response.message || null);
+    }
+
+    setIsLoading(false);
+  }, [party, status, page]);
+
+  useEffect(() => {
+    fetchReports();
+  }, [fetchReports]);
+
+  // Another status starts over from the first page
+  const filterByStatus = useCallback((value?: ReportStatus) => {
+    setStatus(value);
+    setPage(1);
+  }, []);
+
+  return {
+    reports,
+    meta,
+    page,
+    setPage,
+    status,
+    filterByStatus,
+    isLoading,
+    error,
+    refetch: fetchReports,
+  };
+};
@@ -0,0 +1,61 @@
+import { ApiResponse } from "@/lib/apiClient";
+import * as sdk from "@/lib/sdk";
+import { Report, ReportFilters, ReportParty, ReportPayload } from "../types";
+import { isReportReasonOf } from "../utils/reports";
+
+/**
+ * Report API Service
+ * Issues owners and contractors report against each other on a project,
+ * handled by the support team
+ */
+class ReportApiService {
+  /**
+   * Get a page of the reports the current user filed
+   */
+  async getReports(
+    party: ReportParty,
+    filters: ReportFilters = {}
+  ): Promise<ApiResponse<Report[]>> {
+    const { reason_type, ...query } = filters;
+
+    // Owners report contractors through the client endpoints
+    if (party === "owner") {
+      return sdk.listClientReports<Report[]>({
+        ...query,
+        reason_type:
+          reason_type && isReportReasonOf("owner", reason_type)
+            ? reason_type
+            : undefined,
+      });
+    }
+    return sdk.listContractorReports<Report[]>({
+      ...query,
+      reason_type:
+        reason_type && isReportReasonOf("contractor", reason_type)
+          ? reason_type
+          : undefined,
+    });
+  }
+
+  /**
+   * File a report on a project, evidence goes up as multipart
+   */
+  async createReport(
+    party: ReportParty,
+    data: ReportPayload
+  ): Promise<ApiResponse<Report>> {
+    const { reason_type } = data;
+    if (party === "owner" && isReportReasonOf("owner", reason_type)) {
+      return sdk.createClientReport<Report>({ ...data, reason_type });
+    }
+    if (party === "contractor" && isReportReasonOf("contractor", reason_type)) {
+      return sdk.createContractorReport<Report>({ ...data, reason_type });
+    }
+
+    // The form only offers the reasons of the current side
+    return { success: false, message: `Unsupported reason ${reason_type}` };
+  }
+}
+
+/** Singleton instance of the ReportApiService */
+export const reportApi = new ReportApiService();
@@ -0,0 +1,12 @@
+export type {
+  ReportParty,
+  ReportStatus,
+  ClientReportReason,
+  ContractorReportReason,
+  ReportReason,
+  ReportReasonByParty,
+  ReportAttachment,
+  Report,
+  ReportPayload,
+  ReportFilters,
+} from "./report";
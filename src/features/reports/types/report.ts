@@ -0,0 +1,64 @@
+import { PhaseParty } from "@/features/phases/types";
+
+/** Owners file their reports as clients, contractors as contractors */
+export type ReportParty = PhaseParty;
+
+export type ReportStatus =
+  | "new"
+  | "in_review"
+  | "action_taken"
+  | "rejected"
+  | "closed";
+
+export type ClientReportReason =
+  | "no_update"
+  | "ignore_request"
+  | "no_response"
+  | "other";
+
+export type ContractorReportReason = "client_delay_phase_closure" | "other";
+
+export type ReportReason = ClientReportReason | ContractorReportReason;
+
+export type ReportReasonByParty = {
+  owner: ClientReportReason;
+  contractor: ContractorReportReason;
+};
+
+export interface ReportAttachment {
+  id: number;
+  name?: string | null;
+  url: string;
+}
+
+export interface Report {
+  id: number;
+  project_id: number;
+  reason_type: ReportReason;
+  description?: string | null;
+  status: ReportStatus;
+  project?: { id: number; title: string } | null;
+  attachments?: ReportAttachment[];
+  // Support's answer once the report was handled
+  resolution_note?: string | null;
+  created_at: string;
+  updated_at?: string;
+}
+
+// Multipart when evidence is attached
+export interface ReportPayload {
+  project_id: number;
+  reason_type: ReportReason;
+  description?: string;
+  attachments?: File[];
+}
+
+export interface ReportFilters {
+  project_id?: number;
+  status?: ReportStatus;
+  reason_type?: ReportReason;
+  date_from?: string;
+  date_to?: string;
+  page?: number;
+  per_page?: number;
+}
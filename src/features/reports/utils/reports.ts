@@ -0,0 +1,41 @@
+import {
+  ReportParty,
+  ReportPayload,
+  ReportReason,
+  ReportReasonByParty,
+  ReportStatus,
+} from "../types";
+import { REPORT_REASONS } from "../constants";
+import { ReportFormValues } from "./validation";
+
+// Support is done with a report once it reaches one of these
+const FINAL_STATUSES: ReportStatus[] = ["action_taken", "rejected", "closed"];
+
+export const isReportResolved = (status: ReportStatus) =>
+  FINAL_STATUSES.includes(status);
+
+/** How far a report got: received, under review, then resolved */
+export const getReportStep = (status: ReportStatus) =>
+  isReportResolved(status) ? 2 : status === "in_review" ? 1 : 0;
+
+// Each side reports through its own endpoint, which only takes its reasons
+export const isReportReasonOf = <P extends ReportParty>(
+  party: P,
+  reason: ReportReason
+): reason is ReportReasonByParty[P] => REPORT_REASONS[party].includes(reason);
+
+export const toReportFormValues = (party: ReportParty): ReportFormValues => ({
+  reason_type: REPORT_REASONS[party][0],
+  description: "",
+  attachments: [],
+});
+
+export const toReportPayload = (
+  projectId: number | string,
+  values: ReportFormValues
+): ReportPayload => ({
+  project_id: Number(projectId),
+  reason_type: values.reason_type,
+  description: values.description || undefined,
+  attachments: values.attachments.length > 0 ? values.attachments : undefined,
+});
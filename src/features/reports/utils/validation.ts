@@ -0,0 +1,35 @@
+"use client";
+import { z } from "zod";
+import { getReportValidationMessages } from "./validationMessages";
+import { REPORT_LIMITS, REPORT_REASONS } from "../constants";
+import { ReportParty } from "../types";
+
+export const createReportValidationSchemas = (
+  t: (key: string) => string,
+  party: ReportParty
+) => {
+  const messages = getReportValidationMessages(t);
+
+  // The description is optional unless the reason is "other"
+  const ReportSchema = z
+    .object({
+      reason_type: z.enum(REPORT_REASONS[party]),
+      description: z
+        .string()
+        .trim()
+        .max(REPORT_LIMITS.descriptionMax, messages.description.maxLength),
+      attachments: z
+        .array(z.custom<File>((value) => value instanceof File))
+        .max(REPORT_LIMITS.attachmentsMax, messages.attachments.tooMany),
+    })
+    .refine(
+      (values) => values.reason_type !== "other" || values.description !== "",
+      { message: messages.description.required, path: ["description"] }
+    );
+
+  return { ReportSchema };
+};
+
+export type ReportFormValues = z.infer<
+  ReturnType<typeof createReportValidationSchemas>["ReportSchema"]
+>;
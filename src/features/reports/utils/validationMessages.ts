@@ -0,0 +1,10 @@
+"use client";
+export const getReportValidationMessages = (t: (key: string) => string) => ({
+  description: {
+    required: t("feedback.validation.report.description.required"),
+    maxLength: t("feedback.validation.report.description.maxLength"),
+  },
+  attachments: {
+    tooMany: t("feedback.validation.report.attachments.tooMany"),
+  },
+});
@@ -0,0 +1,171 @@
+"use client";
+import React, { useState } from "react";
+import { useTranslations } from "next-intl";
+import { ErrorState } from "@/shared/components/ui/ErrorState";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from "@/shared/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Skeleton } from "@/components/ui/skeleton";
+import { OffersPagination } from "@/features/offers/components/common/OffersPagination";
+import { useContractorReviews } from "../hooks/useContractorReviews";
+import { formatRating, toRating } from "../utils/reviews";
+import { RatingSummary } from "./RatingSummary";
+import { ReviewList } from "./ReviewList";
+import { StarRating } from "./StarRating";
+
+interface ContractorReviewsProps {
+  contractorId: string;
+  isOwnProfile?: boolean;
+}
+
+/**
+ * Public reviews of a contractor: overall rating, how they do per project
+ * type, which projects were reviewed and the reviews themselves
+ */
+export function ContractorReviews({
+  contractorId,
+  isOwnProfile,
+}: ContractorReviewsProps) {
+  const t = useTranslations("reviews.contractor");
+  const [page, setPage] = useState(1);
+  const {
+    reviews,
+    meta,
+    statistics,
+    projects,
+    performance,
+    isLoading,
+    error,
+    refetch,
+  } = useContractorReviews(contractorId, page);
+
+  if (error) {
+    return (
+      <ErrorState
+        variant="inline"
+        title={t("loadError")}
+        error={error}
+        onRetry={refetch}
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {statistics && <RatingSummary statistics={statistics} />}
+
+      {(performance.length > 0 || projects.length > 0) && (
+        <div className="grid gap-4 lg:grid-cols-2">
+          {performance.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">
+                  {t("performance.title")}
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{t("performance.projectType")}</TableHead>
+                      <TableHead>{t("performance.projects")}</TableHead>
+                      <TableHead>{t("performance.rating")}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {performance.map((item) => (
+                      <TableRow key={item.project_type}>
+                        <TableCell>{item.project_type}</TableCell>
+                        <TableCell>{item.projects_count}</TableCell>
+                        <TableCell>
+                          <span className="flex items-center gap-2">
+                            <StarRating
+                              value={toRating(item.average_rating)}
+                              size="sm"
+                            />
+                            {formatRating(item.average_rating)}
+                          </span>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          )}
+
+          {projects.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">
+                  {t("projects.title")}
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ul className="divide-y">
+                  {projects.map((project) => (
+                    <li
+                      key={project.id}
+                      className="flex items-center justify-between gap-4 py-2 text-sm"
+                    >
+                      <div className="min-w-0">
+                        <p className="truncate font-medium">{project.title}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {t("projects.reviews", {
+                            count: project.reviews_count,
+                          })}
+                        </p>
+                      </div>
+                      <span className="flex shrink-0 items-center gap-1">
+                        <StarRating
+                          value={toRating(project.average_rating)}
+                          size="sm"
+                        />
+                        {formatRating(project.average_rating)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        <h2 className="text-lg font-semibold">{t("reviewsTitle")}</h2>
+        {isLoading ? (
+          <div className="space-y-3">
+            {[1, 2, 3].map((item) => (
+              <Skeleton key={item} className="h-32 w-full" />
+            ))}
+          </div>
+        ) : (
+          <ReviewList
+            reviews={reviews}
+            emptyMessage={t("empty")}
+            canVote={!isOwnProfile}
+          />
+        )}
+        {meta && (
+          <OffersPagination
+            currentPage={meta.current_page}
+            totalPages={meta.last_page}
+            onPageChange={setPage}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
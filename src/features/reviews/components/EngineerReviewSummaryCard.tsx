@@ -0,0 +1,111 @@
+"use client";
+import React from "react";
+import { useTranslations } from "next-intl";
+import { TrendingDown, TrendingUp } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/shared/components/ui/card";
+import { ErrorState } from "@/shared/components/ui/ErrorState";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useAuthStore } from "@/features/auth/store/authStore";
+import { cn } from "@/lib/utils";
+import { useEngineerReviewSummary } from "../hooks/useEngineerReviewSummary";
+import { formatRating, toRating } from "../utils/reviews";
+import { StarRating } from "./StarRating";
+
+const RECENT_REVIEWS_SHOWN = 3;
+
+/** Rating overview of the signed-in engineer for their dashboard */
+export function EngineerReviewSummaryCard() {
+  const t = useTranslations("reviews.dashboard");
+  const userId = useAuthStore((state) => state.user?.id);
+  const { summary, isLoading, error, refetch } = useEngineerReviewSummary(
+    userId ? String(userId) : undefined
+  );
+
+  if (isLoading) {
+    return <Skeleton className="h-48 w-full" />;
+  }
+
+  if (error || !summary) {
+    return (
+      <ErrorState
+        variant="card"
+        title={t("loadError")}
+        error={error || t("loadError")}
+        onRetry={refetch}
+      />
+    );
+  }
+
+  const ratingChange = toRating(summary.rating_change);
+  const recentReviews = (summary.recent_reviews ?? []).slice(
+    0,
+    RECENT_REVIEWS_SHOWN
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t("title")}</CardTitle>
+        <CardDescription>
+          {t("total", { count: summary.total_reviews })}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-4">
+          <span className="text-3xl font-bold">
+            {formatRating(summary.average_rating)}
+          </span>
+          <StarRating value={toRating(summary.average_rating)} />
+          {ratingChange !== 0 && (
+            <span
+              className={cn(
+                "flex items-center gap-1 text-sm",
+                ratingChange > 0 ? "text-green-600" : "text-red-600"
+              )}
+            >
+              {ratingChange > 0 ? (
+                <TrendingUp className="h-4 w-4" />
+              ) : (
+                <TrendingDown className="h-4 w-4" />
+              )}
+              {ratingChange > 0 && "+"}
+              {ratingChange.toFixed(1)}
+            </span>
+          )}
+          {summary.reviews_this_month !== undefined && (
+            <span className="text-sm text-muted-foreground">
+              {t("thisMonth", { count: summary.reviews_this_month })}
+            </span>
+          )}
+        </div>
+
+        {recentReviews.length > 0 && (
+          <ul className="divide-y">
+            {recentReviews.map((review) => (
+              <li key={review.id} className="space-y-1 py-2">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="truncate text-sm font-medium">
+                    {review.title}
+                  </span>
+                  <StarRating
+                    value={toRating(review.overall_rating)}
+                    size="sm"
+                  />
+                </div>
+                <p className="line-clamp-2 text-xs text-muted-foreground">
+                  {review.body}
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,138 @@
+"use client";
+import React, { useState } from "react";
+import { useTranslations } from "next-intl";
+import { ErrorState } from "@/shared/components/ui/ErrorState";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from "@/shared/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { OffersPagination } from "@/features/offers/components/common/OffersPagination";
+import { useEngineerReviews } from "../hooks/useEngineerReviews";
+import { formatRating, toRating } from "../utils/reviews";
+import { PerformanceChart } from "./PerformanceChart";
+import { RatingSummary } from "./RatingSummary";
+import { ReviewList } from "./ReviewList";
+import { StarRating } from "./StarRating";
+
+interface EngineerReviewsProps {
+  engineerId: string;
+  isOwnProfile?: boolean;
+}
+
+/**
+ * Reviews of a freelance engineer or engineering office: overall and
+ * per-criterion ratings, how they do per engineering type, which service
+ * requests were reviewed and the reviews themselves
+ */
+export function EngineerReviews({
+  engineerId,
+  isOwnProfile,
+}: EngineerReviewsProps) {
+  const t = useTranslations("reviews.engineer");
+  const [page, setPage] = useState(1);
+  const {
+    reviews,
+    meta,
+    statistics,
+    serviceRequests,
+    performance,
+    isLoading,
+    error,
+    refetch,
+  } = useEngineerReviews(engineerId, page);
+
+  if (error) {
+    return (
+      <ErrorState
+        variant="inline"
+        title={t("loadError")}
+        error={error}
+        onRetry={refetch}
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {statistics && <RatingSummary statistics={statistics} />}
+
+      {(performance.length > 0 || serviceRequests.length > 0) && (
+        <div className="grid gap-4 lg:grid-cols-2">
+          {performance.length > 0 && (
+            <PerformanceChart
+              title={t("performanceTitle")}
+              bars={performance.map((item) => ({
+                label: item.engineering_type,
+                rating: item.average_rating,
+                caption: t("requestsCount", {
+                  count: item.service_requests_count,
+                }),
+              }))}
+            />
+          )}
+
+          {serviceRequests.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">
+                  {t("serviceRequestsTitle")}
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ul className="divide-y">
+                  {serviceRequests.map((request) => (
+                    <li
+                      key={request.id}
+                      className="flex items-center justify-between gap-4 py-2 text-sm"
+                    >
+                      <div className="min-w-0">
+                        <p className="truncate font-medium">{request.title}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {t("reviewsCount", { count: request.reviews_count })}
+                        </p>
+                      </div>
+                      <span className="flex shrink-0 items-center gap-1">
+                        <StarRating
+                          value={toRating(request.average_rating)}
+                          size="sm"
+                        />
+                        {formatRating(request.average_rating)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        <h2 className="text-lg font-semibold">{t("reviewsTitle")}</h2>
+        {isLoading ? (
+          <div className="space-y-3">
+            {[1, 2, 3].map((item) => (
+              <Skeleton key={item} className="h-32 w-full" />
+            ))}
+          </div>
+        ) : (
+          <ReviewList
+            reviews={reviews}
+            emptyMessage={t("empty")}
+            canVote={!isOwnProfile}
+          />
+        )}
+        {meta && (
+          <OffersPagination
+            currentPage={meta.current_page}
+            totalPages={meta.last_page}
+            onPageChange={setPage}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+"use client";
+import React, { useEffect, useMemo } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useTranslations } from "next-intl";
+import { Button } from "@/shared/components/ui/button";
+import { Textarea } from "@/shared/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/shared/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/shared/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/shared/components/ui/select";
+import { REVIEW_FLAG_REASONS, REVIEW_LIMITS } from "../constants";
+import {
+  FlagFormValues,
+  createFlagValidationSchemas,
+} from "../utils/validation";
+
+interface FlagReviewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  isSaving: boolean;
+  onSubmit: (values: FlagFormValues) => Promise<boolean>;
+}
+
+export function FlagReviewDialog({
+  open,
+  onOpenChange,
+  isSaving,
+  onSubmit,
+}: FlagReviewDialogProps) {
+  const t = useTranslations();
+  const { FlagSchema } = useMemo(() => createFlagValidationSchemas(t), [t]);
+
+  const form = useForm<FlagFormValues>({
+    resolver: zodResolver(FlagSchema),
+    mode: "onTouched",
+    defaultValues: { note: "" },
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset({ note: "" });
+    }
+  }, [open, form]);
+
+  const handleSubmit = async (values: FlagFormValues) => {
+    const sent = await onSubmit(values);
+    if (sent) {
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{t("reviews.flag.title")}</DialogTitle>
+          <DialogDescription>{t("reviews.flag.description")}</DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit(handleSubmit)}
+            className="space-y-4"
+          >
+            <FormField
+              control={form.control}
+              name="reason"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t("reviews.flag.reason")}</FormLabel>
+                  <Select
+                    value={field.value}
+                    onValueChange={field.onChange}
+                    disabled={isSaving}
+                  >
+                    <FormControl>
+                      <SelectTrigger className="w-full">
+                        <SelectValue
+                          placeholder={t("reviews.flag.reasonPlaceholder")}
+                        />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {REVIEW_FLAG_REASONS.map((reason) => (
+                        <SelectItem key={reason} value={reason}>
+                          {t(`reviews.flag.reasons.${reason}`)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="note"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t("reviews.flag.note")}</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      {...field}
+                      rows={3}
+                      maxLength={REVIEW_LIMITS.flagNoteMax}
+                      disabled={isSaving}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                disabled={isSaving}
+                onClick={() => onOpenChange(false)}
+              >
+                {t("common.actions.cancel")}
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {t("reviews.flag.submit")}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,97 @@
+"use client";
+import React, { useState } from "react";
+import { useTranslations } from "next-intl";
+import { Pencil } from "lucide-react";
+import toast from "react-hot-toast";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/shared/components/ui/card";
+import { Button } from "@/shared/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useMyReview } from "../hooks/useMyReview";
+import { ReviewSubject } from "../types";
+import { ReviewFormValues } from "../utils/validation";
+import { ReviewCard } from "./ReviewCard";
+import { ReviewForm } from "./ReviewForm";
+
+interface MyReviewSectionProps {
+  subject: ReviewSubject;
+  subjectId: string;
+  onSaved?: () => void;
+}
+
+/**
+ * Lets the client rate the contractor or engineer once the work is done, or
+ * the buyer rate a product, and shows the review afterwards. Renders
+ * nothing while reviewing isn't open.
+ */
+export function MyReviewSection({
+  subject,
+  subjectId,
+  onSaved,
+}: MyReviewSectionProps) {
+  const t = useTranslations("reviews.mine");
+  const { canReview, criteria, review, isLoading, isSaving, submit } =
+    useMyReview(subject, subjectId);
+  const [isEditing, setIsEditing] = useState(false);
+
+  if (isLoading) {
+    return <Skeleton className="h-40 w-full" />;
+  }
+
+  if (!canReview && !review) return null;
+
+  const handleSubmit = async (values: ReviewFormValues) => {
+    const result = await submit(values);
+    if (result.success) {
+      toast.success(result.message || t("saveSuccess"));
+      setIsEditing(false);
+      onSaved?.();
+    } else {
+      toast.error(result.message || t("saveError"));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>
+          {review ? t("yourReview") : t(`${subject}.title`)}
+        </CardTitle>
+        {(!review || isEditing) && (
+          <CardDescription>{t(`${subject}.description`)}</CardDescription>
+        )}
+      </CardHeader>
+      <CardContent>
+        {review && !isEditing ? (
+          <ReviewCard
+            review={review}
+            actions={
+              <Button
+                variant="outline"
+                size="sm"
+                className="ms-auto"
+                onClick={() => setIsEditing(true)}
+              >
+                <Pencil className="h-4 w-4" />
+                {t("edit")}
+              </Button>
+            }
+          />
+        ) : (
+          <ReviewForm
+            criteria={criteria}
+            review={review}
+            isSaving={isSaving}
+            onSubmit={handleSubmit}
+            onCancel={review ? () => setIsEditing(false) : undefined}
+          />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
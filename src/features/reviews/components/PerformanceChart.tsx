@@ -0,0 +1,52 @@
+"use client";
+import React from "react";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from "@/shared/components/ui/card";
+import { formatRating, toRating } from "../utils/reviews";
+
+interface PerformanceBar {
+  label: string;
+  rating: number | string | null;
+  caption: string;
+}
+
+interface PerformanceChartProps {
+  title: string;
+  bars: PerformanceBar[];
+}
+
+/** Horizontal bars of the average rating per type of work, out of 5 */
+export function PerformanceChart({ title, bars }: PerformanceChartProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">{title}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {bars.map((bar) => (
+          <div key={bar.label} className="space-y-1">
+            <div className="flex items-center justify-between gap-2 text-sm">
+              <span className="font-medium">{bar.label}</span>
+              <span className="text-muted-foreground">{bar.caption}</span>
+            </div>
+            <div className="flex items-center gap-2">
+              <div className="h-3 flex-1 overflow-hidden rounded-full bg-muted">
+                <div
+                  className="h-full rounded-full bg-yellow-400 transition-all"
+                  style={{ width: `${(toRating(bar.rating) / 5) * 100}%` }}
+                />
+              </div>
+              <span className="w-7 text-end text-sm font-semibold">
+                {formatRating(bar.rating)}
+              </span>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,42 @@
+"use client";
+import React from "react";
+import { useTranslations } from "next-intl";
+import { cn } from "@/lib/utils";
+import { ProductWithReviews } from "../types";
+import { formatRating, toRating } from "../utils/reviews";
+import { StarRating } from "./StarRating";
+
+interface ProductRatingProps {
+  rating?: ProductWithReviews;
+  className?: string;
+}
+
+/** Compact star average of a product for cards and lists */
+export function ProductRating({ rating, className }: ProductRatingProps) {
+  const t = useTranslations("reviews.product");
+
+  const average = toRating(rating?.average_rating);
+  const total = rating?.reviews_count ?? 0;
+
+  return (
+    <div
+      className={cn(
+        "flex items-center gap-1 text-xs text-muted-foreground",
+        className
+      )}
+    >
+      <StarRating
+        value={average}
+        size="sm"
+        label={t("average", { rating: formatRating(average) })}
+      />
+      {total > 0 ? (
+        <span>
+          {formatRating(average)} ({t("reviewsCount", { count: total })})
+        </span>
+      ) : (
+        <span>{t("noReviews")}</span>
+      )}
+    </div>
+  );
+}
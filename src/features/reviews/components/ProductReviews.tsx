@@ -0,0 +1,77 @@
+"use client";
+import React, { useState } from "react";
+import { useTranslations } from "next-intl";
+import { ErrorState } from "@/shared/components/ui/ErrorState";
+import { Skeleton } from "@/components/ui/skeleton";
+import { OffersPagination } from "@/features/offers/components/common/OffersPagination";
+import { useProductReviews } from "../hooks/useProductReviews";
+import { MyReviewSection } from "./MyReviewSection";
+import { RatingSummary } from "./RatingSummary";
+import { ReviewList } from "./ReviewList";
+
+interface ProductReviewsProps {
+  productId: string;
+  isOwnProduct?: boolean;
+}
+
+/**
+ * Buyer reviews of a product with the criteria averages. Buyers who may
+ * review the product get the review form above the list.
+ */
+export function ProductReviews({
+  productId,
+  isOwnProduct,
+}: ProductReviewsProps) {
+  const t = useTranslations("reviews.product");
+  const [page, setPage] = useState(1);
+  const { reviews, meta, statistics, isLoading, error, refetch, refresh } =
+    useProductReviews(productId, page);
+
+  if (error) {
+    return (
+      <ErrorState
+        variant="inline"
+        title={t("loadError")}
+        error={error}
+        onRetry={refetch}
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-lg font-semibold">{t("title")}</h2>
+
+      {statistics && <RatingSummary statistics={statistics} />}
+
+      {!isOwnProduct && (
+        <MyReviewSection
+          subject="product"
+          subjectId={productId}
+          onSaved={refresh}
+        />
+      )}
+
+      {isLoading ? (
+        <div className="space-y-3">
+          {[1, 2, 3].map((item) => (
+            <Skeleton key={item} className="h-32 w-full" />
+          ))}
+        </div>
+      ) : (
+        <ReviewList
+          reviews={reviews}
+          emptyMessage={t("empty")}
+          canVote={!isOwnProduct}
+        />
+      )}
+      {meta && (
+        <OffersPagination
+          currentPage={meta.current_page}
+          totalPages={meta.last_page}
+          onPageChange={setPage}
+        />
+      )}
+    </div>
+  );
+}
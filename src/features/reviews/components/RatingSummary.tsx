@@ -0,0 +1,77 @@
+"use client";
+import React from "react";
+import { useTranslations } from "next-intl";
+import { Card, CardContent } from "@/shared/components/ui/card";
+import { Progress } from "@/shared/components/ui/progress";
+import { RATING_VALUES } from "../constants";
+import { ReviewStatistics } from "../types";
+import {
+  formatRating,
+  getDistributionShare,
+  toRating,
+} from "../utils/reviews";
+import { StarRating } from "./StarRating";
+
+/**
+ * Average rating with the star distribution and the average of each
+ * scoring criterion
+ */
+export function RatingSummary({ statistics }: { statistics: ReviewStatistics }) {
+  const t = useTranslations("reviews.summary");
+  const average = toRating(statistics.average_rating);
+  const distribution = RATING_VALUES.slice().reverse();
+
+  return (
+    <Card>
+      <CardContent className="grid gap-6 p-6 md:grid-cols-[auto_1fr_1fr]">
+        <div className="flex flex-col items-center justify-center gap-2 text-center">
+          <span className="text-4xl font-bold">{formatRating(average)}</span>
+          <StarRating
+            value={average}
+            label={t("average", { rating: formatRating(average) })}
+          />
+          <span className="text-sm text-muted-foreground">
+            {t("total", { count: statistics.total_reviews })}
+          </span>
+        </div>
+
+        <div className="space-y-2">
+          {distribution.map((rating) => (
+            <div key={rating} className="flex items-center gap-2 text-sm">
+              <span className="w-3 text-muted-foreground">{rating}</span>
+              <Progress
+                value={getDistributionShare(statistics, rating)}
+                className="h-2 flex-1"
+              />
+              <span className="w-10 text-end text-muted-foreground">
+                {getDistributionShare(statistics, rating)}%
+              </span>
+            </div>
+          ))}
+        </div>
+
+        {!!statistics.criteria_averages?.length && (
+          <div className="space-y-2">
+            {statistics.criteria_averages.map((criterion) => (
+              <div
+                key={criterion.criterion_id}
+                className="flex items-center justify-between gap-2 text-sm"
+              >
+                <span className="text-muted-foreground">{criterion.name}</span>
+                <span className="flex items-center gap-2">
+                  <StarRating
+                    value={toRating(criterion.average_score)}
+                    size="sm"
+                  />
+                  <span className="w-7 text-end font-medium">
+                    {formatRating(criterion.average_score)}
+                  </span>
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
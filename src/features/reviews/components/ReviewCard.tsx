@@ -0,0 +1,129 @@
+"use client";
+import React from "react";
+import { useTranslations } from "next-intl";
+import { Flag, ThumbsDown, ThumbsUp } from "lucide-react";
+import { Card, CardContent } from "@/shared/components/ui/card";
+import { Button } from "@/shared/components/ui/button";
+import { useLocale } from "@/hooks/useLocale";
+import { cn } from "@/lib/utils";
+import { Review } from "../types";
+import { formatRating, toRating } from "../utils/reviews";
+import { StarRating } from "./StarRating";
+
+interface ReviewCardProps {
+  review: Review;
+  vote?: boolean;
+  isFlagged?: boolean;
+  disabled?: boolean;
+  onVote?: (isHelpful: boolean) => void;
+  onFlag?: () => void;
+  actions?: React.ReactNode;
+}
+
+export function ReviewCard({
+  review,
+  vote,
+  isFlagged,
+  disabled,
+  onVote,
+  onFlag,
+  actions,
+}: ReviewCardProps) {
+  const t = useTranslations("reviews.card");
+  const { currentLocale } = useLocale();
+  const hasVoted = vote !== undefined;
+
+  // Counts from the API don't include a vote sent during this visit
+  const helpfulCount = (review.helpful_count ?? 0) + (vote === true ? 1 : 0);
+  const notHelpfulCount =
+    (review.not_helpful_count ?? 0) + (vote === false ? 1 : 0);
+
+  return (
+    <Card>
+      <CardContent className="space-y-3 p-4">
+        <div className="flex items-start justify-between gap-4">
+          <div className="min-w-0 space-y-1">
+            <h3 className="font-semibold">{review.title}</h3>
+            <p className="text-xs text-muted-foreground">
+              {review.is_anonymous || !review.reviewer
+                ? t("anonymous")
+                : review.reviewer.name}
+              {" · "}
+              {new Date(review.created_at).toLocaleDateString(currentLocale)}
+              {review.project && ` · ${review.project.title}`}
+            </p>
+          </div>
+          <div className="flex shrink-0 items-center gap-2">
+            <StarRating
+              value={toRating(review.overall_rating)}
+              size="sm"
+              label={t("rating", { rating: formatRating(review.overall_rating) })}
+            />
+            <span className="text-sm font-medium">
+              {formatRating(review.overall_rating)}
+            </span>
+          </div>
+        </div>
+
+        <p className="whitespace-pre-line text-sm text-foreground">
+          {review.body}
+        </p>
+
+        {!!review.scores?.length && (
+          <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+            {review.scores.map((score) => (
+              <span key={score.criterion_id}>
+                {score.name}: {formatRating(score.score)}
+              </span>
+            ))}
+          </div>
+        )}
+
+        {(onVote || onFlag || actions) && (
+          <div className="flex flex-wrap items-center gap-2 border-t pt-3">
+            {onVote && (
+              <>
+                <span className="text-xs text-muted-foreground">
+                  {t("helpfulQuestion")}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={disabled || hasVoted}
+                  className={cn(vote === true && "text-design-main")}
+                  onClick={() => onVote(true)}
+                >
+                  <ThumbsUp className="h-4 w-4" />
+                  {helpfulCount}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={disabled || hasVoted}
+                  className={cn(vote === false && "text-design-main")}
+                  onClick={() => onVote(false)}
+                >
+                  <ThumbsDown className="h-4 w-4" />
+                  {notHelpfulCount}
+                </Button>
+              </>
+            )}
+            {onFlag && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="ms-auto text-muted-foreground"
+                disabled={disabled || isFlagged}
+                onClick={onFlag}
+              >
+                <Flag className="h-4 w-4" />
+                {isFlagged ? t("flagged") : t("flag")}
+              </Button>
+            )}
+            {actions}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,196 @@
+"use client";
+import React, { useMemo } from "react";
+import { useForm, useWatch } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useTranslations } from "next-intl";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/shared/components/ui/button";
+import { Checkbox } from "@/shared/components/ui/checkbox";
+import { Input } from "@/shared/components/ui/input";
+import { Textarea } from "@/shared/components/ui/textarea";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/shared/components/ui/form";
+import { REVIEW_LIMITS } from "../constants";
+import { Review, ReviewCriterion } from "../types";
+import {
+  ReviewFormValues,
+  createReviewValidationSchemas,
+} from "../utils/validation";
+import {
+  computeOverallRating,
+  formatRating,
+  toReviewFormValues,
+} from "../utils/reviews";
+import { StarRating } from "./StarRating";
+
+interface ReviewFormProps {
+  criteria: ReviewCriterion[];
+  review?: Review | null;
+  isSaving: boolean;
+  onSubmit: (values: ReviewFormValues) => void;
+  onCancel?: () => void;
+}
+
+/**
+ * Scores every criterion on five stars, the overall rating is their
+ * weighted average
+ */
+export function ReviewForm({
+  criteria,
+  review,
+  isSaving,
+  onSubmit,
+  onCancel,
+}: ReviewFormProps) {
+  const t = useTranslations();
+  const { ReviewSchema } = useMemo(
+    () => createReviewValidationSchemas(t, criteria),
+    [t, criteria]
+  );
+
+  const form = useForm<ReviewFormValues>({
+    resolver: zodResolver(ReviewSchema),
+    mode: "onTouched",
+    defaultValues: toReviewFormValues(review),
+  });
+  const scores = useWatch({ control: form.control, name: "scores" });
+  const overallRating = computeOverallRating(scores ?? {}, criteria);
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-5">
+        <FormField
+          control={form.control}
+          name="scores"
+          render={({ field }) => (
+            <FormItem>
+              <div className="space-y-3">
+                {criteria.map((criterion) => {
+                  const key = String(criterion.criterion_id);
+                  return (
+                    <div
+                      key={key}
+                      className="flex flex-wrap items-center justify-between gap-2"
+                    >
+                      <div>
+                        <p className="text-sm font-medium">
+                          {criterion.name}
+                          {criterion.is_required && (
+                            <span className="text-destructive"> *</span>
+                          )}
+                        </p>
+                        {criterion.description && (
+                          <p className="text-xs text-muted-foreground">
+                            {criterion.description}
+                          </p>
+                        )}
+                      </div>
+                      <StarRating
+                        value={field.value[key] ?? 0}
+                        size="lg"
+                        label={criterion.name}
+                        disabled={isSaving}
+                        onChange={(score) =>
+                          field.onChange({ ...field.value, [key]: score })
+                        }
+                      />
+                    </div>
+                  );
+                })}
+              </div>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex items-center justify-between rounded-md bg-muted/50 px-4 py-3">
+          <span className="text-sm font-medium">
+            {t("reviews.form.overall")}
+          </span>
+          <span className="flex items-center gap-2">
+            <StarRating value={overallRating} />
+            <span className="font-semibold">{formatRating(overallRating)}</span>
+          </span>
+        </div>
+
+        <FormField
+          control={form.control}
+          name="title"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>{t("reviews.form.title")}</FormLabel>
+              <FormControl>
+                <Input
+                  {...field}
+                  maxLength={REVIEW_LIMITS.titleMax}
+                  disabled={isSaving}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="body"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>{t("reviews.form.body")}</FormLabel>
+              <FormControl>
+                <Textarea
+                  {...field}
+                  rows={5}
+                  maxLength={REVIEW_LIMITS.bodyMax}
+                  placeholder={t("reviews.form.bodyPlaceholder")}
+                  disabled={isSaving}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="is_anonymous"
+          render={({ field }) => (
+            <FormItem className="flex items-center gap-2">
+              <FormControl>
+                <Checkbox
+                  checked={field.value}
+                  onCheckedChange={(checked) => field.onChange(checked === true)}
+                  disabled={isSaving}
+                />
+              </FormControl>
+              <FormLabel className="font-normal">
+                {t("reviews.form.anonymous")}
+              </FormLabel>
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end gap-2">
+          {onCancel && (
+            <Button
+              type="button"
+              variant="outline"
+              disabled={isSaving}
+              onClick={onCancel}
+            >
+              {t("common.actions.cancel")}
+            </Button>
+          )}
+          <Button type="submit" disabled={isSaving}>
+            {isSaving && <Loader2 className="h-4 w-4 animate-spin" />}
+            {review ? t("reviews.form.update") : t("reviews.form.submit")}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,89 @@
+"use client";
+import React, { useState } from "react";
+import { useTranslations } from "next-intl";
+import { MessageSquareText } from "lucide-react";
+import toast from "react-hot-toast";
+import { useReviewFeedback } from "../hooks/useReviewFeedback";
+import { Review } from "../types";
+import { FlagFormValues } from "../utils/validation";
+import { FlagReviewDialog } from "./FlagReviewDialog";
+import { ReviewCard } from "./ReviewCard";
+
+interface ReviewListProps {
+  reviews: Review[];
+  emptyMessage: string;
+  // Off when the viewer is the one being reviewed, they can still report
+  canVote?: boolean;
+}
+
+/** Reviews with helpful votes and reporting */
+export function ReviewList({
+  reviews,
+  emptyMessage,
+  canVote = true,
+}: ReviewListProps) {
+  const t = useTranslations("reviews.feedback");
+  const { votes, flaggedIds, pendingId, vote, flag } = useReviewFeedback();
+  const [flagging, setFlagging] = useState<Review>();
+
+  if (reviews.length === 0) {
+    return (
+      <div className="flex flex-col items-center gap-2 py-12 text-muted-foreground">
+        <MessageSquareText className="h-8 w-8" />
+        <p className="text-sm">{emptyMessage}</p>
+      </div>
+    );
+  }
+
+  const handleVote = async (reviewId: number, isHelpful: boolean) => {
+    const result = await vote(reviewId, isHelpful);
+    if (result.success) {
+      toast.success(result.message || t("voteSuccess"));
+    } else {
+      toast.error(result.message || t("voteError"));
+    }
+  };
+
+  const handleFlag = async (values: FlagFormValues) => {
+    if (!flagging) return false;
+    const result = await flag(flagging.id, {
+      reason: values.reason,
+      note: values.note || undefined,
+    });
+    if (result.success) {
+      toast.success(result.message || t("flagSuccess"));
+    } else {
+      toast.error(result.message || t("flagError"));
+    }
+    return result.success;
+  };
+
+  return (
+    <>
+      <div className="space-y-3">
+        {reviews.map((review) => (
+          <ReviewCard
+            key={review.id}
+            review={review}
+            vote={votes[review.id]}
+            isFlagged={flaggedIds.includes(review.id)}
+            disabled={pendingId === review.id}
+            onVote={
+              canVote
+                ? (isHelpful) => handleVote(review.id, isHelpful)
+                : undefined
+            }
+            onFlag={() => setFlagging(review)}
+          />
+        ))}
+      </div>
+
+      <FlagReviewDialog
+        open={!!flagging}
+        onOpenChange={(open) => !open && setFlagging(undefined)}
+        isSaving={pendingId !== null}
+        onSubmit={handleFlag}
+      />
+    </>
+  );
+}
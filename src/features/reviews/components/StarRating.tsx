@@ -0,0 +1,88 @@
+"use client";
+import React from "react";
+import { Star } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { RATING_VALUES } from "../constants";
+import { RatingValue } from "../types";
+
+interface StarRatingProps {
+  value: number;
+  onChange?: (value: RatingValue) => void;
+  disabled?: boolean;
+  size?: "sm" | "md" | "lg";
+  label?: string;
+  className?: string;
+}
+
+const SIZES = { sm: "h-3.5 w-3.5", md: "h-4 w-4", lg: "h-6 w-6" };
+
+/**
+ * Five stars, read-only unless `onChange` is given. Read-only stars round
+ * to the nearest half so 4.3 and 4.7 look different.
+ */
+export function StarRating({
+  value,
+  onChange,
+  disabled,
+  size = "md",
+  label,
+  className,
+}: StarRatingProps) {
+  const rounded = Math.round(value * 2) / 2;
+
+  if (!onChange) {
+    return (
+      <div
+        className={cn("flex items-center gap-0.5", className)}
+        role="img"
+        aria-label={label}
+      >
+        {RATING_VALUES.map((star) => (
+          <span key={star} className="relative">
+            <Star className={cn(SIZES[size], "text-gray-300")} />
+            {rounded >= star - 0.5 && (
+              <Star
+                className={cn(
+                  SIZES[size],
+                  "absolute inset-0 fill-yellow-400 text-yellow-400",
+                  rounded === star - 0.5 &&
+                    "[clip-path:inset(0_50%_0_0)] rtl:[clip-path:inset(0_0_0_50%)]"
+                )}
+              />
+            )}
+          </span>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className={cn("flex items-center gap-1", className)}
+      role="radiogroup"
+      aria-label={label}
+    >
+      {RATING_VALUES.map((star) => (
+        <button
+          key={star}
+          type="button"
+          role="radio"
+          aria-checked={value === star}
+          aria-label={String(star)}
+          disabled={disabled}
+          onClick={() => onChange(star)}
+          className="rounded-sm transition-transform hover:scale-110 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring disabled:pointer-events-none disabled:opacity-50"
+        >
+          <Star
+            className={cn(
+              SIZES[size],
+              star <= value
+                ? "fill-yellow-400 text-yellow-400"
+                : "text-gray-300"
+            )}
+          />
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,13 @@
+export { StarRating } from "./StarRating";
+export { RatingSummary } from "./RatingSummary";
+export { ReviewCard } from "./ReviewCard";
+export { ReviewList } from "./ReviewList";
+export { FlagReviewDialog } from "./FlagReviewDialog";
+export { ReviewForm } from "./ReviewForm";
+export { ContractorReviews } from "./ContractorReviews";
+export { MyReviewSection } from "./MyReviewSection";
+export { PerformanceChart } from "./PerformanceChart";
+export { EngineerReviews } from "./EngineerReviews";
+export { EngineerReviewSummaryCard } from "./EngineerReviewSummaryCard";
+export { ProductRating } from "./ProductRating";
+export { ProductReviews } from "./ProductReviews";
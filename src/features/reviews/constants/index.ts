@@ -0,0 +1,6 @@
+export {
+  RATING_VALUES,
+  REVIEW_FLAG_REASONS,
+  REVIEWS_PAGE_SIZE,
+  REVIEW_LIMITS,
+} from "./reviewConstants";
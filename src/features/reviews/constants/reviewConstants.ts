@@ -0,0 +1,20 @@
+import { RatingValue, ReviewFlagReason } from "../types";
+
+export const RATING_VALUES: RatingValue[] = [1, 2, 3, 4, 5];
+
+export const REVIEW_FLAG_REASONS: ReviewFlagReason[] = [
+  "inappropriate",
+  "spam",
+  "offensive",
+  "fake",
+  "other",
+];
+
+export const REVIEWS_PAGE_SIZE = 10;
+
+export const REVIEW_LIMITS = {
+  titleMax: 255,
+  bodyMin: 10,
+  bodyMax: 2000,
+  flagNoteMax: 500,
+} as const;
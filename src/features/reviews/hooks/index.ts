@@ -0,0 +1,8 @@
+export * from "./useContractorReviews";
+export * from "./useReviewFeedback";
+export * from "./useMyReview";
+export * from "./useEngineerReviews";
+export * from "./useEngineerReviewSummary";
+export * from "./useProductReviews";
+export * from "./useSupplierProductRatings";
+export * from "./useSupplierReviewSummary";
@@ -0,0 +1,60 @@
+"use client";
+import { useCallback, useEffect, useState } from "react";
+import { reviewApi } from "../services/reviewApi";
+import {
+  ProjectTypePerformance,
+  ProjectWithReviews,
+  ReviewStatistics,
+} from "../types";
+import { usePaginatedReviews } from "./usePaginatedReviews";
+
+export const useContractorReviews = (contractorId: string, page: number) => {
+  const { reviews, meta, isLoading, error, refetch } = usePaginatedReviews(
+    contractorId,
+    page,
+    reviewApi.getContractorReviews
+  );
+  const [statistics, setStatistics] = useState<ReviewStatistics | null>(null);
+  const [projects, setProjects] = useState<ProjectWithReviews[]>([]);
+  const [performance, setPerformance] = useState<ProjectTypePerformance[]>(
+    []
+  );
+
+  // The summary doesn't change between pages of reviews
+  const fetchSummary = useCallback(async () => {
+    if (!contractorId) return;
+
+    const [statisticsResponse, projectsResponse, performanceResponse] =
+      await Promise.all([
+        reviewApi.getContractorStatistics(contractorId),
+        reviewApi.getContractorProjects(contractorId),
+        reviewApi.getContractorPerformance(contractorId),
+      ]);
+
+    const summary = statisticsResponse.data || statisticsResponse.response;
+    setStatistics(statisticsResponse.success && summary ? summary : null);
+    if (projectsResponse.success) {
+      setProjects(projectsResponse.data || projectsResponse.response || []);
+    }
+    if (performanceResponse.success) {
+      setPerformance(
+        performanceResponse.data || performanceResponse.response || []
+      );
+    }
+  }, [contractorId]);
+
+  useEffect(() => {
+    fetchSummary();
+  }, [fetchSummary]);
+
+  return {
+    reviews,
+    meta,
+    statistics,
+    projects,
+    performance,
+    isLoading,
+    error,
+    refetch,
+  };
+};
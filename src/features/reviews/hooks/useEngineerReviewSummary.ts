@@ -0,0 +1,32 @@
+"use client";
+import { useCallback, useEffect, useState } from "react";
+import { reviewApi } from "../services/reviewApi";
+import { ReviewDashboardSummary } from "../types";
+
+export const useEngineerReviewSummary = (engineerId?: string) => {
+  const [summary, setSummary] = useState<ReviewDashboardSummary | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSummary = useCallback(async () => {
+    if (!engineerId) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    const response = await reviewApi.getEngineerDashboardSummary(engineerId);
+    if (response.success) {
+      setSummary(response.data || response.response || null);
+    } else {
+      setError(response.message || null);
+    }
+
+    setIsLoading(false);
+  }, [engineerId]);
+
+  useEffect(() => {
+    fetchSummary();
+  }, [fetchSummary]);
+
+  return { summary, isLoading, error, refetch: fetchSummary };
+};
@@ -0,0 +1,64 @@
+"use client";
+import { useCallback, useEffect, useState } from "react";
+import { reviewApi } from "../services/reviewApi";
+import {
+  EngineeringTypePerformance,
+  ReviewStatistics,
+  ServiceRequestWithReviews,
+} from "../types";
+import { usePaginatedReviews } from "./usePaginatedReviews";
+
+export const useEngineerReviews = (engineerId: string, page: number) => {
+  const { reviews, meta, isLoading, error, refetch } = usePaginatedReviews(
+    engineerId,
+    page,
+    reviewApi.getEngineerReviews
+  );
+  const [statistics, setStatistics] = useState<ReviewStatistics | null>(null);
+  const [serviceRequests, setServiceRequests] = useState<
+    ServiceRequestWithReviews[]
+  >([]);
+  const [performance, setPerformance] = useState<
+    EngineeringTypePerformance[]
+  >([]);
+
+  // The summary doesn't change between pages of reviews
+  const fetchSummary = useCallback(async () => {
+    if (!engineerId) return;
+
+    const [statisticsResponse, requestsResponse, performanceResponse] =
+      await Promise.all([
+        reviewApi.getEngineerStatistics(engineerId),
+        reviewApi.getEngineerServiceRequests(engineerId),
+        reviewApi.getEngineerPerformance(engineerId),
+      ]);
+
+    const summary = statisticsResponse.data || statisticsResponse.response;
+    setStatistics(statisticsResponse.success && summary ? summary : null);
+    if (requestsResponse.success) {
+      setServiceRequests(
+        requestsResponse.data || requestsResponse.response || []
+      );
+    }
+    if (performanceResponse.success) {
+      setPerformance(
+        performanceResponse.data || performanceResponse.response || []
+      );
+    }
+  }, [engineerId]);
+
+  useEffect(() => {
+    fetchSummary();
+  }, [fetchSummary]);
+
+  return {
+    reviews,
+    meta,
+    statistics,
+    serviceRequests,
+    performance,
+    isLoading,
+    error,
+    refetch,
+  };
+};
@@ -0,0 +1,92 @@
+"use client";
+import { useCallback, useEffect, useState } from "react";
+import { reviewApi } from "../services/reviewApi";
+import {
+  Review,
+  ReviewCriterion,
+  ReviewEligibility,
+  ReviewSubject,
+} from "../types";
+import { ReviewFormValues } from "../utils/validation";
+import { toReviewPayload } from "../utils/reviews";
+
+type ActionResult = { success: boolean; message?: string };
+
+/**
+ * The user's review of a closed project, completed service request or
+ * purchased product: whether they may write one, the criteria to score
+ * and the review they already left
+ */
+export const useMyReview = (subject: ReviewSubject, subjectId: string) => {
+  const [eligibility, setEligibility] = useState<ReviewEligibility | null>(
+    null
+  );
+  const [criteria, setCriteria] = useState<ReviewCriterion[]>([]);
+  const [review, setReview] = useState<Review | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchReview = useCallback(async () => {
+    if (!subjectId) return;
+
+    setIsLoading(true);
+
+    const [eligibilityResponse, reviewResponse] = await Promise.all([
+      reviewApi.canReview(subject, subjectId),
+      reviewApi.getMyReview(subject, subjectId),
+    ]);
+    const canReview =
+      eligibilityResponse.data || eligibilityResponse.response || null;
+    const myReview = reviewResponse.data || reviewResponse.response || null;
+    setEligibility(eligibilityResponse.success ? canReview : null);
+    setReview(reviewResponse.success ? myReview : null);
+
+    // Criteria are only needed when there is a form to show
+    if (canReview?.can_review || myReview) {
+      const criteriaResponse = await reviewApi.getCriteria(subject);
+      if (criteriaResponse.success) {
+        setCriteria(criteriaResponse.data || criteriaResponse.response || []);
+      }
+    }
+
+    setIsLoading(false);
+  }, [subject, subjectId]);
+
+  useEffect(() => {
+    fetchReview();
+  }, [fetchReview]);
+
+  const submit = useCallback(
+    async (values: ReviewFormValues): Promise<ActionResult> => {
+      setIsSaving(true);
+
+      const payload = toReviewPayload(values, criteria);
+      const response = review
+        ? await reviewApi.updateReview(subject, review.id, payload)
+        : await reviewApi.createReview(subject, subjectId, payload);
+      if (response.success) {
+        const saved = response.data || response.response;
+        if (saved) {
+          setReview(saved);
+          setEligibility({ can_review: false });
+        } else {
+          await fetchReview();
+        }
+      }
+
+      setIsSaving(false);
+      return { success: response.success, message: response.message };
+    },
+    [subject, subjectId, criteria, review, fetchReview]
+  );
+
+  return {
+    canReview: Boolean(eligibility?.can_review),
+    criteria,
+    review,
+    isLoading,
+    isSaving,
+    refetch: fetchReview,
+    submit,
+  };
+};
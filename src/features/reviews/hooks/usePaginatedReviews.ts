@@ -0,0 +1,54 @@
+"use client";
+import { useCallback, useEffect, useState } from "react";
+import { ApiResponse, PaginationMeta } from "@/lib/apiClient";
+import { Review, ReviewFilters } from "../types";
+import { REVIEWS_PAGE_SIZE } from "../constants";
+
+type ReviewPageLoader = (
+  subjectId: string,
+  filters: ReviewFilters
+) => Promise<ApiResponse<Review[]>>;
+
+/**
+ * One page of the reviews of a contractor, engineer or product. `loadPage`
+ * must keep its identity between renders, e.g. a reviewApi method.
+ */
+export const usePaginatedReviews = (
+  subjectId: string,
+  page: number,
+  loadPage: ReviewPageLoader
+) => {
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [meta, setMeta] = useState<PaginationMeta | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchReviews = useCallback(async () => {
+    if (!subjectId) {
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    const response = await loadPage(subjectId, {
+      page,
+      per_page: REVIEWS_PAGE_SIZE,
+    });
+    if (response.success) {
+      setReviews(response.data || response.response || []);
+      setMeta(response.meta ?? null);
+    } else {
+      setError(response.message || null);
+    }
+
+    setIsLoading(false);
+  }, [subjectId, page, loadPage]);
+
+  useEffect(() => {
+    fetchReviews();
+  }, [fetchReviews]);
+
+  return { reviews, meta, isLoading, error, refetch: fetchReviews };
+};
@@ -0,0 +1,42 @@
+"use client";
+import { useCallback, useEffect, useState } from "react";
+import { reviewApi } from "../services/reviewApi";
+import { ReviewStatistics } from "../types";
+import { usePaginatedReviews } from "./usePaginatedReviews";
+
+export const useProductReviews = (productId: string, page: number) => {
+  const { reviews, meta, isLoading, error, refetch } = usePaginatedReviews(
+    productId,
+    page,
+    reviewApi.getProductReviews
+  );
+  const [statistics, setStatistics] = useState<ReviewStatistics | null>(null);
+
+  // The summary doesn't change between pages of reviews
+  const fetchStatistics = useCallback(async () => {
+    if (!productId) return;
+
+    const response = await reviewApi.getProductStatistics(productId);
+    const summary = response.data || response.response;
+    setStatistics(response.success && summary ? summary : null);
+  }, [productId]);
+
+  useEffect(() => {
+    fetchStatistics();
+  }, [fetchStatistics]);
+
+  // A new or edited review of the buyer changes both the list and the average
+  const refresh = useCallback(async () => {
+    await Promise.all([refetch(), fetchStatistics()]);
+  }, [refetch, fetchStatistics]);
+
+  return {
+    reviews,
+    meta,
+    statistics,
+    isLoading,
+    error,
+    refetch,
+    refresh,
+  };
+};
@@ -0,0 +1,51 @@
+"use client";
+import { useCallback, useState } from "react";
+import { reviewApi } from "../services/reviewApi";
+import { ReviewFlagPayload } from "../types";
+
+type ActionResult = { success: boolean; message?: string };
+
+/**
+ * Helpful votes and reports the viewer sent during this visit, so a review
+ * can't be voted on or flagged twice from the same list
+ */
+export const useReviewFeedback = () => {
+  const [votes, setVotes] = useState<Record<number, boolean>>({});
+  const [flaggedIds, setFlaggedIds] = useState<number[]>([]);
+  const [pendingId, setPendingId] = useState<number | null>(null);
+
+  const vote = useCallback(
+    async (reviewId: number, isHelpful: boolean): Promise<ActionResult> => {
+      setPendingId(reviewId);
+
+      const response = await reviewApi.voteReview(reviewId, isHelpful);
+      if (response.success) {
+        setVotes((current) => ({ ...current, [reviewId]: isHelpful }));
+      }
+
+      setPendingId(null);
+      return { success: response.success, message: response.message };
+    },
+    []
+  );
+
+  const flag = useCallback(
+    async (
+      reviewId: number,
+      payload: ReviewFlagPayload
+    ): Promise<ActionResult> => {
+      setPendingId(reviewId);
+
+      const response = await reviewApi.flagReview(reviewId, payload);
+      if (response.success) {
+        setFlaggedIds((current) => [...current, reviewId]);
+      }
+
+      setPendingId(null);
+      return { success: response.success, message: response.message };
+    },
+    []
+  );
+
+  return { votes, flaggedIds, pendingId, vote, flag };
+};
@@ -0,0 +1,38 @@
+"use client";
+import { useEffect, useState } from "react";
+import { reviewApi } from "../services/reviewApi";
+import { ProductWithReviews } from "../types";
+
+/**
+ * Rating summaries of a supplier's products keyed by product id, loaded once
+ * for a whole product list. Failures are silent, a card without a rating
+ * simply shows none.
+ */
+export const useSupplierProductRatings = (supplierId?: string) => {
+  const [ratings, setRatings] = useState<Record<string, ProductWithReviews>>(
+    {}
+  );
+
+  useEffect(() => {
+    if (!supplierId) return;
+
+    let isActive = true;
+
+    reviewApi.getSupplierProducts(supplierId).then((response) => {
+      if (!isActive || !response.success) return;
+
+      const products = response.data || response.response || [];
+      setRatings(
+        Object.fromEntries(
+          products.map((product) => [String(product.id), product])
+        )
+      );
+    });
+
+    return () => {
+      isActive = false;
+    };
+  }, [supplierId]);
+
+  return { ratings };
+};
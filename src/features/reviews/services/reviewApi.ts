@@ -0,0 +1,254 @@
+import { ApiResponse, RequestConfig } from "@/lib/apiClient";
+import * as sdk from "@/lib/sdk";
+import {
+  EngineeringTypePerformance,
+  ProductWithReviews,
+  ProjectTypePerformance,
+  ProjectWithReviews,
+  Review,
+  ReviewCriterion,
+  ReviewDashboardSummary,
+  ReviewEligibility,
+  ReviewFilters,
+  ReviewFlagPayload,
+  ReviewPayload,
+  ReviewStatistics,
+  ReviewSubject,
+  ServiceRequestWithReviews,
+} from "../types";
+
+// api.json doesn't document paging on the review lists, axios adds it as
+// query params
+const withFilters = (filters: ReviewFilters = {}): RequestConfig => ({
+  params: filters,
+});
+
+type ReviewSubjectOperations = {
+  canReview: (subjectId: string) => Promise<ApiResponse<ReviewEligibility>>;
+  myReview: (subjectId: string) => Promise<ApiResponse<Review>>;
+  criteria: () => Promise<ApiResponse<ReviewCriterion[]>>;
+  create: (
+    subjectId: string,
+    payload: ReviewPayload
+  ) => Promise<ApiResponse<Review>>;
+  update: (
+    reviewId: number,
+    payload: ReviewPayload
+  ) => Promise<ApiResponse<Review>>;
+};
+
+/** Review operations of each subject, they all take the same payload */
+const REVIEW_SUBJECT_OPERATIONS: Record<ReviewSubject, ReviewSubjectOperations> =
+  {
+    project: {
+      canReview: sdk.canUserReviewProject,
+      myReview: sdk.getUserReviewForProject,
+      criteria: sdk.getProjectCriteriaWithDetails,
+      create: sdk.createProjectReview,
+      update: sdk.updateProjectReview,
+    },
+    serviceRequest: {
+      canReview: sdk.canUserReviewServiceRequest,
+      myReview: sdk.getUserReviewForServiceRequest,
+      criteria: sdk.getServiceRequestCriteriaWithDetails,
+      create: sdk.createServiceRequestReview,
+      update: sdk.updateServiceRequestReview,
+    },
+    product: {
+      canReview: sdk.canUserReviewProduct,
+      myReview: sdk.getUserReviewForProduct,
+      criteria: sdk.getProductCriteriaWithDetails,
+      create: sdk.createProductReview,
+      update: sdk.updateProductReview,
+    },
+  };
+
+/**
+ * Review API Service
+ * Public ratings of contractors, engineers and suppliers, and the reviews
+ * clients leave on projects, service requests and products
+ */
+class ReviewApiService {
+  /**
+   * Get a page of the reviews left on a contractor's projects
+   */
+  async getContractorReviews(
+    contractorId: string,
+    filters?: ReviewFilters
+  ): Promise<ApiResponse<Review[]>> {
+    return sdk.getContractorReviews<Review[]>(
+      contractorId,
+      withFilters(filters)
+    );
+  }
+
+  async getContractorStatistics(
+    contractorId: string
+  ): Promise<ApiResponse<ReviewStatistics>> {
+    return sdk.getContractorStatistics<ReviewStatistics>(contractorId);
+  }
+
+  async getContractorProjects(
+    contractorId: string
+  ): Promise<ApiResponse<ProjectWithReviews[]>> {
+    return sdk.getContractorProjectsWithReviews<ProjectWithReviews[]>(
+      contractorId
+    );
+  }
+
+  async getContractorPerformance(
+    contractorId: string
+  ): Promise<ApiResponse<ProjectTypePerformance[]>> {
+    return sdk.getContractorPerformanceByProjectType<
+      ProjectTypePerformance[]
+    >(contractorId);
+  }
+
+  /**
+   * Get a page of the reviews left on an engineer's service requests
+   */
+  async getEngineerReviews(
+    engineerId: string,
+    filters?: ReviewFilters
+  ): Promise<ApiResponse<Review[]>> {
+    return sdk.getEngineerReviews<Review[]>(engineerId, withFilters(filters));
+  }
+
+  async getEngineerStatistics(
+    engineerId: string
+  ): Promise<ApiResponse<ReviewStatistics>> {
+    return sdk.getEngineerStatistics<ReviewStatistics>(engineerId);
+  }
+
+  async getEngineerServiceRequests(
+    engineerId: string
+  ): Promise<ApiResponse<ServiceRequestWithReviews[]>> {
+    return sdk.getEngineerServiceRequestsWithReviews<
+      ServiceRequestWithReviews[]
+    >(engineerId);
+  }
+
+  async getEngineerPerformance(
+    engineerId: string
+  ): Promise<ApiResponse<EngineeringTypePerformance[]>> {
+    return sdk.getEngineerPerformanceByEngineeringType<
+      EngineeringTypePerformance[]
+    >(engineerId);
+  }
+
+  async getEngineerDashboardSummary(
+    engineerId: string
+  ): Promise<ApiResponse<ReviewDashboardSummary>> {
+    return sdk.getEngineerDashboardSummary<ReviewDashboardSummary>(
+      engineerId
+    );
+  }
+
+  /**
+   * Get a page of the reviews buyers left on a product
+   */
+  async getProductReviews(
+    productId: string,
+    filters?: ReviewFilters
+  ): Promise<ApiResponse<Review[]>> {
+    return sdk.getProductReviews<Review[]>(productId, withFilters(filters));
+  }
+
+  async getProductStatistics(
+    productId: string
+  ): Promise<ApiResponse<ReviewStatistics>> {
+    return sdk.getProductReviewStatistics<ReviewStatistics>(productId);
+  }
+
+  /**
+   * Ratings across all of a supplier's products
+   */
+  async getSupplierStatistics(
+    supplierId: string
+  ): Promise<ApiResponse<ReviewStatistics>> {
+    return sdk.getSupplierStatistics<ReviewStatistics>(supplierId);
+  }
+
+  /**
+   * Rating summary of each of a supplier's products, one request for a
+   * whole product list
+   */
+  async getSupplierProducts(
+    supplierId: string
+  ): Promise<ApiResponse<ProductWithReviews[]>> {
+    return sdk.getSupplierProductsWithReviews<ProductWithReviews[]>(supplierId);
+  }
+
+  async getSupplierDashboardSummary(
+    supplierId: string
+  ): Promise<ApiResponse<ReviewDashboardSummary>> {
+    return sdk.getSupplierDashboardSummary<ReviewDashboardSummary>(
+      supplierId
+    );
+  }
+
+  /**
+   * Whether the signed-in user may review the subject, only finished work
+   * or a purchased product without a review qualifies
+   */
+  async canReview(
+    subject: ReviewSubject,
+    subjectId: string
+  ): Promise<ApiResponse<ReviewEligibility>> {
+    return REVIEW_SUBJECT_OPERATIONS[subject].canReview(subjectId);
+  }
+
+  async getMyReview(
+    subject: ReviewSubject,
+    subjectId: string
+  ): Promise<ApiResponse<Review>> {
+    return REVIEW_SUBJECT_OPERATIONS[subject].myReview(subjectId);
+  }
+
+  async getCriteria(
+    subject: ReviewSubject
+  ): Promise<ApiResponse<ReviewCriterion[]>> {
+    return REVIEW_SUBJECT_OPERATIONS[subject].criteria();
+  }
+
+  async createReview(
+    subject: ReviewSubject,
+    subjectId: string,
+    payload: ReviewPayload
+  ): Promise<ApiResponse<Review>> {
+    return REVIEW_SUBJECT_OPERATIONS[subject].create(subjectId, payload);
+  }
+
+  async updateReview(
+    subject: ReviewSubject,
+    reviewId: number,
+    payload: ReviewPayload
+  ): Promise<ApiResponse<Review>> {
+    return REVIEW_SUBJECT_OPERATIONS[subject].update(reviewId, payload);
+  }
+
+  /**
+   * Mark someone else's review as helpful or not
+   */
+  async voteReview(
+    reviewId: number,
+    isHelpful: boolean
+  ): Promise<ApiResponse<{ review_id: number }>> {
+    return sdk.voteOnReview<{ review_id: number }>(reviewId, {
+      is_helpful: isHelpful,
+    });
+  }
+
+  /**
+   * Report a review for moderation
+   */
+  async flagReview(
+    reviewId: number,
+    payload: ReviewFlagPayload
+  ): Promise<ApiResponse<{ review_id: number }>> {
+    return sdk.flagReview<{ review_id: number }>(reviewId, payload);
+  }
+}
+
+/** Singleton instance of the ReviewApiService */
+export const reviewApi = new ReviewApiService();
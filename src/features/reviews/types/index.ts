@@ -0,0 +1,22 @@
+export type {
+  ReviewSubject,
+  RatingValue,
+  ReviewFlagReason,
+  ReviewAuthor,
+  ReviewScore,
+  Review,
+  ReviewCriterion,
+  CriterionAverage,
+  ReviewStatistics,
+  ProjectWithReviews,
+  ProductWithReviews,
+  ProjectTypePerformance,
+  ServiceRequestWithReviews,
+  EngineeringTypePerformance,
+  ReviewDashboardSummary,
+  ReviewEligibility,
+  ReviewScorePayload,
+  ReviewPayload,
+  ReviewFlagPayload,
+  ReviewFilters,
+} from "./review";
@@ -0,0 +1,144 @@
+/** What an owner or client reviews once the work is done */
+export type ReviewSubject = "project" | "serviceRequest" | "product";
+
+/** Star values a review or criterion can be given */
+export type RatingValue = 1 | 2 | 3 | 4 | 5;
+
+export type ReviewFlagReason =
+  | "inappropriate"
+  | "spam"
+  | "offensive"
+  | "fake"
+  | "other";
+
+export interface ReviewAuthor {
+  id: number;
+  name: string;
+  avatar?: string | null;
+}
+
+export interface ReviewScore {
+  criterion_id: number;
+  code?: string;
+  name?: string;
+  score: number | string;
+}
+
+/** A review of a project or service request, as the reviews API returns it */
+export interface Review {
+  id: number;
+  title: string;
+  body: string;
+  overall_rating: number | string;
+  is_anonymous?: boolean;
+  reviewer?: ReviewAuthor | null;
+  scores?: ReviewScore[];
+  helpful_count?: number;
+  not_helpful_count?: number;
+  project?: { id: number; title: string } | null;
+  service_request?: { id: number; title: string } | null;
+  product?: { id: number; name: string } | null;
+  created_at: string;
+  updated_at?: string;
+}
+
+/** A scoring criterion, from the criteria-with-details endpoints */
+export interface ReviewCriterion {
+  criterion_id: number;
+  code: string;
+  name: string;
+  weight: number;
+  is_required: boolean;
+  description?: string | null;
+  subject_type?: string;
+  user_type?: string;
+}
+
+export interface CriterionAverage {
+  criterion_id: number;
+  code?: string;
+  name: string;
+  average_score: number | string;
+}
+
+export interface ReviewStatistics {
+  average_rating: number | string | null;
+  total_reviews: number;
+  rating_distribution?: Partial<Record<RatingValue, number>>;
+  criteria_averages?: CriterionAverage[];
+}
+
+export interface ProjectWithReviews {
+  id: number;
+  title: string;
+  project_type?: string | null;
+  reviews_count: number;
+  average_rating: number | string | null;
+}
+
+export interface ProductWithReviews {
+  id: number;
+  name?: string;
+  reviews_count: number;
+  average_rating: number | string | null;
+}
+
+export interface ProjectTypePerformance {
+  project_type: string;
+  projects_count: number;
+  reviews_count: number;
+  average_rating: number | string | null;
+}
+
+export interface ServiceRequestWithReviews {
+  id: number;
+  title: string;
+  engineering_type?: string | null;
+  reviews_count: number;
+  average_rating: number | string | null;
+}
+
+export interface EngineeringTypePerformance {
+  engineering_type: string;
+  service_requests_count: number;
+  reviews_count: number;
+  average_rating: number | string | null;
+}
+
+/** Rating overview shown on a reviewee's dashboard */
+export interface ReviewDashboardSummary {
+  average_rating: number | string | null;
+  total_reviews: number;
+  reviews_this_month?: number;
+  rating_change?: number | string | null;
+  recent_reviews?: Review[];
+}
+
+export interface ReviewEligibility {
+  can_review: boolean;
+  reason?: string | null;
+}
+
+export interface ReviewScorePayload {
+  criterion_id: number;
+  score: number;
+}
+
+// Request body for POST/PUT of a review
+export interface ReviewPayload {
+  title: string;
+  body: string;
+  overall_rating: number;
+  is_anonymous?: boolean;
+  scores: ReviewScorePayload[];
+}
+
+export interface ReviewFlagPayload {
+  reason: ReviewFlagReason;
+  note?: string;
+}
+
+export interface ReviewFilters {
+  page?: number;
+  per_page?: number;
+}
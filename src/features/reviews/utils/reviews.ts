@@ -0,0 +1,81 @@
+import {
+  RatingValue,
+  Review,
+  ReviewCriterion,
+  ReviewPayload,
+  ReviewStatistics,
+} from "../types";
+import { ReviewFormValues } from "./validation";
+
+/** Ratings arrive as numbers or decimal strings, missing ones count as 0 */
+export const toRating = (value: number | string | null | undefined) => {
+  const rating = Number(value);
+  return Number.isFinite(rating) ? rating : 0;
+};
+
+export const formatRating = (value: number | string | null | undefined) =>
+  toRating(value).toFixed(1);
+
+/**
+ * Weighted average of the scored criteria, rounded to one decimal like the
+ * ratings the API returns
+ */
+export const computeOverallRating = (
+  scores: ReviewFormValues["scores"],
+  criteria: ReviewCriterion[]
+) => {
+  const { total, weights } = criteria.reduce(
+    (sum, criterion) => {
+      const score = scores[String(criterion.criterion_id)] ?? 0;
+      if (!score) return sum;
+      const weight = criterion.weight || 1;
+      return { total: sum.total + score * weight, weights: sum.weights + weight };
+    },
+    { total: 0, weights: 0 }
+  );
+
+  return weights ? Math.round((total / weights) * 10) / 10 : 0;
+};
+
+/** Share of the reviews that gave the rating, as a percentage */
+export const getDistributionShare = (
+  statistics: ReviewStatistics,
+  rating: RatingValue
+) => {
+  const count = statistics.rating_distribution?.[rating] ?? 0;
+  return statistics.total_reviews
+    ? Math.round((count / statistics.total_reviews) * 100)
+    : 0;
+};
+
+export const toReviewFormValues = (review?: Review | null): ReviewFormValues => ({
+  title: review?.title ?? "",
+  body: review?.body ?? "",
+  is_anonymous: review?.is_anonymous ?? false,
+  scores: Object.fromEntries(
+    (review?.scores ?? []).map((score) => [
+      String(score.criterion_id),
+      toRating(score.score),
+    ])
+  ),
+});
+
+// Unscored optional criteria are left out instead of sent as 0
+export const toReviewPayload = (
+  values: ReviewFormValues,
+  criteria: ReviewCriterion[]
+): ReviewPayload => ({
+  title: values.title.trim(),
+  body: values.body.trim(),
+  is_anonymous: values.is_anonymous,
+  overall_rating: computeOverallRating(values.scores, criteria),
+  scores: criteria
+    .filter((criterion) => values.scores[String(criterion.criterion_id)])
+    .map((criterion) => ({
+      criterion_id: criterion.criterion_id,
+      score: values.scores[String(criterion.criterion_id)],
+    })),
+});
+
+export const getContractorReviewsPath = (role: string, contractorId: string) =>
+  `/dashboard/${role}/contractors/${contractorId}/reviews`;
@@ -0,0 +1,65 @@
+"use client";
+import { z } from "zod";
+import { getReviewValidationMessages } from "./validationMessages";
+import { ReviewCriterion } from "../types";
+import { REVIEW_LIMITS } from "../constants";
+
+export const createReviewValidationSchemas = (
+  t: (key: string) => string,
+  criteria: ReviewCriterion[]
+) => {
+  const messages = getReviewValidationMessages(t);
+
+  const ReviewSchema = z
+    .object({
+      title: z
+        .string()
+        .trim()
+        .min(1, messages.title.required)
+        .max(REVIEW_LIMITS.titleMax, messages.title.maxLength),
+      body: z
+        .string()
+        .trim()
+        .min(REVIEW_LIMITS.bodyMin, messages.body.minLength)
+        .max(REVIEW_LIMITS.bodyMax, messages.body.maxLength),
+      is_anonymous: z.boolean(),
+      // Keyed by criterion id, 0 while a criterion has no stars yet
+      scores: z.record(z.string(), z.number().min(0).max(5)),
+    })
+    .refine(
+      (values) =>
+        criteria.every(
+          (criterion) =>
+            !criterion.is_required ||
+            values.scores[String(criterion.criterion_id)] > 0
+        ) && Object.values(values.scores).some((score) => score > 0),
+      { message: messages.scores.required, path: ["scores"] }
+    );
+
+  return { ReviewSchema };
+};
+
+export type ReviewFormValues = z.infer<
+  ReturnType<typeof createReviewValidationSchemas>["ReviewSchema"]
+>;
+
+export const createFlagValidationSchemas = (t: (key: string) => string) => {
+  const messages = getReviewValidationMessages(t);
+
+  const FlagSchema = z.object({
+    reason: z.enum(
+      ["inappropriate", "spam", "offensive", "fake", "other"],
+      messages.reason.required
+    ),
+    note: z
+      .string()
+      .trim()
+      .max(REVIEW_LIMITS.flagNoteMax, messages.note.maxLength),
+  });
+
+  return { FlagSchema };
+};
+
+export type FlagFormValues = z.infer<
+  ReturnType<typeof createFlagValidationSchemas>["FlagSchema"]
+>;
@@ -0,0 +1,20 @@
+"use client";
+export const getReviewValidationMessages = (t: (key: string) => string) => ({
+  title: {
+    required: t("feedback.validation.review.title.required"),
+    maxLength: t("feedback.validation.review.title.maxLength"),
+  },
+  body: {
+    minLength: t("feedback.validation.review.body.minLength"),
+    maxLength: t("feedback.validation.review.body.maxLength"),
+  },
+  scores: {
+    required: t("feedback.validation.review.scores.required"),
+  },
+  reason: {
+    required: t("feedback.validation.review.reason.required"),
+  },
+  note: {
+    maxLength: t("feedback.validation.review.note.maxLength"),
+  },
+});
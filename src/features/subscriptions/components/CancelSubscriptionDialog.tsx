@@ -0,0 +1,81 @@
+"use client";
+import React, { useState } from "react";
+import { useTranslations } from "next-intl";
+import { Loader2 } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/shared/components/ui/alert-dialog";
+import { Button } from "@/shared/components/ui/button";
+import { Label } from "@/shared/components/ui/label";
+import { Textarea } from "@/shared/components/ui/textarea";
+import { useLocale } from "@/hooks/useLocale";
+import { SUBSCRIPTION_LIMITS } from "../constants";
+
+interface CancelSubscriptionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  endsAt?: string | null;
+  isSubmitting?: boolean;
+  onConfirm: (reason?: string) => void;
+}
+
+export function CancelSubscriptionDialog({
+  open,
+  onOpenChange,
+  endsAt,
+  isSubmitting,
+  onConfirm,
+}: CancelSubscriptionDialogProps) {
+  const t = useTranslations("subscriptions.cancel");
+  const tCommon = useTranslations("common");
+  const { currentLocale } = useLocale();
+  const [reason, setReason] = useState("");
+
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>{t("title")}</AlertDialogTitle>
+          <AlertDialogDescription>
+            {endsAt
+              ? t("descriptionUntil", {
+                  date: new Date(endsAt).toLocaleDateString(currentLocale),
+                })
+              : t("description")}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="cancel-subscription-reason">{t("reasonLabel")}</Label>
+          <Textarea
+            id="cancel-subscription-reason"
+            value={reason}
+            maxLength={SUBSCRIPTION_LIMITS.cancelReasonMax}
+            placeholder={t("reasonPlaceholder")}
+            onChange={(event) => setReason(event.target.value)}
+          />
+        </div>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isSubmitting}>
+            {tCommon("actions.cancel")}
+          </AlertDialogCancel>
+          <Button
+            variant="destructive"
+            disabled={isSubmitting}
+            onClick={() => onConfirm(reason.trim() || undefined)}
+          >
+            {isSubmitting && <Loader2 className="me-2 h-4 w-4 animate-spin" />}
+            {t("confirm")}
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,235 @@
+"use client";
+import React, { useState } from "react";
+import Link from "next/link";
+import { useTranslations } from "next-intl";
+import { CalendarClock, Loader2, RefreshCw } from "lucide-react";
+import toast from "react-hot-toast";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/shared/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/shared/components/ui/alert-dialog";
+import { Button } from "@/shared/components/ui/button";
+import { ErrorState } from "@/shared/components/ui/ErrorState";
+import { Progress } from "@/shared/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useLocale } from "@/hooks/useLocale";
+import { useCurrentSubscription } from "../hooks/useCurrentSubscription";
+import { useFeatureLabel } from "../hooks/useFeatureLabel";
+import { SubscriptionRole } from "../types";
+import {
+  canCancelSubscription,
+  canRenewSubscription,
+  getLocalizedText,
+  getRemainingDays,
+  getSubscriptionPath,
+  isRenewalDue,
+} from "../utils/subscriptions";
+import { CancelSubscriptionDialog } from "./CancelSubscriptionDialog";
+import { SubscriptionStatusBadge } from "./SubscriptionStatusBadge";
+
+/**
+ * Settings summary of the current plan: quota left, renewal date and the
+ * renew and cancel actions
+ */
+export function CurrentPlanCard({ role }: { role: SubscriptionRole }) {
+  const t = useTranslations("subscriptions.current");
+  const tCommon = useTranslations("common");
+  const { currentLocale } = useLocale();
+  const featureLabel = useFeatureLabel();
+  const {
+    subscription,
+    quota,
+    isLoading,
+    isSaving,
+    error,
+    refetch,
+    renew,
+    cancel,
+  } = useCurrentSubscription();
+  const [isRenewOpen, setIsRenewOpen] = useState(false);
+  const [isCancelOpen, setIsCancelOpen] = useState(false);
+
+  if (isLoading) {
+    return <Skeleton className="h-40 w-full" />;
+  }
+
+  if (error) {
+    return (
+      <ErrorState
+        variant="inline"
+        title={t("loadError")}
+        error={error}
+        onRetry={refetch}
+      />
+    );
+  }
+
+  const plansLink = (
+    <Button asChild variant="outline" size="sm">
+      <Link href={getSubscriptionPath(role)}>
+        {subscription ? t("changePlan") : t("choosePlan")}
+      </Link>
+    </Button>
+  );
+
+  if (!subscription) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>{t("title")}</CardTitle>
+          <CardDescription>{t("empty")}</CardDescription>
+        </CardHeader>
+        <CardFooter>{plansLink}</CardFooter>
+      </Card>
+    );
+  }
+
+  const remainingDays = getRemainingDays(subscription);
+  const isCancelled = subscription.status === "cancelled";
+
+  const handleRenew = async () => {
+    const result = await renew();
+    if (result.success) {
+      toast.success(result.message || t("renewSuccess"));
+      setIsRenewOpen(false);
+    } else {
+      toast.error(result.message || t("renewError"));
+    }
+  };
+
+  const handleCancel = async (reason?: string) => {
+    const result = await cancel(reason);
+    if (result.success) {
+      toast.success(result.message || t("cancelSuccess"));
+      setIsCancelOpen(false);
+    } else {
+      toast.error(result.message || t("cancelError"));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="space-y-2">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle>
+            {getLocalizedText(subscription.plan.name, currentLocale)}
+          </CardTitle>
+          <SubscriptionStatusBadge status={subscription.status} />
+        </div>
+        {subscription.ends_at && (
+          <CardDescription className="flex items-center gap-2">
+            <CalendarClock className="h-4 w-4" />
+            {t(isCancelled ? "endsOn" : "renewsOn", {
+              date: new Date(subscription.ends_at).toLocaleDateString(
+                currentLocale
+              ),
+            })}
+            {remainingDays !== null && (
+              <span
+                className={
+                  isRenewalDue(subscription) ? "text-orange-600" : undefined
+                }
+              >
+                ({t("remainingDays", { count: remainingDays })})
+              </span>
+            )}
+          </CardDescription>
+        )}
+      </CardHeader>
+
+      {quota.length > 0 && (
+        <CardContent className="space-y-4">
+          {quota.map((item) => (
+            <div key={item.key} className="space-y-1">
+              <div className="flex justify-between text-sm">
+                <span>{featureLabel(item.key)}</span>
+                <span className="text-muted-foreground">
+                  {t("remaining", {
+                    remaining: item.remaining,
+                    limit: item.limit,
+                  })}
+                </span>
+              </div>
+              <Progress
+                value={item.limit ? (item.used / item.limit) * 100 : 100}
+              />
+            </div>
+          ))}
+        </CardContent>
+      )}
+
+      <CardFooter className="flex flex-wrap gap-2">
+        {plansLink}
+        {canRenewSubscription(subscription) && (
+          <Button
+            size="sm"
+            disabled={isSaving}
+            onClick={() => setIsRenewOpen(true)}
+          >
+            <RefreshCw className="me-2 h-4 w-4" />
+            {t("renew")}
+          </Button>
+        )}
+        {canCancelSubscription(subscription) && (
+          <Button
+            size="sm"
+            variant="ghost"
+            className="text-red-600"
+            disabled={isSaving}
+            onClick={() => setIsCancelOpen(true)}
+          >
+            {t("cancel")}
+          </Button>
+        )}
+      </CardFooter>
+
+      <AlertDialog open={isRenewOpen} onOpenChange={setIsRenewOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t("renewTitle")}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t("renewDescription")}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isSaving}>
+              {tCommon("actions.cancel")}
+            </AlertDialogCancel>
+            <AlertDialogAction
+              disabled={isSaving}
+              onClick={(event) => {
+                event.preventDefault();
+                handleRenew();
+              }}
+            >
+              {isSaving && <Loader2 className="me-2 h-4 w-4 animate-spin" />}
+              {t("renew")}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <CancelSubscriptionDialog
+        open={isCancelOpen}
+        onOpenChange={setIsCancelOpen}
+        endsAt={subscription.ends_at}
+        isSubmitting={isSaving}
+        onConfirm={handleCancel}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,48 @@
+"use client";
+import React from "react";
+import { useEntitlement } from "../hooks/useEntitlement";
+import { EntitlementFeature } from "../types";
+import { EntitlementNotice } from "./EntitlementNotice";
+
+interface EntitledProps {
+  feature: EntitlementFeature;
+  // Skips the check where the rule doesn't apply, e.g. the project owner
+  enabled?: boolean;
+  children: React.ReactNode | ((state: { allowed: boolean }) => React.ReactNode);
+  noticeClassName?: string;
+}
+
+/**
+ * Gates an action on the current plan. Render-prop children disable
+ * their own controls, plain children are made inert. Either way the
+ * reason and an upgrade link are shown while the feature is denied.
+ */
+export function Entitled({
+  feature,
+  enabled = true,
+  children,
+  noticeClassName,
+}: EntitledProps) {
+  const { allowed, reason } = useEntitlement(feature, enabled);
+
+  return (
+    <>
+      {typeof children === "function" ? (
+        children({ allowed })
+      ) : allowed ? (
+        children
+      ) : (
+        <div aria-disabled className="pointer-events-none opacity-50" inert>
+          {children}
+        </div>
+      )}
+      {!allowed && (
+        <EntitlementNotice
+          feature={feature}
+          reason={reason}
+          className={noticeClassName}
+        />
+      )}
+    </>
+  );
+}
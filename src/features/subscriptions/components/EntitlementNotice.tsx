@@ -0,0 +1,48 @@
+"use client";
+import React from "react";
+import Link from "next/link";
+import { usePathname } from "next/navigation";
+import { useTranslations } from "next-intl";
+import { Lock } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { EntitlementFeature } from "../types";
+import {
+  getSubscriptionPath,
+  getSubscriptionRoleFromPath,
+} from "../utils/subscriptions";
+
+interface EntitlementNoticeProps {
+  feature: EntitlementFeature;
+  reason?: string;
+  className?: string;
+}
+
+export function EntitlementNotice({
+  feature,
+  reason,
+  className,
+}: EntitlementNoticeProps) {
+  const t = useTranslations("subscriptions.entitlements");
+  const role = getSubscriptionRoleFromPath(usePathname());
+
+  return (
+    <div
+      role="status"
+      className={cn(
+        "flex flex-wrap items-center gap-2 rounded-md border border-orange-200 bg-orange-50 p-3 text-sm text-orange-800",
+        className
+      )}
+    >
+      <Lock className="h-4 w-4 shrink-0" />
+      <span className="flex-1">{reason || t(`denied.${feature}`)}</span>
+      {role && (
+        <Link
+          href={getSubscriptionPath(role)}
+          className="font-semibold underline underline-offset-2"
+        >
+          {t("upgrade")}
+        </Link>
+      )}
+    </div>
+  );
+}
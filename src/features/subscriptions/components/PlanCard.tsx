@@ -0,0 +1,111 @@
+"use client";
+import React from "react";
+import { useTranslations } from "next-intl";
+import { Loader2, Star } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/shared/components/ui/card";
+import { Badge } from "@/shared/components/ui/badge";
+import { Button } from "@/shared/components/ui/button";
+import { formatPrice } from "@/lib/helpers";
+import { cn } from "@/lib/utils";
+import { useLocale } from "@/hooks/useLocale";
+import { useFeatureLabel } from "../hooks/useFeatureLabel";
+import { CatalogPlan } from "../types";
+import { getLocalizedText, isPaidPlan } from "../utils/subscriptions";
+import { PlanFeatureCell } from "./PlanFeatureCell";
+
+interface PlanCardProps {
+  plan: CatalogPlan;
+  isCurrent?: boolean;
+  isSelected?: boolean;
+  isSubmitting?: boolean;
+  disabled?: boolean;
+  actionLabel: string;
+  onSelect: (plan: CatalogPlan) => void;
+}
+
+export function PlanCard({
+  plan,
+  isCurrent,
+  isSelected,
+  isSubmitting,
+  disabled,
+  actionLabel,
+  onSelect,
+}: PlanCardProps) {
+  const t = useTranslations("subscriptions.plans");
+  const { currentLocale } = useLocale();
+  const featureLabel = useFeatureLabel();
+
+  const duration =
+    plan.duration_label ||
+    (plan.duration_months
+      ? t("perMonths", { count: plan.duration_months })
+      : plan.duration_days
+        ? t("perDays", { count: plan.duration_days })
+        : null);
+
+  return (
+    <Card
+      className={cn(
+        "flex h-full flex-col",
+        (plan.is_featured || isSelected) && "border-design-main shadow-md",
+        isCurrent && "bg-design-main/5"
+      )}
+    >
+      <CardHeader className="space-y-2">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle>{getLocalizedText(plan.name, currentLocale)}</CardTitle>
+          {isCurrent ? (
+            <Badge variant="secondary">{t("current")}</Badge>
+          ) : (
+            plan.is_featured && (
+              <Badge className="gap-1">
+                <Star className="h-3 w-3" />
+                {t("featured")}
+              </Badge>
+            )
+          )}
+        </div>
+        <CardDescription>
+          <span className="text-2xl font-bold text-foreground">
+            {isPaidPlan(plan)
+              ? plan.formatted_price ||
+                formatPrice(plan.price_amount, currentLocale === "ar")
+              : t("free")}
+          </span>
+          {duration && <span className="ms-1 text-sm">/ {duration}</span>}
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="flex-1">
+        <ul className="space-y-2 text-sm">
+          {Object.entries(plan.features).map(([key, value]) => (
+            <li key={key} className="flex items-center justify-between gap-2">
+              <span className="text-muted-foreground">{featureLabel(key)}</span>
+              <PlanFeatureCell value={value} />
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+
+      <CardFooter>
+        <Button
+          className="w-full"
+          variant={isCurrent ? "outline" : "default"}
+          disabled={disabled || isCurrent || isSubmitting}
+          onClick={() => onSelect(plan)}
+        >
+          {isSubmitting && <Loader2 className="me-2 h-4 w-4 animate-spin" />}
+          {isCurrent ? t("current") : actionLabel}
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
@@ -0,0 +1,56 @@
+"use client";
+import React from "react";
+import { useTranslations } from "next-intl";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useLocale } from "@/hooks/useLocale";
+import { useFeatureLabel } from "../hooks/useFeatureLabel";
+import { CatalogPlan } from "../types";
+import { getFeatureKeys, getLocalizedText } from "../utils/subscriptions";
+import { PlanFeatureCell } from "./PlanFeatureCell";
+
+export function PlanComparisonTable({ plans }: { plans: CatalogPlan[] }) {
+  const t = useTranslations("subscriptions.plans");
+  const { currentLocale } = useLocale();
+  const featureLabel = useFeatureLabel();
+  const featureKeys = getFeatureKeys(plans);
+
+  if (featureKeys.length === 0) return null;
+
+  return (
+    <div className="overflow-x-auto rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>{t("feature")}</TableHead>
+            {plans.map((plan) => (
+              <TableHead key={plan.id} className="text-center">
+                {getLocalizedText(plan.name, currentLocale)}
+              </TableHead>
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {featureKeys.map((key) => (
+            <TableRow key={key}>
+              <TableCell>{featureLabel(key)}</TableCell>
+              {plans.map((plan) => (
+                <TableCell key={plan.id}>
+                  <div className="flex justify-center">
+                    <PlanFeatureCell value={plan.features[key] ?? false} />
+                  </div>
+                </TableCell>
+              ))}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
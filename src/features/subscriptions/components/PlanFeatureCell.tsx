@@ -0,0 +1,27 @@
+"use client";
+import React from "react";
+import { useTranslations } from "next-intl";
+import { Check, X } from "lucide-react";
+import { PlanFeatureValue } from "../types";
+import { isUnlimitedFeature } from "../utils/subscriptions";
+
+export function PlanFeatureCell({ value }: { value: PlanFeatureValue }) {
+  const t = useTranslations("subscriptions.features");
+
+  if (typeof value === "boolean" || value === null) {
+    return value ? (
+      <Check className="h-4 w-4 text-green-600" aria-label={t("included")} />
+    ) : (
+      <X
+        className="h-4 w-4 text-muted-foreground"
+        aria-label={t("notIncluded")}
+      />
+    );
+  }
+
+  return (
+    <span className="font-medium">
+      {isUnlimitedFeature(value) ? t("unlimited") : value}
+    </span>
+  );
+}
@@ -0,0 +1,112 @@
+"use client";
+import React, { useState } from "react";
+import { useRouter } from "next/navigation";
+import { useTranslations } from "next-intl";
+import { Loader2 } from "lucide-react";
+import toast from "react-hot-toast";
+import { Button } from "@/shared/components/ui/button";
+import { ErrorState } from "@/shared/components/ui/ErrorState";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useSelectPlanStep } from "../hooks/useSelectPlanStep";
+import { useSubscriptionPlans } from "../hooks/useSubscriptionPlans";
+import { CatalogPlan, SubscriptionRole } from "../types";
+import { isPaidPlan } from "../utils/subscriptions";
+import { PlanCard } from "./PlanCard";
+import { SubscriptionCheckoutDialog } from "./SubscriptionCheckoutDialog";
+
+/**
+ * Last onboarding step of provider accounts. A paid plan goes straight
+ * on to checkout once it is selected.
+ */
+export function SelectPlanStep({ role }: { role: SubscriptionRole }) {
+  const t = useTranslations("subscriptions.onboarding");
+  const router = useRouter();
+  const { plans, policy, isLoading, error, refetch } = useSubscriptionPlans();
+  const { selectPlan, isSubmitting } = useSelectPlanStep(role);
+  const [selectedPlan, setSelectedPlan] = useState<CatalogPlan>();
+  const [checkoutPlan, setCheckoutPlan] = useState<CatalogPlan>();
+
+  const profilePath = `/dashboard/${role}/profile`;
+
+  if (isLoading) {
+    return (
+      <div className="grid gap-4 md:grid-cols-2">
+        {[1, 2].map((item) => (
+          <Skeleton key={item} className="h-80 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <ErrorState
+        variant="inline"
+        title={t("loadError")}
+        error={error}
+        onRetry={refetch}
+      />
+    );
+  }
+
+  const handleSubmit = async () => {
+    if (!selectedPlan) return;
+
+    const result = await selectPlan(selectedPlan.id);
+    if (!result.success) {
+      toast.error(result.message || t("submitError"));
+      return;
+    }
+
+    toast.success(result.message || t("submitSuccess"));
+    if (isPaidPlan(selectedPlan)) {
+      setCheckoutPlan(selectedPlan);
+    } else {
+      router.push(profilePath);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-xl font-semibold">{t("title")}</h2>
+        <p className="text-sm text-muted-foreground">{t("description")}</p>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        {plans.map((plan) => (
+          <PlanCard
+            key={plan.id}
+            plan={plan}
+            isSelected={selectedPlan?.id === plan.id}
+            disabled={!isPaidPlan(plan) && Boolean(policy?.paid_required)}
+            actionLabel={
+              selectedPlan?.id === plan.id ? t("selected") : t("select")
+            }
+            onSelect={setSelectedPlan}
+          />
+        ))}
+      </div>
+
+      <div className="flex justify-end">
+        <Button disabled={!selectedPlan || isSubmitting} onClick={handleSubmit}>
+          {isSubmitting && <Loader2 className="me-2 h-4 w-4 animate-spin" />}
+          {t("submit")}
+        </Button>
+      </div>
+
+      {checkoutPlan && (
+        <SubscriptionCheckoutDialog
+          plan={checkoutPlan}
+          onOpenChange={(open) => {
+            if (open) return;
+            // Skipping payment is allowed, the plans page picks it up later
+            setCheckoutPlan(undefined);
+            router.push(profilePath);
+          }}
+          returnPath={profilePath}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+"use client";
+import React, { useState } from "react";
+import { useTranslations } from "next-intl";
+import { CheckoutDialog } from "@/features/payments/components";
+import { CheckoutRequest } from "@/features/payments/types";
+import { useLocale } from "@/hooks/useLocale";
+import { useSubscriptionCheckout } from "../hooks/useSubscriptionCheckout";
+import { CatalogPlan } from "../types";
+import { getLocalizedText } from "../utils/subscriptions";
+
+interface SubscriptionCheckoutDialogProps {
+  plan: CatalogPlan;
+  onOpenChange: (open: boolean) => void;
+  // Dashboard path the payment result page links back to
+  returnPath: string;
+}
+
+/**
+ * Pays for a plan through the shared checkout, mounted only while open so
+ * every attempt gets its own order id
+ */
+export function SubscriptionCheckoutDialog({
+  plan,
+  onOpenChange,
+  returnPath,
+}: SubscriptionCheckoutDialogProps) {
+  const t = useTranslations("subscriptions.checkout");
+  const { currentLocale } = useLocale();
+  const { createPayment } = useSubscriptionCheckout(plan.id);
+  const name = getLocalizedText(plan.name, currentLocale);
+
+  const [checkout] = useState<CheckoutRequest>(() => ({
+    amount: plan.price_amount,
+    description: t("description", { name }),
+    orderId: `subscription-${plan.id}-${Date.now()}`,
+    payableId: plan.id,
+    payableType: "subscription_plan",
+    returnPath,
+  }));
+
+  return (
+    <CheckoutDialog
+      open
+      onOpenChange={onOpenChange}
+      title={t("title", { name })}
+      checkout={checkout}
+      createPayment={createPayment}
+    />
+  );
+}
@@ -0,0 +1,105 @@
+"use client";
+import React, { useState } from "react";
+import { useTranslations } from "next-intl";
+import toast from "react-hot-toast";
+import { ErrorState } from "@/shared/components/ui/ErrorState";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useCurrentSubscription } from "../hooks/useCurrentSubscription";
+import { useSubscriptionPlans } from "../hooks/useSubscriptionPlans";
+import { CatalogPlan, SubscriptionRole } from "../types";
+import { getSubscriptionPath, isPaidPlan } from "../utils/subscriptions";
+import { PlanCard } from "./PlanCard";
+import { PlanComparisonTable } from "./PlanComparisonTable";
+import { SubscriptionCheckoutDialog } from "./SubscriptionCheckoutDialog";
+
+export function SubscriptionPlans({ role }: { role: SubscriptionRole }) {
+  const t = useTranslations("subscriptions.plans");
+  const { plans, policy, isLoading, error, refetch } = useSubscriptionPlans();
+  const { subscription, isSaving, subscribeFree } = useCurrentSubscription();
+  const [checkoutPlan, setCheckoutPlan] = useState<CatalogPlan>();
+  const [selectingPlanId, setSelectingPlanId] = useState<number>();
+
+  if (isLoading) {
+    return (
+      <div className="grid gap-4 md:grid-cols-3">
+        {[1, 2, 3].map((item) => (
+          <Skeleton key={item} className="h-80 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <ErrorState
+        variant="inline"
+        title={t("loadError")}
+        error={error}
+        onRetry={refetch}
+      />
+    );
+  }
+
+  if (plans.length === 0) {
+    return <p className="text-sm text-muted-foreground">{t("empty")}</p>;
+  }
+
+  const isCurrentPlan = (plan: CatalogPlan) =>
+    subscription?.plan_id === plan.id && subscription.status === "active";
+
+  const handleSelect = async (plan: CatalogPlan) => {
+    if (isPaidPlan(plan)) {
+      setCheckoutPlan(plan);
+      return;
+    }
+
+    setSelectingPlanId(plan.id);
+    const result = await subscribeFree();
+    setSelectingPlanId(undefined);
+
+    if (result.success) {
+      toast.success(result.message || t("freeSuccess"));
+    } else {
+      toast.error(result.message || t("freeError"));
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      {policy?.paid_required && (
+        <p className="rounded-md border bg-muted/40 p-4 text-sm">
+          {t("paidRequired")}
+        </p>
+      )}
+
+      <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+        {plans.map((plan) => (
+          <PlanCard
+            key={plan.id}
+            plan={plan}
+            isCurrent={isCurrentPlan(plan)}
+            isSubmitting={selectingPlanId === plan.id}
+            disabled={
+              isSaving || (!isPaidPlan(plan) && Boolean(policy?.paid_required))
+            }
+            actionLabel={isPaidPlan(plan) ? t("subscribe") : t("startFree")}
+            onSelect={handleSelect}
+          />
+        ))}
+      </div>
+
+      <div className="space-y-3">
+        <h2 className="text-lg font-semibold">{t("compareTitle")}</h2>
+        <PlanComparisonTable plans={plans} />
+      </div>
+
+      {checkoutPlan && (
+        <SubscriptionCheckoutDialog
+          plan={checkoutPlan}
+          onOpenChange={(open) => !open && setCheckoutPlan(undefined)}
+          returnPath={getSubscriptionPath(role)}
+        />
+      )}
+    </div>
+  );
+}
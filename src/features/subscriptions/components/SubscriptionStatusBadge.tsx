@@ -0,0 +1,35 @@
+"use client";
+import React from "react";
+import { useTranslations } from "next-intl";
+import { Badge } from "@/shared/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { SubscriptionStatus } from "../types";
+
+const SUBSCRIPTION_STATUS_COLORS: Record<SubscriptionStatus, string> = {
+  active: "bg-green-100 text-green-800",
+  pending: "bg-yellow-100 text-yellow-800",
+  cancelled: "bg-gray-100 text-gray-800",
+  expired: "bg-red-100 text-red-800",
+};
+
+export function SubscriptionStatusBadge({
+  status,
+  className,
+}: {
+  status: SubscriptionStatus;
+  className?: string;
+}) {
+  const t = useTranslations("subscriptions.statuses");
+
+  return (
+    <Badge
+      variant="secondary"
+      className={cn(
+        SUBSCRIPTION_STATUS_COLORS[status] ?? SUBSCRIPTION_STATUS_COLORS.pending,
+        className
+      )}
+    >
+      {t(status)}
+    </Badge>
+  );
+}
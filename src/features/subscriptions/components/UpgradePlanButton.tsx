@@ -0,0 +1,32 @@
+"use client";
+import React from "react";
+import Link from "next/link";
+import { useTranslations } from "next-intl";
+import { Star } from "lucide-react";
+import { Button } from "@/shared/components/ui/button";
+import { cn } from "@/lib/utils";
+import { SubscriptionRole } from "../types";
+import { getSubscriptionPath } from "../utils/subscriptions";
+
+export function UpgradePlanButton({
+  role,
+  className,
+}: {
+  role: SubscriptionRole;
+  className?: string;
+}) {
+  const t = useTranslations("subscriptions");
+
+  return (
+    <Button
+      asChild
+      variant="default"
+      className={cn("rounded-full font-semibold text-xs", className)}
+    >
+      <Link href={getSubscriptionPath(role)}>
+        <Star className="w-4 h-4 me-1 font-semibold" />
+        {t("upgrade")}
+      </Link>
+    </Button>
+  );
+}
@@ -0,0 +1,12 @@
+export { PlanCard } from "./PlanCard";
+export { PlanFeatureCell } from "./PlanFeatureCell";
+export { PlanComparisonTable } from "./PlanComparisonTable";
+export { SubscriptionPlans } from "./SubscriptionPlans";
+export { SubscriptionStatusBadge } from "./SubscriptionStatusBadge";
+export { SubscriptionCheckoutDialog } from "./SubscriptionCheckoutDialog";
+export { CurrentPlanCard } from "./CurrentPlanCard";
+export { CancelSubscriptionDialog } from "./CancelSubscriptionDialog";
+export { SelectPlanStep } from "./SelectPlanStep";
+export { UpgradePlanButton } from "./UpgradePlanButton";
+export { Entitled } from "./Entitled";
+export { EntitlementNotice } from "./EntitlementNotice";
@@ -0,0 +1,7 @@
+export {
+  ENTITLEMENTS_STALE_MS,
+  SUBSCRIPTION_ROLES,
+  CHECKOUT_SOURCE_TYPES,
+  RENEWAL_REMINDER_DAYS,
+  SUBSCRIPTION_LIMITS,
+} from "./subscriptionConstants";
@@ -0,0 +1,27 @@
+import { MoyasarMethod } from "@/features/payments/types";
+import { CheckoutSourceType, SubscriptionRole } from "../types";
+
+// Answers are reused across pages for this long before asking again
+export const ENTITLEMENTS_STALE_MS = 60 * 1000;
+
+export const SUBSCRIPTION_ROLES: SubscriptionRole[] = [
+  "contractor",
+  "supplier",
+  "engineering_office",
+  "freelance_engineer",
+];
+
+export const CHECKOUT_SOURCE_TYPES: Record<MoyasarMethod, CheckoutSourceType> =
+  {
+    credit_card: "creditcard",
+    stc_pay: "stcpay",
+    apple_pay: "applepay",
+    sadad: "sadad",
+  };
+
+// The current plan card nudges for renewal within this many days
+export const RENEWAL_REMINDER_DAYS = 14;
+
+export const SUBSCRIPTION_LIMITS = {
+  cancelReasonMax: 500,
+} as const;
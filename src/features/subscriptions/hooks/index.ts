@@ -0,0 +1,6 @@
+export * from "./useSubscriptionPlans";
+export * from "./useCurrentSubscription";
+export * from "./useSubscriptionCheckout";
+export * from "./useFeatureLabel";
+export * from "./useSelectPlanStep";
+export * from "./useEntitlement";
@@ -0,0 +1,87 @@
+"use client";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { subscriptionApi } from "../services/subscriptionApi";
+import { useEntitlementsStore } from "../store/entitlementsStore";
+import { Subscription } from "../types";
+import { getQuotaUsage } from "../utils/subscriptions";
+
+type ActionResult = { success: boolean; message?: string };
+
+export const useCurrentSubscription = () => {
+  const [subscription, setSubscription] = useState<Subscription | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSubscription = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    const response = await subscriptionApi.getCurrent();
+    if (response.success) {
+      setSubscription(response.data || response.response || null);
+    } else {
+      setError(response.message || null);
+    }
+
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    fetchSubscription();
+  }, [fetchSubscription]);
+
+  const quota = useMemo(
+    () => (subscription ? getQuotaUsage(subscription) : []),
+    [subscription]
+  );
+
+  // Every change reloads the subscription and the entitlements gating the
+  // app, the server owns dates and quota
+  const runAction = useCallback(
+    async (
+      action: () => Promise<{ success: boolean; message?: string }>
+    ): Promise<ActionResult> => {
+      setIsSaving(true);
+
+      const response = await action();
+      if (response.success) {
+        await Promise.all([
+          fetchSubscription(),
+          useEntitlementsStore.getState().fetchEntitlements(true),
+        ]);
+      }
+
+      setIsSaving(false);
+      return { success: response.success, message: response.message };
+    },
+    [fetchSubscription]
+  );
+
+  const subscribeFree = useCallback(
+    () => runAction(() => subscriptionApi.subscribeFree()),
+    [runAction]
+  );
+
+  const renew = useCallback(
+    () => runAction(() => subscriptionApi.renew()),
+    [runAction]
+  );
+
+  const cancel = useCallback(
+    (reason?: string) => runAction(() => subscriptionApi.cancel(reason)),
+    [runAction]
+  );
+
+  return {
+    subscription,
+    quota,
+    isLoading,
+    isSaving,
+    error,
+    refetch: fetchSubscription,
+    subscribeFree,
+    renew,
+    cancel,
+  };
+};
@@ -0,0 +1,30 @@
+"use client";
+import { useEffect } from "react";
+import { useEntitlementsStore } from "../store/entitlementsStore";
+import { EntitlementFeature } from "../types";
+
+/**
+ * Whether the current plan allows a feature. Disabled checks, e.g. for
+ * parties the rule doesn't apply to, are always allowed.
+ */
+export const useEntitlement = (feature: EntitlementFeature, enabled = true) => {
+  const check = useEntitlementsStore((state) => state.entitlements[feature]);
+  const explanation = useEntitlementsStore(
+    (state) => state.explanations[feature]
+  );
+  const isLoading = useEntitlementsStore((state) => state.isLoading);
+  const fetchEntitlements = useEntitlementsStore(
+    (state) => state.fetchEntitlements
+  );
+
+  useEffect(() => {
+    if (enabled) fetchEntitlements();
+  }, [enabled, fetchEntitlements]);
+
+  return {
+    allowed: !enabled || check?.allowed !== false,
+    reason: explanation?.reason || check?.reason,
+    remaining: check?.remaining,
+    isLoading: enabled && isLoading,
+  };
+};
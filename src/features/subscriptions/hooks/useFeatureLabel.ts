@@ -0,0 +1,14 @@
+"use client";
+import { useCallback } from "react";
+import { useTranslations } from "next-intl";
+import { formatFeatureKey } from "../utils/subscriptions";
+
+/** Translated feature names, new backend features fall back to their key */
+export const useFeatureLabel = () => {
+  const t = useTranslations("subscriptions.features.labels");
+
+  return useCallback(
+    (key: string) => (t.has(key) ? t(key) : formatFeatureKey(key)),
+    [t]
+  );
+};
@@ -0,0 +1,24 @@
+"use client";
+import { useCallback, useState } from "react";
+import { subscriptionApi } from "../services/subscriptionApi";
+import { SubscriptionRole } from "../types";
+
+type ActionResult = { success: boolean; message?: string };
+
+/** Onboarding step 4, the chosen plan is sent with the profile for review */
+export const useSelectPlanStep = (role: SubscriptionRole) => {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const selectPlan = useCallback(
+    async (planId: number): Promise<ActionResult> => {
+      setIsSubmitting(true);
+      const response = await subscriptionApi.selectPlanStep4(role, planId);
+      setIsSubmitting(false);
+
+      return { success: response.success, message: response.message };
+    },
+    [role]
+  );
+
+  return { selectPlan, isSubmitting };
+};
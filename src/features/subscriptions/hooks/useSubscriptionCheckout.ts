@@ -0,0 +1,29 @@
+"use client";
+import { useCallback } from "react";
+import { CreatePaymentHandler } from "@/features/payments/types";
+import { fromHalalas } from "@/features/payments/utils/moyasar";
+import { subscriptionApi } from "../services/subscriptionApi";
+import { toCheckoutSource } from "../utils/subscriptions";
+
+/**
+ * Payment handler for the shared checkout that starts the payment through
+ * the subscription checkout, which activates the plan once it is paid
+ */
+export const useSubscriptionCheckout = (planId: number) => {
+  const createPayment = useCallback<CreatePaymentHandler>(
+    async (method, payload, details) => {
+      const response = await subscriptionApi.checkout({
+        plan_id: planId,
+        ...toCheckoutSource(method, details),
+        amount: fromHalalas(payload.amount),
+        client_reference: payload.order_id,
+      });
+      const payment = (response.data || response.response)?.payment;
+
+      return { ...response, data: payment, response: payment };
+    },
+    [planId]
+  );
+
+  return { createPayment };
+};
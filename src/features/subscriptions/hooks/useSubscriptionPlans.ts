@@ -0,0 +1,60 @@
+"use client";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { subscriptionApi } from "../services/subscriptionApi";
+import { PlanCatalog, SubscriptionPlan } from "../types";
+import { mergeCatalogPlans, toPlanList } from "../utils/subscriptions";
+
+/**
+ * Plans the current user can subscribe to, with the features that apply
+ * to their account type
+ */
+export const useSubscriptionPlans = () => {
+  const [catalogPlans, setCatalogPlans] = useState<SubscriptionPlan[]>([]);
+  const [planCatalog, setPlanCatalog] = useState<PlanCatalog | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPlans = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    const [catalogResponse, planCatalogResponse] = await Promise.all([
+      subscriptionApi.getCatalog(),
+      subscriptionApi.getPlanCatalog(),
+    ]);
+
+    if (catalogResponse.success) {
+      setCatalogPlans(
+        toPlanList(catalogResponse.data || catalogResponse.response)
+      );
+    } else {
+      setError(catalogResponse.message || null);
+    }
+
+    // Without the role catalog the general plan features are shown
+    const roleCatalog =
+      planCatalogResponse.data || planCatalogResponse.response;
+    setPlanCatalog(
+      planCatalogResponse.success && roleCatalog ? roleCatalog : null
+    );
+
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    fetchPlans();
+  }, [fetchPlans]);
+
+  const plans = useMemo(
+    () => mergeCatalogPlans(catalogPlans, planCatalog),
+    [catalogPlans, planCatalog]
+  );
+
+  return {
+    plans,
+    policy: planCatalog?.policy ?? null,
+    isLoading,
+    error,
+    refetch: fetchPlans,
+  };
+};
@@ -0,0 +1,52 @@
+import { ApiResponse } from "@/lib/apiClient";
+import * as sdk from "@/lib/sdk";
+import { EntitlementsReport, ProposalEntitlement } from "../types";
+
+/**
+ * Entitlement API Service
+ * What the current plan allows the user to do
+ */
+class EntitlementApiService {
+  /**
+   * Check whether a proposal can be sent and how many are left
+   */
+  async canSendProposal(): Promise<ApiResponse<ProposalEntitlement>> {
+    return sdk.canSendProposal<ProposalEntitlement>();
+  }
+
+  /**
+   * Count a sent proposal against the plan quota
+   */
+  async consumeProposal(): Promise<ApiResponse<void>> {
+    return sdk.assertAndConsumeOneProposal<void>();
+  }
+
+  async canSignContract(): Promise<ApiResponse<boolean>> {
+    return sdk.canSignContract<boolean>();
+  }
+
+  async canMessageAfterOffer(): Promise<ApiResponse<boolean>> {
+    return sdk.canMessageAfterOfferAccepted<boolean>();
+  }
+
+  async hasEarlyAccess(): Promise<ApiResponse<boolean>> {
+    return sdk.hasEarlyAccess<boolean>();
+  }
+
+  /**
+   * Get the listing priority weight of the user's plan
+   */
+  async getPriorityWeight(): Promise<ApiResponse<number>> {
+    return sdk.getPriorityWeight<number>();
+  }
+
+  /**
+   * Get the reasons behind every entitlement answer
+   */
+  async explain(): Promise<ApiResponse<EntitlementsReport>> {
+    return sdk.explainEntitlements<EntitlementsReport>();
+  }
+}
+
+/** Singleton instance of the EntitlementApiService */
+export const entitlementApi = new EntitlementApiService();
@@ -0,0 +1,2 @@
+export * from "./subscriptionApi";
+export * from "./entitlementApi";
@@ -0,0 +1,93 @@
+import { ApiResponse } from "@/lib/apiClient";
+import * as sdk from "@/lib/sdk";
+import {
+  PlanCatalog,
+  Subscription,
+  SubscriptionCatalog,
+  SubscriptionCheckoutPayload,
+  SubscriptionCheckoutResult,
+  SubscriptionRole,
+} from "../types";
+
+// Providers pick their plan in the last step of their own onboarding
+const SELECT_PLAN_OPERATIONS: Record<
+  SubscriptionRole,
+  (body: { plan_id: number }) => Promise<ApiResponse<unknown>>
+> = {
+  contractor: sdk.selectPlanContractorStep4,
+  supplier: sdk.selectPlanStep4,
+  engineering_office: sdk.engineeringOfficeSelectPlanStep4,
+  freelance_engineer: sdk.freelancerEngineerSelectPlanStep4,
+};
+
+/**
+ * Subscription API Service
+ * Plan catalogs, the current subscription and its checkout and renewal
+ */
+class SubscriptionApiService {
+  /**
+   * Get the plans available to the current user
+   */
+  async getCatalog(): Promise<ApiResponse<SubscriptionCatalog>> {
+    return sdk.getSubscriptionCatalog<SubscriptionCatalog>();
+  }
+
+  /**
+   * Get the role-specific catalog, the current user's when no type is given
+   */
+  async getPlanCatalog(userTypeId?: number): Promise<ApiResponse<PlanCatalog>> {
+    return userTypeId
+      ? sdk.getPlanCatalog<PlanCatalog>(userTypeId)
+      : sdk.getMyPlanCatalog<PlanCatalog>();
+  }
+
+  /**
+   * Get the current subscription of the user
+   */
+  async getCurrent(): Promise<ApiResponse<Subscription | null>> {
+    return sdk.getCurrentSubscription<Subscription | null>();
+  }
+
+  /**
+   * Create or activate the free subscription
+   */
+  async subscribeFree(): Promise<ApiResponse<Subscription>> {
+    return sdk.subscribeFree<Subscription>();
+  }
+
+  /**
+   * Start the payment of a paid plan
+   */
+  async checkout(
+    data: SubscriptionCheckoutPayload
+  ): Promise<ApiResponse<SubscriptionCheckoutResult>> {
+    return sdk.startPaidCheckout<SubscriptionCheckoutResult>(data);
+  }
+
+  /**
+   * Renew the current subscription
+   */
+  async renew(): Promise<ApiResponse<Subscription>> {
+    return sdk.renewCurrent<Subscription>();
+  }
+
+  /**
+   * Cancel the current subscription
+   */
+  async cancel(reason?: string): Promise<ApiResponse<Subscription>> {
+    return sdk.cancelCurrent<Subscription>(reason ? { reason } : {});
+  }
+
+  /**
+   * Choose the plan in the fourth step of a provider's onboarding
+   */
+  async selectPlanStep4(
+    role: SubscriptionRole,
+    planId: number
+  ): Promise<ApiResponse<unknown>> {
+    return SELECT_PLAN_OPERATIONS[role]({ plan_id: planId });
+  }
+}
+
+/** Singleton instance of the SubscriptionApiService */
+export const subscriptionApi = new SubscriptionApiService();
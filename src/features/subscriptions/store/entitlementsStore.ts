@@ -0,0 +1,153 @@
+import { create } from "zustand";
+import { devtools } from "zustand/middleware";
+import { ApiResponse } from "@/lib/apiClient";
+import { useAuthStore } from "@/features/auth/store/authStore";
+import { entitlementApi } from "../services/entitlementApi";
+import {
+  EntitlementCheck,
+  EntitlementFeature,
+  EntitlementsReport,
+} from "../types";
+import { ENTITLEMENTS_STALE_MS } from "../constants";
+
+interface EntitlementsState {
+  entitlements: Partial<Record<EntitlementFeature, EntitlementCheck>>;
+  explanations: EntitlementsReport;
+  priorityWeight: number | null;
+  isLoading: boolean;
+  lastFetched: number | null;
+
+  // Actions
+  fetchEntitlements: (force?: boolean) => Promise<void>;
+  consumeProposal: () => Promise<ApiResponse<void>>;
+  reset: () => void;
+}
+
+// A failed check leaves the feature unknown rather than denied, the
+// server still enforces the rule when the action is sent
+const toCheck = (response: ApiResponse<boolean>): EntitlementCheck | null =>
+  response.success
+    ? { allowed: Boolean(response.data ?? response.response) }
+    : null;
+
+const initialState = {
+  entitlements: {},
+  explanations: {},
+  priorityWeight: null,
+  isLoading: false,
+  lastFetched: null,
+};
+
+// The fetch currently running, a forced refresh waits for it instead of
+// being dropped
+let inFlight: Promise<void> | null = null;
+
+// Ask every entitlement at once and store the answers
+const loadEntitlements = async (
+  set: (state: Partial<EntitlementsState>) => void
+): Promise<void> => {
+  set({ isLoading: true });
+
+  const [proposal, signContract, messageAfterOffer, earlyAccess, weight] =
+    await Promise.all([
+      entitlementApi.canSendProposal(),
+      entitlementApi.canSignContract(),
+      entitlementApi.canMessageAfterOffer(),
+      entitlementApi.hasEarlyAccess(),
+      entitlementApi.getPriorityWeight(),
+    ]);
+
+  const proposalData = proposal.data || proposal.response;
+  const checks: Record<EntitlementFeature, EntitlementCheck | null> = {
+    SEND_PROPOSAL:
+      proposal.success && proposalData
+        ? {
+            allowed: proposalData.allowed,
+            reason: proposalData.reason,
+            remaining: proposalData.remaining_count,
+          }
+        : null,
+    CAN_SIGN_CONTRACT: toCheck(signContract),
+    CAN_MESSAGE_AFTER_OFFER: toCheck(messageAfterOffer),
+    EARLY_ACCESS: toCheck(earlyAccess),
+  };
+
+  const entitlements: EntitlementsState["entitlements"] = {};
+  (Object.keys(checks) as EntitlementFeature[]).forEach((feature) => {
+    const check = checks[feature];
+    if (check) entitlements[feature] = check;
+  });
+
+  // Explanations are only worth a request when something is denied
+  let explanations: EntitlementsReport = {};
+  if (Object.values(entitlements).some((check) => !check.allowed)) {
+    const report = await entitlementApi.explain();
+    const data = report.data || report.response;
+    if (report.success && data) explanations = data;
+  }
+
+  const priorityWeight = weight.data ?? weight.response;
+  set({
+    entitlements,
+    explanations,
+    priorityWeight: weight.success ? (priorityWeight ?? null) : null,
+    isLoading: false,
+    lastFetched: Date.now(),
+  });
+};
+
+/**
+ * What the current plan allows, shared by every gated action so each
+ * page doesn't ask the API again
+ */
+export const useEntitlementsStore = create<EntitlementsState>()(
+  devtools(
+    (set, get) => ({
+      ...initialState,
+
+      fetchEntitlements: async (force = false) => {
+        if (inFlight) {
+          if (!force) return inFlight;
+          // The running fetch may predate the change being refreshed
+          await inFlight;
+          // Another forced refresh started meanwhile and is fresh enough
+          if (inFlight) return inFlight;
+        }
+
+        const { lastFetched } = get();
+        if (
+          !force &&
+          lastFetched &&
+          Date.now() - lastFetched < ENTITLEMENTS_STALE_MS
+        ) {
+          return;
+        }
+
+        inFlight = loadEntitlements(set);
+        try {
+          await inFlight;
+        } finally {
+          inFlight = null;
+        }
+      },
+
+      consumeProposal: async () => {
+        const response = await entitlementApi.consumeProposal();
+        await get().fetchEntitlements(true);
+        return response;
+      },
+
+      reset: () => set(initialState),
+    }),
+    {
+      name: "entitlements-store",
+    }
+  )
+);
+
+// Answers belong to the signed-in user, a different account starts over
+useAuthStore.subscribe((state, previous) => {
+  if (state.user?.id !== previous.user?.id) {
+    useEntitlementsStore.getState().reset();
+  }
+});
@@ -0,0 +1,28 @@
+/** Gated features, named like the plan feature codes they come from */
+export type EntitlementFeature =
+  | "SEND_PROPOSAL"
+  | "CAN_SIGN_CONTRACT"
+  | "CAN_MESSAGE_AFTER_OFFER"
+  | "EARLY_ACCESS";
+
+export interface ProposalEntitlement {
+  allowed: boolean;
+  reason?: string;
+  remaining_count?: number;
+}
+
+export interface EntitlementCheck {
+  allowed: boolean;
+  reason?: string;
+  remaining?: number;
+}
+
+export interface EntitlementExplanation {
+  allowed?: boolean;
+  reason?: string;
+}
+
+/** Report of `/entitlements/explain`, the reasons behind every answer */
+export type EntitlementsReport = Partial<
+  Record<EntitlementFeature, EntitlementExplanation>
+>;
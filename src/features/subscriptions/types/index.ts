@@ -0,0 +1,26 @@
+export type {
+  SubscriptionRole,
+  SubscriptionPlanType,
+  SubscriptionStatus,
+  LocalizedText,
+  PlanFeatureValue,
+  SubscriptionPlan,
+  UsageCounter,
+  Subscription,
+  PlanCatalogPolicy,
+  PlanCatalogEntry,
+  PlanCatalog,
+  SubscriptionCatalog,
+  CatalogPlan,
+  CheckoutSourceType,
+  SubscriptionCheckoutPayload,
+  SubscriptionCheckoutResult,
+  QuotaUsage,
+} from "./subscription";
+export type {
+  EntitlementFeature,
+  ProposalEntitlement,
+  EntitlementCheck,
+  EntitlementExplanation,
+  EntitlementsReport,
+} from "./entitlement";
@@ -0,0 +1,121 @@
+import { MoyasarPayment } from "@/features/payments/types";
+
+/** Roles that pick a subscription plan during onboarding */
+export type SubscriptionRole =
+  | "contractor"
+  | "supplier"
+  | "engineering_office"
+  | "freelance_engineer";
+
+export type SubscriptionPlanType = "free" | "paid";
+
+export type SubscriptionStatus =
+  | "active"
+  | "pending"
+  | "cancelled"
+  | "expired";
+
+/** Plan names come translated per locale, older records are plain strings */
+export type LocalizedText = string | Partial<Record<"ar" | "en", string>>;
+
+export type PlanFeatureValue = number | boolean | string | null;
+
+export interface SubscriptionPlan {
+  id: number;
+  name: LocalizedText;
+  code: string;
+  type: SubscriptionPlanType;
+  duration_days?: number;
+  duration_months?: number;
+  price_amount: number;
+  price_currency: string;
+  formatted_price?: string;
+  features: Record<string, PlanFeatureValue>;
+  is_active?: boolean;
+  tier?: string;
+  is_featured?: boolean;
+  sort_order?: number;
+}
+
+export interface UsageCounter {
+  feature_key: string;
+  used: number;
+  limit?: number | null;
+  period_start?: string | null;
+  period_end?: string | null;
+}
+
+export interface Subscription {
+  id: number;
+  user_id: number;
+  plan_id: number;
+  status: SubscriptionStatus;
+  status_text?: string;
+  is_current: boolean;
+  starts_at: string;
+  ends_at: string | null;
+  remaining_days?: number;
+  auto_renew?: boolean;
+  cancelled_at?: string | null;
+  plan: SubscriptionPlan;
+  usage_counters?: UsageCounter[];
+}
+
+export interface PlanCatalogPolicy {
+  paid_required: boolean;
+  free_proposal_limit?: number;
+  allow_free_plan_multiple?: boolean;
+  allow_paid_auto_renew?: boolean;
+  is_active?: boolean;
+}
+
+export interface PlanCatalogEntry {
+  plan: {
+    code: string;
+    name: string;
+    type: SubscriptionPlanType;
+    duration_label?: string;
+  };
+  price: { amount: number; currency: string };
+  raw_features?: Record<string, PlanFeatureValue>;
+  // Features after the rules of the user's type are applied
+  effective_for_type?: Record<string, PlanFeatureValue>;
+}
+
+/** Role-specific catalog, plans keyed by their code */
+export interface PlanCatalog {
+  policy: PlanCatalogPolicy;
+  plans: Record<string, PlanCatalogEntry>;
+}
+
+/** The general catalog comes as a plain list or wrapped in `plans` */
+export type SubscriptionCatalog =
+  | SubscriptionPlan[]
+  | { plans: SubscriptionPlan[] };
+
+/** A catalog plan with the role-specific details merged in */
+export interface CatalogPlan extends SubscriptionPlan {
+  duration_label?: string;
+}
+
+export type CheckoutSourceType = "creditcard" | "stcpay" | "applepay" | "sadad";
+
+export interface SubscriptionCheckoutPayload {
+  plan_id: number;
+  source_type: CheckoutSourceType;
+  source_data: Record<string, string>;
+  amount?: number;
+  client_reference?: string;
+}
+
+export interface SubscriptionCheckoutResult {
+  payment: MoyasarPayment;
+  subscription?: Subscription;
+}
+
+export interface QuotaUsage {
+  key: string;
+  used: number;
+  limit: number;
+  remaining: number;
+}
@@ -0,0 +1,157 @@
+import {
+  MoyasarMethod,
+  MoyasarMethodDetails,
+} from "@/features/payments/types";
+import {
+  CatalogPlan,
+  CheckoutSourceType,
+  LocalizedText,
+  PlanCatalog,
+  PlanFeatureValue,
+  QuotaUsage,
+  Subscription,
+  SubscriptionCatalog,
+  SubscriptionPlan,
+  SubscriptionRole,
+} from "../types";
+import {
+  CHECKOUT_SOURCE_TYPES,
+  RENEWAL_REMINDER_DAYS,
+  SUBSCRIPTION_ROLES,
+} from "../constants";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const getLocalizedText = (
+  text: LocalizedText | undefined,
+  locale: string
+) => {
+  if (!text) return "";
+  if (typeof text === "string") return text;
+  return text[locale as "ar" | "en"] || text.ar || text.en || "";
+};
+
+export const getSubscriptionPath = (role: SubscriptionRole) =>
+  `/dashboard/${role}/subscription`;
+
+/** Subscription role of the dashboard section a path belongs to */
+export const getSubscriptionRoleFromPath = (
+  pathname: string
+): SubscriptionRole | null => {
+  const segment = pathname.split("/dashboard/")[1]?.split("/")[0];
+  return SUBSCRIPTION_ROLES.find((role) => role === segment) ?? null;
+};
+
+export const getPlanStepPath = (role: SubscriptionRole) =>
+  `/dashboard/${role}/profile/edit/plan`;
+
+/** Fallback label for feature keys without a translation */
+export const formatFeatureKey = (key: string) =>
+  key.toLowerCase().replace(/_/g, " ");
+
+export const isPaidPlan = (plan: Pick<SubscriptionPlan, "type">) =>
+  plan.type === "paid";
+
+export const toPlanList = (catalog: SubscriptionCatalog | null | undefined) =>
+  Array.isArray(catalog) ? catalog : catalog?.plans || [];
+
+/**
+ * Only the general catalog has plan ids, the role catalog adds the
+ * features that apply to the user's type
+ */
+export const mergeCatalogPlans = (
+  plans: SubscriptionPlan[],
+  planCatalog: PlanCatalog | null
+): CatalogPlan[] =>
+  plans
+    .filter((plan) => plan.is_active !== false)
+    .filter((plan) => !planCatalog || plan.code in planCatalog.plans)
+    .map((plan) => {
+      const entry = planCatalog?.plans[plan.code];
+      return {
+        ...plan,
+        features: entry?.effective_for_type ?? plan.features ?? {},
+        duration_label: entry?.plan.duration_label,
+      };
+    })
+    .sort(
+      (a, b) =>
+        (a.sort_order ?? 0) - (b.sort_order ?? 0) ||
+        a.price_amount - b.price_amount
+    );
+
+/** Every feature any plan mentions, in first-seen order */
+export const getFeatureKeys = (plans: SubscriptionPlan[]) =>
+  Array.from(new Set(plans.flatMap((plan) => Object.keys(plan.features))));
+
+export const isUnlimitedFeature = (value: PlanFeatureValue) =>
+  value === -1 || value === "unlimited";
+
+export const getQuotaUsage = (subscription: Subscription): QuotaUsage[] =>
+  (subscription.usage_counters || []).flatMap((counter) => {
+    const planLimit = subscription.plan.features[counter.feature_key];
+    const limit =
+      counter.limit ?? (typeof planLimit === "number" ? planLimit : null);
+    // Unlimited and on/off features have nothing to count down
+    if (limit === null || limit < 0) return [];
+
+    return [
+      {
+        key: counter.feature_key,
+        used: counter.used,
+        limit,
+        remaining: Math.max(limit - counter.used, 0),
+      },
+    ];
+  });
+
+export const getRemainingDays = (subscription: Subscription) => {
+  if (subscription.remaining_days !== undefined) {
+    return Math.max(subscription.remaining_days, 0);
+  }
+  if (!subscription.ends_at) return null;
+
+  const remaining = new Date(subscription.ends_at).getTime() - Date.now();
+  return Math.max(Math.ceil(remaining / DAY_MS), 0);
+};
+
+export const isRenewalDue = (subscription: Subscription) => {
+  const remainingDays = getRemainingDays(subscription);
+  return remainingDays !== null && remainingDays <= RENEWAL_REMINDER_DAYS;
+};
+
+export const canRenewSubscription = (subscription: Subscription) =>
+  isPaidPlan(subscription.plan) &&
+  (subscription.status === "expired" ||
+    (subscription.status === "active" && isRenewalDue(subscription)));
+
+export const canCancelSubscription = (subscription: Subscription) =>
+  isPaidPlan(subscription.plan) && subscription.status === "active";
+
+/** Maps the checkout form details to the subscription checkout source */
+export const toCheckoutSource = <M extends MoyasarMethod>(
+  method: M,
+  details: MoyasarMethodDetails[M]
+): { source_type: CheckoutSourceType; source_data: Record<string, string> } => {
+  const source_type = CHECKOUT_SOURCE_TYPES[method];
+  const data = details as MoyasarMethodDetails[MoyasarMethod];
+
+  if ("card_number" in data) {
+    return {
+      source_type,
+      source_data: {
+        name: data.card_holder_name,
+        number: data.card_number,
+        cvc: data.cvc,
+        month: data.month,
+        year: data.year,
+      },
+    };
+  }
+  if ("mobile" in data) {
+    // The form already sends 966 numbers, the endpoint wants a leading +
+    const mobile = data.mobile.startsWith("+") ? data.mobile : `+${data.mobile}`;
+    return { source_type, source_data: { mobile } };
+  }
+  return { source_type, source_data: { ...data } };
+};
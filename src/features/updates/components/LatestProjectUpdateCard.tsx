@@ -0,0 +1,77 @@
+"use client";
+import React from "react";
+import Link from "next/link";
+import { useTranslations } from "next-intl";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useLocale } from "@/hooks/useLocale";
+import { useLatestProjectUpdate } from "../hooks/useLatestProjectUpdate";
+import { getUpdateMediaUrl } from "../utils/updates";
+
+interface LatestProjectUpdateCardProps {
+  // Dashboard of the owner, used to link to the project's execution page
+  dashboardRole: "individual" | "organization";
+}
+
+/**
+ * Newest progress update on the owner's projects. Renders nothing until
+ * a contractor has posted one.
+ */
+export function LatestProjectUpdateCard({
+  dashboardRole,
+}: LatestProjectUpdateCardProps) {
+  const t = useTranslations("updates.latest");
+  const { currentLocale } = useLocale();
+  const { latest, isLoading } = useLatestProjectUpdate();
+
+  if (isLoading) {
+    return <Skeleton className="h-24 w-full" />;
+  }
+
+  if (!latest) return null;
+
+  const { update, project } = latest;
+  const mediaUrl = update.type === "image" ? getUpdateMediaUrl(update) : null;
+
+  return (
+    <div className="flex w-full gap-4 rounded-md border border-[#AFAFAF] p-4 shadow-sm">
+      {mediaUrl && (
+        <img
+          src={mediaUrl}
+          alt={update.description || project.title}
+          className="h-20 w-20 shrink-0 rounded-md object-cover"
+          loading="lazy"
+        />
+      )}
+      <div className="min-w-0 flex-1 space-y-1">
+        <p className="text-xs text-design-gray">
+          {t("title")}
+          {" · "}
+          {new Date(update.created_at).toLocaleDateString(currentLocale)}
+        </p>
+        <h4 className="truncate font-semibold">{project.title}</h4>
+        {update.description && (
+          <p className="line-clamp-2 text-sm">{update.description}</p>
+        )}
+        <div className="flex items-center justify-between gap-2 text-sm">
+          {update.progress_percent !== null &&
+          update.progress_percent !== undefined ? (
+            <span className="text-design-gray">
+              {t("progress")}{" "}
+              <span className="text-design-green">
+                {update.progress_percent}%
+              </span>
+            </span>
+          ) : (
+            <span />
+          )}
+          <Link
+            href={`/dashboard/${dashboardRole}/projects/${project.id}/phases`}
+            className="font-semibold text-design-main"
+          >
+            {t("viewAll")}
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,249 @@
+"use client";
+import React, { useEffect, useMemo } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useTranslations } from "next-intl";
+import { Button } from "@/shared/components/ui/button";
+import { Input } from "@/shared/components/ui/input";
+import { Textarea } from "@/shared/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/shared/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/shared/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/shared/components/ui/select";
+import { ProjectPhase } from "@/features/phases/types";
+import {
+  PROJECT_UPDATE_TYPES,
+  UPDATE_FILE_ACCEPT,
+  UPDATE_LIMITS,
+} from "../constants";
+import {
+  UpdateFormValues,
+  createUpdateValidationSchemas,
+} from "../utils/validation";
+import { toUpdateFormValues } from "../utils/updates";
+
+// Radix selects can't hold an empty value, this stands for "no phase"
+const NO_PHASE = "none";
+
+interface PostUpdateDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  phases: ProjectPhase[];
+  isSaving: boolean;
+  onSubmit: (values: UpdateFormValues) => Promise<boolean>;
+}
+
+export function PostUpdateDialog({
+  open,
+  onOpenChange,
+  phases,
+  isSaving,
+  onSubmit,
+}: PostUpdateDialogProps) {
+  const t = useTranslations();
+  const { UpdateSchema } = useMemo(() => createUpdateValidationSchemas(t), [t]);
+
+  const form = useForm<UpdateFormValues>({
+    resolver: zodResolver(UpdateSchema),
+    mode: "onTouched",
+    defaultValues: toUpdateFormValues(),
+  });
+  const type = form.watch("type");
+  const accept = UPDATE_FILE_ACCEPT[type];
+
+  // Start from an empty update every time the dialog opens
+  useEffect(() => {
+    if (open) {
+      form.reset(toUpdateFormValues());
+    }
+  }, [open, form]);
+
+  const handleSubmit = async (values: UpdateFormValues) => {
+    const saved = await onSubmit(values);
+    if (saved) {
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{t("updates.form.title")}</DialogTitle>
+          <DialogDescription>{t("updates.form.description")}</DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit(handleSubmit)}
+            className="space-y-4"
+          >
+            <FormField
+              control={form.control}
+              name="type"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t("updates.form.type")}</FormLabel>
+                  <Select
+                    value={field.value}
+                    onValueChange={(value) => {
+                      field.onChange(value);
+                      form.setValue("file", null);
+                    }}
+                    disabled={isSaving}
+                  >
+                    <FormControl>
+                      <SelectTrigger className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {PROJECT_UPDATE_TYPES.map((item) => (
+                        <SelectItem key={item} value={item}>
+                          {t(`updates.types.${item}`)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            {accept && (
+              <FormField
+                control={form.control}
+                name="file"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t(`updates.form.file.${type}`)}</FormLabel>
+                    <FormControl>
+                      <Input
+                        // Remount so switching the type clears the picker
+                        key={type}
+                        type="file"
+                        accept={accept}
+                        name={field.name}
+                        onBlur={field.onBlur}
+                        onChange={(event) =>
+                          field.onChange(event.target.files?.[0] ?? null)
+                        }
+                        disabled={isSaving}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t("updates.form.details")}</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      {...field}
+                      rows={4}
+                      maxLength={UPDATE_LIMITS.descriptionMax}
+                      placeholder={t("updates.form.detailsPlaceholder")}
+                      disabled={isSaving}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="progress_percent"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t("updates.form.progress")}</FormLabel>
+                    <FormControl>
+                      <Input
+                        {...field}
+                        type="number"
+                        min={0}
+                        max={100}
+                        disabled={isSaving}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="project_phase_id"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t("updates.form.phase")}</FormLabel>
+                    <Select
+                      value={field.value || NO_PHASE}
+                      onValueChange={(value) =>
+                        field.onChange(value === NO_PHASE ? "" : value)
+                      }
+                      disabled={isSaving || phases.length === 0}
+                    >
+                      <FormControl>
+                        <SelectTrigger className="w-full">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={NO_PHASE}>
+                          {t("updates.form.noPhase")}
+                        </SelectItem>
+                        {phases.map((phase) => (
+                          <SelectItem key={phase.id} value={String(phase.id)}>
+                            {phase.title}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                disabled={isSaving}
+              >
+                {t("updates.form.cancel")}
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving ? t("updates.form.posting") : t("updates.form.post")}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
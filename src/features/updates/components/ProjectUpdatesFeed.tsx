@@ -0,0 +1,211 @@
+"use client";
+import React, { useState } from "react";
+import { useTranslations } from "next-intl";
+import { BellRing, Plus } from "lucide-react";
+import toast from "react-hot-toast";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/shared/components/ui/card";
+import { Button } from "@/shared/components/ui/button";
+import { ErrorState } from "@/shared/components/ui/ErrorState";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/shared/components/ui/alert-dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+import { OffersPagination } from "@/features/offers/components/common/OffersPagination";
+import { useLocale } from "@/hooks/useLocale";
+import { useProjectUpdates } from "../hooks/useProjectUpdates";
+import { ProjectUpdate, UpdateParty } from "../types";
+import { UPDATE_REQUESTS_SHOWN } from "../constants";
+import { UpdateFormValues } from "../utils/validation";
+import { PostUpdateDialog } from "./PostUpdateDialog";
+import { RequestUpdateButton } from "./RequestUpdateButton";
+import { UpdateCard } from "./UpdateCard";
+
+interface ProjectUpdatesFeedProps {
+  party: UpdateParty;
+  projectId: string;
+}
+
+/**
+ * Progress updates of a project. Contractors post and remove updates and
+ * see the owner's pending requests, owners request a new update.
+ */
+export function ProjectUpdatesFeed({
+  party,
+  projectId,
+}: ProjectUpdatesFeedProps) {
+  const t = useTranslations("updates");
+  const { currentLocale } = useLocale();
+  const {
+    updates,
+    meta,
+    setPage,
+    phases,
+    requests,
+    canPost,
+    isLoading,
+    isSaving,
+    error,
+    refetch,
+    postUpdate,
+    removeUpdate,
+  } = useProjectUpdates(party, projectId);
+  const [isPosting, setIsPosting] = useState(false);
+  const [removingUpdate, setRemovingUpdate] = useState<ProjectUpdate>();
+
+  const handlePost = async (values: UpdateFormValues) => {
+    const result = await postUpdate(values);
+    if (result.success) {
+      toast.success(result.message || t("feedback.postSuccess"));
+    } else {
+      toast.error(result.message || t("feedback.postError"));
+    }
+    return result.success;
+  };
+
+  const handleRemove = async () => {
+    if (!removingUpdate) return;
+
+    const result = await removeUpdate(removingUpdate.id);
+    if (result.success) {
+      toast.success(result.message || t("feedback.removeSuccess"));
+      setRemovingUpdate(undefined);
+    } else {
+      toast.error(result.message || t("feedback.removeError"));
+    }
+  };
+
+  const pendingRequests = requests.slice(0, UPDATE_REQUESTS_SHOWN);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div className="space-y-1.5">
+          <CardTitle>{t("title")}</CardTitle>
+          <CardDescription>
+            {canPost ? t("contractorSubtitle") : t("ownerSubtitle")}
+          </CardDescription>
+        </div>
+        {canPost ? (
+          <Button size="sm" onClick={() => setIsPosting(true)}>
+            <Plus className="h-4 w-4" />
+            {t("post")}
+          </Button>
+        ) : (
+          <RequestUpdateButton projectId={projectId} />
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {pendingRequests.length > 0 && (
+          <div className="space-y-1 rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-900">
+            <p className="flex items-center gap-2 font-medium">
+              <BellRing className="h-4 w-4" />
+              {t("pendingRequests", { count: requests.length })}
+            </p>
+            <ul className="ps-6 text-xs">
+              {pendingRequests.map((item) => (
+                <li key={item.id}>
+                  {t("requestedAt", {
+                    date: new Date(item.created_at).toLocaleString(
+                      currentLocale
+                    ),
+                  })}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {error ? (
+          <ErrorState
+            variant="inline"
+            title={t("loadError")}
+            error={error}
+            onRetry={refetch}
+          />
+        ) : isLoading ? (
+          <div className="space-y-3">
+            {[1, 2].map((item) => (
+              <Skeleton key={item} className="h-40 w-full" />
+            ))}
+          </div>
+        ) : updates.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            {canPost ? t("emptyContractor") : t("emptyOwner")}
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {updates.map((update) => (
+              <UpdateCard
+                key={update.id}
+                update={update}
+                onDelete={
+                  canPost ? () => setRemovingUpdate(update) : undefined
+                }
+              />
+            ))}
+          </div>
+        )}
+
+        {meta && (
+          <OffersPagination
+            currentPage={meta.current_page}
+            totalPages={meta.last_page}
+            onPageChange={setPage}
+          />
+        )}
+      </CardContent>
+
+      {canPost && (
+        <>
+          <PostUpdateDialog
+            open={isPosting}
+            onOpenChange={setIsPosting}
+            phases={phases}
+            isSaving={isSaving}
+            onSubmit={handlePost}
+          />
+          <AlertDialog
+            open={removingUpdate !== undefined}
+            onOpenChange={(open) => !open && setRemovingUpdate(undefined)}
+          >
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>{t("removeTitle")}</AlertDialogTitle>
+                <AlertDialogDescription>
+                  {t("removeDescription")}
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel disabled={isSaving}>
+                  {t("form.cancel")}
+                </AlertDialogCancel>
+                <AlertDialogAction
+                  onClick={(e) => {
+                    e.preventDefault();
+                    handleRemove();
+                  }}
+                  disabled={isSaving}
+                >
+                  {isSaving ? t("removing") : t("remove")}
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,45 @@
+"use client";
+import React from "react";
+import { useTranslations } from "next-intl";
+import { BellRing, Timer } from "lucide-react";
+import toast from "react-hot-toast";
+import { Button } from "@/shared/components/ui/button";
+import { useUpdateRequestCooldown } from "../hooks/useUpdateRequestCooldown";
+import { formatCountdown } from "../utils/updates";
+
+/** Owner's button to ask for an update, locked with a countdown meanwhile */
+export function RequestUpdateButton({ projectId }: { projectId: string }) {
+  const t = useTranslations("updates.request");
+  const { remainingSeconds, canRequest, isRequesting, requestUpdate } =
+    useUpdateRequestCooldown(projectId);
+
+  const handleRequest = async () => {
+    const result = await requestUpdate();
+    if (result.success) {
+      toast.success(result.message || t("success"));
+    } else {
+      toast.error(result.message || t("error"));
+    }
+  };
+
+  return (
+    <Button
+      variant="outline"
+      size="sm"
+      onClick={handleRequest}
+      disabled={!canRequest || isRequesting}
+    >
+      {remainingSeconds > 0 ? (
+        <>
+          <Timer className="h-4 w-4" />
+          {t("cooldown", { time: formatCountdown(remainingSeconds) })}
+        </>
+      ) : (
+        <>
+          <BellRing className="h-4 w-4" />
+          {isRequesting ? t("sending") : t("button")}
+        </>
+      )}
+    </Button>
+  );
+}
@@ -0,0 +1,79 @@
+"use client";
+import React from "react";
+import { useTranslations } from "next-intl";
+import { Trash2 } from "lucide-react";
+import { Card, CardContent } from "@/shared/components/ui/card";
+import { Button } from "@/shared/components/ui/button";
+import { Progress } from "@/shared/components/ui/progress";
+import { useLocale } from "@/hooks/useLocale";
+import { ProjectUpdate } from "../types";
+import { getUpdateMediaUrl } from "../utils/updates";
+
+interface UpdateCardProps {
+  update: ProjectUpdate;
+  onDelete?: () => void;
+}
+
+export function UpdateCard({ update, onDelete }: UpdateCardProps) {
+  const t = useTranslations("updates.card");
+  const { currentLocale } = useLocale();
+  const mediaUrl = getUpdateMediaUrl(update);
+  const hasProgress =
+    update.progress_percent !== null && update.progress_percent !== undefined;
+
+  return (
+    <Card>
+      <CardContent className="space-y-3 p-4">
+        <div className="flex items-start justify-between gap-4">
+          <p className="text-xs text-muted-foreground">
+            {update.author?.name || t("contractor")}
+            {" · "}
+            {new Date(update.created_at).toLocaleString(currentLocale)}
+            {update.phase && ` · ${update.phase.title}`}
+          </p>
+          {onDelete && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onDelete}
+              aria-label={t("delete")}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+
+        {mediaUrl && update.type === "image" && (
+          <img
+            src={mediaUrl}
+            alt={update.description || t("photo")}
+            className="max-h-96 w-full rounded-md object-cover"
+            loading="lazy"
+          />
+        )}
+        {mediaUrl && update.type === "video" && (
+          <video
+            src={mediaUrl}
+            controls
+            preload="metadata"
+            className="max-h-96 w-full rounded-md bg-black"
+          />
+        )}
+
+        {update.description && (
+          <p className="whitespace-pre-line text-sm">{update.description}</p>
+        )}
+
+        {hasProgress && (
+          <div className="space-y-1">
+            <div className="flex justify-between text-xs text-muted-foreground">
+              <span>{t("progress")}</span>
+              <span>{update.progress_percent}%</span>
+            </div>
+            <Progress value={update.progress_percent ?? 0} className="h-2" />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
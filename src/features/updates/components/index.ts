@@ -0,0 +1,5 @@
+export { ProjectUpdatesFeed } from "./ProjectUpdatesFeed";
+export { UpdateCard } from "./UpdateCard";
+export { PostUpdateDialog } from "./PostUpdateDialog";
+export { RequestUpdateButton } from "./RequestUpdateButton";
+export { LatestProjectUpdateCard } from "./LatestProjectUpdateCard";
@@ -0,0 +1,8 @@
+export {
+  PROJECT_UPDATE_TYPES,
+  UPDATE_FILE_ACCEPT,
+  UPDATES_PAGE_SIZE,
+  UPDATE_REQUESTS_SHOWN,
+  UPDATE_LIMITS,
+  LATEST_UPDATE_PROJECTS_LIMIT,
+} from "./updateConstants";
@@ -0,0 +1,28 @@
+import { ProjectUpdateType } from "../types";
+
+export const PROJECT_UPDATE_TYPES: ProjectUpdateType[] = [
+  "image",
+  "video",
+  "text",
+];
+
+// File input filter of each media type
+export const UPDATE_FILE_ACCEPT: Record<ProjectUpdateType, string | null> = {
+  image: "image/*",
+  video: "video/*",
+  text: null,
+};
+
+export const UPDATES_PAGE_SIZE = 10;
+
+// Pending requests shown to the contractor above the feed
+export const UPDATE_REQUESTS_SHOWN = 3;
+
+export const UPDATE_LIMITS = {
+  descriptionMax: 2000,
+  imageMaxSize: 10 * 1024 * 1024,
+  videoMaxSize: 100 * 1024 * 1024,
+} as const;
+
+// Signed projects checked for the newest update on the owner's dashboard
+export const LATEST_UPDATE_PROJECTS_LIMIT = 5;
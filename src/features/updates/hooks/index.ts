@@ -0,0 +1,3 @@
+export * from "./useProjectUpdates";
+export * from "./useUpdateRequestCooldown";
+export * from "./useLatestProjectUpdate";
@@ -0,0 +1,68 @@
+"use client";
+import { useCallback, useEffect, useState } from "react";
+import { contractApi } from "@/features/contracts/services/contractApi";
+import { updateApi } from "../services/updateApi";
+import { ProjectUpdate } from "../types";
+import { LATEST_UPDATE_PROJECTS_LIMIT } from "../constants";
+
+export interface LatestProjectUpdate {
+  update: ProjectUpdate;
+  project: { id: number; title: string };
+}
+
+/**
+ * The newest update across the owner's projects under execution, i.e.
+ * the ones whose contract both parties signed
+ */
+export const useLatestProjectUpdate = () => {
+  const [latest, setLatest] = useState<LatestProjectUpdate | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchLatest = useCallback(async () => {
+    setIsLoading(true);
+
+    const response = await contractApi.getContracts("owner", {
+      status: "signed_by_both",
+      per_page: LATEST_UPDATE_PROJECTS_LIMIT,
+    });
+    const contracts = response.success
+      ? (response.data || response.response)?.contracts || []
+      : [];
+    const projects = contracts.flatMap((contract) => {
+      const projectId = contract.project_id ?? contract.project?.id;
+      return projectId
+        ? [{ id: projectId, title: contract.project?.title || `#${projectId}` }]
+        : [];
+    });
+
+    const candidates = await Promise.all(
+      projects.map(async (project) => {
+        const updatesResponse = await updateApi.getLatestUpdates(project.id, 1);
+        const [update] = updatesResponse.success
+          ? updatesResponse.data || updatesResponse.response || []
+          : [];
+        return update ? { update, project } : null;
+      })
+    );
+
+    const newest = candidates.reduce<LatestProjectUpdate | null>(
+      (best, candidate) =>
+        candidate &&
+        (!best ||
+          new Date(candidate.update.created_at) >
+            new Date(best.update.created_at))
+          ? candidate
+          : best,
+      null
+    );
+    setLatest(newest);
+
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    fetchLatest();
+  }, [fetchLatest]);
+
+  return { latest, isLoading, refetch: fetchLatest };
+};
@@ -0,0 +1,137 @@
+"use client";
+import { useCallback, useEffect, useState } from "react";
+import { PaginationMeta } from "@/lib/apiClient";
+import { phaseApi } from "@/features/phases/services/phaseApi";
+import { ProjectPhase } from "@/features/phases/types";
+import { sortPhases } from "@/features/phases/utils/phases";
+import { updateApi } from "../services/updateApi";
+import { ProjectUpdate, UpdateParty, UpdateRequest } from "../types";
+import { UPDATES_PAGE_SIZE } from "../constants";
+import { UpdateFormValues } from "../utils/validation";
+import { toUpdatePayload } from "../utils/updates";
+
+type ActionResult = { success: boolean; message?: string };
+
+/**
+ * The activity feed of a project. Contractors also get the phases to tag
+ * an update with and the owner's update requests waiting on them.
+ */
+export const useProjectUpdates = (party: UpdateParty, projectId: string) => {
+  const [updates, setUpdates] = useState<ProjectUpdate[]>([]);
+  const [meta, setMeta] = useState<PaginationMeta | null>(null);
+  const [page, setPage] = useState(1);
+  const [phases, setPhases] = useState<ProjectPhase[]>([]);
+  const [requests, setRequests] = useState<UpdateRequest[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canPost = party === "contractor";
+
+  const fetchUpdates = useCallback(async () => {
+    if (!projectId) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    const response = await updateApi.getUpdates(projectId, {
+      page,
+      per_page: UPDATES_PAGE_SIZE,
+    });
+    if (response.success) {
+      setUpdates(response.data || response.response || []);
+      setMeta(response.meta ?? null);
+    } else {
+      setError(response.message || null);
+    }
+
+    setIsLoading(false);
+  }, [projectId, page]);
+
+  const fetchContext = useCallback(async () => {
+    if (!canPost || !projectId) return;
+
+    const [phasesResponse, requestsResponse] = await Promise.all([
+      phaseApi.getPhases(party, projectId),
+      updateApi.getUpdateRequests(projectId),
+    ]);
+
+    if (phasesResponse.success) {
+      setPhases(
+        sortPhases(phasesResponse.data || phasesResponse.response || [])
+      );
+    }
+    if (requestsResponse.success) {
+      setRequests(
+        (requestsResponse.data || requestsResponse.response || []).filter(
+          (item) => item.status === "sent"
+        )
+      );
+    }
+  }, [canPost, party, projectId]);
+
+  useEffect(() => {
+    fetchUpdates();
+  }, [fetchUpdates]);
+
+  useEffect(() => {
+    fetchContext();
+  }, [fetchContext]);
+
+  // A new update goes on top, so the feed returns to its first page
+  const postUpdate = useCallback(
+    async (values: UpdateFormValues): Promise<ActionResult> => {
+      setIsSaving(true);
+
+      const response = await updateApi.createUpdate(
+        projectId,
+        toUpdatePayload(values)
+      );
+      if (response.success) {
+        if (page === 1) {
+          await fetchUpdates();
+        } else {
+          setPage(1);
+        }
+        await fetchContext();
+      }
+
+      setIsSaving(false);
+      return { success: response.success, message: response.message };
+    },
+    [projectId, page, fetchUpdates, fetchContext]
+  );
+
+  const removeUpdate = useCallback(
+    async (updateId: number): Promise<ActionResult> => {
+      setIsSaving(true);
+
+      const response = await updateApi.deleteUpdate(projectId, updateId);
+      if (response.success) {
+        setUpdates((current) =>
+          current.filter((update) => update.id !== updateId)
+        );
+      }
+
+      setIsSaving(false);
+      return { success: response.success, message: response.message };
+    },
+    [projectId]
+  );
+
+  return {
+    updates,
+    meta,
+    page,
+    setPage,
+    phases,
+    requests,
+    canPost,
+    isLoading,
+    isSaving,
+    error,
+    refetch: fetchUpdates,
+    postUpdate,
+    removeUpdate,
+  };
+};
@@ -0,0 +1,70 @@
+"use client";
+import { useCallback, useEffect, useState } from "react";
+import { updateApi } from "../services/updateApi";
+import { getCooldownDeadline, getRemainingSeconds } from "../utils/updates";
+
+type ActionResult = { success: boolean; message?: string };
+
+/**
+ * The owner's "request an update" state. The countdown ticks locally
+ * until the cooldown the API reported runs out.
+ */
+export const useUpdateRequestCooldown = (projectId: string) => {
+  const [deadline, setDeadline] = useState<number | null>(null);
+  const [remainingSeconds, setRemainingSeconds] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRequesting, setIsRequesting] = useState(false);
+
+  const fetchCooldown = useCallback(async () => {
+    if (!projectId) return;
+
+    setIsLoading(true);
+
+    const response = await updateApi.getCooldown(projectId);
+    const cooldown = response.data || response.response;
+    const now = Date.now();
+    const next =
+      response.success && cooldown ? getCooldownDeadline(cooldown, now) : null;
+    setDeadline(next);
+    setRemainingSeconds(getRemainingSeconds(next, now));
+
+    setIsLoading(false);
+  }, [projectId]);
+
+  useEffect(() => {
+    fetchCooldown();
+  }, [fetchCooldown]);
+
+  useEffect(() => {
+    if (!deadline) return;
+
+    const timer = setInterval(() => {
+      const remaining = getRemainingSeconds(deadline, Date.now());
+      setRemainingSeconds(remaining);
+      if (remaining === 0) {
+        setDeadline(null);
+      }
+    }, 1000);
+
+    return () => clearInterval(timer);
+  }, [deadline]);
+
+  const requestUpdate = useCallback(async (): Promise<ActionResult> => {
+    setIsRequesting(true);
+
+    const response = await updateApi.requestUpdate(projectId);
+    // Either way the server knows when the next request is allowed
+    await fetchCooldown();
+
+    setIsRequesting(false);
+    return { success: response.success, message: response.message };
+  }, [projectId, fetchCooldown]);
+
+  return {
+    remainingSeconds,
+    canRequest: !isLoading && remainingSeconds === 0,
+    isLoading,
+    isRequesting,
+    requestUpdate,
+  };
+};
@@ -0,0 +1,17 @@
+// Hooks
+export * from "./hooks";
+
+// Types
+export * from "./types";
+
+// Services
+export * from "./services";
+
+// Constants
+export * from "./constants";
+
+// Utils
+export * from "./utils";
+
+// Components
+export * from "./components";
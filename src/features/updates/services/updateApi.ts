@@ -0,0 +1,82 @@
+import { ApiResponse } from "@/lib/apiClient";
+import * as sdk from "@/lib/sdk";
+import {
+  ProjectUpdate,
+  ProjectUpdatePayload,
+  UpdateFilters,
+  UpdateRequest,
+  UpdateRequestCooldown,
+} from "../types";
+
+/**
+ * Project Update API Service
+ * Progress updates contractors post on a project and the update requests
+ * owners send them
+ */
+class UpdateApiService {
+  /**
+   * Get a page of a project's updates, newest first
+   */
+  async getUpdates(
+    projectId: number | string,
+    filters?: UpdateFilters
+  ): Promise<ApiResponse<ProjectUpdate[]>> {
+    return sdk.listProjectUpdates<ProjectUpdate[]>(projectId, filters);
+  }
+
+  /**
+   * Get the most recent updates of a project
+   */
+  async getLatestUpdates(
+    projectId: number | string,
+    limit?: number
+  ): Promise<ApiResponse<ProjectUpdate[]>> {
+    return sdk.getLatestProjectUpdates<ProjectUpdate[]>(projectId, { limit });
+  }
+
+  /**
+   * Post a progress update (contractor), media goes up as multipart
+   */
+  async createUpdate(
+    projectId: number | string,
+    data: ProjectUpdatePayload
+  ): Promise<ApiResponse<ProjectUpdate>> {
+    return sdk.storeProjectUpdate<ProjectUpdate>(projectId, data);
+  }
+
+  async deleteUpdate(
+    projectId: number | string,
+    updateId: number | string
+  ): Promise<ApiResponse> {
+    return sdk.deleteProjectUpdate(projectId, updateId);
+  }
+
+  /**
+   * Get the update requests the owner sent on a project
+   */
+  async getUpdateRequests(
+    projectId: number | string
+  ): Promise<ApiResponse<UpdateRequest[]>> {
+    return sdk.listProjectUpdateRequests<UpdateRequest[]>(projectId);
+  }
+
+  /**
+   * Ask the contractor for an update (owner), refused during the cooldown
+   */
+  async requestUpdate(
+    projectId: number | string
+  ): Promise<ApiResponse<UpdateRequest>> {
+    return sdk.storeProjectUpdateRequest<UpdateRequest>(projectId);
+  }
+
+  async getCooldown(
+    projectId: number | string
+  ): Promise<ApiResponse<UpdateRequestCooldown>> {
+    return sdk.getProjectUpdateRequestCooldown<UpdateRequestCooldown>(
+      projectId
+    );
+  }
+}
+
+/** Singleton instance of the UpdateApiService */
+export const updateApi = new UpdateApiService();
@@ -0,0 +1,11 @@
+export type {
+  UpdateParty,
+  ProjectUpdateType,
+  UpdateRequestStatus,
+  UpdateAuthor,
+  ProjectUpdate,
+  UpdateRequest,
+  UpdateRequestCooldown,
+  ProjectUpdatePayload,
+  UpdateFilters,
+} from "./update";
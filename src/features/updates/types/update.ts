@@ -0,0 +1,59 @@
+import { PhaseParty } from "@/features/phases/types";
+
+/** Owners follow the feed, contractors post to it */
+export type UpdateParty = PhaseParty;
+
+export type ProjectUpdateType = "image" | "video" | "text";
+
+export type UpdateRequestStatus = "sent" | "blocked";
+
+export interface UpdateAuthor {
+  id: number;
+  name: string;
+  avatar?: string | null;
+}
+
+export interface ProjectUpdate {
+  id: number;
+  project_id: number;
+  project_phase_id?: number | null;
+  type: ProjectUpdateType;
+  description?: string | null;
+  file_path?: string | null;
+  file_url?: string | null;
+  progress_percent?: number | null;
+  phase?: { id: number; title: string } | null;
+  author?: UpdateAuthor | null;
+  created_at: string;
+}
+
+export interface UpdateRequest {
+  id: number;
+  project_id: number;
+  status: UpdateRequestStatus;
+  requested_by?: UpdateAuthor | null;
+  created_at: string;
+}
+
+/** Whether the owner may ask for another update yet */
+export interface UpdateRequestCooldown {
+  can_request: boolean;
+  remaining_seconds?: number | null;
+  next_request_at?: string | null;
+}
+
+// Multipart body of a new update, the file is required for images and videos
+export interface ProjectUpdatePayload {
+  type: ProjectUpdateType;
+  file_path?: File;
+  description?: string;
+  progress_percent?: number;
+  project_phase_id?: number;
+}
+
+export interface UpdateFilters {
+  page?: number;
+  per_page?: number;
+  type?: ProjectUpdateType;
+  project_phase_id?: number;
+}
@@ -0,0 +1,73 @@
+import { API_BASE_URL } from "@/lib/api";
+import {
+  ProjectUpdate,
+  ProjectUpdatePayload,
+  UpdateRequestCooldown,
+} from "../types";
+import { UpdateFormValues } from "./validation";
+
+/**
+ * When the owner may request again, as a timestamp. The API answers with
+ * either the next allowed time or the seconds left, `now` anchors the
+ * latter.
+ */
+export const getCooldownDeadline = (
+  cooldown: UpdateRequestCooldown | null,
+  now: number
+): number | null => {
+  if (!cooldown || cooldown.can_request) return null;
+
+  if (cooldown.next_request_at) {
+    const deadline = new Date(cooldown.next_request_at).getTime();
+    if (!Number.isNaN(deadline)) return deadline;
+  }
+
+  const seconds = Number(cooldown.remaining_seconds);
+  return Number.isFinite(seconds) && seconds > 0 ? now + seconds * 1000 : null;
+};
+
+export const getRemainingSeconds = (deadline: number | null, now: number) =>
+  deadline ? Math.max(0, Math.ceil((deadline - now) / 1000)) : 0;
+
+/** 75 → "1:15", 3725 → "1:02:05" */
+export const formatCountdown = (totalSeconds: number) => {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (value: number) => value.toString().padStart(2, "0");
+
+  return hours > 0
+    ? `${hours}:${pad(minutes)}:${pad(seconds)}`
+    : `${minutes}:${pad(seconds)}`;
+};
+
+/**
+ * Where the media of an update is served from. `file_path` may be relative
+ * to the API host.
+ */
+export const getUpdateMediaUrl = (update: ProjectUpdate) => {
+  const path = update.file_url || update.file_path;
+  return path ? new URL(path, new URL(API_BASE_URL).origin).href : null;
+};
+
+export const toUpdateFormValues = (): UpdateFormValues => ({
+  type: "image",
+  file: null,
+  description: "",
+  progress_percent: "",
+  project_phase_id: "",
+});
+
+export const toUpdatePayload = (
+  values: UpdateFormValues
+): ProjectUpdatePayload => ({
+  type: values.type,
+  file_path: values.type !== "text" && values.file ? values.file : undefined,
+  description: values.description || undefined,
+  progress_percent: values.progress_percent
+    ? Number(values.progress_percent)
+    : undefined,
+  project_phase_id: values.project_phase_id
+    ? Number(values.project_phase_id)
+    : undefined,
+});
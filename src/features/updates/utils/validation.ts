@@ -0,0 +1,77 @@
+"use client";
+import { z } from "zod";
+import { getUpdateValidationMessages } from "./validationMessages";
+import { PROJECT_UPDATE_TYPES, UPDATE_LIMITS } from "../constants";
+
+const MAX_FILE_SIZE = {
+  image: UPDATE_LIMITS.imageMaxSize,
+  video: UPDATE_LIMITS.videoMaxSize,
+} as const;
+
+export const createUpdateValidationSchemas = (t: (key: string) => string) => {
+  const messages = getUpdateValidationMessages(t);
+
+  const UpdateSchema = z
+    .object({
+      type: z.enum(PROJECT_UPDATE_TYPES),
+      file: z.custom<File | null>(
+        (value) => value === null || value instanceof File
+      ),
+      description: z
+        .string()
+        .trim()
+        .max(UPDATE_LIMITS.descriptionMax, messages.description.maxLength),
+      // Empty inputs stay empty strings so the fields remain controlled
+      progress_percent: z
+        .string()
+        .trim()
+        .refine(
+          (value) =>
+            value === "" ||
+            (Number.isInteger(Number(value)) &&
+              Number(value) >= 0 &&
+              Number(value) <= 100),
+          messages.progress.invalid
+        ),
+      project_phase_id: z.string(),
+    })
+    // Photos and videos need their file, a text update needs its text
+    .superRefine((values, context) => {
+      if (values.type === "text") {
+        if (!values.description) {
+          context.addIssue({
+            code: "custom",
+            message: messages.description.required,
+            path: ["description"],
+          });
+        }
+        return;
+      }
+
+      if (!values.file) {
+        context.addIssue({
+          code: "custom",
+          message: messages.file.required,
+          path: ["file"],
+        });
+      } else if (!values.file.type.startsWith(`${values.type}/`)) {
+        context.addIssue({
+          code: "custom",
+          message: messages.file.invalidType,
+          path: ["file"],
+        });
+      } else if (values.file.size > MAX_FILE_SIZE[values.type]) {
+        context.addIssue({
+          code: "custom",
+          message: messages.file.tooLarge,
+          path: ["file"],
+        });
+      }
+    });
+
+  return { UpdateSchema };
+};
+
+export type UpdateFormValues = z.infer<
+  ReturnType<typeof createUpdateValidationSchemas>["UpdateSchema"]
+>;
@@ -0,0 +1,15 @@
+"use client";
+export const getUpdateValidationMessages = (t: (key: string) => string) => ({
+  file: {
+    required: t("feedback.validation.projectUpdate.file.required"),
+    invalidType: t("feedback.validation.projectUpdate.file.invalidType"),
+    tooLarge: t("feedback.validation.projectUpdate.file.tooLarge"),
+  },
+  description: {
+    required: t("feedback.validation.projectUpdate.description.required"),
+    maxLength: t("feedback.validation.projectUpdate.description.maxLength"),
+  },
+  progress: {
+    invalid: t("feedback.validation.projectUpdate.progress.invalid"),
+  },
+});
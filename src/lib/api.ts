@@ -1,9 +1,18 @@
-import axios from "axios";
+import axios, { AxiosError, InternalAxiosRequestConfig } from "axios";
 import { getLocaleFromClient, defaultLocale } from "@/i18n";
+import { tokenStorage } from "@/features/auth/utils/tokenStorage";
+
+const REFRESH_URL = "/auth/refresh";
+
+type RetriableRequestConfig = InternalAxiosRequestConfig & {
+  _retry?: boolean;
+};
+
+export const API_BASE_URL = "https://moatasem.pinpaiss.com/api/v1/";
 
 // Create axios instance with base configuration
 export const api = axios.create({
-  baseURL: "https://moatasem.pinpaiss.com/api/v1/",
+  baseURL: API_BASE_URL,
   timeout: 30000, // 10 seconds timeout
   headers: {
     "Content-Type": "application/json",
@@ -11,12 +20,40 @@ export const api = axios.create({
   },
 });
 
+// The single refresh in flight, every request that needs a new token
+// waits on it instead of starting its own
+let refreshPromise: Promise<string | null> | null = null;
+
+const refreshAccessToken = (): Promise<string | null> => {
+  if (!refreshPromise) {
+    refreshPromise = (async () => {
+      // Imported lazily, the auth service itself sends its requests
+      // through this client
+      const { authApi } = await import("@/features/auth/services/authApi");
+      // Clears the session and logs out when the refresh token is expired
+      const result = await authApi.refreshTokens();
+      return result.success ? tokenStorage.getAccessToken() : null;
+    })().finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+};
+
+const isRefreshRequest = (config?: InternalAxiosRequestConfig) =>
+  Boolean(config?.url?.includes(REFRESH_URL));
+
 // Request interceptor for adding auth tokens, etc.
 api.interceptors.request.use(
-  (config) => {
+  async (config) => {
     // Set current language for each request
     config.headers["Accept-Language"] = getLocaleFromClient();
 
+    // Requests made while the token is being refreshed wait for the new one
+    if (refreshPromise && !isRefreshRequest(config)) {
+      await refreshPromise;
+    }
+
     // Add authentication token if available
     if (typeof window !== "undefined") {
       const token = localStorage.getItem("access_token");
@@ -36,7 +73,41 @@ api.interceptors.response.use(
   (response) => {
     return response;
   },
-  (error) => {
+  async (error: AxiosError) => {
+    const config = error.config as RetriableRequestConfig | undefined;
+
+    // An expired access token is refreshed once and the request replayed
+    if (
+      error.response?.status === 401 &&
+      config &&
+      !config._retry &&
+      !isRefreshRequest(config)
+    ) {
+      config._retry = true;
+
+      // The token was already refreshed after this request was sent,
+      // replay it with the new one instead of refreshing again
+      const currentToken = tokenStorage.getAccessToken();
+      if (
+        currentToken &&
+        config.headers.Authorization !== `Bearer ${currentToken}`
+      ) {
+        config.headers.Authorization = `Bearer ${currentToken}`;
+        return api(config);
+      }
+
+      // A signed-in request without a refresh token goes through the refresh
+      // too, so it signs out the same way an expired refresh token does
+      const hasSession = Boolean(
+        config.headers.Authorization || tokenStorage.getRefreshToken()
+      );
+      const token = hasSession ? await refreshAccessToken() : null;
+      if (token) {
+        config.headers.Authorization = `Bearer ${token}`;
+        return api(config);
+      }
+    }
+
     // Handle common errors here
     if (error.response?.status === 401) {
       // Handle unauthorized access
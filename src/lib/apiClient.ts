@@ -20,6 +20,8 @@ export interface ApiResponse<T = any> {
   response?: T;
   message?: string;
   meta?: PaginationMeta;
+  // HTTP status of a failed request, when the server answered
+  status?: number;
 }
 
 export interface RequestConfig {
@@ -178,6 +180,7 @@ async function executeRequest<T>(
         error?.response?.data?.message ||
         error?.message ||
         "Something went wrong",
+      status: error?.response?.status,
     };
   }
 }
@@ -0,0 +1,7610 @@
+// This file is generated from api.json by scripts/generate-api-sdk.mjs.
+// Do not edit it by hand, run `npm run api:generate` instead.
+/* eslint-disable */
+import { request, RequestConfig } from "@/lib/apiClient";
+import { PathParam, withQuery } from "./utils";
+
+// --- Schemas ---
+
+export type PaginationMeta = {
+  current_page?: number;
+  last_page?: number;
+  per_page?: number;
+  total?: number;
+  from?: number;
+  to?: number;
+};
+
+export type BackupResource = {
+  id?: string;
+  name?: string;
+  description?: string;
+  type?: "full" | "database" | "files" | "custom";
+  status?: "pending" | "in_progress" | "completed" | "failed" | "cancelled";
+  progress?: number;
+  progress_message?: string;
+  file_path?: string;
+  file_size?: number;
+  formatted_file_size?: string;
+  checksum?: string;
+  compression?: "none" | "gzip" | "zip";
+  is_encrypted?: boolean;
+  encryption_method?: string;
+  priority?: "low" | "normal" | "high" | "critical";
+  is_automatic?: boolean;
+  retention_days?: number;
+  expires_at?: string;
+  tables_count?: number;
+  records_count?: number;
+  files_count?: number;
+  created_by?: {
+    id?: number;
+    name?: string;
+    email?: string;
+  };
+  created_at?: string;
+  started_at?: string;
+  completed_at?: string;
+  failed_at?: string | null;
+  updated_at?: string;
+  formatted_created_at?: string;
+  time_ago?: string;
+  duration?: string;
+  type_label?: string;
+  status_label?: string;
+  priority_label?: string;
+  compression_label?: string;
+  status_color?: string;
+  status_icon?: string;
+  can_restore?: boolean;
+  can_download?: boolean;
+  can_delete?: boolean;
+  is_expired?: boolean;
+  days_until_expiry?: number;
+  error_message?: string | null;
+};
+
+export type HealthCheckResource = {
+  overall_status?: string;
+  checks?: {
+    database?: {
+      status?: string;
+      connection_time?: number;
+      query_time?: number;
+    };
+    storage?: {
+      status?: string;
+      total_space?: number;
+      used_space?: number;
+      free_space?: number;
+      usage_percentage?: number;
+    };
+    cache?: {
+      status?: string;
+      response_time?: number;
+    };
+    queue?: {
+      status?: string;
+      jobs_count?: number;
+    };
+    ssl?: {
+      status?: string;
+      valid_until?: string;
+    };
+    backup?: {
+      status?: string;
+      last_backup?: string;
+    };
+    cpu?: {
+      status?: string;
+      usage_percentage?: number;
+    };
+    memory?: {
+      status?: string;
+      usage_percentage?: number;
+    };
+    permissions?: {
+      status?: string;
+      issues_count?: number;
+    };
+  };
+  summary?: {
+    total_checks?: number;
+    healthy_checks?: number;
+    warning_checks?: number;
+    critical_checks?: number;
+    error_checks?: number;
+    health_score?: number;
+  };
+  timestamp?: string;
+};
+
+export type CriteriaCollection = {
+  data?: CriteriaResource[];
+};
+
+export type CriteriaResource = {
+  criterion_id?: number;
+  code?: string;
+  name?: string;
+  weight?: number;
+  is_required?: boolean;
+  subject_type?: string;
+  user_type?: string;
+};
+
+// --- Backup ---
+
+export type CreateBackupBody = {
+  type?: "full" | "database" | "files" | "custom";
+  name?: string;
+  description?: string;
+  include_files?: boolean;
+  include_database?: boolean;
+  include_logs?: boolean;
+  compression?: "none" | "gzip" | "zip";
+  encryption?: boolean;
+  schedule_type?: "manual" | "daily" | "weekly" | "monthly";
+  retention_days?: number;
+};
+
+export type CreateBackupData = {
+  backup_id?: string;
+  status?: string;
+  estimated_duration?: number;
+  progress_url?: string;
+};
+
+/** إنشاء نسخة احتياطية */
+export const createBackup = <T = CreateBackupData>(
+  body: CreateBackupBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", "/backup/create", body, config);
+
+export interface GetBackupsQuery {
+  /** رقم الصفحة */
+  page?: number;
+  /** عدد العناصر في الصفحة */
+  per_page?: number;
+  /** نوع النسخة الاحتياطية */
+  type?: "full" | "database" | "files" | "custom";
+  /** حالة النسخة الاحتياطية */
+  status?: "pending" | "in_progress" | "completed" | "failed" | "cancelled";
+}
+
+export type GetBackupsData = {
+  backups?: BackupResource[];
+  pagination?: PaginationMeta;
+  summary?: {
+    total_size?: number;
+    successful_backups?: number;
+    failed_backups?: number;
+    last_successful_backup?: string;
+  };
+};
+
+/** قائمة النسخ الاحتياطية */
+export const getBackups = <T = GetBackupsData>(
+  query?: GetBackupsQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery("/backup", query), undefined, config);
+
+export type GetBackupData = BackupResource;
+
+/** تفاصيل النسخة الاحتياطية */
+export const getBackup = <T = GetBackupData>(
+  id: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/backup/${id}`, undefined, config);
+
+export type DeleteBackupData = unknown;
+
+/** حذف النسخة الاحتياطية */
+export const deleteBackup = <T = DeleteBackupData>(
+  id: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("delete", `/backup/${id}`, undefined, config);
+
+export type GetBackupProgressData = {
+  backup_id?: string;
+  status?: string;
+  progress_percentage?: number;
+  current_step?: string;
+  steps_completed?: number;
+  total_steps?: number;
+  estimated_time_remaining?: number;
+  current_file?: string;
+  files_processed?: number;
+  total_files?: number;
+  size_processed?: number;
+  total_size?: number;
+};
+
+/** تقدم النسخ الاحتياطي */
+export const getBackupProgress = <T = GetBackupProgressData>(
+  id: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/backup/${id}/progress`, undefined, config);
+
+export type DownloadBackupData = unknown;
+
+/** تحميل النسخة الاحتياطية */
+export const downloadBackup = <T = DownloadBackupData>(
+  id: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/backup/${id}/download`, undefined, config);
+
+export type RestoreBackupBody = {
+  restore_database?: boolean;
+  restore_files?: boolean;
+  restore_settings?: boolean;
+  confirmation_code?: string;
+  backup_current_data?: boolean;
+};
+
+export type RestoreBackupData = {
+  restore_id?: string;
+  status?: string;
+  estimated_duration?: number;
+  progress_url?: string;
+  warning?: string;
+};
+
+/** استعادة النسخة الاحتياطية */
+export const restoreBackup = <T = RestoreBackupData>(
+  id: PathParam,
+  body: RestoreBackupBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/backup/${id}/restore`, body, config);
+
+export type CancelBackupData = unknown;
+
+/** إلغاء النسخ الاحتياطي */
+export const cancelBackup = <T = CancelBackupData>(
+  id: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/backup/${id}/cancel`, undefined, config);
+
+export type GetBackupSettingsData = {
+  auto_backup_enabled?: boolean;
+  backup_frequency?: string;
+  backup_time?: string;
+  retention_days?: number;
+  max_backups?: number;
+  compression_enabled?: boolean;
+  encryption_enabled?: boolean;
+  storage_location?: string;
+  available_storage?: number;
+  used_storage?: number;
+};
+
+/** إعدادات النسخ الاحتياطي */
+export const getBackupSettings = <T = GetBackupSettingsData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/backup/settings", undefined, config);
+
+export type UpdateBackupSettingsBody = {
+  auto_backup_enabled?: boolean;
+  backup_frequency?: "daily" | "weekly" | "monthly";
+  backup_time?: string;
+  retention_days?: number;
+  max_backups?: number;
+  compression_enabled?: boolean;
+  encryption_enabled?: boolean;
+};
+
+export type UpdateBackupSettingsData = Record<string, unknown>;
+
+/** تحديث إعدادات النسخ الاحتياطي */
+export const updateBackupSettings = <T = UpdateBackupSettingsData>(
+  body: UpdateBackupSettingsBody,
+  config?: RequestConfig
+) =>
+  request<T>("put", "/backup/settings", body, config);
+
+// --- Health ---
+
+export type BasicHealthCheckData = {
+  status?: string;
+  timestamp?: string;
+  version?: string;
+  uptime?: number;
+  environment?: string;
+};
+
+/** فحص صحة النظام الأساسي */
+export const basicHealthCheck = <T = BasicHealthCheckData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/health/check", undefined, config);
+
+export type DetailedHealthCheckData = HealthCheckResource;
+
+/** حالة النظام المفصلة */
+export const detailedHealthCheck = <T = DetailedHealthCheckData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/health/status", undefined, config);
+
+export type DatabaseHealthCheckData = {
+  status?: string;
+  connection_time?: number;
+  query_time?: number;
+  database_size?: number;
+  active_connections?: number;
+  max_connections?: number;
+  tables_count?: number;
+  last_backup?: string | null;
+};
+
+/** فحص قاعدة البيانات */
+export const databaseHealthCheck = <T = DatabaseHealthCheckData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/health/database", undefined, config);
+
+export type StorageHealthCheckData = {
+  status?: string;
+  total_space?: number;
+  used_space?: number;
+  free_space?: number;
+  usage_percentage?: number;
+  disk_health?: string;
+  write_test?: boolean;
+  read_test?: boolean;
+  permissions?: boolean;
+  directories?: {
+    storage?: boolean;
+    logs?: boolean;
+    cache?: boolean;
+    uploads?: boolean;
+  };
+};
+
+/** فحص التخزين */
+export const storageHealthCheck = <T = StorageHealthCheckData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/health/storage", undefined, config);
+
+export type ServicesHealthCheckData = {
+  overall_status?: string;
+  services?: {
+    email?: {
+      status?: string;
+      response_time?: number;
+      last_check?: string;
+    };
+    sms?: {
+      status?: string;
+      response_time?: number;
+      last_check?: string;
+    };
+    payment_gateway?: {
+      status?: string;
+      response_time?: number;
+      last_check?: string;
+    };
+    file_storage?: {
+      status?: string;
+      response_time?: number;
+      last_check?: string;
+    };
+  };
+};
+
+/** فحص الخدمات الخارجية */
+export const servicesHealthCheck = <T = ServicesHealthCheckData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/health/services", undefined, config);
+
+export type PerformanceHealthCheckData = {
+  status?: string;
+  cpu_usage?: number;
+  memory_usage?: {
+    used?: number;
+    total?: number;
+    percentage?: number;
+  };
+  load_average?: {
+    "1min"?: number;
+    "5min"?: number;
+    "15min"?: number;
+  };
+  response_times?: {
+    average?: number;
+    p95?: number;
+    p99?: number;
+  };
+  active_users?: number;
+  requests_per_minute?: number;
+  error_rate?: number;
+};
+
+/** فحص الأداء */
+export const performanceHealthCheck = <T = PerformanceHealthCheckData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/health/performance", undefined, config);
+
+export type SecurityHealthCheckData = {
+  status?: string;
+  ssl_certificate?: {
+    valid?: boolean;
+    expires_at?: string;
+    days_until_expiry?: number;
+  };
+  security_headers?: {
+    x_frame_options?: boolean;
+    x_content_type_options?: boolean;
+    x_xss_protection?: boolean;
+    strict_transport_security?: boolean;
+  };
+  failed_login_attempts?: number;
+  blocked_ips?: number;
+  last_security_scan?: string;
+  vulnerabilities?: Array<{
+    type?: string;
+    description?: string;
+  }>;
+};
+
+/** فحص الأمان */
+export const securityHealthCheck = <T = SecurityHealthCheckData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/health/security", undefined, config);
+
+export interface GetHealthLogsQuery {
+  /** رقم الصفحة */
+  page?: number;
+  /** عدد العناصر في الصفحة */
+  per_page?: number;
+  /** نوع الفحص */
+  type?: "basic" | "detailed" | "database" | "storage" | "services" | "performance" | "security";
+  /** حالة الفحص */
+  status?: "healthy" | "warning" | "critical" | "error";
+}
+
+export type GetHealthLogsData = {
+  logs?: Array<{
+    id?: number;
+    type?: string;
+    status?: string;
+    message?: string;
+    details?: Record<string, unknown>;
+    duration?: number;
+    created_at?: string;
+  }>;
+  pagination?: PaginationMeta;
+};
+
+/** سجلات صحة النظام */
+export const getHealthLogs = <T = GetHealthLogsData>(
+  query?: GetHealthLogsQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery("/health/logs", query), undefined, config);
+
+export type RunCustomHealthCheckBody = {
+  checks?: Array<"database" | "storage" | "services" | "performance" | "security">;
+  save_log?: boolean;
+  send_notification?: boolean;
+};
+
+export type RunCustomHealthCheckData = {
+  overall_status?: string;
+  checks_run?: number;
+  duration?: number;
+  results?: Record<string, unknown>;
+};
+
+/** تشغيل فحص مخصص */
+export const runCustomHealthCheck = <T = RunCustomHealthCheckData>(
+  body: RunCustomHealthCheckBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", "/health/run-check", body, config);
+
+export interface GetHealthAlertsQuery {
+  /** مستوى الخطورة */
+  severity?: "low" | "medium" | "high" | "critical";
+  /** حالة التنبيه */
+  status?: "active" | "acknowledged" | "resolved";
+}
+
+export type GetHealthAlertsData = {
+  alerts?: Array<{
+    id?: number;
+    type?: string;
+    severity?: string;
+    status?: string;
+    title?: string;
+    message?: string;
+    created_at?: string;
+    acknowledged_at?: string | null;
+    resolved_at?: string | null;
+  }>;
+  summary?: {
+    total?: number;
+    critical?: number;
+    high?: number;
+    medium?: number;
+    low?: number;
+  };
+};
+
+/** تنبيهات صحة النظام */
+export const getHealthAlerts = <T = GetHealthAlertsData>(
+  query?: GetHealthAlertsQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery("/health/alerts", query), undefined, config);
+
+export type AcknowledgeHealthAlertBody = {
+  note?: string;
+};
+
+export type AcknowledgeHealthAlertData = unknown;
+
+/** الإقرار بالتنبيه */
+export const acknowledgeHealthAlert = <T = AcknowledgeHealthAlertData>(
+  id: PathParam,
+  body?: AcknowledgeHealthAlertBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/health/alerts/${id}/acknowledge`, body, config);
+
+// --- Public Testing ---
+
+export type TestPublicData = unknown;
+
+/** success public */
+export const testPublic = <T = TestPublicData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/test/public", undefined, config);
+
+// --- Authentication ---
+
+export type LoginBody = {
+  identifier: string;
+  password: string;
+};
+
+export type LoginData = unknown;
+
+/** User login */
+export const login = <T = LoginData>(
+  body: LoginBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", "/auth/login", body, config);
+
+export type RegisterBody = {
+  user_type?: "individual";
+  first_name: string;
+  last_name: string;
+  national_id: string;
+} | {
+  user_type?: "organization";
+  organization_name: string;
+  commercial_register_number: string;
+} | {
+  user_type?: "governmental";
+  organization_name: string;
+} | {
+  user_type?: "supplier";
+  business_name: string;
+  commercial_registration_number: string;
+} | {
+  user_type?: "engineering_office";
+  office_name: string;
+  license_number: string;
+  commercial_registration_number: string;
+} | {
+  user_type?: "freelance_engineer";
+  first_name: string;
+  last_name: string;
+  license_number: string;
+} | {
+  user_type?: "contractor";
+  company_name: string;
+  commercial_registration_number: string;
+};
+
+export type RegisterData = unknown;
+
+/** User registration */
+export const register = <T = RegisterData>(
+  body: RegisterBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", "/auth/register", body, config);
+
+export type LogoutData = unknown;
+
+/** User logout */
+export const logout = <T = LogoutData>(
+  config?: RequestConfig
+) =>
+  request<T>("post", "/auth/logout", undefined, config);
+
+export type RefreshData = {
+  access_token?: string;
+  token_type?: string;
+  expires_in?: number;
+};
+
+/** Refresh JWT token */
+export const refresh = <T = RefreshData>(
+  config?: RequestConfig
+) =>
+  request<T>("post", "/auth/refresh", undefined, config);
+
+export type ChangePasswordBody = {
+  current_password: string;
+  new_password: string;
+  new_password_confirmation: string;
+};
+
+export type ChangePasswordData = unknown;
+
+/** Change password */
+export const changePassword = <T = ChangePasswordData>(
+  body: ChangePasswordBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", "/auth/change-password", body, config);
+
+export type DeleteAccountBody = {
+  password: string;
+  confirmation: string;
+};
+
+export type DeleteAccountData = unknown;
+
+/** Delete account */
+export const deleteAccount = <T = DeleteAccountData>(
+  body: DeleteAccountBody,
+  config?: RequestConfig
+) =>
+  request<T>("delete", "/auth/delete-account", body, config);
+
+// --- Base Document ---
+
+export type PostBaseDocumentUploadDocumentBody = {
+  document_type_id: number;
+  file: File;
+  custom_name?: string;
+  description?: string;
+  expiry_date?: string;
+};
+
+export type PostBaseDocumentUploadDocumentData = Record<string, unknown>;
+
+/** رفع وثيقة لأي نوع من المستخدمين */
+export const postBaseDocumentUploadDocument = <T = PostBaseDocumentUploadDocumentData>(
+  body: PostBaseDocumentUploadDocumentBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", "/base/document/upload-document", body, config);
+
+export type PostBaseDocumentUpdateDocumentBody = {
+  document_id: number;
+  file?: File;
+  custom_name?: string;
+  description?: string;
+  expiry_date?: string;
+};
+
+export type PostBaseDocumentUpdateDocumentData = Record<string, unknown>;
+
+/** تحديث وثيقة */
+export const postBaseDocumentUpdateDocument = <T = PostBaseDocumentUpdateDocumentData>(
+  body: PostBaseDocumentUpdateDocumentBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", "/base/document/update-document", body, config);
+
+export type PostBaseDocumentUpdateChangeDocuemntRequestBody = {
+  document_type_id: number;
+  change_reason: string;
+  user_notes?: string;
+};
+
+export type PostBaseDocumentUpdateChangeDocuemntRequestData = unknown;
+
+/** تغيير أي وثيقة لأي نوع من المستخدمين */
+export const postBaseDocumentUpdateChangeDocuemntRequest = <T = PostBaseDocumentUpdateChangeDocuemntRequestData>(
+  body: PostBaseDocumentUpdateChangeDocuemntRequestBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", "/base/document/update-change-docuemnt-request", body, config);
+
+export type PostBaseDocumentCancelBody = {
+  pending_document_update_id: number;
+  user_notes?: string;
+};
+
+export type PostBaseDocumentCancelData = boolean;
+
+/** إلغاء طلب تحديث وثيقة */
+export const postBaseDocumentCancel = <T = PostBaseDocumentCancelData>(
+  body: PostBaseDocumentCancelBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", "/base/document/cancel", body, config);
+
+export type GetBaseDocumentRequiredDocumentsData = Array<Record<string, unknown>>;
+
+/** الحصول على الوثائق المطلوبة للمستخدم */
+export const getBaseDocumentRequiredDocuments = <T = GetBaseDocumentRequiredDocumentsData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/base/document/required-documents", undefined, config);
+
+export type GetBaseDocumentRequiredDocumentsWithUploadsData = Array<Record<string, unknown>>;
+
+/** الحصول على الوثائق المطلوبة مع الوثائق المرفوعة */
+export const getBaseDocumentRequiredDocumentsWithUploads = <T = GetBaseDocumentRequiredDocumentsWithUploadsData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/base/document/required-documents-with-uploads", undefined, config);
+
+export type GetBaseDocumentUploadedDocumentsData = Array<Record<string, unknown>>;
+
+/** الحصول على جميع الوثائق المرفوعة للمستخدم */
+export const getBaseDocumentUploadedDocuments = <T = GetBaseDocumentUploadedDocumentsData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/base/document/uploaded-documents", undefined, config);
+
+export type DeleteBaseDocumentDeleteDocumentBody = {
+  document_id: number;
+};
+
+export type DeleteBaseDocumentDeleteDocumentData = boolean;
+
+/** حذف وثيقة */
+export const deleteBaseDocumentDeleteDocument = <T = DeleteBaseDocumentDeleteDocumentData>(
+  body: DeleteBaseDocumentDeleteDocumentBody,
+  config?: RequestConfig
+) =>
+  request<T>("delete", "/base/document/delete-document", body, config);
+
+// --- Base Download ---
+
+export interface DownloadFileBaseQuery {
+  /** Path of the file */
+  path: string;
+  /** Original name of the file */
+  originalName: string;
+}
+
+export type DownloadFileBaseData = unknown;
+
+/** Download file */
+export const downloadFileBase = <T = DownloadFileBaseData>(
+  query: DownloadFileBaseQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery("/base/download/download", query), undefined, config);
+
+// --- Base Profile Avatar ---
+
+export type PostBaseProfileAvatarUploadBody = {
+  file: File;
+};
+
+export type PostBaseProfileAvatarUploadData = Record<string, unknown>;
+
+/** رفع صورة شخصية لأي نوع من المستخدمين */
+export const postBaseProfileAvatarUpload = <T = PostBaseProfileAvatarUploadData>(
+  body: PostBaseProfileAvatarUploadBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", "/base/profile/avatar/upload", body, config);
+
+export type PostBaseProfileAvatarUpdateBody = {
+  file: File;
+};
+
+export type PostBaseProfileAvatarUpdateData = Record<string, unknown>;
+
+/** تحديث صورة شخصية لأي نوع من المستخدمين */
+export const postBaseProfileAvatarUpdate = <T = PostBaseProfileAvatarUpdateData>(
+  body: PostBaseProfileAvatarUpdateBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", "/base/profile/avatar/update", body, config);
+
+export type PostBaseProfileAvatarRemoveData = unknown;
+
+/** حذف صورة شخصية لأي نوع من المستخدمين */
+export const postBaseProfileAvatarRemove = <T = PostBaseProfileAvatarRemoveData>(
+  config?: RequestConfig
+) =>
+  request<T>("post", "/base/profile/avatar/remove", undefined, config);
+
+// --- Base Profile Actions ---
+
+export type PostBaseProfileSendForReviewData = unknown;
+
+/** إرسال الملف الشخصي للمراجعة - الخطوة الثالثة */
+export const postBaseProfileSendForReview = <T = PostBaseProfileSendForReviewData>(
+  config?: RequestConfig
+) =>
+  request<T>("post", "/base/profile/send-for-review", undefined, config);
+
+export type PostBaseProfileResetToDraftData = unknown;
+
+/** إعادة ضبط الملف الشخصي للمسودة */
+export const postBaseProfileResetToDraft = <T = PostBaseProfileResetToDraftData>(
+  config?: RequestConfig
+) =>
+  request<T>("post", "/base/profile/reset-to-draft", undefined, config);
+
+// --- Contractor Profile ---
+
+export type GetContractorProfileData = Record<string, unknown>;
+
+/** Get contractor profile */
+export const getContractorProfile = <T = GetContractorProfileData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/contractor/profile/", undefined, config);
+
+// --- Contractor Projects Previous ---
+
+export type GetContractorProjectsPreviousData = unknown;
+
+/** Get contractor previous projects */
+export const getContractorProjectsPrevious = <T = GetContractorProjectsPreviousData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/contractor/projects-previous", undefined, config);
+
+export type CreateContractorProjectPreviousBody = {
+  project_name_ar: string;
+  project_name_en: string;
+  description_ar: string;
+  description_en: string;
+  project_type_id?: number;
+  city_id?: number;
+  specific_location?: string;
+  start_date?: string;
+  end_date?: string;
+  execution_date?: string;
+  project_value?: number;
+  currency?: string;
+  display_order?: number;
+  project_features?: string[];
+  challenges_faced?: string;
+  solutions_provided?: string;
+  project_images?: File[];
+};
+
+export type CreateContractorProjectPreviousData = unknown;
+
+/** Create new contractor previous project */
+export const createContractorProjectPrevious = <T = CreateContractorProjectPreviousData>(
+  body: CreateContractorProjectPreviousBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", "/contractor/projects-previous", body, config);
+
+export type GetContractorProjectPreviousData = unknown;
+
+/** Get specific contractor previous project */
+export const getContractorProjectPrevious = <T = GetContractorProjectPreviousData>(
+  contractorProjectPrevious: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/contractor/projects-previous/${contractorProjectPrevious}`, undefined, config);
+
+export type DeleteContractorProjectPreviousData = unknown;
+
+/** Delete contractor previous project */
+export const deleteContractorProjectPrevious = <T = DeleteContractorProjectPreviousData>(
+  contractorProjectPrevious: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("delete", `/contractor/projects-previous/${contractorProjectPrevious}`, undefined, config);
+
+export type UpdateContractorProjectPreviousBody = {
+  project_name_ar: string;
+  project_name_en: string;
+  description_ar: string;
+  description_en: string;
+  project_type_id?: number;
+  city_id?: number;
+  specific_location?: string;
+  start_date?: string;
+  end_date?: string;
+  execution_date?: string;
+  project_value?: number;
+  currency?: string;
+  display_order?: number;
+  project_features?: string[];
+  challenges_faced?: string;
+  solutions_provided?: string;
+  project_images?: File[];
+};
+
+export type UpdateContractorProjectPreviousData = unknown;
+
+/** Update contractor previous project */
+export const updateContractorProjectPrevious = <T = UpdateContractorProjectPreviousData>(
+  contractorProjectPrevious: PathParam,
+  body: UpdateContractorProjectPreviousBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/contractor/projects-previous/update/${contractorProjectPrevious}`, body, config);
+
+// --- Contractor Registration ---
+
+export type RegisterContractorStep1Body = {
+  company_name: string;
+  commercial_registration_number: string;
+  authorized_person_name: string;
+  authorized_person_phone: string;
+  representative_email: string;
+  country_id?: number;
+  city_id?: number;
+  state_id?: number;
+  delegation_form: File;
+};
+
+export type RegisterContractorStep1Data = Record<string, unknown>;
+
+/** Step 1: Register company profile */
+export const registerContractorStep1 = <T = RegisterContractorStep1Data>(
+  body: RegisterContractorStep1Body,
+  config?: RequestConfig
+) =>
+  request<T>("post", "/contractor/registration/register-step1", body, config);
+
+export type UpsertOperationalContractorStep2Body = {
+  executed_project_range_id: number;
+  staff_size_range_id: number;
+  experience_years_range_id: number;
+  annual_projects_range_id: number;
+  classification_level_id?: number | null;
+  classification_file?: File | null;
+  has_government_accreditation: boolean;
+  covers_all_regions: boolean;
+  target_project_value_range_ids?: number[];
+  work_fields?: Array<{
+    work_field_id: number;
+    years_of_experience_in_field?: number | null;
+    field_specific_notes?: string | null;
+  }>;
+  operational_geographical_coverage?: Array<{
+    city_id: number;
+    covers_all_areas: boolean;
+    specific_areas?: string[] | null;
+    priority?: "high" | "medium" | "low" | null;
+    notes?: string | null;
+  }>;
+  contractor_geographic_coverages?: Array<{
+    city_id: number;
+    is_primary?: boolean | null;
+  }>;
+};
+
+export type UpsertOperationalContractorStep2Data = Record<string, unknown>;
+
+/** Step 2: Update operational profile */
+export const upsertOperationalContractorStep2 = <T = UpsertOperationalContractorStep2Data>(
+  body: UpsertOperationalContractorStep2Body,
+  config?: RequestConfig
+) =>
+  request<T>("post", "/contractor/registration/update-operational-step2", body, config);
+
+export type SelectPlanContractorStep4Body = {
+  plan_id: number;
+};
+
+export type SelectPlanContractorStep4Data = Record<string, unknown>;
+
+/** Step 4: Select subscription plan */
+export const selectPlanContractorStep4 = <T = SelectPlanContractorStep4Data>(
+  body: SelectPlanContractorStep4Body,
+  config?: RequestConfig
+) =>
+  request<T>("post", "/contractor/registration/select-plan-step4", body, config);
+
+// --- Contractor Update Profile ---
+
+export type UpdateContractorProfileBody = {
+  company_name?: string;
+  commercial_registration_number?: string;
+  authorized_person_name?: string;
+  authorized_person_phone?: string;
+  representative_email?: string;
+  country_id?: number;
+  city_id?: number;
+  state_id?: number;
+  delegation_form?: File;
+};
+
+export type UpdateContractorProfileData = Record<string, unknown>;
+
+/** Step 1: Update company profile */
+export const updateContractorProfile = <T = UpdateContractorProfileData>(
+  body: UpdateContractorProfileBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", "/contractor/profile/update", body, config);
+
+export type UpdateContractorFullOperationalBody = {
+  executed_project_range_id: number;
+  staff_size_range_id: number;
+  experience_years_range_id: number;
+  annual_projects_range_id: number;
+  classification_level_id?: number | null;
+  classification_file?: File | null;
+  has_government_accreditation: boolean;
+  covers_all_regions: boolean;
+  target_project_value_range_ids?: number[];
+  work_fields?: Array<{
+    work_field_id: number;
+    years_of_experience_in_field?: number | null;
+    field_specific_notes?: string | null;
+  }>;
+  operational_geographical_coverage?: Array<{
+    city_id: number;
+    covers_all_areas: boolean;
+    specific_areas?: string[] | null;
+    priority?: "high" | "medium" | "low" | null;
+    notes?: string | null;
+  }>;
+  contractor_geographic_coverages?: Array<{
+    city_id: number;
+    is_primary?: boolean | null;
+  }>;
+};
+
+export type UpdateContractorFullOperationalData = Record<string, unknown>;
+
+/** Step 2: Update full operational profile */
+export const updateContractorFullOperational = <T = UpdateContractorFullOperationalData>(
+  body: UpdateContractorFullOperationalBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", "/contractor/profile/update-full-operational", body, config);
+
+export type UpdateOperationalBody = {
+  executed_project_range_id: number;
+  staff_size_range_id: number;
+  experience_years_range_id: number;
+  annual_projects_range_id: number;
+  classification_level_id?: number | null;
+  classification_file?: File | null;
+  has_government_accreditation: boolean;
+  covers_all_regions: boolean;
+};
+
+export type UpdateOperationalData = Record<string, unknown>;
+
+/** Step 2: Update operational profile */
+export const updateOperational = <T = UpdateOperationalData>(
+  body: UpdateOperationalBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", "/contractor/profile/update-operational", body, config);
+
+export type UpdateTargetProjectValuesBody = {
+  target_project_value_range_ids: number[];
+};
+
+export type UpdateTargetProjectValuesData = Record<string, unknown>;
+
+/** Step 3: Update target project values */
+export const updateTargetProjectValues = <T = UpdateTargetProjectValuesData>(
+  body: UpdateTargetProjectValuesBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", "/contractor/profile/update-target-project-values", body, config);
+
+export type UpdateWorkFieldsBody = {
+  work_fields: Array<{
+    work_field_id: number;
+    years_of_experience_in_field?: number | null;
+    field_specific_notes?: string | null;
+  }>;
+};
+
+export type UpdateWorkFieldsData = Record<string, unknown>;
+
+/** Step 4: Update work fields */
+export const updateWorkFields = <T = UpdateWorkFieldsData>(
+  body: UpdateWorkFieldsBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", "/contractor/profile/update-work-fields", body, config);
+
+export type UpdateContractorGeographicCoveragesBody = {
+  contractor_geographic_coverages: Array<{
+    city_id: number;
+    is_primary?: boolean | null;
+  }>;
+};
+
+export type UpdateContractorGeographicCoveragesData = Record<string, unknown>;
+
+/** Step 5: Update contractor-level simple coverage */
+export const updateContractorGeographicCoverages = <T = UpdateContractorGeographicCoveragesData>(
+  body: UpdateContractorGeographicCoveragesBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", "/contractor/profile/update-contractor-geographic-coverages", body, config);
+
+export type UpdateContractorCoveragesBody = {
+  contractor_coverages: Array<{
+    city_id: number;
+    is_primary?: boolean | null;
+  }>;
+};
+
+export type UpdateContractorCoveragesData = Record<string, unknown>;
+
+/** Step 5: Update contractor-level operational coverage */
+export const updateContractorCoverages = <T = UpdateContractorCoveragesData>(
+  body: UpdateContractorCoveragesBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", "/contractor/profile/update-contractor-coverages", body, config);
+
+// --- Contractor And User Project BOQ Excel Flow (4) ---
+
+export type RegisterBoqUploadBody = {
+  file?: File;
+  file_path?: string;
+};
+
+export type RegisterBoqUploadData = unknown;
+
+/** تسجيل رفع ملف BOQ */
+export const registerBoqUpload = <T = RegisterBoqUploadData>(
+  project: PathParam,
+  body: RegisterBoqUploadBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/projects/${project}/boq/imports`, body, config);
+
+export type ParseBoqImportData = unknown;
+
+/** تحليل ملف Excel إلى مرحلة التخزين المؤقت */
+export const parseBoqImport = <T = ParseBoqImportData>(
+  project: PathParam,
+  importId: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/projects/${project}/boq/imports/${importId}/parse`, undefined, config);
+
+export type AutoMapBoqUnitsData = unknown;
+
+/** تخطيط تلقائي للوحدات */
+export const autoMapBoqUnits = <T = AutoMapBoqUnitsData>(
+  importId: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/boq-imports/${importId}/automap`, undefined, config);
+
+export type SetMappedUnitBody = {
+  unit_id: number;
+};
+
+export type SetMappedUnitData = unknown;
+
+/** تعيين وحدة مخططة لصف */
+export const setMappedUnit = <T = SetMappedUnitData>(
+  row: PathParam,
+  body: SetMappedUnitBody,
+  config?: RequestConfig
+) =>
+  request<T>("patch", `/boq-staging/${row}/map-unit`, body, config);
+
+export type FixBoqStagingRowBody = {
+  name?: string;
+  description?: string;
+  unit_code?: string;
+  quantity?: number;
+  unit_price?: number;
+};
+
+export type FixBoqStagingRowData = unknown;
+
+/** إصلاح قيم الصف */
+export const fixBoqStagingRow = <T = FixBoqStagingRowData>(
+  row: PathParam,
+  body: FixBoqStagingRowBody,
+  config?: RequestConfig
+) =>
+  request<T>("patch", `/boq-staging/${row}/fix`, body, config);
+
+export type ValidateBoqImportReadyData = unknown;
+
+/** التحقق من جاهزية الاستيراد */
+export const validateBoqImportReady = <T = ValidateBoqImportReadyData>(
+  project: PathParam,
+  importId: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/projects/${project}/boq/imports/${importId}/validate`, undefined, config);
+
+export type DryRunBoqImportData = unknown;
+
+/** تجربة جافة للاستيراد */
+export const dryRunBoqImport = <T = DryRunBoqImportData>(
+  project: PathParam,
+  importId: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/projects/${project}/boq/imports/${importId}/dry-run`, undefined, config);
+
+export type ApplyBoqImportData = unknown;
+
+/** تطبيق الاستيراد */
+export const applyBoqImport = <T = ApplyBoqImportData>(
+  project: PathParam,
+  importId: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/projects/${project}/boq/imports/${importId}/apply`, undefined, config);
+
+// --- Contractor And User Project BOQ Flow (4) ---
+
+export type CreateManualBoqData = unknown;
+
+/** إنشاء BOQ يدوي */
+export const createManualBoq = <T = CreateManualBoqData>(
+  project: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/projects/${project}/boq/manual`, undefined, config);
+
+export type CreateBoqFromTemplateBody = {
+  template_id: number;
+};
+
+export type CreateBoqFromTemplateData = unknown;
+
+/** إنشاء BOQ من قالب */
+export const createBoqFromTemplate = <T = CreateBoqFromTemplateData>(
+  project: PathParam,
+  body: CreateBoqFromTemplateBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/projects/${project}/boq/from-template`, body, config);
+
+export type GetLatestBoqData = unknown;
+
+/** أحدث نسخة BOQ */
+export const getLatestBoq = <T = GetLatestBoqData>(
+  project: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/projects/${project}/boq/latest`, undefined, config);
+
+export type LockBoqData = unknown;
+
+/** قفل BOQ */
+export const lockBoq = <T = LockBoqData>(
+  boq: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/project-boqs/${boq}/lock`, undefined, config);
+
+export type UnlockBoqData = unknown;
+
+/** إلغاء قفل BOQ */
+export const unlockBoq = <T = UnlockBoqData>(
+  boq: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/project-boqs/${boq}/unlock`, undefined, config);
+
+export type RecalculateBoqData = unknown;
+
+/** إعادة حساب المجاميع */
+export const recalculateBoq = <T = RecalculateBoqData>(
+  boq: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/project-boqs/${boq}/recalculate`, undefined, config);
+
+export type CreateManualBoqWithItemsBody = {
+  items: Array<{
+    name?: string;
+    description?: string;
+    unit_id?: number;
+    quantity?: number;
+    unit_price?: number;
+    sort_order?: number;
+    is_required?: boolean;
+  }>;
+};
+
+export type CreateManualBoqWithItemsData = unknown;
+
+/** إنشاء BOQ يدوي مع عناصر */
+export const createManualBoqWithItems = <T = CreateManualBoqWithItemsData>(
+  project: PathParam,
+  body: CreateManualBoqWithItemsBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/projects/${project}/boq/manual-with-items`, body, config);
+
+export type UpdateManualBoqWithItemsBody = {
+  items: Array<{
+    name?: string;
+    description?: string;
+    unit_id?: number;
+    quantity?: number;
+    unit_price?: number;
+    sort_order?: number;
+    is_required?: boolean;
+  }>;
+};
+
+export type UpdateManualBoqWithItemsData = unknown;
+
+/** تحديث BOQ يدوي مع عناصر */
+export const updateManualBoqWithItems = <T = UpdateManualBoqWithItemsData>(
+  boq: PathParam,
+  body: UpdateManualBoqWithItemsBody,
+  config?: RequestConfig
+) =>
+  request<T>("put", `/project-boqs/${boq}/manual-with-items`, body, config);
+
+// --- Contractor And User Project BOQ Item Flow (4) ---
+
+export type StoreBoqItemBody = {
+  name: string;
+  description?: string;
+  unit_id: number;
+  quantity: number;
+  unit_price: number;
+  sort_order?: number;
+};
+
+export type StoreBoqItemData = unknown;
+
+/** إضافة عنصر BOQ */
+export const storeBoqItem = <T = StoreBoqItemData>(
+  boq: PathParam,
+  body: StoreBoqItemBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/project-boqs/${boq}/items`, body, config);
+
+export type UpdateBoqItemBody = {
+  name?: string;
+  description?: string;
+  unit_id?: number;
+  quantity?: number;
+  unit_price?: number;
+  sort_order?: number;
+};
+
+export type UpdateBoqItemData = unknown;
+
+/** تحديث عنصر BOQ */
+export const updateBoqItem = <T = UpdateBoqItemData>(
+  item: PathParam,
+  body: UpdateBoqItemBody,
+  config?: RequestConfig
+) =>
+  request<T>("patch", `/project-boq-items/${item}`, body, config);
+
+export type DestroyBoqItemData = unknown;
+
+/** حذف عنصر BOQ */
+export const destroyBoqItem = <T = DestroyBoqItemData>(
+  item: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("delete", `/project-boq-items/${item}`, undefined, config);
+
+export type ReorderBoqItemsBody = {
+  orders: Array<{
+    item_id?: number;
+    sort_order?: number;
+  }>;
+};
+
+export type ReorderBoqItemsData = unknown;
+
+/** إعادة ترتيب عناصر BOQ */
+export const reorderBoqItems = <T = ReorderBoqItemsData>(
+  boq: PathParam,
+  body: ReorderBoqItemsBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/project-boqs/${boq}/items/reorder`, body, config);
+
+// --- Contractor Contracts ---
+
+export interface ContractorGetContractsQuery {
+  /** Filter by contract status */
+  status?: "sent_to_contractor" | "final_approved" | "signed_by_client";
+  /** Page number for pagination */
+  page?: number;
+  /** Number of items per page */
+  per_page?: number;
+}
+
+export type ContractorGetContractsData = {
+  contracts?: Array<Record<string, unknown>>;
+  pagination?: Record<string, unknown>;
+};
+
+/** Get contracts sent to contractor */
+export const contractorGetContracts = <T = ContractorGetContractsData>(
+  query?: ContractorGetContractsQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery("/contractor/contracts", query), undefined, config);
+
+export type ContractorGetContractData = {
+  contract?: Record<string, unknown>;
+  current_version?: Record<string, unknown>;
+  pending_change_requests?: Array<Record<string, unknown>>;
+  sign_events?: Array<Record<string, unknown>>;
+  status_summary?: Record<string, unknown>;
+  available_actions?: string[];
+};
+
+/** Get contract details */
+export const contractorGetContract = <T = ContractorGetContractData>(
+  contract: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/contractor/contracts/${contract}`, undefined, config);
+
+export type ContractorRequestChangeBody = {
+  version: number;
+  target_clause?: string;
+  change_note: string;
+};
+
+export type ContractorRequestChangeData = {
+  change_request?: Record<string, unknown>;
+};
+
+/** Request contract change */
+export const contractorRequestChange = <T = ContractorRequestChangeData>(
+  contract: PathParam,
+  body: ContractorRequestChangeBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/contractor/contracts/${contract}/request-change`, body, config);
+
+export type ContractorSignContractBody = {
+  code: string;
+};
+
+export type ContractorSignContractData = {
+  contract?: Record<string, unknown>;
+  results?: {
+    sign_event?: Record<string, unknown>;
+    otp?: Record<string, unknown>;
+  };
+};
+
+/** Sign contract (contractor) */
+export const contractorSignContract = <T = ContractorSignContractData>(
+  contract: PathParam,
+  body: ContractorSignContractBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/contractor/contracts/${contract}/sign`, body, config);
+
+export type ContractorIssueOtpForSigningData = {
+  contract?: Record<string, unknown>;
+  results?: {
+    otp?: {
+      id?: number;
+      channel?: string;
+      ttl_expires_at?: string;
+      max_attempts?: number;
+      status?: string;
+    };
+  };
+};
+
+/** Issue OTP for signing (contractor) */
+export const contractorIssueOtpForSigning = <T = ContractorIssueOtpForSigningData>(
+  contract: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/contractor/contracts/${contract}/issue-otp-for-signing`, undefined, config);
+
+export type ContractorRejectContractData = {
+  contract?: Record<string, unknown>;
+};
+
+/** Reject contract (contractor) */
+export const contractorRejectContract = <T = ContractorRejectContractData>(
+  contract: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/contractor/contracts/${contract}/reject`, undefined, config);
+
+export type ContractorGetAvailableActionsData = {
+  available_actions?: Array<"request_change" | "sign_contract" | "reject_contract" | "add_custom_clause" | "update_custom_clause" | "remove_custom_clause">;
+};
+
+/** Get available contractor actions */
+export const contractorGetAvailableActions = <T = ContractorGetAvailableActionsData>(
+  contract: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/contractor/contracts/${contract}/available-actions`, undefined, config);
+
+export type ContractorGetCustomClausesData = {
+  custom_clauses?: Array<Record<string, unknown>>;
+};
+
+/** Get custom clauses for contract */
+export const contractorGetCustomClauses = <T = ContractorGetCustomClausesData>(
+  contract: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/contractor/contracts/${contract}/custom-clauses`, undefined, config);
+
+export type ContractorAddCustomClauseBody = {
+  title: string;
+  content: string;
+  code?: string;
+  is_required?: boolean;
+  sort_order?: number;
+};
+
+export type ContractorAddCustomClauseData = {
+  contract?: Record<string, unknown>;
+  updated_version?: Record<string, unknown>;
+  new_clause?: Record<string, unknown>;
+};
+
+/** Add custom clause to contract */
+export const contractorAddCustomClause = <T = ContractorAddCustomClauseData>(
+  contract: PathParam,
+  body: ContractorAddCustomClauseBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/contractor/contracts/${contract}/custom-clauses`, body, config);
+
+export type ContractorGetCustomClauseData = {
+  custom_clause?: Record<string, unknown>;
+};
+
+/** Get specific custom clause */
+export const contractorGetCustomClause = <T = ContractorGetCustomClauseData>(
+  contract: PathParam,
+  clauseId: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/contractor/contracts/${contract}/custom-clauses/${clauseId}`, undefined, config);
+
+export type ContractorUpdateCustomClauseBody = {
+  title?: string;
+  content?: string;
+  is_required?: boolean;
+  sort_order?: number;
+};
+
+export type ContractorUpdateCustomClauseData = {
+  contract?: Record<string, unknown>;
+  updated_version?: Record<string, unknown>;
+};
+
+/** Update custom clause in contract */
+export const contractorUpdateCustomClause = <T = ContractorUpdateCustomClauseData>(
+  contract: PathParam,
+  clauseId: PathParam,
+  body: ContractorUpdateCustomClauseBody,
+  config?: RequestConfig
+) =>
+  request<T>("put", `/contractor/contracts/${contract}/custom-clauses/${clauseId}`, body, config);
+
+export type ContractorRemoveCustomClauseData = {
+  contract?: Record<string, unknown>;
+  updated_version?: Record<string, unknown>;
+};
+
+/** Remove custom clause from contract */
+export const contractorRemoveCustomClause = <T = ContractorRemoveCustomClauseData>(
+  contract: PathParam,
+  clauseId: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("delete", `/contractor/contracts/${contract}/custom-clauses/${clauseId}`, undefined, config);
+
+// --- Owner Contracts ---
+
+export interface OwnerGetContractsQuery {
+  /** Filter by contract status */
+  status?: "draft" | "sent_to_contractor" | "final_approved" | "signed_by_client" | "signed_by_contractor" | "signed_by_both";
+  /** Filter by project ID */
+  project_id?: number;
+  /** Page number for pagination */
+  page?: number;
+  /** Number of items per page */
+  per_page?: number;
+}
+
+export type OwnerGetContractsData = {
+  contracts?: Array<Record<string, unknown>>;
+  pagination?: Record<string, unknown>;
+};
+
+/** Get owner contracts */
+export const ownerGetContracts = <T = OwnerGetContractsData>(
+  query?: OwnerGetContractsQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery("/owner/contracts", query), undefined, config);
+
+export type OwnerCreateContractFromOfferData = {
+  contract?: Record<string, unknown>;
+  version?: Record<string, unknown>;
+};
+
+/** Create contract from offer */
+export const ownerCreateContractFromOffer = <T = OwnerCreateContractFromOfferData>(
+  offerId: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/owner/contracts/create-from-offer/${offerId}`, undefined, config);
+
+export type OwnerGetContractData = {
+  contract?: Record<string, unknown>;
+  current_version?: Record<string, unknown>;
+  pending_change_requests?: Array<Record<string, unknown>>;
+  sign_events?: Array<Record<string, unknown>>;
+  status_summary?: Record<string, unknown>;
+  available_actions?: string[];
+};
+
+/** Get contract details */
+export const ownerGetContract = <T = OwnerGetContractData>(
+  contract: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/owner/contracts/${contract}`, undefined, config);
+
+export type OwnerSendToContractorData = {
+  contract?: Record<string, unknown>;
+};
+
+/** Send contract to contractor */
+export const ownerSendToContractor = <T = OwnerSendToContractorData>(
+  contract: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/owner/contracts/${contract}/send-to-contractor`, undefined, config);
+
+export type OwnerApproveFinalData = {
+  contract?: Record<string, unknown>;
+};
+
+/** Approve contract final */
+export const ownerApproveFinal = <T = OwnerApproveFinalData>(
+  contract: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/owner/contracts/${contract}/approve-final`, undefined, config);
+
+export type OwnerSignContractBody = {
+  code: string;
+};
+
+export type OwnerSignContractData = {
+  contract?: Record<string, unknown>;
+  results?: {
+    sign_event?: Record<string, unknown>;
+    otp?: Record<string, unknown>;
+  };
+};
+
+/** Sign contract (client) */
+export const ownerSignContract = <T = OwnerSignContractData>(
+  contract: PathParam,
+  body: OwnerSignContractBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/owner/contracts/${contract}/sign`, body, config);
+
+export type OwnerIssueOtpForSigningData = {
+  contract?: Record<string, unknown>;
+  results?: {
+    otp?: {
+      id?: number;
+      channel?: string;
+      ttl_expires_at?: string;
+      max_attempts?: number;
+      status?: string;
+    };
+  };
+};
+
+/** Issue OTP for signing (client) */
+export const ownerIssueOtpForSigning = <T = OwnerIssueOtpForSigningData>(
+  contract: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/owner/contracts/${contract}/issue-otp-for-signing`, undefined, config);
+
+export type OwnerRejectContractData = {
+  contract?: Record<string, unknown>;
+};
+
+/** Reject contract */
+export const ownerRejectContract = <T = OwnerRejectContractData>(
+  contract: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/owner/contracts/${contract}/reject`, undefined, config);
+
+export type OwnerDecideChangeRequestBody = {
+  status: "accepted" | "rejected";
+};
+
+export type OwnerDecideChangeRequestData = {
+  decision?: Record<string, unknown>;
+};
+
+/** Decide on change request */
+export const ownerDecideChangeRequest = <T = OwnerDecideChangeRequestData>(
+  changeRequest: PathParam,
+  body: OwnerDecideChangeRequestBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/owner/contracts/change-requests/${changeRequest}/decide`, body, config);
+
+export type OwnerUpdateOtpSettingsBody = {
+  requires_otp: boolean;
+};
+
+export type OwnerUpdateOtpSettingsData = {
+  contract?: Record<string, unknown>;
+};
+
+/** Update OTP settings */
+export const ownerUpdateOtpSettings = <T = OwnerUpdateOtpSettingsData>(
+  contract: PathParam,
+  body: OwnerUpdateOtpSettingsBody,
+  config?: RequestConfig
+) =>
+  request<T>("put", `/owner/contracts/${contract}/otp-settings`, body, config);
+
+export type OwnerGetAvailableActionsData = {
+  available_actions?: Array<"send_to_contractor" | "approve_final" | "sign_contract" | "reject_contract" | "decide_change_request" | "update_otp_settings" | "add_custom_clause" | "update_custom_clause" | "remove_custom_clause">;
+};
+
+/** Get available owner actions */
+export const ownerGetAvailableActions = <T = OwnerGetAvailableActionsData>(
+  contract: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/owner/contracts/${contract}/available-actions`, undefined, config);
+
+export type OwnerGetCustomClausesData = {
+  custom_clauses?: Array<Record<string, unknown>>;
+};
+
+/** Get custom clauses for contract */
+export const ownerGetCustomClauses = <T = OwnerGetCustomClausesData>(
+  contract: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/owner/contracts/${contract}/custom-clauses`, undefined, config);
+
+export type OwnerAddCustomClauseBody = {
+  title: string;
+  content: string;
+  code?: string;
+  is_required?: boolean;
+  sort_order?: number;
+};
+
+export type OwnerAddCustomClauseData = {
+  contract?: Record<string, unknown>;
+  updated_version?: Record<string, unknown>;
+  new_clause?: Record<string, unknown>;
+};
+
+/** Add custom clause to contract */
+export const ownerAddCustomClause = <T = OwnerAddCustomClauseData>(
+  contract: PathParam,
+  body: OwnerAddCustomClauseBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/owner/contracts/${contract}/custom-clauses`, body, config);
+
+export type OwnerGetCustomClauseData = {
+  custom_clause?: Record<string, unknown>;
+};
+
+/** Get specific custom clause */
+export const ownerGetCustomClause = <T = OwnerGetCustomClauseData>(
+  contract: PathParam,
+  clauseId: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/owner/contracts/${contract}/custom-clauses/${clauseId}`, undefined, config);
+
+export type OwnerUpdateCustomClauseBody = {
+  title?: string;
+  content?: string;
+  is_required?: boolean;
+  sort_order?: number;
+};
+
+export type OwnerUpdateCustomClauseData = {
+  contract?: Record<string, unknown>;
+  updated_version?: Record<string, unknown>;
+};
+
+/** Update custom clause in contract */
+export const ownerUpdateCustomClause = <T = OwnerUpdateCustomClauseData>(
+  contract: PathParam,
+  clauseId: PathParam,
+  body: OwnerUpdateCustomClauseBody,
+  config?: RequestConfig
+) =>
+  request<T>("put", `/owner/contracts/${contract}/custom-clauses/${clauseId}`, body, config);
+
+export type OwnerRemoveCustomClauseData = {
+  contract?: Record<string, unknown>;
+  updated_version?: Record<string, unknown>;
+};
+
+/** Remove custom clause from contract */
+export const ownerRemoveCustomClause = <T = OwnerRemoveCustomClauseData>(
+  contract: PathParam,
+  clauseId: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("delete", `/owner/contracts/${contract}/custom-clauses/${clauseId}`, undefined, config);
+
+// --- Contractor Project Offers ---
+
+export type ContractorCreateCompleteOfferBody = {
+  offer_amount: number;
+  offer_validity_value: number;
+  offer_validity_unit: "days" | "weeks" | "months";
+  execution_duration_value: number;
+  execution_duration_unit: "days" | "weeks" | "months";
+  expected_start_date: string;
+  expected_end_date: string;
+  details: string;
+  has_warranty?: boolean;
+  quality_certificate?: string;
+  files?: File[];
+  phases?: Array<{
+    title?: string;
+    description?: string;
+    order?: number;
+    status?: "draft" | "pending_approval" | "open" | "closed" | "rejected";
+    payment_plans?: Array<{
+      name?: string;
+      amount?: number;
+      percentage_of_contract?: number;
+      due_on?: string;
+      sort_order?: number;
+      status?: "planned" | "locked";
+      user_bank_account_id?: number;
+      reference_note?: string;
+    }>;
+  }>;
+  global_payment_plans?: Array<{
+    name?: string;
+    amount?: number;
+    percentage_of_contract?: number;
+    due_on?: string;
+    sort_order?: number;
+    status?: "planned" | "locked";
+    user_bank_account_id?: number;
+    reference_note?: string;
+  }>;
+};
+
+export type ContractorCreateCompleteOfferData = {
+  offer?: Record<string, unknown>;
+  phases_count?: number;
+  payment_plans_count?: number;
+};
+
+/** إنشاء عرض شامل مع المراحل وخطة الدفع (مقاول) */
+export const contractorCreateCompleteOffer = <T = ContractorCreateCompleteOfferData>(
+  project: PathParam,
+  body: ContractorCreateCompleteOfferBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/contractor/projects/${project}/complete-offers`, body, config);
+
+// --- Contractor Project Offers Negotiation ---
+
+export interface ContractorGetOfferNegotiationsQuery {
+  /** عدد العناصر في الصفحة */
+  per_page?: number;
+}
+
+export type ContractorGetOfferNegotiationsData = unknown;
+
+/** قائمة مفاوضات العرض (مقاول) */
+export const contractorGetOfferNegotiations = <T = ContractorGetOfferNegotiationsData>(
+  offer: PathParam,
+  query?: ContractorGetOfferNegotiationsQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery(`/contractor/offers/${offer}/negotiations`, query), undefined, config);
+
+export type ContractorSendNegotiationMessageBody = {
+  message: string;
+  proposed_amount?: number;
+  proposed_duration_value?: number;
+  proposed_duration_unit?: "days" | "weeks" | "months";
+};
+
+export type ContractorSendNegotiationMessageData = unknown;
+
+/** إرسال رسالة مفاوضة (مقاول) */
+export const contractorSendNegotiationMessage = <T = ContractorSendNegotiationMessageData>(
+  offer: PathParam,
+  body: ContractorSendNegotiationMessageBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/contractor/offers/${offer}/negotiations`, body, config);
+
+// --- Contractor Project Offers ---
+
+export type ContractorStoreProjectOfferBody = {
+  files?: File[];
+  offer_amount: number;
+  execution_duration_value: number;
+  execution_duration_unit: "days" | "weeks" | "months";
+  expected_start_date: string;
+  expected_end_date: string;
+  offer_validity_value: number;
+  offer_validity_unit: "days" | "weeks" | "months";
+  details: string;
+  has_warranty?: boolean;
+  quality_certificate?: string;
+};
+
+export type ContractorStoreProjectOfferData = unknown;
+
+/** Submit a new offer for a project (Contractor) */
+export const contractorStoreProjectOffer = <T = ContractorStoreProjectOfferData>(
+  project: PathParam,
+  body: ContractorStoreProjectOfferBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/contractor/projects/${project}/offers`, body, config);
+
+export type ContractorShowProjectOfferData = unknown;
+
+/** عرض تفاصيل العرض (مقاول) */
+export const contractorShowProjectOffer = <T = ContractorShowProjectOfferData>(
+  offer: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/contractor/offers/${offer}`, undefined, config);
+
+export type ContractorUpdateProjectOfferBody = {
+  offer_amount?: number;
+  execution_duration_value?: number;
+  execution_duration_unit?: "days" | "weeks" | "months";
+  expected_start_date?: string;
+  expected_end_date?: string;
+  offer_validity_value?: number;
+  offer_validity_unit?: "days" | "weeks" | "months";
+  details?: string;
+  has_warranty?: boolean;
+  quality_certificate?: string;
+};
+
+export type ContractorUpdateProjectOfferData = unknown;
+
+/** تحديث العرض (مقاول) */
+export const contractorUpdateProjectOffer = <T = ContractorUpdateProjectOfferData>(
+  offer: PathParam,
+  body: ContractorUpdateProjectOfferBody,
+  config?: RequestConfig
+) =>
+  request<T>("patch", `/contractor/offers/${offer}`, body, config);
+
+export type ContractorSendOfferToClientData = unknown;
+
+/** ارسال العرض للعميل (مقاول) */
+export const contractorSendOfferToClient = <T = ContractorSendOfferToClientData>(
+  offer: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/contractor/offers/${offer}/send-to-client`, undefined, config);
+
+export type ContractorWithdrawOfferData = unknown;
+
+/** سحب العرض (مقاول) */
+export const contractorWithdrawOffer = <T = ContractorWithdrawOfferData>(
+  offer: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/contractor/offers/${offer}/withdraw`, undefined, config);
+
+export type ContractorGetCompleteOfferDetailsData = unknown;
+
+/** تفاصيل العرض الشاملة (مقاول) */
+export const contractorGetCompleteOfferDetails = <T = ContractorGetCompleteOfferDetailsData>(
+  offer: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/contractor/offers/${offer}/details`, undefined, config);
+
+export type ContractorUploadOfferFilesBody = {
+  files: File[];
+  collection: "documents" | "images" | "attachments" | "boq" | "drawings" | "specifications";
+  note?: string;
+  metadata?: Record<string, unknown>;
+};
+
+export type ContractorUploadOfferFilesData = unknown;
+
+/** Upload multiple files to offer (Contractor) */
+export const contractorUploadOfferFiles = <T = ContractorUploadOfferFilesData>(
+  offer: PathParam,
+  body: ContractorUploadOfferFilesBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/contractor/offers/${offer}/files/upload`, body, config);
+
+export type ContractorUploadOfferFileBody = {
+  file: File;
+  collection: "documents" | "images" | "attachments" | "boq" | "drawings" | "specifications";
+  note?: string;
+  metadata?: Record<string, unknown>;
+};
+
+export type ContractorUploadOfferFileData = unknown;
+
+/** Upload single file to offer (Contractor) */
+export const contractorUploadOfferFile = <T = ContractorUploadOfferFileData>(
+  offer: PathParam,
+  body: ContractorUploadOfferFileBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/contractor/offers/${offer}/files/upload-single`, body, config);
+
+export type ContractorDeleteOfferFileBody = {
+  force_delete?: boolean;
+};
+
+export type ContractorDeleteOfferFileData = unknown;
+
+/** Delete file from offer (Contractor) */
+export const contractorDeleteOfferFile = <T = ContractorDeleteOfferFileData>(
+  offer: PathParam,
+  file: PathParam,
+  body?: ContractorDeleteOfferFileBody,
+  config?: RequestConfig
+) =>
+  request<T>("delete", `/contractor/offers/${offer}/files/${file}`, body, config);
+
+// --- Contractor Project Phases ---
+
+export interface ContractorGetProjectPhasesQuery {
+  /** حالة المرحلة */
+  status?: string;
+  /** معرف العرض */
+  offer_id?: number;
+}
+
+export type ContractorGetProjectPhasesData = unknown;
+
+/** قائمة مراحل المشروع (مقاول) */
+export const contractorGetProjectPhases = <T = ContractorGetProjectPhasesData>(
+  project: PathParam,
+  query?: ContractorGetProjectPhasesQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery(`/contractor/projects/${project}/phases`, query), undefined, config);
+
+export type ContractorStoreProjectPhaseBody = {
+  title: string;
+  description?: string;
+  offer_id?: number;
+  order?: number;
+  status?: string;
+};
+
+export type ContractorStoreProjectPhaseData = unknown;
+
+/** إنشاء مرحلة جديدة (مقاول) */
+export const contractorStoreProjectPhase = <T = ContractorStoreProjectPhaseData>(
+  project: PathParam,
+  body: ContractorStoreProjectPhaseBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/contractor/projects/${project}/phases`, body, config);
+
+export type ContractorShowProjectPhaseData = unknown;
+
+/** تفاصيل المرحلة (مقاول) */
+export const contractorShowProjectPhase = <T = ContractorShowProjectPhaseData>(
+  phase: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/contractor/phases/${phase}`, undefined, config);
+
+export type ContractorUpdateProjectPhaseBody = {
+  title?: string;
+  description?: string;
+  order?: number;
+  status?: string;
+};
+
+export type ContractorUpdateProjectPhaseData = unknown;
+
+/** تحديث المرحلة (مقاول) */
+export const contractorUpdateProjectPhase = <T = ContractorUpdateProjectPhaseData>(
+  phase: PathParam,
+  body: ContractorUpdateProjectPhaseBody,
+  config?: RequestConfig
+) =>
+  request<T>("patch", `/contractor/phases/${phase}`, body, config);
+
+export type ContractorDeleteProjectPhaseData = unknown;
+
+/** حذف المرحلة (مقاول) */
+export const contractorDeleteProjectPhase = <T = ContractorDeleteProjectPhaseData>(
+  phase: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("delete", `/contractor/phases/${phase}`, undefined, config);
+
+export type ContractorChangePhaseStatusBody = {
+  status: string;
+};
+
+export type ContractorChangePhaseStatusData = unknown;
+
+/** تغيير حالة المرحلة (مقاول) */
+export const contractorChangePhaseStatus = <T = ContractorChangePhaseStatusData>(
+  phase: PathParam,
+  body: ContractorChangePhaseStatusBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/contractor/phases/${phase}/status`, body, config);
+
+export type ContractorReorderProjectPhasesBody = {
+  phase_ids: number[];
+};
+
+export type ContractorReorderProjectPhasesData = unknown;
+
+/** إعادة ترتيب المراحل (مقاول) */
+export const contractorReorderProjectPhases = <T = ContractorReorderProjectPhasesData>(
+  project: PathParam,
+  body: ContractorReorderProjectPhasesBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/contractor/projects/${project}/phases/reorder`, body, config);
+
+export type ContractorGetProjectPhaseStatsData = unknown;
+
+/** إحصائيات مراحل المشروع (مقاول) */
+export const contractorGetProjectPhaseStats = <T = ContractorGetProjectPhaseStatsData>(
+  project: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/contractor/projects/${project}/phases/statistics`, undefined, config);
+
+// --- Contractor Project Payment Plans ---
+
+export interface ContractorGetProjectPaymentPlansQuery {
+  /** حالة خطة الدفع */
+  status?: string;
+  /** معرف مرحلة المشروع */
+  project_phase_id?: number;
+}
+
+export type ContractorGetProjectPaymentPlansData = unknown;
+
+/** قائمة خطط الدفع للمشروع (مقاول) */
+export const contractorGetProjectPaymentPlans = <T = ContractorGetProjectPaymentPlansData>(
+  project: PathParam,
+  query?: ContractorGetProjectPaymentPlansQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery(`/contractor/projects/${project}/payment-plans`, query), undefined, config);
+
+export type ContractorStoreProjectPaymentPlanBody = {
+  name: string;
+  amount?: number;
+  percentage_of_contract?: number;
+  due_on?: string;
+  sort_order?: number;
+  user_bank_account_id?: number;
+  reference_note?: string;
+};
+
+export type ContractorStoreProjectPaymentPlanData = unknown;
+
+/** إنشاء خطة دفع جديدة (مقاول) */
+export const contractorStoreProjectPaymentPlan = <T = ContractorStoreProjectPaymentPlanData>(
+  projectPhase: PathParam,
+  body: ContractorStoreProjectPaymentPlanBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/contractor/project-phases/${projectPhase}/payment-plans`, body, config);
+
+export type ContractorShowProjectPaymentPlanData = unknown;
+
+/** تفاصيل خطة الدفع (مقاول) */
+export const contractorShowProjectPaymentPlan = <T = ContractorShowProjectPaymentPlanData>(
+  paymentPlan: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/contractor/payment-plans/${paymentPlan}`, undefined, config);
+
+export type ContractorUpdateProjectPaymentPlanBody = {
+  name?: string;
+  amount?: number;
+  percentage_of_contract?: number;
+  due_on?: string;
+  sort_order?: number;
+  status?: string;
+  user_bank_account_id?: number;
+  reference_note?: string;
+};
+
+export type ContractorUpdateProjectPaymentPlanData = unknown;
+
+/** تحديث خطة الدفع (مقاول) */
+export const contractorUpdateProjectPaymentPlan = <T = ContractorUpdateProjectPaymentPlanData>(
+  paymentPlan: PathParam,
+  body: ContractorUpdateProjectPaymentPlanBody,
+  config?: RequestConfig
+) =>
+  request<T>("patch", `/contractor/payment-plans/${paymentPlan}`, body, config);
+
+export type ContractorDeleteProjectPaymentPlanData = unknown;
+
+/** حذف خطة الدفع (مقاول) */
+export const contractorDeleteProjectPaymentPlan = <T = ContractorDeleteProjectPaymentPlanData>(
+  paymentPlan: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("delete", `/contractor/payment-plans/${paymentPlan}`, undefined, config);
+
+export type ContractorLockPaymentPlanData = unknown;
+
+/** قفل خطة الدفع (مقاول) */
+export const contractorLockPaymentPlan = <T = ContractorLockPaymentPlanData>(
+  paymentPlan: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/contractor/payment-plans/${paymentPlan}/lock`, undefined, config);
+
+export type ContractorReorderPaymentPlansBody = {
+  payment_plan_ids: number[];
+};
+
+export type ContractorReorderPaymentPlansData = unknown;
+
+/** إعادة ترتيب خطط الدفع (مقاول) */
+export const contractorReorderPaymentPlans = <T = ContractorReorderPaymentPlansData>(
+  project: PathParam,
+  body: ContractorReorderPaymentPlansBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/contractor/projects/${project}/payment-plans/reorder`, body, config);
+
+export type ContractorGetPaymentPlanStatsData = unknown;
+
+/** إحصائيات خطط الدفع (مقاول) */
+export const contractorGetPaymentPlanStats = <T = ContractorGetPaymentPlanStatsData>(
+  project: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/contractor/projects/${project}/payment-plans/statistics`, undefined, config);
+
+// --- Owner Project Offers Negotiation ---
+
+export interface OwnerGetOfferNegotiationsQuery {
+  /** عدد العناصر في الصفحة */
+  per_page?: number;
+}
+
+export type OwnerGetOfferNegotiationsData = unknown;
+
+/** قائمة مفاوضات العرض (مالك) */
+export const ownerGetOfferNegotiations = <T = OwnerGetOfferNegotiationsData>(
+  offer: PathParam,
+  query?: OwnerGetOfferNegotiationsQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery(`/owner/offers/${offer}/negotiations`, query), undefined, config);
+
+export type OwnerSendNegotiationMessageBody = {
+  message: string;
+  proposed_amount?: number;
+  proposed_duration_value?: number;
+  proposed_duration_unit?: "days" | "weeks" | "months";
+};
+
+export type OwnerSendNegotiationMessageData = unknown;
+
+/** إرسال رسالة مفاوضة (مالك) */
+export const ownerSendNegotiationMessage = <T = OwnerSendNegotiationMessageData>(
+  offer: PathParam,
+  body: OwnerSendNegotiationMessageBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/owner/offers/${offer}/negotiations`, body, config);
+
+// --- Owner Project Offers ---
+
+export interface OwnerGetProjectOffersQuery {
+  /** حالة العرض */
+  status?: string;
+  /** معرف المقاول */
+  contractor_id?: number;
+  /** عدد العناصر في الصفحة */
+  per_page?: number;
+}
+
+export type OwnerGetProjectOffersData = unknown;
+
+/** قائمة عروض المشروع (مالك) */
+export const ownerGetProjectOffers = <T = OwnerGetProjectOffersData>(
+  project: PathParam,
+  query?: OwnerGetProjectOffersQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery(`/owner/projects/${project}/offers`, query), undefined, config);
+
+export type OwnerShowProjectOfferData = unknown;
+
+/** عرض تفاصيل العرض (مالك) */
+export const ownerShowProjectOffer = <T = OwnerShowProjectOfferData>(
+  offer: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/owner/offers/${offer}`, undefined, config);
+
+export type OwnerGetCompleteOfferDetailsData = unknown;
+
+/** تفاصيل العرض الشاملة (مالك) */
+export const ownerGetCompleteOfferDetails = <T = OwnerGetCompleteOfferDetailsData>(
+  offer: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/owner/offers/${offer}/details`, undefined, config);
+
+export type OwnerRejectProjectOfferBody = {
+  reason: string;
+};
+
+export type OwnerRejectProjectOfferData = unknown;
+
+/** رفض العرض (مالك) */
+export const ownerRejectProjectOffer = <T = OwnerRejectProjectOfferData>(
+  offer: PathParam,
+  body: OwnerRejectProjectOfferBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/owner/offers/${offer}/reject`, body, config);
+
+export type OwnerAcceptProjectOfferData = unknown;
+
+/** قبول العرض (مالك) */
+export const ownerAcceptProjectOffer = <T = OwnerAcceptProjectOfferData>(
+  offer: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/owner/offers/${offer}/accept`, undefined, config);
+
+// --- Owner Project Phases ---
+
+export interface OwnerGetProjectPhasesQuery {
+  /** حالة المرحلة */
+  status?: string;
+  /** معرف العرض */
+  offer_id?: number;
+}
+
+export type OwnerGetProjectPhasesData = unknown;
+
+/** قائمة مراحل المشروع (مالك) */
+export const ownerGetProjectPhases = <T = OwnerGetProjectPhasesData>(
+  project: PathParam,
+  query?: OwnerGetProjectPhasesQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery(`/owner/projects/${project}/phases`, query), undefined, config);
+
+export type OwnerShowProjectPhaseData = unknown;
+
+/** تفاصيل المرحلة (مالك) */
+export const ownerShowProjectPhase = <T = OwnerShowProjectPhaseData>(
+  phase: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/owner/phases/${phase}`, undefined, config);
+
+export type OwnerChangePhaseStatusBody = {
+  status: string;
+};
+
+export type OwnerChangePhaseStatusData = unknown;
+
+/** تغيير حالة المرحلة (مالك) */
+export const ownerChangePhaseStatus = <T = OwnerChangePhaseStatusData>(
+  phase: PathParam,
+  body: OwnerChangePhaseStatusBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/owner/phases/${phase}/status`, body, config);
+
+export type OwnerReorderProjectPhasesBody = {
+  phase_ids: number[];
+};
+
+export type OwnerReorderProjectPhasesData = unknown;
+
+/** إعادة ترتيب المراحل (مالك) */
+export const ownerReorderProjectPhases = <T = OwnerReorderProjectPhasesData>(
+  project: PathParam,
+  body: OwnerReorderProjectPhasesBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/owner/projects/${project}/phases/reorder`, body, config);
+
+// --- Owner Project Payment Plans ---
+
+export interface OwnerGetProjectPaymentPlansQuery {
+  /** حالة خطة الدفع */
+  status?: string;
+  /** معرف مرحلة المشروع */
+  project_phase_id?: number;
+}
+
+export type OwnerGetProjectPaymentPlansData = unknown;
+
+/** قائمة خطط الدفع للمشروع (مالك) */
+export const ownerGetProjectPaymentPlans = <T = OwnerGetProjectPaymentPlansData>(
+  project: PathParam,
+  query?: OwnerGetProjectPaymentPlansQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery(`/owner/projects/${project}/payment-plans`, query), undefined, config);
+
+export type OwnerShowProjectPaymentPlanData = unknown;
+
+/** تفاصيل خطة الدفع (مالك) */
+export const ownerShowProjectPaymentPlan = <T = OwnerShowProjectPaymentPlanData>(
+  paymentPlan: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/owner/payment-plans/${paymentPlan}`, undefined, config);
+
+export type OwnerLockPaymentPlanData = unknown;
+
+/** قفل خطة الدفع (مالك) */
+export const ownerLockPaymentPlan = <T = OwnerLockPaymentPlanData>(
+  paymentPlan: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/owner/payment-plans/${paymentPlan}/lock`, undefined, config);
+
+export type OwnerGetPaymentPlanStatsData = unknown;
+
+/** إحصائيات خطط الدفع (مالك) */
+export const ownerGetPaymentPlanStats = <T = OwnerGetPaymentPlanStatsData>(
+  project: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/owner/projects/${project}/payment-plans/statistics`, undefined, config);
+
+// --- Contractor Project Management ---
+
+export interface GetContractorOwnedProjectsQuery {
+  /** نص البحث */
+  q?: string;
+  /** معرف نوع المشروع */
+  project_type_id?: number;
+  /** حالة المشروع */
+  status?: string;
+  /** عدد العناصر في الصفحة */
+  per_page?: number;
+}
+
+export type GetContractorOwnedProjectsData = unknown;
+
+/** قائمة المشاريع المملوكة للمقاول */
+export const getContractorOwnedProjects = <T = GetContractorOwnedProjectsData>(
+  query?: GetContractorOwnedProjectsQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery("/projects/contractor/owned", query), undefined, config);
+
+export interface GetAvailableProjectsForContractorsQuery {
+  /** نص البحث */
+  q?: string;
+  /** معرف نوع المشروع */
+  project_type_id?: number;
+  /** عدد العناصر في الصفحة */
+  per_page?: number;
+}
+
+export type GetAvailableProjectsForContractorsData = unknown;
+
+/** قائمة المشاريع المتاحة للمقاول */
+export const getAvailableProjectsForContractors = <T = GetAvailableProjectsForContractorsData>(
+  query?: GetAvailableProjectsForContractorsQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery("/projects/contractor/available", query), undefined, config);
+
+export type ShowContractorOwnedProjectData = unknown;
+
+/** عرض تفاصيل مشروع مملوك للمقاول */
+export const showContractorOwnedProject = <T = ShowContractorOwnedProjectData>(
+  project: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/projects/contractor/owned/${project}`, undefined, config);
+
+export type ShowAvailableProjectForContractorData = unknown;
+
+/** عرض تفاصيل مشروع متاح للمقاول */
+export const showAvailableProjectForContractor = <T = ShowAvailableProjectForContractorData>(
+  project: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/projects/contractor/available/${project}`, undefined, config);
+
+// --- Public Project Browsing ---
+
+export interface GetPublicProjectsQuery {
+  /** نص البحث */
+  q?: string;
+  /** معرف نوع المشروع */
+  project_type_id?: number;
+  /** عدد العناصر في الصفحة */
+  per_page?: number;
+}
+
+export type GetPublicProjectsData = unknown;
+
+/** قائمة المشاريع المتاحة للجمهور */
+export const getPublicProjects = <T = GetPublicProjectsData>(
+  query?: GetPublicProjectsQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery("/projects/public", query), undefined, config);
+
+export type ShowPublicProjectData = unknown;
+
+/** عرض تفاصيل مشروع متاح للجمهور */
+export const showPublicProject = <T = ShowPublicProjectData>(
+  project: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/projects/public/${project}`, undefined, config);
+
+// --- Contractor And User Project Location Flow (2) ---
+
+export type GetProjectLocationData = Record<string, unknown>;
+
+/** عرض موقع المشروع */
+export const getProjectLocation = <T = GetProjectLocationData>(
+  project: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/projects/${project}/location`, undefined, config);
+
+export type UpsertProjectLocationBody = {
+  country_id?: number | null;
+  city_id?: number | null;
+  district?: string | null;
+  address_line?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  map_snapshot_url?: string | null;
+};
+
+export type UpsertProjectLocationData = Record<string, unknown>;
+
+/** إنشاء أو تحديث موقع المشروع */
+export const upsertProjectLocation = <T = UpsertProjectLocationData>(
+  project: PathParam,
+  body: UpsertProjectLocationBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/projects/${project}/location`, body, config);
+
+// --- Project Owner Management ---
+
+export interface GetOwnerProjectsQuery {
+  /** نص البحث */
+  q?: string;
+  /** معرف نوع المشروع */
+  project_type_id?: number;
+  /** حالة المشروع */
+  status?: string;
+  /** عدد العناصر في الصفحة */
+  per_page?: number;
+}
+
+export type GetOwnerProjectsData = unknown;
+
+/** قائمة مشاريع المالك */
+export const getOwnerProjects = <T = GetOwnerProjectsData>(
+  query?: GetOwnerProjectsQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery("/projects/owner", query), undefined, config);
+
+export type CreateOwnerProjectBody = {
+  title: string;
+  project_type_id: number;
+  description: string;
+  area_sqm: number;
+  duration_value: number;
+  duration_unit: "days" | "weeks" | "months";
+  budget_min?: number | null;
+  budget_max?: number | null;
+  files?: File[];
+};
+
+export type CreateOwnerProjectData = unknown;
+
+/** إنشاء مشروع جديد */
+export const createOwnerProject = <T = CreateOwnerProjectData>(
+  body: CreateOwnerProjectBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", "/projects/owner", body, config);
+
+export type CreateOwnerProjectClassificationBody = {
+  classification_job_id?: number | null;
+  classification_level_id: number | null;
+  work_type_id: number | null;
+  notes?: string | null;
+};
+
+export type CreateOwnerProjectClassificationData = unknown;
+
+/** إنشاء متطلبات التصنيف لمشروع */
+export const createOwnerProjectClassification = <T = CreateOwnerProjectClassificationData>(
+  project: PathParam,
+  body: CreateOwnerProjectClassificationBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/projects/owner/${project}/classification`, body, config);
+
+export type UpdateOwnerProjectClassificationBody = {
+  classification_job_id?: number | null;
+  classification_level_id?: number | null;
+  work_type_id?: number | null;
+  notes?: string | null;
+};
+
+export type UpdateOwnerProjectClassificationData = unknown;
+
+/** تحديث متطلبات التصنيف */
+export const updateOwnerProjectClassification = <T = UpdateOwnerProjectClassificationData>(
+  projectRequiredClassification: PathParam,
+  body: UpdateOwnerProjectClassificationBody,
+  config?: RequestConfig
+) =>
+  request<T>("put", `/projects/owner/classification/${projectRequiredClassification}`, body, config);
+
+export type DeleteOwnerProjectClassificationData = unknown;
+
+/** حذف متطلبات التصنيف */
+export const deleteOwnerProjectClassification = <T = DeleteOwnerProjectClassificationData>(
+  projectRequiredClassification: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("delete", `/projects/owner/classification/${projectRequiredClassification}/delete`, undefined, config);
+
+export type CreateBulkOwnerProjectClassificationsBody = {
+  classifications: Array<{
+    classification_job_id?: number | null;
+    classification_level_id: number;
+    work_type_id: number;
+    notes?: string | null;
+  }>;
+};
+
+export type CreateBulkOwnerProjectClassificationsData = {
+  classifications?: Array<Record<string, unknown>>;
+  created_count?: number;
+};
+
+/** إنشاء قائمة متطلبات التصنيف للمشروع */
+export const createBulkOwnerProjectClassifications = <T = CreateBulkOwnerProjectClassificationsData>(
+  project: PathParam,
+  body: CreateBulkOwnerProjectClassificationsBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/projects/owner/${project}/classifications/bulk`, body, config);
+
+export type UpdateBulkOwnerProjectClassificationsBody = {
+  classifications: Array<{
+    id: number;
+    classification_job_id?: number | null;
+    classification_level_id?: number | null;
+    work_type_id?: number | null;
+    notes?: string | null;
+  }>;
+};
+
+export type UpdateBulkOwnerProjectClassificationsData = {
+  classifications?: Array<Record<string, unknown>>;
+  updated_count?: number;
+};
+
+/** تحديث قائمة متطلبات التصنيف للمشروع */
+export const updateBulkOwnerProjectClassifications = <T = UpdateBulkOwnerProjectClassificationsData>(
+  project: PathParam,
+  body: UpdateBulkOwnerProjectClassificationsBody,
+  config?: RequestConfig
+) =>
+  request<T>("put", `/projects/owner/${project}/classifications/bulk`, body, config);
+
+export type ShowOwnerProjectData = unknown;
+
+/** عرض تفاصيل مشروع المالك */
+export const showOwnerProject = <T = ShowOwnerProjectData>(
+  project: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/projects/owner/${project}`, undefined, config);
+
+export type UpdateOwnerProjectBody = {
+  title: string;
+  project_type_id: number;
+  description: string;
+  area_sqm: number;
+  duration_value: number;
+  duration_unit: "days" | "weeks" | "months";
+  budget_min?: number | null;
+  budget_max?: number | null;
+  files?: File[];
+};
+
+export type UpdateOwnerProjectData = unknown;
+
+/** تحديث مشروع المالك */
+export const updateOwnerProject = <T = UpdateOwnerProjectData>(
+  project: PathParam,
+  body: UpdateOwnerProjectBody,
+  config?: RequestConfig
+) =>
+  request<T>("patch", `/projects/owner/${project}`, body, config);
+
+export type SetOwnerProjectStatusBody = {
+  status: string;
+  status_note?: string;
+  effective_date?: string;
+};
+
+export type SetOwnerProjectStatusData = unknown;
+
+/** Set project status */
+export const setOwnerProjectStatus = <T = SetOwnerProjectStatusData>(
+  project: PathParam,
+  body: SetOwnerProjectStatusBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/projects/owner/${project}/status`, body, config);
+
+export type ToggleOwnerProjectActiveBody = {
+  is_active: boolean;
+  activation_note?: string;
+  effective_date?: string;
+};
+
+export type ToggleOwnerProjectActiveData = unknown;
+
+/** Toggle project active status */
+export const toggleOwnerProjectActive = <T = ToggleOwnerProjectActiveData>(
+  project: PathParam,
+  body: ToggleOwnerProjectActiveBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/projects/owner/${project}/active`, body, config);
+
+export type UploadOwnerProjectFilesBody = {
+  files: File[];
+  collection: "documents" | "images" | "attachments" | "drawings" | "specifications" | "licenses" | "architectural_plans" | "technical_specs" | "site_photos";
+  note?: string;
+  metadata?: Record<string, unknown>;
+};
+
+export type UploadOwnerProjectFilesData = unknown;
+
+/** Upload multiple files to project */
+export const uploadOwnerProjectFiles = <T = UploadOwnerProjectFilesData>(
+  project: PathParam,
+  body: UploadOwnerProjectFilesBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/projects/owner/${project}/files/upload`, body, config);
+
+export type UploadOwnerProjectFileBody = {
+  file: File;
+  collection: "documents" | "images" | "attachments" | "drawings" | "specifications" | "licenses" | "architectural_plans" | "technical_specs" | "site_photos";
+  note?: string;
+  metadata?: Record<string, unknown>;
+};
+
+export type UploadOwnerProjectFileData = unknown;
+
+/** Upload single file to project */
+export const uploadOwnerProjectFile = <T = UploadOwnerProjectFileData>(
+  project: PathParam,
+  body: UploadOwnerProjectFileBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/projects/owner/${project}/files/upload-single`, body, config);
+
+export type DeleteOwnerProjectFileBody = {
+  force_delete?: boolean;
+};
+
+export type DeleteOwnerProjectFileData = unknown;
+
+/** Delete file from project */
+export const deleteOwnerProjectFile = <T = DeleteOwnerProjectFileData>(
+  project: PathParam,
+  file: PathParam,
+  body?: DeleteOwnerProjectFileBody,
+  config?: RequestConfig
+) =>
+  request<T>("delete", `/projects/owner/${project}/files/${file}`, body, config);
+
+// --- Contractor And User Project Publishing Settings Flow (3) ---
+
+export type GetProjectPublishingSettingsData = Record<string, unknown>;
+
+/** عرض إعدادات نشر المشروع */
+export const getProjectPublishingSettings = <T = GetProjectPublishingSettingsData>(
+  project: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/projects/${project}/publishing-settings`, undefined, config);
+
+export type UpsertProjectPublishingSettingsBody = {
+  offers_window_days: number;
+  notify_matching_contractors: boolean;
+  notify_client_on_offer: boolean;
+  extra_rules: string[] | null;
+};
+
+export type UpsertProjectPublishingSettingsData = Record<string, unknown>;
+
+/** إنشاء أو تحديث إعدادات نشر المشروع */
+export const upsertProjectPublishingSettings = <T = UpsertProjectPublishingSettingsData>(
+  project: PathParam,
+  body: UpsertProjectPublishingSettingsBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/projects/${project}/publishing-settings`, body, config);
+
+// --- Contractor And User Project Review Request Flow (5) ---
+
+export interface GetProjectReviewRequestsQuery {
+  /** حالة طلب المراجعة */
+  status?: string;
+  /** عدد العناصر في الصفحة */
+  per_page?: number;
+}
+
+export type GetProjectReviewRequestsData = Record<string, unknown>;
+
+/** قائمة طلبات مراجعة المشروع */
+export const getProjectReviewRequests = <T = GetProjectReviewRequestsData>(
+  project: PathParam,
+  query?: GetProjectReviewRequestsQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery(`/projects/${project}/review-requests`, query), undefined, config);
+
+export type SubmitProjectReviewRequestData = Record<string, unknown>;
+
+/** إرسال طلب مراجعة مشروع */
+export const submitProjectReviewRequest = <T = SubmitProjectReviewRequestData>(
+  project: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/projects/${project}/review-requests`, undefined, config);
+
+export type ShowReviewRequestData = Record<string, unknown>;
+
+/** عرض تفاصيل طلب مراجعة */
+export const showReviewRequest = <T = ShowReviewRequestData>(
+  reviewRequest: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/review-requests/${reviewRequest}`, undefined, config);
+
+export type ModerateReviewRequestBody = {
+  decision: "approved" | "rejected";
+  rejection_reason?: string | null;
+};
+
+export type ModerateReviewRequestData = Record<string, unknown>;
+
+/** إدارة طلب مراجعة */
+export const moderateReviewRequest = <T = ModerateReviewRequestData>(
+  reviewRequest: PathParam,
+  body: ModerateReviewRequestBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/review-requests/${reviewRequest}/moderate`, body, config);
+
+// --- Client Phase Closure ---
+
+export type ApproveClosureRequestData = unknown;
+
+/** الموافقة على طلب إغلاق مرحلة */
+export const approveClosureRequest = <T = ApproveClosureRequestData>(
+  requestId: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/client/phase-closure/${requestId}/approve`, undefined, config);
+
+export type RejectClosureRequestBody = {
+  rejection_reason: string;
+};
+
+export type RejectClosureRequestData = unknown;
+
+/** رفض طلب إغلاق مرحلة */
+export const rejectClosureRequest = <T = RejectClosureRequestData>(
+  requestId: PathParam,
+  body: RejectClosureRequestBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/client/phase-closure/${requestId}/reject`, body, config);
+
+// --- Client Project Closure ---
+
+export type ClientReviewClosureRequestBody = {
+  decision: "approve" | "reject";
+  reject_reason_code?: string;
+  reject_reason_text?: string;
+};
+
+export type ClientReviewClosureRequestData = unknown;
+
+/** مراجعة طلب إغلاق مشروع */
+export const clientReviewClosureRequest = <T = ClientReviewClosureRequestData>(
+  requestId: PathParam,
+  body: ClientReviewClosureRequestBody,
+  config?: RequestConfig
+) =>
+  request<T>("put", `/client/project-closure-requests/${requestId}/review`, body, config);
+
+export type ClientCloseProjectDirectlyData = unknown;
+
+/** إغلاق مشروع مباشرة */
+export const clientCloseProjectDirectly = <T = ClientCloseProjectDirectlyData>(
+  projectId: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/client/projects/${projectId}/close-directly`, undefined, config);
+
+// --- Client Reports ---
+
+export interface ListClientReportsQuery {
+  /** معرف المشروع */
+  project_id?: number;
+  /** حالة البلاغ */
+  status?: "new" | "in_review" | "action_taken" | "rejected" | "closed";
+  /** نوع سبب البلاغ */
+  reason_type?: "no_update" | "ignore_request" | "no_response" | "other";
+  /** تاريخ البداية (Y-m-d) */
+  date_from?: string;
+  /** تاريخ النهاية (Y-m-d) */
+  date_to?: string;
+  /** عدد العناصر في الصفحة */
+  per_page?: number;
+}
+
+export type ListClientReportsData = unknown;
+
+/** سرد بلاغات العميل */
+export const listClientReports = <T = ListClientReportsData>(
+  query?: ListClientReportsQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery("/client-reports", query), undefined, config);
+
+export type CreateClientReportBody = {
+  project_id: number;
+  reason_type: "no_update" | "ignore_request" | "no_response" | "other";
+  description?: string;
+};
+
+export type CreateClientReportData = unknown;
+
+/** إنشاء بلاغ جديد من العميل */
+export const createClientReport = <T = CreateClientReportData>(
+  body: CreateClientReportBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", "/client-reports", body, config);
+
+// --- Contractor Payout Requests ---
+
+export type CreateContractorPayoutRequestBody = {
+  payment_id: number;
+  note?: string;
+};
+
+export type CreateContractorPayoutRequestData = unknown;
+
+/** إنشاء طلب صرف مستحقات جديد */
+export const createContractorPayoutRequest = <T = CreateContractorPayoutRequestData>(
+  body: CreateContractorPayoutRequestBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", "/contractor-payout-requests", body, config);
+
+// --- Contractor Phase Closure ---
+
+export type SubmitClosureRequestBody = {
+  phase_id: number;
+  description: string;
+};
+
+export type SubmitClosureRequestData = unknown;
+
+/** تقديم طلب إغلاق مرحلة */
+export const submitClosureRequest = <T = SubmitClosureRequestData>(
+  body: SubmitClosureRequestBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", "/contractor/phase-closure/submit", body, config);
+
+export type CancelClosureRequestData = unknown;
+
+/** إلغاء طلب إغلاق مرحلة */
+export const cancelClosureRequest = <T = CancelClosureRequestData>(
+  requestId: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/contractor/phase-closure/${requestId}/cancel`, undefined, config);
+
+// --- Contractor Project Closure ---
+
+export type ContractorSubmitClosureRequestBody = {
+  message?: string;
+};
+
+export type ContractorSubmitClosureRequestData = unknown;
+
+/** تقديم طلب إغلاق مشروع */
+export const contractorSubmitClosureRequest = <T = ContractorSubmitClosureRequestData>(
+  projectId: PathParam,
+  body: ContractorSubmitClosureRequestBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/contractor/projects/${projectId}/closure-request`, body, config);
+
+// --- Contractor Reports ---
+
+export interface ListContractorReportsQuery {
+  /** معرف المشروع */
+  project_id?: number;
+  /** حالة البلاغ */
+  status?: "new" | "in_review" | "action_taken" | "rejected" | "closed";
+  /** نوع سبب البلاغ */
+  reason_type?: "client_delay_phase_closure" | "other";
+  /** تاريخ البداية (Y-m-d) */
+  date_from?: string;
+  /** تاريخ النهاية (Y-m-d) */
+  date_to?: string;
+  /** عدد العناصر في الصفحة */
+  per_page?: number;
+}
+
+export type ListContractorReportsData = unknown;
+
+/** سرد البلاغات */
+export const listContractorReports = <T = ListContractorReportsData>(
+  query?: ListContractorReportsQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery("/contractor-reports", query), undefined, config);
+
+export type CreateContractorReportBody = {
+  project_id: number;
+  reason_type: "client_delay_phase_closure" | "other";
+  description?: string;
+};
+
+export type CreateContractorReportData = unknown;
+
+/** إنشاء بلاغ جديد من المقاول */
+export const createContractorReport = <T = CreateContractorReportData>(
+  body: CreateContractorReportBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", "/contractor-reports", body, config);
+
+// --- Project Updates ---
+
+export interface ListProjectUpdatesQuery {
+  /** عدد العناصر في الصفحة */
+  per_page?: number;
+  /** نوع التحديث (image, video, text) */
+  type?: "image" | "video" | "text";
+  /** معرف مرحلة المشروع */
+  project_phase_id?: number;
+  /** تاريخ البداية للتصفية (Y-m-d) */
+  date_from?: string;
+  /** تاريخ النهاية للتصفية (Y-m-d) */
+  date_to?: string;
+}
+
+export type ListProjectUpdatesData = unknown;
+
+/** عرض قائمة تحديثات المشروع */
+export const listProjectUpdates = <T = ListProjectUpdatesData>(
+  projectId: PathParam,
+  query?: ListProjectUpdatesQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery(`/projects/${projectId}/updates`, query), undefined, config);
+
+export type StoreProjectUpdateBody = {
+  type: "image" | "video" | "text";
+  file_path?: File;
+  description?: string;
+  progress_percent?: number;
+  project_phase_id?: number;
+};
+
+export type StoreProjectUpdateData = unknown;
+
+/** إنشاء تحديث جديد للمشروع */
+export const storeProjectUpdate = <T = StoreProjectUpdateData>(
+  projectId: PathParam,
+  body: StoreProjectUpdateBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/projects/${projectId}/updates`, body, config);
+
+export interface GetLatestProjectUpdatesQuery {
+  /** عدد التحديثات المطلوبة */
+  limit?: number;
+}
+
+export type GetLatestProjectUpdatesData = unknown;
+
+/** عرض أحدث تحديثات المشروع */
+export const getLatestProjectUpdates = <T = GetLatestProjectUpdatesData>(
+  projectId: PathParam,
+  query?: GetLatestProjectUpdatesQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery(`/projects/${projectId}/updates/latest`, query), undefined, config);
+
+export type DeleteProjectUpdateData = unknown;
+
+/** حذف تحديث المشروع */
+export const deleteProjectUpdate = <T = DeleteProjectUpdateData>(
+  projectId: PathParam,
+  updateId: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("delete", `/projects/${projectId}/updates/${updateId}`, undefined, config);
+
+// --- Project Update Requests ---
+
+export interface ListProjectUpdateRequestsQuery {
+  /** عدد العناصر في الصفحة */
+  per_page?: number;
+  /** تاريخ البداية للتصفية (Y-m-d) */
+  date_from?: string;
+  /** تاريخ النهاية للتصفية (Y-m-d) */
+  date_to?: string;
+  /** حالة الطلب (sent, blocked) */
+  status?: "sent" | "blocked";
+}
+
+export type ListProjectUpdateRequestsData = unknown;
+
+/** عرض قائمة طلبات التحديث للمشروع */
+export const listProjectUpdateRequests = <T = ListProjectUpdateRequestsData>(
+  projectId: PathParam,
+  query?: ListProjectUpdateRequestsQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery(`/projects/${projectId}/update-requests`, query), undefined, config);
+
+export type StoreProjectUpdateRequestData = unknown;
+
+/** إنشاء طلب تحديث جديد للمشروع */
+export const storeProjectUpdateRequest = <T = StoreProjectUpdateRequestData>(
+  projectId: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/projects/${projectId}/update-requests`, undefined, config);
+
+export type GetProjectUpdateRequestCooldownData = unknown;
+
+/** فحص حالة المهلة الزمنية لطلب التحديث */
+export const getProjectUpdateRequestCooldown = <T = GetProjectUpdateRequestCooldownData>(
+  projectId: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/projects/${projectId}/update-requests/cooldown`, undefined, config);
+
+// --- Engineering Office Profile ---
+
+export type EngineeringOfficeRegisterStep1Body = {
+  country_id: number;
+  city_id: number;
+  state_id: number;
+  engineering_type_id: number;
+  office_name: string;
+  license_number: string;
+  authorized_person_name: string;
+  authorized_person_phone: string;
+  representative_email: string;
+  about_us: string;
+  delegation_form: File;
+  custom_name?: string;
+  description?: string;
+  expiry_date?: string;
+};
+
+export type EngineeringOfficeRegisterStep1Data = unknown;
+
+/** تسجيل مكتب الهندسة - الخطوة الأولى */
+export const engineeringOfficeRegisterStep1 = <T = EngineeringOfficeRegisterStep1Data>(
+  body: EngineeringOfficeRegisterStep1Body,
+  config?: RequestConfig
+) =>
+  request<T>("post", "/engineering-office/profile/register-step1", body, config);
+
+export type EngineeringOfficeUpsertOperationalStep2Body = {
+  experience_years_range_id?: number;
+  staff_size_range_id?: number;
+  annual_projects_range_id?: number;
+  has_government_accreditation?: boolean;
+  classification_file?: File;
+  custom_name?: string;
+  description?: string;
+  expiry_date?: string;
+  specializations?: Array<{
+    specialization_id?: number;
+    specialization_notes?: string;
+    is_primary_specialization?: boolean;
+  }>;
+  geographical_coverage?: Array<{
+    city_id?: number;
+    covers_all_areas?: boolean;
+    specific_areas?: string[];
+    priority?: "high" | "medium" | "low";
+    notes?: string;
+  }>;
+};
+
+export type EngineeringOfficeUpsertOperationalStep2Data = unknown;
+
+/** تحديث البيانات التشغيلية - الخطوة الثانية */
+export const engineeringOfficeUpsertOperationalStep2 = <T = EngineeringOfficeUpsertOperationalStep2Data>(
+  body: EngineeringOfficeUpsertOperationalStep2Body,
+  config?: RequestConfig
+) =>
+  request<T>("post", "/engineering-office/profile/upsert-operational-step2", body, config);
+
+export type EngineeringOfficeSelectPlanStep4Body = {
+  plan_id: number;
+};
+
+export type EngineeringOfficeSelectPlanStep4Data = unknown;
+
+/** اختيار الخطة وإرسال الملف للمراجعة - الخطوة الرابعة */
+export const engineeringOfficeSelectPlanStep4 = <T = EngineeringOfficeSelectPlanStep4Data>(
+  body: EngineeringOfficeSelectPlanStep4Body,
+  config?: RequestConfig
+) =>
+  request<T>("post", "/engineering-office/profile/select-plan-step4", body, config);
+
+export type GetEngineeringOfficeProfileData = unknown;
+
+/** الحصول على ملف مكتب الهندسة */
+export const getEngineeringOfficeProfile = <T = GetEngineeringOfficeProfileData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/engineering-office/profile", undefined, config);
+
+// --- Engineering Office Profile Update ---
+
+export type EngineeringOfficeUpdateProfileBody = {
+  country_id?: number;
+  city_id?: number;
+  state_id?: number;
+  engineering_type_id?: number;
+  office_name?: string;
+  license_number?: string;
+  authorized_person_name?: string;
+  authorized_person_phone?: string;
+  representative_email?: string;
+  about_us?: string;
+  delegation_form?: File;
+  custom_name?: string;
+  description?: string;
+  expiry_date?: string;
+};
+
+export type EngineeringOfficeUpdateProfileData = unknown;
+
+/** تحديث ملف مكتب الهندسة */
+export const engineeringOfficeUpdateProfile = <T = EngineeringOfficeUpdateProfileData>(
+  body: EngineeringOfficeUpdateProfileBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", "/engineering-office/profile/update", body, config);
+
+export type EngineeringOfficeUpdateFullOperationalBody = {
+  experience_years_range_id?: number;
+  staff_size_range_id?: number;
+  annual_projects_range_id?: number;
+  has_government_accreditation?: boolean;
+  classification_file?: File;
+  custom_name?: string;
+  description?: string;
+  expiry_date?: string;
+  specializations?: Array<{
+    specialization_id?: number;
+    specialization_notes?: string;
+    is_primary_specialization?: boolean;
+  }>;
+  geographical_coverage?: Array<{
+    city_id?: number;
+    covers_all_areas?: boolean;
+    specific_areas?: string[];
+    priority?: "high" | "medium" | "low";
+    notes?: string;
+  }>;
+};
+
+export type EngineeringOfficeUpdateFullOperationalData = unknown;
+
+/** تحديث البيانات التشغيلية الكاملة */
+export const engineeringOfficeUpdateFullOperational = <T = EngineeringOfficeUpdateFullOperationalData>(
+  body: EngineeringOfficeUpdateFullOperationalBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", "/engineering-office/profile/update-full-operational", body, config);
+
+export type EngineeringOfficeUpdateOperationalBody = {
+  experience_years_range_id?: number;
+  staff_size_range_id?: number;
+  annual_projects_range_id?: number;
+  has_government_accreditation?: boolean;
+  classification_file?: File;
+  custom_name?: string;
+  description?: string;
+  expiry_date?: string;
+};
+
+export type EngineeringOfficeUpdateOperationalData = unknown;
+
+/** تحديث البيانات التشغيلية */
+export const engineeringOfficeUpdateOperational = <T = EngineeringOfficeUpdateOperationalData>(
+  body: EngineeringOfficeUpdateOperationalBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", "/engineering-office/profile/update-operational", body, config);
+
+export type EngineeringOfficeUpdateSpecializationsBody = {
+  specializations: Array<{
+    specialization_id?: number;
+    specialization_notes?: string;
+    is_primary_specialization?: boolean;
+  }>;
+};
+
+export type EngineeringOfficeUpdateSpecializationsData = unknown;
+
+/** تحديث التخصصات */
+export const engineeringOfficeUpdateSpecializations = <T = EngineeringOfficeUpdateSpecializationsData>(
+  body: EngineeringOfficeUpdateSpecializationsBody,
+  config?: RequestConfig
+) =>
+  request<T>("put", "/engineering-office/profile/update-specializations", body, config);
+
+export type EngineeringOfficeUpdateOperationalDetailsBody = {
+  experience_years_range_id?: number;
+  staff_size_range_id?: number;
+  annual_projects_range_id?: number;
+  has_government_accreditation?: boolean;
+};
+
+export type EngineeringOfficeUpdateOperationalDetailsData = unknown;
+
+/** تحديث تفاصيل التشغيل */
+export const engineeringOfficeUpdateOperationalDetails = <T = EngineeringOfficeUpdateOperationalDetailsData>(
+  body: EngineeringOfficeUpdateOperationalDetailsBody,
+  config?: RequestConfig
+) =>
+  request<T>("put", "/engineering-office/profile/update-operational-details", body, config);
+
+export type EngineeringOfficeUpdateGeographicalCoverageBody = {
+  geographical_coverage: Array<{
+    city_id?: number;
+    covers_all_areas?: boolean;
+    specific_areas?: string[];
+    priority?: "high" | "medium" | "low";
+    notes?: string;
+  }>;
+};
+
+export type EngineeringOfficeUpdateGeographicalCoverageData = unknown;
+
+/** تحديث التغطية الجغرافية */
+export const engineeringOfficeUpdateGeographicalCoverage = <T = EngineeringOfficeUpdateGeographicalCoverageData>(
+  body: EngineeringOfficeUpdateGeographicalCoverageBody,
+  config?: RequestConfig
+) =>
+  request<T>("put", "/engineering-office/profile/update-geographical-coverage", body, config);
+
+// --- Files ---
+
+export interface GetFilesQuery {
+  /** Filter by collection name */
+  collection?: string;
+  /** Filter by file type */
+  type?: string;
+  /** Filter by user ID */
+  user_id?: number;
+  /** Filter by related model type */
+  fileable_type?: string;
+  /** Filter by related model ID */
+  fileable_id?: number;
+  /** Minimum file size in bytes */
+  min_size?: number;
+  /** Maximum file size in bytes */
+  max_size?: number;
+  /** Search by filename or note */
+  search?: string;
+  /** Number of results per page */
+  per_page?: number;
+  /** Page number for pagination */
+  page?: number;
+}
+
+export type GetFilesData = {
+  current_page?: number;
+  data?: Array<{
+    id?: number;
+    original_name?: string;
+    collection?: string;
+    type?: string;
+    size?: number;
+    note?: string;
+    user_id?: number;
+    created_at?: string;
+    updated_at?: string;
+  }>;
+  per_page?: number;
+  total?: number;
+};
+
+/** Get files */
+export const getFiles = <T = GetFilesData>(
+  query?: GetFilesQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery("/files", query), undefined, config);
+
+export type DownloadFileData = unknown;
+
+/** Download file */
+export const downloadFile = <T = DownloadFileData>(
+  file: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/files/${file}/download`, undefined, config);
+
+// --- Freelancer Engineer Profile ---
+
+export type FreelancerEngineerRegisterStep1Body = {
+  country_id: number;
+  city_id: number;
+  state_id: number;
+  full_name: string;
+  national_id: string;
+  engineers_association_number: string;
+  about_me: string;
+  engineering_type_id: number;
+  experience_years_range_id: number;
+  is_associated_with_office: boolean;
+  associated_office_name?: string;
+};
+
+export type FreelancerEngineerRegisterStep1Data = unknown;
+
+/** تسجيل المهندس المستقل - الخطوة الأولى */
+export const freelancerEngineerRegisterStep1 = <T = FreelancerEngineerRegisterStep1Data>(
+  body: FreelancerEngineerRegisterStep1Body,
+  config?: RequestConfig
+) =>
+  request<T>("post", "/freelancer-engineer/profile/register-step1", body, config);
+
+export type FreelancerEngineerUpsertSpecializationsStep2Body = {
+  experience_years_range_id?: number;
+  is_associated_with_office?: boolean;
+  associated_office_name?: string;
+  specializations?: Array<{
+    engineering_specialization_id?: number;
+    other_specialization?: string;
+    specialization_notes?: string;
+    is_primary_specialization?: boolean;
+    expertise_level?: "beginner" | "intermediate" | "advanced" | "expert";
+  }>;
+  geographical_coverage?: Array<{
+    city_id?: number;
+    notes?: string;
+  }>;
+  experiences?: Array<{
+    engineering_specialization_id?: number;
+    other_specialization?: string;
+  }>;
+};
+
+export type FreelancerEngineerUpsertSpecializationsStep2Data = unknown;
+
+/** تحديث التخصصات والتغطية الجغرافية - الخطوة الثانية */
+export const freelancerEngineerUpsertSpecializationsStep2 = <T = FreelancerEngineerUpsertSpecializationsStep2Data>(
+  body: FreelancerEngineerUpsertSpecializationsStep2Body,
+  config?: RequestConfig
+) =>
+  request<T>("post", "/freelancer-engineer/profile/upsert-specializations-step2", body, config);
+
+export type FreelancerEngineerSelectPlanStep4Body = {
+  plan_id: number;
+};
+
+export type FreelancerEngineerSelectPlanStep4Data = unknown;
+
+/** اختيار الخطة وإرسال الملف للمراجعة - الخطوة الرابعة */
+export const freelancerEngineerSelectPlanStep4 = <T = FreelancerEngineerSelectPlanStep4Data>(
+  body: FreelancerEngineerSelectPlanStep4Body,
+  config?: RequestConfig
+) =>
+  request<T>("post", "/freelancer-engineer/profile/select-plan-step4", body, config);
+
+export type GetFreelancerEngineerProfileData = unknown;
+
+/** الحصول على ملف المهندس المستقل */
+export const getFreelancerEngineerProfile = <T = GetFreelancerEngineerProfileData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/freelancer-engineer/profile", undefined, config);
+
+// --- Freelancer Engineer Profile Update ---
+
+export type FreelancerEngineerUpdateProfileBody = {
+  country_id?: number;
+  city_id?: number;
+  state_id?: number;
+  full_name?: string;
+  national_id?: string;
+  engineers_association_number?: string;
+  about_me?: string;
+  engineering_type_id?: number;
+  experience_years_range_id?: number;
+  is_associated_with_office?: boolean;
+  associated_office_name?: string;
+};
+
+export type FreelancerEngineerUpdateProfileData = unknown;
+
+/** تحديث ملف المهندس المستقل */
+export const freelancerEngineerUpdateProfile = <T = FreelancerEngineerUpdateProfileData>(
+  body: FreelancerEngineerUpdateProfileBody,
+  config?: RequestConfig
+) =>
+  request<T>("put", "/freelancer-engineer/profile/update", body, config);
+
+export type FreelancerEngineerUpdateFullSpecializationsBody = {
+  experience_years_range_id?: number;
+  is_associated_with_office?: boolean;
+  associated_office_name?: string;
+  specializations: Array<{
+    engineering_specialization_id?: number;
+    other_specialization?: string;
+    specialization_notes?: string;
+    is_primary_specialization?: boolean;
+    expertise_level?: "beginner" | "intermediate" | "advanced" | "expert";
+  }>;
+  geographical_coverage: Array<{
+    city_id?: number;
+    notes?: string;
+  }>;
+  experiences?: Array<{
+    engineering_specialization_id?: number;
+    other_specialization?: string;
+  }>;
+};
+
+export type FreelancerEngineerUpdateFullSpecializationsData = unknown;
+
+/** تحديث التخصصات والتغطية الجغرافية والخبرات */
+export const freelancerEngineerUpdateFullSpecializations = <T = FreelancerEngineerUpdateFullSpecializationsData>(
+  body: FreelancerEngineerUpdateFullSpecializationsBody,
+  config?: RequestConfig
+) =>
+  request<T>("put", "/freelancer-engineer/profile/update-full-specializations", body, config);
+
+export type FreelancerEngineerUpdateSpecializationsBody = {
+  specializations: Array<{
+    engineering_specialization_id?: number;
+    other_specialization?: string;
+    specialization_notes?: string;
+    is_primary_specialization?: boolean;
+    expertise_level?: "beginner" | "intermediate" | "advanced" | "expert";
+  }>;
+};
+
+export type FreelancerEngineerUpdateSpecializationsData = unknown;
+
+/** تحديث التخصصات فقط */
+export const freelancerEngineerUpdateSpecializations = <T = FreelancerEngineerUpdateSpecializationsData>(
+  body: FreelancerEngineerUpdateSpecializationsBody,
+  config?: RequestConfig
+) =>
+  request<T>("put", "/freelancer-engineer/profile/update-specializations", body, config);
+
+export type FreelancerEngineerUpdateGeographicalCoverageBody = {
+  geographical_coverage: Array<{
+    city_id?: number;
+    notes?: string;
+  }>;
+};
+
+export type FreelancerEngineerUpdateGeographicalCoverageData = unknown;
+
+/** تحديث التغطية الجغرافية فقط */
+export const freelancerEngineerUpdateGeographicalCoverage = <T = FreelancerEngineerUpdateGeographicalCoverageData>(
+  body: FreelancerEngineerUpdateGeographicalCoverageBody,
+  config?: RequestConfig
+) =>
+  request<T>("put", "/freelancer-engineer/profile/update-geographical-coverage", body, config);
+
+export type FreelancerEngineerUpdateExperiencesBody = {
+  experiences: Array<{
+    engineering_specialization_id?: number;
+    other_specialization?: string;
+  }>;
+};
+
+export type FreelancerEngineerUpdateExperiencesData = unknown;
+
+/** تحديث الخبرات فقط */
+export const freelancerEngineerUpdateExperiences = <T = FreelancerEngineerUpdateExperiencesData>(
+  body: FreelancerEngineerUpdateExperiencesBody,
+  config?: RequestConfig
+) =>
+  request<T>("put", "/freelancer-engineer/profile/update-experiences", body, config);
+
+export type FreelancerEngineerUpdateBasicInfoBody = {
+  experience_years_range_id?: number;
+  is_associated_with_office?: boolean;
+  associated_office_name?: string;
+};
+
+export type FreelancerEngineerUpdateBasicInfoData = unknown;
+
+/** تحديث المعلومات الأساسية فقط */
+export const freelancerEngineerUpdateBasicInfo = <T = FreelancerEngineerUpdateBasicInfoData>(
+  body: FreelancerEngineerUpdateBasicInfoBody,
+  config?: RequestConfig
+) =>
+  request<T>("put", "/freelancer-engineer/profile/update-basic-info", body, config);
+
+// --- Freelancer Engineer Projects ---
+
+export interface FreelancerEngineerGetProjectsQuery {
+  /** عدد العناصر في الصفحة */
+  per_page?: number;
+}
+
+export type FreelancerEngineerGetProjectsData = unknown;
+
+/** الحصول على مشاريع المهندس المستقل */
+export const freelancerEngineerGetProjects = <T = FreelancerEngineerGetProjectsData>(
+  query?: FreelancerEngineerGetProjectsQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery("/freelancer-engineer/projects", query), undefined, config);
+
+export type FreelancerEngineerCreateProjectBody = {
+  project_name: string;
+  description?: string;
+  project_type?: string;
+  start_date?: string;
+  end_date?: string;
+  project_value?: number;
+  country_id?: number;
+  state_id?: number;
+  city_id?: number;
+  status?: string;
+  sort_order?: number;
+  project_images?: File[];
+  project_documents?: File[];
+  project_plans?: File[];
+  project_certificates?: File[];
+};
+
+export type FreelancerEngineerCreateProjectData = unknown;
+
+/** إنشاء مشروع جديد */
+export const freelancerEngineerCreateProject = <T = FreelancerEngineerCreateProjectData>(
+  body: FreelancerEngineerCreateProjectBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", "/freelancer-engineer/projects", body, config);
+
+export type FreelancerEngineerGetApprovedProjectsData = unknown;
+
+/** الحصول على المشاريع المعتمدة */
+export const freelancerEngineerGetApprovedProjects = <T = FreelancerEngineerGetApprovedProjectsData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/freelancer-engineer/projects/approved", undefined, config);
+
+export type FreelancerEngineerGetCompletedProjectsData = unknown;
+
+/** الحصول على المشاريع المكتملة */
+export const freelancerEngineerGetCompletedProjects = <T = FreelancerEngineerGetCompletedProjectsData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/freelancer-engineer/projects/completed", undefined, config);
+
+export type FreelancerEngineerGetProjectsWithDetailsData = unknown;
+
+/** الحصول على المشاريع مع التفاصيل الكاملة */
+export const freelancerEngineerGetProjectsWithDetails = <T = FreelancerEngineerGetProjectsWithDetailsData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/freelancer-engineer/projects/with-details", undefined, config);
+
+export type FreelancerEngineerGetApprovedProjectsWithDetailsData = unknown;
+
+/** الحصول على المشاريع المعتمدة مع التفاصيل الكاملة */
+export const freelancerEngineerGetApprovedProjectsWithDetails = <T = FreelancerEngineerGetApprovedProjectsWithDetailsData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/freelancer-engineer/projects/approved/with-details", undefined, config);
+
+export type FreelancerEngineerGetProjectStatsData = unknown;
+
+/** الحصول على إحصائيات المشاريع */
+export const freelancerEngineerGetProjectStats = <T = FreelancerEngineerGetProjectStatsData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/freelancer-engineer/projects/stats", undefined, config);
+
+export type FreelancerEngineerGetProjectData = unknown;
+
+/** الحصول على مشروع محدد */
+export const freelancerEngineerGetProject = <T = FreelancerEngineerGetProjectData>(
+  project: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/freelancer-engineer/projects/${project}`, undefined, config);
+
+export type FreelancerEngineerDeleteProjectData = unknown;
+
+/** حذف مشروع */
+export const freelancerEngineerDeleteProject = <T = FreelancerEngineerDeleteProjectData>(
+  project: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("delete", `/freelancer-engineer/projects/${project}`, undefined, config);
+
+export type FreelancerEngineerGetProjectWithDetailsData = unknown;
+
+/** الحصول على مشروع محدد مع التفاصيل الكاملة */
+export const freelancerEngineerGetProjectWithDetails = <T = FreelancerEngineerGetProjectWithDetailsData>(
+  project: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/freelancer-engineer/projects/${project}/with-details`, undefined, config);
+
+export type FreelancerEngineerUpdateProjectBody = {
+  project_name?: string;
+  description?: string;
+  project_type?: string;
+  start_date?: string;
+  end_date?: string;
+  project_value?: number;
+  country_id?: number;
+  state_id?: number;
+  city_id?: number;
+  status?: string;
+  sort_order?: number;
+  project_images?: File[];
+  project_documents?: File[];
+  project_plans?: File[];
+  project_certificates?: File[];
+};
+
+export type FreelancerEngineerUpdateProjectData = unknown;
+
+/** تحديث مشروع */
+export const freelancerEngineerUpdateProject = <T = FreelancerEngineerUpdateProjectData>(
+  project: PathParam,
+  body: FreelancerEngineerUpdateProjectBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/freelancer-engineer/projects/update/${project}`, body, config);
+
+export type FreelancerEngineerRemoveProjectMediaData = unknown;
+
+/** حذف وسائط المشروع */
+export const freelancerEngineerRemoveProjectMedia = <T = FreelancerEngineerRemoveProjectMediaData>(
+  project: PathParam,
+  media: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("delete", `/freelancer-engineer/projects/${project}/media/${media}`, undefined, config);
+
+// --- General ---
+
+export type GetAppInfoData = unknown;
+
+/** معلومات التطبيق */
+export const getAppInfo = <T = GetAppInfoData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/general/app-info", undefined, config);
+
+export interface GetCategoriesQuery {
+  /** لغة العرض */
+  language?: "ar" | "en";
+  /** معرف التصنيف الأب (للتصنيفات الفرعية) */
+  parent_id?: number;
+  /** مستوى التصنيف */
+  level?: number;
+}
+
+export type GetCategoriesData = unknown;
+
+/** قائمة التصنيفات */
+export const getCategories = <T = GetCategoriesData>(
+  query?: GetCategoriesQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery("/general/categories", query), undefined, config);
+
+export type GetCurrenciesData = unknown;
+
+/** قائمة العملات */
+export const getCurrencies = <T = GetCurrenciesData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/general/currencies", undefined, config);
+
+export interface GetPageQuery {
+  /** لغة العرض */
+  language?: "ar" | "en";
+}
+
+export type GetPageData = unknown;
+
+/** صفحة ثابتة */
+export const getPage = <T = GetPageData>(
+  slug: PathParam,
+  query?: GetPageQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery(`/general/pages/${slug}`, query), undefined, config);
+
+export interface GetFaqsQuery {
+  /** لغة العرض */
+  language?: "ar" | "en";
+  /** فئة الأسئلة */
+  category?: "general" | "account" | "suppliers" | "products" | "orders" | "payments" | "technical";
+}
+
+export type GetFaqsData = unknown;
+
+/** الأسئلة الشائعة */
+export const getFaqs = <T = GetFaqsData>(
+  query?: GetFaqsQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery("/general/faqs", query), undefined, config);
+
+export type SendContactMessageBody = {
+  name?: string;
+  email?: string;
+  phone?: string;
+  subject?: string;
+  message?: string;
+  category?: "general" | "support" | "complaint" | "suggestion" | "partnership" | "technical";
+  priority?: "low" | "normal" | "high" | "urgent";
+  attachments?: File[];
+};
+
+export type SendContactMessageData = unknown;
+
+/** رسالة تواصل */
+export const sendContactMessage = <T = SendContactMessageData>(
+  body: SendContactMessageBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", "/general/contact", body, config);
+
+export type GetSystemStatusData = unknown;
+
+/** حالة النظام */
+export const getSystemStatus = <T = GetSystemStatusData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/general/system-status", undefined, config);
+
+export interface GetAnnouncementsQuery {
+  /** نوع الإعلان */
+  type?: "news" | "maintenance" | "feature" | "promotion" | "warning";
+  /** الإعلانات النشطة فقط */
+  active_only?: boolean;
+}
+
+export type GetAnnouncementsData = unknown;
+
+/** الإعلانات العامة */
+export const getAnnouncements = <T = GetAnnouncementsData>(
+  query?: GetAnnouncementsQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery("/general/announcements", query), undefined, config);
+
+export interface GetTermsQuery {
+  /** لغة العرض */
+  language?: "ar" | "en";
+}
+
+export type GetTermsData = unknown;
+
+/** الشروط والأحكام */
+export const getTerms = <T = GetTermsData>(
+  query?: GetTermsQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery("/general/terms", query), undefined, config);
+
+export interface GetPrivacyPolicyQuery {
+  /** لغة العرض */
+  language?: "ar" | "en";
+}
+
+export type GetPrivacyPolicyData = unknown;
+
+/** سياسة الخصوصية */
+export const getPrivacyPolicy = <T = GetPrivacyPolicyData>(
+  query?: GetPrivacyPolicyQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery("/general/privacy", query), undefined, config);
+
+// --- GeneralDataProfile ---
+
+export type GetAllGeneralDataData = unknown;
+
+/** Get all general data profile information */
+export const getAllGeneralData = <T = GetAllGeneralDataData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/general-data-profile/all", undefined, config);
+
+export type GetExecutedProjectValueRangesData = unknown;
+
+/** Get executed project value ranges */
+export const getExecutedProjectValueRanges = <T = GetExecutedProjectValueRangesData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/general-data-profile/executed-project-value-ranges", undefined, config);
+
+export type GetTargetProjectValueRangesData = unknown;
+
+/** Get target project value ranges */
+export const getTargetProjectValueRanges = <T = GetTargetProjectValueRangesData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/general-data-profile/target-project-value-ranges", undefined, config);
+
+export type GetStaffSizeRangesData = unknown;
+
+/** Get staff size ranges */
+export const getStaffSizeRanges = <T = GetStaffSizeRangesData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/general-data-profile/staff-size-ranges", undefined, config);
+
+export type GetClassificationLevelsData = unknown;
+
+/** Get classification levels */
+export const getClassificationLevels = <T = GetClassificationLevelsData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/general-data-profile/classification-levels", undefined, config);
+
+export type GetClassificationJobsData = unknown;
+
+/** Get classification jobs */
+export const getClassificationJobs = <T = GetClassificationJobsData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/general-data-profile/classification-jobs", undefined, config);
+
+export type GetWorkFieldsData = unknown;
+
+/** Get work fields */
+export const getWorkFields = <T = GetWorkFieldsData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/general-data-profile/work-fields", undefined, config);
+
+export type GetWorkTypesData = unknown;
+
+/** Get work types */
+export const getWorkTypes = <T = GetWorkTypesData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/general-data-profile/work-types", undefined, config);
+
+export type GetExperienceYearsRangesData = unknown;
+
+/** Get experience years ranges */
+export const getExperienceYearsRanges = <T = GetExperienceYearsRangesData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/general-data-profile/experience-years-ranges", undefined, config);
+
+export type GetAnnualProjectsRangesData = unknown;
+
+/** Get annual projects ranges */
+export const getAnnualProjectsRanges = <T = GetAnnualProjectsRangesData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/general-data-profile/annual-projects-ranges", undefined, config);
+
+export type GetProjectTypesData = unknown;
+
+/** Get project types */
+export const getProjectTypes = <T = GetProjectTypesData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/general-data-profile/project-types", undefined, config);
+
+export type GetBoqUnitsData = unknown;
+
+/** Get BOQ units */
+export const getBoqUnits = <T = GetBoqUnitsData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/general-data-profile/boq-units", undefined, config);
+
+export type GetBoqTemplatesData = unknown;
+
+/** Get BOQ templates */
+export const getBoqTemplates = <T = GetBoqTemplatesData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/general-data-profile/boq-templates", undefined, config);
+
+export type GetBoqTemplateItemsData = unknown;
+
+/** Get BOQ template items */
+export const getBoqTemplateItems = <T = GetBoqTemplateItemsData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/general-data-profile/boq-template-items", undefined, config);
+
+export type GetDataProjectRequiredData = unknown;
+
+/** Get project required data */
+export const getDataProjectRequired = <T = GetDataProjectRequiredData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/general-data-profile/project-required-data", undefined, config);
+
+export type GetDataContractorRequiredData = unknown;
+
+/** Get contractor required data */
+export const getDataContractorRequired = <T = GetDataContractorRequiredData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/general-data-profile/contractor-required-data", undefined, config);
+
+export type GetEngineeringTypesData = unknown;
+
+/** Get engineering types */
+export const getEngineeringTypes = <T = GetEngineeringTypesData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/general-data-profile/engineering-types", undefined, config);
+
+export type ClearCacheData = unknown;
+
+/** Clear general data profile cache */
+export const clearCache = <T = ClearCacheData>(
+  config?: RequestConfig
+) =>
+  request<T>("post", "/general-data-profile/clear-cache", undefined, config);
+
+// --- General User ---
+
+export type UserStatusDataData = unknown;
+
+/** Get current user status data */
+export const userStatusData = <T = UserStatusDataData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/general-user/user-status-data", undefined, config);
+
+export type RequireDocumentsData = unknown;
+
+/** Get current user require documents */
+export const requireDocuments = <T = RequireDocumentsData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/general-user/require-documents", undefined, config);
+
+// --- Governmental Profile ---
+
+export type UpdateGovernmentalProfileBody = {
+  company_name?: string;
+  commercial_register_number?: string;
+  representative_name?: string;
+  representative_person_phone?: string;
+  representative_person_email?: string;
+  has_government_accreditation?: boolean;
+  detailed_address?: string;
+  vat_number?: string;
+  about_us?: string;
+  country_id?: number;
+  city_id?: number;
+  state_id?: number;
+  representative_id_image?: File;
+};
+
+export type UpdateGovernmentalProfileData = unknown;
+
+/** تحديث الملف الشخصي الحكومي */
+export const updateGovernmentalProfile = <T = UpdateGovernmentalProfileData>(
+  body: UpdateGovernmentalProfileBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", "/governmental/profile/complete", body, config);
+
+export type GetGovernmentalProfileData = unknown;
+
+/** عرض الملف الشخصي للمستخدم الحالي */
+export const getGovernmentalProfile = <T = GetGovernmentalProfileData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/governmental/profile", undefined, config);
+
+// --- Individual Profile ---
+
+export type PutIndividualProfileChangeBody = {
+  first_name?: string;
+  last_name?: string;
+  national_id?: string;
+  country_id: number;
+  city_id?: number;
+  state_id?: number;
+  detailed_address?: string;
+  change_reason: string;
+  user_notes?: string;
+};
+
+export type PutIndividualProfileChangeData = unknown;
+
+/** تغيير بيانات الملف الشخصي */
+export const putIndividualProfileChange = <T = PutIndividualProfileChangeData>(
+  body: PutIndividualProfileChangeBody,
+  config?: RequestConfig
+) =>
+  request<T>("put", "/individual/profile/change", body, config);
+
+export type PostIndividualProfileCompleteBody = {
+  first_name: string;
+  last_name: string;
+  national_id: string;
+  country_id: number;
+  city_id?: number;
+  state_id?: number;
+  detailed_address?: string;
+  about_me?: string;
+};
+
+export type PostIndividualProfileCompleteData = unknown;
+
+/** اكمل ملف شخصي جديد - الخطوة الثانية */
+export const postIndividualProfileComplete = <T = PostIndividualProfileCompleteData>(
+  body: PostIndividualProfileCompleteBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", "/individual/profile/complete", body, config);
+
+export type PostIndividualProfileSendForReviewData = unknown;
+
+/** إرسال الملف الشخصي للمراجعة - الخطوة الثالثة */
+export const postIndividualProfileSendForReview = <T = PostIndividualProfileSendForReviewData>(
+  config?: RequestConfig
+) =>
+  request<T>("post", "/individual/profile/send-for-review", undefined, config);
+
+export type GetIndividualProfileData = unknown;
+
+/** عرض الملف الشخصي للمستخدم الحالي */
+export const getIndividualProfile = <T = GetIndividualProfileData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/individual/profile", undefined, config);
+
+// --- Organization Profile ---
+
+export type UpdateOrganizationProfileBody = {
+  company_name?: string;
+  commercial_register_number?: string;
+  representative_name?: string;
+  representative_person_phone?: string;
+  representative_person_email?: string;
+  has_government_accreditation?: boolean;
+  detailed_address?: string;
+  vat_number?: string;
+  about_us?: string;
+  country_id?: number;
+  city_id?: number;
+  state_id?: number;
+  representative_id_image?: File;
+};
+
+export type UpdateOrganizationProfileData = unknown;
+
+/** تحديث الملف الشخصي للمنظمة */
+export const updateOrganizationProfile = <T = UpdateOrganizationProfileData>(
+  body: UpdateOrganizationProfileBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", "/organization/profile/complete", body, config);
+
+export type GetOrganizationProfileData = unknown;
+
+/** عرض الملف الشخصي للمستخدم الحالي */
+export const getOrganizationProfile = <T = GetOrganizationProfileData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/organization/profile", undefined, config);
+
+// --- Moyasar Payments ---
+
+export type CreateCreditCardPaymentBody = {
+  amount: number;
+  currency: string;
+  description: string;
+  card_number: string;
+  card_holder_name: string;
+  cvc: string;
+  month: string;
+  year: string;
+  order_id: string;
+  callback_url?: string;
+  back_url?: string;
+  metadata?: Record<string, unknown>;
+  payable_id?: number;
+  payable_type?: string;
+};
+
+export type CreateCreditCardPaymentData = unknown;
+
+/** Create Credit Card Payment */
+export const createCreditCardPayment = <T = CreateCreditCardPaymentData>(
+  body: CreateCreditCardPaymentBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", "/payments/moyasar/credit-card", body, config);
+
+export type CreateStcPayPaymentBody = {
+  amount: number;
+  currency: string;
+  description: string;
+  mobile: string;
+  order_id: string;
+  callback_url?: string;
+  back_url?: string;
+  metadata?: Record<string, unknown>;
+};
+
+export type CreateStcPayPaymentData = unknown;
+
+/** Create STC Pay Payment */
+export const createStcPayPayment = <T = CreateStcPayPaymentData>(
+  body: CreateStcPayPaymentBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", "/payments/moyasar/stc-pay", body, config);
+
+export type CreateApplePayPaymentBody = {
+  amount: number;
+  currency: string;
+  description: string;
+  token: string;
+  order_id: string;
+  callback_url?: string;
+  back_url?: string;
+  metadata?: Record<string, unknown>;
+};
+
+export type CreateApplePayPaymentData = unknown;
+
+/** Create Apple Pay Payment */
+export const createApplePayPayment = <T = CreateApplePayPaymentData>(
+  body: CreateApplePayPaymentBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", "/payments/moyasar/apple-pay", body, config);
+
+export type CreateSadadPaymentBody = {
+  amount: number;
+  currency: string;
+  description: string;
+  username: string;
+  order_id: string;
+  callback_url?: string;
+  back_url?: string;
+  metadata?: Record<string, unknown>;
+};
+
+export type CreateSadadPaymentData = unknown;
+
+/** Create Sadad Payment */
+export const createSadadPayment = <T = CreateSadadPaymentData>(
+  body: CreateSadadPaymentBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", "/payments/moyasar/sadad", body, config);
+
+export type FetchPaymentData = unknown;
+
+/** Fetch Payment Status */
+export const fetchPayment = <T = FetchPaymentData>(
+  providerPaymentId: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/payments/moyasar/${providerPaymentId}`, undefined, config);
+
+export type RefundPaymentBody = {
+  amount?: number;
+  reason?: string;
+  description?: string;
+};
+
+export type RefundPaymentData = unknown;
+
+/** Refund Payment */
+export const refundPayment = <T = RefundPaymentData>(
+  providerPaymentId: PathParam,
+  body: RefundPaymentBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/payments/moyasar/${providerPaymentId}/refund`, body, config);
+
+export type RefundPaymentByIdBody = {
+  amount?: number;
+  reason?: string;
+  description?: string;
+};
+
+export type RefundPaymentByIdData = unknown;
+
+/** Refund Payment by ID */
+export const refundPaymentById = <T = RefundPaymentByIdData>(
+  paymentId: PathParam,
+  body: RefundPaymentByIdBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/payments/moyasar/payment/${paymentId}/refund`, body, config);
+
+export type GetPaymentStatusData = unknown;
+
+/** Get Payment Status */
+export const getPaymentStatus = <T = GetPaymentStatusData>(
+  providerPaymentId: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/payments/moyasar/${providerPaymentId}/status`, undefined, config);
+
+export type GetRefundStatusData = unknown;
+
+/** Get Refund Status */
+export const getRefundStatus = <T = GetRefundStatusData>(
+  providerPaymentId: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/payments/moyasar/${providerPaymentId}/refund-status`, undefined, config);
+
+export type GetRefundableAmountData = unknown;
+
+/** Get Refundable Amount */
+export const getRefundableAmount = <T = GetRefundableAmountData>(
+  providerPaymentId: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/payments/moyasar/${providerPaymentId}/refundable-amount`, undefined, config);
+
+export type GetRefundedAmountData = unknown;
+
+/** Get Refunded Amount */
+export const getRefundedAmount = <T = GetRefundedAmountData>(
+  providerPaymentId: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/payments/moyasar/${providerPaymentId}/refunded-amount`, undefined, config);
+
+export interface CanRefundPaymentQuery {
+  /** Amount to check for partial refund */
+  amount?: number;
+}
+
+export type CanRefundPaymentData = unknown;
+
+/** Check if Payment Can Be Refunded */
+export const canRefundPayment = <T = CanRefundPaymentData>(
+  providerPaymentId: PathParam,
+  query?: CanRefundPaymentQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery(`/payments/moyasar/${providerPaymentId}/can-refund`, query), undefined, config);
+
+export type CapturePaymentBody = {
+  amount?: number;
+};
+
+export type CapturePaymentData = unknown;
+
+/** Capture Payment */
+export const capturePayment = <T = CapturePaymentData>(
+  providerPaymentId: PathParam,
+  body?: CapturePaymentBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/payments/moyasar/${providerPaymentId}/capture`, body, config);
+
+export type VoidPaymentData = unknown;
+
+/** Void Payment */
+export const voidPayment = <T = VoidPaymentData>(
+  providerPaymentId: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/payments/moyasar/${providerPaymentId}/void`, undefined, config);
+
+// --- Plan Catalog ---
+
+export type GetPlanCatalogData = {
+  policy?: {
+    paid_required?: boolean;
+    free_proposal_limit?: number;
+    allow_free_plan_multiple?: boolean;
+    allow_paid_auto_renew?: boolean;
+    is_active?: boolean;
+  };
+  plans?: {
+    free?: {
+      plan?: {
+        code?: string;
+        name?: string;
+        type?: string;
+        duration_label?: string;
+      };
+      price?: {
+        amount?: number;
+        currency?: string;
+      };
+      raw_features?: Record<string, unknown>;
+      effective_for_type?: Record<string, unknown>;
+    };
+    annual_paid?: {
+      plan?: {
+        code?: string;
+        name?: string;
+        type?: string;
+        duration_label?: string;
+      };
+      price?: {
+        amount?: number;
+        currency?: string;
+      };
+      raw_features?: Record<string, unknown>;
+      effective_for_type?: Record<string, unknown>;
+    };
+  };
+};
+
+/** Get plan catalog for user type */
+export const getPlanCatalog = <T = GetPlanCatalogData>(
+  userTypeId: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/plan-catalog/${userTypeId}`, undefined, config);
+
+export type GetMyPlanCatalogData = Record<string, unknown>;
+
+/** Get plan catalog for current user */
+export const getMyPlanCatalog = <T = GetMyPlanCatalogData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/plan-catalog/my-catalog", undefined, config);
+
+// --- Public User Profile ---
+
+export interface GetPublicContractorProfileQuery {
+  /** User ID of the contractor to retrieve profile for */
+  id: number;
+}
+
+export type GetPublicContractorProfileData = Record<string, unknown>;
+
+/** Get public contractor profile */
+export const getPublicContractorProfile = <T = GetPublicContractorProfileData>(
+  query: GetPublicContractorProfileQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery("/public/contractor/profile", query), undefined, config);
+
+export interface GetTopContractorsQuery {
+  /** Number of contractors to return (default: 20, max: 100) */
+  limit?: number;
+  /** Search in contractor name or company name */
+  search?: string;
+  /** Filter by city ID */
+  city_id?: number;
+  /** Filter by premium status (1 for premium only, 0 for non-premium) */
+  is_premium?: 0 | 1;
+}
+
+export type GetTopContractorsData = Array<Record<string, unknown>>;
+
+/** Get top contractors */
+export const getTopContractors = <T = GetTopContractorsData>(
+  query?: GetTopContractorsQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery("/public/contractor/top", query), undefined, config);
+
+export interface GetPublicEngineeringOfficeProfileQuery {
+  /** User ID of the engineering office to retrieve profile for */
+  id: number;
+}
+
+export type GetPublicEngineeringOfficeProfileData = Record<string, unknown>;
+
+/** Get public engineering office profile */
+export const getPublicEngineeringOfficeProfile = <T = GetPublicEngineeringOfficeProfileData>(
+  query: GetPublicEngineeringOfficeProfileQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery("/public/engineering-office/profile", query), undefined, config);
+
+export interface GetTopEngineeringOfficesQuery {
+  /** Number of engineering offices to return (default: 20, max: 100) */
+  limit?: number;
+  /** Search in office name */
+  search?: string;
+  /** Filter by city ID */
+  city_id?: number;
+  /** Filter by engineering type ID */
+  engineering_type_id?: number;
+  /** Filter by premium status (1 for premium only, 0 for non-premium) */
+  is_premium?: 0 | 1;
+}
+
+export type GetTopEngineeringOfficesData = Array<Record<string, unknown>>;
+
+/** Get top engineering offices */
+export const getTopEngineeringOffices = <T = GetTopEngineeringOfficesData>(
+  query?: GetTopEngineeringOfficesQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery("/public/engineering-office/top", query), undefined, config);
+
+export interface GetPublicFreelancerEngineerProfileQuery {
+  /** User ID of the freelancer engineer to retrieve profile for */
+  id: number;
+}
+
+export type GetPublicFreelancerEngineerProfileData = Record<string, unknown>;
+
+/** Get public freelancer engineer profile */
+export const getPublicFreelancerEngineerProfile = <T = GetPublicFreelancerEngineerProfileData>(
+  query: GetPublicFreelancerEngineerProfileQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery("/public/freelancer-engineer/profile", query), undefined, config);
+
+export interface GetTopFreelancerEngineersQuery {
+  /** Number of freelancer engineers to return (default: 20, max: 100) */
+  limit?: number;
+  /** Search in engineer name */
+  search?: string;
+  /** Filter by city ID */
+  city_id?: number;
+  /** Filter by engineering type ID */
+  engineering_type_id?: number;
+  /** Filter by premium status (1 for premium only, 0 for non-premium) */
+  is_premium?: 0 | 1;
+}
+
+export type GetTopFreelancerEngineersData = Array<Record<string, unknown>>;
+
+/** Get top freelancer engineers */
+export const getTopFreelancerEngineers = <T = GetTopFreelancerEngineersData>(
+  query?: GetTopFreelancerEngineersQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery("/public/freelancer-engineer/top", query), undefined, config);
+
+export interface GetPublicSupplierProfileQuery {
+  /** User ID of the supplier to retrieve profile for */
+  id: number;
+}
+
+export type GetPublicSupplierProfileData = Record<string, unknown>;
+
+/** Get public supplier profile */
+export const getPublicSupplierProfile = <T = GetPublicSupplierProfileData>(
+  query: GetPublicSupplierProfileQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery("/public/supplier/profile", query), undefined, config);
+
+export interface GetTopSuppliersQuery {
+  /** Number of suppliers to return (default: 20, max: 100) */
+  limit?: number;
+  /** Search in supplier name or company name */
+  search?: string;
+  /** Filter by city ID */
+  city_id?: number;
+  /** Filter by premium status (1 for premium only, 0 for non-premium) */
+  is_premium?: 0 | 1;
+}
+
+export type GetTopSuppliersData = Array<Record<string, unknown>>;
+
+/** Get top suppliers */
+export const getTopSuppliers = <T = GetTopSuppliersData>(
+  query?: GetTopSuppliersQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery("/public/supplier/top", query), undefined, config);
+
+// --- Contractor Reviews ---
+
+export type GetContractorReviewsData = unknown;
+
+/** Get contractor reviews */
+export const getContractorReviews = <T = GetContractorReviewsData>(
+  contractor: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/reviews/contractors/${contractor}/reviews`, undefined, config);
+
+export type GetProjectReviewsData = unknown;
+
+/** Get project reviews */
+export const getProjectReviews = <T = GetProjectReviewsData>(
+  project: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/reviews/projects/${project}/reviews`, undefined, config);
+
+export type CreateProjectReviewBody = {
+  title: string;
+  body: string;
+  overall_rating: number;
+  is_anonymous?: boolean;
+  scores: Array<{
+    criterion_id?: number;
+    score?: number;
+  }>;
+};
+
+export type CreateProjectReviewData = unknown;
+
+/** Create project review */
+export const createProjectReview = <T = CreateProjectReviewData>(
+  project: PathParam,
+  body: CreateProjectReviewBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/reviews/projects/${project}/reviews`, body, config);
+
+export type GetContractorStatisticsData = unknown;
+
+/** Get contractor overall statistics */
+export const getContractorStatistics = <T = GetContractorStatisticsData>(
+  contractor: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/reviews/contractors/${contractor}/statistics`, undefined, config);
+
+export type GetProjectStatisticsData = unknown;
+
+/** Get project statistics */
+export const getProjectStatistics = <T = GetProjectStatisticsData>(
+  project: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/reviews/projects/${project}/statistics`, undefined, config);
+
+export type GetContractorProjectsWithReviewsData = unknown;
+
+/** Get contractor projects with reviews */
+export const getContractorProjectsWithReviews = <T = GetContractorProjectsWithReviewsData>(
+  contractor: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/reviews/contractors/${contractor}/projects-with-reviews`, undefined, config);
+
+export interface GetTopRatedContractorsQuery {
+  /** Number of contractors to return */
+  limit?: number;
+}
+
+export type GetTopRatedContractorsData = unknown;
+
+/** Get top-rated contractors */
+export const getTopRatedContractors = <T = GetTopRatedContractorsData>(
+  query?: GetTopRatedContractorsQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery("/reviews/contractors/top-rated", query), undefined, config);
+
+export interface GetContractorsByRatingRangeQuery {
+  /** Minimum rating */
+  min_rating: number;
+  /** Maximum rating */
+  max_rating: number;
+  /** Number of contractors to return */
+  limit?: number;
+}
+
+export type GetContractorsByRatingRangeData = unknown;
+
+/** Get contractors by rating range */
+export const getContractorsByRatingRange = <T = GetContractorsByRatingRangeData>(
+  query: GetContractorsByRatingRangeQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery("/reviews/contractors/by-rating-range", query), undefined, config);
+
+export type GetContractorDashboardSummaryData = unknown;
+
+/** Get contractor dashboard summary */
+export const getContractorDashboardSummary = <T = GetContractorDashboardSummaryData>(
+  contractor: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/reviews/contractors/${contractor}/dashboard-summary`, undefined, config);
+
+export interface GetContractorsByProjectTypeQuery {
+  /** Number of contractors to return */
+  limit?: number;
+}
+
+export type GetContractorsByProjectTypeData = unknown;
+
+/** Get contractors by project type */
+export const getContractorsByProjectType = <T = GetContractorsByProjectTypeData>(
+  projectType: PathParam,
+  query?: GetContractorsByProjectTypeQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery(`/reviews/contractors/by-project-type/${projectType}`, query), undefined, config);
+
+export type GetContractorPerformanceByProjectTypeData = unknown;
+
+/** Get contractor performance by project type */
+export const getContractorPerformanceByProjectType = <T = GetContractorPerformanceByProjectTypeData>(
+  contractor: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/reviews/contractors/${contractor}/performance-by-project-type`, undefined, config);
+
+export type CanUserReviewProjectData = unknown;
+
+/** Check if user can review project */
+export const canUserReviewProject = <T = CanUserReviewProjectData>(
+  project: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/reviews/projects/${project}/can-review`, undefined, config);
+
+export type GetUserReviewForProjectData = unknown;
+
+/** Get user's review for project */
+export const getUserReviewForProject = <T = GetUserReviewForProjectData>(
+  project: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/reviews/projects/${project}/my-review`, undefined, config);
+
+export type UpdateProjectReviewBody = {
+  title?: string;
+  body?: string;
+  overall_rating?: number;
+  is_anonymous?: boolean;
+  scores?: Array<{
+    criterion_id?: number;
+    score?: number;
+  }>;
+};
+
+export type UpdateProjectReviewData = unknown;
+
+/** Update project review */
+export const updateProjectReview = <T = UpdateProjectReviewData>(
+  review: PathParam,
+  body: UpdateProjectReviewBody,
+  config?: RequestConfig
+) =>
+  request<T>("put", `/reviews/projects/${review}`, body, config);
+
+export type GetProjectCriteriaData = unknown;
+
+/** Get project review criteria */
+export const getProjectCriteria = <T = GetProjectCriteriaData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/reviews/projects/criteria", undefined, config);
+
+export type GetProjectCriteriaWithDetailsData = unknown;
+
+/** Get project review criteria with details */
+export const getProjectCriteriaWithDetails = <T = GetProjectCriteriaWithDetailsData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/reviews/projects/criteria-with-details", undefined, config);
+
+// --- Engineering Reviews ---
+
+export type GetEngineerReviewsData = unknown;
+
+/** Get engineer reviews */
+export const getEngineerReviews = <T = GetEngineerReviewsData>(
+  engineer: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/reviews/engineers/${engineer}/reviews`, undefined, config);
+
+export type GetServiceRequestReviewsData = unknown;
+
+/** Get service request reviews */
+export const getServiceRequestReviews = <T = GetServiceRequestReviewsData>(
+  serviceRequest: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/reviews/service-requests/${serviceRequest}/reviews`, undefined, config);
+
+export type CreateServiceRequestReviewBody = {
+  title: string;
+  body: string;
+  overall_rating: number;
+  is_anonymous?: boolean;
+  scores: Array<{
+    criterion_id?: number;
+    score?: number;
+  }>;
+};
+
+export type CreateServiceRequestReviewData = unknown;
+
+/** Create service request review */
+export const createServiceRequestReview = <T = CreateServiceRequestReviewData>(
+  serviceRequest: PathParam,
+  body: CreateServiceRequestReviewBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/reviews/service-requests/${serviceRequest}/reviews`, body, config);
+
+export type GetEngineerStatisticsData = unknown;
+
+/** Get engineer overall statistics */
+export const getEngineerStatistics = <T = GetEngineerStatisticsData>(
+  engineer: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/reviews/engineers/${engineer}/statistics`, undefined, config);
+
+export type GetServiceRequestReviewStatisticsData = unknown;
+
+/** Get service request statistics */
+export const getServiceRequestReviewStatistics = <T = GetServiceRequestReviewStatisticsData>(
+  serviceRequest: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/reviews/service-requests/${serviceRequest}/statistics`, undefined, config);
+
+export type GetEngineerServiceRequestsWithReviewsData = unknown;
+
+/** Get engineer service requests with reviews */
+export const getEngineerServiceRequestsWithReviews = <T = GetEngineerServiceRequestsWithReviewsData>(
+  engineer: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/reviews/engineers/${engineer}/service-requests-with-reviews`, undefined, config);
+
+export interface GetTopRatedEngineeringOfficesQuery {
+  /** Number of engineering offices to return */
+  limit?: number;
+}
+
+export type GetTopRatedEngineeringOfficesData = unknown;
+
+/** Get top-rated engineering offices */
+export const getTopRatedEngineeringOffices = <T = GetTopRatedEngineeringOfficesData>(
+  query?: GetTopRatedEngineeringOfficesQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery("/reviews/engineering-offices/top-rated", query), undefined, config);
+
+export interface GetTopRatedFreelanceEngineersQuery {
+  /** Number of freelance engineers to return */
+  limit?: number;
+}
+
+export type GetTopRatedFreelanceEngineersData = unknown;
+
+/** Get top-rated freelance engineers */
+export const getTopRatedFreelanceEngineers = <T = GetTopRatedFreelanceEngineersData>(
+  query?: GetTopRatedFreelanceEngineersQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery("/reviews/freelance-engineers/top-rated", query), undefined, config);
+
+export interface GetAllEngineersWithReviewsQuery {
+  /** Number of engineers to return */
+  limit?: number;
+}
+
+export type GetAllEngineersWithReviewsData = unknown;
+
+/** Get all engineers with reviews */
+export const getAllEngineersWithReviews = <T = GetAllEngineersWithReviewsData>(
+  query?: GetAllEngineersWithReviewsQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery("/reviews/engineers/all-with-reviews", query), undefined, config);
+
+export interface GetEngineersByRatingRangeQuery {
+  /** Type of engineer */
+  engineer_type: "engineering_office" | "freelance_engineer";
+  /** Minimum rating */
+  min_rating: number;
+  /** Maximum rating */
+  max_rating: number;
+  /** Number of engineers to return */
+  limit?: number;
+}
+
+export type GetEngineersByRatingRangeData = unknown;
+
+/** Get engineers by rating range */
+export const getEngineersByRatingRange = <T = GetEngineersByRatingRangeData>(
+  query: GetEngineersByRatingRangeQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery("/reviews/engineers/by-rating-range", query), undefined, config);
+
+export type GetEngineerDashboardSummaryData = unknown;
+
+/** Get engineer dashboard summary */
+export const getEngineerDashboardSummary = <T = GetEngineerDashboardSummaryData>(
+  engineer: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/reviews/engineers/${engineer}/dashboard-summary`, undefined, config);
+
+export interface GetEngineersByEngineeringTypeQuery {
+  /** Type of engineer */
+  engineer_type?: "engineering_office" | "freelance_engineer";
+  /** Number of engineers to return */
+  limit?: number;
+}
+
+export type GetEngineersByEngineeringTypeData = unknown;
+
+/** Get engineers by engineering type */
+export const getEngineersByEngineeringType = <T = GetEngineersByEngineeringTypeData>(
+  engineeringType: PathParam,
+  query?: GetEngineersByEngineeringTypeQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery(`/reviews/engineers/by-engineering-type/${engineeringType}`, query), undefined, config);
+
+export type GetEngineerPerformanceByEngineeringTypeData = unknown;
+
+/** Get engineer performance by engineering type */
+export const getEngineerPerformanceByEngineeringType = <T = GetEngineerPerformanceByEngineeringTypeData>(
+  engineer: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/reviews/engineers/${engineer}/performance-by-engineering-type`, undefined, config);
+
+export type CanUserReviewServiceRequestData = unknown;
+
+/** Check if user can review service request */
+export const canUserReviewServiceRequest = <T = CanUserReviewServiceRequestData>(
+  serviceRequest: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/reviews/service-requests/${serviceRequest}/can-review`, undefined, config);
+
+export type GetUserReviewForServiceRequestData = unknown;
+
+/** Get user's review for service request */
+export const getUserReviewForServiceRequest = <T = GetUserReviewForServiceRequestData>(
+  serviceRequest: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/reviews/service-requests/${serviceRequest}/my-review`, undefined, config);
+
+export type UpdateServiceRequestReviewBody = {
+  title?: string;
+  body?: string;
+  overall_rating?: number;
+  is_anonymous?: boolean;
+  scores?: Array<{
+    criterion_id?: number;
+    score?: number;
+  }>;
+};
+
+export type UpdateServiceRequestReviewData = unknown;
+
+/** Update service request review */
+export const updateServiceRequestReview = <T = UpdateServiceRequestReviewData>(
+  review: PathParam,
+  body: UpdateServiceRequestReviewBody,
+  config?: RequestConfig
+) =>
+  request<T>("put", `/reviews/service-request-reviews/${review}`, body, config);
+
+export type GetServiceRequestCriteriaData = unknown;
+
+/** Get service request review criteria */
+export const getServiceRequestCriteria = <T = GetServiceRequestCriteriaData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/reviews/service-requests/criteria", undefined, config);
+
+export type GetServiceRequestCriteriaWithDetailsData = unknown;
+
+/** Get service request review criteria with details */
+export const getServiceRequestCriteriaWithDetails = <T = GetServiceRequestCriteriaWithDetailsData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/reviews/service-requests/criteria-with-details", undefined, config);
+
+export type GetEngineeringOfficeCriteriaData = unknown;
+
+/** Get engineering office review criteria */
+export const getEngineeringOfficeCriteria = <T = GetEngineeringOfficeCriteriaData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/reviews/engineering-offices/criteria", undefined, config);
+
+export type GetFreelanceEngineerCriteriaData = unknown;
+
+/** Get freelance engineer review criteria */
+export const getFreelanceEngineerCriteria = <T = GetFreelanceEngineerCriteriaData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/reviews/freelance-engineers/criteria", undefined, config);
+
+// --- Supplier Reviews ---
+
+export type GetSupplierReviewsData = unknown;
+
+/** Get supplier reviews */
+export const getSupplierReviews = <T = GetSupplierReviewsData>(
+  supplier: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/reviews/suppliers/${supplier}/reviews`, undefined, config);
+
+export type GetProductReviewsData = unknown;
+
+/** Get product reviews */
+export const getProductReviews = <T = GetProductReviewsData>(
+  product: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/reviews/products/${product}/reviews`, undefined, config);
+
+export type CreateProductReviewBody = {
+  title: string;
+  body: string;
+  overall_rating: number;
+  is_anonymous?: boolean;
+  scores: Array<{
+    criterion_id?: number;
+    score?: number;
+  }>;
+};
+
+export type CreateProductReviewData = unknown;
+
+/** Create product review */
+export const createProductReview = <T = CreateProductReviewData>(
+  product: PathParam,
+  body: CreateProductReviewBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/reviews/products/${product}/reviews`, body, config);
+
+export type GetSupplierStatisticsData = unknown;
+
+/** Get supplier overall statistics */
+export const getSupplierStatistics = <T = GetSupplierStatisticsData>(
+  supplier: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/reviews/suppliers/${supplier}/statistics`, undefined, config);
+
+export type GetProductReviewStatisticsData = unknown;
+
+/** Get product statistics */
+export const getProductReviewStatistics = <T = GetProductReviewStatisticsData>(
+  product: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/reviews/products/${product}/statistics`, undefined, config);
+
+export type GetSupplierProductsWithReviewsData = unknown;
+
+/** Get supplier products with reviews */
+export const getSupplierProductsWithReviews = <T = GetSupplierProductsWithReviewsData>(
+  supplier: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/reviews/suppliers/${supplier}/products-with-reviews`, undefined, config);
+
+export interface GetTopRatedSuppliersQuery {
+  /** Number of suppliers to return */
+  limit?: number;
+}
+
+export type GetTopRatedSuppliersData = unknown;
+
+/** Get top-rated suppliers */
+export const getTopRatedSuppliers = <T = GetTopRatedSuppliersData>(
+  query?: GetTopRatedSuppliersQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery("/reviews/suppliers/top-rated", query), undefined, config);
+
+export interface GetSuppliersByRatingRangeQuery {
+  /** Minimum rating */
+  min_rating: number;
+  /** Maximum rating */
+  max_rating: number;
+  /** Number of suppliers to return */
+  limit?: number;
+}
+
+export type GetSuppliersByRatingRangeData = unknown;
+
+/** Get suppliers by rating range */
+export const getSuppliersByRatingRange = <T = GetSuppliersByRatingRangeData>(
+  query: GetSuppliersByRatingRangeQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery("/reviews/suppliers/by-rating-range", query), undefined, config);
+
+export type GetSupplierDashboardSummaryData = unknown;
+
+/** Get supplier dashboard summary */
+export const getSupplierDashboardSummary = <T = GetSupplierDashboardSummaryData>(
+  supplier: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/reviews/suppliers/${supplier}/dashboard-summary`, undefined, config);
+
+export type CanUserReviewProductData = unknown;
+
+/** Check if user can review product */
+export const canUserReviewProduct = <T = CanUserReviewProductData>(
+  product: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/reviews/products/${product}/can-review`, undefined, config);
+
+export type GetUserReviewForProductData = unknown;
+
+/** Get user's review for product */
+export const getUserReviewForProduct = <T = GetUserReviewForProductData>(
+  product: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/reviews/products/${product}/my-review`, undefined, config);
+
+export type UpdateProductReviewBody = {
+  title?: string;
+  body?: string;
+  overall_rating?: number;
+  is_anonymous?: boolean;
+  scores?: Array<{
+    criterion_id?: number;
+    score?: number;
+  }>;
+};
+
+export type UpdateProductReviewData = unknown;
+
+/** Update product review */
+export const updateProductReview = <T = UpdateProductReviewData>(
+  review: PathParam,
+  body: UpdateProductReviewBody,
+  config?: RequestConfig
+) =>
+  request<T>("put", `/reviews/product-reviews/${review}`, body, config);
+
+export type GetProductCriteriaData = unknown;
+
+/** Get product review criteria */
+export const getProductCriteria = <T = GetProductCriteriaData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/reviews/products/criteria", undefined, config);
+
+export type GetProductCriteriaWithDetailsData = unknown;
+
+/** Get product review criteria with details */
+export const getProductCriteriaWithDetails = <T = GetProductCriteriaWithDetailsData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/reviews/products/criteria-with-details", undefined, config);
+
+// --- Reviews ---
+
+export type VoteOnReviewBody = {
+  is_helpful: boolean;
+};
+
+export type VoteOnReviewData = {
+  review_id?: number;
+};
+
+/** Vote on review */
+export const voteOnReview = <T = VoteOnReviewData>(
+  review: PathParam,
+  body: VoteOnReviewBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/reviews/me/reviews/${review}/vote`, body, config);
+
+export type FlagReviewBody = {
+  reason?: string;
+  note?: string;
+};
+
+export type FlagReviewData = {
+  review_id?: number;
+};
+
+/** Flag review */
+export const flagReview = <T = FlagReviewData>(
+  review: PathParam,
+  body: FlagReviewBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/reviews/me/reviews/${review}/flag`, body, config);
+
+// --- Service Offer Acceptance ---
+
+export type AcceptServiceOfferBody = {
+  note?: string;
+};
+
+export type AcceptServiceOfferData = unknown;
+
+/** Accept an offer */
+export const acceptServiceOffer = <T = AcceptServiceOfferData>(
+  offer: PathParam,
+  body?: AcceptServiceOfferBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/service-requests/offers/${offer}/accept`, body, config);
+
+export type RejectServiceOfferBody = {
+  rejection_reason: string;
+  note?: string;
+};
+
+export type RejectServiceOfferData = unknown;
+
+/** Reject an offer */
+export const rejectServiceOffer = <T = RejectServiceOfferData>(
+  offer: PathParam,
+  body: RejectServiceOfferBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/service-requests/offers/${offer}/reject`, body, config);
+
+export interface GetMyRequestsOffersQuery {
+  /** Number of items per page */
+  per_page?: number;
+  /** Filter by offer status */
+  status?: string;
+  /** Filter by service request ID */
+  request_id?: number;
+  /** Filter by provider ID */
+  provider_id?: number;
+  /** Minimum offer amount */
+  min_amount?: number;
+  /** Maximum offer amount */
+  max_amount?: number;
+  /** Filter offers from date */
+  date_from?: string;
+  /** Filter offers to date */
+  date_to?: string;
+  /** Filter by engineering type ID */
+  engineering_type_id?: number;
+}
+
+export type GetMyRequestsOffersData = unknown;
+
+/** Get offers for my requests */
+export const getMyRequestsOffers = <T = GetMyRequestsOffersData>(
+  query?: GetMyRequestsOffersQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery("/service-requests/offers/my-requests-offers", query), undefined, config);
+
+// --- Service Offers ---
+
+export interface GetServiceRequestOffersQuery {
+  /** Number of items per page */
+  per_page?: number;
+  /** Filter by offer status */
+  status?: string;
+  /** Filter for active offers only */
+  active?: boolean;
+  /** Minimum offer amount */
+  min_amount?: number;
+  /** Maximum offer amount */
+  max_amount?: number;
+}
+
+export type GetServiceRequestOffersData = unknown;
+
+/** Get offers for a service request */
+export const getServiceRequestOffers = <T = GetServiceRequestOffersData>(
+  serviceRequest: PathParam,
+  query?: GetServiceRequestOffersQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery(`/service-requests/${serviceRequest}/offers`, query), undefined, config);
+
+export type CreateServiceOfferBody = {
+  execution_duration_value?: number;
+  execution_duration_unit?: "days" | "weeks" | "months";
+  expected_start_date?: string;
+  expected_end_date?: string;
+  offer_amount: number;
+  currency_code?: string;
+  details: string;
+  offer_validity_value: number;
+  offer_validity_unit: "days" | "weeks" | "months";
+  social_media_id?: number;
+  social_media_value?: string;
+  submit_immediately?: boolean;
+};
+
+export type CreateServiceOfferData = unknown;
+
+/** Create a new offer */
+export const createServiceOffer = <T = CreateServiceOfferData>(
+  serviceRequest: PathParam,
+  body: CreateServiceOfferBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/service-requests/${serviceRequest}/offers`, body, config);
+
+export interface GetMyOffersQuery {
+  /** Number of items per page */
+  per_page?: number;
+  /** Filter by offer status */
+  status?: string;
+  /** Filter by service request ID */
+  request_id?: number;
+}
+
+export type GetMyOffersData = unknown;
+
+/** Get my offers */
+export const getMyOffers = <T = GetMyOffersData>(
+  query?: GetMyOffersQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery("/service-requests/offers/my-offers", query), undefined, config);
+
+export type GetOfferDetailsData = unknown;
+
+/** Get offer details */
+export const getOfferDetails = <T = GetOfferDetailsData>(
+  offer: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/service-requests/offers/${offer}`, undefined, config);
+
+export type UpdateServiceOfferBody = {
+  execution_duration_value?: number;
+  execution_duration_unit?: "days" | "weeks" | "months";
+  expected_start_date?: string;
+  expected_end_date?: string;
+  offer_amount?: number;
+  currency_code?: string;
+  details?: string;
+  offer_validity_value?: number;
+  offer_validity_unit?: "days" | "weeks" | "months";
+  social_media_id?: number;
+  social_media_value?: string;
+  resubmit?: boolean;
+};
+
+export type UpdateServiceOfferData = unknown;
+
+/** Update an offer */
+export const updateServiceOffer = <T = UpdateServiceOfferData>(
+  offer: PathParam,
+  body: UpdateServiceOfferBody,
+  config?: RequestConfig
+) =>
+  request<T>("put", `/service-requests/offers/${offer}`, body, config);
+
+export type SubmitServiceOfferData = unknown;
+
+/** Submit an offer */
+export const submitServiceOffer = <T = SubmitServiceOfferData>(
+  offer: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/service-requests/offers/${offer}/submit`, undefined, config);
+
+export type WithdrawServiceOfferBody = {
+  reason?: string;
+};
+
+export type WithdrawServiceOfferData = unknown;
+
+/** Withdraw an offer */
+export const withdrawServiceOffer = <T = WithdrawServiceOfferData>(
+  offer: PathParam,
+  body?: WithdrawServiceOfferBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/service-requests/offers/${offer}/withdraw`, body, config);
+
+// --- Service Offer Comparison ---
+
+export type GetQuickComparisonData = unknown;
+
+/** Get quick comparison data */
+export const getQuickComparison = <T = GetQuickComparisonData>(
+  serviceRequest: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/service-requests/${serviceRequest}/offers/quick-comparison`, undefined, config);
+
+export interface GetFilteredOffersQuery {
+  /** Number of items per page */
+  per_page?: number;
+  /** Sort by criteria */
+  sort_by?: "price_asc" | "price_desc" | "duration_asc" | "duration_desc" | "submitted_desc" | "submitted_asc";
+  /** Minimum offer amount */
+  min_price?: number;
+  /** Maximum offer amount */
+  max_price?: number;
+  /** Maximum execution duration in days */
+  max_duration_days?: number;
+  /** Minimum provider rating */
+  min_rating?: number;
+  /** Filter by specific provider ID */
+  provider_id?: number;
+  /** Filter offers submitted after this date */
+  submitted_after?: string;
+  /** Filter offers submitted before this date */
+  submitted_before?: string;
+}
+
+export type GetFilteredOffersData = unknown;
+
+/** Get filtered offers for comparison */
+export const getFilteredOffers = <T = GetFilteredOffersData>(
+  serviceRequest: PathParam,
+  query?: GetFilteredOffersQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery(`/service-requests/${serviceRequest}/offers/filtered`, query), undefined, config);
+
+export interface GetOffersSortedQuery {
+  /** Sort criteria */
+  sort_by: "price" | "fastest_completion";
+  /** Minimum offer amount */
+  min_price?: number;
+  /** Maximum offer amount */
+  max_price?: number;
+  /** Maximum execution duration in days */
+  max_duration_days?: number;
+  /** Minimum provider rating */
+  min_rating?: number;
+  /** Filter by specific provider ID */
+  provider_id?: number;
+}
+
+export type GetOffersSortedData = unknown;
+
+/** Get offers sorted by criteria */
+export const getOffersSorted = <T = GetOffersSortedData>(
+  serviceRequest: PathParam,
+  query: GetOffersSortedQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery(`/service-requests/${serviceRequest}/offers/sorted`, query), undefined, config);
+
+export type GetComparisonStatisticsData = unknown;
+
+/** Get comparison statistics */
+export const getComparisonStatistics = <T = GetComparisonStatisticsData>(
+  serviceRequest: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/service-requests/${serviceRequest}/offers/statistics`, undefined, config);
+
+export interface GetDetailedComparisonQuery {
+  /** Comma-separated list of offer IDs to compare (optional - if not provided, all offers will be compared) */
+  offer_ids?: string;
+}
+
+export type GetDetailedComparisonData = unknown;
+
+/** Get detailed comparison data */
+export const getDetailedComparison = <T = GetDetailedComparisonData>(
+  serviceRequest: PathParam,
+  query?: GetDetailedComparisonQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery(`/service-requests/${serviceRequest}/offers/detailed-comparison`, query), undefined, config);
+
+export interface GetBestOfferRecommendationQuery {
+  /** Recommendation criteria */
+  criteria?: "price" | "speed" | "balanced";
+}
+
+export type GetBestOfferRecommendationData = unknown;
+
+/** Get best offer recommendation */
+export const getBestOfferRecommendation = <T = GetBestOfferRecommendationData>(
+  serviceRequest: PathParam,
+  query?: GetBestOfferRecommendationQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery(`/service-requests/${serviceRequest}/offers/recommendation`, query), undefined, config);
+
+export type GetOfferPeriodData = unknown;
+
+/** Get offer period information */
+export const getOfferPeriod = <T = GetOfferPeriodData>(
+  serviceRequest: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/service-requests/${serviceRequest}/offers/period`, undefined, config);
+
+// --- ServiceRequest ---
+
+export interface GetServiceRequestsQuery {
+  /** Number of results per page */
+  per_page?: number;
+  /** Filter by engineering type ID */
+  engineering_type_id?: number;
+  /** Filter by provider scope */
+  provider_scope?: "company" | "freelance_engineer";
+  /** Search in description, special requirements, city, and district */
+  search_term?: string;
+  /** Filter by status */
+  status?: string;
+  /** Minimum budget amount */
+  min_budget?: number;
+  /** Maximum budget amount */
+  max_budget?: number;
+  /** Filter by city ID */
+  city_id?: number;
+  /** Filter by district ID */
+  district_id?: number;
+  /** Filter from date (YYYY-MM-DD) */
+  date_from?: string;
+  /** Filter to date (YYYY-MM-DD) */
+  date_to?: string;
+}
+
+export type GetServiceRequestsData = unknown;
+
+/** Get all service requests */
+export const getServiceRequests = <T = GetServiceRequestsData>(
+  query?: GetServiceRequestsQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery("/service-requests", query), undefined, config);
+
+export type CreateServiceRequestBody = {
+  provider_scope: "company" | "freelance_engineer";
+  engineering_type_id?: number;
+  description: string;
+  special_requirements?: string;
+  city_id?: number;
+  district_id?: number;
+  city_name?: string;
+  district_name?: string;
+  address_line?: string;
+  budget_amount?: number;
+  currency_code?: string;
+  publishing_settings?: {
+    publish_immediately?: boolean;
+    publish_at?: string;
+    expires_at?: string;
+  };
+};
+
+export type CreateServiceRequestData = unknown;
+
+/** Create service request */
+export const createServiceRequest = <T = CreateServiceRequestData>(
+  body: CreateServiceRequestBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", "/service-requests", body, config);
+
+export interface GetMyServiceRequestsQuery {
+  /** Number of results per page */
+  per_page?: number;
+  /** Filter by status */
+  status?: string;
+  /** Filter by provider scope */
+  provider_scope?: "company" | "freelance_engineer";
+  /** Filter by engineering type ID */
+  engineering_type_id?: number;
+}
+
+export type GetMyServiceRequestsData = unknown;
+
+/** Get my service requests */
+export const getMyServiceRequests = <T = GetMyServiceRequestsData>(
+  query?: GetMyServiceRequestsQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery("/service-requests/my-requests", query), undefined, config);
+
+export type GetServiceRequestStatisticsData = unknown;
+
+/** Get service request statistics */
+export const getServiceRequestStatistics = <T = GetServiceRequestStatisticsData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/service-requests/statistics", undefined, config);
+
+export type GetServiceRequestData = unknown;
+
+/** Get service request details */
+export const getServiceRequest = <T = GetServiceRequestData>(
+  serviceRequest: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/service-requests/${serviceRequest}`, undefined, config);
+
+export type UpdateServiceRequestBody = {
+  provider_scope?: "company" | "freelance_engineer";
+  engineering_type_id?: number;
+  description?: string;
+  special_requirements?: string;
+  city_id?: number;
+  district_id?: number;
+  city_name?: string;
+  district_name?: string;
+  address_line?: string;
+  budget_amount?: number;
+  currency_code?: string;
+  publishing_settings?: {
+    publish_immediately?: boolean;
+    publish_at?: string;
+    expires_at?: string;
+  };
+};
+
+export type UpdateServiceRequestData = unknown;
+
+/** Update service request */
+export const updateServiceRequest = <T = UpdateServiceRequestData>(
+  serviceRequest: PathParam,
+  body: UpdateServiceRequestBody,
+  config?: RequestConfig
+) =>
+  request<T>("put", `/service-requests/${serviceRequest}`, body, config);
+
+export type DeleteServiceRequestData = unknown;
+
+/** Delete service request */
+export const deleteServiceRequest = <T = DeleteServiceRequestData>(
+  serviceRequest: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("delete", `/service-requests/${serviceRequest}`, undefined, config);
+
+export type PublishServiceRequestBody = {
+  publishing_settings?: {
+    publish_immediately?: boolean;
+    publish_at?: string;
+    expires_at?: string;
+  };
+};
+
+export type PublishServiceRequestData = unknown;
+
+/** Publish service request */
+export const publishServiceRequest = <T = PublishServiceRequestData>(
+  serviceRequest: PathParam,
+  body?: PublishServiceRequestBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/service-requests/${serviceRequest}/publish`, body, config);
+
+export type SubmitServiceRequestForReviewBody = {
+  note?: string;
+};
+
+export type SubmitServiceRequestForReviewData = unknown;
+
+/** Submit service request for review */
+export const submitServiceRequestForReview = <T = SubmitServiceRequestForReviewData>(
+  serviceRequest: PathParam,
+  body?: SubmitServiceRequestForReviewBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/service-requests/${serviceRequest}/submit-review`, body, config);
+
+// --- Subscriptions ---
+
+export type GetSubscriptionCatalogData = Record<string, unknown>;
+
+/** كتالوج الخطط للمستخدم الحالي */
+export const getSubscriptionCatalog = <T = GetSubscriptionCatalogData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/subscriptions/catalog", undefined, config);
+
+export type GetCurrentSubscriptionData = {
+  id?: number;
+  user_id?: number;
+  plan_id?: number;
+  status?: string;
+  status_text?: string;
+  is_current?: boolean;
+  starts_at?: string;
+  ends_at?: string;
+  remaining_days?: number;
+  plan?: {
+    id?: number;
+    name?: Record<string, unknown>;
+    code?: string;
+    type?: string;
+    duration_days?: number;
+    duration_months?: number;
+    price_amount?: number;
+    price_currency?: string;
+    formatted_price?: string;
+    features?: Record<string, unknown>;
+    feature_rules?: Array<Record<string, unknown>>;
+    is_active?: boolean;
+    tier?: string;
+    is_featured?: boolean;
+    sort_order?: number;
+    metadata?: Record<string, unknown>;
+  };
+  payment_subscriptions?: Array<Record<string, unknown>>;
+  usage_counters?: Array<Record<string, unknown>>;
+};
+
+/** الاشتراك الحالي مع البيانات الكاملة */
+export const getCurrentSubscription = <T = GetCurrentSubscriptionData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/subscriptions/current", undefined, config);
+
+export type SubscribeFreeData = Record<string, unknown>;
+
+/** الاشتراك المجاني */
+export const subscribeFree = <T = SubscribeFreeData>(
+  config?: RequestConfig
+) =>
+  request<T>("post", "/subscriptions/free", undefined, config);
+
+export type StartPaidCheckoutBody = {
+  source_type: "creditcard" | "stcpay" | "applepay" | "sadad";
+  source_data: {
+    name?: string;
+    number?: string;
+    cvc?: string;
+    month?: string;
+    year?: string;
+    mobile?: string;
+    token?: string;
+    username?: string;
+  };
+  plan_id: number;
+  amount?: number;
+  client_reference?: string;
+};
+
+export type StartPaidCheckoutData = Record<string, unknown>;
+
+/** بدء عملية الدفع */
+export const startPaidCheckout = <T = StartPaidCheckoutData>(
+  body: StartPaidCheckoutBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", "/subscriptions/checkout", body, config);
+
+export type CanSendProposalData = {
+  allowed?: boolean;
+  reason?: string;
+  remaining_count?: number;
+};
+
+/** فحص إمكانية إرسال عرض */
+export const canSendProposal = <T = CanSendProposalData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/subscriptions/entitlements/can-send-proposal", undefined, config);
+
+export type AssertAndConsumeOneProposalData = unknown;
+
+/** استهلاك عرض واحد */
+export const assertAndConsumeOneProposal = <T = AssertAndConsumeOneProposalData>(
+  config?: RequestConfig
+) =>
+  request<T>("post", "/subscriptions/entitlements/consume-proposal", undefined, config);
+
+export type CanSignContractData = boolean;
+
+/** فحص إمكانية توقيع عقد */
+export const canSignContract = <T = CanSignContractData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/subscriptions/entitlements/can-sign-contract", undefined, config);
+
+export type CanMessageAfterOfferAcceptedData = boolean;
+
+/** فحص إمكانية التواصل بعد قبول العرض */
+export const canMessageAfterOfferAccepted = <T = CanMessageAfterOfferAcceptedData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/subscriptions/entitlements/can-message-after-offer", undefined, config);
+
+export type GetPriorityWeightData = number;
+
+/** وزن الأولوية في البحث */
+export const getPriorityWeight = <T = GetPriorityWeightData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/subscriptions/entitlements/priority-weight", undefined, config);
+
+export type HasEarlyAccessData = boolean;
+
+/** فحص الوصول المبكر */
+export const hasEarlyAccess = <T = HasEarlyAccessData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/subscriptions/entitlements/has-early-access", undefined, config);
+
+export type ExplainEntitlementsData = Record<string, unknown>;
+
+/** تقرير الصلاحيات */
+export const explainEntitlements = <T = ExplainEntitlementsData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/subscriptions/entitlements/explain", undefined, config);
+
+export type RenewCurrentData = Record<string, unknown>;
+
+/** تجديد الاشتراك */
+export const renewCurrent = <T = RenewCurrentData>(
+  config?: RequestConfig
+) =>
+  request<T>("post", "/subscriptions/renew", undefined, config);
+
+export type CancelCurrentBody = {
+  reason?: string;
+};
+
+export type CancelCurrentData = Record<string, unknown>;
+
+/** إلغاء الاشتراك */
+export const cancelCurrent = <T = CancelCurrentData>(
+  body?: CancelCurrentBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", "/subscriptions/cancel", body, config);
+
+// --- Basket ---
+
+export type GetBasketItemsData = unknown;
+
+/** Get user's basket items */
+export const getBasketItems = <T = GetBasketItemsData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/supplier/basket/items", undefined, config);
+
+export type AddBasketItemBody = {
+  material_name: string;
+  main_category_id?: number;
+  sub_category_id?: number;
+  manual_category?: string;
+  quantity: number;
+  unit_id?: number;
+  description?: string;
+  basket_images?: File[];
+  basket_documents?: File[];
+};
+
+export type AddBasketItemData = unknown;
+
+/** Add item to basket */
+export const addBasketItem = <T = AddBasketItemData>(
+  body: AddBasketItemBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", "/supplier/basket/items", body, config);
+
+export type GetBasketItemData = unknown;
+
+/** Get basket item details */
+export const getBasketItem = <T = GetBasketItemData>(
+  basketItem: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/supplier/basket/items/${basketItem}`, undefined, config);
+
+export type RemoveBasketItemData = unknown;
+
+/** Remove basket item */
+export const removeBasketItem = <T = RemoveBasketItemData>(
+  basketItem: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("delete", `/supplier/basket/items/${basketItem}`, undefined, config);
+
+export type UpdateBasketItemBody = {
+  material_name?: string;
+  main_category_id?: number;
+  sub_category_id?: number;
+  manual_category?: string;
+  quantity?: number;
+  unit_id?: number;
+  description?: string;
+  basket_images?: File[];
+  basket_documents?: File[];
+  files_to_delete?: number[];
+};
+
+export type UpdateBasketItemData = unknown;
+
+/** Update basket item */
+export const updateBasketItem = <T = UpdateBasketItemData>(
+  basketItem: PathParam,
+  body: UpdateBasketItemBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/supplier/basket/items/${basketItem}/update`, body, config);
+
+export type UploadBasketItemFilesBody = {
+  basket_images?: File[];
+  basket_documents?: File[];
+};
+
+export type UploadBasketItemFilesData = unknown;
+
+/** Upload files to basket item */
+export const uploadBasketItemFiles = <T = UploadBasketItemFilesData>(
+  basketItem: PathParam,
+  body: UploadBasketItemFilesBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/supplier/basket/items/${basketItem}/upload-files`, body, config);
+
+export type DeleteBasketItemMediaData = unknown;
+
+/** Delete specific media from basket item */
+export const deleteBasketItemMedia = <T = DeleteBasketItemMediaData>(
+  basketItem: PathParam,
+  mediaId: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("delete", `/supplier/basket/items/${basketItem}/media/${mediaId}`, undefined, config);
+
+// --- Product Project Usage ---
+
+export interface GetProductUsagesQuery {
+  /** Filter by internal project ID */
+  internal_project_id?: number;
+  /** Filter by external project ID */
+  external_project_id?: number;
+  /** Filter by minimum quantity */
+  min_quantity?: number;
+  /** Filter by maximum quantity */
+  max_quantity?: number;
+  /** Filter by unit */
+  unit?: string;
+  /** Filter by presence of description */
+  has_description?: boolean;
+}
+
+export type GetProductUsagesData = unknown;
+
+/** Get product usages */
+export const getProductUsages = <T = GetProductUsagesData>(
+  product: PathParam,
+  query?: GetProductUsagesQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery(`/supplier/products/${product}/usages`, query), undefined, config);
+
+export type CreateProductUsageBody = {
+  internal_project_id?: number;
+  external_project_id?: number;
+  usage_description?: string;
+  quantity?: number;
+  unit?: string;
+  display_order?: number;
+};
+
+export type CreateProductUsageData = unknown;
+
+/** Create product usage */
+export const createProductUsage = <T = CreateProductUsageData>(
+  product: PathParam,
+  body: CreateProductUsageBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/supplier/products/${product}/usages`, body, config);
+
+export interface GetInternalProjectUsagesQuery {
+  /** Number of items per page */
+  per_page?: number;
+  /** Filter by internal project ID */
+  internal_project_id?: number;
+  /** Filter by minimum quantity */
+  min_quantity?: number;
+  /** Filter by maximum quantity */
+  max_quantity?: number;
+  /** Filter by unit */
+  unit?: string;
+  /** Filter by presence of description */
+  has_description?: boolean;
+}
+
+export type GetInternalProjectUsagesData = unknown;
+
+/** Get internal project usages */
+export const getInternalProjectUsages = <T = GetInternalProjectUsagesData>(
+  query?: GetInternalProjectUsagesQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery("/supplier/products/usages/internal", query), undefined, config);
+
+export interface GetExternalProjectUsagesQuery {
+  /** Number of items per page */
+  per_page?: number;
+  /** Filter by external project ID */
+  external_project_id?: number;
+  /** Filter by minimum quantity */
+  min_quantity?: number;
+  /** Filter by maximum quantity */
+  max_quantity?: number;
+  /** Filter by unit */
+  unit?: string;
+  /** Filter by presence of description */
+  has_description?: boolean;
+}
+
+export type GetExternalProjectUsagesData = unknown;
+
+/** Get external project usages */
+export const getExternalProjectUsages = <T = GetExternalProjectUsagesData>(
+  query?: GetExternalProjectUsagesQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery("/supplier/products/usages/external", query), undefined, config);
+
+export interface GetUsagesByProjectTypeQuery {
+  /** Number of items per page */
+  per_page?: number;
+  /** Filter by internal project ID */
+  internal_project_id?: number;
+  /** Filter by external project ID */
+  external_project_id?: number;
+  /** Filter by minimum quantity */
+  min_quantity?: number;
+  /** Filter by maximum quantity */
+  max_quantity?: number;
+  /** Filter by unit */
+  unit?: string;
+  /** Filter by presence of description */
+  has_description?: boolean;
+}
+
+export type GetUsagesByProjectTypeData = unknown;
+
+/** Get usages by project type */
+export const getUsagesByProjectType = <T = GetUsagesByProjectTypeData>(
+  projectType: PathParam,
+  query?: GetUsagesByProjectTypeQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery(`/supplier/products/usages/project-type/${projectType}`, query), undefined, config);
+
+export interface GetUsagesForInternalProjectQuery {
+  /** Filter by minimum quantity */
+  min_quantity?: number;
+  /** Filter by maximum quantity */
+  max_quantity?: number;
+  /** Filter by unit */
+  unit?: string;
+  /** Filter by presence of description */
+  has_description?: boolean;
+}
+
+export type GetUsagesForInternalProjectData = unknown;
+
+/** Get usages for internal project */
+export const getUsagesForInternalProject = <T = GetUsagesForInternalProjectData>(
+  project: PathParam,
+  query?: GetUsagesForInternalProjectQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery(`/supplier/products/usages/internal-project/${project}`, query), undefined, config);
+
+export interface GetUsagesForExternalProjectQuery {
+  /** Filter by minimum quantity */
+  min_quantity?: number;
+  /** Filter by maximum quantity */
+  max_quantity?: number;
+  /** Filter by unit */
+  unit?: string;
+  /** Filter by presence of description */
+  has_description?: boolean;
+}
+
+export type GetUsagesForExternalProjectData = unknown;
+
+/** Get usages for external project */
+export const getUsagesForExternalProject = <T = GetUsagesForExternalProjectData>(
+  project: PathParam,
+  query?: GetUsagesForExternalProjectQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery(`/supplier/products/usages/external-project/${project}`, query), undefined, config);
+
+export type GetUsageDetailsData = unknown;
+
+/** Get usage details */
+export const getUsageDetails = <T = GetUsageDetailsData>(
+  usage: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/supplier/products/usages/${usage}`, undefined, config);
+
+export type UpdateProductUsageBody = {
+  internal_project_id?: number;
+  external_project_id?: number;
+  usage_description?: string;
+  quantity?: number;
+  unit?: string;
+  display_order?: number;
+};
+
+export type UpdateProductUsageData = unknown;
+
+/** Update product usage */
+export const updateProductUsage = <T = UpdateProductUsageData>(
+  usage: PathParam,
+  body: UpdateProductUsageBody,
+  config?: RequestConfig
+) =>
+  request<T>("put", `/supplier/products/usages/${usage}`, body, config);
+
+export type DeleteProductUsageData = unknown;
+
+/** Delete product usage */
+export const deleteProductUsage = <T = DeleteProductUsageData>(
+  usage: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("delete", `/supplier/products/usages/${usage}`, undefined, config);
+
+export type UpdateUsageDisplayOrderBody = {
+  display_order?: number;
+};
+
+export type UpdateUsageDisplayOrderData = unknown;
+
+/** Update usage display order */
+export const updateUsageDisplayOrder = <T = UpdateUsageDisplayOrderData>(
+  usage: PathParam,
+  body: UpdateUsageDisplayOrderBody,
+  config?: RequestConfig
+) =>
+  request<T>("put", `/supplier/products/usages/${usage}/display-order`, body, config);
+
+export type BulkDeleteUsagesBody = {
+  usage_ids?: number[];
+};
+
+export type BulkDeleteUsagesData = unknown;
+
+/** Bulk delete usages */
+export const bulkDeleteUsages = <T = BulkDeleteUsagesData>(
+  body: BulkDeleteUsagesBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", "/supplier/products/usages/bulk-delete", body, config);
+
+export type GetProductUsageStatsData = unknown;
+
+/** Get product usage statistics */
+export const getProductUsageStats = <T = GetProductUsageStatsData>(
+  product: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/supplier/products/${product}/usage-stats`, undefined, config);
+
+export type GetInternalProjectUsageStatsData = unknown;
+
+/** Get internal project usage statistics */
+export const getInternalProjectUsageStats = <T = GetInternalProjectUsageStatsData>(
+  project: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/supplier/products/usages/internal-project/${project}/stats`, undefined, config);
+
+export type GetExternalProjectUsageStatsData = unknown;
+
+/** Get external project usage statistics */
+export const getExternalProjectUsageStats = <T = GetExternalProjectUsageStatsData>(
+  project: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/supplier/products/usages/external-project/${project}/stats`, undefined, config);
+
+export type GetProductsUsedInInternalProjectData = unknown;
+
+/** Get products used in internal project */
+export const getProductsUsedInInternalProject = <T = GetProductsUsedInInternalProjectData>(
+  project: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/supplier/products/usages/internal-project/${project}/products`, undefined, config);
+
+export type GetProductsUsedInExternalProjectData = unknown;
+
+/** Get products used in external project */
+export const getProductsUsedInExternalProject = <T = GetProductsUsedInExternalProjectData>(
+  project: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/supplier/products/usages/external-project/${project}/products`, undefined, config);
+
+export type IsProductUsedData = unknown;
+
+/** Check if product is used */
+export const isProductUsed = <T = IsProductUsedData>(
+  product: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/supplier/products/${product}/is-used`, undefined, config);
+
+// --- Supplier Products ---
+
+export interface GetMySupplierProductsQuery {
+  /** Filter by main category ID */
+  category_id?: number;
+  /** Filter by sub category ID */
+  sub_category_id?: number;
+  /** Filter by micro category ID */
+  micro_category_id?: number;
+  /** Filter by product label */
+  label?: "none" | "best_seller" | "special_offer";
+  /** Filter by active status */
+  is_active?: boolean;
+}
+
+export type GetMySupplierProductsData = unknown;
+
+/** Get my supplier products */
+export const getMySupplierProducts = <T = GetMySupplierProductsData>(
+  query?: GetMySupplierProductsQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery("/supplier/products/my-products", query), undefined, config);
+
+export type CreateSupplierProductBody = {
+  name_ar: string;
+  name_en: string;
+  description_ar?: string;
+  description_en?: string;
+  main_category_id: number;
+  sub_category_id?: number;
+  micro_category_id?: number;
+  price: number;
+  discount_type: "none" | "percent" | "fixed";
+  discount_value?: number;
+  label: "none" | "best_seller" | "special_offer";
+  is_active?: boolean;
+  display_order?: number;
+  product_images?: File[];
+  product_documents?: File[];
+};
+
+export type CreateSupplierProductData = unknown;
+
+/** Create new product */
+export const createSupplierProduct = <T = CreateSupplierProductData>(
+  body: CreateSupplierProductBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", "/supplier/products", body, config);
+
+export type GetSupplierProductData = unknown;
+
+/** Get product details */
+export const getSupplierProduct = <T = GetSupplierProductData>(
+  supplierProduct: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/supplier/products/${supplierProduct}`, undefined, config);
+
+export type DeleteSupplierProductData = unknown;
+
+/** Delete product */
+export const deleteSupplierProduct = <T = DeleteSupplierProductData>(
+  supplierProduct: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("delete", `/supplier/products/${supplierProduct}`, undefined, config);
+
+export type UpdateSupplierProductBody = {
+  name_ar: string;
+  name_en: string;
+  main_category_id: number;
+  sub_category_id?: number;
+  micro_category_id?: number;
+  price: number;
+  discount_type: "none" | "percent" | "fixed";
+  discount_value?: number;
+  description_ar?: string;
+  description_en?: string;
+  label: "none" | "best_seller" | "special_offer";
+  is_active?: boolean;
+  display_order?: number;
+  product_images?: File[];
+  product_documents?: File[];
+  files_to_delete?: number[];
+};
+
+export type UpdateSupplierProductData = unknown;
+
+/** Update product */
+export const updateSupplierProduct = <T = UpdateSupplierProductData>(
+  supplierProduct: PathParam,
+  body: UpdateSupplierProductBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/supplier/products/${supplierProduct}/update`, body, config);
+
+export type UploadProductFilesBody = {
+  product_images?: File[];
+  product_documents?: File[];
+};
+
+export type UploadProductFilesData = unknown;
+
+/** Upload files to product */
+export const uploadProductFiles = <T = UploadProductFilesData>(
+  supplierProduct: PathParam,
+  body: UploadProductFilesBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/supplier/products/${supplierProduct}/upload-files`, body, config);
+
+export type DeleteProductMediaData = unknown;
+
+/** Delete product media file */
+export const deleteProductMedia = <T = DeleteProductMediaData>(
+  supplierProduct: PathParam,
+  mediaId: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("delete", `/supplier/products/${supplierProduct}/media/${mediaId}`, undefined, config);
+
+// --- Purchase Requests ---
+
+export interface GetPurchaseRequestsQuery {
+  /** Number of items per page (max 100) */
+  per_page?: number;
+  /** Filter by status (draft, published, awarded, closed) */
+  status?: "draft" | "published" | "awarded" | "closed";
+}
+
+export type GetPurchaseRequestsData = unknown;
+
+/** Get user's purchase requests */
+export const getPurchaseRequests = <T = GetPurchaseRequestsData>(
+  query?: GetPurchaseRequestsQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery("/supplier/purchase-requests", query), undefined, config);
+
+export type CreatePurchaseRequestBody = {
+  title: string;
+  client_notes?: string;
+  project_id?: number;
+  basket_item_ids?: number[];
+  auto_publish?: boolean;
+};
+
+export type CreatePurchaseRequestData = unknown;
+
+/** Create new purchase request draft */
+export const createPurchaseRequest = <T = CreatePurchaseRequestData>(
+  body: CreatePurchaseRequestBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", "/supplier/purchase-requests", body, config);
+
+export type GetPurchaseRequestData = unknown;
+
+/** Get purchase request details */
+export const getPurchaseRequest = <T = GetPurchaseRequestData>(
+  purchaseRequest: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/supplier/purchase-requests/${purchaseRequest}`, undefined, config);
+
+export type UpdatePurchaseRequestBody = {
+  title?: string;
+  client_notes?: string;
+  project_id?: number;
+};
+
+export type UpdatePurchaseRequestData = unknown;
+
+/** Update purchase request */
+export const updatePurchaseRequest = <T = UpdatePurchaseRequestData>(
+  purchaseRequest: PathParam,
+  body: UpdatePurchaseRequestBody,
+  config?: RequestConfig
+) =>
+  request<T>("put", `/supplier/purchase-requests/${purchaseRequest}`, body, config);
+
+export type DeletePurchaseRequestData = unknown;
+
+/** Delete purchase request */
+export const deletePurchaseRequest = <T = DeletePurchaseRequestData>(
+  purchaseRequest: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("delete", `/supplier/purchase-requests/${purchaseRequest}`, undefined, config);
+
+export type PublishPurchaseRequestData = unknown;
+
+/** Publish purchase request */
+export const publishPurchaseRequest = <T = PublishPurchaseRequestData>(
+  purchaseRequest: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/supplier/purchase-requests/${purchaseRequest}/publish`, undefined, config);
+
+export type UnpublishPurchaseRequestData = unknown;
+
+/** Unpublish purchase request */
+export const unpublishPurchaseRequest = <T = UnpublishPurchaseRequestData>(
+  purchaseRequest: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/supplier/purchase-requests/${purchaseRequest}/unpublish`, undefined, config);
+
+// --- Purchase Request Items ---
+
+export type UpsertPurchaseRequestItemBody = {
+  item_id?: number;
+  material_name: string;
+  main_category_id?: number;
+  sub_category_id?: number;
+  manual_category?: string;
+  quantity: number;
+  unit_id?: number;
+  description?: string;
+};
+
+export type UpsertPurchaseRequestItemData = unknown;
+
+/** Add or update item in purchase request */
+export const upsertPurchaseRequestItem = <T = UpsertPurchaseRequestItemData>(
+  purchaseRequest: PathParam,
+  body: UpsertPurchaseRequestItemBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/supplier/purchase-requests/${purchaseRequest}/items`, body, config);
+
+export type UpdatePurchaseRequestItemWithFilesBody = {
+  material_name?: string;
+  main_category_id?: number;
+  sub_category_id?: number;
+  manual_category?: string;
+  quantity?: number;
+  unit_id?: number;
+  description?: string;
+  item_images?: File[];
+  item_documents?: File[];
+  files_to_delete?: number[];
+};
+
+export type UpdatePurchaseRequestItemWithFilesData = unknown;
+
+/** Update purchase request item with files */
+export const updatePurchaseRequestItemWithFiles = <T = UpdatePurchaseRequestItemWithFilesData>(
+  purchaseRequest: PathParam,
+  item: PathParam,
+  body: UpdatePurchaseRequestItemWithFilesBody,
+  config?: RequestConfig
+) =>
+  request<T>("put", `/supplier/purchase-requests/${purchaseRequest}/items/${item}`, body, config);
+
+export type RemovePurchaseRequestItemData = unknown;
+
+/** Remove item from purchase request */
+export const removePurchaseRequestItem = <T = RemovePurchaseRequestItemData>(
+  purchaseRequest: PathParam,
+  item: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("delete", `/supplier/purchase-requests/${purchaseRequest}/items/${item}`, undefined, config);
+
+// --- Purchase Request Requirements ---
+
+export type SyncSpecialRequirementsBody = {
+  requirement_ids?: number[];
+};
+
+export type SyncSpecialRequirementsData = unknown;
+
+/** Sync special requirements */
+export const syncSpecialRequirements = <T = SyncSpecialRequirementsData>(
+  purchaseRequest: PathParam,
+  body: SyncSpecialRequirementsBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/supplier/purchase-requests/${purchaseRequest}/special-requirements`, body, config);
+
+// --- Purchase Request Basket ---
+
+export type AddBasketItemsToDraftBody = {
+  basket_item_ids: number[];
+};
+
+export type AddBasketItemsToDraftData = unknown;
+
+/** Add basket items to draft */
+export const addBasketItemsToDraft = <T = AddBasketItemsToDraftData>(
+  purchaseRequest: PathParam,
+  body: AddBasketItemsToDraftBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/supplier/purchase-requests/${purchaseRequest}/basket-items`, body, config);
+
+// --- Purchase Request Files ---
+
+export type UploadPurchaseRequestItemFilesBody = {
+  item_images?: File[];
+  item_documents?: File[];
+};
+
+export type UploadPurchaseRequestItemFilesData = unknown;
+
+/** Upload files to purchase request item */
+export const uploadPurchaseRequestItemFiles = <T = UploadPurchaseRequestItemFilesData>(
+  purchaseRequest: PathParam,
+  item: PathParam,
+  body: UploadPurchaseRequestItemFilesBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/supplier/purchase-requests/${purchaseRequest}/items/${item}/upload-files`, body, config);
+
+export type DeletePurchaseRequestItemMediaData = unknown;
+
+/** Delete media from purchase request item */
+export const deletePurchaseRequestItemMedia = <T = DeletePurchaseRequestItemMediaData>(
+  purchaseRequest: PathParam,
+  item: PathParam,
+  mediaId: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("delete", `/supplier/purchase-requests/${purchaseRequest}/items/${item}/media/${mediaId}`, undefined, config);
+
+export type GetPurchaseRequestItemMediaStatsData = unknown;
+
+/** Get purchase request item media statistics */
+export const getPurchaseRequestItemMediaStats = <T = GetPurchaseRequestItemMediaStatsData>(
+  purchaseRequest: PathParam,
+  item: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/supplier/purchase-requests/${purchaseRequest}/items/${item}/media-stats`, undefined, config);
+
+// --- Supplier Profile ---
+
+export type GetProfileData = unknown;
+
+/** Get supplier profile */
+export const getProfile = <T = GetProfileData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/supplier/profile/", undefined, config);
+
+// --- Supplier Registration ---
+
+export type RegisterStep1Body = {
+  company_name: string;
+  commercial_registration_number: string;
+  authorized_person_name: string;
+  authorized_person_phone: string;
+  representative_email: string;
+  country_id?: number;
+  city_id?: number;
+  state_id?: number;
+  delegation_form: File;
+};
+
+export type RegisterStep1Data = {
+  profile?: Record<string, unknown>;
+  otp_sent?: boolean;
+};
+
+/** Step 1: Register company profile */
+export const registerStep1 = <T = RegisterStep1Data>(
+  body: RegisterStep1Body,
+  config?: RequestConfig
+) =>
+  request<T>("post", "/supplier/registration/register-step1", body, config);
+
+export type UpsertOperationalStep2Body = {
+  experience_years_range_id: number;
+  classification_file?: File | null;
+  has_government_accreditation: boolean;
+  work_fields?: Array<{
+    work_field_id: number;
+    field_specific_notes?: string | null;
+  }>;
+  geographical_coverage?: Array<{
+    city_id: number;
+    covers_all_areas: boolean;
+    specific_areas?: string[] | null;
+    priority?: "high" | "medium" | "low" | null;
+    notes?: string | null;
+  }>;
+};
+
+export type UpsertOperationalStep2Data = Record<string, unknown>;
+
+/** Step 2: Update operational profile */
+export const upsertOperationalStep2 = <T = UpsertOperationalStep2Data>(
+  body: UpsertOperationalStep2Body,
+  config?: RequestConfig
+) =>
+  request<T>("post", "/supplier/registration/update-operational-step2", body, config);
+
+export type SelectPlanStep4Body = {
+  plan_id: number;
+};
+
+export type SelectPlanStep4Data = Record<string, unknown>;
+
+/** Step 4: Select subscription plan */
+export const selectPlanStep4 = <T = SelectPlanStep4Data>(
+  body: SelectPlanStep4Body,
+  config?: RequestConfig
+) =>
+  request<T>("post", "/supplier/registration/select-plan-step4", body, config);
+
+// --- Supplier Update Profile ---
+
+export type UpdateSupplierProfileBody = {
+  company_name: string;
+  commercial_registration_number: string;
+  authorized_person_name: string;
+  authorized_person_phone: string;
+  representative_email: string;
+  country_id?: number;
+  city_id?: number;
+  state_id?: number;
+};
+
+export type UpdateSupplierProfileData = {
+  profile?: Record<string, unknown>;
+};
+
+/** Step 1: Update company profile */
+export const updateSupplierProfile = <T = UpdateSupplierProfileData>(
+  body: UpdateSupplierProfileBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", "/supplier/profile/update", body, config);
+
+export type UpdateFullOperationalSupplierBody = {
+  experience_years_range_id: number;
+  classification_file?: File | null;
+  has_government_accreditation: boolean;
+  work_fields?: Array<{
+    work_field_id: number;
+    field_specific_notes?: string | null;
+  }>;
+  geographical_coverage?: Array<{
+    city_id: number;
+    covers_all_areas: boolean;
+    specific_areas?: string[] | null;
+    priority?: "high" | "medium" | "low" | null;
+    notes?: string | null;
+  }>;
+};
+
+export type UpdateFullOperationalSupplierData = Record<string, unknown>;
+
+/** Step 2: Update full operational profile */
+export const updateFullOperationalSupplier = <T = UpdateFullOperationalSupplierData>(
+  body: UpdateFullOperationalSupplierBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", "/supplier/profile/update-full-operational", body, config);
+
+export type UpdateOperationalSupplierBody = {
+  experience_years_range_id: number;
+  classification_file?: File | null;
+  has_government_accreditation: boolean;
+};
+
+export type UpdateOperationalSupplierData = Record<string, unknown>;
+
+/** Step 3: Update operational profile */
+export const updateOperationalSupplier = <T = UpdateOperationalSupplierData>(
+  body: UpdateOperationalSupplierBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", "/supplier/profile/update-operational", body, config);
+
+export type UpdateWorkFieldsSupplierBody = {
+  work_fields: Array<{
+    work_field_id: number;
+    field_specific_notes?: string | null;
+  }>;
+};
+
+export type UpdateWorkFieldsSupplierData = Record<string, unknown>;
+
+/** Step 4: Update work fields */
+export const updateWorkFieldsSupplier = <T = UpdateWorkFieldsSupplierData>(
+  body: UpdateWorkFieldsSupplierBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", "/supplier/profile/update-work-fields", body, config);
+
+export type UpdateGeographicalCoverageSupplierBody = {
+  geographical_coverage: Array<{
+    city_id: number;
+    covers_all_areas: boolean;
+    specific_areas?: string[] | null;
+    priority?: "high" | "medium" | "low" | null;
+    notes?: string | null;
+  }>;
+};
+
+export type UpdateGeographicalCoverageSupplierData = Record<string, unknown>;
+
+/** Step 5: Update geographical coverage */
+export const updateGeographicalCoverageSupplier = <T = UpdateGeographicalCoverageSupplierData>(
+  body: UpdateGeographicalCoverageSupplierBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", "/supplier/profile/update-geographical-coverage", body, config);
+
+// --- User Bank Accounts ---
+
+export type ListUserBankAccountsData = Array<Record<string, unknown>>;
+
+/** قائمة حسابات المستخدم البنكية */
+export const listUserBankAccounts = <T = ListUserBankAccountsData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/bank/accounts", undefined, config);
+
+export type CreateUserBankAccountBody = {
+  bank_type_id: number;
+  full_name: string;
+  iban?: string;
+  account_number?: string;
+  qr_media_ref?: string;
+  swift_bic?: string;
+  branch_name?: string;
+  is_primary?: boolean;
+  status?: "pending" | "verified" | "rejected" | "disabled";
+  external_account_id?: string;
+};
+
+export type CreateUserBankAccountData = Record<string, unknown>;
+
+/** إنشاء حساب بنكي */
+export const createUserBankAccount = <T = CreateUserBankAccountData>(
+  body: CreateUserBankAccountBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", "/bank/accounts", body, config);
+
+export type ShowUserBankAccountData = Record<string, unknown>;
+
+/** تفاصيل حساب بنكي */
+export const showUserBankAccount = <T = ShowUserBankAccountData>(
+  id: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/bank/accounts/${id}`, undefined, config);
+
+export type UpdateUserBankAccountBody = {
+  full_name?: string;
+  iban?: string;
+  account_number?: string;
+  qr_media_ref?: string;
+  swift_bic?: string;
+  branch_name?: string;
+  is_primary?: boolean;
+  status?: "pending" | "verified" | "rejected" | "disabled";
+  external_account_id?: string;
+};
+
+export type UpdateUserBankAccountData = Record<string, unknown>;
+
+/** تعديل حساب بنكي */
+export const updateUserBankAccount = <T = UpdateUserBankAccountData>(
+  id: PathParam,
+  body?: UpdateUserBankAccountBody,
+  config?: RequestConfig
+) =>
+  request<T>("patch", `/bank/accounts/${id}`, body, config);
+
+export type DeleteUserBankAccountData = unknown;
+
+/** حذف حساب بنكي */
+export const deleteUserBankAccount = <T = DeleteUserBankAccountData>(
+  id: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("delete", `/bank/accounts/${id}`, undefined, config);
+
+export type MakePrimaryUserBankAccountData = Record<string, unknown>;
+
+/** تعيين كافتراضي */
+export const makePrimaryUserBankAccount = <T = MakePrimaryUserBankAccountData>(
+  id: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/bank/accounts/${id}/primary`, undefined, config);
+
+export type VerifyUserBankAccountBody = {
+  admin_user_id?: number;
+};
+
+export type VerifyUserBankAccountData = Record<string, unknown>;
+
+/** اعتماد حساب */
+export const verifyUserBankAccount = <T = VerifyUserBankAccountData>(
+  id: PathParam,
+  body?: VerifyUserBankAccountBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/bank/accounts/${id}/verify`, body, config);
+
+export type RejectUserBankAccountBody = {
+  reason: string;
+  admin_user_id?: number;
+};
+
+export type RejectUserBankAccountData = Record<string, unknown>;
+
+/** رفض حساب */
+export const rejectUserBankAccount = <T = RejectUserBankAccountData>(
+  id: PathParam,
+  body: RejectUserBankAccountBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/bank/accounts/${id}/reject`, body, config);
+
+export interface ListBankTypesQuery {
+  /** فلترة حسب code */
+  code?: string;
+  /** فقط المفعّلة */
+  active?: boolean;
+}
+
+export type ListBankTypesData = Array<Record<string, unknown>>;
+
+/** أنواع البنوك المفعّلة */
+export const listBankTypes = <T = ListBankTypesData>(
+  query?: ListBankTypesQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery("/bank/bank-types", query), undefined, config);
+
+export type GetPrimaryAccountData = Record<string, unknown> | null;
+
+/** الحساب الافتراضي */
+export const getPrimaryAccount = <T = GetPrimaryAccountData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/bank/accounts/primary", undefined, config);
+
+// --- User Notifications ---
+
+export interface GetUserNotificationsQuery {
+  /** عدد الإشعارات في الصفحة */
+  per_page?: number;
+  /** فلترة حسب نوع الإشعار */
+  type?: string;
+  /** فلترة حسب حالة القراءة */
+  is_read?: boolean;
+  /** فلترة حسب الأولوية */
+  priority?: "low" | "normal" | "high" | "urgent";
+  /** فلترة حسب القناة */
+  channel?: "database" | "email" | "sms" | "push";
+}
+
+export type GetUserNotificationsData = unknown;
+
+/** الحصول على إشعارات المستخدم */
+export const getUserNotifications = <T = GetUserNotificationsData>(
+  query?: GetUserNotificationsQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery("/notifications", query), undefined, config);
+
+export type GetUserNotificationData = unknown;
+
+/** الحصول على إشعار محدد */
+export const getUserNotification = <T = GetUserNotificationData>(
+  notification: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/notifications/${notification}`, undefined, config);
+
+export type DeleteUserNotificationData = unknown;
+
+/** حذف إشعار */
+export const deleteUserNotification = <T = DeleteUserNotificationData>(
+  notification: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("delete", `/notifications/${notification}`, undefined, config);
+
+export type MarkNotificationAsReadData = unknown;
+
+/** تحديد إشعار كمقروء */
+export const markNotificationAsRead = <T = MarkNotificationAsReadData>(
+  notification: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/notifications/${notification}/mark-as-read`, undefined, config);
+
+export type MarkAllNotificationsAsReadData = unknown;
+
+/** تحديد جميع الإشعارات كمقروءة */
+export const markAllNotificationsAsRead = <T = MarkAllNotificationsAsReadData>(
+  config?: RequestConfig
+) =>
+  request<T>("post", "/notifications/mark-all-as-read", undefined, config);
+
+export type BulkMarkNotificationsAsReadBody = {
+  notification_ids: string[];
+};
+
+export type BulkMarkNotificationsAsReadData = unknown;
+
+/** تحديد إشعارات متعددة كمقروءة */
+export const bulkMarkNotificationsAsRead = <T = BulkMarkNotificationsAsReadData>(
+  body: BulkMarkNotificationsAsReadBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", "/notifications/bulk-mark-as-read", body, config);
+
+export type GetUnreadNotificationsCountData = unknown;
+
+/** عدد الإشعارات غير المقروءة */
+export const getUnreadNotificationsCount = <T = GetUnreadNotificationsCountData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/notifications/unread-count", undefined, config);
+
+export type ArchiveNotificationData = unknown;
+
+/** أرشفة إشعار */
+export const archiveNotification = <T = ArchiveNotificationData>(
+  notification: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/notifications/${notification}/archive`, undefined, config);
+
+export type UnarchiveNotificationData = unknown;
+
+/** إلغاء أرشفة إشعار */
+export const unarchiveNotification = <T = UnarchiveNotificationData>(
+  notification: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/notifications/${notification}/unarchive`, undefined, config);
+
+// --- User Social Media ---
+
+export interface ListUserSocialMediaAccountsQuery {
+  /** فلترة حسب المنصة */
+  platform?: string;
+  /** فلترة حسب الحالة النشطة */
+  is_active?: boolean;
+  /** فلترة حسب الحسابات المحققة */
+  is_verified?: boolean;
+  /** فلترة حسب الحسابات العامة */
+  is_public?: boolean;
+  /** فلترة حسب الحسابات المفضلة */
+  is_preferred?: boolean;
+  /** فلترة حسب الحسابات المميزة */
+  is_featured?: boolean;
+  /** فلترة حسب عرض في الملف الشخصي */
+  show_in_profile?: boolean;
+  /** فلترة حسب السماح بالتواصل */
+  allow_contact?: boolean;
+  /** ترتيب النتائج */
+  order_by?: "display_order" | "priority" | "followers" | "clicks" | "engagement" | "created_at";
+  /** اتجاه الترتيب */
+  order_direction?: "asc" | "desc";
+  /** عدد العناصر في الصفحة */
+  per_page?: number;
+}
+
+export type ListUserSocialMediaAccountsData = Array<Record<string, unknown>>;
+
+/** قائمة حسابات وسائل التواصل الاجتماعي */
+export const listUserSocialMediaAccounts = <T = ListUserSocialMediaAccountsData>(
+  query?: ListUserSocialMediaAccountsQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery("/social-media/accounts", query), undefined, config);
+
+export type CreateUserSocialMediaAccountBody = {
+  platform: "whatsapp" | "facebook" | "twitter" | "instagram" | "linkedin" | "telegram" | "snapchat" | "youtube" | "tiktok" | "discord" | "twitch" | "pinterest" | "reddit" | "github" | "behance" | "dribbble" | "medium" | "vimeo" | "soundcloud" | "spotify" | "apple_music" | "website" | "email" | "phone" | "other";
+  profile_url: string;
+  username?: string;
+  display_name?: string;
+  description?: string;
+  bio?: string;
+  is_verified?: boolean;
+  is_public?: boolean;
+  display_order?: number;
+  priority?: number;
+  is_active?: boolean;
+  is_preferred?: boolean;
+  is_featured?: boolean;
+  followers_count?: number;
+  following_count?: number;
+  posts_count?: number;
+  likes_count?: number;
+  engagement_rate?: number;
+  avatar_url?: string;
+  last_activity_at?: string;
+  created_on_platform_at?: string;
+  allow_contact?: boolean;
+  show_in_profile?: boolean;
+  show_in_search?: boolean;
+};
+
+export type CreateUserSocialMediaAccountData = Record<string, unknown>;
+
+/** إنشاء حساب وسائل التواصل الاجتماعي */
+export const createUserSocialMediaAccount = <T = CreateUserSocialMediaAccountData>(
+  body: CreateUserSocialMediaAccountBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", "/social-media/accounts", body, config);
+
+export type ShowUserSocialMediaAccountData = Record<string, unknown>;
+
+/** تفاصيل حساب وسائل التواصل الاجتماعي */
+export const showUserSocialMediaAccount = <T = ShowUserSocialMediaAccountData>(
+  id: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/social-media/accounts/${id}`, undefined, config);
+
+export type UpdateUserSocialMediaAccountBody = {
+  platform?: string;
+  profile_url?: string;
+  username?: string;
+  display_name?: string;
+  description?: string;
+  bio?: string;
+  is_verified?: boolean;
+  is_public?: boolean;
+  display_order?: number;
+  priority?: number;
+  is_active?: boolean;
+  is_preferred?: boolean;
+  is_featured?: boolean;
+  followers_count?: number;
+  following_count?: number;
+  posts_count?: number;
+  likes_count?: number;
+  engagement_rate?: number;
+  avatar_url?: string;
+  last_activity_at?: string;
+  created_on_platform_at?: string;
+  allow_contact?: boolean;
+  show_in_profile?: boolean;
+  show_in_search?: boolean;
+};
+
+export type UpdateUserSocialMediaAccountData = Record<string, unknown>;
+
+/** تعديل حساب وسائل التواصل الاجتماعي */
+export const updateUserSocialMediaAccount = <T = UpdateUserSocialMediaAccountData>(
+  id: PathParam,
+  body?: UpdateUserSocialMediaAccountBody,
+  config?: RequestConfig
+) =>
+  request<T>("patch", `/social-media/accounts/${id}`, body, config);
+
+export type DeleteUserSocialMediaAccountData = unknown;
+
+/** حذف حساب وسائل التواصل الاجتماعي */
+export const deleteUserSocialMediaAccount = <T = DeleteUserSocialMediaAccountData>(
+  id: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("delete", `/social-media/accounts/${id}`, undefined, config);
+
+export type MakePreferredUserSocialMediaAccountData = Record<string, unknown>;
+
+/** تعيين كحساب مفضل */
+export const makePreferredUserSocialMediaAccount = <T = MakePreferredUserSocialMediaAccountData>(
+  id: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/social-media/accounts/${id}/preferred`, undefined, config);
+
+export type ToggleUserSocialMediaAccountStatusData = Record<string, unknown>;
+
+/** تبديل حالة الحساب */
+export const toggleUserSocialMediaAccountStatus = <T = ToggleUserSocialMediaAccountStatusData>(
+  id: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/social-media/accounts/${id}/toggle-status`, undefined, config);
+
+export type ToggleUserSocialMediaAccountVerificationData = Record<string, unknown>;
+
+/** تبديل حالة التحقق */
+export const toggleUserSocialMediaAccountVerification = <T = ToggleUserSocialMediaAccountVerificationData>(
+  id: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/social-media/accounts/${id}/toggle-verification`, undefined, config);
+
+export type ToggleUserSocialMediaAccountFeaturedData = Record<string, unknown>;
+
+/** تبديل حالة التميز */
+export const toggleUserSocialMediaAccountFeatured = <T = ToggleUserSocialMediaAccountFeaturedData>(
+  id: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/social-media/accounts/${id}/toggle-featured`, undefined, config);
+
+export type IncrementUserSocialMediaClickData = unknown;
+
+/** تسجيل نقرة على الحساب */
+export const incrementUserSocialMediaClick = <T = IncrementUserSocialMediaClickData>(
+  id: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/social-media/accounts/${id}/click`, undefined, config);
+
+export type UpdateUserSocialMediaActivityData = unknown;
+
+/** تحديث نشاط الحساب */
+export const updateUserSocialMediaActivity = <T = UpdateUserSocialMediaActivityData>(
+  id: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("post", `/social-media/accounts/${id}/activity`, undefined, config);
+
+export type UpdateUserSocialMediaStatisticsBody = {
+  followers_count?: number;
+  following_count?: number;
+  posts_count?: number;
+  likes_count?: number;
+  engagement_rate?: number;
+  avatar_url?: string;
+  last_activity_at?: string;
+};
+
+export type UpdateUserSocialMediaStatisticsData = Record<string, unknown>;
+
+/** تحديث إحصائيات الحساب */
+export const updateUserSocialMediaStatistics = <T = UpdateUserSocialMediaStatisticsData>(
+  id: PathParam,
+  body?: UpdateUserSocialMediaStatisticsBody,
+  config?: RequestConfig
+) =>
+  request<T>("patch", `/social-media/accounts/${id}/statistics`, body, config);
+
+export type GetUserSocialMediaStatisticsData = Record<string, unknown>;
+
+/** إحصائيات وسائل التواصل الاجتماعي */
+export const getUserSocialMediaStatistics = <T = GetUserSocialMediaStatisticsData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/social-media/accounts/statistics", undefined, config);
+
+export type GetUserSocialMediaPlatformStatisticsData = Record<string, unknown>;
+
+/** إحصائيات المنصات */
+export const getUserSocialMediaPlatformStatistics = <T = GetUserSocialMediaPlatformStatisticsData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/social-media/accounts/platform-statistics", undefined, config);
+
+export type GetUserSocialMediaEngagementAnalyticsData = Record<string, unknown>;
+
+/** تحليلات التفاعل */
+export const getUserSocialMediaEngagementAnalytics = <T = GetUserSocialMediaEngagementAnalyticsData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/social-media/accounts/engagement-analytics", undefined, config);
+
+export type GetUserSocialMediaForProfileDisplayData = Array<Record<string, unknown>>;
+
+/** حسابات العرض في الملف الشخصي */
+export const getUserSocialMediaForProfileDisplay = <T = GetUserSocialMediaForProfileDisplayData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/social-media/accounts/profile-display", undefined, config);
+
+export type GetContactableUserSocialMediaData = Array<Record<string, unknown>>;
+
+/** الحسابات القابلة للتواصل */
+export const getContactableUserSocialMedia = <T = GetContactableUserSocialMediaData>(
+  config?: RequestConfig
+) =>
+  request<T>("get", "/social-media/accounts/contactable", undefined, config);
+
+export type ReorderUserSocialMediaAccountsBody = {
+  order?: Array<{
+    id?: number;
+    display_order?: number;
+  }>;
+};
+
+export type ReorderUserSocialMediaAccountsData = unknown;
+
+/** إعادة ترتيب الحسابات */
+export const reorderUserSocialMediaAccounts = <T = ReorderUserSocialMediaAccountsData>(
+  body: ReorderUserSocialMediaAccountsBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", "/social-media/accounts/reorder", body, config);
+
+export type BulkUpdateUserSocialMediaAccountsBody = {
+  updates?: Array<{
+    id?: number;
+    platform?: string;
+    profile_url?: string;
+    username?: string;
+    display_name?: string;
+    is_active?: boolean;
+    is_verified?: boolean;
+  }>;
+};
+
+export type BulkUpdateUserSocialMediaAccountsData = Record<string, unknown>;
+
+/** تحديث جماعي للحسابات */
+export const bulkUpdateUserSocialMediaAccounts = <T = BulkUpdateUserSocialMediaAccountsData>(
+  body: BulkUpdateUserSocialMediaAccountsBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", "/social-media/accounts/bulk-update", body, config);
+
+export interface ExportUserSocialMediaDataQuery {
+  /** تنسيق التصدير */
+  format?: "json";
+}
+
+export type ExportUserSocialMediaDataData = Record<string, unknown>;
+
+/** تصدير بيانات وسائل التواصل الاجتماعي */
+export const exportUserSocialMediaData = <T = ExportUserSocialMediaDataData>(
+  query?: ExportUserSocialMediaDataQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery("/social-media/accounts/export", query), undefined, config);
+
+export type ImportUserSocialMediaDataBody = {
+  data?: Array<{
+    platform?: string;
+    profile_url?: string;
+    username?: string;
+    display_name?: string;
+  }>;
+};
+
+export type ImportUserSocialMediaDataData = Record<string, unknown>;
+
+/** استيراد بيانات وسائل التواصل الاجتماعي */
+export const importUserSocialMediaData = <T = ImportUserSocialMediaDataData>(
+  body: ImportUserSocialMediaDataBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", "/social-media/accounts/import", body, config);
+
+// --- Verification ---
+
+export type VerifyEmailVerificationBody = {
+  token: string;
+};
+
+export type VerifyEmailVerificationData = Record<string, unknown>;
+
+/** Verify email verification */
+export const verifyEmailVerification = <T = VerifyEmailVerificationData>(
+  body: VerifyEmailVerificationBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", "/auth/verification/verify-email", body, config);
+
+export type ResendEmailVerificationData = unknown;
+
+/** Resend email verification */
+export const resendEmailVerification = <T = ResendEmailVerificationData>(
+  config?: RequestConfig
+) =>
+  request<T>("post", "/auth/verification/resend-email", undefined, config);
+
+export type SendPhoneVerificationData = unknown;
+
+/** Send phone verification */
+export const sendPhoneVerification = <T = SendPhoneVerificationData>(
+  config?: RequestConfig
+) =>
+  request<T>("post", "/auth/verification/send-phone", undefined, config);
+
+export interface VerifyPhoneVerificationQuery {
+  /** Verification code */
+  token: string;
+}
+
+export type VerifyPhoneVerificationData = Record<string, unknown>;
+
+/** Verify email by link */
+export const verifyPhoneVerification = <T = VerifyPhoneVerificationData>(
+  query: VerifyPhoneVerificationQuery,
+  config?: RequestConfig
+) =>
+  request<T>("post", withQuery("/auth/verification/verify-phone", query), undefined, config);
+
+export type ForgotPasswordBody = {
+  email?: string;
+  phone?: string;
+};
+
+export type ForgotPasswordData = unknown;
+
+/** Forgot password */
+export const forgotPassword = <T = ForgotPasswordData>(
+  body: ForgotPasswordBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", "/auth/verification/forgot-password", body, config);
+
+export type VerifyPasswordResetTokenBody = {
+  token: string;
+  email?: string;
+  phone?: string;
+};
+
+export type VerifyPasswordResetTokenData = unknown;
+
+/** Verify password reset token */
+export const verifyPasswordResetToken = <T = VerifyPasswordResetTokenData>(
+  body: VerifyPasswordResetTokenBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", "/auth/verification/verify-password-reset-token", body, config);
+
+export type ResetPasswordBody = {
+  token: string;
+  email?: string;
+  phone?: string;
+  password: string;
+  password_confirmation: string;
+};
+
+export type ResetPasswordData = unknown;
+
+/** Reset password */
+export const resetPassword = <T = ResetPasswordData>(
+  body: ResetPasswordBody,
+  config?: RequestConfig
+) =>
+  request<T>("post", "/auth/verification/reset-password", body, config);
+
+// --- World Data ---
+
+export interface GetCountriesQuery {
+  /** فلتر البلدان النشطة */
+  active?: boolean;
+  /** فلتر حسب المنطقة */
+  region?: string;
+  /** البحث في أسماء البلدان أو رموز ISO */
+  search?: string;
+}
+
+export type GetCountriesData = Array<Record<string, unknown>>;
+
+/** قائمة البلدان */
+export const getCountries = <T = GetCountriesData>(
+  query?: GetCountriesQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery("/world/countries", query), undefined, config);
+
+export type GetCountryByIsoData = Record<string, unknown>;
+
+/** معلومات بلد معين */
+export const getCountryByIso = <T = GetCountryByIsoData>(
+  isoCode: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/world/countries/${isoCode}`, undefined, config);
+
+export interface GetStatesByCountryQuery {
+  /** البحث في أسماء الولايات */
+  search?: string;
+}
+
+export type GetStatesByCountryData = Array<Record<string, unknown>>;
+
+/** ولايات بلد معين */
+export const getStatesByCountry = <T = GetStatesByCountryData>(
+  countryCode: PathParam,
+  query?: GetStatesByCountryQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery(`/world/countries/${countryCode}/states`, query), undefined, config);
+
+export interface GetCitiesByStateQuery {
+  /** البحث في أسماء المدن */
+  search?: string;
+}
+
+export type GetCitiesByStateData = Array<Record<string, unknown>>;
+
+/** مدن ولاية معينة */
+export const getCitiesByState = <T = GetCitiesByStateData>(
+  stateCode: PathParam,
+  query?: GetCitiesByStateQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery(`/world/states/${stateCode}/cities`, query), undefined, config);
+
+export interface GetCitiesByCountryQuery {
+  /** البحث في أسماء المدن */
+  search?: string;
+}
+
+export type GetCitiesByCountryData = Array<Record<string, unknown>>;
+
+/** مدن بلد معين */
+export const getCitiesByCountry = <T = GetCitiesByCountryData>(
+  countryCode: PathParam,
+  query?: GetCitiesByCountryQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery(`/world/countries/${countryCode}/cities`, query), undefined, config);
+
+export interface GetAllCitiesQuery {
+  /** البحث في أسماء المدن */
+  search?: string;
+}
+
+export type GetAllCitiesData = Array<Record<string, unknown>>;
+
+/** مدن */
+export const getAllCities = <T = GetAllCitiesData>(
+  query?: GetAllCitiesQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery("/world/cities", query), undefined, config);
+
+export type GetHierarchicalDataData = Record<string, unknown>;
+
+/** بيانات هرمية لبلد معين */
+export const getHierarchicalData = <T = GetHierarchicalDataData>(
+  countryCode: PathParam,
+  config?: RequestConfig
+) =>
+  request<T>("get", `/world/countries/${countryCode}/hierarchy`, undefined, config);
+
+export interface SearchLocationsQuery {
+  /** مصطلح البحث (مطلوب، الحد الأدنى حرفين) */
+  search: string;
+  /** الحد الأقصى للنتائج (افتراضي: 10، الحد الأقصى: 50) */
+  limit?: number;
+}
+
+export type SearchLocationsData = Record<string, unknown>;
+
+/** البحث في المواقع */
+export const searchLocations = <T = SearchLocationsData>(
+  query: SearchLocationsQuery,
+  config?: RequestConfig
+) =>
+  request<T>("get", withQuery("/world/search", query), undefined, config);
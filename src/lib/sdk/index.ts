@@ -0,0 +1,4 @@
+// Typed API client generated from api.json, see scripts/generate-api-sdk.mjs
+export * from "./generated";
+export { withQuery } from "./utils";
+export type { PathParam, QueryParams } from "./utils";
@@ -0,0 +1,36 @@
+/**
+ * Helpers shared by the generated API client
+ */
+
+export type PathParam = string | number;
+
+type QueryValue = string | number | boolean | null | undefined;
+
+export type QueryParams = Record<string, QueryValue | QueryValue[]>;
+
+const toQueryValue = (value: string | number | boolean) =>
+  typeof value === "boolean" ? (value ? "1" : "0") : String(value);
+
+/**
+ * Append query parameters to a URL, skipping empty values.
+ * Arrays are sent as `key[]=a&key[]=b`.
+ */
+export function withQuery(url: string, query?: object): string {
+  if (!query) return url;
+
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query as QueryParams)) {
+    if (Array.isArray(value)) {
+      value.forEach((item) => {
+        if (item !== null && item !== undefined && item !== "") {
+          params.append(`${key}[]`, toQueryValue(item));
+        }
+      });
+    } else if (value !== null && value !== undefined && value !== "") {
+      params.append(key, toQueryValue(value));
+    }
+  }
+
+  const search = params.toString();
+  return search ? `${url}?${search}` : url;
+}
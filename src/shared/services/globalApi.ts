@@ -1,45 +1,37 @@
 import { ApiResponse } from "@/features/auth/types/auth";
 import { Country, State, City } from "@/types/globalTypes";
-import { api } from "@/lib/api";
+import * as sdk from "@/lib/sdk";
 
 export const globalApi = {
   getCountries: async (): Promise<ApiResponse<Country[]>> => {
-    const response = await api.get<{ success: boolean; response: Country[] }>(
-      "/world/countries"
-    );
+    const response = await sdk.getCountries<Country[]>();
     return {
-      success: response.data.success,
-      data: response.data.response,
+      success: response.success,
+      data: response.response || response.data,
     };
   },
 
   getStates: async (countryCode: string): Promise<ApiResponse<State[]>> => {
-    const response = await api.get<{ success: boolean; response: State[] }>(
-      `/world/countries/${countryCode}/states`
-    );
+    const response = await sdk.getStatesByCountry<State[]>(countryCode);
     return {
-      success: response.data.success,
-      data: response.data.response,
+      success: response.success,
+      data: response.response || response.data,
     };
   },
 
   getCities: async (stateCode: string): Promise<ApiResponse<City[]>> => {
-    const response = await api.get<{ success: boolean; response: City[] }>(
-      `/world/states/${stateCode}/cities`
-    );
+    const response = await sdk.getCitiesByState<City[]>(stateCode);
     return {
-      success: response.data.success,
-      data: response.data.response,
+      success: response.success,
+      data: response.response || response.data,
     };
   },
 
   getAllCities: async (): Promise<ApiResponse<City[]>> => {
-    const response = await api.get<{ success: boolean; response: City[] }>(
-      "/world/cities"
-    );
+    const response = await sdk.getAllCities<City[]>();
     return {
-      success: response.data.success,
-      data: response.data.response,
+      success: response.success,
+      data: response.response || response.data,
     };
   },
 };